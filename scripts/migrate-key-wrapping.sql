@@ -0,0 +1,75 @@
+-- =====================================================
+-- MIGRAÇÃO: Re-proteção das chaves privadas (envelope v2)
+-- =====================================================
+-- Continuação de scripts/migrate-key-encryption.sql.
+--
+-- As chaves v1 foram criptografadas com chave/salt FIXOS embutidos no
+-- bundle do navegador: quem tiver a tabela key_pairs consegue
+-- descriptografá-las. O esquema v2 usa uma DEK aleatória por registro,
+-- protegida por uma KEK derivada da MASTER_ENCRYPTION_KEY (somente no
+-- servidor) com salt aleatório por registro.
+--
+-- A re-proteção exige a chave mestra, portanto é executada pela Edge
+-- Function key-vault (não pelo SQL):
+--
+--   curl -X POST "$SUPABASE_URL/functions/v1/key-vault" \
+--     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+--     -H "Content-Type: application/json" \
+--     -d '{"action":"rewrap","batchSize":100}'
+--
+-- Repita enquanto a resposta retornar "hasMore": true.
+-- Chaves também são re-protegidas sob demanda no próximo uso (assinatura).
+-- =====================================================
+
+-- =====================================================
+-- 1. PRÉ-REQUISITOS
+-- =====================================================
+-- a) supabase/migations/20261018_key_wrapping.sql aplicada
+-- b) Secret MASTER_ENCRYPTION_KEY (>= 32 caracteres) configurado:
+--      supabase secrets set MASTER_ENCRYPTION_KEY="$(openssl rand -base64 48)"
+-- c) Edge Functions key-vault e sign-content publicadas
+
+-- =====================================================
+-- 2. SITUAÇÃO ANTES DA RE-PROTEÇÃO
+-- =====================================================
+SELECT
+    COALESCE(key_version, 1) AS key_version,
+    encryption_algorithm,
+    COUNT(*) AS total_chaves,
+    COUNT(private_key) AS chaves_texto_plano,
+    COUNT(wrapped_dek) AS chaves_envelope
+FROM key_pairs
+GROUP BY 1, 2
+ORDER BY 1;
+
+-- =====================================================
+-- 3. EXECUTAR A RE-PROTEÇÃO (Edge Function key-vault, ver acima)
+-- =====================================================
+
+-- =====================================================
+-- 4. VERIFICAÇÃO PÓS-MIGRAÇÃO
+-- =====================================================
+SELECT
+    COUNT(*) AS total_chaves,
+    COUNT(*) FILTER (WHERE COALESCE(key_version, 1) < 2 OR wrapped_dek IS NULL) AS chaves_pendentes,
+    COUNT(private_key) AS chaves_texto_plano
+FROM key_pairs;
+
+-- =====================================================
+-- 5. FINALIZAÇÃO (somente quando chaves_pendentes = 0)
+-- =====================================================
+-- Impede que novos registros sejam gravados em formato legado.
+BEGIN;
+
+ALTER TABLE key_pairs DROP CONSTRAINT IF EXISTS check_key_exists;
+
+ALTER TABLE key_pairs DROP CONSTRAINT IF EXISTS key_pairs_envelope_only;
+ALTER TABLE key_pairs ADD CONSTRAINT key_pairs_envelope_only
+CHECK (
+  private_key IS NULL AND
+  key_version >= 2 AND
+  wrapped_dek IS NOT NULL AND
+  key_salt IS NOT NULL
+);
+
+COMMIT;
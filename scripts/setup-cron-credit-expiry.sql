@@ -0,0 +1,76 @@
+-- ============================================================================
+-- 📒 CONFIGURAÇÃO DE CRON JOB PARA EXPIRAÇÃO DE CRÉDITOS AVULSOS
+-- ============================================================================
+--
+-- Este script configura um Cron Job no Supabase usando pg_cron para
+-- registrar, todo dia, a expiração dos lotes de créditos avulsos vencidos
+-- (lançamentos 'expire' no credit_ledger). O saldo exibido já ignora lotes
+-- vencidos; o job deixa o extrato explícito mesmo para usuários que não
+-- renovam o plano (a renovação também chama expire_credits).
+--
+-- Pré-requisitos:
+-- - Migration 20261018_credit_ledger.sql aplicada
+--
+-- Data: 2026-10-18
+--
+-- ============================================================================
+
+-- ============================================================================
+-- PASSO 1: HABILITAR EXTENSÃO PG_CRON (se ainda não estiver habilitada)
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- ============================================================================
+-- PASSO 2: AGENDAR CRON JOB (Diariamente às 03:30 UTC)
+-- ============================================================================
+
+-- Remover job existente (se houver)
+SELECT cron.unschedule('expire-credits-daily');
+
+-- Criar novo job
+-- Cron expression: '30 3 * * *' = Todo dia às 03:30 UTC
+SELECT cron.schedule(
+  'expire-credits-daily',  -- Nome do job
+  '30 3 * * *',            -- Cron expression
+  $$
+  SELECT expire_credits();
+  $$
+);
+
+-- ============================================================================
+-- PASSO 3: VERIFICAR CONFIGURAÇÃO
+-- ============================================================================
+
+SELECT * FROM cron.job WHERE jobname = 'expire-credits-daily';
+
+-- Expirações registradas nos últimos 7 dias
+SELECT user_id, SUM(-amount) AS creditos_expirados, COUNT(*) AS lotes
+FROM credit_ledger
+WHERE entry_type = 'expire'
+  AND created_at > NOW() - INTERVAL '7 days'
+GROUP BY user_id
+ORDER BY creditos_expirados DESC
+LIMIT 20;
+
+-- ============================================================================
+-- PASSO 4: TESTAR MANUALMENTE (OPCIONAL)
+-- ============================================================================
+
+SELECT expire_credits();
+
+-- ============================================================================
+-- NOTAS IMPORTANTES
+-- ============================================================================
+
+-- 1. O extrato é append-only: para corrigir um saldo use o ajuste do admin
+--    (AdminUsers → ícone de moedas) ou admin_adjust_credits().
+
+-- 2. Conferência de consistência (deve retornar zero linhas):
+--    SELECT l.id, l.credits_remaining, SUM(e.amount)
+--    FROM credit_lots l JOIN credit_ledger e ON e.lot_id = l.id
+--    GROUP BY l.id HAVING l.credits_remaining <> SUM(e.amount);
+
+-- ============================================================================
+-- FIM DA CONFIGURAÇÃO
+-- ============================================================================
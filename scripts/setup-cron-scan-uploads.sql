@@ -0,0 +1,118 @@
+-- ============================================================================
+-- 🛡️ CONFIGURAÇÃO DE CRON JOB PARA A FILA DE VERIFICAÇÃO DE ARQUIVOS
+-- ============================================================================
+--
+-- Este script configura um Cron Job no Supabase usando pg_cron para processar,
+-- a cada minuto, a fila scan_jobs (Edge Function scan-uploads). O app pede a
+-- verificação imediata logo após o upload; o cron cobre as novas tentativas
+-- (backoff), leases vencidos e uploads que não foram verificados na hora.
+--
+-- Pré-requisitos:
+-- - Migration 20261018_scan_jobs.sql aplicada
+-- - Scanner configurado (ver docs/MALWARE_SCANNING.md)
+-- - app.settings.project_url e app.settings.service_role_key configurados
+--   (ver PASSO 3 de scripts/setup-cron-cleanup.sql)
+--
+-- Data: 2026-10-18
+--
+-- ============================================================================
+
+-- ============================================================================
+-- PASSO 1: HABILITAR EXTENSÃO PG_CRON (se ainda não estiver habilitada)
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- ============================================================================
+-- PASSO 2: CRIAR FUNÇÃO AUXILIAR PARA CHAMAR EDGE FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION call_scan_uploads_worker()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+  response TEXT;
+BEGIN
+  project_url := current_setting('app.settings.project_url', true);
+  service_role_key := current_setting('app.settings.service_role_key', true);
+
+  -- Com a service_role a função esvazia a fila (até ~2 minutos por execução)
+  SELECT content::text INTO response
+  FROM http_post(
+    project_url || '/functions/v1/scan-uploads',
+    '{}',
+    'application/json',
+    ARRAY[
+      http_header('Authorization', 'Bearer ' || service_role_key)
+    ]
+  );
+
+  RAISE NOTICE '🛡️ Fila de scans processada: %', response;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING '❌ Erro ao processar fila de scans: %', SQLERRM;
+END;
+$$;
+
+-- ============================================================================
+-- PASSO 3: AGENDAR CRON JOB (A cada minuto)
+-- ============================================================================
+
+-- Remover job existente (se houver)
+SELECT cron.unschedule('scan-uploads-every-minute');
+
+-- Criar novo job
+-- Cron expression: '* * * * *' = Todo minuto
+SELECT cron.schedule(
+  'scan-uploads-every-minute',  -- Nome do job
+  '* * * * *',                  -- Cron expression
+  $$
+  SELECT call_scan_uploads_worker();
+  $$
+);
+
+-- ============================================================================
+-- PASSO 4: VERIFICAR CONFIGURAÇÃO
+-- ============================================================================
+
+SELECT * FROM cron.job WHERE jobname = 'scan-uploads-every-minute';
+
+-- Situação da fila
+SELECT status, COUNT(*), MIN(next_run_at) AS proxima_execucao
+FROM scan_jobs
+GROUP BY status;
+
+-- Jobs com falha definitiva
+SELECT object_path, attempts, last_error, finished_at
+FROM scan_jobs
+WHERE status = 'failed'
+ORDER BY finished_at DESC
+LIMIT 20;
+
+-- ============================================================================
+-- PASSO 5: TESTAR MANUALMENTE (OPCIONAL)
+-- ============================================================================
+
+SELECT call_scan_uploads_worker();
+
+-- ============================================================================
+-- NOTAS IMPORTANTES
+-- ============================================================================
+
+-- 1. Execuções sobrepostas são seguras: claim_scan_jobs() usa
+--    FOR UPDATE SKIP LOCKED e cada job tem um lease (locked_until).
+
+-- 2. Sem scanner configurado a Edge Function responde 503 e os jobs
+--    continuam na fila; nenhum arquivo é liberado para signed-documents.
+
+-- 3. Para reprocessar um job com falha definitiva:
+--    UPDATE scan_jobs SET status = 'queued', attempts = 0, next_run_at = NOW()
+--    WHERE object_path = '<path>';
+
+-- ============================================================================
+-- FIM DA CONFIGURAÇÃO
+-- ============================================================================
@@ -0,0 +1,74 @@
+-- ============================================================================
+-- 📦 CONFIGURAÇÃO DE CRON JOB PARA RECONCILIAÇÃO DO ARMAZENAMENTO
+-- ============================================================================
+--
+-- Este script configura um Cron Job no Supabase usando pg_cron para
+-- recalcular, todo dia, o consumo de armazenamento (storage_usage) de todos
+-- os usuários a partir de storage.objects. Os triggers mantêm o saldo em
+-- tempo real; a reconciliação corrige divergências (arquivos removidos fora
+-- do Storage API, falhas parciais, dados anteriores à migration).
+--
+-- Pré-requisitos:
+-- - Migration 20261018_storage_quotas.sql aplicada
+--
+-- Data: 2026-10-18
+--
+-- ============================================================================
+
+-- ============================================================================
+-- PASSO 1: HABILITAR EXTENSÃO PG_CRON (se ainda não estiver habilitada)
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- ============================================================================
+-- PASSO 2: AGENDAR CRON JOB (Diariamente às 04:00 UTC)
+-- ============================================================================
+
+-- Remover job existente (se houver)
+SELECT cron.unschedule('reconcile-storage-usage-daily');
+
+-- Criar novo job
+-- Cron expression: '0 4 * * *' = Todo dia às 04:00 UTC
+SELECT cron.schedule(
+  'reconcile-storage-usage-daily',  -- Nome do job
+  '0 4 * * *',                      -- Cron expression
+  $$
+  SELECT reconcile_all_storage_usage();
+  $$
+);
+
+-- ============================================================================
+-- PASSO 3: VERIFICAR CONFIGURAÇÃO
+-- ============================================================================
+
+SELECT * FROM cron.job WHERE jobname = 'reconcile-storage-usage-daily';
+
+-- Divergências encontradas na última reconciliação
+SELECT user_id, last_drift_bytes, reconciled_at
+FROM storage_usage
+WHERE last_drift_bytes <> 0
+ORDER BY ABS(last_drift_bytes) DESC
+LIMIT 20;
+
+-- ============================================================================
+-- PASSO 4: TESTAR MANUALMENTE (OPCIONAL)
+-- ============================================================================
+
+SELECT reconcile_all_storage_usage();
+
+-- ============================================================================
+-- NOTAS IMPORTANTES
+-- ============================================================================
+
+-- 1. A reconciliação de um usuário também pode ser feita pelo app
+--    (botão "Recalcular" no card de Armazenamento) ou pelo admin
+--    (card "Maiores Consumidores de Armazenamento").
+
+-- 2. Para alterar a cota de um plano:
+--    UPDATE storage_plan_quotas SET quota_bytes = 10737418240
+--    WHERE plan_type = 'creator';
+
+-- ============================================================================
+-- FIM DA CONFIGURAÇÃO
+-- ============================================================================
@@ -0,0 +1,109 @@
+-- ============================================================================
+-- 🌳 CONFIGURAÇÃO DE CRON JOB PARA O LOG DE TRANSPARÊNCIA
+-- ============================================================================
+--
+-- Este script configura um Cron Job no Supabase usando pg_cron para publicar,
+-- de hora em hora, um novo tree head assinado (STH) do log de transparência
+-- dos certificados (Edge Function transparency-log, action = publish).
+--
+-- Pré-requisitos:
+-- - Migration 20261018_transparency_log.sql aplicada
+-- - Secret TRANSPARENCY_LOG_SIGNING_KEY configurado (ver docs/TRANSPARENCY_LOG.md)
+-- - app.settings.project_url e app.settings.service_role_key configurados
+--   (ver PASSO 3 de scripts/setup-cron-cleanup.sql)
+--
+-- Data: 2026-10-18
+--
+-- ============================================================================
+
+-- ============================================================================
+-- PASSO 1: HABILITAR EXTENSÃO PG_CRON (se ainda não estiver habilitada)
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- ============================================================================
+-- PASSO 2: CRIAR FUNÇÃO AUXILIAR PARA CHAMAR EDGE FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION call_publish_transparency_tree_head()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+  response TEXT;
+BEGIN
+  project_url := current_setting('app.settings.project_url', true);
+  service_role_key := current_setting('app.settings.service_role_key', true);
+
+  -- Somente a service_role pode publicar tree heads
+  SELECT content::text INTO response
+  FROM http_post(
+    project_url || '/functions/v1/transparency-log',
+    '{"action":"publish"}',
+    'application/json',
+    ARRAY[
+      http_header('Authorization', 'Bearer ' || service_role_key)
+    ]
+  );
+
+  RAISE NOTICE '🌳 Tree head publicado: %', response;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING '❌ Erro ao publicar tree head: %', SQLERRM;
+END;
+$$;
+
+-- ============================================================================
+-- PASSO 3: AGENDAR CRON JOB (A cada hora, no minuto 5)
+-- ============================================================================
+
+-- Remover job existente (se houver)
+SELECT cron.unschedule('transparency-log-publish-hourly');
+
+-- Criar novo job
+-- Cron expression: '5 * * * *' = Minuto 5 de toda hora (UTC)
+SELECT cron.schedule(
+  'transparency-log-publish-hourly',  -- Nome do job
+  '5 * * * *',                        -- Cron expression
+  $$
+  SELECT call_publish_transparency_tree_head();
+  $$
+);
+
+-- ============================================================================
+-- PASSO 4: VERIFICAR CONFIGURAÇÃO
+-- ============================================================================
+
+SELECT * FROM cron.job WHERE jobname = 'transparency-log-publish-hourly';
+
+-- Últimos tree heads publicados
+SELECT tree_size, root_hash, signed_at, log_key_id
+FROM transparency_tree_heads
+ORDER BY tree_size DESC
+LIMIT 10;
+
+-- ============================================================================
+-- PASSO 5: TESTAR MANUALMENTE (OPCIONAL)
+-- ============================================================================
+
+SELECT call_publish_transparency_tree_head();
+
+-- ============================================================================
+-- NOTAS IMPORTANTES
+-- ============================================================================
+
+-- 1. Sem entradas novas, a Edge Function não grava um tree head repetido.
+
+-- 2. Certificados emitidos após o último tree head aparecem como
+--    "Aguardando publicação" no /certificate até a próxima execução.
+
+-- 3. Se a Edge Function responder 409, a raiz recalculada divergiu do
+--    último tree head publicado: trate como incidente de segurança.
+
+-- ============================================================================
+-- FIM DA CONFIGURAÇÃO
+-- ============================================================================
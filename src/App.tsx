@@ -9,13 +9,17 @@ import Dashboard from './pages/Dashboard';
 import Profile from './pages/Profile';
 import SignContent from './pages/SignContent';
 import SignCarousel from './pages/SignCarousel';
+import SignBatch from './pages/SignBatch';
 import ForgotPassword from './pages/ForgotPassword';
 import ResetPassword from './pages/ResetPassword';
 import AuthCallback from './pages/AuthCallback';
 import AdminDashboard from './pages/AdminDashboard';
 import AdminUsers from './pages/AdminUsers';
 import AdminAuditLogs from './pages/AdminAuditLogs';
+import AdminContentReports from './pages/AdminContentReports';
+import AdminStripeEvents from './pages/AdminStripeEvents';
 import Settings from './pages/Settings';
+import Organizations from './pages/Organizations';
 import Terms from './pages/Terms';
 import PrivacyPolicy from './pages/PrivacyPolicy';
 import Verify from './pages/Verify';
@@ -393,10 +397,18 @@ function AppContent() {
           path="/sign-carousel"
           element={session ? <SignCarousel /> : <Navigate to="/login" />}
         />
+        <Route
+          path="/sign-batch"
+          element={session ? <SignBatch /> : <Navigate to="/login" />}
+        />
         <Route
           path="/settings"
           element={session ? <Settings /> : <Navigate to="/login" />}
         />
+        <Route
+          path="/organizations"
+          element={session ? <Organizations /> : <Navigate to="/login" />}
+        />
         <Route
           path="/admin"
           element={session ? <AdminDashboard /> : <Navigate to="/login" />}
@@ -413,6 +425,14 @@ function AppContent() {
           path="/admin/audit-logs"
           element={session ? <AdminAuditLogs /> : <Navigate to="/login" />}
         />
+        <Route
+          path="/admin/reports"
+          element={session ? <AdminContentReports /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/admin/billing-events"
+          element={session ? <AdminStripeEvents /> : <Navigate to="/login" />}
+        />
       </Routes>
     </>
   );
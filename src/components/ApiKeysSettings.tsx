@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Code2, Copy, Ban, Plus, Loader2, AlertTriangle } from 'lucide-react';
+import {
+  createApiKey,
+  getApiUsageSummary,
+  listApiKeys,
+  revokeApiKey,
+  PUBLIC_API_BASE_URL,
+  SIGN_API_URL,
+} from '@/lib/services/api-keys-service';
+import type { ApiKey, ApiKeyScope, ApiUsageSummary } from '@/lib/services/api-keys-service';
+import { useToast } from '@/hooks/use-toast';
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  verify: 'Verificação',
+  sign: 'Assinatura',
+};
+
+/**
+ * 🔌 Chaves da API (verificação e assinatura programática) e consumo do período
+ */
+export const ApiKeysSettings = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [usage, setUsage] = useState<ApiUsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(['verify']);
+  const [creating, setCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    const [keyList, summary] = await Promise.all([listApiKeys(), getApiUsageSummary()]);
+    setKeys(keyList);
+    setUsage(summary);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleCreate = async () => {
+    if (!newKeyName.trim() || newKeyScopes.length === 0) return;
+
+    setCreating(true);
+    const result = await createApiKey(newKeyName.trim(), newKeyScopes);
+    setCreating(false);
+
+    if (!result.success || !result.key) {
+      toast({
+        title: 'Erro ao criar chave',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCreatedKey(result.key);
+    setNewKeyName('');
+    setNewKeyScopes(['verify']);
+    await loadData();
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    const confirmed = window.confirm(
+      `Revogar a chave "${key.name}"? Integrações que usam esta chave deixarão de funcionar imediatamente.`
+    );
+    if (!confirmed) return;
+
+    const result = await revokeApiKey(key.id);
+    if (!result.success) {
+      toast({
+        title: 'Erro ao revogar chave',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Chave revogada' });
+    await loadData();
+  };
+
+  const toggleScope = (scope: ApiKeyScope, enabled: boolean) => {
+    setNewKeyScopes((current) =>
+      enabled ? [...new Set([...current, scope])] : current.filter((item) => item !== scope)
+    );
+  };
+
+  const handleCopy = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: 'Copiado para a área de transferência' });
+  };
+
+  const hasApiAccess = !!usage && usage.requestsPerMonth !== 0;
+  const activeKeys = keys.filter((key) => !key.revokedAt);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Code2 className="h-5 w-5" />
+          API de Integração
+        </CardTitle>
+        <CardDescription>
+          Verifique e assine conteúdos a partir do seu CMS ou plataforma usando a API REST
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando chaves...
+          </div>
+        ) : !hasApiAccess ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              A API de integração está disponível nos planos Creator Pro e Creator Elite.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {usage && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>Requisições no período</span>
+                  <span className="font-medium">
+                    {usage.requestsUsed.toLocaleString('pt-BR')}
+                    {usage.requestsPerMonth === null
+                      ? ' (ilimitado)'
+                      : ` / ${usage.requestsPerMonth.toLocaleString('pt-BR')}`}
+                  </span>
+                </div>
+                {usage.requestsPerMonth !== null && (
+                  <Progress value={Math.min((usage.requestsUsed / usage.requestsPerMonth) * 100, 100)} />
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Limite de {usage.requestsPerMinute} requisições por minuto por chave
+                  • renova em {new Date(usage.periodEnd).toLocaleDateString('pt-BR')}
+                </p>
+              </div>
+            )}
+
+            {createdKey && (
+              <Alert className="border-green-300 bg-green-50">
+                <AlertDescription className="space-y-2">
+                  <p className="font-semibold text-green-800">
+                    Copie sua chave agora — ela não será exibida novamente.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 p-2 bg-white border rounded text-xs font-mono break-all">{createdKey}</code>
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(createdKey)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+                    Já copiei
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              {keys.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhuma chave criada.</p>
+              )}
+              {keys.map((key) => (
+                <div key={key.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div className="space-y-0.5">
+                    <p className="font-medium">
+                      {key.name}
+                      {key.revokedAt && <span className="ml-2 text-xs text-red-600">revogada</span>}
+                    </p>
+                    <code className="font-mono text-xs">{key.keyPrefix}…</code>
+                    <p className="text-xs text-muted-foreground">
+                      Escopos: {key.scopes.map((scope) => SCOPE_LABELS[scope] ?? scope).join(', ')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Criada em {new Date(key.createdAt).toLocaleDateString('pt-BR')}
+                      {key.lastUsedAt
+                        ? ` • último uso em ${new Date(key.lastUsedAt).toLocaleString('pt-BR')}`
+                        : ' • nunca usada'}
+                    </p>
+                  </div>
+                  {!key.revokedAt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(key)}
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      Revogar
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {usage && activeKeys.length < usage.maxKeys && (
+              <div className="space-y-3">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="apiKeyName">Nova chave</Label>
+                    <Input
+                      id="apiKeyName"
+                      value={newKeyName}
+                      onChange={(e) => setNewKeyName(e.target.value)}
+                      placeholder="Ex: CMS produção"
+                      maxLength={80}
+                    />
+                  </div>
+                  <Button onClick={handleCreate} disabled={creating || !newKeyName.trim() || newKeyScopes.length === 0}>
+                    {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                    Criar
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((scope) => (
+                    <div key={scope} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`api-scope-${scope}`}
+                        checked={newKeyScopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      <Label htmlFor={`api-scope-${scope}`} className="text-sm font-normal">
+                        {SCOPE_LABELS[scope]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                {newKeyScopes.includes('sign') && (
+                  <p className="text-xs text-amber-700">
+                    Chaves com escopo de assinatura assinam em seu nome e consomem créditos do plano. Guarde-as apenas no servidor.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground space-y-1 p-3 bg-gray-50 rounded-lg">
+              <p className="font-semibold">Endpoints (header <code>X-API-Key</code>)</p>
+              <p className="font-mono break-all">GET {PUBLIC_API_BASE_URL}/certificates/:code</p>
+              <p className="font-mono break-all">POST {PUBLIC_API_BASE_URL}/verify</p>
+              <p className="font-mono break-all">GET {PUBLIC_API_BASE_URL}/creators/:id/certificates</p>
+              <p className="font-mono break-all">POST {SIGN_API_URL} (escopo Assinatura)</p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CheckSquare, Download, FileDown, FolderInput, Loader2, Trash2, X } from 'lucide-react';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import type { CertificateFolder } from '@/lib/types/folders';
+import {
+  MAX_BULK_SELECTION,
+  bulkDeleteContents,
+  bulkDownloadZip,
+  bulkMoveToFolder,
+  exportCertificates,
+} from '@/lib/services/bulk-certificate-service';
+import type { BulkOperationResult } from '@/lib/services/bulk-certificate-service';
+import { useToast } from '@/hooks/use-toast';
+
+interface BulkActionsBarProps {
+  userId: string;
+  selectedContents: SignedContent[];
+  loadedCount: number;
+  folders: CertificateFolder[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  /** Chamado após mover/excluir (lista precisa ser recarregada) */
+  onChanged: (result: { deletedIds?: string[] }) => void;
+}
+
+type BulkTask = 'move' | 'delete' | 'zip';
+
+/**
+ * 📦 Ações em lote sobre os certificados selecionados no Dashboard
+ */
+export const BulkActionsBar = ({
+  userId,
+  selectedContents,
+  loadedCount,
+  folders,
+  onSelectAll,
+  onClearSelection,
+  onChanged,
+}: BulkActionsBarProps) => {
+  const [runningTask, setRunningTask] = useState<BulkTask | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const selectedCount = selectedContents.length;
+  const selectedIds = selectedContents.map(content => content.id);
+  const isBusy = runningTask !== null;
+
+  const reportResult = (title: string, result: BulkOperationResult) => {
+    toast({
+      title,
+      description: result.failed.length > 0
+        ? `${result.succeeded.length} concluídos, ${result.failed.length} com erro.`
+        : `${result.succeeded.length} ${result.succeeded.length === 1 ? 'certificado' : 'certificados'}.`,
+      variant: result.failed.length > 0 && result.succeeded.length === 0 ? 'destructive' : 'default',
+    });
+  };
+
+  const runTask = async (task: BulkTask, action: () => Promise<void>) => {
+    setRunningTask(task);
+    setProgress(null);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Erro na operação em lote',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunningTask(null);
+      setProgress(null);
+    }
+  };
+
+  const handleMove = (folderValue: string) => runTask('move', async () => {
+    const folderId = folderValue === 'none' ? null : folderValue;
+    const result = await bulkMoveToFolder(userId, selectedIds, folderId, (done, total) => setProgress({ done, total }));
+    reportResult(folderId ? 'Certificados movidos' : 'Certificados removidos da pasta', result);
+    onChanged({});
+  });
+
+  const handleDelete = () => runTask('delete', async () => {
+    setIsDeleteDialogOpen(false);
+    const result = await bulkDeleteContents(userId, selectedIds);
+    reportResult('Certificados excluídos', result);
+    onChanged({ deletedIds: result.succeeded });
+  });
+
+  const handleZip = () => runTask('zip', async () => {
+    const result = await bulkDownloadZip(selectedContents, (done, total) => setProgress({ done, total }));
+    reportResult('Download preparado', result);
+  });
+
+  const handleExport = (format: 'csv' | 'json') => {
+    exportCertificates(selectedContents, format);
+    toast({ title: `Metadados exportados (${format.toUpperCase()})` });
+  };
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg bg-blue-50/60 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-2">
+          {selectedCount} {selectedCount === 1 ? 'selecionado' : 'selecionados'}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={isBusy || loadedCount === 0}>
+          <CheckSquare className="h-4 w-4 mr-1" />
+          Selecionar carregados ({Math.min(loadedCount, MAX_BULK_SELECTION)})
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={isBusy}>
+          <X className="h-4 w-4 mr-1" />
+          Cancelar seleção
+        </Button>
+
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <Select value="" onValueChange={handleMove} disabled={isBusy || selectedCount === 0}>
+            <SelectTrigger className="w-[180px] h-9 bg-white">
+              <FolderInput className="h-4 w-4 mr-1" />
+              <SelectValue placeholder="Mover para..." />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="none">Sem pasta</SelectItem>
+              {folders.map(folder => (
+                <SelectItem key={folder.id} value={folder.id}>
+                  {folder.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={handleZip} disabled={isBusy || selectedCount === 0}>
+            {runningTask === 'zip' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+            Baixar ZIP
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isBusy || selectedCount === 0}>
+                <FileDown className="h-4 w-4 mr-1" />
+                Exportar
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="bg-white">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>Planilha (CSV)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setIsDeleteDialogOpen(true)}
+            disabled={isBusy || selectedCount === 0}
+          >
+            {runningTask === 'delete' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+            Excluir
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={(progress.done / progress.total) * 100} />
+          <p className="text-xs text-muted-foreground">
+            {runningTask === 'zip' ? 'Preparando arquivos' : 'Processando'} {progress.done} de {progress.total}...
+          </p>
+        </div>
+      )}
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Excluir {selectedCount} {selectedCount === 1 ? 'certificado' : 'certificados'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Os arquivos assinados serão removidos e os links de verificação deixarão de funcionar.
+              Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
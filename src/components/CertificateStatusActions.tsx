@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, Flag, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import {
+  REPORT_REASON_LABELS,
+  REVOCATION_REASON_LABELS,
+  reportContent,
+  revokeContent,
+  type ReportReason,
+  type RevocationReason,
+} from '@/lib/services/revocation-service';
+
+interface CertificateStatusActionsProps {
+  content: SignedContent;
+  viewerId: string | null;
+  viewerEmail?: string | null;
+  onRevoked?: (content: SignedContent) => void;
+}
+
+/**
+ * 🚩 Ações sobre a validade do certificado:
+ * - dono: revogar com motivo (definitivo)
+ * - demais visitantes: denunciar para análise da equipe
+ */
+export const CertificateStatusActions = ({ content, viewerId, viewerEmail, onRevoked }: CertificateStatusActionsProps) => {
+  const { toast } = useToast();
+  const isOwner = !!viewerId && viewerId === content.userId;
+
+  const [revokeOpen, setRevokeOpen] = useState(false);
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>('signed_by_mistake');
+  const [revocationNote, setRevocationNote] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reportReason, setReportReason] = useState<ReportReason>('copyright');
+  const [reportDetails, setReportDetails] = useState('');
+  const [reportEmail, setReportEmail] = useState(viewerEmail || '');
+  const [isReporting, setIsReporting] = useState(false);
+
+  if (content.revokedAt) return null;
+
+  const handleRevoke = async () => {
+    if (!viewerId) return;
+    setIsRevoking(true);
+    const result = await revokeContent(viewerId, content, revocationReason, revocationNote);
+    setIsRevoking(false);
+
+    if (!result.success || !result.content) {
+      toast({
+        title: '❌ Não foi possível revogar',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRevokeOpen(false);
+    toast({
+      title: '🚫 Certificado revogado',
+      description: 'O certificado continua visível, com o aviso de revogação.',
+    });
+    onRevoked?.(result.content);
+  };
+
+  const handleReport = async () => {
+    if (reportDetails.trim().length < 10) {
+      toast({
+        title: 'Descreva a denúncia',
+        description: 'Explique o problema em pelo menos 10 caracteres.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsReporting(true);
+    const result = await reportContent(content.id, reportReason, reportDetails, reportEmail, viewerId);
+    setIsReporting(false);
+
+    if (!result.success) {
+      toast({
+        title: '❌ Não foi possível enviar a denúncia',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setReportOpen(false);
+    setReportDetails('');
+    toast({
+      title: '✅ Denúncia enviada',
+      description: 'A equipe do Vero iD vai analisar e pode entrar em contato pelo e-mail informado.',
+    });
+  };
+
+  return (
+    <div className="mb-6 sm:mb-8 flex justify-end">
+      {isOwner ? (
+        <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" onClick={() => setRevokeOpen(true)}>
+          <Ban className="h-4 w-4 mr-2" />
+          Revogar certificado
+        </Button>
+      ) : (
+        <Button variant="ghost" size="sm" className="text-gray-500" onClick={() => setReportOpen(true)}>
+          <Flag className="h-4 w-4 mr-2" />
+          Denunciar certificado
+        </Button>
+      )}
+
+      <Dialog open={revokeOpen} onOpenChange={setRevokeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-700">
+              <Ban className="h-5 w-5" />
+              Revogar certificado
+            </DialogTitle>
+            <DialogDescription>
+              A revogação é definitiva. O certificado continuará acessível pelo código{' '}
+              <span className="font-mono">{content.verificationCode}</span>, exibindo o motivo e a data da revogação.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Motivo</Label>
+              <Select value={revocationReason} onValueChange={(value) => setRevocationReason(value as RevocationReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REVOCATION_REASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="revocation-note">Observação pública (opcional)</Label>
+              <Textarea
+                id="revocation-note"
+                value={revocationNote}
+                onChange={(e) => setRevocationNote(e.target.value)}
+                maxLength={500}
+                placeholder="Ex: substituído pelo certificado AB12CD34"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeOpen(false)} disabled={isRevoking}>
+              Cancelar
+            </Button>
+            <Button variant="destructive" onClick={handleRevoke} disabled={isRevoking}>
+              {isRevoking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Revogar definitivamente
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Flag className="h-5 w-5" />
+              Denunciar certificado
+            </DialogTitle>
+            <DialogDescription>
+              Acredita que este certificado viola seus direitos ou foi emitido indevidamente? A denúncia é
+              analisada pela equipe do Vero iD e não é exibida publicamente.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Motivo</Label>
+              <Select value={reportReason} onValueChange={(value) => setReportReason(value as ReportReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-details">Detalhes</Label>
+              <Textarea
+                id="report-details"
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+                maxLength={2000}
+                placeholder="Descreva o problema e, se possível, inclua links para a obra original."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-email">Seu e-mail para contato</Label>
+              <Input
+                id="report-email"
+                type="email"
+                value={reportEmail}
+                onChange={(e) => setReportEmail(e.target.value)}
+                placeholder="voce@exemplo.com"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReportOpen(false)} disabled={isReporting}>
+              Cancelar
+            </Button>
+            <Button onClick={handleReport} disabled={isReporting || !reportEmail.trim()}>
+              {isReporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Enviar denúncia
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, Clock, Loader2, UserPlus, Users, X, XCircle } from 'lucide-react';
+import {
+  SUGGESTED_COSIGNER_ROLES,
+  cancelCosigner,
+  getContentCosignatures,
+  getCosignSummary,
+  inviteCosigner,
+  verifyCosignatures,
+} from '@/lib/services/cosigning-service';
+import type { CosignatureVerification } from '@/lib/services/cosigning-service';
+import type { SignedContent } from '@/lib/supabase-crypto';
+
+interface CoSignaturesPanelProps {
+  content: SignedContent;
+  /** Usuário logado (dono vê convites pendentes e pode convidar) */
+  viewerId: string | null;
+}
+
+/**
+ * 👥 Co-signatários do certificado: estado "pendente / totalmente
+ * assinado", verificação de cada contra-assinatura e convites (dono)
+ */
+export const CoSignaturesPanel = ({ content, viewerId }: CoSignaturesPanelProps) => {
+  const [verifications, setVerifications] = useState<CosignatureVerification[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState(SUGGESTED_COSIGNER_ROLES[1]);
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState('');
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const isOwner = !!viewerId && viewerId === content.userId;
+
+  useEffect(() => {
+    let cancelled = false;
+    getContentCosignatures(content.id)
+      .then((cosigners) => verifyCosignatures(content.contentHash, cosigners))
+      .then((result) => {
+        if (!cancelled) setVerifications(result);
+      })
+      .catch((err) => {
+        console.error('[CoSignatures] Falha ao carregar co-signatários:', err);
+        if (!cancelled) setVerifications([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [content.id, content.contentHash, reloadToken]);
+
+  const handleInvite = async () => {
+    if (!viewerId) return;
+    setIsInviting(true);
+    setInviteError('');
+    const result = await inviteCosigner(viewerId, content.id, email, role);
+    setIsInviting(false);
+
+    if (!result.success) {
+      setInviteError(result.error || 'Não foi possível enviar o convite.');
+      return;
+    }
+
+    setEmail('');
+    setReloadToken(token => token + 1);
+  };
+
+  const handleCancel = async (cosignerId: string) => {
+    const result = await cancelCosigner(cosignerId);
+    if (!result.success) {
+      setInviteError(result.error || 'Não foi possível cancelar o convite.');
+      return;
+    }
+    setReloadToken(token => token + 1);
+  };
+
+  if (verifications === null) {
+    return null;
+  }
+
+  const summary = getCosignSummary(verifications.map(v => v.cosigner));
+  const visible = isOwner ? verifications : verifications.filter(v => v.cosigner.status !== 'declined');
+
+  if (summary.state === 'single' && !isOwner) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 sm:mb-8">
+      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+        <Users className="h-3 w-3 sm:h-4 sm:w-4" />
+        Co-signatários
+      </div>
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-lg border-l-4 border-blue-600 space-y-3">
+        {summary.state === 'complete' && (
+          <div className="flex items-center gap-2 text-sm font-semibold text-green-700">
+            <CheckCircle2 className="h-4 w-4" />
+            Totalmente assinado ({summary.signed + 1} assinaturas)
+          </div>
+        )}
+        {summary.state === 'pending' && (
+          <div className="flex items-center gap-2 text-sm font-semibold text-amber-700">
+            <Clock className="h-4 w-4" />
+            Assinatura pendente: {summary.signed} de {summary.total} co-signatários assinaram
+          </div>
+        )}
+
+        {visible.map(({ cosigner, signatureStatus }) => (
+          <div key={cosigner.id} className="flex items-center gap-3 bg-white p-3 rounded-lg border">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">
+                {cosigner.signerName} <span className="text-gray-500 font-normal">· {cosigner.role}</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                {cosigner.status === 'signed' && cosigner.signedAt
+                  ? `Assinou em ${new Date(cosigner.signedAt).toLocaleString('pt-BR')}`
+                  : cosigner.status === 'declined'
+                    ? 'Recusou o convite'
+                    : `Convidado em ${new Date(cosigner.createdAt).toLocaleDateString('pt-BR')}`}
+              </p>
+            </div>
+            {signatureStatus === 'valid' && (
+              <span className="text-xs font-semibold text-green-700 flex items-center gap-1">
+                <CheckCircle2 className="h-4 w-4" />
+                Assinatura válida
+              </span>
+            )}
+            {(signatureStatus === 'invalid' || signatureStatus === 'legacy') && (
+              <span className="text-xs font-semibold text-red-700 flex items-center gap-1">
+                <XCircle className="h-4 w-4" />
+                Assinatura inválida
+              </span>
+            )}
+            {cosigner.status === 'pending' && (
+              <span className="text-xs text-amber-700 flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                Pendente
+              </span>
+            )}
+            {isOwner && cosigner.status === 'pending' && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleCancel(cosigner.id)}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {isOwner && (
+          <div className="space-y-2 pt-2">
+            <Label className="text-xs text-gray-600">Convidar co-signatário (usuário do Vero iD)</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="email"
+                placeholder="email@exemplo.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="bg-white"
+                disabled={isInviting}
+              />
+              <Input
+                placeholder="Papel"
+                value={role}
+                onChange={(e) => setRole(e.target.value)}
+                list="cosigner-roles"
+                className="bg-white sm:w-40"
+                maxLength={40}
+                disabled={isInviting}
+              />
+              <datalist id="cosigner-roles">
+                {SUGGESTED_COSIGNER_ROLES.map(suggestion => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+              <Button onClick={handleInvite} disabled={isInviting || !email.trim() || role.trim().length < 2}>
+                {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                Convidar
+              </Button>
+            </div>
+            {inviteError && <p className="text-xs text-red-600">{inviteError}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
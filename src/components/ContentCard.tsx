@@ -2,12 +2,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { SignedContent } from '@/lib/supabase-crypto';
-import { Shield, Calendar, Download, ExternalLink, Copy, Check, Eye, FileText, Image as ImageIcon, Video, Music, File, ChevronDown, ChevronUp } from 'lucide-react';
+import { Shield, Calendar, Download, ExternalLink, Copy, Check, Eye, FileText, Image as ImageIcon, Video, Music, File, ChevronDown, ChevronUp, FileJson } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { generateQRData, generateCertificate } from '@/lib/qrcode';
 import { useState, useRef, useEffect } from 'react';
 import ShareButtons from '@/components/ShareButtons';
 import { DownloadButton } from '@/components/DownloadButton'; // 🆕 FASE 4
+import { downloadVerificationManifest } from '@/lib/services/verification-manifest';
 
 interface ContentCardProps {
   content: SignedContent;
@@ -71,6 +72,15 @@ export default function ContentCard({ content: initialContent, onVerify }: Conte
     URL.revokeObjectURL(url);
   };
   
+  const handleDownloadManifest = async () => {
+    try {
+      await downloadVerificationManifest(content);
+    } catch (err) {
+      console.error('[ContentCard] Erro ao gerar manifesto:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao gerar manifesto de verificação');
+    }
+  };
+  
   const handleDownloadQR = async () => {
     const svg = document.getElementById(`qr-${content.id}`) as SVGElement;
     if (!svg || !canvasRef.current) return;
@@ -486,6 +496,15 @@ export default function ContentCard({ content: initialContent, onVerify }: Conte
               <Download className="h-4 w-4 mr-2" />
               Certificado
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadManifest}
+              className="w-full col-span-2"
+            >
+              <FileJson className="h-4 w-4 mr-2" />
+              Manifesto de Verificação (JSON)
+            </Button>
           </div>
           
           {onVerify && (
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FileSignature, Loader2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { KeyPair } from '@/lib/supabase-crypto';
+import {
+  declineCosignRequest,
+  getMyCosignRequests,
+  signCosignRequest,
+} from '@/lib/services/cosigning-service';
+import type { CosignRequest } from '@/lib/services/cosigning-service';
+
+interface CosignRequestsCardProps {
+  userId: string;
+  keyPair: KeyPair | null;
+  className?: string;
+}
+
+/**
+ * 📥 Convites de co-assinatura recebidos (some quando não há convites)
+ */
+export const CosignRequestsCard = ({ userId, keyPair, className = '' }: CosignRequestsCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<CosignRequest[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMyCosignRequests().then((result) => {
+      if (!cancelled) setRequests(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleSign = async (request: CosignRequest) => {
+    if (!keyPair) return;
+    setProcessingId(request.id);
+    const result = await signCosignRequest(request, keyPair);
+    setProcessingId(null);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao co-assinar', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Contra-assinatura registrada', description: `Certificado ${request.verificationCode}` });
+    setRequests(current => current.filter(item => item.id !== request.id));
+  };
+
+  const handleDecline = async (request: CosignRequest) => {
+    setProcessingId(request.id);
+    const result = await declineCosignRequest(userId, request);
+    setProcessingId(null);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao recusar convite', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    setRequests(current => current.filter(item => item.id !== request.id));
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Convites de co-assinatura
+        </CardTitle>
+        <CardDescription>
+          Outros usuários pediram sua contra-assinatura. Confira o conteúdo antes de assinar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!keyPair && (
+          <p className="text-sm text-amber-700">Gere suas chaves para poder co-assinar.</p>
+        )}
+        {requests.map(request => (
+          <div key={request.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border">
+            {request.thumbnail && (
+              <img src={request.thumbnail} alt="" className="h-12 w-12 rounded object-cover border" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{request.content.split('\n')[0]}</p>
+              <p className="text-xs text-muted-foreground">
+                {request.inviterName} convidou você como <strong>{request.role}</strong> ·{' '}
+                <button
+                  type="button"
+                  className="font-mono hover:underline"
+                  onClick={() => navigate(`/certificate?id=${request.contentId}`)}
+                >
+                  {request.verificationCode}
+                </button>
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleSign(request)}
+                disabled={!keyPair || processingId === request.id}
+              >
+                {processingId === request.id
+                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                  : <FileSignature className="h-4 w-4 mr-2" />}
+                Assinar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDecline(request)}
+                disabled={processingId === request.id}
+              >
+                Recusar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+/**
+ * CreditStatementCard.tsx
+ *
+ * Créditos avulsos do usuário em "Minha Assinatura": saldo válido, lotes
+ * (pacotes, ajustes) com a validade de cada um e o extrato completo de
+ * compras, consumos, expirações, estornos e ajustes.
+ *
+ * Fonte de dados: RPC `get_credit_statement`
+ * (ver supabase/migrations/20261018_credit_ledger.sql).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Clock, Loader2, Package, Receipt } from 'lucide-react';
+import {
+  CREDIT_ENTRY_LABELS,
+  getCreditStatement,
+  type CreditLedgerEntry,
+  type CreditStatement,
+} from '@/lib/services/credit-ledger-service';
+import { formatDateShort, getDaysUntilRenewal } from '@/hooks/useSubscription';
+
+const PAGE_SIZE = 20;
+
+interface CreditStatementCardProps {
+  className?: string;
+}
+
+function formatEntryDate(date: string): string {
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function describeEntry(entry: CreditLedgerEntry): string {
+  const parts = [entry.lot_description, entry.reason].filter(Boolean);
+  return parts.join(' · ');
+}
+
+export function CreditStatementCard({ className }: CreditStatementCardProps) {
+  const [statement, setStatement] = useState<CreditStatement | null>(null);
+  const [entries, setEntries] = useState<CreditLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const loadStatement = useCallback(async () => {
+    const result = await getCreditStatement(undefined, PAGE_SIZE, 0);
+    setStatement(result);
+    setEntries(result?.entries ?? []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void loadStatement();
+  }, [loadStatement]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const result = await getCreditStatement(undefined, PAGE_SIZE, entries.length);
+    setEntries(prev => [...prev, ...(result?.entries ?? [])]);
+    setLoadingMore(false);
+  };
+
+  if (loading) {
+    return (
+      <Card className={className}>
+        <CardContent className="py-6">
+          <div className="animate-pulse h-16 bg-gray-200 rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!statement || (statement.totalEntries === 0 && statement.lots.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Créditos Avulsos
+          </CardTitle>
+          <span className="text-2xl font-bold text-green-700">
+            {statement.balance}
+          </span>
+        </div>
+        <CardDescription>
+          Autenticações extras de pacotes. Os créditos que vencem primeiro são usados primeiro.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {statement.lots.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-green-800">Créditos válidos:</p>
+            {statement.lots.map(lot => {
+              const daysUntilExpiration = lot.expires_at ? getDaysUntilRenewal(lot.expires_at) : null;
+              const isExpiringSoon = daysUntilExpiration !== null && daysUntilExpiration <= 7;
+
+              return (
+                <div
+                  key={lot.id}
+                  className={`flex items-center justify-between text-sm p-2 rounded ${
+                    isExpiringSoon
+                      ? 'bg-yellow-100 border border-yellow-300'
+                      : 'bg-green-100/50 border border-green-200'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Package className={`h-4 w-4 ${isExpiringSoon ? 'text-yellow-600' : 'text-green-600'}`} />
+                    <div>
+                      <p className={`font-medium ${isExpiringSoon ? 'text-yellow-800' : 'text-green-800'}`}>
+                        {lot.description}
+                      </p>
+                      <p className={`text-xs ${isExpiringSoon ? 'text-yellow-600' : 'text-green-600'}`}>
+                        Concedido em {formatDateShort(lot.granted_at)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-bold ${isExpiringSoon ? 'text-yellow-700' : 'text-green-700'}`}>
+                      {lot.credits_remaining} / {lot.credits_granted} créditos
+                    </p>
+                    <div className={`flex items-center justify-end gap-1 text-xs ${isExpiringSoon ? 'text-yellow-600' : 'text-green-600'}`}>
+                      <Clock className="h-3 w-3" />
+                      <span>
+                        {!lot.expires_at
+                          ? 'Sem validade'
+                          : isExpiringSoon
+                          ? `Expira em ${daysUntilExpiration} dia(s)!`
+                          : `Válido até ${formatDateShort(lot.expires_at)}`}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Extrato:</p>
+            <div className="divide-y rounded-lg border">
+              {entries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 p-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        {CREDIT_ENTRY_LABELS[entry.entry_type]}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {formatEntryDate(entry.created_at)}
+                      </span>
+                    </div>
+                    {describeEntry(entry) && (
+                      <p className="text-xs text-muted-foreground mt-1 truncate">
+                        {describeEntry(entry)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className={`font-semibold ${entry.amount > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                      {entry.amount > 0 ? '+' : ''}{entry.amount}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Saldo: {entry.balance_after}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {entries.length < statement.totalEntries && (
+              <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Carregar mais
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@
  * =====================================================
  * 
  * Visual component for displaying file scan status
- * from VirusTotal integration
+ * from the server-side scan pipeline (VirusTotal or ClamAV)
  * 
  * Features:
  * - Visual status indicators (loading, scanning, clean, infected)
@@ -40,9 +40,14 @@ import { Shield, AlertTriangle, CheckCircle, XCircle, Loader2, ExternalLink } fr
 
 export interface FileScanStatusProps {
   /**
-   * File hash (SHA256) to display status for
+   * Upload path in temp-uploads to display status for
    */
-  fileHash: string;
+  filePath?: string;
+
+  /**
+   * File hash (SHA256) to display status for (used when filePath is absent)
+   */
+  fileHash?: string;
 
   /**
    * Show detailed information
@@ -104,6 +109,7 @@ const StatusIcon: React.FC<{ status: ScanStatus; className?: string }> = ({ stat
 // =====================================================
 
 export const FileScanStatus: React.FC<FileScanStatusProps> = ({
+  filePath,
   fileHash,
   showDetails = true,
   showVirusTotalLink = true,
@@ -113,6 +119,7 @@ export const FileScanStatus: React.FC<FileScanStatusProps> = ({
   onScanError,
 }) => {
   const { scanResult, isLoading, isScanning, error } = useFileScanStatus({
+    filePath,
     fileHash,
     onScanComplete,
     onScanError,
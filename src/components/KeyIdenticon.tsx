@@ -131,4 +131,72 @@ export function KeyIdenticon({
   );
 }
 
+/**
+ * Entrada do histórico de identicons (uma por chave do usuário)
+ */
+export interface KeyIdenticonHistoryEntry {
+  id: string;
+  /** Hash visual da chave (publicKeyHash) */
+  hash: string;
+  status: 'active' | 'rotated' | 'revoked';
+  createdAt: string;
+  revokedAt?: string | null;
+}
+
+interface KeyIdenticonHistoryProps {
+  entries: KeyIdenticonHistoryEntry[];
+  /** Tamanho de cada identicon. Default: 40 */
+  size?: number;
+  /** Destaca a chave com este ID (ex: chave que assinou um certificado) */
+  highlightId?: string;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<KeyIdenticonHistoryEntry['status'], { label: string; className: string }> = {
+  active: { label: 'Ativa', className: 'bg-green-100 text-green-800' },
+  rotated: { label: 'Substituída', className: 'bg-gray-100 text-gray-700' },
+  revoked: { label: 'Revogada', className: 'bg-red-100 text-red-800' },
+};
+
+/**
+ * Histórico de identicons das chaves do usuário (mais recente primeiro).
+ * Chaves revogadas aparecem esmaecidas com o status em vermelho.
+ */
+export function KeyIdenticonHistory({
+  entries,
+  size = 40,
+  highlightId,
+  className = '',
+}: KeyIdenticonHistoryProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-3 ${className}`}>
+      {entries.map((entry) => {
+        const status = STATUS_LABELS[entry.status] || STATUS_LABELS.rotated;
+        const highlighted = entry.id === highlightId;
+        return (
+          <div
+            key={entry.id}
+            className={`flex flex-col items-center gap-1 p-2 rounded-lg border ${highlighted ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'}`}
+            title={`Criada em ${new Date(entry.createdAt).toLocaleDateString('pt-BR')}`}
+          >
+            <KeyIdenticon
+              hash={entry.hash}
+              size={size}
+              className={entry.status === 'revoked' ? 'opacity-40' : ''}
+            />
+            <code className="text-[10px] font-mono text-gray-600">{(entry.hash || '').substring(0, 8)}</code>
+            <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${status.className}`}>
+              {status.label}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default KeyIdenticon;
\ No newline at end of file
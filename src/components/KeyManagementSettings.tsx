@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Key, RefreshCw, Ban, AlertTriangle, Loader2 } from 'lucide-react';
+import { rotateKeyPair, revokeKeyPair } from '@/lib/crypto';
+import { getKeyPairHistory } from '@/lib/supabase-crypto';
+import type { KeyPairHistoryEntry } from '@/lib/supabase-crypto';
+import { KeyIdenticonHistory } from '@/components/KeyIdenticon';
+import { useToast } from '@/hooks/use-toast';
+
+interface KeyManagementSettingsProps {
+  userId: string;
+}
+
+/**
+ * 🔑 Gerenciamento de chaves: histórico, rotação e revogação
+ */
+export const KeyManagementSettings = ({ userId }: KeyManagementSettingsProps) => {
+  const [keys, setKeys] = useState<KeyPairHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rotating, setRotating] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<KeyPairHistoryEntry | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
+  const [revoking, setRevoking] = useState(false);
+  const { toast } = useToast();
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    const history = await getKeyPairHistory(userId);
+    setKeys(history);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const handleRotate = async () => {
+    const confirmed = window.confirm(
+      'Gerar uma nova chave de assinatura? A chave atual será substituída. Certificados já emitidos continuam válidos.'
+    );
+    if (!confirmed) return;
+
+    setRotating(true);
+    const result = await rotateKeyPair(userId);
+    setRotating(false);
+
+    if (!result.success) {
+      toast({
+        title: 'Erro ao rotacionar chave',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Nova chave gerada',
+      description: 'Suas próximas assinaturas usarão a nova chave.',
+    });
+    await loadKeys();
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+
+    setRevoking(true);
+    const result = await revokeKeyPair(userId, revokeTarget.id, revokeReason.trim() || undefined);
+    setRevoking(false);
+
+    if (!result.success) {
+      toast({
+        title: 'Erro ao revogar chave',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Chave revogada',
+      description: revokeTarget.status === 'active'
+        ? 'Gere uma nova chave para continuar assinando conteúdos.'
+        : 'Certificados assinados com esta chave exibirão um aviso de revogação.',
+    });
+    setRevokeTarget(null);
+    setRevokeReason('');
+    await loadKeys();
+  };
+
+  const activeKey = keys.find((key) => key.status === 'active');
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Key className="h-5 w-5" />
+          Chaves de Assinatura
+        </CardTitle>
+        <CardDescription>
+          Rotacione sua chave periodicamente ou revogue uma chave comprometida
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando chaves...
+          </div>
+        ) : (
+          <>
+            {!activeKey && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Você não possui uma chave ativa. Gere uma nova chave para assinar conteúdos.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <KeyIdenticonHistory
+              entries={keys.map((key) => ({
+                id: key.id,
+                hash: key.publicKeyHash || key.publicKey.slice(-16),
+                status: key.status,
+                createdAt: key.createdAt,
+                revokedAt: key.revokedAt,
+              }))}
+              highlightId={activeKey?.id}
+            />
+
+            <div className="space-y-2">
+              {keys.map((key) => (
+                <div key={key.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div className="space-y-0.5">
+                    <code className="font-mono text-xs">{key.publicKeyHash || key.id}</code>
+                    <p className="text-xs text-muted-foreground">
+                      Criada em {new Date(key.createdAt).toLocaleDateString('pt-BR')}
+                      {key.rotatedAt && ` • substituída em ${new Date(key.rotatedAt).toLocaleDateString('pt-BR')}`}
+                      {key.revokedAt && ` • revogada em ${new Date(key.revokedAt).toLocaleDateString('pt-BR')}`}
+                    </p>
+                  </div>
+                  {key.status !== 'revoked' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRevokeTarget(key)}
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      Revogar
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Button
+              onClick={handleRotate}
+              disabled={rotating}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold shadow-md hover:shadow-lg transition-all duration-200"
+            >
+              {rotating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              {activeKey ? 'Rotacionar Chave' : 'Gerar Nova Chave'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revogar chave?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Certificados assinados com esta chave passarão a exibir que a chave foi revogada.
+              Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="revokeReason">Motivo (opcional)</Label>
+            <Input
+              id="revokeReason"
+              value={revokeReason}
+              onChange={(e) => setRevokeReason(e.target.value)}
+              placeholder="Ex: chave comprometida"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revoking}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRevoke();
+              }}
+              disabled={revoking}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {revoking ? 'Revogando...' : 'Revogar Chave'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
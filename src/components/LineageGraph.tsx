@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, GitBranch, Loader2, Plus } from 'lucide-react';
+import {
+  RELATION_LABELS,
+  getContentLineage,
+  getRevisionSummary,
+} from '@/lib/services/lineage-service';
+import type { ContentLineage, LineageNode } from '@/lib/services/lineage-service';
+
+interface LineageGraphProps {
+  contentId: string;
+  /** Exibe o botão "Assinar nova versão" (apenas para o dono) */
+  isOwner?: boolean;
+}
+
+/**
+ * 🌳 Grafo de linhagem do certificado: origem (ancestrais) acima,
+ * obras derivadas (descendentes) abaixo
+ */
+export const LineageGraph = ({ contentId, isOwner = false }: LineageGraphProps) => {
+  const navigate = useNavigate();
+  const [lineage, setLineage] = useState<ContentLineage | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getContentLineage(contentId)
+      .then((result) => {
+        if (!cancelled) setLineage(result);
+      })
+      .catch((err) => {
+        console.error('[LineageGraph] Falha ao carregar linhagem:', err);
+        if (!cancelled) setLineage(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId]);
+
+  const hasLineage = !!lineage && (lineage.ancestors.length > 0 || lineage.descendants.length > 0);
+
+  if (loading) {
+    return (
+      <div className="mb-6 sm:mb-8 flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Carregando linhagem...
+      </div>
+    );
+  }
+
+  if (!hasLineage && !isOwner) {
+    return null;
+  }
+
+  const revision = lineage ? getRevisionSummary(lineage) : null;
+
+  const renderNode = (node: LineageNode, isCurrent = false) => (
+    <button
+      type="button"
+      onClick={() => !isCurrent && navigate(`/certificate?id=${node.id}`)}
+      className={`w-full text-left flex items-center gap-3 p-3 rounded-lg border-2 transition-colors ${
+        isCurrent
+          ? 'border-blue-600 bg-blue-50 cursor-default'
+          : 'border-gray-200 bg-white hover:border-blue-300'
+      }`}
+    >
+      {node.thumbnail ? (
+        <img src={node.thumbnail} alt="" className="h-10 w-10 rounded object-cover border flex-shrink-0" />
+      ) : (
+        <div className="h-10 w-10 rounded border bg-gray-100 flex items-center justify-center flex-shrink-0">
+          <GitBranch className="h-4 w-4 text-gray-400" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-mono font-semibold">{node.verificationCode}</p>
+        <p className="text-xs text-gray-500 truncate">
+          {node.fileName || node.creatorName} · {new Date(node.createdAt).toLocaleDateString('pt-BR')}
+        </p>
+      </div>
+      {isCurrent && <span className="text-xs font-semibold text-blue-700">Este certificado</span>}
+    </button>
+  );
+
+  const renderRelation = (node: LineageNode) => (
+    <div className="flex items-center gap-2 pl-6 py-1 text-xs text-gray-500">
+      <ArrowDown className="h-3 w-3" />
+      {node.relationType ? RELATION_LABELS[node.relationType] : 'Derivado'}
+    </div>
+  );
+
+  // Descendentes em árvore (filhos agrupados pelo pai)
+  const renderDescendants = (parentId: string) => {
+    const children = lineage?.descendants.filter(node => node.parentContentId === parentId) || [];
+    if (children.length === 0) return null;
+
+    return (
+      <div className="pl-4 sm:pl-6 border-l-2 border-gray-200 ml-4 space-y-1">
+        {children.map(child => (
+          <div key={child.id}>
+            {renderRelation(child)}
+            {renderNode(child)}
+            {renderDescendants(child.id)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-6 sm:mb-8">
+      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+        <GitBranch className="h-3 w-3 sm:h-4 sm:w-4" />
+        Linhagem do Conteúdo
+      </div>
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-lg border-l-4 border-blue-600 space-y-1">
+        {revision && (
+          <p className="text-sm text-gray-700 mb-3">
+            Esta é a <strong>revisão {revision.revisionNumber}</strong> do certificado{' '}
+            <button
+              type="button"
+              className="font-mono font-semibold text-blue-700 hover:underline"
+              onClick={() => navigate(`/certificate?id=${revision.original.id}`)}
+            >
+              {revision.original.verificationCode}
+            </button>
+            .
+          </p>
+        )}
+
+        {lineage?.ancestors.map((ancestor, index) => (
+          <div key={ancestor.id}>
+            {index > 0 && renderRelation(ancestor)}
+            {renderNode(ancestor)}
+          </div>
+        ))}
+
+        {lineage?.current && (
+          <>
+            {lineage.ancestors.length > 0 && renderRelation(lineage.current)}
+            {renderNode(lineage.current, true)}
+            {renderDescendants(lineage.current.id)}
+          </>
+        )}
+
+        {!hasLineage && (
+          <p className="text-sm text-gray-500">Nenhuma versão ou obra derivada registrada.</p>
+        )}
+
+        {isOwner && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-3"
+            onClick={() => navigate(`/sign?parent=${contentId}`)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Assinar nova versão
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface LineageSummaryProps {
+  contentId: string;
+  className?: string;
+}
+
+/**
+ * 🌳 Frase curta sobre a origem ("revisão 3 do certificado X"),
+ * usada nos resultados da página de verificação
+ */
+export const LineageSummary = ({ contentId, className = '' }: LineageSummaryProps) => {
+  const navigate = useNavigate();
+  const [lineage, setLineage] = useState<ContentLineage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLineage(null);
+    getContentLineage(contentId)
+      .then((result) => {
+        if (!cancelled) setLineage(result);
+      })
+      .catch((err) => {
+        console.error('[LineageSummary] Falha ao carregar linhagem:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId]);
+
+  const current = lineage?.current;
+  const parent = lineage?.ancestors.find(node => node.id === current?.parentContentId);
+  if (!lineage || !current?.relationType || !parent) return null;
+
+  const revision = getRevisionSummary(lineage);
+  const target = revision ? revision.original : parent;
+
+  return (
+    <p className={`text-sm text-gray-700 flex items-center gap-2 flex-wrap ${className}`}>
+      <GitBranch className="h-4 w-4 text-blue-600" />
+      {revision
+        ? <>Esta é a <strong>revisão {revision.revisionNumber}</strong> do certificado</>
+        : <>{RELATION_LABELS[current.relationType]} do certificado</>}
+      <button
+        type="button"
+        className="font-mono font-semibold text-blue-700 hover:underline"
+        onClick={() => navigate(`/certificate?id=${target.id}`)}
+      >
+        {target.verificationCode}
+      </button>
+    </p>
+  );
+};
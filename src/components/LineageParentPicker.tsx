@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitBranch, Loader2, Search, X } from 'lucide-react';
+import type { ContentRelationType, SignedContent } from '@/lib/supabase-crypto';
+import { getSignedContentByVerificationCode } from '@/lib/supabase-crypto';
+import { searchSignedContents } from '@/lib/services/content-search-service';
+import { RELATION_DESCRIPTIONS, RELATION_LABELS } from '@/lib/services/lineage-service';
+
+export interface LineageParentSelection {
+  parent: SignedContent | null;
+  relationType: ContentRelationType;
+}
+
+interface LineageParentPickerProps {
+  userId: string;
+  value: LineageParentSelection;
+  onChange: (value: LineageParentSelection) => void;
+  disabled?: boolean;
+}
+
+const VERIFICATION_CODE_PATTERN = /^[0-9A-F]{8}$/;
+
+/**
+ * Título exibido de um certificado (primeira linha "Título: ...")
+ */
+export function getContentTitle(content: SignedContent): string {
+  const match = content.content.match(/^Título:\s*(.+)$/m);
+  return match?.[1]?.trim() || content.fileName || content.verificationCode;
+}
+
+/**
+ * 🌳 Seleção do certificado de origem de uma obra derivada
+ * Busca nos certificados do usuário ou pelo código de verificação
+ * (remix de conteúdo de outro criador)
+ */
+export const LineageParentPicker = ({ userId, value, onChange, disabled }: LineageParentPickerProps) => {
+  const [isEnabled, setIsEnabled] = useState(!!value.parent);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SignedContent[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (value.parent) setIsEnabled(true);
+  }, [value.parent]);
+
+  // Busca com debounce (300ms, como no Dashboard)
+  useEffect(() => {
+    if (!isEnabled || value.parent) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const code = query.trim().toUpperCase();
+        const [page, byCode] = await Promise.all([
+          searchSignedContents({ query }, { limit: 8 }),
+          VERIFICATION_CODE_PATTERN.test(code) ? getSignedContentByVerificationCode(code) : Promise.resolve(null),
+        ]);
+        if (cancelled) return;
+        const items = byCode && !page.items.some(item => item.id === byCode.id)
+          ? [byCode, ...page.items]
+          : page.items;
+        setResults(items);
+      } catch (error) {
+        console.error('❌ [Lineage] Erro ao buscar certificados:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, isEnabled, value.parent]);
+
+  const handleToggle = (checked: boolean) => {
+    setIsEnabled(checked);
+    if (!checked) {
+      onChange({ ...value, parent: null });
+      setQuery('');
+    }
+  };
+
+  const handleSelect = (parent: SignedContent) => {
+    // Conteúdo de outro criador só pode ser remixado
+    const relationType = parent.userId !== userId ? 'remix' : value.relationType;
+    onChange({ parent, relationType });
+  };
+
+  const isOtherCreator = !!value.parent && value.parent.userId !== userId;
+
+  return (
+    <div className="space-y-3 bg-gradient-to-r from-purple-50 to-indigo-50 p-4 rounded-lg border-2 border-purple-200">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="lineage-enabled"
+          checked={isEnabled}
+          onCheckedChange={(checked) => handleToggle(checked === true)}
+          disabled={disabled}
+          className="mt-1"
+        />
+        <div className="flex-1">
+          <Label htmlFor="lineage-enabled" className="text-sm font-semibold text-purple-900 cursor-pointer flex items-center gap-2">
+            <GitBranch className="h-4 w-4" />
+            Este conteúdo é derivado de outro certificado?
+          </Label>
+          <p className="text-xs text-purple-700 mt-1">
+            Vincule edições, recortes, traduções e remixes ao certificado de origem para manter a rastreabilidade.
+          </p>
+        </div>
+      </div>
+
+      {isEnabled && (
+        <div className="space-y-3 pl-7">
+          {value.parent ? (
+            <div className="flex items-center gap-3 bg-white p-3 rounded-lg border">
+              {value.parent.thumbnail && (
+                <img src={value.parent.thumbnail} alt="" className="h-10 w-10 rounded object-cover border" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{getContentTitle(value.parent)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Código {value.parent.verificationCode} · {value.parent.creatorName}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onChange({ ...value, parent: null })}
+                disabled={disabled}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar nos seus certificados ou informar o código de verificação"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="pl-9 bg-white"
+                  disabled={disabled}
+                />
+              </div>
+              <div className="bg-white border rounded-lg max-h-60 overflow-y-auto divide-y">
+                {isSearching ? (
+                  <div className="p-3 text-sm text-muted-foreground flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Buscando...
+                  </div>
+                ) : results.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">Nenhum certificado encontrado</p>
+                ) : (
+                  results.map(item => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      className="w-full text-left p-3 hover:bg-purple-50 flex items-center gap-3"
+                      onClick={() => handleSelect(item)}
+                      disabled={disabled}
+                    >
+                      {item.thumbnail && (
+                        <img src={item.thumbnail} alt="" className="h-8 w-8 rounded object-cover border" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{getContentTitle(item)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.verificationCode} · {new Date(item.createdAt).toLocaleDateString('pt-BR')}
+                          {item.userId !== userId && ` · ${item.creatorName}`}
+                        </p>
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs text-purple-900">Tipo de relação</Label>
+            <Select
+              value={value.relationType}
+              onValueChange={(relationType) => onChange({ ...value, relationType: relationType as ContentRelationType })}
+              disabled={disabled || isOtherCreator}
+            >
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                {(Object.keys(RELATION_LABELS) as ContentRelationType[]).map(relation => (
+                  <SelectItem key={relation} value={relation}>
+                    {RELATION_LABELS[relation]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-purple-700">
+              {isOtherCreator
+                ? 'Conteúdo de outro criador só pode ser vinculado como remix.'
+                : RELATION_DESCRIPTIONS[value.relationType]}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
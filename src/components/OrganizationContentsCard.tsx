@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderPlus, Loader2, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  canManageOrganization,
+  canSignForOrganization,
+  createOrganizationFolder,
+  getOrganizationContents,
+  moveOrganizationContent,
+} from '@/lib/services/organization-service';
+import type { OrganizationContent, OrganizationWorkspace } from '@/lib/services/organization-service';
+
+interface OrganizationContentsCardProps {
+  workspace: OrganizationWorkspace;
+  userId: string;
+  onFoldersChanged: () => void;
+}
+
+const PAGE_SIZE = 24;
+const ALL_FOLDERS = 'all';
+const NO_FOLDER = 'none';
+
+/**
+ * 📁 Pastas compartilhadas e certificados emitidos em nome da organização
+ */
+export const OrganizationContentsCard = ({ workspace, userId, onFoldersChanged }: OrganizationContentsCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [folderFilter, setFolderFilter] = useState<string>(ALL_FOLDERS);
+  const [items, setItems] = useState<OrganizationContent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [creatingFolder, setCreatingFolder] = useState(false);
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  const organizationId = workspace.organization.id;
+  const canOrganize = canSignForOrganization(workspace.my_role);
+
+  const loadPage = useCallback(async (offset: number) => {
+    setLoading(true);
+    const folderId = folderFilter === ALL_FOLDERS ? null : folderFilter;
+    const result = await getOrganizationContents(organizationId, folderId, PAGE_SIZE, offset);
+    setItems(current => (offset === 0 ? result.items : [...current, ...result.items]));
+    setTotal(result.total);
+    setLoading(false);
+  }, [organizationId, folderFilter]);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  const handleCreateFolder = async () => {
+    setCreatingFolder(true);
+    const result = await createOrganizationFolder(organizationId, userId, newFolderName);
+    setCreatingFolder(false);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao criar pasta', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    setNewFolderName('');
+    onFoldersChanged();
+  };
+
+  const handleMove = async (item: OrganizationContent, value: string) => {
+    const folderId = value === NO_FOLDER ? null : value;
+    setMovingId(item.id);
+    const result = await moveOrganizationContent(item.id, folderId);
+    setMovingId(null);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao mover certificado', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    if (folderFilter !== ALL_FOLDERS && folderFilter !== folderId) {
+      setItems(current => current.filter(entry => entry.id !== item.id));
+      setTotal(current => current - 1);
+    } else {
+      setItems(current => current.map(entry => (entry.id === item.id ? { ...entry, folder_id: folderId } : entry)));
+    }
+    onFoldersChanged();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Certificados da organização ({total})
+        </CardTitle>
+        <CardDescription>
+          Todos os membros veem os certificados emitidos em nome de {workspace.organization.name}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={folderFilter} onValueChange={setFolderFilter}>
+            <SelectTrigger className="sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FOLDERS}>Todas as pastas</SelectItem>
+              {workspace.folders.map(folder => (
+                <SelectItem key={folder.id} value={folder.id}>
+                  {folder.icon} {folder.name} ({folder.content_count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {canManageOrganization(workspace.my_role) && (
+            <div className="flex flex-1 gap-2">
+              <Input
+                placeholder="Nova pasta compartilhada"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                disabled={creatingFolder}
+              />
+              <Button
+                variant="outline"
+                onClick={handleCreateFolder}
+                disabled={creatingFolder || !newFolderName.trim()}
+              >
+                {creatingFolder
+                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                  : <FolderPlus className="h-4 w-4 mr-2" />}
+                Criar
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!loading && items.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nenhum certificado emitido em nome da organização{folderFilter !== ALL_FOLDERS ? ' nesta pasta' : ''}.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border">
+              {item.thumbnail && (
+                <img src={item.thumbnail} alt="" className="h-12 w-12 rounded object-cover border" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{item.content.split('\n')[0]}</p>
+                <p className="text-xs text-muted-foreground">
+                  {item.creator_name} · {new Date(item.created_at).toLocaleDateString('pt-BR')} ·{' '}
+                  <button
+                    type="button"
+                    className="font-mono hover:underline"
+                    onClick={() => navigate(`/certificate?id=${item.id}`)}
+                  >
+                    {item.verification_code}
+                  </button>
+                  {item.revoked_at && <Badge variant="destructive" className="ml-2">Revogado</Badge>}
+                </p>
+              </div>
+              {canOrganize && workspace.folders.length > 0 && (
+                <Select
+                  value={item.folder_id ?? NO_FOLDER}
+                  onValueChange={(value) => handleMove(item, value)}
+                  disabled={movingId === item.id}
+                >
+                  <SelectTrigger className="sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FOLDER}>Sem pasta</SelectItem>
+                    {workspace.folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>{folder.icon} {folder.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!loading && items.length < total && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => loadPage(items.length)}>
+              Carregar mais
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Building2, Check, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getMyOrganizationInvitations,
+  respondOrganizationInvitation,
+  ORGANIZATION_ROLE_LABELS,
+} from '@/lib/services/organization-service';
+import type { MyOrganizationInvitation } from '@/lib/services/organization-service';
+
+interface OrganizationInvitationsCardProps {
+  userId: string;
+  onAccepted?: (organizationId: string) => void;
+  className?: string;
+}
+
+/**
+ * 📬 Convites para organizações recebidos (some quando não há convites)
+ */
+export const OrganizationInvitationsCard = ({ userId, onAccepted, className = '' }: OrganizationInvitationsCardProps) => {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<MyOrganizationInvitation[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMyOrganizationInvitations().then((result) => {
+      if (!cancelled) setInvitations(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleRespond = async (invitation: MyOrganizationInvitation, accept: boolean) => {
+    setProcessingId(invitation.id);
+    const result = await respondOrganizationInvitation(invitation.id, accept);
+    setProcessingId(null);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao responder convite', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    setInvitations(current => current.filter(item => item.id !== invitation.id));
+    if (accept) {
+      toast({ title: 'Convite aceito', description: `Você agora faz parte de ${invitation.organization_name}` });
+      onAccepted?.(invitation.organization_id);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Convites de organizações
+        </CardTitle>
+        <CardDescription>
+          Ao aceitar, você passa a ver o workspace da organização de acordo com o papel recebido.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map(invitation => (
+          <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{invitation.organization_name}</p>
+              <p className="text-xs text-muted-foreground">
+                {invitation.inviter_name || 'Um administrador'} convidou você como{' '}
+                <strong>{ORGANIZATION_ROLE_LABELS[invitation.role]}</strong> · expira em{' '}
+                {new Date(invitation.expires_at).toLocaleDateString('pt-BR')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleRespond(invitation, true)}
+                disabled={processingId === invitation.id}
+              >
+                {processingId === invitation.id
+                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                  : <Check className="h-4 w-4 mr-2" />}
+                Aceitar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRespond(invitation, false)}
+                disabled={processingId === invitation.id}
+              >
+                Recusar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, LogOut, Mail, UserMinus, Users, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  canManageOrganization,
+  inviteOrganizationMember,
+  removeOrganizationMember,
+  revokeOrganizationInvitation,
+  updateOrganizationMemberRole,
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+} from '@/lib/services/organization-service';
+import type { InvitableRole, OrganizationMember, OrganizationWorkspace } from '@/lib/services/organization-service';
+
+interface OrganizationMembersCardProps {
+  workspace: OrganizationWorkspace;
+  userId: string;
+  onChanged: () => void;
+  onLeft: () => void;
+}
+
+const INVITABLE_ROLES: InvitableRole[] = ['admin', 'signer', 'viewer'];
+
+/**
+ * 👥 Membros, papéis e convites pendentes da organização
+ */
+export const OrganizationMembersCard = ({ workspace, userId, onChanged, onLeft }: OrganizationMembersCardProps) => {
+  const { toast } = useToast();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('signer');
+  const [inviting, setInviting] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const organizationId = workspace.organization.id;
+  const myRole = workspace.my_role;
+  const canManage = canManageOrganization(myRole);
+  // Só o dono promove a administrador
+  const assignableRoles = myRole === 'owner' ? INVITABLE_ROLES : INVITABLE_ROLES.filter(role => role !== 'admin');
+
+  const canEditMember = (member: OrganizationMember) =>
+    canManage &&
+    member.user_id !== userId &&
+    member.role !== 'owner' &&
+    (myRole === 'owner' || member.role !== 'admin');
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return;
+    setInviting(true);
+    const result = await inviteOrganizationMember(organizationId, inviteEmail, inviteRole);
+    setInviting(false);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao convidar', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: 'Convite criado',
+      description: result.emailSent
+        ? `E-mail enviado para ${inviteEmail.trim()}`
+        : 'O convite aparece para a pessoa ao entrar com este e-mail',
+    });
+    setInviteEmail('');
+    onChanged();
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: InvitableRole) => {
+    setProcessingId(member.user_id);
+    const result = await updateOrganizationMemberRole(organizationId, member.user_id, role);
+    setProcessingId(null);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao alterar papel', description: result.error, variant: 'destructive' });
+      return;
+    }
+    onChanged();
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    const leaving = member.user_id === userId;
+    const question = leaving
+      ? `Sair de ${workspace.organization.name}?`
+      : `Remover ${member.name} da organização?`;
+    if (!window.confirm(question)) return;
+
+    setProcessingId(member.user_id);
+    const result = await removeOrganizationMember(organizationId, member.user_id);
+    setProcessingId(null);
+
+    if (!result.success) {
+      toast({ title: leaving ? 'Erro ao sair' : 'Erro ao remover membro', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    if (leaving) {
+      onLeft();
+    } else {
+      onChanged();
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    setProcessingId(invitationId);
+    const result = await revokeOrganizationInvitation(invitationId);
+    setProcessingId(null);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao revogar convite', description: result.error, variant: 'destructive' });
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Membros ({workspace.members.length})
+        </CardTitle>
+        <CardDescription>{ORGANIZATION_ROLE_DESCRIPTIONS[myRole]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {workspace.members.map(member => (
+            <div key={member.user_id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {member.name}
+                  {member.user_id === userId && <span className="text-muted-foreground"> (você)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {member.email && <>{member.email} · </>}
+                  {member.signatures_30d} certificado{member.signatures_30d === 1 ? '' : 's'} em 30 dias
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {canEditMember(member) ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => handleRoleChange(member, value as InvitableRole)}
+                    disabled={processingId === member.user_id}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map(role => (
+                        <SelectItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>
+                    {ORGANIZATION_ROLE_LABELS[member.role]}
+                  </Badge>
+                )}
+                {(canEditMember(member) || (member.user_id === userId && member.role !== 'owner')) && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleRemove(member)}
+                    disabled={processingId === member.user_id}
+                    title={member.user_id === userId ? 'Sair da organização' : 'Remover membro'}
+                  >
+                    {processingId === member.user_id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : member.user_id === userId
+                        ? <LogOut className="h-4 w-4" />
+                        : <UserMinus className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="space-y-3 pt-2 border-t">
+            <p className="text-sm font-medium flex items-center gap-2 pt-2">
+              <Mail className="h-4 w-4" />
+              Convidar por e-mail
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="email"
+                placeholder="email@empresa.com.br"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                disabled={inviting}
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InvitableRole)}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map(role => (
+                    <SelectItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleInvite} disabled={inviting || !inviteEmail.trim()}>
+                {inviting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Convidar
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{ORGANIZATION_ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+            {workspace.invitations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Convites pendentes</p>
+                {workspace.invitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate">{invitation.email}</span>
+                    <Badge variant="outline">{ORGANIZATION_ROLE_LABELS[invitation.role]}</Badge>
+                    <span className="text-xs text-muted-foreground hidden sm:inline">
+                      expira em {new Date(invitation.expires_at).toLocaleDateString('pt-BR')}
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleRevoke(invitation.id)}
+                      disabled={processingId === invitation.id}
+                      title="Revogar convite"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
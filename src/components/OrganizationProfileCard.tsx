@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Building2, Globe } from 'lucide-react';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import { getPublicOrganizationProfile } from '@/lib/services/organization-service';
+import type { PublicOrganizationProfile } from '@/lib/services/organization-service';
+
+interface OrganizationProfileCardProps {
+  content: SignedContent;
+}
+
+/**
+ * 🏢 Organização emissora: o certificado foi emitido em nome dela
+ * por um membro com papel de assinatura
+ */
+export const OrganizationProfileCard = ({ content }: OrganizationProfileCardProps) => {
+  const [profile, setProfile] = useState<PublicOrganizationProfile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+    if (!content.organizationId) return;
+
+    getPublicOrganizationProfile(content.organizationId).then((result) => {
+      if (!cancelled) setProfile(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [content.organizationId]);
+
+  if (!content.organizationId || !profile) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 sm:mb-8">
+      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+        <Building2 className="h-3 w-3 sm:h-4 sm:w-4" />
+        Organização Emissora
+      </div>
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-lg border-l-4 border-purple-600 space-y-2">
+        <div className="flex items-center gap-3">
+          {profile.logo_url ? (
+            <img
+              src={profile.logo_url}
+              alt={profile.name}
+              className="h-10 w-10 rounded-md object-cover border bg-white"
+            />
+          ) : (
+            <div className="h-10 w-10 rounded-md bg-purple-100 text-purple-700 flex items-center justify-center">
+              <Building2 className="h-5 w-5" />
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="text-base sm:text-lg font-medium break-words">{profile.name}</p>
+            <p className="text-xs text-gray-500">
+              Assinado por {content.creatorName} em nome da organização
+            </p>
+          </div>
+        </div>
+
+        {profile.description && (
+          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{profile.description}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+          <span>{profile.member_count} membro{profile.member_count === 1 ? '' : 's'}</span>
+          <span>{profile.certificate_count} certificado{profile.certificate_count === 1 ? '' : 's'} emitido{profile.certificate_count === 1 ? '' : 's'}</span>
+          <span>Desde {new Date(profile.created_at).toLocaleDateString('pt-BR')}</span>
+          {profile.website && (
+            <a
+              href={profile.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-blue-600 hover:underline break-all"
+            >
+              <Globe className="h-3 w-3" />
+              {profile.website.replace(/^https?:\/\//, '')}
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -47,6 +47,9 @@ interface PublicDownloadButtonProps {
   
   /** 🆕 Informações para marca d'água (apenas para imagens) */
   watermarkInfo?: WatermarkInfo;
+  
+  /** 🆕 Embutir credenciais de conteúdo C2PA em JPEG/PNG/PDF (padrão: true; só são emitidas para o criador logado) */
+  contentCredentials?: boolean;
 }
 
 /**
@@ -96,6 +99,7 @@ export function PublicDownloadButton({
   size = 'default',
   showFileInfo = true,
   watermarkInfo,
+  contentCredentials = true,
 }: PublicDownloadButtonProps) {
   const [isDownloading, setIsDownloading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -161,7 +165,10 @@ export function PublicDownloadButton({
         console.log('🎨 [PublicDownloadButton] Aplicando marca d\'água...');
         
         // Download com marca d'água (suporta imagens e PDFs)
-        await downloadWithWatermark(blob, fileName, watermarkInfo, mimeType);
+        await downloadWithWatermark(blob, fileName, {
+          ...watermarkInfo,
+          contentCredentials: watermarkInfo.contentCredentials ?? contentCredentials,
+        }, mimeType);
         
         console.log('✅ [PublicDownloadButton] Download com marca d\'água concluído');
         
@@ -0,0 +1,60 @@
+import { Ban, Scale } from 'lucide-react';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import { getRevocationStatus } from '@/lib/services/revocation-service';
+
+interface RevocationBannerProps {
+  content: SignedContent;
+  className?: string;
+}
+
+/**
+ * 🚫 Aviso de certificado revogado ou em disputa
+ * (o registro original continua visível abaixo)
+ */
+export const RevocationBanner = ({ content, className = 'mb-6 sm:mb-8' }: RevocationBannerProps) => {
+  const status = getRevocationStatus(content);
+  if (status.state === 'active') return null;
+
+  const since = status.since
+    ? new Date(status.since).toLocaleDateString('pt-BR', { day: '2-digit', month: 'long', year: 'numeric' })
+    : '';
+
+  if (status.state === 'revoked') {
+    return (
+      <div className={`${className} bg-red-50 border-2 border-red-300 p-4 rounded-xl flex items-start gap-3`}>
+        <Ban className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="font-semibold text-red-800 text-sm sm:text-base">
+            Certificado revogado em {since}
+          </p>
+          {status.reasonLabel && (
+            <p className="text-xs sm:text-sm text-red-700">Motivo: {status.reasonLabel}</p>
+          )}
+          {status.note && (
+            <p className="text-xs sm:text-sm text-red-700 italic mt-1">“{status.note}”</p>
+          )}
+          <p className="text-xs sm:text-sm text-red-700 mt-1">
+            Este certificado não comprova mais a autoria do conteúdo. O registro original é mantido para consulta.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${className} bg-amber-50 border-2 border-amber-300 p-4 rounded-xl flex items-start gap-3`}>
+      <Scale className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+      <div>
+        <p className="font-semibold text-amber-800 text-sm sm:text-base">
+          Certificado em disputa desde {since}
+        </p>
+        {status.reasonLabel && (
+          <p className="text-xs sm:text-sm text-amber-700">Motivo da denúncia: {status.reasonLabel}</p>
+        )}
+        <p className="text-xs sm:text-sm text-amber-700 mt-1">
+          Uma denúncia sobre este certificado está em análise pela equipe do Vero iD.
+        </p>
+      </div>
+    </div>
+  );
+};
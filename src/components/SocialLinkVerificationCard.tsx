@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BadgeCheck, Copy, Loader2, ShieldQuestion, RefreshCw } from 'lucide-react';
+import type { SocialLinks } from '@/lib/supabase';
+import {
+  checkSocialVerification,
+  listSocialVerifications,
+  normalizeSocialUrl,
+  requestSocialChallenge,
+} from '@/lib/services/social-verification-service';
+import type { SocialPlatform, SocialVerification } from '@/lib/services/social-verification-service';
+import { useToast } from '@/hooks/use-toast';
+
+interface SocialLinkVerificationCardProps {
+  socialLinks?: SocialLinks | null;
+}
+
+const PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  tiktok: 'TikTok',
+  twitter: 'Twitter/X',
+  youtube: 'YouTube',
+  linkedin: 'LinkedIn',
+  website: 'Website',
+};
+
+/**
+ * ✅ Verificação de controle dos links sociais exibidos nos certificados
+ */
+export const SocialLinkVerificationCard = ({ socialLinks }: SocialLinkVerificationCardProps) => {
+  const [verifications, setVerifications] = useState<SocialVerification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyPlatform, setBusyPlatform] = useState<SocialPlatform | null>(null);
+  const [openPlatform, setOpenPlatform] = useState<SocialPlatform | null>(null);
+  const { toast } = useToast();
+
+  const loadVerifications = useCallback(async () => {
+    setLoading(true);
+    setVerifications(await listSocialVerifications());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadVerifications();
+  }, [loadVerifications]);
+
+  const links = Object.entries(socialLinks || {})
+    .filter(([, url]) => typeof url === 'string' && url.trim() !== '') as Array<[SocialPlatform, string]>;
+
+  // Verificação só vale para o link atual (URL normalizada igual)
+  const getVerification = (platform: SocialPlatform, url: string) => {
+    const verification = verifications.find((item) => item.platform === platform);
+    return verification && verification.url === normalizeSocialUrl(url) ? verification : null;
+  };
+
+  const upsertVerification = (verification: SocialVerification) => {
+    setVerifications((current) => [
+      ...current.filter((item) => item.platform !== verification.platform),
+      verification,
+    ]);
+  };
+
+  const handleStart = async (platform: SocialPlatform) => {
+    setBusyPlatform(platform);
+    try {
+      upsertVerification(await requestSocialChallenge(platform));
+      setOpenPlatform(platform);
+    } catch (error) {
+      toast({
+        title: 'Erro ao gerar código',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyPlatform(null);
+    }
+  };
+
+  const handleCheck = async (platform: SocialPlatform) => {
+    setBusyPlatform(platform);
+    try {
+      const verification = await checkSocialVerification(platform);
+      upsertVerification(verification);
+
+      if (verification.status === 'verified') {
+        setOpenPlatform(null);
+        toast({ title: `${PLATFORM_LABELS[platform]} verificado` });
+      } else {
+        toast({
+          title: 'Código não encontrado',
+          description: 'Confira se o código foi publicado e tente novamente em alguns instantes.',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Erro na verificação',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyPlatform(null);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: 'Copiado para a área de transferência' });
+  };
+
+  const renderInstructions = (platform: SocialPlatform, verification: SocialVerification) => {
+    const token = verification.challengeToken;
+
+    if (platform === 'website') {
+      const host = new URL(verification.url).hostname;
+      const wellKnown = JSON.stringify({ 'veroid-verification': token });
+      return (
+        <div className="space-y-3 text-xs">
+          <div>
+            <p className="font-semibold mb-1">Opção 1: arquivo no site</p>
+            <p className="text-muted-foreground mb-1">
+              Publique <code>https://{host}/.well-known/veroid.json</code> com o conteúdo:
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 bg-white border rounded font-mono break-all">{wellKnown}</code>
+              <Button variant="outline" size="sm" onClick={() => handleCopy(wellKnown)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div>
+            <p className="font-semibold mb-1">Opção 2: registro DNS</p>
+            <p className="text-muted-foreground mb-1">
+              Crie um registro TXT em <code>_veroid.{host}</code> com o valor:
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 bg-white border rounded font-mono break-all">veroid-verification={token}</code>
+              <Button variant="outline" size="sm" onClick={() => handleCopy(`veroid-verification=${token}`)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2 text-xs">
+        <p className="text-muted-foreground">
+          Adicione o código abaixo à bio/descrição pública do seu perfil no {PLATFORM_LABELS[platform]}.
+          Depois da verificação você pode removê-lo.
+        </p>
+        <div className="flex items-center gap-2">
+          <code className="flex-1 p-2 bg-white border rounded font-mono text-sm">{token}</code>
+          <Button variant="outline" size="sm" onClick={() => handleCopy(token)}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BadgeCheck className="h-5 w-5" />
+          Verificação dos Links
+        </CardTitle>
+        <CardDescription>
+          Comprove que você controla seus perfis. Somente links verificados aparecem nos certificados.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando verificações...
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Adicione links de redes sociais para verificá-los.</p>
+        ) : (
+          links.map(([platform, url]) => {
+            const verification = getVerification(platform, url);
+            const isVerified = verification?.status === 'verified';
+            const isBusy = busyPlatform === platform;
+
+            return (
+              <div key={platform} className="p-3 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm flex items-center gap-2">
+                      {PLATFORM_LABELS[platform] ?? platform}
+                      {isVerified ? (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                          <BadgeCheck className="h-3 w-3 mr-1" />
+                          Verificado
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-amber-700 border-amber-300">
+                          <ShieldQuestion className="h-3 w-3 mr-1" />
+                          Não verificado
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{url}</p>
+                    {isVerified && verification.verifiedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Verificado em {new Date(verification.verifiedAt).toLocaleDateString('pt-BR')}
+                      </p>
+                    )}
+                  </div>
+                  {!isVerified && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => (verification ? setOpenPlatform(openPlatform === platform ? null : platform) : handleStart(platform))}
+                    >
+                      {isBusy && !verification ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : null}
+                      Verificar
+                    </Button>
+                  )}
+                </div>
+
+                {!isVerified && verification && openPlatform === platform && (
+                  <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+                    {renderInstructions(platform, verification)}
+                    {verification.status === 'failed' && verification.lastError && (
+                      <p className="text-xs text-red-600">Última tentativa: {verification.lastError}</p>
+                    )}
+                    <Button size="sm" onClick={() => handleCheck(platform)} disabled={isBusy}>
+                      {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                      Verificar agora
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,180 @@
+/**
+ * StorageUsageMeter.tsx
+ *
+ * Card com o armazenamento usado pelo usuário em relação à cota do plano
+ * (1GB / 5GB / 20GB / ilimitado). Exibido em "Minha Assinatura" e no Perfil.
+ *
+ * Fonte de dados: RPCs `get_storage_usage` e `reconcile_storage_usage`
+ * (ver supabase/migations/20261018_storage_quotas.sql).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle, HardDrive, Loader2, RefreshCw, TrendingUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatStorageBytes,
+  getStorageUsage,
+  getStorageUsagePercent,
+  reconcileStorageUsage,
+  type StorageUsage,
+} from '@/lib/services/storage-quota-service';
+
+interface StorageUsageMeterProps {
+  className?: string;
+}
+
+export function StorageUsageMeter({ className }: StorageUsageMeterProps) {
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reconciling, setReconciling] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    const result = await getStorageUsage();
+    setUsage(result);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void loadUsage();
+  }, [loadUsage]);
+
+  /** Recalcula o consumo a partir dos arquivos armazenados. */
+  const handleReconcile = async () => {
+    setReconciling(true);
+    const result = await reconcileStorageUsage();
+    setReconciling(false);
+
+    if (!result.success) {
+      toast({
+        title: '❌ Erro ao recalcular',
+        description: result.error || 'Não foi possível recalcular o armazenamento.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: '✅ Armazenamento recalculado',
+      description: result.driftBytes
+        ? `Consumo ajustado em ${formatStorageBytes(Math.abs(result.driftBytes))}.`
+        : 'O consumo já estava correto.',
+    });
+    await loadUsage();
+  };
+
+  if (loading) {
+    return (
+      <Card className={className}>
+        <CardContent className="py-6">
+          <div className="animate-pulse h-16 bg-gray-200 rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!usage) {
+    return null;
+  }
+
+  const isUnlimited = usage.quotaBytes === null;
+  const usagePercentage = getStorageUsagePercent(usage);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            Armazenamento
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleReconcile}
+            disabled={reconciling}
+            title="Recalcular a partir dos arquivos armazenados"
+          >
+            {reconciling ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+        <CardDescription>
+          Documentos assinados e uploads em andamento contam para a cota do seu plano.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Uso de Armazenamento</p>
+          <p className="text-sm text-gray-600">
+            {formatStorageBytes(usage.usedBytes)} / {isUnlimited ? 'Ilimitado' : formatStorageBytes(usage.quotaBytes ?? 0)}
+          </p>
+        </div>
+
+        {!isUnlimited && (
+          <div className="w-full bg-gray-200 rounded-full h-3">
+            <div
+              className={`h-3 rounded-full transition-all ${
+                usagePercentage >= 90
+                  ? 'bg-red-500'
+                  : usagePercentage >= 70
+                  ? 'bg-yellow-500'
+                  : 'bg-green-500'
+              }`}
+              style={{ width: `${usagePercentage}%` }}
+            />
+          </div>
+        )}
+
+        <div className="text-xs text-muted-foreground">
+          {usage.signedFiles} documento(s) assinado(s) · {formatStorageBytes(usage.signedBytes)}
+          {usage.tempFiles > 0 && (
+            <> · {usage.tempFiles} upload(s) temporário(s) · {formatStorageBytes(usage.tempBytes)}</>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          {usagePercentage >= 90 ? (
+            <>
+              <AlertCircle className="h-4 w-4 text-red-500" />
+              <span className="text-red-600">
+                Seu armazenamento está quase cheio. Exclua arquivos ou faça upgrade.
+              </span>
+            </>
+          ) : usagePercentage >= 70 ? (
+            <>
+              <AlertCircle className="h-4 w-4 text-yellow-500" />
+              <span className="text-yellow-600">
+                Você usou {Math.round(usagePercentage)}% do seu armazenamento.
+              </span>
+            </>
+          ) : (
+            <>
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              <span className="text-green-600">
+                {isUnlimited
+                  ? 'Seu plano tem armazenamento ilimitado.'
+                  : `Você tem ${formatStorageBytes(Math.max((usage.quotaBytes ?? 0) - usage.usedBytes, 0))} disponíveis.`}
+              </span>
+            </>
+          )}
+        </div>
+
+        {usagePercentage >= 90 && (
+          <Link to="/pricing">
+            <Button size="sm" variant="outline">
+              <TrendingUp className="mr-2 h-4 w-4" />
+              Ver Planos
+            </Button>
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,13 +11,14 @@ import {
   getStatusLabel,
   formatDate,
   formatDateShort,
-  getValidPackages,
   getDaysUntilRenewal,
   getScheduledDowngradeInfo,
+  useCreditLots,
 } from '@/hooks/useSubscription';
 
 export const SubscriptionCard = () => {
   const { subscription, loading, refetch } = useSubscription();
+  const { lots: creditLots, balance: overageAvailable, refetch: refetchCredits } = useCreditLots();
   const [isExpanded, setIsExpanded] = useState(false);
 
   // 🆕 Escuta evento global `vero:subscription-refresh` para refazer fetch
@@ -28,10 +29,11 @@ export const SubscriptionCard = () => {
     const handler = () => {
       console.log('🔔 [SubscriptionCard] Evento vero:subscription-refresh recebido, refazendo fetch...');
       refetch();
+      refetchCredits();
     };
     window.addEventListener('vero:subscription-refresh', handler);
     return () => window.removeEventListener('vero:subscription-refresh', handler);
-  }, [refetch]);
+  }, [refetch, refetchCredits]);
 
   if (loading) {
     return (
@@ -92,12 +94,8 @@ export const SubscriptionCard = () => {
   // ✅ CORREÇÃO: Calcular créditos APENAS de pacotes válidos (não expirados)
   const signaturesRemaining = Math.max(0, subscription.signatures_limit - subscription.signatures_used);
   
-  // 🆕 Obtém pacotes válidos (não expirados e com créditos)
-  const validPackages = getValidPackages(subscription.metadata?.package_purchases);
-  const hasValidPackages = validPackages.length > 0;
-  
-  // ✅ CORREÇÃO CRÍTICA: Usar soma dos créditos dos pacotes VÁLIDOS em vez de overage_signatures_available
-  const overageAvailable = validPackages.reduce((sum, pkg) => sum + pkg.credits_remaining, 0);
+  // 🆕 Créditos avulsos vêm dos lotes válidos do extrato (credit_lots)
+  const hasValidPackages = creditLots.length > 0;
   const totalAvailable = signaturesRemaining + overageAvailable;
   
   // Calcula a porcentagem baseada no total (plano + extras válidos)
@@ -264,14 +262,14 @@ export const SubscriptionCard = () => {
                   
                   {/* 🆕 Lista de pacotes com datas individuais */}
                   <div className="space-y-1 mt-1">
-                    {validPackages.map((pkg, index) => (
-                      <div key={index} className="flex items-center justify-between text-xs text-green-600 bg-green-100/50 rounded px-2 py-1">
+                    {creditLots.map(lot => (
+                      <div key={lot.id} className="flex items-center justify-between text-xs text-green-600 bg-green-100/50 rounded px-2 py-1">
                         <span className="flex items-center gap-1">
                           <Clock className="h-3 w-3" />
-                          {pkg.package_name}: {pkg.credits_remaining} créditos
+                          {lot.description}: {lot.credits_remaining} créditos
                         </span>
                         <span className="font-medium">
-                          até {formatDateShort(pkg.expiration_date)}
+                          {lot.expires_at ? `até ${formatDateShort(lot.expires_at)}` : 'sem validade'}
                         </span>
                       </div>
                     ))}
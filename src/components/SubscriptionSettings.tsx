@@ -23,7 +23,6 @@ import {
   XCircle,
   ExternalLink,
   Clock,
-  Package,
 } from 'lucide-react';
 import {
   useSubscription,
@@ -31,14 +30,14 @@ import {
   getStatusColor,
   getStatusLabel,
   formatDate,
-  formatDateShort,
-  getValidPackages,
   getDaysUntilRenewal,
 } from '@/hooks/useSubscription';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { TrialInfoCard } from '@/components/TrialInfoCard';
+import { StorageUsageMeter } from '@/components/StorageUsageMeter';
+import { CreditStatementCard } from '@/components/CreditStatementCard';
 import { useTrialStatus } from '@/hooks/useTrialStatus';
 
 export const SubscriptionSettings = () => {
@@ -92,6 +91,7 @@ export const SubscriptionSettings = () => {
             </Link>
           </CardContent>
         </Card>
+        <StorageUsageMeter />
       </div>
     );
   }
@@ -105,11 +105,6 @@ export const SubscriptionSettings = () => {
   // ✅ Detecta se a assinatura foi cancelada
   const isCanceled = subscription.cancel_at_period_end === true;
 
-  // 🆕 Obtém pacotes válidos (não expirados e com créditos)
-  const validPackages = getValidPackages(subscription.metadata?.package_purchases);
-  const hasValidPackages = validPackages.length > 0;
-  const totalValidCredits = validPackages.reduce((sum, pkg) => sum + pkg.credits_remaining, 0);
-
   // 🆕 Função para abrir o Stripe Billing Portal
   const handleOpenBillingPortal = async () => {
     setOpeningPortal(true);
@@ -381,79 +376,15 @@ export const SubscriptionSettings = () => {
             </div>
           </div>
 
-          {/* 🆕 ATUALIZADO: Créditos extras COM lista de pacotes e datas individuais */}
-          {hasValidPackages && (
-            <>
-              <Separator />
-              <div className="flex flex-col gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Package className="h-5 w-5 text-green-600" />
-                    <div>
-                      <p className="text-sm font-medium text-green-900">
-                        Autenticações Extras Disponíveis
-                      </p>
-                      <p className="text-xs text-green-700">
-                        Total de {totalValidCredits} autenticações extras de {validPackages.length} pacote(s)
-                      </p>
-                    </div>
-                  </div>
-                  <span className="text-2xl font-bold text-green-700">
-                    +{totalValidCredits}
-                  </span>
-                </div>
-                
-                {/* 🆕 Lista detalhada de pacotes com datas individuais */}
-                <div className="space-y-2 mt-2">
-                  <p className="text-xs font-medium text-green-800">Detalhes dos pacotes:</p>
-                  {validPackages.map((pkg, index) => {
-                    const daysUntilExpiration = getDaysUntilRenewal(pkg.expiration_date);
-                    const isExpiringSoon = daysUntilExpiration <= 7;
-                    
-                    return (
-                      <div 
-                        key={index} 
-                        className={`flex items-center justify-between text-sm p-2 rounded ${
-                          isExpiringSoon 
-                            ? 'bg-yellow-100 border border-yellow-300' 
-                            : 'bg-green-100/50 border border-green-200'
-                        }`}
-                      >
-                        <div className="flex items-center gap-2">
-                          <Package className={`h-4 w-4 ${isExpiringSoon ? 'text-yellow-600' : 'text-green-600'}`} />
-                          <div>
-                            <p className={`font-medium ${isExpiringSoon ? 'text-yellow-800' : 'text-green-800'}`}>
-                              {pkg.package_name}
-                            </p>
-                            <p className={`text-xs ${isExpiringSoon ? 'text-yellow-600' : 'text-green-600'}`}>
-                              Comprado em {formatDateShort(pkg.purchase_date)}
-                            </p>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <p className={`font-bold ${isExpiringSoon ? 'text-yellow-700' : 'text-green-700'}`}>
-                            {pkg.credits_remaining} créditos
-                          </p>
-                          <div className={`flex items-center gap-1 text-xs ${isExpiringSoon ? 'text-yellow-600' : 'text-green-600'}`}>
-                            <Clock className="h-3 w-3" />
-                            <span>
-                              {isExpiringSoon 
-                                ? `Expira em ${daysUntilExpiration} dia(s)!` 
-                                : `Válido até ${formatDateShort(pkg.expiration_date)}`
-                              }
-                            </span>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            </>
-          )}
         </CardContent>
       </Card>
 
+      {/* Créditos avulsos */}
+      <CreditStatementCard />
+
+      {/* Storage */}
+      <StorageUsageMeter />
+
       {/* Actions */}
       <Card>
         <CardHeader>
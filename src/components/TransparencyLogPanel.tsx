@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Clock, Loader2, Network, XCircle } from 'lucide-react';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import { verifyCertificateInLog } from '@/lib/services/transparency-service';
+import type { TransparencyVerification } from '@/lib/services/transparency-service';
+
+interface TransparencyLogPanelProps {
+  content: SignedContent;
+}
+
+/**
+ * 🌳 Log de transparência: posição do certificado no log, prova de
+ * inclusão no último tree head assinado e consistência com o anterior
+ */
+export const TransparencyLogPanel = ({ content }: TransparencyLogPanelProps) => {
+  const [verification, setVerification] = useState<TransparencyVerification | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerification(null);
+
+    verifyCertificateInLog(content).then((result) => {
+      if (!cancelled) setVerification(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [content]);
+
+  // Log indisponível: não polui o certificado
+  if (verification?.status === 'error') {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 sm:mb-8">
+      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+        <Network className="h-3 w-3 sm:h-4 sm:w-4" />
+        Log de Transparência
+      </div>
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-lg border-l-4 border-blue-600 space-y-2">
+        {!verification && (
+          <p className="text-sm text-gray-500 flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Verificando prova de inclusão...
+          </p>
+        )}
+        {verification?.status === 'verified' && (
+          <p className="text-sm font-semibold text-green-700 flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4" />
+            Registrado no log público
+          </p>
+        )}
+        {verification?.status === 'pending' && (
+          <p className="text-sm font-semibold text-amber-700 flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Aguardando publicação
+          </p>
+        )}
+        {verification?.status === 'missing' && (
+          <p className="text-sm font-semibold text-amber-700 flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            Não encontrado no log
+          </p>
+        )}
+        {(verification?.status === 'mismatch' || verification?.status === 'invalid') && (
+          <p className="text-sm font-semibold text-red-700 flex items-center gap-2">
+            <XCircle className="h-4 w-4" />
+            Falha na verificação do log
+          </p>
+        )}
+        {verification && <p className="text-xs text-gray-600">{verification.detail}</p>}
+
+        {verification?.entry && (
+          <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-gray-500">Posição no log</dt>
+            <dd className="font-medium">#{verification.entry.leafIndex}</dd>
+            <dt className="text-gray-500">Hash da entrada</dt>
+            <dd className="font-mono text-xs break-all">{verification.entry.leafHash}</dd>
+            {verification.treeHead && (
+              <>
+                <dt className="text-gray-500">Tree head</dt>
+                <dd className="font-medium">
+                  {verification.treeHead.treeSize} certificados em{' '}
+                  {new Date(verification.treeHead.timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                </dd>
+                <dt className="text-gray-500">Raiz</dt>
+                <dd className="font-mono text-xs break-all">{verification.treeHead.rootHash}</dd>
+              </>
+            )}
+          </dl>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle2, Clock, Download, Loader2, XCircle } from 'lucide-react';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import {
+  applyTimestamp,
+  getContentTimestamp,
+  requestContentTimestamp,
+  verifyContentTimestamp,
+} from '@/lib/services/timestamp-service';
+import type { TimestampVerification } from '@/lib/services/timestamp-service';
+
+interface TrustedTimestampPanelProps {
+  content: SignedContent;
+  /** Usuário logado (o dono pode solicitar o carimbo se ainda não houver) */
+  viewerId: string | null;
+  onTimestamped?: (content: SignedContent) => void;
+}
+
+/**
+ * ⏱️ Carimbo de tempo RFC 3161: TSA, número de série e genTime,
+ * com a assinatura da TSA conferida no navegador
+ */
+export const TrustedTimestampPanel = ({ content, viewerId, onTimestamped }: TrustedTimestampPanelProps) => {
+  const [verification, setVerification] = useState<TimestampVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [requestError, setRequestError] = useState('');
+
+  const timestamp = getContentTimestamp(content);
+  const isOwner = !!viewerId && viewerId === content.userId;
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerification(null);
+    if (!content.tsaToken) return;
+
+    setIsVerifying(true);
+    verifyContentTimestamp(content)
+      .then((result) => {
+        if (!cancelled) setVerification(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsVerifying(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [content]);
+
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    setRequestError('');
+    const result = await requestContentTimestamp(content.id);
+    setIsRequesting(false);
+
+    if (!result.timestamp) {
+      setRequestError(result.error || 'Não foi possível obter o carimbo de tempo.');
+      return;
+    }
+    onTimestamped?.(applyTimestamp(content, result.timestamp));
+  };
+
+  const handleDownloadToken = () => {
+    if (!timestamp) return;
+    const bytes = Uint8Array.from(atob(timestamp.token), c => c.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `veroId-timestamp-${content.verificationCode}.tst`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!timestamp && !isOwner) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 sm:mb-8">
+      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+        <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
+        Carimbo de Tempo (RFC 3161)
+      </div>
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-lg border-l-4 border-blue-600 space-y-2">
+        {timestamp ? (
+          <>
+            {isVerifying && (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Verificando carimbo...
+              </p>
+            )}
+            {verification?.status === 'valid' && (
+              <p className="text-sm font-semibold text-green-700 flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4" />
+                Carimbo válido
+              </p>
+            )}
+            {verification?.status === 'invalid' && (
+              <p className="text-sm font-semibold text-red-700 flex items-center gap-2">
+                <XCircle className="h-4 w-4" />
+                Carimbo inválido
+              </p>
+            )}
+            {verification?.status === 'unsupported' && (
+              <p className="text-sm font-semibold text-amber-700 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Carimbo não verificado
+              </p>
+            )}
+            {verification && <p className="text-xs text-gray-600">{verification.detail}</p>}
+
+            <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-gray-500">Data atestada</dt>
+              <dd className="font-medium">
+                {new Date(timestamp.genTime).toLocaleString('pt-BR', { dateStyle: 'long', timeStyle: 'medium' })}
+                <span className="text-xs text-gray-500 font-mono ml-2">{timestamp.genTime}</span>
+              </dd>
+              <dt className="text-gray-500">Autoridade (TSA)</dt>
+              <dd className="font-medium break-all">
+                {timestamp.tsaName || 'Não informada'}
+                {timestamp.tsaUrl && <span className="text-xs text-gray-500 font-mono ml-2">{timestamp.tsaUrl}</span>}
+              </dd>
+              <dt className="text-gray-500">Número de série</dt>
+              <dd className="font-mono text-xs break-all">{timestamp.serial}</dd>
+            </dl>
+
+            <Button variant="outline" size="sm" className="mt-2" onClick={handleDownloadToken}>
+              <Download className="h-4 w-4 mr-2" />
+              Baixar token (.tst)
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Este certificado ainda não tem um carimbo de tempo independente. O carimbo de uma
+              autoridade externa comprova que o conteúdo já existia nesta data.
+            </p>
+            <Button variant="outline" size="sm" onClick={handleRequest} disabled={isRequesting}>
+              {isRequesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Clock className="h-4 w-4 mr-2" />}
+              Obter carimbo de tempo
+            </Button>
+            {requestError && <p className="text-xs text-red-600">{requestError}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
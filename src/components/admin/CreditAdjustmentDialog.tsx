@@ -0,0 +1,238 @@
+/**
+ * CreditAdjustmentDialog.tsx
+ *
+ * Diálogo do AdminUsers para consultar o extrato de créditos avulsos de um
+ * usuário e lançar um ajuste manual (conceder ou retirar créditos). O motivo
+ * é obrigatório e fica registrado no extrato junto com o admin responsável.
+ *
+ * Fonte de dados: RPCs `get_credit_statement` e `admin_adjust_credits`
+ * (ver supabase/migrations/20261018_credit_ledger.sql).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Coins, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CREDIT_ENTRY_LABELS,
+  CREDIT_SOURCE_LABELS,
+  adminAdjustCredits,
+  getCreditStatement,
+  type CreditStatement,
+} from '@/lib/services/credit-ledger-service';
+import { formatDateShort } from '@/hooks/useSubscription';
+
+const RECENT_ENTRIES = 10;
+
+interface CreditAdjustmentDialogProps {
+  user: { id: string; nomeCompleto: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type AdjustmentMode = 'grant' | 'remove';
+
+export default function CreditAdjustmentDialog({ user, open, onOpenChange }: CreditAdjustmentDialogProps) {
+  const { toast } = useToast();
+  const [statement, setStatement] = useState<CreditStatement | null>(null);
+  const [isLoadingStatement, setIsLoadingStatement] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [mode, setMode] = useState<AdjustmentMode>('grant');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  // Uma chave por tentativa: clique duplo não gera dois ajustes
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+
+  const loadStatement = useCallback(async (userId: string) => {
+    setIsLoadingStatement(true);
+    const result = await getCreditStatement(userId, RECENT_ENTRIES, 0);
+    setStatement(result);
+    setIsLoadingStatement(false);
+  }, []);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    setMode('grant');
+    setAmount('');
+    setReason('');
+    setExpiresAt('');
+    setIdempotencyKey(crypto.randomUUID());
+    void loadStatement(user.id);
+  }, [open, user, loadStatement]);
+
+  const parsedAmount = Number.parseInt(amount, 10);
+  const isValid = Number.isInteger(parsedAmount) && parsedAmount > 0 && reason.trim().length >= 5;
+
+  const handleSubmit = async () => {
+    if (!user || !isValid) return;
+
+    setIsSaving(true);
+    const result = await adminAdjustCredits({
+      userId: user.id,
+      amount: mode === 'grant' ? parsedAmount : -parsedAmount,
+      reason: reason.trim(),
+      expiresAt: mode === 'grant' && expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+      idempotencyKey: `admin:${idempotencyKey}`,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: '❌ Erro no ajuste',
+        description: result.error || 'Não foi possível ajustar os créditos.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: '✅ Créditos ajustados',
+      description: `Novo saldo de ${user.nomeCompleto}: ${result.balance ?? 0} crédito(s).`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5 text-amber-600" />
+            Créditos Avulsos
+          </DialogTitle>
+          <DialogDescription>
+            {user?.nomeCompleto} · saldo válido: {isLoadingStatement ? '...' : statement?.balance ?? 0} crédito(s)
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingStatement ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          statement && (
+            <div className="space-y-3 max-h-56 overflow-y-auto text-sm">
+              {statement.lots.map(lot => (
+                <div key={lot.id} className="flex items-center justify-between rounded border p-2">
+                  <span>
+                    {lot.description}{' '}
+                    <span className="text-xs text-muted-foreground">({CREDIT_SOURCE_LABELS[lot.source]})</span>
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {lot.credits_remaining}/{lot.credits_granted} ·{' '}
+                    {lot.expires_at ? `até ${formatDateShort(lot.expires_at)}` : 'sem validade'}
+                  </span>
+                </div>
+              ))}
+
+              {statement.entries.length > 0 ? (
+                <div className="divide-y rounded border">
+                  {statement.entries.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between gap-2 p-2">
+                      <div className="min-w-0">
+                        <Badge variant="outline" className="text-xs">
+                          {CREDIT_ENTRY_LABELS[entry.entry_type]}
+                        </Badge>
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {formatDateShort(entry.created_at)}
+                          {entry.actor_name && ` · por ${entry.actor_name}`}
+                        </span>
+                        {entry.reason && (
+                          <p className="text-xs text-muted-foreground truncate mt-1">{entry.reason}</p>
+                        )}
+                      </div>
+                      <span className={`font-semibold ${entry.amount > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {entry.amount > 0 ? '+' : ''}{entry.amount}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">Nenhum lançamento no extrato.</p>
+              )}
+            </div>
+          )
+        )}
+
+        <div className="space-y-4 pt-2">
+          <RadioGroup
+            value={mode}
+            onValueChange={value => setMode(value as AdjustmentMode)}
+            className="flex gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="grant" id="credit-mode-grant" />
+              <Label htmlFor="credit-mode-grant">Conceder</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="remove" id="credit-mode-remove" />
+              <Label htmlFor="credit-mode-remove">Retirar</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="credit-amount">Quantidade</Label>
+              <Input
+                id="credit-amount"
+                type="number"
+                min={1}
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+              />
+            </div>
+            {mode === 'grant' && (
+              <div className="space-y-2">
+                <Label htmlFor="credit-expires">Validade (opcional)</Label>
+                <Input
+                  id="credit-expires"
+                  type="date"
+                  value={expiresAt}
+                  onChange={e => setExpiresAt(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="credit-reason">Motivo</Label>
+            <Textarea
+              id="credit-reason"
+              placeholder="Ex.: créditos do pacote não entregues (sessão cs_...)"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Fica no extrato do usuário e no log de auditoria.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === 'grant' ? 'Conceder créditos' : 'Retirar créditos'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
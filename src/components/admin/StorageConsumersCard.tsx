@@ -0,0 +1,162 @@
+/**
+ * StorageConsumersCard.tsx
+ *
+ * Card do AdminDashboard com os usuários que mais ocupam armazenamento
+ * (documentos assinados + uploads temporários), o plano e a cota de cada um.
+ * Permite reconciliar o consumo de um usuário com os arquivos reais quando
+ * houver divergência.
+ *
+ * Fonte de dados: RPCs `admin_top_storage_consumers` e
+ * `reconcile_storage_usage` (ver supabase/migations/20261018_storage_quotas.sql).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { HardDrive, Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchAdminTopStorageConsumers,
+  type AdminStorageConsumerRow,
+} from '@/lib/admin-stats';
+import {
+  formatStorageBytes,
+  getStorageUsagePercent,
+  reconcileStorageUsage,
+} from '@/lib/services/storage-quota-service';
+import { getPlanName } from '@/hooks/useSubscription';
+
+const TOP_LIMIT = 10;
+
+export default function StorageConsumersCard() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<AdminStorageConsumerRow[]>([]);
+  const [totalBytes, setTotalBytes] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reconcilingUserId, setReconcilingUserId] = useState<string | null>(null);
+
+  const loadConsumers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await fetchAdminTopStorageConsumers(TOP_LIMIT);
+      setItems(result.items);
+      setTotalBytes(result.total_bytes);
+    } catch (err) {
+      console.error('❌ [StorageConsumersCard] Erro ao carregar consumo:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadConsumers();
+  }, [loadConsumers]);
+
+  /** Recalcula o consumo do usuário a partir de storage.objects. */
+  const handleReconcile = useCallback(async (userId: string) => {
+    setReconcilingUserId(userId);
+    const result = await reconcileStorageUsage(userId);
+    setReconcilingUserId(null);
+
+    if (!result.success) {
+      toast({
+        title: '❌ Erro ao reconciliar',
+        description: result.error || 'Não foi possível recalcular o armazenamento.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: '✅ Consumo reconciliado',
+      description: result.driftBytes
+        ? `Divergência corrigida: ${result.driftBytes > 0 ? '+' : '-'}${formatStorageBytes(Math.abs(result.driftBytes))}.`
+        : 'Nenhuma divergência encontrada.',
+    });
+    void loadConsumers();
+  }, [loadConsumers, toast]);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="h-5 w-5 text-blue-600" />
+          Maiores Consumidores de Armazenamento
+        </CardTitle>
+        <CardDescription>
+          Top {TOP_LIMIT} usuários por espaço ocupado (assinados + temporários). Total armazenado: {formatStorageBytes(totalBytes)}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 text-sm text-muted-foreground">
+            Nenhum arquivo armazenado ainda.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {items.map(item => {
+              const pct = getStorageUsagePercent({ usedBytes: item.used_bytes, quotaBytes: item.quota_bytes });
+              return (
+                <div
+                  key={item.user_id}
+                  className="flex items-center gap-3 p-3 rounded-lg border bg-white hover:bg-slate-50 transition"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium truncate">{item.nome_completo || item.user_id}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {getPlanName(item.plan_type)}
+                      </Badge>
+                      {!!item.last_drift_bytes && (
+                        <Badge className="bg-yellow-100 text-yellow-800 text-xs">
+                          Última divergência: {formatStorageBytes(Math.abs(item.last_drift_bytes))}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1 truncate">
+                      {item.email} · {item.signed_files} assinado(s), {item.temp_files} temporário(s)
+                    </div>
+                    {item.quota_bytes !== null && (
+                      <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2">
+                        <div
+                          className={`h-1.5 rounded-full ${pct >= 90 ? 'bg-red-500' : pct >= 70 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                          style={{ width: `${pct}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="text-sm text-right flex-shrink-0">
+                    <div className="font-semibold">{formatStorageBytes(item.used_bytes)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      de {item.quota_bytes === null ? 'ilimitado' : formatStorageBytes(item.quota_bytes)}
+                    </div>
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleReconcile(item.user_id)}
+                    disabled={reconcilingUserId !== null}
+                    title="Reconciliar com os arquivos armazenados"
+                  >
+                    {reconcilingUserId === item.user_id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -65,7 +65,7 @@ export const getSubscriptionPlans = (): Plan[] => [
       'Suporte 24/7',
       'Armazenamento de 20GB',
       'Analytics avançados',
-      'API de integração',
+      'API de integração (15.000 requisições/mês)',
     ],
     type: 'subscription',
     popular: false,
@@ -4,10 +4,10 @@
  * =====================================================
  * 
  * Custom hook for querying and monitoring file scan status
- * from VirusTotal integration
+ * produced by the server-side scan pipeline (Edge Function scan-uploads)
  * 
  * Features:
- * - Query scan status by file hash (SHA256)
+ * - Query scan status by upload path (temp-uploads) or file hash (SHA256)
  * - Automatic polling until scan completes
  * - State management (loading, scanning, completed)
  * - Automatic retry on errors
@@ -45,9 +45,11 @@ export interface FileScanResult {
   file_path: string;
   file_name: string;
   file_size: number;
-  file_hash_sha256: string;
+  file_hash_sha256: string | null;
   file_mime_type: string | null;
   user_id: string;
+  bucket_id: string | null;
+  scanner: 'virustotal' | 'clamav' | 'mock' | null;
   scan_status: ScanStatus;
   threat_name: string | null;
   threat_category: string | null;
@@ -70,7 +72,12 @@ export interface FileScanResult {
  */
 export interface UseFileScanStatusOptions {
   /**
-   * File hash (SHA256) to query
+   * Upload path in temp-uploads to query (preferred: one scan per upload)
+   */
+  filePath?: string;
+
+  /**
+   * File hash (SHA256) to query (most recent scan of this content)
    */
   fileHash?: string;
   
@@ -180,6 +187,7 @@ export function useFileScanStatus(
   options: UseFileScanStatusOptions = {}
 ): UseFileScanStatusReturn {
   const {
+    filePath,
     fileHash,
     enablePolling = true,
     pollingInterval = DEFAULT_POLLING_INTERVAL,
@@ -215,38 +223,36 @@ export function useFileScanStatus(
   // FETCH SCAN STATUS
   // =====================================================
 
+  const scanKey = filePath || fileHash;
+
   const fetchScanStatus = useCallback(async (): Promise<FileScanResult | null> => {
-    if (!fileHash) {
+    if (!filePath && !fileHash) {
       return null;
     }
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from('file_scans')
-        .select('*')
-        .eq('file_hash_sha256', fileHash)
-        .single();
+      const query = supabase.from('file_scans').select('*');
+      const { data, error: fetchError } = await (filePath
+        ? query.eq('file_path', filePath)
+        : query.eq('file_hash_sha256', fileHash!).order('created_at', { ascending: false }).limit(1)
+      ).maybeSingle();
 
       if (fetchError) {
-        // PGRST116 = no rows returned (not found)
-        if (fetchError.code === 'PGRST116') {
-          return null;
-        }
         throw new Error(`Failed to fetch scan status: ${fetchError.message}`);
       }
 
-      return data as FileScanResult;
+      return (data as FileScanResult | null) ?? null;
     } catch (err) {
       throw err instanceof Error ? err : new Error('Unknown error occurred');
     }
-  }, [fileHash]);
+  }, [filePath, fileHash]);
 
   // =====================================================
   // REFETCH FUNCTION
   // =====================================================
 
   const refetch = useCallback(async (): Promise<void> => {
-    if (!fileHash) {
+    if (!scanKey) {
       return;
     }
 
@@ -282,7 +288,7 @@ export function useFileScanStatus(
         setIsLoading(false);
       }
     }
-  }, [fileHash, fetchScanStatus, onScanComplete, onScanError]);
+  }, [scanKey, fetchScanStatus, onScanComplete, onScanError]);
 
   // =====================================================
   // RESET FUNCTION
@@ -305,13 +311,13 @@ export function useFileScanStatus(
   // =====================================================
 
   useEffect(() => {
-    if (!enablePolling || !isScanning || !fileHash) {
+    if (!enablePolling || !isScanning || !scanKey) {
       return;
     }
 
     // Check if max attempts reached
     if (pollingAttemptsRef.current >= maxPollingAttempts) {
-      console.warn('Max polling attempts reached for file hash:', fileHash);
+      console.warn('Max polling attempts reached for file:', scanKey);
       return;
     }
 
@@ -328,19 +334,19 @@ export function useFileScanStatus(
         pollingTimeoutRef.current = null;
       }
     };
-  }, [enablePolling, isScanning, fileHash, maxPollingAttempts, pollingInterval, refetch]);
+  }, [enablePolling, isScanning, scanKey, maxPollingAttempts, pollingInterval, refetch]);
 
   // =====================================================
   // INITIAL FETCH
   // =====================================================
 
   useEffect(() => {
-    if (!fileHash || !refetchOnMount) {
+    if (!scanKey || !refetchOnMount) {
       return;
     }
 
     refetch();
-  }, [fileHash, refetchOnMount, refetch]);
+  }, [scanKey, refetchOnMount, refetch]);
 
   // =====================================================
   // CLEANUP ON UNMOUNT
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { getCreditStatement, type CreditLot } from '@/lib/services/credit-ledger-service';
 
 /**
- * Interface para compras de pacotes avulsos
+ * Interface para compras de pacotes avulsos (formato legado em
+ * subscriptions.metadata; o saldo oficial está em credit_lots/credit_ledger)
  */
 export interface PackagePurchase {
   package_name: string;
@@ -228,58 +230,6 @@ export function useSignatureStatus() {
   };
 }
 
-/**
- * 🆕 Função auxiliar para consumir uma assinatura
- * Chama a função SQL consume_signature
- */
-export async function consumeSignature(userId: string): Promise<{
-  success: boolean;
-  message: string;
-  signatures_remaining: number;
-  subscription_id: string | null;
-}> {
-  try {
-    // ✅ CORREÇÃO: A função SQL retorna um array, pegamos o primeiro elemento
-    const { data, error } = await supabase
-      .rpc('consume_signature', { p_user_id: userId });
-
-    if (error) {
-      console.error('❌ Erro ao consumir assinatura:', error);
-      return {
-        success: false,
-        message: error.message,
-        signatures_remaining: 0,
-        subscription_id: null,
-      };
-    }
-
-    // ✅ CORREÇÃO: data é um array, pegamos o primeiro elemento
-    if (data && Array.isArray(data) && data.length > 0) {
-      console.log('✅ Assinatura consumida:', data[0]);
-      return data[0];
-    } else if (data && !Array.isArray(data)) {
-      // Caso retorne objeto único (não deveria, mas por segurança)
-      console.log('✅ Assinatura consumida (objeto):', data);
-      return data;
-    }
-
-    return {
-      success: false,
-      message: 'Nenhum resultado retornado',
-      signatures_remaining: 0,
-      subscription_id: null,
-    };
-  } catch (err) {
-    console.error('❌ Erro ao consumir assinatura:', err);
-    return {
-      success: false,
-      message: err instanceof Error ? err.message : 'Erro desconhecido',
-      signatures_remaining: 0,
-      subscription_id: null,
-    };
-  }
-}
-
 // ========================================
 // 🔧 FUNÇÕES AUXILIARES
 // ========================================
@@ -365,38 +315,33 @@ export function getDaysUntilRenewal(endDate: string): number {
 }
 
 /**
- * Filtra pacotes válidos (não expirados e com créditos)
+ * 🆕 Lotes de créditos avulsos válidos (credit_lots), do que vence primeiro
+ * para o último — a mesma ordem em que consume_signature os consome.
+ * Substitui a leitura de metadata.package_purchases.
  */
-export function getValidPackages(packages: PackagePurchase[] | undefined): PackagePurchase[] {
-  if (!packages || !Array.isArray(packages)) return [];
-  
-  const now = new Date();
-  return packages
-    .filter(pkg => {
-      const expirationDate = new Date(pkg.expiration_date);
-      return expirationDate > now && pkg.credits_remaining > 0;
-    })
-    .sort((a, b) => {
-      // Ordenar por data de expiração (mais próximo primeiro)
-      return new Date(a.expiration_date).getTime() - new Date(b.expiration_date).getTime();
-    });
-}
+export function useCreditLots() {
+  const [lots, setLots] = useState<CreditLot[]>([]);
+  const [balance, setBalance] = useState(0);
+  const [loading, setLoading] = useState(true);
 
-/**
- * Calcula o total de créditos válidos de pacotes
- */
-export function getTotalValidCredits(packages: PackagePurchase[] | undefined): number {
-  const validPackages = getValidPackages(packages);
-  return validPackages.reduce((sum, pkg) => sum + pkg.credits_remaining, 0);
-}
+  const fetchLots = async () => {
+    setLoading(true);
+    const statement = await getCreditStatement(undefined, 1);
+    setLots(statement?.lots ?? []);
+    setBalance(statement?.balance ?? 0);
+    setLoading(false);
+  };
 
-/**
- * Retorna a data de expiração mais próxima dos pacotes válidos
- */
-export function getNextExpirationDate(packages: PackagePurchase[] | undefined): string | null {
-  const validPackages = getValidPackages(packages);
-  if (validPackages.length === 0) return null;
-  return validPackages[0].expiration_date;
+  useEffect(() => {
+    fetchLots();
+  }, []);
+
+  return {
+    lots,
+    balance,
+    loading,
+    refetch: fetchLots,
+  };
 }
 
 /**
@@ -196,6 +196,28 @@ export interface AdminListUsersByPeriodResult {
   to: string | null;
 }
 
+/* ----- Top storage consumers (for "Armazenamento" card) ----- */
+
+export interface AdminStorageConsumerRow {
+  user_id: string;
+  nome_completo: string | null;
+  email: string | null;
+  plan_type: string;
+  quota_bytes: number | null; // null = ilimitado
+  used_bytes: number;
+  signed_bytes: number;
+  signed_files: number;
+  temp_bytes: number;
+  temp_files: number;
+  reconciled_at: string | null;
+  last_drift_bytes: number | null;
+}
+
+export interface AdminTopStorageConsumersResult {
+  items: AdminStorageConsumerRow[];
+  total_bytes: number;
+}
+
 /* --------------------------- Empty fallbacks --------------------------- */
 
 const EMPTY_STATS: AdminDashboardStats = {
@@ -394,6 +416,36 @@ export async function fetchAdminPlanDistribution(): Promise<AdminPlanDistributio
   };
 }
 
+/**
+ * Maiores consumidores de armazenamento (temp-uploads + signed-documents),
+ * com plano e cota de cada um. Ver migration 20261018_storage_quotas.sql.
+ */
+export async function fetchAdminTopStorageConsumers(
+  limit = 10
+): Promise<AdminTopStorageConsumersResult> {
+  console.log('📊 [admin-stats] fetchAdminTopStorageConsumers()', { limit });
+  const { data, error } = await supabase.rpc('admin_top_storage_consumers', { p_limit: limit });
+
+  if (error) {
+    console.error('❌ [admin-stats] admin_top_storage_consumers falhou:', error);
+    return { items: [], total_bytes: 0 };
+  }
+
+  const payload = (data ?? {}) as Partial<AdminTopStorageConsumersResult>;
+  return {
+    items: Array.isArray(payload.items)
+      ? payload.items.map(item => ({
+          ...item,
+          quota_bytes: item.quota_bytes === null ? null : Number(item.quota_bytes),
+          used_bytes: Number(item.used_bytes),
+          signed_bytes: Number(item.signed_bytes),
+          temp_bytes: Number(item.temp_bytes),
+        }))
+      : [],
+    total_bytes: Number(payload.total_bytes ?? 0),
+  };
+}
+
 export interface AdminListUsersByPlanFilters {
   search?: string;
   limit?: number;
@@ -35,6 +35,9 @@ export enum AuditAction {
   CONTENT_SIGNED = 'CONTENT_SIGNED',
   CONTENT_VERIFIED = 'CONTENT_VERIFIED',
   CONTENT_DELETED = 'CONTENT_DELETED',
+  CONTENT_REVOKED = 'CONTENT_REVOKED',
+  CONTENT_REPORTED = 'CONTENT_REPORTED',
+  CONTENT_REPORT_REVIEWED = 'CONTENT_REPORT_REVIEWED',
   
   // Chaves Criptográficas
   KEY_PAIR_GENERATED = 'KEY_PAIR_GENERATED',
@@ -44,6 +47,16 @@ export enum AuditAction {
   // Certificados
   CERTIFICATE_VIEWED = 'CERTIFICATE_VIEWED',
   CERTIFICATE_SHARED = 'CERTIFICATE_SHARED',
+  COSIGN_INVITED = 'COSIGN_INVITED',
+  COSIGN_SIGNED = 'COSIGN_SIGNED',
+  COSIGN_DECLINED = 'COSIGN_DECLINED',
+  CONTENT_TIMESTAMPED = 'CONTENT_TIMESTAMPED',
+
+  // Organizações
+  ORGANIZATION_CREATED = 'ORGANIZATION_CREATED',
+  ORGANIZATION_MEMBER_INVITED = 'ORGANIZATION_MEMBER_INVITED',
+  ORGANIZATION_MEMBER_ROLE_CHANGED = 'ORGANIZATION_MEMBER_ROLE_CHANGED',
+  ORGANIZATION_MEMBER_REMOVED = 'ORGANIZATION_MEMBER_REMOVED',
   
   // Configurações
   SETTINGS_UPDATED = 'SETTINGS_UPDATED',
@@ -64,6 +77,7 @@ export enum AuditAction {
   FILE_VALIDATION_FAILED = 'FILE_VALIDATION_FAILED',
   FILE_SCAN_COMPLETED = 'FILE_SCAN_COMPLETED',
   FILE_SCAN_FAILED = 'FILE_SCAN_FAILED',
+  FILE_PROMOTION_BLOCKED = 'FILE_PROMOTION_BLOCKED',
 }
 
 // Interface para detalhes do log
@@ -6,7 +6,13 @@
  * 🎨 UI-FRIENDLY: Usa hash SHA-256 como identificador visual (16 caracteres)
  */
 
-import { saveKeyPairToSupabase, getKeyPair as getKeyPairFromSupabase } from './supabase-crypto';
+import {
+  saveKeyPairToSupabase,
+  getKeyPair as getKeyPairFromSupabase,
+  getKeyPairStatus,
+  rotateKeyPairInSupabase,
+  revokeKeyPairInSupabase,
+} from './supabase-crypto';
 import type { KeyPair } from './supabase-crypto';
 
 const STORAGE_PREFIX = 'veroId_keyPair_';
@@ -158,6 +164,8 @@ async function createRedundantBackup(keyPair: KeyPair): Promise<void> {
 
 /**
  * 🆕 Obtém par de chaves (localStorage primeiro, depois Supabase)
+ * O cache só é usado enquanto a chave estiver ativa em key_pairs: após
+ * rotação ou revogação em outro dispositivo, a chave ativa é buscada de novo.
  */
 export async function getKeyPair(userId: string): Promise<KeyPair | null> {
   try {
@@ -171,7 +179,14 @@ export async function getKeyPair(userId: string): Promise<KeyPair | null> {
       
       // Validar formato das chaves
       if (keyPair.publicKey?.startsWith('VID-PUB-') && keyPair.privateKey?.startsWith('VID-PRIV-')) {
-        return keyPair;
+        // Sem resposta do servidor (offline), o cache continua valendo
+        const status = await getKeyPairStatus(userId, keyPair.publicKey);
+        if (status === null || status === 'active') {
+          return keyPair;
+        }
+        
+        console.warn(`⚠️ Chave em cache está '${status}', buscando a chave ativa no Supabase...`);
+        clearAllKeys(userId);
       } else {
         console.warn('⚠️ Chaves no localStorage com formato inválido, buscando no Supabase...');
         localStorage.removeItem(storageKey);
@@ -209,6 +224,60 @@ export async function getKeyPair(userId: string): Promise<KeyPair | null> {
   }
 }
 
+/**
+ * 🔄 Rotaciona a chave do usuário: gera um novo par ECDSA, marca a chave
+ * ativa anterior como 'rotated' e atualiza o cache local.
+ * Certificados assinados com a chave anterior continuam verificáveis.
+ */
+export async function rotateKeyPair(
+  userId: string
+): Promise<{ success: boolean; keyPair?: KeyPair; error?: string }> {
+  try {
+    const newKeyPair: KeyPair = { ...(await generateKeyPair(userId)), status: 'active' };
+    const result = await rotateKeyPairInSupabase(newKeyPair);
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    localStorage.setItem(`${STORAGE_PREFIX}${userId}`, JSON.stringify(newKeyPair));
+    console.log('🔄 Chave rotacionada e cache local atualizado');
+    return { success: true, keyPair: newKeyPair };
+  } catch (error) {
+    console.error('❌ Erro ao rotacionar chaves:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' };
+  }
+}
+
+/**
+ * 🚫 Revoga uma chave do usuário. Se for a chave em cache, remove o cache
+ * local para que uma chave revogada nunca seja usada para assinar.
+ */
+export async function revokeKeyPair(
+  userId: string,
+  keyId: string,
+  reason?: string
+): Promise<{ success: boolean; error?: string }> {
+  const result = await revokeKeyPairInSupabase(keyId, reason);
+
+  if (result.success) {
+    const storageKey = `${STORAGE_PREFIX}${userId}`;
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      try {
+        if (JSON.parse(stored).id === keyId) {
+          localStorage.removeItem(storageKey);
+          console.log('🗑️ Chave revogada removida do cache local');
+        }
+      } catch {
+        localStorage.removeItem(storageKey);
+      }
+    }
+  }
+
+  return result;
+}
+
 /**
  * 🆕 Limpa todas as chaves do usuário (localStorage e backups)
  */
@@ -239,13 +308,133 @@ export async function generateHash(content: string): Promise<string> {
 }
 
 /**
- * Assina um conteúdo com a chave privada
+ * Gera hash SHA-256 dos bytes de um arquivo
+ */
+export async function generateFileHash(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 🔏 Prefixo das assinaturas ECDSA versionadas.
+ * Assinaturas sem este prefixo foram geradas pelo formato antigo
+ * (base64 de hash + prefixo da chave / SHA-256 de hash + chave) e
+ * não podem ser verificadas criptograficamente.
+ */
+export const SIGNATURE_PREFIX_V2 = 'VID-SIG-v2:';
+
+/**
+ * Status da verificação de uma assinatura armazenada
+ * - valid: assinatura ECDSA confere com a chave pública
+ * - invalid: assinatura ECDSA não confere (ou chave inválida)
+ * - legacy: formato antigo, impossível de verificar
+ */
+export type SignatureStatus = 'valid' | 'invalid' | 'legacy';
+
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: { name: 'SHA-256' } };
+const ECDSA_IMPORT_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/**
+ * Decodifica uma chave no formato `<prefixo><base64(JWK JSON)>`
+ */
+function decodeJwk(key: string, prefix: string): JsonWebKey {
+  if (!key?.startsWith(prefix)) {
+    throw new Error(`Formato de chave inválido (esperado prefixo ${prefix})`);
+  }
+  return JSON.parse(atob(key.substring(prefix.length)));
+}
+
+/**
+ * Importa a chave privada `VID-PRIV-` como CryptoKey ECDSA P-256
+ */
+async function importSigningKey(privateKey: string): Promise<CryptoKey> {
+  const jwk = decodeJwk(privateKey, 'VID-PRIV-');
+  return crypto.subtle.importKey('jwk', jwk, ECDSA_IMPORT_PARAMS, false, ['sign']);
+}
+
+/**
+ * Importa a chave pública `VID-PUB-` como CryptoKey ECDSA P-256
+ */
+async function importVerificationKey(publicKey: string): Promise<CryptoKey> {
+  const jwk = decodeJwk(publicKey, 'VID-PUB-');
+  // Remove key_ops/ext herdados da exportação para permitir importação só com 'verify'
+  const { key_ops: _keyOps, ext: _ext, d: _d, ...publicJwk } = jwk;
+  return crypto.subtle.importKey('jwk', publicJwk, ECDSA_IMPORT_PARAMS, false, ['verify']);
+}
+
+/**
+ * Indica se a assinatura está no formato legado (não verificável)
+ */
+export function isLegacySignature(signature: string): boolean {
+  return !signature?.startsWith(SIGNATURE_PREFIX_V2);
+}
+
+/**
+ * 🔏 Assina o hash SHA-256 (hex) de um conteúdo com ECDSA P-256 / SHA-256
+ * Retorna `VID-SIG-v2:<base64(r||s)>`
+ */
+export async function signHash(contentHash: string, privateKey: string): Promise<string> {
+  const key = await importSigningKey(privateKey);
+  const signatureBuffer = await crypto.subtle.sign(
+    ECDSA_SIGN_PARAMS,
+    key,
+    new TextEncoder().encode(contentHash)
+  );
+  return `${SIGNATURE_PREFIX_V2}${bytesToBase64(new Uint8Array(signatureBuffer))}`;
+}
+
+/**
+ * 🔏 Verifica uma assinatura `VID-SIG-v2:` sobre o hash do conteúdo
+ * usando a chave pública `VID-PUB-` do criador.
+ * Assinaturas legadas retornam 'legacy' (nunca 'valid').
+ */
+export async function verifyHashSignature(
+  contentHash: string,
+  signature: string,
+  publicKey: string
+): Promise<SignatureStatus> {
+  if (isLegacySignature(signature)) {
+    return 'legacy';
+  }
+
+  try {
+    const key = await importVerificationKey(publicKey);
+    const signatureBytes = base64ToBytes(signature.substring(SIGNATURE_PREFIX_V2.length));
+    const valid = await crypto.subtle.verify(
+      ECDSA_SIGN_PARAMS,
+      key,
+      signatureBytes,
+      new TextEncoder().encode(contentHash)
+    );
+    return valid ? 'valid' : 'invalid';
+  } catch (error) {
+    console.error('❌ Erro ao verificar assinatura ECDSA:', error);
+    return 'invalid';
+  }
+}
+
+/**
+ * Assina um conteúdo com a chave privada (ECDSA P-256 sobre o hash SHA-256)
  */
 export async function signContent(content: string, privateKey: string): Promise<string> {
   try {
     const hash = await generateHash(content);
-    const signature = btoa(`${hash}-${privateKey.substring(0, 16)}`);
-    return signature;
+    return await signHash(hash, privateKey);
   } catch (error) {
     console.error('❌ Erro ao assinar conteúdo:', error);
     throw error;
@@ -253,7 +442,8 @@ export async function signContent(content: string, privateKey: string): Promise<
 }
 
 /**
- * Verifica a assinatura de um conteúdo
+ * Verifica a assinatura de um conteúdo contra a chave pública do criador
+ * Assinaturas legadas nunca são consideradas válidas.
  */
 export async function verifySignature(
   content: string,
@@ -262,8 +452,7 @@ export async function verifySignature(
 ): Promise<boolean> {
   try {
     const hash = await generateHash(content);
-    const decoded = atob(signature);
-    return decoded.startsWith(hash);
+    return (await verifyHashSignature(hash, signature, publicKey)) === 'valid';
   } catch (error) {
     console.error('❌ Erro ao verificar assinatura:', error);
     return false;
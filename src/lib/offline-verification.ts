@@ -0,0 +1,397 @@
+/**
+ * ============================================
+ * VERIFICAÇÃO CRIPTOGRÁFICA DE CERTIFICADOS
+ * ============================================
+ *
+ * Recalcula localmente (no navegador) o hash SHA-256 de um arquivo ou texto
+ * fornecido pelo visitante e compara com o certificado registrado:
+ *
+ * 1. hash_match: o arquivo/texto é byte-idêntico ao que foi assinado
+ *    (texto: o texto do criador é recolocado no formato assinado pela
+ *    sign-content, com o cabeçalho do certificado)
+ * 2. signature_valid: a assinatura ECDSA confere com a chave pública
+ * 3. key_ownership: a chave pública pertence ao criador do certificado
+ * 4. key_not_revoked: a chave não foi revogada
+ * 5. cosignatures_valid: cada contra-assinatura confere com a chave do
+ *    co-signatário (apenas certificados co-assinados)
+ * 6. certificate_not_revoked: o certificado não foi revogado nem está
+ *    em disputa
+ *
+ * Nenhum arquivo é enviado ao servidor — apenas a consulta de propriedade
+ * da chave usa a RPC `check_public_key_ownership`.
+ * ============================================
+ */
+
+import { supabase } from './supabase';
+import { generateHash, generateFileHash, verifyHashSignature } from './crypto';
+import type { SignedContent } from './supabase-crypto';
+import { getContentCosignatures, getCosignSummary, verifyCosignatures } from './services/cosigning-service';
+import { getRevocationStatus } from './services/revocation-service';
+
+export type VerificationCheckId =
+  | 'hash_match'
+  | 'signature_valid'
+  | 'key_ownership'
+  | 'key_not_revoked'
+  | 'cosignatures_valid'
+  | 'certificate_not_revoked';
+
+export type VerificationCheckStatus = 'pass' | 'fail' | 'warning';
+
+export interface VerificationCheck {
+  id: VerificationCheckId;
+  label: string;
+  status: VerificationCheckStatus;
+  detail: string;
+}
+
+export interface OfflineVerificationInput {
+  /** Arquivo original recebido pelo visitante */
+  file?: File;
+  /** Texto do criador (campo "Conteúdo") ou texto assinado completo */
+  text?: string;
+}
+
+/** Separa o cabeçalho (Título, Redes, Arquivo...) do texto do criador */
+const SIGNED_TEXT_MARKER = '\nConteúdo:\n';
+
+export interface OfflineVerificationResult {
+  /** true somente se TODAS as verificações passaram */
+  verified: boolean;
+  /** Hash SHA-256 calculado localmente */
+  computedHash: string;
+  checks: VerificationCheck[];
+}
+
+export interface KeyOwnershipStatus {
+  keyId: string;
+  belongsToUser: boolean;
+  isRevoked: boolean;
+  revokedAt: string | null;
+}
+
+/**
+ * Consulta se a chave pública pertence ao usuário (e se foi revogada)
+ * Retorna null se a chave não for encontrada para o usuário
+ */
+export async function checkPublicKeyOwnership(
+  userId: string,
+  publicKey: string
+): Promise<KeyOwnershipStatus | null> {
+  const { data, error } = await supabase.rpc('check_public_key_ownership', {
+    p_user_id: userId,
+    p_public_key: publicKey,
+  });
+
+  if (error) {
+    throw new Error(`Erro ao consultar chave pública: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) {
+    return null;
+  }
+
+  return {
+    keyId: row.key_id,
+    belongsToUser: !!row.belongs_to_user,
+    isRevoked: !!row.is_revoked,
+    revokedAt: row.revoked_at || null,
+  };
+}
+
+/**
+ * SHA-256 do texto no formato assinado pela sign-content:
+ * `<cabeçalho>\n\nConteúdo:\n<texto>`, sem espaços nas pontas.
+ * Aceita o texto assinado completo ou só o texto do criador; neste caso o
+ * cabeçalho registrado no certificado é recolocado antes do hash.
+ */
+async function hashSignedText(record: SignedContent, text: string): Promise<string> {
+  const fullTextHash = await generateHash(text.trim());
+  const markerIndex = record.content?.indexOf(SIGNED_TEXT_MARKER) ?? -1;
+
+  if (fullTextHash === record.contentHash || markerIndex < 0) {
+    return fullTextHash;
+  }
+
+  const header = record.content.substring(0, markerIndex + SIGNED_TEXT_MARKER.length);
+  return generateHash(`${header}${text}`.trim());
+}
+
+/**
+ * Compara o hash calculado com o registrado no certificado
+ */
+function buildHashCheck(
+  record: SignedContent,
+  input: OfflineVerificationInput,
+  computedHash: string
+): VerificationCheck {
+  const label = 'Hash do conteúdo';
+
+  if (input.file) {
+    if (!record.fileHash) {
+      return {
+        id: 'hash_match',
+        label,
+        status: 'fail',
+        detail: 'Este certificado não registra o hash do arquivo original (certificado antigo ou sem arquivo).',
+      };
+    }
+
+    if (record.fileHash !== computedHash) {
+      return {
+        id: 'hash_match',
+        label,
+        status: 'fail',
+        detail: 'O arquivo fornecido é diferente do arquivo assinado pelo criador.',
+      };
+    }
+
+    // O hash do arquivo só é coberto pela assinatura se constar do conteúdo assinado
+    if (!record.content?.includes(`SHA-256 do arquivo: ${computedHash}`)) {
+      return {
+        id: 'hash_match',
+        label,
+        status: 'warning',
+        detail: 'O arquivo confere com o registro, mas o hash do arquivo não faz parte do conteúdo assinado.',
+      };
+    }
+
+    return {
+      id: 'hash_match',
+      label,
+      status: 'pass',
+      detail: 'O arquivo é byte-idêntico ao arquivo assinado pelo criador.',
+    };
+  }
+
+  if (record.contentHash !== computedHash) {
+    return {
+      id: 'hash_match',
+      label,
+      status: 'fail',
+      detail: 'O texto fornecido é diferente do conteúdo assinado pelo criador. Cole somente o texto do campo "Conteúdo" (sem Título, Redes e demais linhas do cabeçalho) ou o texto assinado completo.',
+    };
+  }
+
+  return {
+    id: 'hash_match',
+    label,
+    status: 'pass',
+    detail: 'O texto é idêntico ao conteúdo assinado pelo criador.',
+  };
+}
+
+/**
+ * Verifica assinatura ECDSA sobre o hash registrado
+ */
+async function buildSignatureCheck(record: SignedContent): Promise<VerificationCheck> {
+  const label = 'Assinatura digital';
+  const status = await verifyHashSignature(record.contentHash, record.signature, record.publicKey);
+
+  if (status === 'valid') {
+    return {
+      id: 'signature_valid',
+      label,
+      status: 'pass',
+      detail: 'A assinatura ECDSA P-256 confere com a chave pública do certificado.',
+    };
+  }
+
+  if (status === 'legacy') {
+    return {
+      id: 'signature_valid',
+      label,
+      status: 'fail',
+      detail: 'Certificado emitido no formato legado de assinatura, que não pode ser verificado criptograficamente.',
+    };
+  }
+
+  return {
+    id: 'signature_valid',
+    label,
+    status: 'fail',
+    detail: 'A assinatura não confere com a chave pública do certificado.',
+  };
+}
+
+/**
+ * Verifica propriedade e revogação da chave pública
+ */
+async function buildKeyChecks(record: SignedContent): Promise<VerificationCheck[]> {
+  let ownership: KeyOwnershipStatus | null;
+
+  try {
+    ownership = await checkPublicKeyOwnership(record.userId, record.publicKey);
+  } catch (error) {
+    console.error('❌ [OfflineVerification] Erro ao consultar chave:', error);
+    const detail = 'Não foi possível consultar o registro de chaves. Tente novamente.';
+    return [
+      { id: 'key_ownership', label: 'Chave pertence ao criador', status: 'warning', detail },
+      { id: 'key_not_revoked', label: 'Chave não revogada', status: 'warning', detail },
+    ];
+  }
+
+  if (!ownership || !ownership.belongsToUser) {
+    return [
+      {
+        id: 'key_ownership',
+        label: 'Chave pertence ao criador',
+        status: 'fail',
+        detail: 'A chave pública do certificado não está registrada para este criador.',
+      },
+      {
+        id: 'key_not_revoked',
+        label: 'Chave não revogada',
+        status: 'fail',
+        detail: 'Chave desconhecida: não é possível confirmar o status de revogação.',
+      },
+    ];
+  }
+
+  const revokedDate = ownership.revokedAt
+    ? new Date(ownership.revokedAt).toLocaleDateString('pt-BR')
+    : null;
+
+  return [
+    {
+      id: 'key_ownership',
+      label: 'Chave pertence ao criador',
+      status: 'pass',
+      detail: `A chave pública está registrada para ${record.creatorName || 'o criador'}.`,
+    },
+    ownership.isRevoked
+      ? {
+          id: 'key_not_revoked',
+          label: 'Chave não revogada',
+          status: 'fail',
+          detail: revokedDate
+            ? `A chave foi revogada em ${revokedDate}.`
+            : 'A chave foi revogada pelo criador.',
+        }
+      : {
+          id: 'key_not_revoked',
+          label: 'Chave não revogada',
+          status: 'pass',
+          detail: 'A chave está ativa e não foi revogada.',
+        },
+  ];
+}
+
+/**
+ * Verifica as contra-assinaturas do certificado
+ * @returns null se o certificado não tiver co-signatários
+ */
+async function buildCosignatureCheck(record: SignedContent): Promise<VerificationCheck | null> {
+  const label = 'Co-assinaturas';
+
+  try {
+    const cosigners = await getContentCosignatures(record.id);
+    const summary = getCosignSummary(cosigners);
+    if (summary.state === 'single') return null;
+
+    const verifications = await verifyCosignatures(record.contentHash, cosigners);
+    const invalid = verifications.filter(v => v.signatureStatus !== null && v.signatureStatus !== 'valid');
+
+    if (invalid.length > 0) {
+      return {
+        id: 'cosignatures_valid',
+        label,
+        status: 'fail',
+        detail: `A contra-assinatura de ${invalid.map(v => `${v.cosigner.signerName} (${v.cosigner.role})`).join(', ')} não confere.`,
+      };
+    }
+
+    if (summary.state === 'pending') {
+      return {
+        id: 'cosignatures_valid',
+        label,
+        status: 'warning',
+        detail: `Assinatura pendente: ${summary.signed} de ${summary.total} co-signatários assinaram.`,
+      };
+    }
+
+    return {
+      id: 'cosignatures_valid',
+      label,
+      status: 'pass',
+      detail: `Todas as ${summary.signed} contra-assinaturas conferem com as chaves dos co-signatários.`,
+    };
+  } catch (error) {
+    console.error('❌ [OfflineVerification] Erro ao consultar co-assinaturas:', error);
+    return {
+      id: 'cosignatures_valid',
+      label,
+      status: 'warning',
+      detail: 'Não foi possível consultar as co-assinaturas. Tente novamente.',
+    };
+  }
+}
+
+/**
+ * Revogação/disputa do próprio certificado
+ */
+function buildRevocationCheck(record: SignedContent): VerificationCheck {
+  const label = 'Certificado não revogado';
+  const status = getRevocationStatus(record);
+  const since = status.since ? new Date(status.since).toLocaleDateString('pt-BR') : '';
+
+  if (status.state === 'revoked') {
+    return {
+      id: 'certificate_not_revoked',
+      label,
+      status: 'fail',
+      detail: `Certificado revogado em ${since}${status.reasonLabel ? ` (${status.reasonLabel})` : ''}.`,
+    };
+  }
+
+  if (status.state === 'disputed') {
+    return {
+      id: 'certificate_not_revoked',
+      label,
+      status: 'warning',
+      detail: `Certificado em disputa desde ${since}${status.reasonLabel ? ` (${status.reasonLabel})` : ''}.`,
+    };
+  }
+
+  return {
+    id: 'certificate_not_revoked',
+    label,
+    status: 'pass',
+    detail: 'O certificado não foi revogado pelo criador nem está em disputa.',
+  };
+}
+
+/**
+ * 🔍 Executa a verificação criptográfica completa de um certificado
+ * contra um arquivo ou texto fornecido pelo visitante
+ */
+export async function verifySignedContentOffline(
+  record: SignedContent,
+  input: OfflineVerificationInput
+): Promise<OfflineVerificationResult> {
+  if (!input.file && !input.text) {
+    throw new Error('Forneça um arquivo ou texto para verificar');
+  }
+
+  const computedHash = input.file
+    ? await generateFileHash(input.file)
+    : await hashSignedText(record, input.text ?? '');
+
+  const hashCheck = buildHashCheck(record, input, computedHash);
+  const [signatureCheck, keyChecks, cosignatureCheck] = await Promise.all([
+    buildSignatureCheck(record),
+    buildKeyChecks(record),
+    buildCosignatureCheck(record),
+  ]);
+
+  const checks = [hashCheck, signatureCheck, ...keyChecks];
+  if (cosignatureCheck) checks.push(cosignatureCheck);
+  checks.push(buildRevocationCheck(record));
+
+  return {
+    verified: checks.every(check => check.status === 'pass'),
+    computedHash,
+    checks,
+  };
+}
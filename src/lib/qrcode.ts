@@ -1,33 +1,54 @@
 import { SignedContent } from '@/lib/supabase-crypto';
 import type { SocialLinks } from './supabase';
 import { generateIdenticonSVG, getKeyVisualSeed, getKeyShortSuffix, getKeyVisualSeedSHA256 } from '@/lib/keyVisual';
+import { verifyTimestampToken } from '@/lib/rfc3161';
+import { getRevocationStatus } from '@/lib/services/revocation-service';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
- * 🆕 VERSÃO ULTRA-COMPACTA: Apenas dados essenciais para buscar no Supabase
- * Reduz URL de ~800 chars para ~150 chars
+ * 🔒 Referência de certificado extraída de um link público
+ *
+ * O link carrega apenas o ID (opaco): tudo o que a página exibe vem do banco.
+ * Em links antigos (`d`/`data`), código e nome servem SOMENTE para detectar
+ * adulteração — nunca são exibidos como dados do certificado.
  */
-function compactContentData(content: SignedContent): string {
-  console.log('📊 [compactContentData] Gerando URL ultra-compacta...');
-  
-  // 🆕 APENAS ID E CÓDIGO DE VERIFICAÇÃO
-  // Todos os outros dados serão buscados do Supabase
-  const compact = {
-    i: content.id,                    // ID do certificado (UUID)
-    v: content.verificationCode,      // Código de verificação
-    n: content.creatorName,           // Nome do criador (para fallback)
+export interface CertificateLinkRef {
+  id: string;
+  legacy: boolean;
+  claimedVerificationCode?: string;
+  claimedCreatorName?: string;
+}
+
+/**
+ * URL pública do certificado (`/certificate?id=<uuid>`)
+ */
+export function buildCertificateUrl(certificateId: string, baseUrl: string = window.location.origin): string {
+  return `${baseUrl}/certificate?id=${encodeURIComponent(certificateId)}`;
+}
+
+/**
+ * Lê a referência do certificado dos parâmetros da URL
+ * Aceita `id` (formato atual) e `d`/`data` (links antigos)
+ */
+export function parseCertificateLink(params: URLSearchParams): CertificateLinkRef | null {
+  const id = params.get('id');
+  if (id) {
+    return UUID_PATTERN.test(id) ? { id, legacy: false } : null;
+  }
+
+  const dataParam = params.get('d') || params.get('data');
+  if (!dataParam) return null;
+
+  const decoded = decodeContentFromUrl(dataParam);
+  if (!decoded?.id || !UUID_PATTERN.test(decoded.id)) return null;
+
+  return {
+    id: decoded.id,
+    legacy: true,
+    claimedVerificationCode: decoded.verificationCode || undefined,
+    claimedCreatorName: decoded.creatorName || undefined,
   };
-  
-  const jsonStr = JSON.stringify(compact);
-  console.log(`✅ [compactContentData] JSON compactado: ${jsonStr.length} bytes`);
-  console.log(`📊 [compactContentData] Conteúdo: ${jsonStr}`);
-  
-  const base64 = btoa(unescape(encodeURIComponent(jsonStr)));
-  // Torna URL-safe
-  const urlSafe = base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-  
-  console.log(`✅ [compactContentData] URL final: ${urlSafe.length} caracteres`);
-  
-  return urlSafe;
 }
 
 /**
@@ -99,12 +120,8 @@ export function decodeContentFromUrl(encoded: string): SignedContent | null {
  * Gera dados para QR Code que apontam para visualização pública do certificado
  */
 export function generateQRData(signedContent: SignedContent): string {
-  // Compacta dados (APENAS ID, CÓDIGO E NOME)
-  const encodedData = compactContentData(signedContent);
-  
-  // Cria URL pública que qualquer pessoa pode acessar
-  const baseUrl = window.location.origin;
-  const certificateUrl = `${baseUrl}/certificate?d=${encodedData}`;
+  // 🔒 Apenas o ID: os dados exibidos são sempre buscados no Supabase
+  const certificateUrl = buildCertificateUrl(signedContent.id);
   
   console.log(`✅ [generateQRData] URL do QR Code gerada (${certificateUrl.length} caracteres)`);
   console.log(`📊 [generateQRData] URL completa: ${certificateUrl}`);
@@ -119,6 +136,12 @@ export function decodeQRData(qrUrl: string): { id?: string; code?: string; creat
   try {
     const url = new URL(qrUrl);
     
+    // URL de certificado atual (apenas ID)
+    const idParam = url.searchParams.get('id');
+    if (idParam && url.pathname.startsWith('/certificate')) {
+      return { id: idParam };
+    }
+    
     // Verifica se é URL de certificado compactada
     const dataParam = url.searchParams.get('d');
     if (dataParam) {
@@ -246,6 +269,66 @@ function generateQRCodeSVG(qrData: string): string {
   `;
 }
 
+/**
+ * Gera HTML do carimbo de tempo RFC 3161 (TSA, série, genTime e token)
+ * O token em base64 permite a verificação independente (openssl ts -verify)
+ */
+async function generateTimestampHtml(signedContent: SignedContent): Promise<string> {
+  if (!signedContent.tsaToken || !signedContent.tsaGenTime) return '';
+
+  const verification = await verifyTimestampToken(signedContent.tsaToken, signedContent.contentHash);
+  const statusLabel = verification.status === 'valid'
+    ? '<span style="color: #059669; font-weight: 700;">✓ Carimbo válido</span>'
+    : verification.status === 'invalid'
+      ? '<span style="color: #dc2626; font-weight: 700;">✗ Carimbo inválido</span>'
+      : '<span style="color: #d97706; font-weight: 700;">⚠ Carimbo não verificado</span>';
+  const genTime = new Date(signedContent.tsaGenTime);
+
+  return `
+    <div class="info-section">
+      <div class="info-label">⏱️ Carimbo de Tempo (RFC 3161)</div>
+      <div class="info-value" style="font-size: 14px; line-height: 1.8;">
+        ${statusLabel}<br>
+        <strong>Data atestada:</strong> ${genTime.toLocaleString('pt-BR', { dateStyle: 'long', timeStyle: 'medium' })} (${genTime.toISOString()})<br>
+        <strong>Autoridade (TSA):</strong> ${signedContent.tsaName || 'Não informada'}${signedContent.tsaUrl ? ` — ${signedContent.tsaUrl}` : ''}<br>
+        <strong>Número de série:</strong> <span style="font-family: 'Courier New', monospace;">${signedContent.tsaSerial}</span>
+      </div>
+      <div class="hash-section">
+        <div class="hash-label">Token RFC 3161 (base64)</div>
+        <div class="hash-value">${signedContent.tsaToken}</div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Gera HTML do aviso de revogação/disputa do certificado
+ * (a observação é texto livre do criador, por isso é escapada)
+ */
+function generateRevocationHtml(signedContent: SignedContent): string {
+  const status = getRevocationStatus(signedContent);
+  if (status.state === 'active') return '';
+
+  const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+  const since = status.since ? new Date(status.since).toLocaleDateString('pt-BR', { dateStyle: 'long' }) : '';
+  const revoked = status.state === 'revoked';
+
+  return `
+    <div class="info-section" style="border-left-color: ${revoked ? '#dc2626' : '#d97706'}; background: ${revoked ? '#fef2f2' : '#fffbeb'};">
+      <div class="info-label" style="color: ${revoked ? '#991b1b' : '#92400e'};">
+        ${revoked ? '🚫 Certificado revogado' : '⚖️ Certificado em disputa'} em ${since}
+      </div>
+      <div class="info-value" style="font-size: 14px; line-height: 1.8;">
+        ${status.reasonLabel ? `<strong>Motivo:</strong> ${status.reasonLabel}<br>` : ''}
+        ${status.note ? `<em>“${escapeHtml(status.note)}”</em><br>` : ''}
+        ${revoked
+          ? 'Este certificado não comprova mais a autoria do conteúdo.'
+          : 'Uma denúncia sobre este certificado está em análise pela equipe do Vero iD.'}
+      </div>
+    </div>
+  `;
+}
+
 /**
  * Gera certificado digital em formato HTML moderno
  *
@@ -328,6 +411,10 @@ export async function generateCertificate(signedContent: SignedContent): Promise
   // 🆕 Gera HTML para TODOS os links sociais
   const socialLinksHtml = generateSocialLinksHtml(signedContent);
   
+  // ⏱️ Carimbo de tempo RFC 3161 (verificado no momento da exportação)
+  const timestampHtml = await generateTimestampHtml(signedContent);
+  const revocationHtml = generateRevocationHtml(signedContent);
+  
   // 🆕 Gera QR Code para o certificado
   const qrData = generateQRData(signedContent);
   const qrCodeHtml = generateQRCodeSVG(qrData);
@@ -526,10 +613,12 @@ export async function generateCertificate(signedContent: SignedContent): Promise
     </div>
     
     <div class="content">
-      <div class="badge">
-        ✓ Conteúdo Autenticado
+      <div class="badge"${signedContent.revokedAt ? ' style="background: #dc2626;"' : ''}>
+        ${signedContent.revokedAt ? '✗ Certificado Revogado' : '✓ Conteúdo Autenticado'}
       </div>
       
+      ${revocationHtml}
+      
       ${thumbnailHtml}
       
       <div class="info-section">
@@ -542,6 +631,8 @@ export async function generateCertificate(signedContent: SignedContent): Promise
         <div class="info-value">${formattedDate} às ${formattedTime}</div>
       </div>
       
+      ${timestampHtml}
+      
       <div class="info-section">
         <div class="info-label">ID do Certificado</div>
         <div class="info-value">${signedContent.id}</div>
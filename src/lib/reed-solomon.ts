@@ -0,0 +1,235 @@
+/**
+ * ============================================
+ * REED-SOLOMON (GF(2^8))
+ * ============================================
+ *
+ * Código corretor de erros usado pela marca d'água invisível: com `nsym`
+ * símbolos de paridade corrige até `nsym / 2` bytes corrompidos.
+ *
+ * Polinômio primitivo 0x11d, gerador α = 2, primeira raiz consecutiva 0.
+ * Polinômios são representados do maior para o menor grau.
+ * ============================================
+ */
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+/**
+ * Erro lançado quando a mensagem tem mais erros do que o código corrige
+ */
+export class ReedSolomonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReedSolomonError';
+  }
+}
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new ReedSolomonError('Divisão por zero em GF(256)');
+  if (a === 0) return 0;
+  return GF_EXP[(GF_LOG[a] + 255 - GF_LOG[b]) % 255];
+}
+
+function gfPow(a: number, power: number): number {
+  return GF_EXP[(((GF_LOG[a] * power) % 255) + 255) % 255];
+}
+
+function gfInverse(a: number): number {
+  return GF_EXP[255 - GF_LOG[a]];
+}
+
+function polyScale(p: number[], x: number): number[] {
+  return p.map(coef => gfMul(coef, x));
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const result = new Array(Math.max(p.length, q.length)).fill(0);
+  for (let i = 0; i < p.length; i++) result[i + result.length - p.length] = p[i];
+  for (let i = 0; i < q.length; i++) result[i + result.length - q.length] ^= q[i];
+  return result;
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const result = new Array(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      result[i + j] ^= gfMul(p[i], q[j]);
+    }
+  }
+  return result;
+}
+
+function polyEval(p: number[], x: number): number {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i];
+  }
+  return y;
+}
+
+function polyRemainder(dividend: number[], divisor: number[]): number[] {
+  const out = [...dividend];
+  for (let i = 0; i < dividend.length - (divisor.length - 1); i++) {
+    const coef = out[i];
+    if (coef === 0) continue;
+    for (let j = 1; j < divisor.length; j++) {
+      if (divisor[j] !== 0) out[i + j] ^= gfMul(divisor[j], coef);
+    }
+  }
+  return out.slice(out.length - (divisor.length - 1));
+}
+
+function generatorPoly(nsym: number): number[] {
+  let g = [1];
+  for (let i = 0; i < nsym; i++) {
+    g = polyMul(g, [1, gfPow(2, i)]);
+  }
+  return g;
+}
+
+/** Síndromes com um zero inicial (facilita a indexação do Berlekamp-Massey) */
+function calcSyndromes(msg: number[], nsym: number): number[] {
+  const synd = [0];
+  for (let i = 0; i < nsym; i++) {
+    synd.push(polyEval(msg, gfPow(2, i)));
+  }
+  return synd;
+}
+
+function findErrorLocator(synd: number[], nsym: number): number[] {
+  let errLoc = [1];
+  let oldLoc = [1];
+  const syndShift = synd.length - nsym;
+
+  for (let i = 0; i < nsym; i++) {
+    const k = i + syndShift;
+    let delta = synd[k];
+    for (let j = 1; j < errLoc.length; j++) {
+      delta ^= gfMul(errLoc[errLoc.length - (j + 1)], synd[k - j]);
+    }
+    oldLoc = [...oldLoc, 0];
+    if (delta !== 0) {
+      if (oldLoc.length > errLoc.length) {
+        const newLoc = polyScale(oldLoc, delta);
+        oldLoc = polyScale(errLoc, gfInverse(delta));
+        errLoc = newLoc;
+      }
+      errLoc = polyAdd(errLoc, polyScale(oldLoc, delta));
+    }
+  }
+
+  while (errLoc.length && errLoc[0] === 0) errLoc.shift();
+  if ((errLoc.length - 1) * 2 > nsym) {
+    throw new ReedSolomonError('Erros demais para corrigir');
+  }
+  return errLoc;
+}
+
+function findErrors(errLocReversed: number[], length: number): number[] {
+  const errs = errLocReversed.length - 1;
+  const positions: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errLocReversed, gfPow(2, i)) === 0) {
+      positions.push(length - 1 - i);
+    }
+  }
+  if (positions.length !== errs) {
+    throw new ReedSolomonError('Não foi possível localizar os erros');
+  }
+  return positions;
+}
+
+function correctErrata(msg: number[], synd: number[], errPos: number[]): number[] {
+  const coefPos = errPos.map(p => msg.length - 1 - p);
+
+  let errLoc = [1];
+  for (const pos of coefPos) {
+    errLoc = polyMul(errLoc, polyAdd([1], [gfPow(2, pos), 0]));
+  }
+
+  const nsym = errLoc.length - 1;
+  const evaluatorDivisor = [1, ...new Array(nsym + 1).fill(0)];
+  const errEval = polyRemainder(polyMul([...synd].reverse(), errLoc), evaluatorDivisor);
+
+  const X = coefPos.map(pos => gfPow(2, pos - 255));
+  const magnitudes = new Array(msg.length).fill(0);
+
+  X.forEach((Xi, i) => {
+    const XiInv = gfInverse(Xi);
+    let errLocPrime = 1;
+    X.forEach((Xj, j) => {
+      if (j !== i) errLocPrime = gfMul(errLocPrime, 1 ^ gfMul(XiInv, Xj));
+    });
+    if (errLocPrime === 0) {
+      throw new ReedSolomonError('Não foi possível calcular a magnitude do erro');
+    }
+    const y = gfMul(Xi, polyEval(errEval, XiInv));
+    magnitudes[errPos[i]] = gfDiv(y, errLocPrime);
+  });
+
+  return polyAdd(msg, magnitudes);
+}
+
+/**
+ * Codifica `data` acrescentando `nsym` bytes de paridade
+ */
+export function rsEncode(data: Uint8Array, nsym: number): Uint8Array {
+  if (data.length + nsym > 255) {
+    throw new ReedSolomonError('Mensagem maior que 255 bytes');
+  }
+
+  const gen = generatorPoly(nsym);
+  const out = new Uint8Array(data.length + nsym);
+  out.set(data, 0);
+
+  for (let i = 0; i < data.length; i++) {
+    const coef = out[i];
+    if (coef === 0) continue;
+    for (let j = 1; j < gen.length; j++) {
+      out[i + j] ^= gfMul(gen[j], coef);
+    }
+  }
+
+  out.set(data, 0);
+  return out;
+}
+
+/**
+ * Decodifica (e corrige) uma palavra-código, retornando apenas os dados
+ * @throws ReedSolomonError se a palavra-código não puder ser corrigida
+ */
+export function rsDecode(codeword: Uint8Array, nsym: number): Uint8Array {
+  let msg = Array.from(codeword);
+
+  let synd = calcSyndromes(msg, nsym);
+  if (synd.some(s => s !== 0)) {
+    const errLoc = findErrorLocator(synd, nsym);
+    const errPos = findErrors([...errLoc].reverse(), msg.length);
+    msg = correctErrata(msg, synd, errPos);
+
+    synd = calcSyndromes(msg, nsym);
+    if (synd.some(s => s !== 0)) {
+      throw new ReedSolomonError('Mensagem não pôde ser corrigida');
+    }
+  }
+
+  return Uint8Array.from(msg.slice(0, msg.length - nsym));
+}
@@ -0,0 +1,305 @@
+/**
+ * ============================================
+ * VERIFICAÇÃO DE CARIMBO DE TEMPO (RFC 3161)
+ * ============================================
+ *
+ * Confere no navegador o TimeStampToken gravado no certificado:
+ *
+ * 1. O TSTInfo carimba exatamente o content_hash do certificado
+ * 2. O atributo messageDigest confere com o SHA-256 do TSTInfo
+ * 3. A assinatura CMS (RSA PKCS#1 v1.5 ou ECDSA) confere com a chave do
+ *    certificado da TSA incluído no token
+ *
+ * A confiança na TSA em si (cadeia até uma raiz) não é avaliada aqui:
+ * o nome da TSA é exibido para o visitante e o token pode ser conferido
+ * de forma independente (ex: `openssl ts -verify`).
+ * ============================================
+ */
+
+const OID = {
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  messageDigest: '1.2.840.113549.1.9.4',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecPublicKey: '1.2.840.10045.2.1',
+  p256: '1.2.840.10045.3.1.7',
+  p384: '1.3.132.0.34',
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+};
+
+const HASH_NAMES: Record<string, string> = {
+  [OID.sha1]: 'SHA-1',
+  [OID.sha256]: 'SHA-256',
+  [OID.sha384]: 'SHA-384',
+  [OID.sha512]: 'SHA-512',
+};
+
+export type TimestampVerificationStatus = 'valid' | 'invalid' | 'unsupported';
+
+export interface TimestampTokenInfo {
+  /** Número de série (hex) */
+  serialNumber: string;
+  /** ISO 8601 */
+  genTime: string;
+  policy: string;
+  /** Hash carimbado (hex) */
+  hashedMessage: string;
+  tsaName: string | null;
+}
+
+export interface TimestampVerification {
+  status: TimestampVerificationStatus;
+  info: TimestampTokenInfo | null;
+  detail: string;
+}
+
+interface DerNode {
+  tag: number;
+  der: Uint8Array<ArrayBuffer>;
+  value: Uint8Array<ArrayBuffer>;
+  children: DerNode[];
+}
+
+function readNode(bytes: Uint8Array<ArrayBuffer>, offset: number): { node: DerNode; end: number } {
+  if (offset + 2 > bytes.length) throw new Error('DER truncado');
+
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error('Comprimento DER inválido');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += count;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) throw new Error('DER truncado');
+
+  const value = bytes.subarray(offset + headerLength, end);
+  const children: DerNode[] = [];
+  if (tag & 0x20) {
+    let position = 0;
+    while (position < value.length) {
+      const child = readNode(value, position);
+      children.push(child.node);
+      position = child.end;
+    }
+  }
+
+  return { node: { tag, der: bytes.subarray(offset, end), value, children }, end };
+}
+
+function parseDer(bytes: Uint8Array<ArrayBuffer>): DerNode {
+  return readNode(bytes, 0).node;
+}
+
+function decodeOid(node: DerNode | undefined): string {
+  if (!node || node.tag !== 0x06) return '';
+  const bytes = node.value;
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function trimInteger(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  return bytes.subarray(start);
+}
+
+function decodeGeneralizedTime(node: DerNode): string {
+  const text = new TextDecoder().decode(node.value);
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/);
+  if (!match) throw new Error(`genTime inválido: ${text}`);
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction || ''}Z`).toISOString();
+}
+
+function decodeNameLabel(name: DerNode | undefined): string | null {
+  if (!name) return null;
+  const attributes = new Map<string, string>();
+  for (const rdn of name.children) {
+    for (const attribute of rdn.children) {
+      const [type, value] = attribute.children;
+      if (type && value) attributes.set(decodeOid(type), new TextDecoder().decode(value.value));
+    }
+  }
+  return attributes.get(OID.commonName) || attributes.get(OID.organizationName) || null;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/** Campos do TBSCertificate (sem a versão [0]) */
+function tbsFields(certificate: DerNode): DerNode[] {
+  const tbs = certificate.children[0];
+  return tbs?.children[0]?.tag === 0xa0 ? tbs.children.slice(1) : tbs?.children || [];
+}
+
+/** ECDSA-Sig-Value DER → r || s (formato do WebCrypto) */
+function derToRawSignature(signature: Uint8Array<ArrayBuffer>, coordinateLength: number): Uint8Array<ArrayBuffer> {
+  const [r, s] = parseDer(signature).children;
+  const raw = new Uint8Array(coordinateLength * 2);
+  const rBytes = trimInteger(r.value);
+  const sBytes = trimInteger(s.value);
+  raw.set(rBytes, coordinateLength - rBytes.length);
+  raw.set(sBytes, coordinateLength * 2 - sBytes.length);
+  return raw;
+}
+
+interface ParsedToken {
+  info: TimestampTokenInfo;
+  hashAlgorithm: string;
+  eContent: Uint8Array<ArrayBuffer>;
+  signedData: DerNode;
+}
+
+function parseToken(token: Uint8Array<ArrayBuffer>): ParsedToken {
+  const contentInfo = parseDer(token);
+  if (decodeOid(contentInfo.children[0]) !== OID.signedData) {
+    throw new Error('O token não é um SignedData CMS');
+  }
+
+  const signedData = contentInfo.children[1]?.children[0];
+  const encapContentInfo = signedData?.children.find(child => child.tag === 0x30);
+  const eContent = encapContentInfo?.children[1]?.children[0];
+  if (!signedData || decodeOid(encapContentInfo?.children[0]) !== OID.tstInfo || !eContent) {
+    throw new Error('O token não contém um TSTInfo');
+  }
+
+  const [, policy, messageImprint, serialNumber, genTime, ...optional] = parseDer(eContent.value).children;
+  if (!policy || !messageImprint || !serialNumber || !genTime) {
+    throw new Error('TSTInfo incompleto');
+  }
+
+  // tsa [0] GeneralName → directoryName [4]; senão, titular do certificado
+  const tsaField = optional.find(node => node.tag === 0xa0);
+  const directoryName = tsaField?.children[0]?.tag === 0xa4 ? tsaField.children[0].children[0] : undefined;
+  const certificate = signedData.children.find(child => child.tag === 0xa0)?.children[0];
+
+  return {
+    info: {
+      serialNumber: toHex(trimInteger(serialNumber.value)),
+      genTime: decodeGeneralizedTime(genTime),
+      policy: decodeOid(policy),
+      hashedMessage: toHex(messageImprint.children[1].value),
+      tsaName: decodeNameLabel(directoryName) || (certificate ? decodeNameLabel(tbsFields(certificate)[4]) : null),
+    },
+    hashAlgorithm: decodeOid(messageImprint.children[0]?.children[0]),
+    eContent: eContent.value,
+    signedData,
+  };
+}
+
+/**
+ * Dados do carimbo (TSA, série, genTime) sem verificar a assinatura
+ */
+export function parseTimestampToken(tokenBase64: string): TimestampTokenInfo {
+  return parseToken(base64ToBytes(tokenBase64)).info;
+}
+
+/**
+ * ⏱️ Verifica um TimeStampToken (base64) contra o content_hash do certificado
+ */
+export async function verifyTimestampToken(
+  tokenBase64: string,
+  contentHash: string
+): Promise<TimestampVerification> {
+  let parsed: ParsedToken;
+  try {
+    parsed = parseToken(base64ToBytes(tokenBase64));
+  } catch (error) {
+    console.error('❌ [RFC3161] Token inválido:', error);
+    return { status: 'invalid', info: null, detail: 'O carimbo de tempo está corrompido ou em formato desconhecido.' };
+  }
+
+  const { info, signedData } = parsed;
+
+  // 1. O carimbo precisa cobrir exatamente o hash deste certificado
+  if (parsed.hashAlgorithm !== OID.sha256 || info.hashedMessage !== contentHash.toLowerCase()) {
+    return { status: 'invalid', info, detail: 'O carimbo de tempo não se refere ao hash deste certificado.' };
+  }
+
+  const signerInfo = signedData.children[signedData.children.length - 1]?.children[0];
+  const [, sid, digestAlgorithm, signedAttrs, signatureAlgorithm, signature] = signerInfo?.children || [];
+  const hashName = HASH_NAMES[decodeOid(digestAlgorithm?.children[0])];
+  if (!sid || !signedAttrs || signedAttrs.tag !== 0xa0 || !signatureAlgorithm || !signature || !hashName) {
+    return { status: 'unsupported', info, detail: 'Formato de assinatura do carimbo não suportado.' };
+  }
+
+  try {
+    // 2. messageDigest = hash(TSTInfo)
+    const eContentDigest = new Uint8Array(await crypto.subtle.digest(hashName, parsed.eContent));
+    const messageDigest = signedAttrs.children
+      .find(attribute => decodeOid(attribute.children[0]) === OID.messageDigest)
+      ?.children[1]?.children[0];
+    if (!messageDigest || !bytesEqual(messageDigest.value, eContentDigest)) {
+      return { status: 'invalid', info, detail: 'O conteúdo do carimbo foi alterado (messageDigest não confere).' };
+    }
+
+    // 3. Certificado do signatário (IssuerAndSerialNumber)
+    const sidSerial = sid.tag === 0x30 ? sid.children[1]?.value : undefined;
+    const certificates = signedData.children.find(child => child.tag === 0xa0)?.children || [];
+    const certificate = certificates.find(cert => sidSerial && bytesEqual(tbsFields(cert)[0]?.value ?? new Uint8Array(), sidSerial))
+      || certificates[0];
+    const spki = certificate ? tbsFields(certificate)[5] : undefined;
+    if (!spki) {
+      return { status: 'unsupported', info, detail: 'O carimbo não inclui o certificado da TSA.' };
+    }
+
+    // Assinatura calculada sobre os atributos como SET OF (tag 0x31)
+    const signedAttrsSet = signedAttrs.der.slice();
+    signedAttrsSet[0] = 0x31;
+
+    const keyAlgorithm = decodeOid(spki.children[0]?.children[0]);
+    let valid: boolean;
+
+    if (keyAlgorithm === OID.rsaEncryption) {
+      const key = await crypto.subtle.importKey('spki', spki.der.slice(), { name: 'RSASSA-PKCS1-v1_5', hash: hashName }, false, ['verify']);
+      valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature.value.slice(), signedAttrsSet);
+    } else if (keyAlgorithm === OID.ecPublicKey) {
+      const curve = decodeOid(spki.children[0].children[1]);
+      const namedCurve = curve === OID.p256 ? 'P-256' : curve === OID.p384 ? 'P-384' : null;
+      if (!namedCurve) {
+        return { status: 'unsupported', info, detail: 'Curva elíptica da TSA não suportada.' };
+      }
+      const key = await crypto.subtle.importKey('spki', spki.der.slice(), { name: 'ECDSA', namedCurve }, false, ['verify']);
+      const raw = derToRawSignature(signature.value.slice(), namedCurve === 'P-256' ? 32 : 48);
+      valid = await crypto.subtle.verify({ name: 'ECDSA', hash: hashName }, key, raw, signedAttrsSet);
+    } else {
+      return { status: 'unsupported', info, detail: 'Algoritmo de assinatura da TSA não suportado.' };
+    }
+
+    return valid
+      ? { status: 'valid', info, detail: `Carimbo emitido por ${info.tsaName || 'TSA'} e assinatura conferida.` }
+      : { status: 'invalid', info, detail: 'A assinatura da TSA não confere.' };
+  } catch (error) {
+    console.error('❌ [RFC3161] Erro ao verificar carimbo:', error);
+    return { status: 'unsupported', info, detail: 'Não foi possível verificar a assinatura da TSA neste navegador.' };
+  }
+}
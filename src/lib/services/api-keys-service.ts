@@ -0,0 +1,158 @@
+/**
+ * 🔑 API KEYS SERVICE
+ *
+ * Chaves da API REST pública de verificação (Edge Function `public-api`)
+ * e da assinatura programática (Edge Function `sign-content`, escopo "sign").
+ * A chave é gerada no navegador e exibida UMA única vez: o banco guarda
+ * apenas o SHA-256 e um prefixo para identificação.
+ *
+ * @module ApiKeysService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import { generateHash } from '@/lib/crypto';
+
+/** Prefixo das chaves de produção */
+export const API_KEY_PREFIX = 'vid_live_';
+
+/** Quantidade de caracteres exibidos para identificar a chave */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+/** URL base da API pública */
+export const PUBLIC_API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/public-api/v1`;
+
+/** Endpoint de assinatura programática */
+export const SIGN_API_URL = `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/sign-content`;
+
+/**
+ * Escopos de uma chave
+ * - verify: consulta e verificação de certificados (public-api)
+ * - sign: assinatura de arquivos/hashes, consome créditos do plano
+ */
+export type ApiKeyScope = 'verify' | 'sign';
+
+/**
+ * Chave de API (sem o segredo)
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Consumo da API no período atual do plano
+ */
+export interface ApiUsageSummary {
+  planType: string;
+  requestsUsed: number;
+  /** null = ilimitado; 0 = plano sem acesso à API */
+  requestsPerMonth: number | null;
+  requestsPerMinute: number;
+  maxKeys: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+/**
+ * Gera uma chave aleatória (256 bits, base64url)
+ */
+function generateApiKeySecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return API_KEY_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * 🆕 Cria uma chave de API
+ * @returns A chave completa (exibir uma única vez) e o registro criado
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[] = ['verify']
+): Promise<{ success: boolean; key?: string; error?: string }> {
+  const key = generateApiKeySecret();
+
+  const { error } = await supabase.rpc('create_api_key', {
+    p_name: name,
+    p_key_prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    p_key_hash: await generateHash(key),
+    p_scopes: scopes,
+  });
+
+  if (error) {
+    console.error('❌ [ApiKeys] Erro ao criar chave:', error);
+    return { success: false, error: error.message };
+  }
+
+  console.log('✅ [ApiKeys] Chave de API criada');
+  return { success: true, key };
+}
+
+/**
+ * 📋 Lista as chaves do usuário (mais recentes primeiro)
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ [ApiKeys] Erro ao listar chaves:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: (row.scopes || ['verify']) as ApiKeyScope[],
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * 🚫 Revoga uma chave (requisições com ela passam a retornar 401)
+ */
+export async function revokeApiKey(keyId: string): Promise<{ success: boolean; error?: string }> {
+  const { data, error } = await supabase.rpc('revoke_api_key', { p_key_id: keyId });
+
+  if (error || !data) {
+    console.error('❌ [ApiKeys] Erro ao revogar chave:', error);
+    return { success: false, error: error?.message || 'Chave não encontrada ou já revogada' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * 📊 Consumo da API no período atual
+ */
+export async function getApiUsageSummary(): Promise<ApiUsageSummary | null> {
+  const { data, error } = await supabase.rpc('get_api_usage_summary');
+  const row = data?.[0];
+
+  if (error || !row) {
+    console.error('❌ [ApiKeys] Erro ao buscar consumo da API:', error);
+    return null;
+  }
+
+  return {
+    planType: row.plan_type,
+    requestsUsed: row.requests_used,
+    requestsPerMonth: row.requests_per_month,
+    requestsPerMinute: row.requests_per_minute,
+    maxKeys: row.max_keys,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+  };
+}
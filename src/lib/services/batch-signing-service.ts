@@ -0,0 +1,358 @@
+/**
+ * =====================================================
+ * BATCH SIGNING SERVICE
+ * =====================================================
+ *
+ * Assinatura em lote: cada arquivo vira um certificado próprio.
+ *
+ * Etapas de cada item (fila):
+ *   1. prepareBatchItem → valida (validateFile), envia para temp-uploads
+ *      com progresso, calcula SHA-256, aguarda a verificação de malware
+ *      do servidor e gera a miniatura
+ *   2. signBatchItem    → move para signed-documents, assina, consome
+ *      1 crédito e (opcional) coloca na pasta de destino
+ *
+ * O estado de cada item guarda o que já foi concluído (tempPath,
+ * finalPath, signedContent), então uma nova tentativa retoma da etapa
+ * que falhou sem reenviar arquivos nem assinar duas vezes.
+ *
+ * @module BatchSigningService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { User as UserType } from '@/lib/supabase-auth';
+import type { KeyPair, SignedContent } from '@/lib/supabase-crypto';
+import { signContent } from '@/lib/services/supabase-crypto-enhanced';
+import { validateFile } from '@/lib/file-validator';
+import type { FileCategory } from '@/lib/file-validator';
+import { uploadToTempBucketWithProgress } from '@/lib/services/storage-service-with-progress';
+import { moveToSignedDocuments } from '@/lib/services/storage-service';
+import { moveCertificateToFolder } from '@/lib/services/folder-service';
+import { calculateFileHash } from '@/hooks/useFileScanStatus';
+import { waitForUploadScan, isScanFinished } from '@/lib/services/file-scan-service';
+import { sanitizeFileName } from '@/lib/input-sanitizer';
+import { compressImage } from '@/lib/image-compression';
+import { generateThumbnail, isVideoFile } from '@/lib/video-processor';
+import { generateDocumentPreview, isDocumentFile } from '@/lib/document-preview-generator';
+import { generateMusicPreview, isMusicFile } from '@/lib/music-preview-generator';
+import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+
+export const MAX_BATCH_FILES = 50;
+
+const BATCH_CATEGORIES: FileCategory[] = ['image', 'video', 'audio', 'document'];
+const MAX_VIDEO_SIZE = 200 * 1024 * 1024;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export type BatchItemStatus =
+  | 'queued'
+  | 'validating'
+  | 'uploading'
+  | 'scanning'
+  | 'ready'
+  | 'signing'
+  | 'signed'
+  | 'rejected' // validação/scan recusou o arquivo (não adianta tentar de novo)
+  | 'failed';  // erro transitório (pode tentar de novo)
+
+/**
+ * Item da fila de assinatura em lote
+ */
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  uploadProgress: number;
+  tempPath?: string;
+  finalPath?: string;
+  fileHash?: string;
+  thumbnail?: string;
+  signedContent?: SignedContent;
+  /** Crédito já consumido para este item */
+  creditConsumed?: boolean;
+  /** Já colocado na pasta de destino */
+  folderAssigned?: boolean;
+  /** Etapa em que o item falhou (define por onde a nova tentativa recomeça) */
+  failedStage?: 'prepare' | 'sign';
+  error?: string;
+}
+
+/**
+ * Dados comuns a todos os certificados do lote
+ */
+export interface BatchSignOptions {
+  /** Prefixo do título ("<prefixo> - <nome do arquivo>"); vazio usa só o nome */
+  titlePrefix: string;
+  description: string;
+  platforms: string[];
+  allowFileDownload: boolean;
+  folderId: string | null;
+}
+
+export type BatchItemUpdate = (id: string, changes: Partial<BatchItem>) => void;
+
+let itemCounter = 0;
+
+export function createBatchItems(files: File[]): BatchItem[] {
+  return files.map(file => ({
+    id: `batch-${Date.now()}-${itemCounter++}`,
+    file,
+    status: 'queued',
+    uploadProgress: 0,
+  }));
+}
+
+/**
+ * Tipo exibido no certificado
+ */
+function getTypeLabel(file: File): string {
+  if (file.type.startsWith('image/')) return 'Imagem';
+  if (isVideoFile(file)) return 'Vídeo';
+  if (isMusicFile(file.type)) return 'Música';
+  return 'Documento';
+}
+
+/**
+ * Miniatura do certificado (mesmas regras do SignContent)
+ */
+async function buildThumbnail(file: File, title: string): Promise<string | undefined> {
+  if (isVideoFile(file)) {
+    return await generateThumbnail(file);
+  }
+
+  if (file.type.startsWith('image/')) {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+    return await compressImage(dataUrl, { maxWidth: 800, maxHeight: 600, quality: 0.7, maxSizeKB: 100 });
+  }
+
+  if (isMusicFile(file.type)) {
+    return generateMusicPreview(file.name, file.size, file.type, title);
+  }
+
+  if (isDocumentFile(file.type)) {
+    return generateDocumentPreview(file.name, file.size, file.type);
+  }
+
+  return undefined;
+}
+
+/**
+ * Aguarda a verificação de malware do upload (fila do servidor, Edge Function scan-uploads)
+ * @returns true se o scan apontou ameaça
+ */
+async function scanFile(tempPath: string, file: File, fileHash: string, userId: string): Promise<boolean> {
+  const sanitizedFileName = sanitizeFileName(file.name);
+  const scan = await waitForUploadScan(tempPath);
+
+  if (!scan || !isScanFinished(scan.status)) {
+    // Ainda na fila: não bloqueia aqui, a promoção para signed-documents exige 'clean'
+    console.warn('⚠️ [BatchSigning] Verificação ainda em andamento:', tempPath);
+    return false;
+  }
+
+  const infected = scan.status === 'infected';
+  logAuditEvent(infected || scan.status === 'clean' ? AuditAction.FILE_SCAN_COMPLETED : AuditAction.FILE_SCAN_FAILED, {
+    success: scan.status === 'clean',
+    fileName: sanitizedFileName,
+    fileHash,
+    scanStatus: scan.status,
+    threatName: scan.threatName ?? undefined,
+    scanProvider: scan.scanner ?? undefined,
+    batch: true,
+  }, userId).catch(() => undefined);
+
+  return infected;
+}
+
+/**
+ * 📤 Etapa 1: valida, envia, escaneia e gera miniatura
+ * Itens já enviados (tempPath) não são reenviados.
+ */
+export async function prepareBatchItem(
+  item: BatchItem,
+  userId: string,
+  titlePrefix: string,
+  update: BatchItemUpdate
+): Promise<void> {
+  const { file } = item;
+  let tempPath = item.tempPath;
+
+  try {
+    if (!item.tempPath) {
+      update(item.id, { status: 'validating', error: undefined, failedStage: undefined });
+
+      const validation = await validateFile(file, {
+        maxSizeBytes: isVideoFile(file) ? MAX_VIDEO_SIZE : MAX_FILE_SIZE,
+        allowedCategories: BATCH_CATEGORIES,
+        strictMode: true,
+        validateMagicNumbers: true,
+      });
+
+      if (!validation.valid) {
+        logAuditEvent(AuditAction.FILE_VALIDATION_FAILED, {
+          success: false,
+          fileName: sanitizeFileName(file.name),
+          fileSize: file.size,
+          fileType: file.type,
+          validationError: validation.message,
+          batch: true,
+        }, userId).catch(() => undefined);
+        update(item.id, { status: 'rejected', error: validation.message });
+        return;
+      }
+
+      update(item.id, { status: 'uploading', uploadProgress: 0 });
+      const upload = await uploadToTempBucketWithProgress(file, userId, {
+        onProgress: (progress) => update(item.id, { uploadProgress: progress }),
+      });
+
+      if (!upload.success || !upload.path) {
+        throw new Error(upload.error || 'Erro ao fazer upload');
+      }
+      update(item.id, { tempPath: upload.path, uploadProgress: 100 });
+      tempPath = upload.path;
+    }
+
+    update(item.id, { status: 'scanning', error: undefined, failedStage: undefined });
+    const fileHash = item.fileHash || await calculateFileHash(file);
+    update(item.id, { fileHash });
+
+    if (tempPath && await scanFile(tempPath, file, fileHash, userId)) {
+      update(item.id, { status: 'rejected', error: 'Arquivo bloqueado pela verificação de segurança.' });
+      return;
+    }
+
+    let thumbnail = item.thumbnail;
+    if (!thumbnail) {
+      try {
+        thumbnail = await buildThumbnail(file, buildItemTitle(titlePrefix, file));
+      } catch (error) {
+        console.warn('⚠️ [BatchSigning] Erro ao gerar miniatura (segue sem):', error);
+      }
+    }
+
+    update(item.id, { status: 'ready', thumbnail });
+  } catch (error) {
+    console.error('❌ [BatchSigning] Erro ao preparar arquivo:', file.name, error);
+    update(item.id, { status: 'failed', failedStage: 'prepare', error: error instanceof Error ? error.message : 'Erro desconhecido' });
+  }
+}
+
+/**
+ * Título do certificado de um arquivo do lote
+ */
+export function buildItemTitle(titlePrefix: string, file: File): string {
+  const baseName = sanitizeFileName(file.name).replace(/\.[^.]+$/, '');
+  return titlePrefix.trim() ? `${titlePrefix.trim()} - ${baseName}` : baseName;
+}
+
+/**
+ * 🔐 Etapa 2: move para o storage permanente, assina, consome crédito e organiza na pasta
+ * Cada sub-etapa concluída fica registrada no item (retomada segura).
+ */
+export async function signBatchItem(
+  item: BatchItem,
+  user: UserType,
+  keyPair: KeyPair,
+  options: BatchSignOptions,
+  update: BatchItemUpdate
+): Promise<void> {
+  const { file } = item;
+  let { finalPath, signedContent } = item;
+
+  update(item.id, { status: 'signing', error: undefined, failedStage: undefined });
+
+  try {
+    if (!signedContent) {
+      if (!finalPath) {
+        if (!item.tempPath) throw new Error('Arquivo ainda não foi enviado');
+        const moved = await moveToSignedDocuments(item.tempPath, user.id);
+        if (!moved.success || !moved.path) {
+          throw new Error(moved.error || 'Erro ao mover arquivo para storage permanente');
+        }
+        finalPath = moved.path;
+        update(item.id, { finalPath });
+      }
+
+      const fileHash = item.fileHash || await calculateFileHash(file);
+      const sanitizedFileName = sanitizeFileName(file.name);
+
+      const fullContent = `
+Título: ${buildItemTitle(options.titlePrefix, file)}
+Tipo: ${getTypeLabel(file)}
+Redes: ${options.platforms.join(', ')}
+Arquivo: ${sanitizedFileName}
+SHA-256 do arquivo: ${fileHash}
+
+Conteúdo:
+${options.description}
+      `.trim();
+
+      const result = await signContent(
+        fullContent,
+        keyPair.privateKey,
+        keyPair.publicKey,
+        user.nomePublico || user.nomeCompleto,
+        user.id,
+        item.thumbnail,
+        options.platforms,
+        {
+          file_path: finalPath,
+          file_name: file.name,
+          file_size: file.size,
+          mime_type: file.type,
+          storage_bucket: 'signed-documents',
+          file_hash: fileHash,
+        },
+        user.socialLinks || undefined,
+        options.allowFileDownload
+      );
+
+      if (!result.success || !result.signedContent) {
+        // Arquivo permanece em signed-documents: a nova tentativa reutiliza finalPath
+        throw new Error(result.error || 'Erro ao assinar conteúdo');
+      }
+
+      // Crédito debitado no INSERT do certificado (charge_signed_content)
+      signedContent = result.signedContent;
+      update(item.id, { signedContent, creditConsumed: true });
+    }
+
+    if (options.folderId && !item.folderAssigned) {
+      const moved = await moveCertificateToFolder(user.id, signedContent.id, options.folderId);
+      if (!moved.success) {
+        throw new Error(`Assinado, mas não foi possível mover para a pasta: ${moved.error}`);
+      }
+      update(item.id, { folderAssigned: true });
+    }
+
+    update(item.id, { status: 'signed' });
+  } catch (error) {
+    console.error('❌ [BatchSigning] Erro ao assinar arquivo:', file.name, error);
+    update(item.id, { status: 'failed', failedStage: 'sign', error: error instanceof Error ? error.message : 'Erro desconhecido' });
+  }
+}
+
+/**
+ * Créditos disponíveis para o lote (consulta direta, sem cache do hook)
+ */
+export async function getAvailableSignatures(userId: string): Promise<{ hasSubscription: boolean; available: number }> {
+  const { data, error } = await supabase.rpc('get_signature_status', { p_user_id: userId });
+
+  if (error) {
+    console.error('❌ [BatchSigning] Erro ao consultar créditos:', error);
+    throw new Error('Não foi possível consultar seus créditos de assinatura.');
+  }
+
+  const status = Array.isArray(data) ? data[0] : data;
+  return {
+    hasSubscription: !!status?.has_active_subscription,
+    available: status?.total_available ?? 0,
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * =====================================================
+ * BULK CERTIFICATE SERVICE
+ * =====================================================
+ *
+ * Operações em lote sobre os certificados selecionados no Dashboard:
+ *
+ * - Mover para pasta (ou remover da pasta)
+ * - Excluir (linhas via RPC `delete_signed_contents` + limpeza do Storage
+ *   + auditoria CONTENT_DELETED por certificado)
+ * - Baixar ZIP com arquivos (watermark em imagens/PDFs), certificado HTML
+ *   e manifesto de verificação de cada item
+ * - Exportar metadados em CSV ou JSON
+ *
+ * @module BulkCertificateService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { SignedContent } from '@/lib/supabase-crypto';
+import type { CarouselMetadata } from '@/lib/types/carousel';
+import { moveCertificateToFolder, removeCertificateFromFolder } from '@/lib/services/folder-service';
+import { deleteFile, getSignedDownloadUrl } from '@/lib/services/storage-service';
+import { deleteCarouselImages } from '@/lib/services/carousel-storage';
+import { requestVerificationManifest, serializeVerificationManifest } from '@/lib/services/verification-manifest';
+import { generateZipFromEntries, downloadZip } from '@/lib/utils/zip-generator';
+import type { ZipEntry } from '@/lib/utils/zip-generator';
+import { buildCertificateUrl, generateCertificate } from '@/lib/qrcode';
+import { addWatermarkToImage, isImageMimeType } from '@/lib/watermark';
+import { addWatermarkToPdf, isPdfMimeType } from '@/lib/pdf-watermark';
+import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+
+const PUBLIC_BASE_URL = 'https://www.veroid.com.br';
+
+/** Requisições simultâneas (RPCs de pasta / downloads) */
+const CONCURRENCY = 4;
+
+export const MAX_BULK_SELECTION = 500;
+
+/**
+ * Resultado de uma operação em lote
+ */
+export interface BulkOperationResult {
+  succeeded: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+export type BulkProgressCallback = (done: number, total: number) => void;
+
+/**
+ * Executa `task` para cada item com concorrência limitada
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  onProgress?: BulkProgressCallback
+): Promise<void> {
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+      onProgress?.(++done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+}
+
+/**
+ * 📁 Move certificados para uma pasta (folderId null = remover da pasta)
+ */
+export async function bulkMoveToFolder(
+  userId: string,
+  contentIds: string[],
+  folderId: string | null,
+  onProgress?: BulkProgressCallback
+): Promise<BulkOperationResult> {
+  const result: BulkOperationResult = { succeeded: [], failed: [] };
+
+  await runWithConcurrency(contentIds, async (contentId) => {
+    const moved = folderId
+      ? await moveCertificateToFolder(userId, contentId, folderId)
+      : await removeCertificateFromFolder(userId, contentId);
+
+    if (moved.success) {
+      result.succeeded.push(contentId);
+    } else {
+      result.failed.push({ id: contentId, error: moved.error || 'Erro ao mover certificado' });
+    }
+  }, onProgress);
+
+  console.log('📁 [BulkCertificates] Movidos:', result.succeeded.length, 'falhas:', result.failed.length);
+  return result;
+}
+
+interface DeletedContentRow {
+  id: string;
+  verification_code: string;
+  file_path: string | null;
+  storage_bucket: string | null;
+  carousel_metadata: CarouselMetadata | null;
+}
+
+/**
+ * 🗑️ Exclui certificados, remove os arquivos do Storage e registra auditoria
+ */
+export async function bulkDeleteContents(
+  userId: string,
+  contentIds: string[]
+): Promise<BulkOperationResult> {
+  if (contentIds.length > MAX_BULK_SELECTION) {
+    throw new Error(`Selecione no máximo ${MAX_BULK_SELECTION} certificados por vez.`);
+  }
+
+  const { data, error } = await supabase.rpc('delete_signed_contents', { p_content_ids: contentIds });
+
+  if (error) {
+    console.error('❌ [BulkCertificates] Erro ao excluir certificados:', error);
+    throw new Error(error.message);
+  }
+
+  const deleted = (data || []) as DeletedContentRow[];
+  const deletedIds = new Set(deleted.map(row => row.id));
+
+  // Limpeza do Storage: falhas não desfazem a exclusão, apenas ficam registradas
+  await runWithConcurrency(deleted, async (row) => {
+    const storageErrors: string[] = [];
+
+    if (row.file_path) {
+      const removed = await deleteFile(row.storage_bucket || 'signed-documents', row.file_path);
+      if (!removed.success) storageErrors.push(removed.error || 'Erro ao remover arquivo');
+    }
+
+    if (row.carousel_metadata?.carousel_images?.length) {
+      const removed = await deleteCarouselImages(row.carousel_metadata, userId);
+      if (!removed.success) storageErrors.push(removed.error || 'Erro ao remover carrossel');
+    }
+
+    await logAuditEvent(AuditAction.CONTENT_DELETED, {
+      success: true,
+      contentId: row.id,
+      verificationCode: row.verification_code,
+      filePath: row.file_path || undefined,
+      bulk: true,
+      storageCleanup: storageErrors.length === 0,
+      error: storageErrors.length > 0 ? storageErrors.join('; ') : undefined,
+    }, userId);
+  });
+
+  const result: BulkOperationResult = {
+    succeeded: [...deletedIds],
+    failed: contentIds
+      .filter(id => !deletedIds.has(id))
+      .map(id => ({ id, error: 'Certificado não encontrado ou sem permissão' })),
+  };
+
+  console.log('🗑️ [BulkCertificates] Excluídos:', result.succeeded.length, 'falhas:', result.failed.length);
+  return result;
+}
+
+/**
+ * Nome seguro para arquivo/pasta dentro do ZIP
+ */
+function sanitizeZipName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'arquivo';
+}
+
+/**
+ * Arquivos de um certificado (original com watermark, carrossel, certificado e manifesto)
+ */
+async function buildContentZipEntries(content: SignedContent): Promise<ZipEntry[]> {
+  const folder = content.verificationCode;
+  const entries: ZipEntry[] = [
+    {
+      path: `${folder}/veroId-certificate-${content.verificationCode}.html`,
+      data: await generateCertificate(content),
+    },
+  ];
+
+  // Sem manifesto (ex.: chave revogada) o certificado é exportado mesmo assim
+  try {
+    entries.push({
+      path: `${folder}/veroId-manifest-${content.verificationCode}.json`,
+      data: serializeVerificationManifest(await requestVerificationManifest(content.id)),
+    });
+  } catch (error) {
+    console.warn('⚠️ [BulkCertificates] Manifesto indisponível:', content.id, error);
+    entries.push({
+      path: `${folder}/veroId-manifest-${content.verificationCode}-indisponivel.txt`,
+      data: `Manifesto de verificação não emitido: ${error instanceof Error ? error.message : 'Erro desconhecido'}\n`,
+    });
+  }
+
+  if (content.filePath) {
+    const fileName = sanitizeZipName(content.fileName || content.filePath.split('/').pop() || 'arquivo');
+    const bucket = content.storageBucket || 'signed-documents';
+    const signedUrl = await getSignedDownloadUrl(content.filePath, 3600, bucket);
+
+    if (!signedUrl.success || !signedUrl.signedUrl) {
+      throw new Error(signedUrl.error || 'Erro ao gerar URL de download');
+    }
+
+    // Mesmo tratamento do DownloadButton: watermark em imagens e PDFs
+    let fileBlob: Blob;
+    if (isImageMimeType(content.mimeType)) {
+      fileBlob = await addWatermarkToImage(signedUrl.signedUrl, content);
+    } else if (isPdfMimeType(content.mimeType)) {
+      fileBlob = await addWatermarkToPdf(signedUrl.signedUrl, content);
+    } else {
+      const response = await fetch(signedUrl.signedUrl);
+      if (!response.ok) throw new Error(`Falha ao baixar arquivo (HTTP ${response.status})`);
+      fileBlob = await response.blob();
+    }
+
+    entries.push({ path: `${folder}/${fileName}`, data: fileBlob });
+  }
+
+  const carousel = content.carouselMetadata as unknown as CarouselMetadata | undefined;
+  if (carousel?.carousel_images?.length) {
+    for (const image of carousel.carousel_images) {
+      const { data, error } = await supabase.storage
+        .from(carousel.storage_bucket || 'signed-documents')
+        .download(image.path);
+
+      if (error || !data) {
+        throw new Error(`Erro ao baixar imagem do carrossel: ${error?.message || image.name}`);
+      }
+
+      const paddedOrder = String(image.order).padStart(3, '0');
+      entries.push({ path: `${folder}/carrossel/${paddedOrder}_${sanitizeZipName(image.name)}`, data });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * 📦 Baixa um ZIP com os arquivos e certificados selecionados
+ */
+export async function bulkDownloadZip(
+  contents: SignedContent[],
+  onProgress?: BulkProgressCallback
+): Promise<BulkOperationResult> {
+  const result: BulkOperationResult = { succeeded: [], failed: [] };
+  const entries: ZipEntry[] = [];
+
+  await runWithConcurrency(contents, async (content) => {
+    try {
+      entries.push(...await buildContentZipEntries(content));
+      result.succeeded.push(content.id);
+    } catch (error) {
+      console.error('❌ [BulkCertificates] Erro ao preparar certificado para o ZIP:', content.id, error);
+      result.failed.push({ id: content.id, error: error instanceof Error ? error.message : 'Erro desconhecido' });
+    }
+  }, onProgress);
+
+  if (result.failed.length > 0) {
+    entries.push({
+      path: 'erros.txt',
+      data: result.failed.map(item => `${item.id}: ${item.error}`).join('\n'),
+    });
+  }
+
+  const zip = await generateZipFromEntries(entries);
+  if (!zip.success || !zip.blob) {
+    throw new Error(zip.error || 'Erro ao gerar ZIP');
+  }
+
+  downloadZip(zip.blob, `veroId-certificados-${new Date().toISOString().slice(0, 10)}`);
+  return result;
+}
+
+/**
+ * Metadados exportados de cada certificado
+ */
+export interface CertificateExportRow {
+  id: string;
+  verificationCode: string;
+  createdAt: string;
+  creatorName: string;
+  title: string;
+  platforms: string;
+  folderId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number | null;
+  fileHash: string;
+  contentHash: string;
+  verificationCount: number;
+  certificateUrl: string;
+  verifyUrl: string;
+}
+
+/**
+ * Título do conteúdo (linha "Título:" do texto assinado ou primeira linha)
+ */
+function extractTitle(content: string): string {
+  const titleLine = content.split('\n').find(line => line.startsWith('Título:'));
+  return (titleLine ? titleLine.replace('Título:', '') : content.split('\n')[0]).trim();
+}
+
+const EXPORT_COLUMNS: Array<keyof CertificateExportRow> = [
+  'id', 'verificationCode', 'createdAt', 'creatorName', 'title', 'platforms', 'folderId',
+  'fileName', 'mimeType', 'fileSize', 'fileHash', 'contentHash', 'verificationCount',
+  'certificateUrl', 'verifyUrl',
+];
+
+export function buildExportRows(contents: SignedContent[]): CertificateExportRow[] {
+  return contents.map(content => ({
+    id: content.id,
+    verificationCode: content.verificationCode,
+    createdAt: content.createdAt,
+    creatorName: content.creatorName || '',
+    title: extractTitle(content.content),
+    platforms: (content.platforms || []).join(';'),
+    folderId: content.folderId || '',
+    fileName: content.fileName || '',
+    mimeType: content.mimeType || '',
+    fileSize: content.fileSize ?? null,
+    fileHash: content.fileHash || '',
+    contentHash: content.contentHash,
+    verificationCount: content.verificationCount || 0,
+    certificateUrl: buildCertificateUrl(content.id, PUBLIC_BASE_URL),
+    verifyUrl: `${PUBLIC_BASE_URL}/verify?code=${encodeURIComponent(content.verificationCode)}`,
+  }));
+}
+
+/**
+ * Escapa um valor CSV (aspas e prevenção de injeção de fórmulas em planilhas)
+ */
+function toCsvValue(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadTextFile(text: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 📊 Exporta metadados dos certificados selecionados
+ */
+export function exportCertificates(contents: SignedContent[], format: 'csv' | 'json'): void {
+  const rows = buildExportRows(contents);
+  const baseName = `veroId-certificados-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    downloadTextFile(JSON.stringify(rows, null, 2), `${baseName}.json`, 'application/json');
+  } else {
+    const headers = EXPORT_COLUMNS;
+    const lines = [
+      headers.join(','),
+      ...rows.map(row => headers.map(header => toCsvValue(row[header])).join(',')),
+    ];
+    // BOM para o Excel reconhecer UTF-8
+    downloadTextFile(`\uFEFF${lines.join('\r\n')}`, `${baseName}.csv`, 'text/csv;charset=utf-8');
+  }
+
+  console.log(`📊 [BulkCertificates] ${rows.length} certificados exportados (${format})`);
+}
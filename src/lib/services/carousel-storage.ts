@@ -6,6 +6,9 @@
 
 import { supabase } from '@/lib/supabase';
 import { compressImage } from '@/lib/image-compression';
+import { generateFileHash } from '@/lib/crypto';
+import { promoteScannedUpload } from '@/lib/services/file-scan-service';
+import { checkStorageQuota } from '@/lib/services/storage-quota-service';
 import type { 
   CarouselMetadata, 
   CarouselImage,
@@ -58,6 +61,17 @@ export async function uploadCarouselImages(
       }
     }
     
+    // Validação: cota de armazenamento do plano (carrossel inteiro)
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const quota = await checkStorageQuota(totalSize, 'temp-uploads');
+    if (!quota.allowed) {
+      return {
+        success: false,
+        error: quota.error,
+        executionTime: Date.now() - startTime
+      };
+    }
+    
     const carouselImages: CarouselImage[] = [];
     const timestamp = Date.now();
     
@@ -123,6 +137,9 @@ export async function uploadCarouselImages(
         thumbnail = dataUrl; // fallback para imagem original
       }
       
+      // Hash SHA-256 da imagem original (usado no manifesto de verificação)
+      const sha256 = await generateFileHash(file);
+      
       // Adicionar à lista de imagens do carrossel
       carouselImages.push({
         path: data.path,
@@ -130,7 +147,8 @@ export async function uploadCarouselImages(
         size: file.size,
         mime_type: file.type,
         order,
-        thumbnail
+        thumbnail,
+        sha256
       });
     }
     
@@ -190,32 +208,18 @@ export async function moveCarouselToSignedDocuments(
     for (const image of metadata.carousel_images) {
       console.log(`🔄 [CAROUSEL STORAGE] Movendo imagem ${image.order}/${metadata.total_images}`);
       
-      // Baixar do temp-uploads
-      const { data: downloadData, error: downloadError } = await supabase.storage
-        .from('temp-uploads')
-        .download(image.path);
-      
-      if (downloadError) {
-        console.error(`❌ [CAROUSEL STORAGE] Erro ao baixar imagem ${image.order}:`, downloadError);
-        throw new Error(`Erro ao baixar imagem ${image.order}: ${downloadError.message}`);
-      }
-      
       // Criar novo path
       const randomStr = Math.random().toString(36).substring(2, 8);
       const sanitizedName = image.name.replace(/[^a-zA-Z0-9.-]/g, '_');
       const newFileName = `signed_carousel_${timestamp}_${image.order}_${randomStr}_${sanitizedName}`;
       const newPath = `${userId}/${newFileName}`;
       
-      // Upload para signed-documents
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('signed-documents')
-        .upload(newPath, downloadData, {
-          contentType: image.mime_type,
-          upsert: false
-        });
+      // 🛡️ Só imagens com verificação de malware 'clean' saem do temp-uploads;
+      // a cópia é feita no servidor, que também remove o temporário
+      const promotion = await promoteScannedUpload(image.path, newPath);
       
-      if (uploadError) {
-        console.error(`❌ [CAROUSEL STORAGE] Erro ao fazer upload da imagem ${image.order}:`, uploadError);
+      if (!promotion.success || !promotion.path) {
+        console.error(`❌ [CAROUSEL STORAGE] Erro ao promover imagem ${image.order}:`, promotion.error);
         
         // Limpar uploads já realizados
         if (movedImages.length > 0) {
@@ -227,25 +231,16 @@ export async function moveCarouselToSignedDocuments(
           );
         }
         
-        throw new Error(`Erro ao fazer upload da imagem ${image.order}: ${uploadError.message}`);
+        throw new Error(`Imagem ${image.order}: ${promotion.error}`);
       }
       
       // Adicionar à lista de imagens movidas
       movedImages.push({
         ...image,
-        path: uploadData.path
+        path: promotion.path
       });
       
-      // Deletar do temp-uploads
-      const { error: deleteError } = await supabase.storage
-        .from('temp-uploads')
-        .remove([image.path]);
-      
-      if (deleteError) {
-        console.warn(`⚠️ [CAROUSEL STORAGE] Erro ao deletar imagem ${image.order} de temp-uploads (não crítico):`, deleteError);
-      }
-      
-      console.log(`✅ [CAROUSEL STORAGE] Imagem ${image.order} movida:`, uploadData.path);
+      console.log(`✅ [CAROUSEL STORAGE] Imagem ${image.order} movida:`, promotion.path);
     }
     
     // Atualizar metadados
@@ -0,0 +1,551 @@
+/**
+ * =====================================================
+ * CONTENT CREDENTIALS CONTAINER
+ * =====================================================
+ *
+ * Serialização do manifest store no estilo C2PA (JUMBF, ISO 19566-5) e
+ * inserção/extração nos formatos suportados:
+ *
+ * - JPEG: segmentos APP11 (JPEG XT), logo após APP0/APP1
+ * - PNG: chunk `caBX`, logo após o IHDR
+ * - PDF: atualização incremental com embedded file `/AFRelationship /C2PA_Manifest`
+ *   referenciado em `/AF` do catálogo
+ *
+ * Os bytes do arquivo sem o manifesto (segmentos/chunk removidos ou o PDF
+ * até o início da atualização incremental) são exatamente os bytes que
+ * existiam antes da inserção — é sobre eles que o hash do asset é calculado.
+ *
+ * Diferente do C2PA oficial, claim, assertions e assinatura são caixas
+ * JSON (não CBOR/COSE) e a assinatura usa o formato `VID-SIG-v2`.
+ *
+ * @module ContentCredentialsContainer
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+/** Formatos que aceitam credenciais embutidas */
+export type CredentialsContainerFormat = 'jpeg' | 'png' | 'pdf';
+
+/**
+ * Conteúdo lógico de um manifest store
+ */
+export interface JumbfManifestStore {
+  /** Label do manifesto (ex: "urn:uuid:...") */
+  label: string;
+  assertions: Record<string, unknown>;
+  claim: unknown;
+  signature: unknown;
+}
+
+/**
+ * Manifest store extraído de um arquivo
+ */
+export interface ExtractedManifestStore {
+  /** Bytes JUMBF do manifest store */
+  store: Uint8Array;
+  /** Bytes do arquivo sem o manifesto (base do hash do asset) */
+  assetBytes: Uint8Array<ArrayBuffer>;
+  /** true se o arquivo recebeu dados depois da inserção do manifesto (PDF) */
+  modifiedAfterEmbedding: boolean;
+}
+
+// UUIDs C2PA: <fourcc>-0011-0010-8000-00AA00389B71
+const C2PA_UUID_SUFFIX = [0x00, 0x11, 0x00, 0x10, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+const STORE_TYPE = 'c2pa';
+const MANIFEST_TYPE = 'c2ma';
+const ASSERTION_STORE_TYPE = 'c2as';
+const CLAIM_TYPE = 'c2cl';
+const SIGNATURE_TYPE = 'c2cs';
+const JSON_TYPE = 'json';
+
+const ASSERTION_STORE_LABEL = 'c2pa.assertions';
+const CLAIM_LABEL = 'c2pa.claim';
+const SIGNATURE_LABEL = 'c2pa.signature';
+
+const JPEG_APP11 = 0xeb;
+const JPEG_XT_COMMON_ID = 0x4a50; // "JP"
+const JPEG_BOX_INSTANCE = 1;
+const JPEG_MAX_SEGMENT_LENGTH = 0xffff;
+/** Lp(2) + CI(2) + En(2) + Z(4) + LBox(4) + TBox(4) */
+const JPEG_APP11_OVERHEAD = 18;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_CHUNK_TYPE = 'caBX';
+
+const PDF_UPDATE_MARKER = '\n%VeroID-Content-Credentials 1\n';
+const PDF_MANIFEST_FILE_NAME = 'veroid-manifest.c2pa';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// =====================================================
+// UTILITÁRIOS DE BYTES
+// =====================================================
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32(value: number): Uint8Array {
+  return Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+}
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/** Remove intervalos [start, end) dos bytes */
+function removeRanges(bytes: Uint8Array, ranges: Array<[number, number]>): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  let cursor = 0;
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    parts.push(bytes.subarray(cursor, start));
+    cursor = end;
+  }
+  parts.push(bytes.subarray(cursor));
+  return concatBytes(parts);
+}
+
+/** Texto PDF em latin1 (1 byte por caractere) */
+function latin1Encode(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+}
+
+function latin1Decode(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+/**
+ * Detecta o formato do arquivo pela assinatura (magic bytes)
+ */
+export function detectContainerFormat(bytes: Uint8Array): CredentialsContainerFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return 'png';
+  if (latin1Decode(bytes.subarray(0, 1024)).includes('%PDF-')) return 'pdf';
+  return null;
+}
+
+// =====================================================
+// JUMBF
+// =====================================================
+
+function box(type: string, payload: Uint8Array): Uint8Array {
+  return concatBytes([writeUint32(payload.length + 8), encoder.encode(type), payload]);
+}
+
+function descriptionBox(type: string, label: string): Uint8Array {
+  return box('jumd', concatBytes([
+    encoder.encode(type),
+    Uint8Array.from(C2PA_UUID_SUFFIX),
+    Uint8Array.of(0x03), // requestable + label presente
+    encoder.encode(label),
+    Uint8Array.of(0),
+  ]));
+}
+
+function superBox(type: string, label: string, children: Uint8Array[]): Uint8Array {
+  return box('jumb', concatBytes([descriptionBox(type, label), ...children]));
+}
+
+function jsonBox(type: string, label: string, value: unknown): Uint8Array {
+  return superBox(type, label, [box('json', encoder.encode(JSON.stringify(value)))]);
+}
+
+/**
+ * Serializa o manifest store em JUMBF
+ */
+export function encodeJumbfManifestStore(store: JumbfManifestStore): Uint8Array {
+  const assertionBoxes = Object.entries(store.assertions).map(([label, value]) => jsonBox(JSON_TYPE, label, value));
+
+  return superBox(STORE_TYPE, 'c2pa', [
+    superBox(MANIFEST_TYPE, store.label, [
+      superBox(ASSERTION_STORE_TYPE, ASSERTION_STORE_LABEL, assertionBoxes),
+      jsonBox(CLAIM_TYPE, CLAIM_LABEL, store.claim),
+      jsonBox(SIGNATURE_TYPE, SIGNATURE_LABEL, store.signature),
+    ]),
+  ]);
+}
+
+interface ParsedBox {
+  type: string;
+  payload: Uint8Array;
+}
+
+function parseBoxes(bytes: Uint8Array): ParsedBox[] {
+  const boxes: ParsedBox[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    let length = readUint32(bytes, offset);
+    const type = readFourCC(bytes, offset + 4);
+    let headerLength = 8;
+
+    if (length === 1) {
+      length = readUint32(bytes, offset + 8) * 2 ** 32 + readUint32(bytes, offset + 12);
+      headerLength = 16;
+    } else if (length === 0) {
+      length = bytes.length - offset;
+    }
+
+    if (length < headerLength || offset + length > bytes.length) {
+      throw new Error(`Caixa JUMBF "${type}" com tamanho inválido`);
+    }
+
+    boxes.push({ type, payload: bytes.subarray(offset + headerLength, offset + length) });
+    offset += length;
+  }
+
+  return boxes;
+}
+
+interface ParsedSuperBox {
+  type: string;
+  label: string;
+  children: ParsedBox[];
+}
+
+function parseSuperBox(parsed: ParsedBox): ParsedSuperBox {
+  if (parsed.type !== 'jumb') {
+    throw new Error(`Esperada caixa "jumb", encontrada "${parsed.type}"`);
+  }
+
+  const [description, ...children] = parseBoxes(parsed.payload);
+  if (description?.type !== 'jumd' || description.payload.length < 17) {
+    throw new Error('Caixa JUMBF sem descrição');
+  }
+
+  const toggles = description.payload[16];
+  let label = '';
+  if (toggles & 0x02) {
+    const end = description.payload.indexOf(0, 17);
+    label = decoder.decode(description.payload.subarray(17, end === -1 ? undefined : end));
+  }
+
+  return { type: readFourCC(description.payload, 0), label, children };
+}
+
+function readJsonSuperBox(parsed: ParsedBox): { label: string; value: unknown } {
+  const superbox = parseSuperBox(parsed);
+  const content = superbox.children.find(child => child.type === 'json');
+  if (!content) {
+    throw new Error(`Caixa "${superbox.label}" sem conteúdo JSON`);
+  }
+  return { label: superbox.label, value: JSON.parse(decoder.decode(content.payload)) };
+}
+
+/**
+ * Lê o manifest store JUMBF (usa o último manifesto do store)
+ * @throws Error se a estrutura for inválida
+ */
+export function decodeJumbfManifestStore(bytes: Uint8Array): JumbfManifestStore {
+  const [root] = parseBoxes(bytes);
+  const store = root && parseSuperBox(root);
+  if (!store || store.type !== STORE_TYPE) {
+    throw new Error('Manifest store C2PA não encontrado');
+  }
+
+  const manifests = store.children.filter(child => child.type === 'jumb').map(parseSuperBox);
+  const manifest = manifests.filter(child => child.type === MANIFEST_TYPE).pop();
+  if (!manifest) {
+    throw new Error('Manifest store sem manifesto');
+  }
+
+  const result: JumbfManifestStore = { label: manifest.label, assertions: {}, claim: null, signature: null };
+
+  for (const child of manifest.children) {
+    const superbox = parseSuperBox(child);
+    if (superbox.type === ASSERTION_STORE_TYPE) {
+      for (const assertion of superbox.children) {
+        const { label, value } = readJsonSuperBox(assertion);
+        result.assertions[label] = value;
+      }
+    } else if (superbox.type === CLAIM_TYPE) {
+      result.claim = readJsonSuperBox(child).value;
+    } else if (superbox.type === SIGNATURE_TYPE) {
+      result.signature = readJsonSuperBox(child).value;
+    }
+  }
+
+  return result;
+}
+
+// =====================================================
+// JPEG (APP11 / JPEG XT)
+// =====================================================
+
+function embedInJpeg(bytes: Uint8Array, store: Uint8Array): Uint8Array<ArrayBuffer> {
+  // Insere depois de SOI + APP0 (JFIF) / APP1 (Exif) iniciais
+  let insertAt = 2;
+  while (insertAt + 4 <= bytes.length && bytes[insertAt] === 0xff && (bytes[insertAt + 1] === 0xe0 || bytes[insertAt + 1] === 0xe1)) {
+    insertAt += 2 + ((bytes[insertAt + 2] << 8) | bytes[insertAt + 3]);
+  }
+
+  // A caixa é dividida em pacotes; cada pacote repete LBox/TBox
+  const boxHeader = store.subarray(0, 8);
+  const boxPayload = store.subarray(8);
+  const maxChunk = JPEG_MAX_SEGMENT_LENGTH - JPEG_APP11_OVERHEAD;
+  const segments: Uint8Array[] = [];
+
+  for (let offset = 0, sequence = 1; offset < boxPayload.length || sequence === 1; offset += maxChunk, sequence++) {
+    const chunk = boxPayload.subarray(offset, offset + maxChunk);
+    const segmentLength = JPEG_APP11_OVERHEAD + chunk.length;
+    segments.push(concatBytes([
+      Uint8Array.of(0xff, JPEG_APP11, segmentLength >> 8, segmentLength & 0xff),
+      Uint8Array.of(JPEG_XT_COMMON_ID >> 8, JPEG_XT_COMMON_ID & 0xff, 0, JPEG_BOX_INSTANCE),
+      writeUint32(sequence),
+      boxHeader,
+      chunk,
+    ]));
+  }
+
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+function extractFromJpeg(bytes: Uint8Array): ExtractedManifestStore | null {
+  const packets = new Map<number, Array<{ sequence: number; header: Uint8Array; chunk: Uint8Array }>>();
+  const ranges: Array<[number, number]> = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // SOS / EOI
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segmentEnd = offset + 2 + length;
+
+    if (marker === JPEG_APP11 && length >= JPEG_APP11_OVERHEAD) {
+      const data = bytes.subarray(offset + 4, segmentEnd);
+      const commonId = (data[0] << 8) | data[1];
+      const instance = (data[2] << 8) | data[3];
+      const sequence = readUint32(data, 4);
+      const header = data.subarray(8, 16);
+      const chunk = data.subarray(16);
+
+      const isC2pa = commonId === JPEG_XT_COMMON_ID && readFourCC(header, 4) === 'jumb'
+        && (sequence !== 1 || readFourCC(chunk, 8) === STORE_TYPE);
+
+      if (isC2pa && (sequence === 1 || packets.has(instance))) {
+        if (!packets.has(instance)) packets.set(instance, []);
+        packets.get(instance)!.push({ sequence, header, chunk });
+        ranges.push([offset, segmentEnd]);
+      }
+    }
+
+    offset = segmentEnd;
+  }
+
+  const instance = Array.from(packets.values()).pop();
+  if (!instance) return null;
+
+  instance.sort((a, b) => a.sequence - b.sequence);
+  return {
+    store: concatBytes([instance[0].header, ...instance.map(packet => packet.chunk)]),
+    assetBytes: removeRanges(bytes, ranges),
+    modifiedAfterEmbedding: false,
+  };
+}
+
+// =====================================================
+// PNG (chunk caBX)
+// =====================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function embedInPng(bytes: Uint8Array, store: Uint8Array): Uint8Array<ArrayBuffer> {
+  const ihdrEnd = 8 + 12 + readUint32(bytes, 8);
+  const typeAndData = concatBytes([encoder.encode(PNG_CHUNK_TYPE), store]);
+  const chunk = concatBytes([writeUint32(store.length), typeAndData, writeUint32(crc32(typeAndData))]);
+  return concatBytes([bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)]);
+}
+
+function extractFromPng(bytes: Uint8Array): ExtractedManifestStore | null {
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = readFourCC(bytes, offset + 4);
+    const chunkEnd = offset + 12 + length;
+
+    if (type === PNG_CHUNK_TYPE) {
+      return {
+        store: bytes.slice(offset + 8, offset + 8 + length),
+        assetBytes: removeRanges(bytes, [[offset, chunkEnd]]),
+        modifiedAfterEmbedding: false,
+      };
+    }
+    if (type === 'IEND') break;
+    offset = chunkEnd;
+  }
+  return null;
+}
+
+// =====================================================
+// PDF (atualização incremental)
+// =====================================================
+
+async function embedInPdf(bytes: Uint8Array, store: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const { PDFDocument, PDFName, PDFArray, PDFRef } = await import('pdf-lib');
+  const doc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const { Root: rootRef, Encrypt, Info, ID } = doc.context.trailerInfo;
+
+  if (Encrypt) {
+    throw new Error('PDF criptografado não suporta credenciais embutidas');
+  }
+  if (!(rootRef instanceof PDFRef)) {
+    throw new Error('Catálogo do PDF não encontrado');
+  }
+
+  const text = latin1Decode(bytes);
+  const startxrefMatch = /startxref\s+(\d+)\s*%%EOF\s*$/.exec(text.slice(-1024));
+  if (!startxrefMatch) {
+    throw new Error('startxref não encontrado no PDF');
+  }
+
+  const streamNumber = doc.context.largestObjectNumber + 1;
+  const fileSpecNumber = streamNumber + 1;
+
+  // Catálogo atualizado com /AF apontando para o manifesto
+  const catalog = doc.catalog.clone(doc.context);
+  const associatedFiles = PDFArray.withContext(doc.context);
+  const existing = doc.catalog.lookupMaybe(PDFName.of('AF'), PDFArray);
+  existing?.asArray().forEach(entry => associatedFiles.push(entry));
+  associatedFiles.push(PDFRef.of(fileSpecNumber));
+  catalog.set(PDFName.of('AF'), associatedFiles);
+
+  const parts: Uint8Array[] = [latin1Encode(PDF_UPDATE_MARKER)];
+  const offsets = new Map<number, number>();
+  let position = bytes.length + parts[0].length;
+  const write = (chunk: Uint8Array) => {
+    parts.push(chunk);
+    position += chunk.length;
+  };
+
+  offsets.set(streamNumber, position);
+  write(latin1Encode(
+    `${streamNumber} 0 obj\n<< /Type /EmbeddedFile /Subtype /application#2Fc2pa /Length ${store.length} /Params << /Size ${store.length} >> >>\nstream\n`
+  ));
+  write(store);
+  write(latin1Encode('\nendstream\nendobj\n'));
+
+  offsets.set(fileSpecNumber, position);
+  write(latin1Encode(
+    `${fileSpecNumber} 0 obj\n<< /Type /Filespec /F (${PDF_MANIFEST_FILE_NAME}) /UF (${PDF_MANIFEST_FILE_NAME}) ` +
+    `/Desc (VeroID Content Credentials) /AFRelationship /C2PA_Manifest /EF << /F ${streamNumber} 0 R >> >>\nendobj\n`
+  ));
+
+  offsets.set(rootRef.objectNumber, position);
+  write(latin1Encode(`${rootRef.objectNumber} ${rootRef.generationNumber} obj\n${catalog.toString()}\nendobj\n`));
+
+  // Tabela xref da atualização (uma subseção por objeto)
+  const xrefOffset = position;
+  const entry = (offset: number, generation: number) =>
+    `${String(offset).padStart(10, '0')} ${String(generation).padStart(5, '0')} n\r\n`;
+  const xref = [...offsets.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([objectNumber, offset]) =>
+      `${objectNumber} 1\n${entry(offset, objectNumber === rootRef.objectNumber ? rootRef.generationNumber : 0)}`
+    )
+    .join('');
+
+  const trailer = [
+    `/Size ${fileSpecNumber + 1}`,
+    `/Root ${rootRef.toString()}`,
+    Info ? `/Info ${Info.toString()}` : '',
+    ID ? `/ID ${ID.toString()}` : '',
+    `/Prev ${startxrefMatch[1]}`,
+  ].filter(Boolean).join(' ');
+
+  write(latin1Encode(`xref\n${xref}trailer\n<< ${trailer} >>\nstartxref\n${xrefOffset}\n%%EOF\n`));
+
+  return concatBytes([bytes, ...parts]);
+}
+
+function extractFromPdf(bytes: Uint8Array): ExtractedManifestStore | null {
+  const text = latin1Decode(bytes);
+  const updateStart = text.lastIndexOf(PDF_UPDATE_MARKER);
+  if (updateStart === -1) return null;
+
+  const dictStart = text.indexOf('/Type /EmbeddedFile', updateStart);
+  const lengthMatch = /\/Length (\d+)/.exec(text.slice(dictStart, dictStart + 256));
+  const streamStart = text.indexOf('stream\n', dictStart);
+  if (dictStart === -1 || !lengthMatch || streamStart === -1) {
+    throw new Error('Atualização incremental de credenciais corrompida');
+  }
+
+  const dataStart = streamStart + 'stream\n'.length;
+  const dataEnd = dataStart + Number(lengthMatch[1]);
+  const updateEnd = text.indexOf('%%EOF', dataEnd);
+
+  return {
+    store: bytes.slice(dataStart, dataEnd),
+    assetBytes: bytes.slice(0, updateStart),
+    modifiedAfterEmbedding: updateEnd === -1 || text.slice(updateEnd + 5).trim().length > 0,
+  };
+}
+
+// =====================================================
+// API
+// =====================================================
+
+/**
+ * 📦 Insere o manifest store JUMBF no arquivo
+ */
+export async function embedManifestStore(
+  bytes: Uint8Array,
+  format: CredentialsContainerFormat,
+  store: Uint8Array
+): Promise<Uint8Array<ArrayBuffer>> {
+  switch (format) {
+    case 'jpeg': return embedInJpeg(bytes, store);
+    case 'png': return embedInPng(bytes, store);
+    case 'pdf': return embedInPdf(bytes, store);
+  }
+}
+
+/**
+ * 🔍 Localiza o manifest store JUMBF no arquivo (null se não houver)
+ */
+export function extractManifestStore(
+  bytes: Uint8Array,
+  format: CredentialsContainerFormat
+): ExtractedManifestStore | null {
+  switch (format) {
+    case 'jpeg': return extractFromJpeg(bytes);
+    case 'png': return extractFromPng(bytes);
+    case 'pdf': return extractFromPdf(bytes);
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * =====================================================
+ * CONTENT CREDENTIALS SERVICE
+ * =====================================================
+ *
+ * Credenciais de conteúdo no estilo C2PA para imagens (JPEG/PNG) e PDFs
+ * baixados com marca d'água. O manifesto viaja DENTRO do arquivo e contém:
+ *
+ * - `veroid.certificate`: o certificado (hash, assinatura e chave pública
+ *   do criador gerados no momento da assinatura)
+ * - `c2pa.hash.data`: SHA-256 dos bytes do arquivo sem o manifesto
+ *   (hard binding — qualquer alteração no arquivo invalida a credencial)
+ * - `c2pa.actions`: ações aplicadas (marca d'água do Vero iD)
+ *
+ * O claim referencia o hash de cada assertion e é assinado com a chave do
+ * criador pela Edge Function `content-credentials` (a chave privada nunca
+ * sai do servidor). A leitura valida tudo localmente, sem servidor.
+ *
+ * @module ContentCredentialsService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import {
+  generateFileHash,
+  generateHash,
+  verifyHashSignature,
+  type SignatureStatus,
+} from '@/lib/crypto';
+import { canonicalizeJson } from './verification-manifest';
+import {
+  decodeJumbfManifestStore,
+  detectContainerFormat,
+  embedManifestStore,
+  encodeJumbfManifestStore,
+  extractManifestStore,
+  type CredentialsContainerFormat,
+  type ExtractedManifestStore,
+} from './content-credentials-container';
+
+/** Identificador de versão do formato das credenciais */
+export const CONTENT_CREDENTIALS_VERSION = 'veroid-c2pa/2';
+
+/** Prefixo do payload assinado do claim (separação de domínio das assinaturas) */
+const CLAIM_SIGNING_CONTEXT = 'veroid-c2pa-claim-v1\n';
+
+const CERTIFICATE_ASSERTION = 'veroid.certificate';
+const DATA_HASH_ASSERTION = 'c2pa.hash.data';
+const ACTIONS_ASSERTION = 'c2pa.actions';
+
+/**
+ * Assertion com o certificado de origem
+ */
+export interface CertificateAssertion {
+  certificateId: string;
+  verificationCode: string;
+  creatorName: string;
+  createdAt: string;
+  contentHash: string;
+  signature: string;
+  publicKey: string;
+  keyId: string | null;
+  verifyUrl: string;
+}
+
+/**
+ * Hard binding: hash dos bytes do arquivo sem o manifesto
+ */
+export interface DataHashAssertion {
+  alg: 'sha256';
+  hash: string;
+  length: number;
+  format: CredentialsContainerFormat;
+}
+
+/**
+ * Ações aplicadas ao arquivo
+ */
+export interface ActionsAssertion {
+  actions: Array<{
+    action: string;
+    when: string;
+    softwareAgent: string;
+  }>;
+}
+
+/**
+ * Claim assinado pelo criador
+ */
+export interface ContentCredentialsClaim {
+  version: typeof CONTENT_CREDENTIALS_VERSION;
+  claimGenerator: string;
+  instanceId: string;
+  format: string;
+  createdAt: string;
+  /** Hash SHA-256 (JSON canônico) de cada assertion */
+  assertions: Array<{ label: string; hash: string }>;
+}
+
+/**
+ * Assinatura do claim (`VID-SIG-v2` sobre o SHA-256 do claim canônico)
+ */
+export interface ContentCredentialsSignature {
+  alg: 'ES256';
+  keyId: string | null;
+  publicKey: string;
+  value: string;
+}
+
+/**
+ * Manifesto completo (como retornado pela Edge Function)
+ */
+export interface ContentCredentialsManifest {
+  label: string;
+  claim: ContentCredentialsClaim;
+  assertions: {
+    [CERTIFICATE_ASSERTION]: CertificateAssertion;
+    [DATA_HASH_ASSERTION]: DataHashAssertion;
+    [ACTIONS_ASSERTION]: ActionsAssertion;
+  };
+  signature: ContentCredentialsSignature;
+}
+
+/**
+ * Resultado da leitura e validação das credenciais de um arquivo
+ */
+export interface ContentCredentialsValidation {
+  /** Arquivo contém um manifest store */
+  found: boolean;
+  format: CredentialsContainerFormat | null;
+  manifest: ContentCredentialsManifest | null;
+  /** Assinatura do claim com a chave do criador */
+  claimSignatureStatus: SignatureStatus;
+  /** Assinatura original do certificado (hash do conteúdo) */
+  certificateSignatureStatus: SignatureStatus;
+  /** Assertions conferem com os hashes do claim */
+  assertionsIntact: boolean;
+  /** Bytes do arquivo conferem com o hard binding */
+  assetHashMatches: boolean;
+  valid: boolean;
+  errors: string[];
+}
+
+function emptyValidation(format: CredentialsContainerFormat | null, errors: string[] = []): ContentCredentialsValidation {
+  return {
+    found: false,
+    format,
+    manifest: null,
+    claimSignatureStatus: 'invalid',
+    certificateSignatureStatus: 'invalid',
+    assertionsIntact: false,
+    assetHashMatches: false,
+    valid: false,
+    errors,
+  };
+}
+
+/**
+ * Indica se o formato do arquivo aceita credenciais embutidas
+ */
+export function supportsContentCredentials(mimeType?: string, fileName?: string): boolean {
+  const type = mimeType?.toLowerCase() || '';
+  const ext = fileName?.toLowerCase().split('.').pop() || '';
+  return ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf'].includes(type)
+    || ['jpg', 'jpeg', 'png', 'pdf'].includes(ext);
+}
+
+/**
+ * 🔏 Solicita à Edge Function o manifesto assinado para os bytes do arquivo
+ */
+async function requestManifest(
+  certificateId: string,
+  assetBytes: Uint8Array<ArrayBuffer>,
+  format: CredentialsContainerFormat,
+  mimeType: string
+): Promise<ContentCredentialsManifest> {
+  const assetHash = await generateFileHash(new Blob([assetBytes]));
+
+  const { data, error } = await supabase.functions.invoke('content-credentials', {
+    body: {
+      certificateId,
+      assetHash,
+      assetLength: assetBytes.length,
+      format,
+      mimeType,
+    },
+  });
+
+  if (error || !data?.success) {
+    throw new Error(data?.error || error?.message || 'Erro ao emitir credenciais de conteúdo');
+  }
+
+  return data.manifest as ContentCredentialsManifest;
+}
+
+/**
+ * 📦 Embute credenciais de conteúdo (JPEG, PNG ou PDF)
+ *
+ * @param blob - Arquivo final (já com marca d'água)
+ * @param certificateId - ID do certificado de origem
+ * @returns Novo Blob com o manifesto embutido
+ */
+export async function embedContentCredentials(blob: Blob, certificateId: string): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const format = detectContainerFormat(bytes);
+  if (!format) {
+    throw new Error('Formato de arquivo não suporta credenciais de conteúdo');
+  }
+
+  console.log('🔏 [ContentCredentials] Solicitando manifesto assinado:', { certificateId, format });
+  const manifest = await requestManifest(certificateId, bytes, format, blob.type);
+
+  const store = encodeJumbfManifestStore({
+    label: manifest.label,
+    assertions: manifest.assertions,
+    claim: manifest.claim,
+    signature: manifest.signature,
+  });
+
+  const embedded = await embedManifestStore(bytes, format, store);
+  console.log('✅ [ContentCredentials] Manifesto embutido:', {
+    format,
+    manifestBytes: store.length,
+  });
+
+  return new Blob([embedded], { type: blob.type });
+}
+
+/**
+ * 🔍 Lê e valida as credenciais de conteúdo de um arquivo, sem servidor:
+ * 1. hashes das assertions conferem com o claim
+ * 2. assinatura do claim confere com a chave do certificado
+ * 3. assinatura original do certificado confere
+ * 4. bytes do arquivo (sem o manifesto) conferem com o hard binding
+ */
+export async function readContentCredentials(file: Blob): Promise<ContentCredentialsValidation> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectContainerFormat(bytes);
+  if (!format) {
+    return emptyValidation(null, ['Formato não suportado (use JPEG, PNG ou PDF)']);
+  }
+
+  let manifest: ContentCredentialsManifest;
+  let extracted: ExtractedManifestStore | null;
+  try {
+    extracted = extractManifestStore(bytes, format);
+    if (!extracted) {
+      return emptyValidation(format);
+    }
+    manifest = decodeJumbfManifestStore(extracted.store) as unknown as ContentCredentialsManifest;
+  } catch (error) {
+    console.error('❌ [ContentCredentials] Manifesto ilegível:', error);
+    return { ...emptyValidation(format, ['Manifesto de credenciais corrompido ou ilegível']), found: true };
+  }
+
+  const errors: string[] = [];
+  const { claim, signature } = manifest;
+  const certificate = manifest.assertions?.[CERTIFICATE_ASSERTION];
+  const dataHash = manifest.assertions?.[DATA_HASH_ASSERTION];
+
+  if (claim?.version !== CONTENT_CREDENTIALS_VERSION) {
+    errors.push(`Versão de credenciais não suportada: ${claim?.version}`);
+  }
+  if (!certificate || !dataHash) {
+    errors.push('Manifesto sem as assertions obrigatórias');
+  }
+
+  // 1. Integridade das assertions referenciadas pelo claim
+  let assertionsIntact = Array.isArray(claim?.assertions) && claim.assertions.length > 0;
+  for (const reference of claim?.assertions || []) {
+    const assertion = (manifest.assertions as Record<string, unknown>)[reference.label];
+    if (!assertion || await generateHash(canonicalizeJson(assertion)) !== reference.hash) {
+      assertionsIntact = false;
+    }
+  }
+  if (!assertionsIntact) {
+    errors.push('As assertions não conferem com o claim assinado');
+  }
+
+  // 2. Assinatura do claim com a chave do criador
+  let claimSignatureStatus: SignatureStatus = 'invalid';
+  if (signature?.publicKey && signature.publicKey === certificate?.publicKey) {
+    claimSignatureStatus = await verifyHashSignature(
+      `${CLAIM_SIGNING_CONTEXT}${await generateHash(canonicalizeJson(claim))}`,
+      signature.value,
+      signature.publicKey
+    );
+  }
+  if (claimSignatureStatus !== 'valid') {
+    errors.push('A assinatura do manifesto não confere com a chave do criador');
+  }
+
+  // 3. Assinatura original do certificado
+  const certificateSignatureStatus = certificate
+    ? await verifyHashSignature(certificate.contentHash, certificate.signature, certificate.publicKey)
+    : 'invalid';
+  if (certificateSignatureStatus === 'legacy') {
+    errors.push('Certificado com assinatura no formato legado não pode ser verificado');
+  } else if (certificateSignatureStatus === 'invalid') {
+    errors.push('A assinatura do certificado não confere com a chave pública');
+  }
+
+  // 4. Hard binding
+  const assetHash = await generateFileHash(new Blob([extracted.assetBytes]));
+  const assetHashMatches = !!dataHash
+    && dataHash.format === format
+    && dataHash.length === extracted.assetBytes.length
+    && dataHash.hash === assetHash
+    && !extracted.modifiedAfterEmbedding;
+  if (!assetHashMatches) {
+    errors.push(extracted.modifiedAfterEmbedding
+      ? 'O arquivo recebeu alterações depois da emissão das credenciais'
+      : 'O arquivo foi alterado depois da emissão das credenciais');
+  }
+
+  return {
+    found: true,
+    format,
+    manifest,
+    claimSignatureStatus,
+    certificateSignatureStatus,
+    assertionsIntact,
+    assetHashMatches,
+    valid: errors.length === 0,
+    errors,
+  };
+}
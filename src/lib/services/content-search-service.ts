@@ -0,0 +1,225 @@
+/**
+ * =====================================================
+ * CONTENT SEARCH SERVICE
+ * =====================================================
+ *
+ * Busca paginada dos conteúdos assinados do usuário no servidor
+ * (RPC `search_signed_contents`), substituindo o carregamento
+ * completo + filtro em memória do Dashboard:
+ *
+ * - Busca textual (prefixo) no texto assinado e no nome do arquivo
+ * - Filtros: plataforma, pasta, tipo de arquivo, período e verificações
+ * - Paginação por cursor (valor da ordenação + id), estável durante a rolagem
+ *
+ * @module ContentSearchService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ContentRelationType, RevocationReason, SignedContent } from '@/lib/supabase-crypto';
+
+export type ContentSort = 'recent' | 'oldest' | 'alphabetical' | 'most-verified';
+
+/**
+ * Filtros da busca (todos opcionais)
+ */
+export interface ContentSearchFilters {
+  query?: string;
+  platforms?: string[];
+  /** ID da pasta ou 'none' para conteúdos sem pasta */
+  folderId?: string | 'none';
+  /** Prefixo do MIME type (ex: 'image/', 'application/pdf') */
+  mimeType?: string;
+  /** Limites do período (ISO); dateTo é exclusivo */
+  dateFrom?: string;
+  dateTo?: string;
+  minVerifications?: number;
+  maxVerifications?: number;
+  sort?: ContentSort;
+}
+
+/**
+ * Cursor opaco devolvido pelo servidor
+ */
+export interface ContentSearchCursor {
+  value: string;
+  id: string;
+}
+
+export interface ContentSearchPage {
+  items: SignedContent[];
+  nextCursor: ContentSearchCursor | null;
+  /** Total filtrado (apenas quando solicitado com includeTotal) */
+  total: number | null;
+}
+
+export interface ContentSearchOptions {
+  cursor?: ContentSearchCursor | null;
+  limit?: number;
+  includeTotal?: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 24;
+
+interface SignedContentSearchRow {
+  id: string;
+  user_id: string;
+  content: string;
+  content_hash: string;
+  signature: string;
+  verification_code: string;
+  public_key: string;
+  key_id: string | null;
+  platforms: string[] | null;
+  folder_id: string | null;
+  created_at: string;
+  verification_count: number | null;
+  thumbnail: string | null;
+  creator_name: string;
+  creator_social_links: Record<string, string> | null;
+  file_path: string | null;
+  file_name: string | null;
+  mime_type: string | null;
+  file_size: number | null;
+  file_hash: string | null;
+  perceptual_hash: string | null;
+  storage_bucket: string | null;
+  carousel_metadata: Record<string, unknown> | string | null;
+  total_images: number | null;
+  parent_content_id: string | null;
+  relation_type: string | null;
+  organization_id: string | null;
+  tsa_token: string | null;
+  tsa_url: string | null;
+  tsa_name: string | null;
+  tsa_serial: string | null;
+  tsa_gen_time: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  revocation_note: string | null;
+  disputed_at: string | null;
+  dispute_reason: string | null;
+}
+
+function rowToSignedContent(item: SignedContentSearchRow): SignedContent {
+  // 🎠 Parse carousel_metadata se for string JSON
+  let parsedCarouselMetadata = item.carousel_metadata;
+  if (item.carousel_metadata && typeof item.carousel_metadata === 'string') {
+    try {
+      parsedCarouselMetadata = JSON.parse(item.carousel_metadata);
+    } catch (parseError) {
+      console.error('❌ [ContentSearch] Erro ao parsear carousel_metadata:', parseError);
+    }
+  }
+
+  return {
+    id: item.id,
+    userId: item.user_id,
+    content: item.content,
+    contentHash: item.content_hash,
+    signature: item.signature,
+    verificationCode: item.verification_code,
+    publicKey: item.public_key,
+    keyId: item.key_id || undefined,
+    platforms: item.platforms || [],
+    folderId: item.folder_id || null,
+    createdAt: item.created_at,
+    verificationCount: item.verification_count || 0,
+    thumbnail: item.thumbnail || undefined,
+    creatorName: item.creator_name,
+    creatorSocialLinks: item.creator_social_links || undefined,
+    filePath: item.file_path || undefined,
+    fileName: item.file_name || undefined,
+    mimeType: item.mime_type || undefined,
+    fileSize: item.file_size || undefined,
+    fileHash: item.file_hash || undefined,
+    perceptualHash: item.perceptual_hash || undefined,
+    storageBucket: item.storage_bucket || undefined,
+    carouselMetadata: (parsedCarouselMetadata as Record<string, unknown> | null) || undefined,
+    totalImages: item.total_images || undefined,
+    parentContentId: item.parent_content_id,
+    relationType: item.relation_type as ContentRelationType | null,
+    organizationId: item.organization_id,
+    tsaToken: item.tsa_token,
+    tsaUrl: item.tsa_url,
+    tsaName: item.tsa_name,
+    tsaSerial: item.tsa_serial,
+    tsaGenTime: item.tsa_gen_time,
+    revokedAt: item.revoked_at,
+    revocationReason: item.revocation_reason as RevocationReason | null,
+    revocationNote: item.revocation_note,
+    disputedAt: item.disputed_at,
+    disputeReason: item.dispute_reason,
+  };
+}
+
+/**
+ * 🔎 Busca uma página de conteúdos assinados do usuário autenticado
+ */
+export async function searchSignedContents(
+  filters: ContentSearchFilters,
+  { cursor = null, limit = DEFAULT_PAGE_SIZE, includeTotal = false }: ContentSearchOptions = {}
+): Promise<ContentSearchPage> {
+  const { data, error } = await supabase.rpc('search_signed_contents', {
+    p_query: filters.query?.trim() || null,
+    p_platforms: filters.platforms && filters.platforms.length > 0 ? filters.platforms : null,
+    p_folder_id: filters.folderId && filters.folderId !== 'none' ? filters.folderId : null,
+    p_without_folder: filters.folderId === 'none',
+    p_mime_type: filters.mimeType || null,
+    p_date_from: filters.dateFrom || null,
+    p_date_to: filters.dateTo || null,
+    p_min_verifications: filters.minVerifications ?? null,
+    p_max_verifications: filters.maxVerifications ?? null,
+    p_sort: filters.sort || 'recent',
+    p_cursor_value: cursor?.value ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: limit,
+    p_include_total: includeTotal,
+  });
+
+  if (error) {
+    console.error('❌ [ContentSearch] Erro na busca:', error);
+    throw new Error(error.message);
+  }
+
+  const items = ((data?.items || []) as SignedContentSearchRow[]).map(rowToSignedContent);
+  console.log(`📄 [ContentSearch] ${items.length} conteúdos${data?.next_cursor ? ' (há mais páginas)' : ''}`);
+
+  return {
+    items,
+    nextCursor: data?.next_cursor || null,
+    total: typeof data?.total === 'number' ? data.total : null,
+  };
+}
+
+/**
+ * Total de conteúdos assinados do usuário (sem filtros)
+ */
+export async function countSignedContents(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('signed_contents')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('❌ [ContentSearch] Erro ao contar conteúdos:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Plataformas usadas nos conteúdos do usuário (opções do filtro)
+ */
+export async function getSignedContentPlatforms(): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_signed_content_platforms');
+
+  if (error) {
+    console.error('❌ [ContentSearch] Erro ao buscar plataformas:', error);
+    return [];
+  }
+
+  return (data || []).map((row: { platform: string }) => row.platform);
+}
@@ -0,0 +1,284 @@
+/**
+ * =====================================================
+ * COSIGNING SERVICE
+ * =====================================================
+ *
+ * Co-assinatura de certificados (ex: criador + anunciante em um
+ * post patrocinado):
+ *
+ * - O signatário principal convida outros usuários do Vero iD pelo e-mail,
+ *   informando o papel de cada um
+ * - Cada convidado contra-assina o MESMO content_hash com a própria chave
+ *   (VID-SIG-v2), gerando uma assinatura com data e chave próprias
+ * - O certificado fica "pendente" até todas as contra-assinaturas e cada
+ *   uma é verificada individualmente no certificado e no /verify
+ *
+ * @module CosigningService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import { signHash, verifyHashSignature, type SignatureStatus } from '@/lib/crypto';
+import type { KeyPair } from '@/lib/supabase-crypto';
+import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+
+export type CosignerStatus = 'pending' | 'signed' | 'declined';
+
+/**
+ * Co-signatário de um certificado
+ */
+export interface ContentCosigner {
+  id: string;
+  userId: string;
+  role: string;
+  status: CosignerStatus;
+  signerName: string;
+  signature: string | null;
+  publicKey: string | null;
+  keyId: string | null;
+  signedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Convite pendente recebido pelo usuário
+ */
+export interface CosignRequest {
+  id: string;
+  contentId: string;
+  role: string;
+  createdAt: string;
+  content: string;
+  contentHash: string;
+  verificationCode: string;
+  thumbnail: string | null;
+  inviterName: string;
+}
+
+/**
+ * Estado de co-assinatura do certificado
+ * - single: sem co-signatários
+ * - pending: há convites aguardando contra-assinatura
+ * - complete: todos os convidados assinaram
+ */
+export type CosignState = 'single' | 'pending' | 'complete';
+
+export interface CosignSummary {
+  state: CosignState;
+  signed: number;
+  /** Convites ativos (pendentes + assinados) */
+  total: number;
+}
+
+export interface CosignatureVerification {
+  cosigner: ContentCosigner;
+  /** null = ainda não assinou */
+  signatureStatus: SignatureStatus | null;
+}
+
+export const SUGGESTED_COSIGNER_ROLES = ['Criador', 'Anunciante', 'Marca', 'Agência', 'Coautor'];
+
+interface CosignerRow {
+  id: string;
+  user_id: string;
+  role: string;
+  status: string;
+  signer_name: string | null;
+  signature: string | null;
+  public_key: string | null;
+  key_id: string | null;
+  signed_at: string | null;
+  created_at: string;
+}
+
+interface CosignRequestRow {
+  id: string;
+  content_id: string;
+  role: string;
+  created_at: string;
+  content: string;
+  content_hash: string;
+  verification_code: string;
+  thumbnail: string | null;
+  inviter_name: string;
+}
+
+/**
+ * 👥 Co-signatários de um certificado (leitura pública)
+ */
+export async function getContentCosignatures(contentId: string): Promise<ContentCosigner[]> {
+  const { data, error } = await supabase.rpc('get_content_cosignatures', { p_content_id: contentId });
+
+  if (error) {
+    console.error('❌ [Cosigning] Erro ao buscar co-signatários:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as CosignerRow[]).map(row => ({
+    id: row.id,
+    userId: row.user_id,
+    role: row.role,
+    status: row.status as CosignerStatus,
+    signerName: row.signer_name || 'Usuário Vero iD',
+    signature: row.signature,
+    publicKey: row.public_key,
+    keyId: row.key_id,
+    signedAt: row.signed_at,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Estado do certificado a partir dos co-signatários
+ * (convites recusados não bloqueiam o certificado)
+ */
+export function getCosignSummary(cosigners: ContentCosigner[]): CosignSummary {
+  const active = cosigners.filter(cosigner => cosigner.status !== 'declined');
+  const signed = active.filter(cosigner => cosigner.status === 'signed').length;
+
+  return {
+    state: active.length === 0 ? 'single' : signed === active.length ? 'complete' : 'pending',
+    signed,
+    total: active.length,
+  };
+}
+
+/**
+ * 🔏 Confere cada contra-assinatura com a chave pública do co-signatário
+ */
+export async function verifyCosignatures(
+  contentHash: string,
+  cosigners: ContentCosigner[]
+): Promise<CosignatureVerification[]> {
+  return Promise.all(cosigners.map(async cosigner => ({
+    cosigner,
+    signatureStatus: cosigner.status === 'signed' && cosigner.signature && cosigner.publicKey
+      ? await verifyHashSignature(contentHash, cosigner.signature, cosigner.publicKey)
+      : null,
+  })));
+}
+
+/**
+ * ✉️ Convida um usuário do Vero iD para co-assinar (apenas o dono)
+ */
+export async function inviteCosigner(
+  userId: string,
+  contentId: string,
+  email: string,
+  role: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('invite_cosigner', {
+    p_content_id: contentId,
+    p_email: email.trim(),
+    p_role: role.trim(),
+  });
+
+  if (error) {
+    console.error('❌ [Cosigning] Erro ao convidar co-signatário:', error);
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(AuditAction.COSIGN_INVITED, {
+    success: true,
+    content_id: contentId,
+    role: role.trim(),
+  }, userId).catch(() => undefined);
+
+  return { success: true };
+}
+
+/**
+ * Cancela um convite ainda pendente (apenas o dono)
+ */
+export async function cancelCosigner(cosignerId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('cancel_cosigner', { p_cosigner_id: cosignerId });
+
+  if (error) {
+    console.error('❌ [Cosigning] Erro ao cancelar convite:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * 📥 Convites de co-assinatura pendentes do usuário autenticado
+ */
+export async function getMyCosignRequests(): Promise<CosignRequest[]> {
+  const { data, error } = await supabase.rpc('get_my_cosign_requests');
+
+  if (error) {
+    console.error('❌ [Cosigning] Erro ao buscar convites:', error);
+    return [];
+  }
+
+  return ((data || []) as CosignRequestRow[]).map(row => ({
+    id: row.id,
+    contentId: row.content_id,
+    role: row.role,
+    createdAt: row.created_at,
+    content: row.content,
+    contentHash: row.content_hash,
+    verificationCode: row.verification_code,
+    thumbnail: row.thumbnail,
+    inviterName: row.inviter_name,
+  }));
+}
+
+/**
+ * ✍️ Contra-assina o content_hash com a chave ativa do usuário
+ */
+export async function signCosignRequest(
+  request: CosignRequest,
+  keyPair: KeyPair
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const signature = await signHash(request.contentHash, keyPair.privateKey);
+
+    const { error } = await supabase.rpc('submit_cosignature', {
+      p_cosigner_id: request.id,
+      p_signature: signature,
+      p_public_key: keyPair.publicKey,
+    });
+
+    if (error) {
+      console.error('❌ [Cosigning] Erro ao registrar contra-assinatura:', error);
+      return { success: false, error: error.message };
+    }
+
+    logAuditEvent(AuditAction.COSIGN_SIGNED, {
+      success: true,
+      content_id: request.contentId,
+      role: request.role,
+    }, keyPair.userId).catch(() => undefined);
+
+    console.log('✅ [Cosigning] Contra-assinatura registrada:', request.verificationCode);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ [Cosigning] Erro ao contra-assinar:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' };
+  }
+}
+
+/**
+ * Recusa um convite de co-assinatura
+ */
+export async function declineCosignRequest(
+  userId: string,
+  request: CosignRequest
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('decline_cosign_request', { p_cosigner_id: request.id });
+
+  if (error) {
+    console.error('❌ [Cosigning] Erro ao recusar convite:', error);
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(AuditAction.COSIGN_DECLINED, {
+    success: true,
+    content_id: request.contentId,
+  }, userId).catch(() => undefined);
+
+  return { success: true };
+}
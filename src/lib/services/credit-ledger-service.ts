@@ -0,0 +1,162 @@
+/**
+ * =====================================================
+ * CREDIT LEDGER SERVICE
+ * =====================================================
+ *
+ * Créditos avulsos em lotes com extrato append-only
+ * (migration 20261018_credit_ledger.sql):
+ *
+ * - Cada pacote comprado (ou ajuste do admin) vira um lote com validade
+ * - Todo movimento fica no extrato: grant, consume, expire, refund, adjustment
+ * - O consumo usa primeiro o lote que vence primeiro (FIFO por validade)
+ * - subscriptions.overage_signatures_available é derivado dos lotes
+ *
+ * @module CreditLedgerService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+
+export type CreditEntryType = 'grant' | 'consume' | 'expire' | 'refund' | 'adjustment';
+
+export type CreditLotSource = 'package' | 'admin' | 'migration';
+
+/**
+ * Lote de créditos ainda válido
+ */
+export interface CreditLot {
+  id: string;
+  source: CreditLotSource;
+  description: string;
+  credits_granted: number;
+  credits_remaining: number;
+  granted_at: string;
+  /** null = não expira */
+  expires_at: string | null;
+  stripe_session_id: string | null;
+}
+
+/**
+ * Lançamento do extrato (amount positivo = entrada)
+ */
+export interface CreditLedgerEntry {
+  id: number;
+  entry_type: CreditEntryType;
+  amount: number;
+  balance_after: number;
+  reference: string | null;
+  reason: string | null;
+  created_at: string;
+  lot_id: string | null;
+  lot_description: string | null;
+  actor_name: string | null;
+}
+
+export interface CreditStatement {
+  userId: string;
+  balance: number;
+  lots: CreditLot[];
+  entries: CreditLedgerEntry[];
+  totalEntries: number;
+}
+
+export interface CreditAdjustmentInput {
+  userId: string;
+  /** Positivo concede, negativo retira */
+  amount: number;
+  reason: string;
+  /** ISO; só para concessões. Vazio = não expira */
+  expiresAt?: string | null;
+  idempotencyKey?: string;
+}
+
+export interface CreditAdjustmentResult {
+  success: boolean;
+  balance?: number;
+  alreadyProcessed?: boolean;
+  error?: string;
+}
+
+export const CREDIT_ENTRY_LABELS: Record<CreditEntryType, string> = {
+  grant: 'Compra de pacote',
+  consume: 'Autenticação',
+  expire: 'Expiração',
+  refund: 'Estorno',
+  adjustment: 'Ajuste',
+};
+
+export const CREDIT_SOURCE_LABELS: Record<CreditLotSource, string> = {
+  package: 'Pacote',
+  admin: 'Ajuste administrativo',
+  migration: 'Saldo legado',
+};
+
+/**
+ * 📒 Extrato de créditos
+ *
+ * Sem userId retorna o do usuário autenticado; para outro usuário exige admin.
+ */
+export async function getCreditStatement(
+  userId?: string,
+  limit = 50,
+  offset = 0
+): Promise<CreditStatement | null> {
+  const { data, error } = await supabase.rpc('get_credit_statement', {
+    p_user_id: userId ?? null,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error || !data) {
+    console.error('❌ [CreditLedger] Erro ao carregar extrato:', error);
+    return null;
+  }
+
+  return {
+    userId: data.user_id,
+    balance: Number(data.balance ?? 0),
+    lots: (data.lots ?? []) as CreditLot[],
+    entries: (data.entries ?? []) as CreditLedgerEntry[],
+    totalEntries: Number(data.total_entries ?? 0),
+  };
+}
+
+/**
+ * 🛠️ Ajuste manual de créditos (somente admin)
+ */
+export async function adminAdjustCredits(input: CreditAdjustmentInput): Promise<CreditAdjustmentResult> {
+  const { data, error } = await supabase.rpc('admin_adjust_credits', {
+    p_user_id: input.userId,
+    p_amount: input.amount,
+    p_reason: input.reason,
+    p_expires_at: input.expiresAt || null,
+    p_idempotency_key: input.idempotencyKey ?? null,
+  });
+
+  if (error) {
+    console.error('❌ [CreditLedger] Erro no ajuste de créditos:', error);
+    return { success: false, error: error.message };
+  }
+
+  console.log(`✅ [CreditLedger] Ajuste de ${input.amount} crédito(s) aplicado ao usuário ${input.userId}`);
+
+  await logAuditEvent(AuditAction.ADMIN_ACTION, {
+    success: true,
+    action: 'adjust_credits',
+    targetUserId: input.userId,
+    metadata: {
+      amount: input.amount,
+      reason: input.reason,
+      expiresAt: input.expiresAt || null,
+      balanceAfter: Number(data?.balance ?? 0),
+    },
+  });
+
+  return {
+    success: true,
+    balance: Number(data?.balance ?? 0),
+    alreadyProcessed: data?.already_processed === true,
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * =====================================================
+ * DCT WATERMARK (núcleo da marca d'água invisível)
+ * =====================================================
+ *
+ * Marca d'água no domínio da frequência, resistente a recompressão JPEG
+ * e recortes:
+ *
+ * - A luminância é dividida em blocos 8x8; cada bloco carrega 1 bit por
+ *   QIM (quantization index modulation) em 4 coeficientes DCT de média
+ *   frequência — os mesmos que o JPEG preserva com pouca perda.
+ * - Os blocos formam ladrilhos de 16x24 (384 bits) repetidos por toda a
+ *   imagem: cada bit é gravado dezenas de vezes e a extração soma as
+ *   decisões "suaves" de todas as cópias (espalhamento).
+ * - Cada ladrilho contém 32 bits de sincronismo, que permitem reencontrar
+ *   a grade 8x8 e a posição do ladrilho depois de um recorte arbitrário.
+ * - O payload (versão, código de verificação, ID do certificado, CRC-16)
+ *   é protegido por Reed-Solomon (16 bytes de paridade, corrige 8 bytes).
+ *
+ * Limitação: redimensionamento e rotação não são suportados.
+ *
+ * @module DctWatermark
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { rsDecode, rsEncode } from '@/lib/reed-solomon';
+
+// =====================================================
+// PARÂMETROS
+// =====================================================
+
+const BLOCK_SIZE = 8;
+const TILE_ROWS = 16;
+const TILE_COLS = 24;
+const TILE_BLOCKS = TILE_ROWS * TILE_COLS;
+const SYNC_BITS = 32;
+
+/** Versão do formato do payload */
+const PAYLOAD_VERSION = 1;
+const PAYLOAD_BYTES = 26;
+const CRC_BYTES = 2;
+const RS_PARITY_BYTES = 16;
+const CODEWORD_BITS = (PAYLOAD_BYTES + CRC_BYTES + RS_PARITY_BYTES) * 8;
+
+/** Passo de quantização QIM (maior = mais robusto, menos invisível) */
+const QIM_STEP = 24;
+
+/** Coeficientes DCT (u, v) usados em cada bloco */
+const COEFFICIENTS: Array<[number, number]> = [[1, 1], [1, 2], [2, 1], [2, 2]];
+
+/** Dither por coeficiente: blocos lisos (coeficientes ≈ 0) não geram viés */
+const DITHER = COEFFICIENTS.map((_, k) => (k * QIM_STEP) / COEFFICIENTS.length);
+
+/** Maior lado analisado na extração (recorte central) */
+const MAX_ANALYSIS_SIZE = 1024;
+const MAX_DECODE_CANDIDATES = 8;
+const LAYOUT_SEED = 0x5645524f; // "VERO"
+
+// =====================================================
+// TIPOS
+// =====================================================
+
+/**
+ * Pixels RGBA (compatível com ImageData)
+ */
+export interface RgbaPixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Conteúdo gravado na marca d'água
+ */
+export interface DctWatermarkPayload {
+  verificationCode: string;
+  certificateId?: string | null;
+}
+
+/**
+ * Resultado da leitura da marca d'água
+ */
+export interface DctWatermarkReadResult {
+  verificationCode: string;
+  certificateId: string | null;
+  /** Correlação média do sincronismo (0..1) */
+  confidence: number;
+}
+
+// =====================================================
+// TABELAS PRÉ-CALCULADAS
+// =====================================================
+
+/** Funções-base da DCT 8x8 ortonormal para cada coeficiente usado */
+const BASIS = COEFFICIENTS.map(([u, v]) => {
+  const cu = u === 0 ? Math.SQRT1_2 : 1;
+  const cv = v === 0 ? Math.SQRT1_2 : 1;
+  const basis = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      basis[y * BLOCK_SIZE + x] = 0.25 * cu * cv
+        * Math.cos(((2 * x + 1) * u * Math.PI) / 16)
+        * Math.cos(((2 * y + 1) * v * Math.PI) / 16);
+    }
+  }
+  return basis;
+});
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Disposição fixa do ladrilho: posições de sincronismo (com bits conhecidos)
+ * e posições dos bits da palavra-código, embaralhadas para que um recorte
+ * não apague bytes Reed-Solomon consecutivos
+ */
+const LAYOUT = (() => {
+  const random = mulberry32(LAYOUT_SEED);
+  const positions = Array.from({ length: TILE_BLOCKS }, (_, i) => i);
+  for (let i = positions.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+
+  const syncPositions = positions.slice(0, SYNC_BITS);
+  const syncBits = syncPositions.map(() => (random() < 0.5 ? 0 : 1));
+  const dataPositions = positions.slice(SYNC_BITS, SYNC_BITS + CODEWORD_BITS);
+
+  return { syncPositions, syncBits, dataPositions };
+})();
+
+// =====================================================
+// PAYLOAD
+// =====================================================
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function uuidToBytes(uuid: string): Uint8Array | null {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) return null;
+  return Uint8Array.from(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+}
+
+function bytesToUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Serializa o payload: versão | flags | código (8 ASCII) | UUID (16) | CRC-16,
+ * seguido da paridade Reed-Solomon
+ */
+function encodePayload(payload: DctWatermarkPayload): number[] {
+  const data = new Uint8Array(PAYLOAD_BYTES + CRC_BYTES);
+  const code = payload.verificationCode.slice(0, 8);
+  const idBytes = payload.certificateId ? uuidToBytes(payload.certificateId) : null;
+
+  data[0] = PAYLOAD_VERSION;
+  data[1] = idBytes ? 1 : 0;
+  for (let i = 0; i < code.length; i++) {
+    data[2 + i] = code.charCodeAt(i) & 0x7f;
+  }
+  if (idBytes) data.set(idBytes, 10);
+
+  const crc = crc16(data.subarray(0, PAYLOAD_BYTES));
+  data[PAYLOAD_BYTES] = crc >> 8;
+  data[PAYLOAD_BYTES + 1] = crc & 0xff;
+
+  const codeword = rsEncode(data, RS_PARITY_BYTES);
+  const bits: number[] = [];
+  for (const byte of codeword) {
+    for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
+  }
+  return bits;
+}
+
+function decodePayload(bits: number[]): DctWatermarkPayload | null {
+  const codeword = new Uint8Array(CODEWORD_BITS / 8);
+  bits.forEach((bit, i) => {
+    codeword[i >> 3] |= bit << (7 - (i & 7));
+  });
+
+  let data: Uint8Array;
+  try {
+    data = rsDecode(codeword, RS_PARITY_BYTES);
+  } catch {
+    return null;
+  }
+
+  const crc = (data[PAYLOAD_BYTES] << 8) | data[PAYLOAD_BYTES + 1];
+  if (data[0] !== PAYLOAD_VERSION || crc16(data.subarray(0, PAYLOAD_BYTES)) !== crc) {
+    return null;
+  }
+
+  const verificationCode = String.fromCharCode(...data.subarray(2, 10)).replace(/\0+$/, '');
+  if (!verificationCode) return null;
+
+  return {
+    verificationCode,
+    certificateId: data[1] & 1 ? bytesToUuid(data.subarray(10, 26)) : null,
+  };
+}
+
+// =====================================================
+// DCT / QIM
+// =====================================================
+
+function toLuminance(pixels: RgbaPixels, x0: number, y0: number, width: number, height: number): Float32Array {
+  const lum = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = ((y0 + y) * pixels.width + (x0 + x)) * 4;
+      lum[y * width + x] = 0.299 * pixels.data[i] + 0.587 * pixels.data[i + 1] + 0.114 * pixels.data[i + 2];
+    }
+  }
+  return lum;
+}
+
+function blockCoefficient(lum: Float32Array, stride: number, x0: number, y0: number, k: number): number {
+  const basis = BASIS[k];
+  let sum = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    const row = (y0 + y) * stride + x0;
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      sum += lum[row + x] * basis[y * BLOCK_SIZE + x];
+    }
+  }
+  return sum;
+}
+
+/** Decisão suave do bloco: +1 ≈ bit 0, -1 ≈ bit 1 */
+function blockSoftBit(lum: Float32Array, stride: number, x0: number, y0: number): number {
+  let soft = 0;
+  for (let k = 0; k < COEFFICIENTS.length; k++) {
+    const coefficient = blockCoefficient(lum, stride, x0, y0, k);
+    soft += Math.cos((2 * Math.PI * (coefficient - DITHER[k])) / QIM_STEP);
+  }
+  return soft / COEFFICIENTS.length;
+}
+
+/** Bit (0/1) que cada posição do ladrilho carrega */
+function buildTileBits(payload: DctWatermarkPayload): Uint8Array {
+  const tile = new Uint8Array(TILE_BLOCKS);
+  LAYOUT.syncPositions.forEach((pos, i) => { tile[pos] = LAYOUT.syncBits[i]; });
+  encodePayload(payload).forEach((bit, i) => { tile[LAYOUT.dataPositions[i]] = bit; });
+  return tile;
+}
+
+/**
+ * 🔏 Grava a marca d'água nos pixels (in-place)
+ */
+export function embedDctWatermark(pixels: RgbaPixels, payload: DctWatermarkPayload): void {
+  const { width, height, data } = pixels;
+  const lum = toLuminance(pixels, 0, 0, width, height);
+  const tile = buildTileBits(payload);
+  const delta = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+
+  for (let by = 0; by * BLOCK_SIZE + BLOCK_SIZE <= height; by++) {
+    for (let bx = 0; bx * BLOCK_SIZE + BLOCK_SIZE <= width; bx++) {
+      const x0 = bx * BLOCK_SIZE;
+      const y0 = by * BLOCK_SIZE;
+      const bit = tile[(by % TILE_ROWS) * TILE_COLS + (bx % TILE_COLS)];
+      delta.fill(0);
+
+      for (let k = 0; k < COEFFICIENTS.length; k++) {
+        const coefficient = blockCoefficient(lum, width, x0, y0, k);
+        const offset = DITHER[k] + (bit * QIM_STEP) / 2;
+        const target = Math.round((coefficient - offset) / QIM_STEP) * QIM_STEP + offset;
+        const change = target - coefficient;
+        const basis = BASIS[k];
+        for (let i = 0; i < delta.length; i++) delta[i] += change * basis[i];
+      }
+
+      // Mesma variação em R, G e B altera apenas a luminância
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+          const i = ((y0 + y) * width + (x0 + x)) * 4;
+          const d = delta[y * BLOCK_SIZE + x];
+          data[i] = data[i] + d;
+          data[i + 1] = data[i + 1] + d;
+          data[i + 2] = data[i + 2] + d;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 🔍 Lê a marca d'água dos pixels (tolerante a recorte e recompressão)
+ * Retorna null se nenhuma marca válida for encontrada
+ */
+export function readDctWatermark(pixels: RgbaPixels): DctWatermarkReadResult | null {
+  const width = Math.min(pixels.width, MAX_ANALYSIS_SIZE);
+  const height = Math.min(pixels.height, MAX_ANALYSIS_SIZE);
+  if (width < BLOCK_SIZE * 2 || height < BLOCK_SIZE * 2) return null;
+
+  const lum = toLuminance(
+    pixels,
+    Math.floor((pixels.width - width) / 2),
+    Math.floor((pixels.height - height) / 2),
+    width,
+    height
+  );
+
+  type Candidate = { score: number; averages: Float32Array; ty: number; tx: number };
+  const candidates: Candidate[] = [];
+
+  // Busca a grade 8x8 (ox, oy) e a fase do ladrilho (ty, tx)
+  for (let oy = 0; oy < BLOCK_SIZE; oy++) {
+    for (let ox = 0; ox < BLOCK_SIZE; ox++) {
+      const sums = new Float32Array(TILE_BLOCKS);
+      const counts = new Uint32Array(TILE_BLOCKS);
+
+      for (let by = 0; oy + by * BLOCK_SIZE + BLOCK_SIZE <= height; by++) {
+        for (let bx = 0; ox + bx * BLOCK_SIZE + BLOCK_SIZE <= width; bx++) {
+          const index = (by % TILE_ROWS) * TILE_COLS + (bx % TILE_COLS);
+          sums[index] += blockSoftBit(lum, width, ox + bx * BLOCK_SIZE, oy + by * BLOCK_SIZE);
+          counts[index]++;
+        }
+      }
+
+      const averages = sums.map((sum, i) => (counts[i] ? sum / counts[i] : 0));
+
+      for (let ty = 0; ty < TILE_ROWS; ty++) {
+        for (let tx = 0; tx < TILE_COLS; tx++) {
+          let score = 0;
+          LAYOUT.syncPositions.forEach((pos, i) => {
+            const row = (Math.floor(pos / TILE_COLS) - ty + TILE_ROWS) % TILE_ROWS;
+            const col = ((pos % TILE_COLS) - tx + TILE_COLS) % TILE_COLS;
+            score += (LAYOUT.syncBits[i] ? -1 : 1) * averages[row * TILE_COLS + col];
+          });
+
+          if (candidates.length < MAX_DECODE_CANDIDATES || score > candidates[candidates.length - 1].score) {
+            candidates.push({ score, averages, ty, tx });
+            candidates.sort((a, b) => b.score - a.score);
+            if (candidates.length > MAX_DECODE_CANDIDATES) candidates.pop();
+          }
+        }
+      }
+    }
+  }
+
+  for (const { score, averages, ty, tx } of candidates) {
+    if (score <= 0) break;
+
+    const bits = LAYOUT.dataPositions.map(pos => {
+      const row = (Math.floor(pos / TILE_COLS) - ty + TILE_ROWS) % TILE_ROWS;
+      const col = ((pos % TILE_COLS) - tx + TILE_COLS) % TILE_COLS;
+      return averages[row * TILE_COLS + col] < 0 ? 1 : 0;
+    });
+
+    const payload = decodePayload(bits);
+    if (payload) {
+      return {
+        verificationCode: payload.verificationCode,
+        certificateId: payload.certificateId ?? null,
+        confidence: Math.min(1, score / SYNC_BITS),
+      };
+    }
+  }
+
+  return null;
+}
@@ -64,6 +64,8 @@ export interface SignContentRequest {
   // 🆕 Novos campos opcionais - backward compatible
   carouselMetadata?: CarouselMetadata;
   fileMetadata?: FileMetadata;
+  /** 🏢 Emitir em nome de uma organização (cobrada do pool no INSERT) */
+  organizationId?: string;
 }
 
 /**
@@ -82,6 +84,7 @@ export interface SignContentRequest {
  * @param platforms - Array de plataformas sociais
  * @param fileMetadata - 🆕 Metadados de arquivo (opcional)
  * @param carouselMetadata - 🆕 Metadados de carrossel (opcional)
+ * @param organizationId - 🏢 Organização em nome da qual emitir (opcional)
  * @returns Resultado da assinatura com hash e signature
  */
 export async function signContentViaEdgeFunction(
@@ -92,7 +95,8 @@ export async function signContentViaEdgeFunction(
   platforms?: string[],
   // 🆕 Novos parâmetros opcionais - default undefined = comportamento atual preservado
   fileMetadata?: FileMetadata,
-  carouselMetadata?: CarouselMetadata
+  carouselMetadata?: CarouselMetadata,
+  organizationId?: string
 ): Promise<EdgeFunctionSignResult> {
   const startTime = Date.now();
   
@@ -134,6 +138,7 @@ export async function signContentViaEdgeFunction(
       // 🆕 Adicionar apenas se fornecidos (mantém payload limpo)
       ...(fileMetadata && { fileMetadata }),
       ...(carouselMetadata && { carouselMetadata }),
+      ...(organizationId && { organizationId }),
     };
 
     console.log('📤 [EdgeFunction] Enviando requisição para:', CONFIG.EDGE_FUNCTION_URL);
@@ -0,0 +1,188 @@
+/**
+ * =====================================================
+ * FILE SCAN SERVICE
+ * =====================================================
+ *
+ * Verificação de malware dos arquivos enviados ao temp-uploads:
+ *
+ * - O upload entra automaticamente na fila do servidor (trigger em
+ *   storage.objects, migration 20261018_scan_jobs.sql)
+ * - A Edge Function scan-uploads verifica com VirusTotal ou ClamAV; a
+ *   chave da API nunca chega ao navegador
+ * - Só arquivos com scan_status = 'clean' vão para signed-documents, e a
+ *   cópia é feita no servidor (Edge Function promote-upload) com o mesmo
+ *   hash verificado
+ *
+ * @module FileScanService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ScanStatus } from '@/hooks/useFileScanStatus';
+
+/**
+ * Situação da verificação de um upload
+ */
+export interface UploadScanState {
+  filePath: string;
+  status: ScanStatus;
+  scanner: string | null;
+  threatName: string | null;
+  threatSeverity: string | null;
+  errorMessage: string | null;
+  completedAt: string | null;
+}
+
+interface FileScanRow {
+  file_path: string;
+  scan_status: ScanStatus;
+  scanner: string | null;
+  threat_name: string | null;
+  threat_severity: string | null;
+  error_message: string | null;
+  scan_completed_at: string | null;
+}
+
+const FILE_SCAN_COLUMNS = 'file_path, scan_status, scanner, threat_name, threat_severity, error_message, scan_completed_at';
+const DEFAULT_WAIT_TIMEOUT = 90 * 1000; // 90 segundos
+const DEFAULT_POLL_INTERVAL = 2000; // 2 segundos
+
+function rowToScanState(row: FileScanRow): UploadScanState {
+  return {
+    filePath: row.file_path,
+    status: row.scan_status,
+    scanner: row.scanner,
+    threatName: row.threat_name,
+    threatSeverity: row.threat_severity,
+    errorMessage: row.error_message,
+    completedAt: row.scan_completed_at,
+  };
+}
+
+export function isScanFinished(status: ScanStatus): boolean {
+  return status !== 'pending' && status !== 'scanning';
+}
+
+/**
+ * Mensagem para o usuário quando o arquivo não pode ser promovido
+ */
+export function describeBlockedScan(state: UploadScanState | null): string {
+  if (!state) {
+    return 'O arquivo ainda não passou pela verificação de segurança. Envie o arquivo novamente.';
+  }
+
+  switch (state.status) {
+    case 'infected':
+      return `Arquivo bloqueado: ameaça detectada${state.threatName ? ` (${state.threatName})` : ''}.`;
+    case 'pending':
+    case 'scanning':
+      return 'O arquivo ainda está em verificação de segurança. Tente novamente em instantes.';
+    case 'timeout':
+    case 'error':
+      return 'Não foi possível concluir a verificação de segurança do arquivo. Envie o arquivo novamente.';
+    default:
+      return 'O arquivo não foi liberado pela verificação de segurança.';
+  }
+}
+
+/**
+ * 🔍 Status atual da verificação de um upload (linha do próprio usuário)
+ */
+export async function getUploadScan(tempPath: string): Promise<UploadScanState | null> {
+  const { data, error } = await supabase
+    .from('file_scans')
+    .select(FILE_SCAN_COLUMNS)
+    .eq('file_path', tempPath)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ [FileScan] Erro ao consultar verificação:', error);
+    return null;
+  }
+
+  return data ? rowToScanState(data as FileScanRow) : null;
+}
+
+/**
+ * 🚀 Pede ao servidor para verificar agora o upload (sem esperar o cron)
+ *
+ * Não bloqueia: em caso de falha o job continua na fila do servidor.
+ */
+export async function requestUploadScan(tempPath: string): Promise<UploadScanState | null> {
+  const { data, error } = await supabase.functions.invoke('scan-uploads', {
+    body: { path: tempPath },
+  });
+
+  if (error || !data?.success) {
+    console.warn('⚠️ [FileScan] Verificação imediata indisponível (segue na fila):', error || data?.error);
+    return null;
+  }
+
+  return rowToScanState(data.scan as FileScanRow);
+}
+
+/**
+ * ⏳ Aguarda o resultado da verificação (ou o tempo limite)
+ */
+export async function waitForUploadScan(
+  tempPath: string,
+  options: { timeout?: number; pollInterval?: number } = {}
+): Promise<UploadScanState | null> {
+  const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const deadline = Date.now() + timeout;
+
+  let state = await requestUploadScan(tempPath) ?? await getUploadScan(tempPath);
+
+  while ((!state || !isScanFinished(state.status)) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, pollInterval));
+    state = await getUploadScan(tempPath);
+  }
+
+  return state;
+}
+
+/**
+ * 🛡️ Copia um upload verificado para signed-documents (Edge Function
+ * promote-upload, com a service_role)
+ *
+ * O servidor exige scan 'clean', confere que os bytes têm o hash verificado
+ * e consome a promoção; o cliente não grava em signed-documents.
+ */
+export async function promoteUpload(
+  tempPath: string,
+  signedPath: string
+): Promise<{ success: boolean; path?: string; fileSize?: number; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('promote-upload', {
+    body: { tempPath, signedPath },
+  });
+
+  if (error || !data?.success) {
+    const message = data?.error || error?.message || 'Não foi possível promover o arquivo';
+    console.error('❌ [FileScan] promote-upload falhou:', message);
+    return { success: false, error: message };
+  }
+
+  return { success: true, path: data.path as string, fileSize: Number(data.fileSize ?? 0) };
+}
+
+/**
+ * Aguarda o scan e promove o arquivo; scan diferente de 'clean' não sai
+ * do temp-uploads
+ */
+export async function promoteScannedUpload(
+  tempPath: string,
+  signedPath: string,
+  options: { timeout?: number } = {}
+): Promise<{ success: boolean; scan?: UploadScanState | null; path?: string; error?: string }> {
+  const scan = await waitForUploadScan(tempPath, { timeout: options.timeout });
+
+  if (!scan || scan.status !== 'clean') {
+    console.warn('🚫 [FileScan] Promoção recusada:', { tempPath, status: scan?.status ?? 'sem registro' });
+    return { success: false, scan, error: describeBlockedScan(scan) };
+  }
+
+  const promoted = await promoteUpload(tempPath, signedPath);
+  return { ...promoted, scan };
+}
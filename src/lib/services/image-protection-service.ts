@@ -4,15 +4,18 @@
  * =====================================================
  * 
  * Serviço para adicionar proteções em imagens:
- * - Marca d'água invisível (metadados EXIF)
+ * - Marca d'água invisível no domínio DCT (resiste a recompressão e recorte)
+ * - Extração da marca d'água de imagens republicadas
  * - Proteção contra clique direito
- * - Marca d'água esteganográfica (opcional)
  * 
  * @author VeroID Security Team
- * @version 1.0.0
+ * @version 2.0.0
  * @date 2026-05-21
+ * @updated 2026-10-18 - Marca d'água DCT/QIM com Reed-Solomon + extração
  */
 
+import { embedDctWatermark, readDctWatermark } from './dct-watermark';
+
 /**
  * Informações para marca d'água invisível
  */
@@ -34,14 +37,30 @@ export interface InvisibleWatermarkInfo {
 }
 
 /**
- * Adiciona metadados EXIF invisíveis na imagem
+ * Marca d'água recuperada de uma imagem
+ */
+export interface ExtractedWatermark {
+  /** Código do certificado */
+  verificationCode: string;
+  
+  /** ID do certificado (null se a imagem foi marcada sem UUID) */
+  certificateId: string | null;
+  
+  /** Confiança da leitura (0..1) */
+  confidence: number;
+}
+
+/**
+ * Adiciona marca d'água invisível na imagem
  * 
- * NOTA: Metadados EXIF podem ser facilmente removidos com ferramentas.
- * Esta é uma proteção básica, não infalível.
+ * O código de verificação e o ID do certificado são gravados nos
+ * coeficientes DCT da luminância, repetidos por toda a imagem e
+ * protegidos por Reed-Solomon (ver `dct-watermark.ts`). A marca resiste
+ * a recompressão JPEG e recortes, mas não a redimensionamento.
  * 
  * @param imageBlob - Blob da imagem
  * @param metadata - Metadados para adicionar
- * @returns Promise<Blob> - Imagem com metadados
+ * @returns Promise<Blob> - Imagem com marca d'água
  */
 export async function addInvisibleWatermark(
   imageBlob: Blob,
@@ -67,33 +86,16 @@ export async function addInvisibleWatermark(
     // Desenha a imagem original
     ctx.drawImage(img, 0, 0);
     
-    // Adiciona pixels invisíveis com informações codificadas
-    // (esteganografia básica - altera o bit menos significativo de alguns pixels)
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    // Codifica o código de verificação nos primeiros pixels
-    const message = `VEROID:${metadata.verificationCode}:${metadata.certificateId}`;
-    const messageBytes = new TextEncoder().encode(message);
-    
-    // Limita a 100 bytes para não afetar visualmente a imagem
-    const maxBytes = Math.min(messageBytes.length, 100);
-    
-    for (let i = 0; i < maxBytes; i++) {
-      const byte = messageBytes[i];
-      const pixelIndex = i * 4; // Cada pixel tem 4 valores (RGBA)
-      
-      // Modifica o bit menos significativo do canal vermelho
-      if (pixelIndex < data.length) {
-        data[pixelIndex] = (data[pixelIndex] & 0xFE) | ((byte >> 7) & 1);
-      }
-    }
-    
+    embedDctWatermark(imageData, {
+      verificationCode: metadata.verificationCode,
+      certificateId: metadata.certificateId,
+    });
     ctx.putImageData(imageData, 0, 0);
     
     console.log('✅ [Image Protection] Marca d\'água invisível adicionada:', {
-      messageLength: message.length,
-      bytesEmbedded: maxBytes,
+      width: canvas.width,
+      height: canvas.height,
     });
     
     // Converte canvas para blob
@@ -118,6 +120,40 @@ export async function addInvisibleWatermark(
   }
 }
 
+/**
+ * Recupera a marca d'água invisível de uma imagem (ex: repostada em rede social)
+ * 
+ * @param imageBlob - Blob da imagem encontrada
+ * @returns Promise<ExtractedWatermark | null> - null se nenhuma marca for encontrada
+ */
+export async function extractInvisibleWatermark(imageBlob: Blob): Promise<ExtractedWatermark | null> {
+  console.log('🔍 [Image Protection] Procurando marca d\'água invisível...', {
+    sizeKB: (imageBlob.size / 1024).toFixed(2),
+    type: imageBlob.type,
+  });
+  
+  const img = await createImageFromBlob(imageBlob);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Falha ao obter contexto 2D');
+  }
+  
+  ctx.drawImage(img, 0, 0);
+  const result = readDctWatermark(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  
+  if (result) {
+    console.log('✅ [Image Protection] Marca d\'água encontrada:', result);
+  } else {
+    console.log('ℹ️ [Image Protection] Nenhuma marca d\'água encontrada');
+  }
+  
+  return result;
+}
+
 /**
  * Cria elemento de imagem a partir de um Blob
  */
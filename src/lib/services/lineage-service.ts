@@ -0,0 +1,178 @@
+/**
+ * =====================================================
+ * LINEAGE SERVICE
+ * =====================================================
+ *
+ * Linhagem de certificados (obras derivadas):
+ *
+ * - Um certificado pode declarar, ao ser assinado, o certificado de
+ *   origem (`parent_content_id`) e o tipo da relação
+ * - A origem também entra no texto assinado ("Derivado de: ..."), então
+ *   a relação fica coberta pela assinatura
+ * - `get_content_lineage` devolve ancestrais e descendentes para o grafo
+ *   do certificado e para a mensagem "revisão N do certificado X"
+ *
+ * @module LineageService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ContentRelationType } from '@/lib/supabase-crypto';
+
+export type { ContentRelationType };
+
+/**
+ * Origem informada no momento da assinatura
+ */
+export interface ContentLineageInput {
+  parentContentId: string;
+  relationType: ContentRelationType;
+  /** Código de verificação do pai (incluído no texto assinado) */
+  parentVerificationCode: string;
+}
+
+/**
+ * Nó do grafo de linhagem
+ * depth < 0 = ancestrais (-1 = pai), 0 = certificado atual, > 0 = descendentes
+ */
+export interface LineageNode {
+  id: string;
+  parentContentId: string | null;
+  relationType: ContentRelationType | null;
+  depth: number;
+  verificationCode: string;
+  creatorName: string;
+  fileName: string | null;
+  thumbnail: string | null;
+  createdAt: string;
+}
+
+export interface ContentLineage {
+  /** Do mais antigo ao pai direto */
+  ancestors: LineageNode[];
+  current: LineageNode | null;
+  /** Ordenados por profundidade e data */
+  descendants: LineageNode[];
+}
+
+/**
+ * Resumo da cadeia de revisões ("revisão 3 do certificado X")
+ */
+export interface RevisionSummary {
+  /** 1 = original; 2+ = revisões sucessivas */
+  revisionNumber: number;
+  /** Primeiro certificado da cadeia de revisões */
+  original: LineageNode;
+}
+
+export const RELATION_LABELS: Record<ContentRelationType, string> = {
+  revision: 'Revisão',
+  crop: 'Recorte',
+  translation: 'Tradução',
+  remix: 'Remix',
+};
+
+export const RELATION_DESCRIPTIONS: Record<ContentRelationType, string> = {
+  revision: 'Nova versão editada do mesmo conteúdo',
+  crop: 'Recorte ou redimensionamento do original',
+  translation: 'Tradução, dublagem ou legendagem',
+  remix: 'Obra nova criada a partir do conteúdo (pode ser de outro criador)',
+};
+
+interface LineageRow {
+  id: string;
+  parent_content_id: string | null;
+  relation_type: string | null;
+  depth: number;
+  verification_code: string;
+  creator_name: string;
+  file_name: string | null;
+  thumbnail: string | null;
+  created_at: string;
+}
+
+/**
+ * Linha incluída no texto assinado de uma obra derivada
+ */
+export function buildLineageContentLine(lineage: ContentLineageInput): string {
+  return `Derivado de: ${lineage.parentVerificationCode} (${RELATION_LABELS[lineage.relationType]})`;
+}
+
+/**
+ * 🌳 Busca ancestrais e descendentes de um certificado
+ */
+export async function getContentLineage(contentId: string): Promise<ContentLineage> {
+  const { data, error } = await supabase.rpc('get_content_lineage', { p_content_id: contentId });
+
+  if (error) {
+    console.error('❌ [Lineage] Erro ao buscar linhagem:', error);
+    throw new Error(error.message);
+  }
+
+  const nodes: LineageNode[] = ((data || []) as LineageRow[]).map(row => ({
+    id: row.id,
+    parentContentId: row.parent_content_id,
+    relationType: row.relation_type as ContentRelationType | null,
+    depth: row.depth,
+    verificationCode: row.verification_code,
+    creatorName: row.creator_name,
+    fileName: row.file_name,
+    thumbnail: row.thumbnail,
+    createdAt: row.created_at,
+  }));
+
+  return {
+    ancestors: nodes.filter(node => node.depth < 0),
+    current: nodes.find(node => node.depth === 0) || null,
+    descendants: nodes.filter(node => node.depth > 0),
+  };
+}
+
+/**
+ * 🔗 Registra a origem de um certificado recém-assinado
+ * (apenas o dono, uma única vez — validado no banco)
+ */
+export async function linkContentToParent(
+  contentId: string,
+  lineage: ContentLineageInput
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('link_content_to_parent', {
+    p_content_id: contentId,
+    p_parent_content_id: lineage.parentContentId,
+    p_relation_type: lineage.relationType,
+  });
+
+  if (error) {
+    console.error('❌ [Lineage] Erro ao registrar origem:', error);
+    return { success: false, error: error.message };
+  }
+
+  console.log('🌳 [Lineage] Origem registrada:', contentId, '→', lineage.parentContentId);
+  return { success: true };
+}
+
+/**
+ * Número da revisão: sobe pelos ancestrais enquanto a relação for "revision"
+ * @returns null se o certificado não for uma revisão
+ */
+export function getRevisionSummary(lineage: ContentLineage): RevisionSummary | null {
+  const { current } = lineage;
+  if (!current || current.relationType !== 'revision') return null;
+
+  // Ancestrais do pai direto (-1) para o mais antigo
+  const chain = [...lineage.ancestors].sort((a, b) => b.depth - a.depth);
+
+  let revisionNumber = 1;
+  let node: LineageNode = current;
+  for (const ancestor of chain) {
+    if (node.relationType !== 'revision' || ancestor.id !== node.parentContentId) break;
+    revisionNumber++;
+    node = ancestor;
+  }
+
+  // Pai excluído (parent_content_id nulo) interrompe a cadeia
+  if (node === current) return null;
+
+  return { revisionNumber, original: node };
+}
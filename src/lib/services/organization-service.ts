@@ -0,0 +1,521 @@
+/**
+ * =====================================================
+ * ORGANIZATION SERVICE
+ * =====================================================
+ *
+ * Workspaces de agências e marcas
+ * (migration 20261018_organizations.sql):
+ *
+ * - Organizações com membros e papéis (owner, admin, signer, viewer)
+ * - Convites por e-mail (Edge Function organization-invite)
+ * - Certificados emitidos "em nome de" uma organização: o signatário
+ *   continua sendo o membro (user_id); organization_id registra a marca
+ * - Pastas compartilhadas (certificate_folders.organization_id)
+ * - Pool de créditos: assinaturas em nome da organização consomem o
+ *   plano e os créditos avulsos do dono
+ *
+ * @module OrganizationService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+import type { SignatureStatus } from '@/hooks/useSubscription';
+
+export type OrganizationRole = 'owner' | 'admin' | 'signer' | 'viewer';
+
+export type InvitableRole = Exclude<OrganizationRole, 'owner'>;
+
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+  slug: string;
+  logo_url: string | null;
+  role: OrganizationRole;
+  member_count: number;
+  joined_at: string;
+}
+
+export interface OrganizationProfile {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  website: string | null;
+  logo_url: string | null;
+  owner_id: string;
+  created_at: string;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  name: string;
+  /** Visível apenas para owner/admin */
+  email: string | null;
+  role: OrganizationRole;
+  joined_at: string;
+  signatures_30d: number;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: InvitableRole;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface OrganizationFolder {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  content_count: number;
+}
+
+export interface OrganizationWorkspace {
+  organization: OrganizationProfile;
+  my_role: OrganizationRole;
+  members: OrganizationMember[];
+  invitations: OrganizationInvitation[];
+  folders: OrganizationFolder[];
+  usage_30d: number;
+}
+
+export interface OrganizationContent {
+  id: string;
+  verification_code: string;
+  content: string;
+  thumbnail: string | null;
+  creator_name: string;
+  signer_id: string;
+  folder_id: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface MyOrganizationInvitation {
+  id: string;
+  organization_id: string;
+  organization_name: string;
+  organization_slug: string;
+  role: InvitableRole;
+  inviter_name: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface PublicOrganizationProfile {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  website: string | null;
+  logo_url: string | null;
+  created_at: string;
+  member_count: number;
+  certificate_count: number;
+}
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Dono',
+  admin: 'Administrador',
+  signer: 'Signatário',
+  viewer: 'Leitor',
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Controle total; o pool de créditos usa o plano dele',
+  admin: 'Gerencia membros, convites, pastas e o perfil',
+  signer: 'Assina em nome da organização e organiza certificados',
+  viewer: 'Acompanha os certificados do workspace',
+};
+
+/** Papéis que podem assinar em nome da organização */
+export const SIGNING_ROLES: OrganizationRole[] = ['owner', 'admin', 'signer'];
+
+export function canSignForOrganization(role: OrganizationRole): boolean {
+  return SIGNING_ROLES.includes(role);
+}
+
+export function canManageOrganization(role: OrganizationRole): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Endereço sugerido a partir do nome ("Agência Aurora" → "agencia-aurora")
+ */
+export function slugifyOrganizationName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/g, '');
+}
+
+export const ORGANIZATION_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * 🏢 Organizações do usuário autenticado
+ */
+export async function getMyOrganizations(): Promise<OrganizationSummary[]> {
+  const { data, error } = await supabase.rpc('get_my_organizations');
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao listar organizações:', error);
+    return [];
+  }
+
+  return (data ?? []) as OrganizationSummary[];
+}
+
+/**
+ * ➕ Cria uma organização (o usuário vira o dono)
+ */
+export async function createOrganization(input: {
+  name: string;
+  slug: string;
+  description?: string;
+  website?: string;
+}): Promise<{ success: boolean; organizationId?: string; error?: string }> {
+  const { data, error } = await supabase.rpc('create_organization', {
+    p_name: input.name,
+    p_slug: input.slug,
+    p_description: input.description || null,
+    p_website: input.website || null,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao criar organização:', error);
+    return { success: false, error: error.message };
+  }
+
+  console.log('🏢 [Organizations] Organização criada:', data);
+  logAuditEvent(AuditAction.ORGANIZATION_CREATED, {
+    success: true,
+    organization_id: data as string,
+    slug: input.slug,
+  }).catch(() => undefined);
+
+  return { success: true, organizationId: data as string };
+}
+
+/**
+ * ✏️ Atualiza o perfil público (owner/admin)
+ */
+export async function updateOrganization(
+  organizationId: string,
+  input: { name: string; description?: string; website?: string; logoUrl?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('update_organization', {
+    p_organization_id: organizationId,
+    p_name: input.name,
+    p_description: input.description || null,
+    p_website: input.website || null,
+    p_logo_url: input.logoUrl || null,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao atualizar organização:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * 🗂️ Workspace: perfil, membros, convites, pastas e uso do pool
+ */
+export async function getOrganizationWorkspace(organizationId: string): Promise<OrganizationWorkspace | null> {
+  const { data, error } = await supabase.rpc('get_organization_workspace', {
+    p_organization_id: organizationId,
+  });
+
+  if (error || !data) {
+    console.error('❌ [Organizations] Erro ao carregar workspace:', error);
+    return null;
+  }
+
+  const workspace = data as OrganizationWorkspace;
+  return {
+    ...workspace,
+    members: workspace.members ?? [],
+    invitations: workspace.invitations ?? [],
+    folders: workspace.folders ?? [],
+    usage_30d: Number(workspace.usage_30d ?? 0),
+  };
+}
+
+/**
+ * 📄 Certificados emitidos em nome da organização
+ */
+export async function getOrganizationContents(
+  organizationId: string,
+  folderId: string | null = null,
+  limit = 24,
+  offset = 0
+): Promise<{ items: OrganizationContent[]; total: number }> {
+  const { data, error } = await supabase.rpc('get_organization_contents', {
+    p_organization_id: organizationId,
+    p_folder_id: folderId,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao listar certificados:', error);
+    return { items: [], total: 0 };
+  }
+
+  return {
+    items: (data?.items ?? []) as OrganizationContent[],
+    total: Number(data?.total ?? 0),
+  };
+}
+
+/**
+ * ✉️ Convida um e-mail (cria o convite e envia o e-mail)
+ */
+export async function inviteOrganizationMember(
+  organizationId: string,
+  email: string,
+  role: InvitableRole
+): Promise<{ success: boolean; emailSent?: boolean; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('organization-invite', {
+    body: { organizationId, email: email.trim(), role },
+  });
+
+  if (error || !data?.success) {
+    const message = data?.error || error?.message || 'Não foi possível enviar o convite';
+    console.error('❌ [Organizations] Erro ao convidar:', message);
+    return { success: false, error: message };
+  }
+
+  logAuditEvent(AuditAction.ORGANIZATION_MEMBER_INVITED, {
+    success: true,
+    organization_id: organizationId,
+    email: email.trim().toLowerCase(),
+    role,
+  }).catch(() => undefined);
+
+  return { success: true, emailSent: data.emailSent === true };
+}
+
+export async function revokeOrganizationInvitation(invitationId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('revoke_organization_invitation', { p_invitation_id: invitationId });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao revogar convite:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * 📬 Convites pendentes para o e-mail do usuário autenticado
+ */
+export async function getMyOrganizationInvitations(): Promise<MyOrganizationInvitation[]> {
+  const { data, error } = await supabase.rpc('get_my_organization_invitations');
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao buscar convites:', error);
+    return [];
+  }
+
+  return (data ?? []) as MyOrganizationInvitation[];
+}
+
+export async function respondOrganizationInvitation(
+  invitationId: string,
+  accept: boolean
+): Promise<{ success: boolean; organizationId?: string; error?: string }> {
+  const { data, error } = await supabase.rpc('respond_organization_invitation', {
+    p_invitation_id: invitationId,
+    p_accept: accept,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao responder convite:', error);
+    return { success: false, error: error.message };
+  }
+
+  console.log(`${accept ? '✅' : '🚫'} [Organizations] Convite ${accept ? 'aceito' : 'recusado'}:`, invitationId);
+  return { success: true, organizationId: data as string };
+}
+
+export async function updateOrganizationMemberRole(
+  organizationId: string,
+  userId: string,
+  role: InvitableRole
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('update_organization_member_role', {
+    p_organization_id: organizationId,
+    p_user_id: userId,
+    p_role: role,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao alterar papel:', error);
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(AuditAction.ORGANIZATION_MEMBER_ROLE_CHANGED, {
+    success: true,
+    organization_id: organizationId,
+    member_id: userId,
+    role,
+  }).catch(() => undefined);
+
+  return { success: true };
+}
+
+/**
+ * Remove um membro; com o próprio userId, sai da organização
+ */
+export async function removeOrganizationMember(
+  organizationId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('remove_organization_member', {
+    p_organization_id: organizationId,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao remover membro:', error);
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(AuditAction.ORGANIZATION_MEMBER_REMOVED, {
+    success: true,
+    organization_id: organizationId,
+    member_id: userId,
+  }).catch(() => undefined);
+
+  return { success: true };
+}
+
+/**
+ * 📁 Cria uma pasta compartilhada (owner/admin)
+ */
+export async function createOrganizationFolder(
+  organizationId: string,
+  userId: string,
+  name: string
+): Promise<{ success: boolean; error?: string }> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { success: false, error: 'Nome da pasta é obrigatório' };
+  }
+  if (trimmed.length > 100) {
+    return { success: false, error: 'Nome da pasta muito longo (máximo 100 caracteres)' };
+  }
+
+  const { error } = await supabase
+    .from('certificate_folders')
+    .insert({
+      user_id: userId,
+      organization_id: organizationId,
+      name: trimmed,
+      parent_folder_id: null,
+      color: '#8B5CF6',
+      icon: '🏢',
+      position: 0,
+    });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao criar pasta compartilhada:', error);
+    if (error.code === '23505') {
+      return { success: false, error: 'Já existe uma pasta com este nome' };
+    }
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Move um certificado da organização para uma pasta compartilhada
+ * (folderId null = remove da pasta)
+ */
+export async function moveOrganizationContent(
+  contentId: string,
+  folderId: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('move_organization_content', {
+    p_content_id: contentId,
+    p_folder_id: folderId,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao mover certificado:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * 🪙 Autenticações disponíveis no pool da organização
+ */
+export async function getOrganizationSignatureStatus(organizationId: string): Promise<SignatureStatus | null> {
+  const { data, error } = await supabase.rpc('get_organization_signature_status', {
+    p_organization_id: organizationId,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao buscar pool de créditos:', error);
+    return null;
+  }
+
+  const rows = Array.isArray(data) ? data : [data];
+  return (rows[0] ?? null) as SignatureStatus | null;
+}
+
+/**
+ * Registra a organização de um certificado pessoal já emitido
+ */
+export async function assignContentToOrganization(
+  contentId: string,
+  organizationId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('assign_content_to_organization', {
+    p_content_id: contentId,
+    p_organization_id: organizationId,
+  });
+
+  if (error) {
+    console.error('❌ [Organizations] Erro ao registrar organização do certificado:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * 🌐 Perfil público (exibido no certificado)
+ */
+export async function getPublicOrganizationProfile(organizationId: string): Promise<PublicOrganizationProfile | null> {
+  const { data, error } = await supabase.rpc('get_public_organization_profile', {
+    p_organization_id: organizationId,
+  });
+
+  if (error || !data) {
+    if (error) console.error('❌ [Organizations] Erro ao carregar perfil público:', error);
+    return null;
+  }
+
+  return data as PublicOrganizationProfile;
+}
+
+/**
+ * Linha incluída no texto assinado ("Em nome de: ...")
+ */
+export function buildOrganizationContentLine(organizationName: string): string {
+  return `Em nome de: ${organizationName}`;
+}
@@ -0,0 +1,278 @@
+/**
+ * =====================================================
+ * PERCEPTUAL HASH SERVICE
+ * =====================================================
+ *
+ * Hashes perceptuais (64 bits) para localizar certificados de imagens
+ * quase idênticas — cópias redimensionadas, recomprimidas ou com pequenas
+ * edições, cujo SHA-256 já não confere:
+ *
+ * - pHash: DCT 32x32 da luminância, 8x8 coeficientes de baixa frequência
+ *   comparados com a mediana
+ * - dHash: gradiente horizontal em uma grade 9x8
+ *
+ * A semelhança é medida pela distância de Hamming (0 = idêntico, 64 = oposto).
+ * Os hashes são gravados em `image_perceptual_hashes` (um registro por imagem,
+ * inclusive cada imagem de carrossel) e consultados pela RPC
+ * `find_similar_images`.
+ *
+ * @module PerceptualHashService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+
+const PHASH_SIZE = 32;
+const PHASH_LOW_FREQ = 8;
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/** Distância de Hamming máxima (pHash) para considerar imagens semelhantes */
+export const DEFAULT_MAX_HAMMING_DISTANCE = 12;
+
+/**
+ * Hashes perceptuais de uma imagem (hex, 16 caracteres)
+ */
+export interface PerceptualHashes {
+  phash: string;
+  dhash: string;
+}
+
+/**
+ * Certificado candidato encontrado por semelhança de imagem
+ */
+export interface SimilarCertificateMatch {
+  contentId: string;
+  verificationCode: string;
+  creatorName: string;
+  thumbnail: string | null;
+  createdAt: string;
+  /** Índice da imagem no certificado (0 = thumbnail principal, 1..n = carrossel) */
+  imageIndex: number;
+  phashDistance: number;
+  dhashDistance: number;
+  /** Semelhança estimada (0..1) a partir da distância do pHash */
+  similarity: number;
+}
+
+// =====================================================
+// CÁLCULO DOS HASHES
+// =====================================================
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Calcula o pHash a partir da luminância 32x32
+ */
+export function computePHash(gray: Float32Array): string {
+  const n = PHASH_SIZE;
+  const cosTable = new Float32Array(PHASH_LOW_FREQ * n);
+  for (let u = 0; u < PHASH_LOW_FREQ; u++) {
+    for (let x = 0; x < n; x++) {
+      cosTable[u * n + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n));
+    }
+  }
+
+  // DCT separável: apenas os 8x8 coeficientes de baixa frequência
+  const rows = new Float32Array(n * PHASH_LOW_FREQ);
+  for (let y = 0; y < n; y++) {
+    for (let u = 0; u < PHASH_LOW_FREQ; u++) {
+      let sum = 0;
+      for (let x = 0; x < n; x++) sum += gray[y * n + x] * cosTable[u * n + x];
+      rows[y * PHASH_LOW_FREQ + u] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < PHASH_LOW_FREQ; v++) {
+    for (let u = 0; u < PHASH_LOW_FREQ; u++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) sum += rows[y * PHASH_LOW_FREQ + u] * cosTable[v * n + y];
+      coefficients.push(sum);
+    }
+  }
+
+  // Mediana sem o componente DC (brilho médio)
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  return bitsToHex(coefficients.map(c => c > median));
+}
+
+/**
+ * Calcula o dHash a partir da luminância 9x8
+ */
+export function computeDHash(gray: Float32Array): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      bits.push(gray[y * DHASH_WIDTH + x] > gray[y * DHASH_WIDTH + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * Distância de Hamming entre dois hashes hex de 64 bits
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+function loadImage(source: Blob | string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const cleanup = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+    };
+
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      cleanup();
+      resolve(img);
+    };
+    img.onerror = () => {
+      cleanup();
+      reject(new Error('Falha ao carregar imagem'));
+    };
+    img.src = url;
+  });
+}
+
+/** Redimensiona a imagem e retorna a luminância */
+function toGrayscale(img: HTMLImageElement, width: number, height: number): Float32Array {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Falha ao obter contexto 2D');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+/**
+ * 🧬 Calcula pHash e dHash de uma imagem (Blob, data URL ou URL)
+ */
+export async function computePerceptualHashes(source: Blob | string): Promise<PerceptualHashes> {
+  const img = await loadImage(source);
+  return {
+    phash: computePHash(toGrayscale(img, PHASH_SIZE, PHASH_SIZE)),
+    dhash: computeDHash(toGrayscale(img, DHASH_WIDTH, DHASH_HEIGHT)),
+  };
+}
+
+// =====================================================
+// PERSISTÊNCIA E CONSULTA
+// =====================================================
+
+/**
+ * 💾 Grava os hashes das imagens de um certificado
+ * O hash da imagem 0 também é gravado em `signed_contents.perceptual_hash`
+ *
+ * @param hashesByIndex - Hashes por índice de imagem (0 = thumbnail principal)
+ */
+export async function savePerceptualHashes(
+  contentId: string,
+  hashesByIndex: Map<number, PerceptualHashes>
+): Promise<boolean> {
+  if (hashesByIndex.size === 0) return true;
+
+  const rows = Array.from(hashesByIndex.entries()).map(([imageIndex, hashes]) => ({
+    content_id: contentId,
+    image_index: imageIndex,
+    phash: hashes.phash,
+    dhash: hashes.dhash,
+  }));
+
+  const { error } = await supabase.from('image_perceptual_hashes').insert(rows);
+  if (error) {
+    console.error('❌ [PerceptualHash] Erro ao salvar hashes:', error);
+    return false;
+  }
+
+  const primary = hashesByIndex.get(0) ?? rows[0];
+  const { error: updateError } = await supabase
+    .from('signed_contents')
+    .update({ perceptual_hash: primary.phash })
+    .eq('id', contentId);
+
+  if (updateError) {
+    console.warn('⚠️ [PerceptualHash] Erro ao atualizar perceptual_hash (não crítico):', updateError);
+  }
+
+  console.log(`✅ [PerceptualHash] ${rows.length} hash(es) salvos para o certificado`, contentId);
+  return true;
+}
+
+/**
+ * 🔎 Busca certificados com imagens semelhantes, ordenados pela distância de Hamming
+ */
+export async function findSimilarCertificates(
+  image: Blob,
+  maxDistance: number = DEFAULT_MAX_HAMMING_DISTANCE,
+  limit: number = 10
+): Promise<SimilarCertificateMatch[]> {
+  const hashes = await computePerceptualHashes(image);
+  console.log('🔎 [PerceptualHash] Buscando imagens semelhantes:', hashes);
+
+  const { data, error } = await supabase.rpc('find_similar_images', {
+    p_phash: hashes.phash,
+    p_dhash: hashes.dhash,
+    p_max_distance: maxDistance,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Erro ao buscar imagens semelhantes: ${error.message}`);
+  }
+
+  return (data || []).map((row: {
+    content_id: string;
+    verification_code: string;
+    creator_name: string;
+    thumbnail: string | null;
+    created_at: string;
+    image_index: number;
+    phash_distance: number;
+    dhash_distance: number;
+  }) => ({
+    contentId: row.content_id,
+    verificationCode: row.verification_code,
+    creatorName: row.creator_name,
+    thumbnail: row.thumbnail,
+    createdAt: row.created_at,
+    imageIndex: row.image_index,
+    phashDistance: row.phash_distance,
+    dhashDistance: row.dhash_distance,
+    similarity: 1 - row.phash_distance / 64,
+  }));
+}
@@ -0,0 +1,288 @@
+/**
+ * =====================================================
+ * REVOCATION SERVICE
+ * =====================================================
+ *
+ * Revogação e disputa de certificados:
+ *
+ * - O criador (ou um administrador) revoga um certificado com um motivo;
+ *   o registro original continua visível, com o aviso de revogação
+ * - Qualquer visitante pode denunciar um certificado no /certificate
+ * - Administradores analisam as denúncias em /admin/reports: colocar em
+ *   disputa (aviso público), rejeitar ou revogar o certificado
+ *
+ * A revogação é definitiva e gravada apenas pelas funções do banco
+ * (migration 20261018_content_revocations.sql).
+ *
+ * @module RevocationService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { RevocationReason, SignedContent } from '@/lib/supabase-crypto';
+import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+
+export type { RevocationReason };
+
+export type ReportReason = 'copyright' | 'impersonation' | 'fraudulent' | 'signed_by_mistake' | 'other';
+
+export type ReportStatus = 'open' | 'under_review' | 'dismissed' | 'upheld';
+
+export type ReportDecision = 'under_review' | 'dismissed' | 'upheld';
+
+export const REVOCATION_REASON_LABELS: Record<RevocationReason, string> = {
+  signed_by_mistake: 'Assinado por engano',
+  copyright_dispute: 'Disputa de direitos autorais',
+  key_compromise: 'Chave comprometida',
+  content_error: 'Conteúdo com erro',
+  other: 'Outro motivo',
+};
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  copyright: 'Violação de direitos autorais',
+  impersonation: 'Falsa identidade do criador',
+  fraudulent: 'Conteúdo fraudulento ou enganoso',
+  signed_by_mistake: 'Assinado por engano',
+  other: 'Outro motivo',
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Aberta',
+  under_review: 'Em disputa',
+  dismissed: 'Rejeitada',
+  upheld: 'Procedente',
+};
+
+/**
+ * Situação pública do certificado
+ */
+export interface ContentRevocationStatus {
+  state: 'active' | 'disputed' | 'revoked';
+  /** Revogação ou início da disputa */
+  since: string | null;
+  reasonLabel: string | null;
+  note: string | null;
+}
+
+/**
+ * Denúncia na fila administrativa
+ */
+export interface ContentReport {
+  id: string;
+  contentId: string;
+  reporterId: string | null;
+  reporterEmail: string;
+  reason: ReportReason;
+  details: string;
+  status: ReportStatus;
+  resolutionNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  verificationCode: string;
+  contentOwnerId: string;
+  creatorName: string;
+  fileName: string | null;
+  revokedAt: string | null;
+  disputedAt: string | null;
+  openReportsForContent: number;
+}
+
+interface ContentReportRow {
+  id: string;
+  content_id: string;
+  reporter_id: string | null;
+  reporter_email: string;
+  reason: string;
+  details: string;
+  status: string;
+  resolution_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  verification_code: string;
+  content_owner_id: string;
+  creator_name: string;
+  file_name: string | null;
+  revoked_at: string | null;
+  disputed_at: string | null;
+  open_reports_for_content: number;
+}
+
+/**
+ * Situação do certificado (revogado > em disputa > ativo)
+ */
+export function getRevocationStatus(content: SignedContent): ContentRevocationStatus {
+  if (content.revokedAt) {
+    return {
+      state: 'revoked',
+      since: content.revokedAt,
+      reasonLabel: content.revocationReason ? REVOCATION_REASON_LABELS[content.revocationReason] : null,
+      note: content.revocationNote || null,
+    };
+  }
+
+  if (content.disputedAt) {
+    return {
+      state: 'disputed',
+      since: content.disputedAt,
+      reasonLabel: content.disputeReason
+        ? REPORT_REASON_LABELS[content.disputeReason as ReportReason] || content.disputeReason
+        : null,
+      note: null,
+    };
+  }
+
+  return { state: 'active', since: null, reasonLabel: null, note: null };
+}
+
+/**
+ * 🚫 Revoga um certificado (dono ou administrador)
+ */
+export async function revokeContent(
+  userId: string,
+  content: SignedContent,
+  reason: RevocationReason,
+  note?: string
+): Promise<{ success: boolean; content?: SignedContent; error?: string }> {
+  const { data, error } = await supabase.rpc('revoke_signed_content', {
+    p_content_id: content.id,
+    p_reason: reason,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) {
+    console.error('❌ [Revocation] Erro ao revogar certificado:', error);
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(AuditAction.CONTENT_REVOKED, {
+    success: true,
+    content_id: content.id,
+    verification_code: content.verificationCode,
+    reason,
+    by_owner: userId === content.userId,
+  }, userId).catch(() => undefined);
+
+  console.log('🚫 [Revocation] Certificado revogado:', content.verificationCode, reason);
+  return {
+    success: true,
+    content: {
+      ...content,
+      revokedAt: (data as string) || new Date().toISOString(),
+      revocationReason: reason,
+      revocationNote: note?.trim() || null,
+      disputedAt: null,
+      disputeReason: null,
+    },
+  };
+}
+
+/**
+ * 🚩 Denuncia um certificado (visitantes também podem denunciar)
+ */
+export async function reportContent(
+  contentId: string,
+  reason: ReportReason,
+  details: string,
+  reporterEmail: string,
+  reporterId?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('report_signed_content', {
+    p_content_id: contentId,
+    p_reason: reason,
+    p_details: details.trim(),
+    p_reporter_email: reporterEmail.trim(),
+  });
+
+  if (error) {
+    console.error('❌ [Revocation] Erro ao registrar denúncia:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (reporterId) {
+    logAuditEvent(AuditAction.CONTENT_REPORTED, {
+      success: true,
+      content_id: contentId,
+      reason,
+    }, reporterId).catch(() => undefined);
+  }
+
+  return { success: true };
+}
+
+/**
+ * 📋 Fila de denúncias (apenas administradores)
+ */
+export async function fetchContentReports(filters: {
+  status?: ReportStatus | 'all';
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ items: ContentReport[]; total: number }> {
+  const { data, error } = await supabase.rpc('admin_list_content_reports', {
+    p_status: filters.status && filters.status !== 'all' ? filters.status : null,
+    p_limit: filters.limit ?? 50,
+    p_offset: filters.offset ?? 0,
+  });
+
+  if (error) {
+    console.error('❌ [Revocation] admin_list_content_reports falhou:', error);
+    throw new Error(error.message);
+  }
+
+  const payload = (data ?? {}) as { items?: ContentReportRow[]; total?: number };
+  return {
+    total: Number(payload.total ?? 0),
+    items: (payload.items || []).map(row => ({
+      id: row.id,
+      contentId: row.content_id,
+      reporterId: row.reporter_id,
+      reporterEmail: row.reporter_email,
+      reason: row.reason as ReportReason,
+      details: row.details,
+      status: row.status as ReportStatus,
+      resolutionNote: row.resolution_note,
+      reviewedAt: row.reviewed_at,
+      createdAt: row.created_at,
+      verificationCode: row.verification_code,
+      contentOwnerId: row.content_owner_id,
+      creatorName: row.creator_name,
+      fileName: row.file_name,
+      revokedAt: row.revoked_at,
+      disputedAt: row.disputed_at,
+      openReportsForContent: Number(row.open_reports_for_content || 0),
+    })),
+  };
+}
+
+/**
+ * ⚖️ Decide uma denúncia (apenas administradores)
+ */
+export async function reviewContentReport(
+  adminId: string,
+  report: ContentReport,
+  decision: ReportDecision,
+  resolutionNote?: string,
+  revocationReason: RevocationReason = 'copyright_dispute'
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('admin_review_content_report', {
+    p_report_id: report.id,
+    p_decision: decision,
+    p_resolution_note: resolutionNote?.trim() || null,
+    p_revocation_reason: revocationReason,
+  });
+
+  if (error) {
+    console.error('❌ [Revocation] Erro ao analisar denúncia:', error);
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(AuditAction.CONTENT_REPORT_REVIEWED, {
+    success: true,
+    report_id: report.id,
+    content_id: report.contentId,
+    decision,
+    revocation_reason: decision === 'upheld' ? revocationReason : undefined,
+  }, adminId).catch(() => undefined);
+
+  return { success: true };
+}
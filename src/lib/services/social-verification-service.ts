@@ -0,0 +1,174 @@
+/**
+ * =====================================================
+ * SOCIAL VERIFICATION SERVICE
+ * =====================================================
+ *
+ * Prova de que o criador controla os links sociais exibidos nos
+ * certificados (Edge Function `social-verification`):
+ *
+ * - Website: arquivo `/.well-known/veroid.json` ou registro DNS TXT
+ * - Redes sociais: código `VID-...` na bio/descrição do perfil
+ *
+ * A página pública do certificado exibe apenas links cuja URL confere com
+ * uma verificação concluída (RPC `get_verified_social_links`).
+ *
+ * @module SocialVerificationService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { SocialLinks } from '@/lib/supabase';
+
+export type SocialPlatform = keyof SocialLinks;
+
+export type SocialVerificationStatus = 'pending' | 'verified' | 'failed';
+
+export type SocialVerificationMethod = 'well_known' | 'dns_txt' | 'profile_bio';
+
+/**
+ * Desafio/resultado de verificação de um link (visível apenas ao dono)
+ */
+export interface SocialVerification {
+  platform: SocialPlatform;
+  url: string;
+  challengeToken: string;
+  status: SocialVerificationStatus;
+  method: SocialVerificationMethod | null;
+  verifiedAt: string | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Link verificado (leitura pública)
+ */
+export interface VerifiedSocialLink {
+  platform: SocialPlatform;
+  url: string;
+  method: SocialVerificationMethod;
+  verifiedAt: string;
+}
+
+interface SocialVerificationRow {
+  platform: string;
+  url: string;
+  challenge_token: string;
+  status: SocialVerificationStatus;
+  method: SocialVerificationMethod | null;
+  verified_at: string | null;
+  last_checked_at: string | null;
+  last_error: string | null;
+}
+
+function rowToVerification(row: SocialVerificationRow): SocialVerification {
+  return {
+    platform: row.platform as SocialPlatform,
+    url: row.url,
+    challengeToken: row.challenge_token,
+    status: row.status,
+    method: row.method,
+    verifiedAt: row.verified_at,
+    lastCheckedAt: row.last_checked_at,
+    lastError: row.last_error,
+  };
+}
+
+/**
+ * Normaliza a URL do perfil (https, host minúsculo sem www, sem query/fragmento/barra final)
+ * Mesmo algoritmo da Edge Function social-verification
+ */
+export function normalizeSocialUrl(raw: string): string | null {
+  try {
+    const url = new URL(/^https?:\/\//i.test(raw.trim()) ? raw.trim() : `https://${raw.trim()}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname.replace(/\/+$/, '');
+    return `https://${host}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 📋 Desafios e verificações do usuário autenticado
+ */
+export async function listSocialVerifications(): Promise<SocialVerification[]> {
+  const { data, error } = await supabase
+    .from('social_link_verifications')
+    .select('platform, url, challenge_token, status, method, verified_at, last_checked_at, last_error');
+
+  if (error) {
+    console.error('❌ [SocialVerification] Erro ao listar verificações:', error);
+    return [];
+  }
+
+  return (data || []).map(rowToVerification);
+}
+
+async function invokeSocialVerification(
+  action: 'challenge' | 'verify',
+  platform: SocialPlatform
+): Promise<{ verification: SocialVerification; verified?: boolean }> {
+  const { data, error } = await supabase.functions.invoke('social-verification', {
+    body: { action, platform },
+  });
+
+  if (error || !data?.success || !data.verification) {
+    throw new Error(data?.error || error?.message || 'Falha na verificação do link');
+  }
+
+  return { verification: rowToVerification(data.verification), verified: data.verified };
+}
+
+/**
+ * 🎯 Gera (ou reaproveita) o código de verificação para o link atual da rede
+ */
+export async function requestSocialChallenge(platform: SocialPlatform): Promise<SocialVerification> {
+  const { verification } = await invokeSocialVerification('challenge', platform);
+  return verification;
+}
+
+/**
+ * 🔎 Procura o código no site/perfil e grava o resultado
+ */
+export async function checkSocialVerification(platform: SocialPlatform): Promise<SocialVerification> {
+  const { verification } = await invokeSocialVerification('verify', platform);
+  console.log(`🔎 [SocialVerification] ${platform}: ${verification.status}`);
+  return verification;
+}
+
+/**
+ * ✅ Links verificados de um criador (página pública do certificado)
+ */
+export async function getVerifiedSocialLinks(userId: string): Promise<VerifiedSocialLink[]> {
+  const { data, error } = await supabase.rpc('get_verified_social_links', { p_user_id: userId });
+
+  if (error) {
+    console.error('❌ [SocialVerification] Erro ao buscar links verificados:', error);
+    return [];
+  }
+
+  return (data || []).map((row: { platform: string; url: string; method: SocialVerificationMethod; verified_at: string }) => ({
+    platform: row.platform as SocialPlatform,
+    url: row.url,
+    method: row.method,
+    verifiedAt: row.verified_at,
+  }));
+}
+
+/**
+ * Mantém apenas os links cuja URL confere com uma verificação da mesma rede
+ */
+export function filterVerifiedSocialLinks(
+  links: SocialLinks | null | undefined,
+  verified: VerifiedSocialLink[]
+): Array<{ platform: SocialPlatform; url: string; verifiedAt: string }> {
+  if (!links) return [];
+
+  return Object.entries(links).flatMap(([platform, url]) => {
+    if (!url || typeof url !== 'string') return [];
+    const normalized = normalizeSocialUrl(url);
+    const match = verified.find(item => item.platform === platform && item.url === normalized);
+    return match ? [{ platform: platform as SocialPlatform, url, verifiedAt: match.verifiedAt }] : [];
+  });
+}
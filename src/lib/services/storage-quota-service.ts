@@ -0,0 +1,163 @@
+/**
+ * =====================================================
+ * STORAGE QUOTA SERVICE
+ * =====================================================
+ *
+ * Cota de armazenamento por plano (migration 20261018_storage_quotas.sql):
+ *
+ * - storage_usage é atualizado por trigger em storage.objects a cada
+ *   upload, promoção para signed-documents e exclusão
+ * - O banco recusa uploads acima da cota; checkStorageQuota() antecipa
+ *   a mesma regra para o app mostrar uma mensagem clara
+ * - reconcileStorageUsage() recalcula o consumo a partir dos arquivos
+ *   reais e corrige divergências
+ *
+ * @module StorageQuotaService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Consumo de armazenamento do usuário
+ */
+export interface StorageUsage {
+  planType: string;
+  /** null = ilimitado */
+  quotaBytes: number | null;
+  usedBytes: number;
+  signedBytes: number;
+  signedFiles: number;
+  tempBytes: number;
+  tempFiles: number;
+  updatedAt: string | null;
+  reconciledAt: string | null;
+}
+
+export interface StorageQuotaCheck {
+  allowed: boolean;
+  quotaBytes: number | null;
+  usedBytes: number;
+  error?: string;
+}
+
+export interface StorageReconcileResult {
+  success: boolean;
+  driftBytes?: number;
+  error?: string;
+}
+
+/**
+ * Formata bytes para exibição (KB, MB, GB)
+ */
+export function formatStorageBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Percentual da cota em uso (0 quando ilimitado)
+ */
+export function getStorageUsagePercent(usage: Pick<StorageUsage, 'usedBytes' | 'quotaBytes'>): number {
+  if (!usage.quotaBytes) return 0;
+  return Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100);
+}
+
+/**
+ * Erro de cota devolvido pelo trigger enforce_storage_quota
+ */
+export function isStorageQuotaError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+  return /cota de armazenamento excedida/i.test(message);
+}
+
+function describeQuotaExceeded(usedBytes: number, quotaBytes: number, fileBytes: number): string {
+  return `Cota de armazenamento excedida: ${formatStorageBytes(usedBytes)} de ${formatStorageBytes(quotaBytes)} em uso ` +
+    `e o arquivo tem ${formatStorageBytes(fileBytes)}. Exclua arquivos ou faça upgrade do plano para liberar espaço.`;
+}
+
+/**
+ * 📦 Consumo e cota do usuário autenticado
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  const { data, error } = await supabase.rpc('get_storage_usage');
+
+  if (error || !data) {
+    console.error('❌ [StorageQuota] Erro ao consultar consumo:', error);
+    return null;
+  }
+
+  return {
+    planType: data.plan_type,
+    quotaBytes: data.quota_bytes === null ? null : Number(data.quota_bytes),
+    usedBytes: Number(data.used_bytes ?? 0),
+    signedBytes: Number(data.signed_bytes ?? 0),
+    signedFiles: Number(data.signed_files ?? 0),
+    tempBytes: Number(data.temp_bytes ?? 0),
+    tempFiles: Number(data.temp_files ?? 0),
+    updatedAt: data.updated_at ?? null,
+    reconciledAt: data.reconciled_at ?? null,
+  };
+}
+
+/**
+ * 🔍 Verifica se um arquivo cabe na cota antes do upload
+ *
+ * Se a consulta falhar o upload segue: o trigger no banco aplica a
+ * mesma regra.
+ */
+export async function checkStorageQuota(
+  fileBytes: number,
+  bucket = 'temp-uploads'
+): Promise<StorageQuotaCheck> {
+  const { data, error } = await supabase.rpc('check_storage_quota', {
+    p_bytes: fileBytes,
+    p_bucket: bucket,
+  });
+
+  if (error || !data) {
+    console.warn('⚠️ [StorageQuota] Pré-checagem indisponível (o servidor valida no upload):', error);
+    return { allowed: true, quotaBytes: null, usedBytes: 0 };
+  }
+
+  const quotaBytes = data.quota_bytes === null ? null : Number(data.quota_bytes);
+  const usedBytes = Number(data.used_bytes ?? 0);
+
+  if (!data.allowed && quotaBytes !== null) {
+    console.warn('🚫 [StorageQuota] Upload acima da cota:', { fileBytes, usedBytes, quotaBytes, bucket });
+    return {
+      allowed: false,
+      quotaBytes,
+      usedBytes,
+      error: describeQuotaExceeded(usedBytes, quotaBytes, fileBytes),
+    };
+  }
+
+  return { allowed: true, quotaBytes, usedBytes };
+}
+
+/**
+ * 🔄 Recalcula o consumo a partir dos arquivos armazenados
+ *
+ * Sem userId reconcilia o próprio usuário; para outro usuário exige admin.
+ */
+export async function reconcileStorageUsage(userId?: string): Promise<StorageReconcileResult> {
+  const { data, error } = await supabase.rpc('reconcile_storage_usage', {
+    p_user_id: userId ?? null,
+  });
+
+  if (error) {
+    console.error('❌ [StorageQuota] Erro ao reconciliar consumo:', error);
+    return { success: false, error: error.message };
+  }
+
+  const driftBytes = Number(data?.drift_bytes ?? 0);
+  if (driftBytes !== 0) {
+    console.log(`🔄 [StorageQuota] Divergência corrigida: ${driftBytes} bytes`);
+  }
+
+  return { success: true, driftBytes };
+}
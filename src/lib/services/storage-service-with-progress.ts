@@ -14,6 +14,7 @@
 import { supabase } from '@/lib/supabase';
 import { sanitizeFileName } from '@/lib/input-sanitizer';
 import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+import { checkStorageQuota, isStorageQuotaError } from '@/lib/services/storage-quota-service';
 
 // =====================================================
 // TIPOS E INTERFACES
@@ -168,7 +169,17 @@ export async function uploadToTempBucketWithProgress(
     };
   }
   
-  // 4. Obter sessão para autenticação
+  // 4. Validar cota de armazenamento do plano
+  const quota = await checkStorageQuota(file.size, CONFIG.TEMP_BUCKET);
+  if (!quota.allowed) {
+    return {
+      success: false,
+      error: quota.error,
+      executionTime: Date.now() - startTime
+    };
+  }
+  
+  // 5. Obter sessão para autenticação
   const session = await getSession();
   if (!session) {
     return {
@@ -178,14 +189,14 @@ export async function uploadToTempBucketWithProgress(
     };
   }
   
-  // 5. Sanitizar nome do arquivo
+  // 6. Sanitizar nome do arquivo
   const sanitizedFileName = sanitizeFileName(file.name);
   console.log('🔒 [Storage+Progress] Nome do arquivo sanitizado:', {
     original: file.name,
     sanitized: sanitizedFileName
   });
   
-  // 6. Criar path: {user_id}/{timestamp}_{filename}
+  // 7. Criar path: {user_id}/{timestamp}_{filename}
   const timestamp = Date.now();
   const filePath = `${userId}/${timestamp}_${sanitizedFileName}`;
   
@@ -265,7 +276,9 @@ export async function uploadToTempBucketWithProgress(
         
         resolve({
           success: false,
-          error: `Erro no upload: HTTP ${xhr.status}`,
+          error: isStorageQuotaError(xhr.responseText)
+            ? 'Cota de armazenamento excedida. Exclua arquivos ou faça upgrade do plano para liberar espaço.'
+            : `Erro no upload: HTTP ${xhr.status}`,
           executionTime
         });
       }
@@ -18,8 +18,8 @@
  * - temp-uploads: Arquivos temporários (max 10MB, deletados após 24h)
  * - signed-documents: Documentos assinados (max 50MB, permanentes)
  * 
- * NOTA: A operação MOVE foi substituída por COPY + DELETE devido a
- * limitações do Supabase Storage com políticas RLS entre buckets.
+ * NOTA: a promoção para signed-documents é uma cópia feita no servidor
+ * (Edge Function promote-upload), só para arquivos verificados.
  * 
  * @author VeroID Security Team
  * @version 1.2.0 - Adicionado logging de auditoria (Fase 2)
@@ -29,6 +29,8 @@
 import { supabase } from '@/lib/supabase';
 import { sanitizeFileName } from '@/lib/input-sanitizer';
 import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+import { describeBlockedScan, promoteUpload, waitForUploadScan } from '@/lib/services/file-scan-service';
+import { checkStorageQuota, isStorageQuotaError } from '@/lib/services/storage-quota-service';
 
 // =====================================================
 // TIPOS E INTERFACES
@@ -116,6 +118,8 @@ export interface MoveOptions {
   maxRetries?: number;
   retryDelay?: number;
   timeout?: number;
+  /** Tempo máximo aguardando a verificação de malware (ms) */
+  scanTimeout?: number;
 }
 
 // =====================================================
@@ -317,18 +321,28 @@ export async function uploadToTempBucket(
     };
   }
   
-  // 4. Sanitizar nome do arquivo
+  // 4. Validar cota de armazenamento do plano
+  const quota = await checkStorageQuota(file.size, CONFIG.TEMP_BUCKET);
+  if (!quota.allowed) {
+    return {
+      success: false,
+      error: quota.error,
+      executionTime: Date.now() - startTime
+    };
+  }
+  
+  // 5. Sanitizar nome do arquivo
   const sanitizedFileName = sanitizeFileName(file.name);
   console.log('🔒 [Storage] Nome do arquivo sanitizado:', {
     original: file.name,
     sanitized: sanitizedFileName
   });
   
-  // 5. Criar path: {user_id}/{timestamp}_{filename}
+  // 6. Criar path: {user_id}/{timestamp}_{filename}
   const timestamp = Date.now();
   const filePath = `${userId}/${timestamp}_${sanitizedFileName}`;
   
-  // 6. Validar path
+  // 7. Validar path
   if (!isValidPath(filePath)) {
     return {
       success: false,
@@ -394,6 +408,11 @@ export async function uploadToTempBucket(
       lastError = error as Error;
       console.error(`❌ [Storage] Tentativa ${attempt} falhou:`, error);
       
+      // Cota excedida (recusada pelo banco): nova tentativa não adianta
+      if (isStorageQuotaError(error)) {
+        break;
+      }
+      
       // Se não é a última tentativa, aguarda antes de tentar novamente
       if (attempt < maxRetries) {
         const delay = retryDelay * attempt; // Backoff exponencial
@@ -431,8 +450,11 @@ export async function uploadToTempBucket(
 /**
  * Move arquivo do bucket temporário para bucket permanente
  * 
- * IMPORTANTE: Esta função usa COPY + DELETE em vez de MOVE nativo
- * devido a limitações do Supabase Storage com políticas RLS entre buckets.
+ * IMPORTANTE: a cópia é feita no servidor (Edge Function promote-upload);
+ * o cliente não tem permissão de escrita em signed-documents.
+ * 
+ * SEGURANÇA: só arquivos com verificação de malware 'clean' são promovidos,
+ * e o servidor confere que os bytes copiados são os que foram verificados.
  * 
  * @param tempPath - Path do arquivo no bucket temporário
  * @param userId - ID do usuário (para validação)
@@ -458,7 +480,7 @@ export async function moveToSignedDocuments(
   const maxRetries = options.maxRetries ?? CONFIG.MAX_RETRIES;
   const retryDelay = options.retryDelay ?? CONFIG.RETRY_DELAY;
   
-  console.log('🔄 [Storage] Iniciando movimentação para bucket permanente (COPY + DELETE):', {
+  console.log('🔄 [Storage] Iniciando movimentação para bucket permanente (cópia no servidor):', {
     tempPath,
     userId,
     fromBucket: CONFIG.TEMP_BUCKET,
@@ -522,8 +544,32 @@ export async function moveToSignedDocuments(
     };
   }
   
+  // 7. Exigir verificação de malware concluída e limpa
+  const scan = await waitForUploadScan(tempPath, { timeout: options.scanTimeout });
+  if (!scan || scan.status !== 'clean') {
+    const blockedError = describeBlockedScan(scan);
+    console.error('🚫 [Storage] Arquivo não liberado pela verificação de malware:', {
+      tempPath,
+      status: scan?.status ?? 'sem registro'
+    });
+    
+    logAuditEvent(AuditAction.FILE_PROMOTION_BLOCKED, {
+      success: false,
+      fromPath: tempPath,
+      scanStatus: scan?.status ?? 'missing',
+      threatName: scan?.threatName ?? undefined,
+      error: blockedError
+    }, userId).catch(() => undefined);
+    
+    return {
+      success: false,
+      error: blockedError,
+      executionTime: Date.now() - startTime
+    };
+  }
+  
   // =====================================================
-  // MOVIMENTAÇÃO COM RETRY (COPY + DELETE)
+  // MOVIMENTAÇÃO COM RETRY (CÓPIA NO SERVIDOR)
   // =====================================================
   
   let lastError: Error | null = null;
@@ -533,61 +579,21 @@ export async function moveToSignedDocuments(
     try {
       console.log(`🔄 [Storage] Tentativa ${attempt}/${maxRetries}...`);
       
-      // PASSO 1: Download do arquivo temporário
-      console.log('📥 [Storage] Baixando arquivo do bucket temporário...');
-      const { data: downloadData, error: downloadError } = await supabase.storage
-        .from(CONFIG.TEMP_BUCKET)
-        .download(tempPath);
-      
-      if (downloadError) {
-        throw new Error(`Erro ao baixar arquivo: ${downloadError.message}`);
-      }
-      
-      if (!downloadData) {
-        throw new Error('Arquivo não encontrado no bucket temporário');
-      }
-      
-      fileSize = downloadData.size;
-      
-      console.log('✅ [Storage] Arquivo baixado com sucesso:', {
-        size: formatFileSize(downloadData.size)
-      });
-      
-      // PASSO 2: Upload para bucket permanente
-      console.log('📤 [Storage] Enviando arquivo para bucket permanente...');
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from(CONFIG.SIGNED_BUCKET)
-        .upload(signedPath, downloadData, {
-          cacheControl: CONFIG.CACHE_CONTROL,
-          contentType: downloadData.type,
-          upsert: false
-        });
+      // Cópia no servidor (promote-upload): confere o hash verificado e a
+      // cota do plano, grava em signed-documents e remove o temporário
+      console.log('📤 [Storage] Promovendo arquivo verificado para o bucket permanente...');
+      const promoted = await promoteUpload(tempPath, signedPath);
       
-      if (uploadError) {
-        throw new Error(`Erro ao fazer upload: ${uploadError.message}`);
+      if (!promoted.success) {
+        throw new Error(promoted.error);
       }
       
-      console.log('✅ [Storage] Arquivo enviado para bucket permanente:', {
-        path: uploadData.path
-      });
-      
-      // PASSO 3: Deletar arquivo temporário
-      console.log('🗑️ [Storage] Deletando arquivo temporário...');
-      const { error: deleteError } = await supabase.storage
-        .from(CONFIG.TEMP_BUCKET)
-        .remove([tempPath]);
-      
-      if (deleteError) {
-        console.warn('⚠️ [Storage] Erro ao deletar arquivo temporário (não crítico):', deleteError);
-        // Não falha a operação se a deleção falhar
-      } else {
-        console.log('✅ [Storage] Arquivo temporário deletado');
-      }
+      fileSize = promoted.fileSize ?? 0;
       
       // Sucesso!
       const executionTime = Date.now() - startTime;
       
-      console.log('✅ [Storage] Movimentação concluída com sucesso (COPY + DELETE):', {
+      console.log('✅ [Storage] Movimentação concluída com sucesso (cópia no servidor):', {
         from: tempPath,
         to: signedPath,
         executionTime: `${executionTime}ms`,
@@ -618,6 +624,11 @@ export async function moveToSignedDocuments(
       lastError = error as Error;
       console.error(`❌ [Storage] Tentativa ${attempt} falhou:`, error);
       
+      // Cota excedida (recusada pelo banco): nova tentativa não adianta
+      if (isStorageQuotaError(error)) {
+        break;
+      }
+      
       // Se não é a última tentativa, aguarda antes de tentar novamente
       if (attempt < maxRetries) {
         const delay = retryDelay * attempt;
@@ -0,0 +1,146 @@
+/**
+ * =====================================================
+ * STRIPE EVENTS SERVICE
+ * =====================================================
+ *
+ * Eventos do webhook do Stripe gravados em stripe_events
+ * (migration 20261018_stripe_event_store.sql):
+ *
+ * - fetchStripeEvents(): lista com status, tentativas e erro (admin)
+ * - retryStripeEvent(): reprocessa um evento com falha
+ * - replayUserStripeEvents(): reexecuta todo o histórico de um usuário
+ *   para reconstruir assinatura e créditos (Edge Function
+ *   stripe-event-replay)
+ *
+ * @module StripeEventsService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export type StripeEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'ignored';
+
+export interface StripeEventRow {
+  id: string;
+  event_type: string;
+  livemode: boolean;
+  stripe_created_at: string;
+  object_id: string | null;
+  stripe_customer_id: string | null;
+  user_id: string | null;
+  user_email: string | null;
+  user_name: string | null;
+  status: StripeEventStatus;
+  attempts: number;
+  last_error: string | null;
+  delivery_count: number;
+  received_at: string;
+  processed_at: string | null;
+  last_replayed_at: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface StripeEventsPage {
+  items: StripeEventRow[];
+  total: number;
+  counts: Partial<Record<StripeEventStatus, number>>;
+}
+
+export interface StripeEventRunResult {
+  id: string;
+  type: string;
+  status: StripeEventStatus | null;
+  error?: string;
+}
+
+export interface StripeReplaySummary {
+  total: number;
+  processed: number;
+  ignored: number;
+  failed: number;
+  skipped: number;
+}
+
+export const STRIPE_EVENT_STATUS_LABELS: Record<StripeEventStatus, string> = {
+  pending: 'Pendente',
+  processing: 'Processando',
+  processed: 'Processado',
+  failed: 'Falhou',
+  ignored: 'Ignorado',
+};
+
+/**
+ * 📋 Lista os eventos gravados (somente admin)
+ */
+export async function fetchStripeEvents(filters: {
+  status?: StripeEventStatus | 'all';
+  search?: string;
+  userId?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<StripeEventsPage> {
+  const { data, error } = await supabase.rpc('admin_list_stripe_events', {
+    p_status: filters.status && filters.status !== 'all' ? filters.status : null,
+    p_search: filters.search?.trim() || null,
+    p_user_id: filters.userId ?? null,
+    p_limit: filters.limit ?? 50,
+    p_offset: filters.offset ?? 0,
+  });
+
+  if (error) {
+    console.error('❌ [StripeEvents] admin_list_stripe_events falhou:', error);
+    throw new Error(error.message);
+  }
+
+  const payload = (data ?? {}) as Partial<StripeEventsPage>;
+  return {
+    items: payload.items ?? [],
+    total: Number(payload.total ?? 0),
+    counts: payload.counts ?? {},
+  };
+}
+
+/**
+ * 🔁 Reprocessa um evento com falha
+ */
+export async function retryStripeEvent(
+  eventId: string
+): Promise<{ success: boolean; result?: StripeEventRunResult; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('stripe-event-replay', {
+    body: { action: 'retry', eventId },
+  });
+
+  if (error || !data?.success) {
+    const message = data?.error || error?.message || 'Falha ao reprocessar o evento';
+    console.warn('⚠️ [StripeEvents] Reprocessamento falhou:', eventId, message);
+    return { success: false, result: data?.result, error: message };
+  }
+
+  console.log('🔁 [StripeEvents] Evento reprocessado:', eventId);
+  return { success: true, result: data.result };
+}
+
+/**
+ * 🧱 Reconstrói a assinatura do usuário a partir dos eventos gravados
+ */
+export async function replayUserStripeEvents(
+  userId: string
+): Promise<{ success: boolean; summary?: StripeReplaySummary; results?: StripeEventRunResult[]; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('stripe-event-replay', {
+    body: { action: 'replay_user', userId },
+  });
+
+  if (error || !data?.summary) {
+    const message = data?.error || error?.message || 'Falha no replay dos eventos';
+    console.error('❌ [StripeEvents] Replay falhou:', userId, message);
+    return { success: false, error: message };
+  }
+
+  console.log('🧱 [StripeEvents] Replay concluído:', userId, data.summary);
+  return {
+    success: data.success === true,
+    summary: data.summary as StripeReplaySummary,
+    results: data.results as StripeEventRunResult[],
+  };
+}
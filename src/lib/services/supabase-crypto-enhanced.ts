@@ -11,11 +11,14 @@
 
 import { supabase } from '../supabase';
 import type { Database, SocialLinks } from '../supabase';
-import { generateHash, generateVerificationCode } from '../crypto';
+import { clearAllKeys, generateHash, generateVerificationCode, getKeyPair as getActiveKeyPair, signHash } from '../crypto';
 import { signContentViaEdgeFunction } from './edge-function-service';
 import { isFeatureEnabled, FeatureFlag } from './feature-flags';
-import type { SignedContent } from '../supabase-crypto';
+import { computePerceptualHashes, savePerceptualHashes, type PerceptualHashes } from './perceptual-hash-service';
+import type { ContentRelationType, RevocationReason, SignedContent } from '../supabase-crypto';
 import type { CarouselMetadata } from '../types/carousel';
+import { linkContentToParent, type ContentLineageInput } from './lineage-service';
+import { applyTimestamp, requestContentTimestamp } from './timestamp-service';
 
 // Re-exporta tipos originais para compatibilidade
 export type {
@@ -57,6 +60,57 @@ export interface FileMetadata {
   
   /** Nome do bucket onde o arquivo está armazenado (ex: "signed-documents") */
   storage_bucket: string;
+
+  /** 🔍 SHA-256 (hex) dos bytes do arquivo original, usado na verificação offline */
+  file_hash?: string;
+}
+
+/**
+ * 🧬 Calcula os hashes perceptuais das imagens do conteúdo
+ * (índice 0 = thumbnail principal, 1..n = imagens do carrossel pela ordem)
+ *
+ * Falhas não impedem a assinatura: a imagem apenas não será localizável
+ * pela busca por semelhança.
+ */
+async function computeSigningImageHashes(
+  thumbnail?: string,
+  carouselMetadata?: CarouselMetadata
+): Promise<Map<number, PerceptualHashes>> {
+  const hashes = new Map<number, PerceptualHashes>();
+
+  if (thumbnail) {
+    try {
+      hashes.set(0, await computePerceptualHashes(thumbnail));
+    } catch (error) {
+      console.warn('⚠️ [Enhanced] Não foi possível calcular hash perceptual da thumbnail:', error);
+    }
+  }
+
+  for (const image of carouselMetadata?.carousel_images || []) {
+    if (!image.thumbnail) continue;
+    try {
+      const imageHashes = await computePerceptualHashes(image.thumbnail);
+      image.phash = imageHashes.phash;
+      image.dhash = imageHashes.dhash;
+      hashes.set(image.order, imageHashes);
+    } catch (error) {
+      console.warn('⚠️ [Enhanced] Não foi possível calcular hash perceptual da imagem', image.order, error);
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * Grava os hashes perceptuais sem falhar a assinatura
+ */
+async function persistSigningImageHashes(contentId: string | undefined, hashes: Map<number, PerceptualHashes>): Promise<void> {
+  if (!contentId || hashes.size === 0) return;
+  try {
+    await savePerceptualHashes(contentId, hashes);
+  } catch (error) {
+    console.warn('⚠️ [Enhanced] Erro ao salvar hashes perceptuais (não crítico):', error);
+  }
 }
 
 /**
@@ -103,6 +157,7 @@ interface SignContentResult {
  * @param platforms - Plataformas sociais
  * @param fileMetadata - 🆕 Metadados do arquivo anexado (opcional)
  * @param carouselMetadata - 🎠 Metadados do carrossel (opcional)
+ * @param lineage - 🌳 Certificado de origem de uma obra derivada (opcional)
  * @returns Resultado da assinatura
  */
 export async function signContentEnhanced(
@@ -116,7 +171,9 @@ export async function signContentEnhanced(
   fileMetadata?: FileMetadata, // 🆕 Novo parâmetro opcional
   creatorSocialLinksParam?: SocialLinks, // 🔗 Links sociais (opcional, sobrescreve busca do banco)
   allowFileDownload?: boolean, // 📥 Permite download do arquivo (opcional)
-  carouselMetadata?: CarouselMetadata // 🎠 Metadados de carrossel opcional
+  carouselMetadata?: CarouselMetadata, // 🎠 Metadados de carrossel opcional
+  lineage?: ContentLineageInput, // 🌳 Origem (obra derivada) opcional
+  organizationId?: string // 🏢 Emitir em nome de uma organização (validado no banco)
 ): Promise<SignContentResult> {
   const useEdgeFunction = isFeatureEnabled(FeatureFlag.USE_EDGE_FUNCTION_SIGNING);
   const enableFallback = isFeatureEnabled(FeatureFlag.ENABLE_FALLBACK);
@@ -233,6 +290,10 @@ export async function signContentEnhanced(
     }
   }
 
+  // 🧬 Hashes perceptuais (busca de cópias redimensionadas/recomprimidas)
+  // Calculados antes da assinatura para que o carousel_metadata já os contenha
+  const imageHashes = await computeSigningImageHashes(thumbnail, carouselMetadata);
+
   // 🔐 MÉTODO 1: Edge Function (se ativada)
   if (useEdgeFunction) {
     try {
@@ -258,7 +319,8 @@ export async function signContentEnhanced(
         thumbnail,
         platforms,
         fileMetadata,
-        carouselMetadata
+        carouselMetadata,
+        organizationId
       );
 
       if (!edgeResult.success) {
@@ -287,6 +349,30 @@ export async function signContentEnhanced(
           });
         }
 
+        await persistSigningImageHashes(edgeResult.signedContent?.id, imageHashes);
+
+        // 🌳 A Edge Function não grava a origem: registra em seguida
+        if (lineage && edgeResult.signedContent) {
+          const linkResult = await linkContentToParent(edgeResult.signedContent.id, lineage);
+          if (linkResult.success) {
+            edgeResult.signedContent.parentContentId = lineage.parentContentId;
+            edgeResult.signedContent.relationType = lineage.relationType;
+          }
+        }
+
+        // 🏢 A organização vai no INSERT (e a autenticação é cobrada do pool)
+        if (organizationId && edgeResult.signedContent) {
+          edgeResult.signedContent.organizationId = organizationId;
+        }
+
+        // ⏱️ Carimbo de tempo RFC 3161 (não crítico)
+        if (edgeResult.signedContent) {
+          const timestampResult = await requestContentTimestamp(edgeResult.signedContent.id);
+          if (timestampResult.timestamp) {
+            edgeResult.signedContent = applyTimestamp(edgeResult.signedContent, timestampResult.timestamp);
+          }
+        }
+
         return {
           success: true,
           signedContent: edgeResult.signedContent,
@@ -313,12 +399,52 @@ export async function signContentEnhanced(
   try {
     console.log('🔐 [Enhanced] Usando método client-side tradicional...');
 
+    // 🔑 Identifica o par de chaves usado e impede assinatura com chave não ativa
+    const { data: keyRecord, error: keyLookupError } = await supabase
+      .from('key_pairs')
+      .select('id, status')
+      .eq('user_id', userId)
+      .eq('public_key', publicKey)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (keyLookupError) {
+      console.warn('⚠️ [Enhanced] Não foi possível identificar o par de chaves (não crítico):', keyLookupError);
+    }
+
+    let signingPublicKey = publicKey;
+    let signingPrivateKey = privateKey;
+    let signingKeyId = keyRecord?.id || null;
+
+    if (keyRecord && keyRecord.status && keyRecord.status !== 'active') {
+      // Chave rotacionada/revogada em outro dispositivo: descarta o cache
+      // local (e o backup) e busca a chave ativa atual
+      console.warn('⚠️ [Enhanced] Chave em uso não está ativa:', keyRecord.status);
+      clearAllKeys(userId);
+      const activeKeyPair = await getActiveKeyPair(userId);
+
+      if (!activeKeyPair) {
+        return {
+          success: false,
+          error: keyRecord.status === 'revoked'
+            ? 'Sua chave de assinatura foi revogada. Gere uma nova chave nas Configurações.'
+            : 'Sua chave de assinatura foi substituída e a chave atual não pôde ser carregada. Tente novamente.',
+          method: 'client_side',
+        };
+      }
+
+      console.log('🔑 [Enhanced] Assinando com a chave ativa atual:', activeKeyPair.id);
+      signingPublicKey = activeKeyPair.publicKey;
+      signingPrivateKey = activeKeyPair.privateKey;
+      signingKeyId = activeKeyPair.id;
+    }
+
     // Gera hash do conteúdo
     const contentHash = await generateHash(content);
 
-    // Gera assinatura
-    const signatureData = `${contentHash}:${privateKey}:${Date.now()}`;
-    const signature = await generateHash(signatureData);
+    // 🔏 Gera assinatura ECDSA P-256 (formato versionado VID-SIG-v2)
+    const signature = await signHash(contentHash, signingPrivateKey);
 
     // Gera código de verificação
     const verificationCode = generateVerificationCode(signature, contentHash);
@@ -329,7 +455,8 @@ export async function signContentEnhanced(
       content,
       content_hash: contentHash,
       signature,
-      public_key: publicKey,
+      public_key: signingPublicKey,
+      key_id: signingKeyId,
       creator_name: creatorName,
       verification_code: verificationCode,
       thumbnail: thumbnail || null,
@@ -340,12 +467,18 @@ export async function signContentEnhanced(
       file_path: fileMetadata?.file_path || null,
       file_name: fileMetadata?.file_name || null,
       file_size: fileMetadata?.file_size || null,
+      file_hash: fileMetadata?.file_hash || null,
       mime_type: fileMetadata?.mime_type || null,
       storage_bucket: fileMetadata?.storage_bucket || null,
       // 🎠 Adicionar metadados de carrossel
       total_images: carouselMetadata?.total_images || null,
       // 🐛 FIX v1.1.1: JSONB aceita objeto direto - JSON.stringify gravava string em jsonb
       carousel_metadata: carouselMetadata || null,
+      // 🌳 Origem (validada pelo trigger validate_content_lineage)
+      parent_content_id: lineage?.parentContentId || null,
+      relation_type: lineage?.relationType || null,
+      // 🏢 Organização (validada pelo trigger validate_content_organization)
+      organization_id: organizationId || null,
     };
 
     console.log('💾 [Enhanced] Salvando conteúdo no banco...');
@@ -365,6 +498,11 @@ export async function signContentEnhanced(
     }
 
     console.log('✅ [Enhanced] Conteúdo salvo com sucesso!');
+    await persistSigningImageHashes(data.id, imageHashes);
+
+    // ⏱️ Carimbo de tempo RFC 3161 (não crítico; gravado antes da releitura abaixo)
+    await requestContentTimestamp(data.id);
+
     console.log('🔍 [Enhanced] Buscando links sociais do criador...');
 
     // 🆕 CORREÇÃO CRÍTICA: Busca o conteúdo completo com links sociais
@@ -443,6 +581,7 @@ function dbSignedContentToAppSignedContent(
     contentHash: dbContent.content_hash,
     signature: dbContent.signature,
     publicKey: dbContent.public_key,
+    keyId: dbContent.key_id || undefined,
     createdAt: dbContent.created_at,
     creatorName: dbContent.creator_name,
     verificationCode: dbContent.verification_code,
@@ -454,11 +593,29 @@ function dbSignedContentToAppSignedContent(
     filePath: dbContent.file_path || undefined,
     fileName: dbContent.file_name || undefined,
     fileSize: dbContent.file_size || undefined,
+    fileHash: dbContent.file_hash || undefined,
+    perceptualHash: dbContent.perceptual_hash || undefined,
     mimeType: dbContent.mime_type || undefined,
     storageBucket: dbContent.storage_bucket || undefined,
     // 🎠 Adicionar metadados de carrossel
     totalImages: dbContent.total_images || undefined,
     carouselMetadata: parsedCarouselMetadata,
+    // 🌳 Linhagem
+    parentContentId: dbContent.parent_content_id,
+    relationType: dbContent.relation_type as ContentRelationType | null,
+    organizationId: dbContent.organization_id,
+    // ⏱️ Carimbo de tempo
+    tsaToken: dbContent.tsa_token,
+    tsaUrl: dbContent.tsa_url,
+    tsaName: dbContent.tsa_name,
+    tsaSerial: dbContent.tsa_serial,
+    tsaGenTime: dbContent.tsa_gen_time,
+    // 🚫 Revogação e disputa
+    revokedAt: dbContent.revoked_at,
+    revocationReason: dbContent.revocation_reason as RevocationReason | null,
+    revocationNote: dbContent.revocation_note,
+    disputedAt: dbContent.disputed_at,
+    disputeReason: dbContent.dispute_reason,
   };
 }
 
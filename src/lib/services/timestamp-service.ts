@@ -0,0 +1,116 @@
+/**
+ * =====================================================
+ * TIMESTAMP SERVICE
+ * =====================================================
+ *
+ * Carimbo de tempo confiável (RFC 3161) dos certificados:
+ *
+ * - Logo após a assinatura, a Edge Function timestamp-content pede a uma
+ *   TSA independente um carimbo sobre o content_hash e grava o token em
+ *   signed_contents.tsa_*
+ * - O token é verificado no navegador (src/lib/rfc3161.ts) no /certificate
+ *   e no certificado HTML exportado
+ * - Falha da TSA não impede a assinatura: o dono pode pedir o carimbo
+ *   depois pelo certificado
+ *
+ * @module TimestampService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import { verifyTimestampToken, type TimestampVerification } from '@/lib/rfc3161';
+import type { SignedContent } from '@/lib/supabase-crypto';
+
+export type { TimestampVerification };
+
+/**
+ * Carimbo gravado no certificado
+ */
+export interface TrustedTimestamp {
+  /** TimeStampToken DER em base64 */
+  token: string;
+  tsaUrl: string | null;
+  tsaName: string | null;
+  /** Número de série (hex) */
+  serial: string;
+  /** genTime atestado pela TSA (ISO 8601) */
+  genTime: string;
+}
+
+interface TimestampRow {
+  tsa_token: string;
+  tsa_url: string | null;
+  tsa_name: string | null;
+  tsa_serial: string;
+  tsa_gen_time: string;
+}
+
+/**
+ * Carimbo de um certificado (null se ainda não carimbado)
+ */
+export function getContentTimestamp(content: SignedContent): TrustedTimestamp | null {
+  if (!content.tsaToken || !content.tsaSerial || !content.tsaGenTime) return null;
+
+  return {
+    token: content.tsaToken,
+    tsaUrl: content.tsaUrl || null,
+    tsaName: content.tsaName || null,
+    serial: content.tsaSerial,
+    genTime: content.tsaGenTime,
+  };
+}
+
+/**
+ * Copia o carimbo para o objeto do certificado (campos tsa*)
+ */
+export function applyTimestamp(content: SignedContent, timestamp: TrustedTimestamp): SignedContent {
+  return {
+    ...content,
+    tsaToken: timestamp.token,
+    tsaUrl: timestamp.tsaUrl,
+    tsaName: timestamp.tsaName,
+    tsaSerial: timestamp.serial,
+    tsaGenTime: timestamp.genTime,
+  };
+}
+
+/**
+ * ⏱️ Solicita (ou recupera) o carimbo RFC 3161 de um certificado do usuário
+ */
+export async function requestContentTimestamp(
+  contentId: string
+): Promise<{ success: boolean; timestamp?: TrustedTimestamp; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('timestamp-content', {
+    body: { contentId },
+  });
+
+  if (error || !data?.success || !data.timestamp) {
+    const message = data?.error || error?.message || 'Falha ao obter o carimbo de tempo';
+    console.warn('⚠️ [Timestamp] Carimbo não obtido:', message);
+    return { success: false, error: message };
+  }
+
+  const row = data.timestamp as TimestampRow;
+  console.log('⏱️ [Timestamp] Carimbo obtido:', row.tsa_serial, row.tsa_gen_time);
+
+  return {
+    success: true,
+    timestamp: {
+      token: row.tsa_token,
+      tsaUrl: row.tsa_url,
+      tsaName: row.tsa_name,
+      serial: row.tsa_serial,
+      genTime: row.tsa_gen_time,
+    },
+  };
+}
+
+/**
+ * 🔍 Verifica o carimbo do certificado (null se não houver carimbo)
+ */
+export async function verifyContentTimestamp(content: SignedContent): Promise<TimestampVerification | null> {
+  const timestamp = getContentTimestamp(content);
+  if (!timestamp) return null;
+  return verifyTimestampToken(timestamp.token, content.contentHash);
+}
@@ -0,0 +1,262 @@
+/**
+ * =====================================================
+ * TRANSPARENCY SERVICE
+ * =====================================================
+ *
+ * Log de transparência dos certificados (árvore de Merkle append-only):
+ *
+ * - Toda emissão entra no log (trigger em signed_contents) e, de hora em
+ *   hora, a Edge Function transparency-log publica um tree head assinado
+ * - No /certificate, a entrada do log é comparada com o certificado e a
+ *   prova de inclusão é verificada contra a raiz do último tree head
+ * - O navegador guarda o último tree head visto e exige uma prova de
+ *   consistência do seguinte (o log não pode reescrever o passado)
+ *
+ * A verificação em si fica em src/lib/transparency-verifier.ts, sem
+ * dependências, para que terceiros possam auditar o log.
+ *
+ * @module TransparencyService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import {
+  hashLogEntry,
+  verifyConsistencyProof,
+  verifyInclusionProof,
+  verifyTreeHead,
+  type SignedTreeHead,
+  type TransparencyLogEntry,
+} from '@/lib/transparency-verifier';
+import type { SignedContent } from '@/lib/supabase-crypto';
+
+export type { SignedTreeHead, TransparencyLogEntry };
+
+/**
+ * Resultado da verificação de um certificado no log:
+ * - verified: incluído no último tree head assinado
+ * - pending: registrado, aguardando o próximo tree head
+ * - mismatch: a entrada do log não corresponde ao certificado
+ * - missing: o certificado não está no log
+ * - invalid: prova, assinatura ou consistência inválida
+ * - error: log indisponível
+ */
+export type TransparencyStatus = 'verified' | 'pending' | 'mismatch' | 'missing' | 'invalid' | 'error';
+
+export interface TransparencyVerification {
+  status: TransparencyStatus;
+  detail: string;
+  entry?: TransparencyLogEntry;
+  treeHead?: SignedTreeHead;
+  /** Consistência com o tree head visto anteriormente neste navegador */
+  consistentWithPrevious?: boolean;
+}
+
+interface TreeHeadResponse extends SignedTreeHead {
+  logKeyId: string;
+}
+
+/** Último tree head verificado neste navegador */
+const LAST_TREE_HEAD_STORAGE_KEY = 'veroid_transparency_sth';
+
+/** Chave pública do log fixada no build (opcional, recomendada) */
+const PINNED_LOG_PUBLIC_KEY: string | undefined = import.meta.env.VITE_TRANSPARENCY_LOG_PUBLIC_KEY;
+
+let logPublicKeyPromise: Promise<string | null> | null = null;
+
+async function invokeLog<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('transparency-log', { body });
+
+  if (error) {
+    // 404 também chega como erro: o corpo traz a mensagem da função
+    const context = (error as { context?: Response }).context;
+    const payload = context ? await context.json().catch(() => null) : null;
+    if (payload) return payload as T;
+    throw error;
+  }
+  return data as T;
+}
+
+/**
+ * 🔑 Chave pública do log (fixada no build ou obtida da Edge Function)
+ */
+export async function getLogPublicKey(): Promise<string | null> {
+  if (PINNED_LOG_PUBLIC_KEY) return PINNED_LOG_PUBLIC_KEY;
+
+  if (!logPublicKeyPromise) {
+    logPublicKeyPromise = invokeLog<{ success: boolean; publicKey?: string }>({ action: 'public-key' })
+      .then((data) => (data.success && data.publicKey) || null)
+      .catch(() => null);
+  }
+  return logPublicKeyPromise;
+}
+
+function loadLastTreeHead(): SignedTreeHead | null {
+  try {
+    const stored = localStorage.getItem(LAST_TREE_HEAD_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SignedTreeHead) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveLastTreeHead(treeHead: SignedTreeHead): void {
+  try {
+    const { treeSize, timestamp, rootHash, signature } = treeHead;
+    localStorage.setItem(LAST_TREE_HEAD_STORAGE_KEY, JSON.stringify({ treeSize, timestamp, rootHash, signature }));
+  } catch {
+    // localStorage indisponível (modo privado): apenas não guarda
+  }
+}
+
+/**
+ * 🔗 Confere que o tree head atual estende o último visto neste navegador
+ */
+async function checkConsistencyWithPrevious(current: SignedTreeHead): Promise<boolean> {
+  const previous = loadLastTreeHead();
+
+  if (previous && previous.treeSize > current.treeSize) {
+    console.error('🚨 [Transparency] Tree head menor que o já visto:', previous.treeSize, '>', current.treeSize);
+    return false;
+  }
+
+  if (previous && previous.treeSize > 0) {
+    const data = await invokeLog<{ success: boolean; proof?: string[] }>({
+      action: 'consistency',
+      first: previous.treeSize,
+      second: current.treeSize,
+    });
+
+    const consistent = !!data.success && await verifyConsistencyProof(
+      previous.treeSize,
+      current.treeSize,
+      previous.rootHash,
+      current.rootHash,
+      data.proof || []
+    );
+    if (!consistent) {
+      console.error('🚨 [Transparency] Prova de consistência inválida:', previous.treeSize, '→', current.treeSize);
+      return false;
+    }
+  }
+
+  if (!previous || current.treeSize > previous.treeSize) {
+    saveLastTreeHead(current);
+  }
+  return true;
+}
+
+/**
+ * A entrada do log corresponde ao certificado exibido?
+ */
+function entryMatchesContent(entry: TransparencyLogEntry, content: SignedContent): boolean {
+  const issuedDelta = Math.abs(new Date(entry.issuedAt).getTime() - new Date(content.createdAt).getTime());
+
+  return entry.contentId === content.id
+    && entry.contentHash === content.contentHash
+    && entry.verificationCode === content.verificationCode
+    && (!content.keyId || !entry.keyId || entry.keyId === content.keyId)
+    && issuedDelta < 1000;
+}
+
+/**
+ * 🔍 Verifica o certificado no log de transparência
+ */
+export async function verifyCertificateInLog(content: SignedContent): Promise<TransparencyVerification> {
+  try {
+    const data = await invokeLog<{
+      success: boolean;
+      pending?: boolean;
+      entry?: TransparencyLogEntry;
+      sth?: TreeHeadResponse | null;
+      proof?: string[];
+      error?: string;
+    }>({ action: 'inclusion', contentId: content.id });
+
+    if (!data.success || !data.entry) {
+      return {
+        status: 'missing',
+        detail: data.error || 'Certificado não encontrado no log de transparência.',
+      };
+    }
+
+    const entry = data.entry;
+    if (!entryMatchesContent(entry, content)) {
+      return {
+        status: 'mismatch',
+        detail: 'A entrada do log não corresponde aos dados deste certificado.',
+        entry,
+      };
+    }
+
+    if (await hashLogEntry(entry) !== entry.leafHash) {
+      return {
+        status: 'invalid',
+        detail: 'O hash da entrada no log não confere com os dados registrados.',
+        entry,
+      };
+    }
+
+    if (data.pending || !data.sth) {
+      return {
+        status: 'pending',
+        detail: 'Registrado no log. A prova de inclusão estará disponível após a próxima publicação (até 1 hora).',
+        entry,
+      };
+    }
+
+    const treeHead = data.sth;
+    const logPublicKey = await getLogPublicKey();
+    if (!logPublicKey || !await verifyTreeHead(treeHead, logPublicKey)) {
+      return {
+        status: 'invalid',
+        detail: 'A assinatura do tree head não confere com a chave pública do log.',
+        entry,
+        treeHead,
+      };
+    }
+
+    const included = await verifyInclusionProof(
+      entry.leafHash,
+      entry.leafIndex,
+      treeHead.treeSize,
+      data.proof || [],
+      treeHead.rootHash
+    );
+    if (!included) {
+      return {
+        status: 'invalid',
+        detail: 'A prova de inclusão não confere com a raiz do tree head assinado.',
+        entry,
+        treeHead,
+      };
+    }
+
+    const consistentWithPrevious = await checkConsistencyWithPrevious(treeHead);
+    if (!consistentWithPrevious) {
+      return {
+        status: 'invalid',
+        detail: 'O log não é consistente com o tree head visto anteriormente neste navegador.',
+        entry,
+        treeHead,
+        consistentWithPrevious,
+      };
+    }
+
+    console.log('🌳 [Transparency] Certificado incluído no log:', entry.leafIndex, '/', treeHead.treeSize);
+    return {
+      status: 'verified',
+      detail: `Entrada #${entry.leafIndex} incluída no tree head de ${treeHead.treeSize} certificados.`,
+      entry,
+      treeHead,
+      consistentWithPrevious,
+    };
+  } catch (error) {
+    console.error('❌ [Transparency] Erro ao verificar o log:', error);
+    return {
+      status: 'error',
+      detail: 'Não foi possível consultar o log de transparência agora.',
+    };
+  }
+}
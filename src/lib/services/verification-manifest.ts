@@ -0,0 +1,290 @@
+/**
+ * 🧾 VERIFICATION MANIFEST SERVICE
+ *
+ * Gera um manifesto JSON canônico e autocontido para cada certificado.
+ * O manifesto contém tudo o que é necessário para verificar a assinatura
+ * sem acesso ao servidor: hash, algoritmo, assinatura, chave pública (JWK),
+ * código de verificação, criador, datas, metadados de arquivo e hashes
+ * das imagens de carrossel.
+ *
+ * Canonicalização: chaves ordenadas lexicograficamente, sem espaços,
+ * campos `undefined` omitidos (compatível com RFC 8785 para os tipos usados).
+ *
+ * O manifesto é emitido pela Edge Function `verification-manifest` a partir
+ * do banco, apenas para o criador do certificado. A seção `attestation`
+ * assina `MANIFEST_SIGNING_CONTEXT` + SHA-256 do corpo canônico com a chave
+ * do criador: editar qualquer campo invalida o manifesto.
+ *
+ * A chave embutida no manifesto não é confiável por si só: a verificação
+ * confere o certificado registrado e o registro de chaves do criador
+ * (check_public_key_ownership) antes de aceitar a attestation.
+ *
+ * @module VerificationManifestService
+ * @version 1.0.0
+ * @date 2026-10-18
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getSignedContentById, type SignedContent } from '@/lib/supabase-crypto';
+import { checkPublicKeyOwnership } from '@/lib/offline-verification';
+import {
+  generateHash,
+  verifyHashSignature,
+  type SignatureStatus,
+} from '@/lib/crypto';
+
+/** Identificador de versão do formato do manifesto */
+export const MANIFEST_VERSION = 'veroid-manifest/3';
+
+/** Prefixo do payload assinado da attestation (separação de domínio das assinaturas) */
+const MANIFEST_SIGNING_CONTEXT = 'veroid-manifest-v1\n';
+
+/**
+ * Imagem de carrossel no manifesto
+ */
+export interface ManifestCarouselImage {
+  order: number;
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string | null;
+}
+
+/**
+ * Manifesto de verificação
+ */
+export interface VerificationManifest {
+  version: typeof MANIFEST_VERSION;
+  generatedAt: string;
+  certificate: {
+    id: string;
+    verificationCode: string;
+    createdAt: string;
+    verifyUrl: string;
+  };
+  creator: {
+    userId: string;
+    name: string | null;
+  };
+  content: {
+    text: string;
+    hash: string;
+    hashAlgorithm: 'SHA-256';
+  };
+  signature: {
+    format: 'VID-SIG-v2' | 'legacy';
+    algorithm: 'ECDSA-P256-SHA256' | 'unknown';
+    value: string;
+    publicKey: string;
+    publicKeyJwk: JsonWebKey | null;
+  };
+  file: {
+    name: string;
+    size: number | null;
+    mimeType: string | null;
+    sha256: string | null;
+  } | null;
+  carousel: {
+    totalImages: number;
+    images: ManifestCarouselImage[];
+  } | null;
+  platforms: string[];
+  /** Assinatura do corpo canônico (todos os campos acima) com a chave do criador */
+  attestation: {
+    algorithm: 'ECDSA-P256-SHA256';
+    bodyHash: string;
+    keyId: string;
+    publicKey: string;
+    value: string;
+  };
+}
+
+/**
+ * Resultado da verificação de um manifesto
+ */
+export interface ManifestVerificationResult {
+  valid: boolean;
+  contentHashMatches: boolean;
+  signatureStatus: SignatureStatus;
+  /** O corpo do manifesto não foi alterado desde a emissão */
+  attestationStatus: SignatureStatus;
+  /** A chave pública confere com o certificado registrado e pertence ao criador (não revogada) */
+  keyTrusted: boolean;
+  errors: string[];
+}
+
+/**
+ * Serializa um valor JSON de forma canônica (chaves ordenadas, sem espaços)
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalizeJson(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalizeJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * 🔏 Solicita à Edge Function o manifesto assinado de um certificado
+ */
+export async function requestVerificationManifest(certificateId: string): Promise<VerificationManifest> {
+  const { data, error } = await supabase.functions.invoke('verification-manifest', {
+    body: { certificateId },
+  });
+
+  if (error || !data?.success) {
+    throw new Error(data?.error || error?.message || 'Erro ao emitir manifesto de verificação');
+  }
+
+  return data.manifest as VerificationManifest;
+}
+
+/**
+ * Serializa o manifesto no formato canônico
+ */
+export function serializeVerificationManifest(manifest: VerificationManifest): string {
+  return canonicalizeJson(manifest);
+}
+
+/**
+ * 🔑 Confere a chave do manifesto com a âncora de confiança: o certificado
+ * registrado (mesmo criador, hash e chave) e o registro de chaves do criador
+ */
+async function checkManifestTrustAnchor(manifest: VerificationManifest): Promise<string[]> {
+  const publicKey = manifest.signature?.publicKey ?? '';
+  const record = manifest.certificate?.id ? await getSignedContentById(manifest.certificate.id) : null;
+
+  if (!record) {
+    return ['O certificado do manifesto não está registrado no Vero iD'];
+  }
+  if (
+    record.userId !== manifest.creator?.userId ||
+    record.publicKey !== publicKey ||
+    record.contentHash !== manifest.content?.hash
+  ) {
+    return ['O manifesto não corresponde ao certificado registrado'];
+  }
+
+  try {
+    const ownership = await checkPublicKeyOwnership(record.userId, publicKey);
+    if (!ownership || !ownership.belongsToUser) {
+      return ['A chave pública do manifesto não está registrada para o criador'];
+    }
+    if (ownership.isRevoked) {
+      return ['A chave pública do manifesto foi revogada'];
+    }
+  } catch (error) {
+    console.error('❌ [VerificationManifest] Erro ao consultar chave:', error);
+    return ['Não foi possível consultar o registro de chaves'];
+  }
+
+  return [];
+}
+
+/**
+ * 🔍 Verifica um manifesto:
+ * 1. recalcula o SHA-256 do texto assinado e compara com o hash
+ * 2. valida a assinatura ECDSA contra a chave pública embutida
+ * 3. recalcula o hash do corpo canônico e valida a attestation
+ *    (mesma chave do certificado) — qualquer campo editado é recusado
+ * 4. confere a chave com o certificado registrado e o registro de chaves
+ *    do criador — um manifesto assinado com outra chave é recusado
+ */
+export async function verifyVerificationManifest(
+  manifestInput: string | VerificationManifest
+): Promise<ManifestVerificationResult> {
+  const errors: string[] = [];
+  let manifest: VerificationManifest;
+
+  try {
+    manifest = typeof manifestInput === 'string' ? JSON.parse(manifestInput) : manifestInput;
+  } catch {
+    return {
+      valid: false,
+      contentHashMatches: false,
+      signatureStatus: 'invalid',
+      attestationStatus: 'invalid',
+      keyTrusted: false,
+      errors: ['Manifesto não é um JSON válido'],
+    };
+  }
+
+  if (manifest?.version !== MANIFEST_VERSION) {
+    errors.push(`Versão de manifesto não suportada: ${manifest?.version}`);
+  }
+
+  const computedHash = await generateHash(manifest?.content?.text ?? '');
+  const contentHashMatches = computedHash === manifest?.content?.hash;
+  if (!contentHashMatches) {
+    errors.push('O hash do conteúdo não confere com o texto assinado');
+  }
+
+  const signatureStatus = await verifyHashSignature(
+    manifest?.content?.hash ?? '',
+    manifest?.signature?.value ?? '',
+    manifest?.signature?.publicKey ?? ''
+  );
+  if (signatureStatus === 'legacy') {
+    errors.push('Assinatura no formato legado não pode ser verificada');
+  } else if (signatureStatus === 'invalid') {
+    errors.push('A assinatura não confere com a chave pública');
+  }
+
+  const { attestation, ...manifestBody } = manifest ?? ({} as VerificationManifest);
+  let attestationStatus: SignatureStatus = 'invalid';
+  if (!attestation?.value) {
+    errors.push('Manifesto sem attestation do corpo');
+  } else if (attestation.publicKey !== manifest.signature?.publicKey) {
+    errors.push('A attestation foi feita com uma chave diferente da do certificado');
+  } else if (await generateHash(canonicalizeJson(manifestBody)) !== attestation.bodyHash) {
+    errors.push('O manifesto foi alterado depois de emitido');
+  } else {
+    attestationStatus = await verifyHashSignature(
+      `${MANIFEST_SIGNING_CONTEXT}${attestation.bodyHash}`,
+      attestation.value,
+      attestation.publicKey
+    );
+    if (attestationStatus !== 'valid') {
+      errors.push('A attestation do manifesto não confere com a chave pública');
+    }
+  }
+
+  const trustErrors = manifest
+    ? await checkManifestTrustAnchor(manifest)
+    : ['Manifesto vazio'];
+  errors.push(...trustErrors);
+
+  return {
+    valid: errors.length === 0,
+    contentHashMatches,
+    signatureStatus,
+    attestationStatus,
+    keyTrusted: trustErrors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * 📥 Baixa o manifesto JSON canônico de um certificado
+ */
+export async function downloadVerificationManifest(content: SignedContent): Promise<void> {
+  const manifest = await requestVerificationManifest(content.id);
+  const blob = new Blob([serializeVerificationManifest(manifest)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `veroId-manifest-${content.verificationCode}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
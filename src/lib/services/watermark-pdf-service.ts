@@ -20,7 +20,7 @@
  */
 
 import { jsPDF } from 'jspdf';
-import { addWatermarkToImage, type WatermarkInfo } from './watermark-service';
+import { addWatermarkToImage, withContentCredentials, type WatermarkInfo } from './watermark-service';
 import { applyPDFProtection } from './pdf-protection-service';
 
 // Carrega pdf.js dinamicamente via CDN
@@ -351,8 +351,11 @@ export async function downloadPDFWithWatermark(
   });
   
   try {
-    // Aplica marca d'água
-    const watermarkedBlob = await addWatermarkToPDF(blob, watermarkInfo);
+    // Aplica marca d'água (+ credenciais de conteúdo, se solicitadas)
+    const watermarkedBlob = await withContentCredentials(
+      await addWatermarkToPDF(blob, watermarkInfo),
+      watermarkInfo
+    );
     
     // Download do arquivo
     const url = URL.createObjectURL(watermarkedBlob);
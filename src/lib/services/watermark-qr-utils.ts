@@ -11,6 +11,8 @@
  * @date 2026-05-21
  */
 
+import { buildCertificateUrl } from '@/lib/qrcode';
+
 /**
  * Gera URL ultra-compacta para QR Code (apenas ID e código)
  * 
@@ -18,6 +20,8 @@
  * 
  * Depois: https://www.veroid.com.br/certificate?d=eyJpIjoiZTQ0ODI2MTktODEyZS00MmI2LWJlYjAtOTU2YWM1Njg5OTA0IiwidiI6IkZEMkVFMEQ5IiwibiI6InZlcm9pZC5vZmljaWFsIn0 (147 caracteres)
  * 
+ * Atual: https://www.veroid.com.br/certificate?id=e4482619-812e-42b6-beb0-956ac5689904 (apenas ID)
+ * 
  * Ou AINDA MAIS CURTO usando apenas ID + código: https://www.veroid.com.br/v/FD2EE0D9 (48 caracteres)
  */
 export function generateCompactCertificateUrl(
@@ -32,19 +36,10 @@ export function generateCompactCertificateUrl(
   // Contras: Requer busca por código no backend
   const ultraShortUrl = `${window.location.origin}/v/${verificationCode}`;
   
-  // Opção 2: URL CURTA usando dados mínimos compactados
-  // Prós: QR Code pequeno (~100-150 chars), inclui ID direto
-  // Contras: Um pouco maior que opção 1
-  const compact = {
-    i: certificateId,
-    v: verificationCode,
-    n: creatorName,
-  };
-  
-  const jsonStr = JSON.stringify(compact);
-  const base64 = btoa(unescape(encodeURIComponent(jsonStr)));
-  const urlSafe = base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-  const shortUrl = `${window.location.origin}/certificate?d=${urlSafe}`;
+  // Opção 2: URL CURTA apenas com o ID do certificado
+  // 🔒 Nome e código NÃO vão na URL: a página busca tudo no banco,
+  // então o link não pode ser editado para exibir outro criador
+  const shortUrl = buildCertificateUrl(certificateId);
   
   console.log('✅ [CompactURL] URLs geradas:', {
     ultraShort: ultraShortUrl,
@@ -73,8 +68,8 @@ export function isValidCertificateUrl(url: string): boolean {
       return false;
     }
     
-    // Verifica se tem o parâmetro 'd' ou é uma rota '/v/:code'
-    const hasDataParam = urlObj.searchParams.has('d');
+    // Verifica se tem o parâmetro 'id' (ou 'd' em links antigos) ou é uma rota '/v/:code'
+    const hasDataParam = urlObj.searchParams.has('id') || urlObj.searchParams.has('d');
     const isShortRoute = urlObj.pathname.startsWith('/v/');
     
     return hasDataParam || isShortRoute;
@@ -75,6 +75,9 @@ export interface WatermarkInfo {
   
   /** 🆕 ID do certificado (para gerar URL compacta) */
   certificateId?: string;
+  
+  /** 🆕 Embutir credenciais de conteúdo (C2PA) assinadas - requer certificateId e sessão do criador */
+  contentCredentials?: boolean;
 }
 
 /**
@@ -680,6 +683,24 @@ export async function addWatermarkToImage(
   });
 }
 
+/**
+ * 🔏 Embute credenciais de conteúdo no arquivo final, se solicitado.
+ * Falhas não bloqueiam o download (retorna o arquivo sem credenciais).
+ */
+export async function withContentCredentials(blob: Blob, watermarkInfo: WatermarkInfo): Promise<Blob> {
+  if (!watermarkInfo.contentCredentials || !watermarkInfo.certificateId) {
+    return blob;
+  }
+  
+  try {
+    const { embedContentCredentials } = await import('./content-credentials-service');
+    return await embedContentCredentials(blob, watermarkInfo.certificateId);
+  } catch (error) {
+    console.warn('⚠️ [Watermark] Não foi possível embutir credenciais de conteúdo, usando arquivo sem credenciais:', error);
+    return blob;
+  }
+}
+
 /**
  * Baixa arquivo com marca d'água (se for imagem ou PDF)
  * 
@@ -718,6 +739,7 @@ export async function downloadWithWatermark(
     if (isImageFile(mimeType, fileName)) {
       console.log('🎨 [Watermark] Aplicando marca d\'água em imagem...');
       finalBlob = await addWatermarkToImage(blob, watermarkInfo);
+      finalBlob = await withContentCredentials(finalBlob, watermarkInfo);
     } 
     // Se for PDF, aplica marca d'água
     else if (mimeType?.includes('pdf') || fileName.toLowerCase().endsWith('.pdf')) {
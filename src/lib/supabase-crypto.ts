@@ -1,11 +1,34 @@
 /**
  * Funções de criptografia e integração com Supabase
- * 🆕 ATUALIZADO: Criptografia AES-256-GCM para chaves privadas
+ * 🔐 ATUALIZADO: Chaves privadas protegidas no servidor (envelope encryption
+ * via Edge Function key-vault). A chave mestra nunca chega ao navegador.
  */
 
 import { supabase } from './supabase';
 
 // Tipos
+/**
+ * 🔑 Status de um par de chaves
+ * - active: chave em uso (apenas uma por usuário)
+ * - rotated: substituída por uma nova chave (certificados antigos continuam válidos)
+ * - revoked: comprometida/revogada pelo usuário
+ */
+export type KeyStatus = 'active' | 'rotated' | 'revoked';
+
+/**
+ * 🌳 Relação de uma obra derivada com o certificado de origem
+ * - revision: nova versão editada
+ * - crop: recorte/redimensionamento
+ * - translation: tradução/legendagem
+ * - remix: obra nova a partir do conteúdo (pode ser de outro criador)
+ */
+export type ContentRelationType = 'revision' | 'crop' | 'translation' | 'remix';
+
+/**
+ * 🚫 Motivo da revogação de um certificado
+ */
+export type RevocationReason = 'signed_by_mistake' | 'copyright_dispute' | 'key_compromise' | 'content_error' | 'other';
+
 export interface KeyPair {
   id: string;
   userId: string;
@@ -13,6 +36,20 @@ export interface KeyPair {
   privateKey: string;
   publicKeyHash?: string; // 🎨 Hash SHA-256 para exibição no UI (16 caracteres)
   createdAt: string;
+  status?: KeyStatus;
+}
+
+/**
+ * 🔑 Entrada do histórico de chaves (sem chave privada)
+ */
+export interface KeyPairHistoryEntry {
+  id: string;
+  publicKey: string;
+  publicKeyHash?: string;
+  status: KeyStatus;
+  createdAt: string;
+  rotatedAt: string | null;
+  revokedAt: string | null;
 }
 
 export interface SignedContent {
@@ -23,6 +60,7 @@ export interface SignedContent {
   signature: string;
   verificationCode: string;
   publicKey: string;
+  keyId?: string; // 🔑 ID do par de chaves usado na assinatura
   platforms?: string[];
   folderId?: string | null; // 🆕 ID da pasta (null = sem pasta)
   createdAt: string;
@@ -35,114 +73,78 @@ export interface SignedContent {
   filePath?: string;
   fileName?: string;
   fileSize?: number;
+  fileHash?: string; // 🔍 SHA-256 dos bytes do arquivo original (verificação offline)
+  perceptualHash?: string; // 🧬 pHash (hex) da imagem principal (busca por semelhança)
   mimeType?: string;
   storageBucket?: string;
   // 🎠 Campos de carrossel (retrocompatível)
   carouselMetadata?: Record<string, unknown>; // JSONB com estrutura CarouselMetadata
   totalImages?: number; // Número total de imagens (1 = thumbnail única, >1 = carrossel)
+  // 🌳 Linhagem (obra derivada de outro certificado)
+  parentContentId?: string | null;
+  relationType?: ContentRelationType | null;
+  // 🏢 Organização em nome da qual foi emitido (userId = signatário)
+  organizationId?: string | null;
+  // ⏱️ Carimbo de tempo RFC 3161 (TimeStampToken DER em base64)
+  tsaToken?: string | null;
+  tsaUrl?: string | null;
+  tsaName?: string | null;
+  tsaSerial?: string | null;
+  tsaGenTime?: string | null;
+  // 🚫 Revogação e disputa (o registro original continua visível)
+  revokedAt?: string | null;
+  revocationReason?: RevocationReason | null;
+  revocationNote?: string | null;
+  disputedAt?: string | null;
+  disputeReason?: string | null;
 }
 
-// 🆕 Chave de criptografia (em produção, use variável de ambiente)
-const ENCRYPTION_KEY = 'veroId-encryption-key-2024-secure-aes256';
-
 /**
- * 🆕 Deriva uma chave AES-256 a partir de uma senha
+ * 🔐 Campos de proteção da chave privada (envelope encryption v2)
+ * gerados pela Edge Function key-vault
  */
-async function deriveKey(password: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveBits', 'deriveKey']
-  );
-
-  return crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: encoder.encode('veroId-salt-2024'),
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
-  );
+interface WrappedPrivateKey {
+  encrypted_private_key: string;
+  wrapped_dek: string;
+  key_salt: string;
+  encryption_algorithm: string;
+  key_version: number;
 }
 
 /**
- * 🆕 Criptografa a chave privada usando AES-256-GCM
+ * 🔐 Protege a chave privada no servidor: DEK aleatória + KEK derivada da
+ * chave mestra com salt aleatório por registro
  */
-async function encryptPrivateKey(privateKey: string): Promise<string> {
-  console.log('🔐 [encryptPrivateKey] Iniciando criptografia...');
-  
-  try {
-    const key = await deriveKey(ENCRYPTION_KEY);
-    const encoder = new TextEncoder();
-    const data = encoder.encode(privateKey);
-    
-    // IV (Initialization Vector) aleatório
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    
-    const encryptedData = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      data
-    );
-    
-    // Combina IV + dados criptografados
-    const combined = new Uint8Array(iv.length + encryptedData.byteLength);
-    combined.set(iv, 0);
-    combined.set(new Uint8Array(encryptedData), iv.length);
-    
-    // Converte para base64
-    const encrypted = btoa(String.fromCharCode(...combined));
-    
-    console.log('✅ [encryptPrivateKey] Chave privada criptografada com sucesso');
-    return encrypted;
-  } catch (error) {
-    console.error('❌ [encryptPrivateKey] Erro ao criptografar:', error);
-    throw error;
+async function wrapPrivateKey(keyId: string, privateKey: string): Promise<WrappedPrivateKey> {
+  const { data, error } = await supabase.functions.invoke('key-vault', {
+    body: { action: 'wrap', keyId, privateKey },
+  });
+
+  if (error || !data?.success || !data.wrapped) {
+    throw new Error(data?.error || error?.message || 'Falha ao proteger chave privada');
   }
+
+  return data.wrapped as WrappedPrivateKey;
 }
 
 /**
- * 🆕 Descriptografa a chave privada
+ * 🔓 Recupera a chave privada do usuário autenticado no servidor
+ * (registros legados são re-protegidos automaticamente com envelope v2)
  */
-async function decryptPrivateKey(encryptedPrivateKey: string): Promise<string> {
-  console.log('🔓 [decryptPrivateKey] Iniciando descriptografia...');
-  
-  try {
-    const key = await deriveKey(ENCRYPTION_KEY);
-    
-    // Decodifica de base64
-    const combined = Uint8Array.from(atob(encryptedPrivateKey), c => c.charCodeAt(0));
-    
-    // Separa IV e dados criptografados
-    const iv = combined.slice(0, 12);
-    const encryptedData = combined.slice(12);
-    
-    const decryptedData = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      encryptedData
-    );
-    
-    const decoder = new TextDecoder();
-    const privateKey = decoder.decode(decryptedData);
-    
-    console.log('✅ [decryptPrivateKey] Chave privada descriptografada com sucesso');
-    return privateKey;
-  } catch (error) {
-    console.error('❌ [decryptPrivateKey] Erro ao descriptografar:', error);
-    throw error;
+async function unwrapPrivateKey(keyId: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('key-vault', {
+    body: { action: 'unwrap', keyId },
+  });
+
+  if (error || !data?.success || !data.privateKey) {
+    throw new Error(data?.error || error?.message || 'Falha ao recuperar chave privada');
   }
+
+  return data.privateKey as string;
 }
 
 /**
- * 🆕 Salva par de chaves no Supabase (chave privada criptografada)
+ * 🆕 Salva par de chaves no Supabase (chave privada protegida por envelope)
  */
 export async function saveKeyPairToSupabase(keyPair: KeyPair): Promise<{ success: boolean; error?: string }> {
   console.log('☁️ [saveKeyPairToSupabase] ========== INÍCIO ==========');
@@ -186,13 +188,13 @@ export async function saveKeyPairToSupabase(keyPair: KeyPair): Promise<{ success
     }
     
     console.log('✅ [saveKeyPairToSupabase] Todas as validações passaram');
-    console.log('🔐 [saveKeyPairToSupabase] Criptografando chave privada...');
+    console.log('🔐 [saveKeyPairToSupabase] Protegendo chave privada (envelope encryption)...');
     
-    // Criptografa a chave privada
-    let encryptedPrivateKey: string;
+    // Protege a chave privada no servidor
+    let wrapped: WrappedPrivateKey;
     try {
-      encryptedPrivateKey = await encryptPrivateKey(keyPair.privateKey);
-      console.log('✅ [saveKeyPairToSupabase] Chave privada criptografada com sucesso');
+      wrapped = await wrapPrivateKey(keyPair.id, keyPair.privateKey);
+      console.log('✅ [saveKeyPairToSupabase] Chave privada protegida com sucesso');
     } catch (encryptError) {
       console.error('❌ [saveKeyPairToSupabase] Erro ao criptografar chave privada:', encryptError);
       return { 
@@ -205,18 +207,17 @@ export async function saveKeyPairToSupabase(keyPair: KeyPair): Promise<{ success
     console.log('📊 [saveKeyPairToSupabase] Dados a inserir:', {
       user_id: keyPair.userId,
       public_key: keyPair.publicKey.substring(0, 20) + '...',
-      encrypted_private_key: encryptedPrivateKey.substring(0, 20) + '...',
+      encryption_algorithm: wrapped.encryption_algorithm,
     });
     
     // Salva no Supabase
     const { data, error } = await supabase
       .from('key_pairs')
       .upsert({
+        id: keyPair.id,
         user_id: keyPair.userId,
         public_key: keyPair.publicKey,
-        encrypted_private_key: encryptedPrivateKey,
-        encryption_algorithm: 'AES-256-GCM',
-        key_version: 1,
+        ...wrapped,
       })
       .select();
     
@@ -298,7 +299,7 @@ async function computePublicKeyHash(publicKey: string): Promise<string | undefin
 
 /**
  * 🆕 Obtém o par de chaves do usuário COM DESCRIPTOGRAFIA E FALLBACK
- * 🔧 CORRIGIDO: Suporta chaves antigas (não criptografadas) e novas (criptografadas)
+ * 🔐 Chaves v2 (envelope), v1 (AES com chave fixa) e texto plano são recuperadas via key-vault
  */
 export async function getKeyPair(userId: string): Promise<KeyPair | null> {
   try {
@@ -306,6 +307,7 @@ export async function getKeyPair(userId: string): Promise<KeyPair | null> {
       .from('key_pairs')
       .select('*')
       .eq('user_id', userId)
+      .eq('status', 'active')
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -320,89 +322,25 @@ export async function getKeyPair(userId: string): Promise<KeyPair | null> {
     // o mesmo "ID Visual da Chave" mostrado nos certificados.
     const computedPublicKeyHash = await computePublicKeyHash(data.public_key);
     
-    // ====================================================
-    // 🔧 CORREÇÃO: FALLBACK PARA CHAVES ANTIGAS
-    // ====================================================
-    
-    // Caso 1: Chave CRIPTOGRAFADA (novo formato AES-256-GCM)
-    if (data.encrypted_private_key) {
-      console.log('🔓 Tentando descriptografar chave privada (novo formato)...');
-      
-      try {
-        const decryptedPrivateKey = await decryptPrivateKey(data.encrypted_private_key);
-        
-        console.log('✅ Chave descriptografada com sucesso (novo formato)');
-        return {
-          id: data.id || crypto.randomUUID(),
-          userId: data.user_id,
-          publicKey: data.public_key,
-          privateKey: decryptedPrivateKey,
-          publicKeyHash: computedPublicKeyHash,
-          createdAt: data.created_at,
-        };
-      } catch (decryptError) {
-        console.error('❌ Erro ao descriptografar chave privada:', decryptError);
-        console.warn('⚠️ Tentando fallback para formato antigo...');
-        
-        // Fallback: tenta ler private_key diretamente (formato antigo)
-        if (data.private_key) {
-          console.log('✅ Usando chave antiga (não criptografada) como fallback');
-          return {
-            id: data.id || crypto.randomUUID(),
-            userId: data.user_id,
-            publicKey: data.public_key,
-            privateKey: data.private_key,
-            publicKeyHash: computedPublicKeyHash,
-            createdAt: data.created_at,
-          };
-        }
-        
-        console.error('❌ Não foi possível recuperar chave privada (nem criptografada nem antiga)');
-        return null;
-      }
-    }
-    
-    // Caso 2: Chave NÃO CRIPTOGRAFADA (formato antigo)
-    if (data.private_key) {
-      console.log('✅ Chave antiga encontrada (não criptografada), usando diretamente');
-      
-      // 🔧 OPCIONAL: Re-criptografa automaticamente chave antiga
-      try {
-        console.log('🔄 Tentando re-criptografar chave antiga para segurança...');
-        const encryptedPrivateKey = await encryptPrivateKey(data.private_key);
-        
-        // Atualiza no banco com chave criptografada
-        const { error: updateError } = await supabase
-          .from('key_pairs')
-          .update({
-            encrypted_private_key: encryptedPrivateKey,
-            encryption_algorithm: 'AES-256-GCM',
-            key_version: 1,
-          })
-          .eq('id', data.id);
-        
-        if (!updateError) {
-          console.log('✅ Chave antiga re-criptografada com sucesso no Supabase');
-        } else {
-          console.warn('⚠️ Não foi possível re-criptografar chave antiga (não crítico):', updateError);
-        }
-      } catch (reencryptError) {
-        console.warn('⚠️ Erro ao re-criptografar chave antiga (não crítico):', reencryptError);
-      }
-      
-      return {
-        id: data.id || crypto.randomUUID(),
-        userId: data.user_id,
-        publicKey: data.public_key,
-        privateKey: data.private_key,
-        publicKeyHash: computedPublicKeyHash,
-        createdAt: data.created_at,
-      };
+    if (!data.encrypted_private_key && !data.private_key) {
+      console.error('❌ Nenhuma chave privada encontrada (nem encrypted_private_key nem private_key)');
+      return null;
     }
-    
-    // Caso 3: Nenhuma chave disponível
-    console.error('❌ Nenhuma chave privada encontrada (nem encrypted_private_key nem private_key)');
-    return null;
+
+    // 🔓 A chave privada é recuperada no servidor (key-vault). Registros
+    // legados (texto plano ou AES com chave fixa) são re-protegidos lá.
+    const privateKey = await unwrapPrivateKey(data.id);
+    console.log('✅ Chave privada recuperada com sucesso');
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      publicKey: data.public_key,
+      privateKey,
+      publicKeyHash: computedPublicKeyHash,
+      createdAt: data.created_at,
+      status: data.status,
+    };
     
   } catch (error) {
     console.error('❌ Erro ao buscar chaves do Supabase:', error);
@@ -410,6 +348,128 @@ export async function getKeyPair(userId: string): Promise<KeyPair | null> {
   }
 }
 
+/**
+ * 🔑 Status atual de uma chave pública do usuário em key_pairs
+ * (null quando não foi possível consultar)
+ */
+export async function getKeyPairStatus(userId: string, publicKey: string): Promise<KeyStatus | null> {
+  const { data, error } = await supabase
+    .from('key_pairs')
+    .select('status')
+    .eq('user_id', userId)
+    .eq('public_key', publicKey)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.warn('⚠️ Não foi possível consultar o status da chave:', error);
+    return null;
+  }
+
+  return (data.status as KeyStatus) || 'active';
+}
+
+/**
+ * 🔄 Rotaciona a chave do usuário: a chave ativa atual passa a 'rotated'
+ * e o novo par (chave privada protegida por envelope) passa a ser a chave ativa.
+ * Executado atomicamente pela RPC `rotate_key_pair`.
+ */
+export async function rotateKeyPairInSupabase(keyPair: KeyPair): Promise<{ success: boolean; error?: string }> {
+  try {
+    const wrapped = await wrapPrivateKey(keyPair.id, keyPair.privateKey);
+
+    const { error } = await supabase.rpc('rotate_key_pair', {
+      p_key_id: keyPair.id,
+      p_public_key: keyPair.publicKey,
+      p_encrypted_private_key: wrapped.encrypted_private_key,
+      p_encryption_algorithm: wrapped.encryption_algorithm,
+      p_key_version: wrapped.key_version,
+      p_wrapped_dek: wrapped.wrapped_dek,
+      p_key_salt: wrapped.key_salt,
+    });
+
+    if (error) {
+      console.error('❌ [rotateKeyPairInSupabase] Erro ao rotacionar chave:', error);
+      return { success: false, error: `Database error: ${error.message}` };
+    }
+
+    console.log('✅ [rotateKeyPairInSupabase] Chave rotacionada com sucesso');
+    return { success: true };
+  } catch (error) {
+    console.error('❌ [rotateKeyPairInSupabase] Erro inesperado:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' };
+  }
+}
+
+/**
+ * 🚫 Revoga um par de chaves do usuário (ex: chave comprometida)
+ */
+export async function revokeKeyPairInSupabase(
+  keyId: string,
+  reason?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('revoke_key_pair', {
+      p_key_id: keyId,
+      p_reason: reason || null,
+    });
+
+    if (error) {
+      console.error('❌ [revokeKeyPairInSupabase] Erro ao revogar chave:', error);
+      return { success: false, error: `Database error: ${error.message}` };
+    }
+
+    if (!data) {
+      return { success: false, error: 'Chave não encontrada ou já revogada' };
+    }
+
+    console.log('✅ [revokeKeyPairInSupabase] Chave revogada:', keyId);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ [revokeKeyPairInSupabase] Erro inesperado:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' };
+  }
+}
+
+/**
+ * 📜 Histórico público de chaves de um usuário (mais recente primeiro)
+ */
+export async function getKeyPairHistory(userId: string): Promise<KeyPairHistoryEntry[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_public_key_history', {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      console.error('❌ Erro ao buscar histórico de chaves:', error);
+      return [];
+    }
+
+    return Promise.all(
+      (data || []).map(async (item: {
+        key_id: string;
+        public_key: string;
+        status: KeyStatus;
+        created_at: string;
+        rotated_at: string | null;
+        revoked_at: string | null;
+      }) => ({
+        id: item.key_id,
+        publicKey: item.public_key,
+        publicKeyHash: await computePublicKeyHash(item.public_key),
+        status: item.status,
+        createdAt: item.created_at,
+        rotatedAt: item.rotated_at,
+        revokedAt: item.revoked_at,
+      }))
+    );
+  } catch (error) {
+    console.error('❌ Erro ao buscar histórico de chaves:', error);
+    return [];
+  }
+}
+
 /**
  * Salva conteúdo assinado no Supabase
  */
@@ -424,6 +484,7 @@ export async function saveSignedContent(signedContent: Omit<SignedContent, 'id'
         signature: signedContent.signature,
         verification_code: signedContent.verificationCode,
         public_key: signedContent.publicKey,
+        key_id: signedContent.keyId || null,
         platforms: signedContent.platforms || [],
         folder_id: signedContent.folderId || null, // 🆕 Suporte a pastas
       });
@@ -475,6 +536,7 @@ export async function getSignedContentsByUserId(userId: string): Promise<SignedC
         signature: item.signature,
         verificationCode: item.verification_code,
         publicKey: item.public_key,
+        keyId: item.key_id || undefined,
         platforms: item.platforms || [],
         folderId: item.folder_id || null, // 🆕 Suporte a pastas
         createdAt: item.created_at,
@@ -486,10 +548,25 @@ export async function getSignedContentsByUserId(userId: string): Promise<SignedC
         fileName: item.file_name,
         mimeType: item.mime_type,
         fileSize: item.file_size,
+        fileHash: item.file_hash || undefined,
+        perceptualHash: item.perceptual_hash || undefined,
         storageBucket: item.storage_bucket,
         // 🎠 Campos de carrossel com parsing
         carouselMetadata: parsedCarouselMetadata,
         totalImages: item.total_images,
+        parentContentId: item.parent_content_id || null,
+        relationType: (item.relation_type as ContentRelationType) || null,
+        organizationId: item.organization_id || null,
+        tsaToken: item.tsa_token || null,
+        tsaUrl: item.tsa_url || null,
+        tsaName: item.tsa_name || null,
+        tsaSerial: item.tsa_serial || null,
+        tsaGenTime: item.tsa_gen_time || null,
+        revokedAt: item.revoked_at || null,
+        revocationReason: (item.revocation_reason as RevocationReason) || null,
+        revocationNote: item.revocation_note || null,
+        disputedAt: item.disputed_at || null,
+        disputeReason: item.dispute_reason || null,
       };
     });
   } catch (error) {
@@ -532,6 +609,7 @@ export async function getSignedContentByVerificationCode(code: string): Promise<
       signature: data.signature,
       verificationCode: data.verification_code,
       publicKey: data.public_key,
+      keyId: data.key_id || undefined,
       platforms: data.platforms || [],
       folderId: data.folder_id || null, // 🆕 Suporte a pastas
       createdAt: data.created_at,
@@ -543,10 +621,25 @@ export async function getSignedContentByVerificationCode(code: string): Promise<
       fileName: data.file_name,
       mimeType: data.mime_type,
       fileSize: data.file_size,
+      fileHash: data.file_hash || undefined,
+      perceptualHash: data.perceptual_hash || undefined,
       storageBucket: data.storage_bucket,
       // 🎠 Campos de carrossel com parsing
       carouselMetadata: parsedCarouselMetadata,
       totalImages: data.total_images,
+      parentContentId: data.parent_content_id || null,
+      relationType: (data.relation_type as ContentRelationType) || null,
+      organizationId: data.organization_id || null,
+      tsaToken: data.tsa_token || null,
+      tsaUrl: data.tsa_url || null,
+      tsaName: data.tsa_name || null,
+      tsaSerial: data.tsa_serial || null,
+      tsaGenTime: data.tsa_gen_time || null,
+      revokedAt: data.revoked_at || null,
+      revocationReason: (data.revocation_reason as RevocationReason) || null,
+      revocationNote: data.revocation_note || null,
+      disputedAt: data.disputed_at || null,
+      disputeReason: data.dispute_reason || null,
     };
   } catch (error) {
     console.error('❌ Erro ao buscar conteúdo por código:', error);
@@ -608,6 +701,7 @@ export async function getAllSignedContents(): Promise<SignedContent[]> {
         signature: item.signature,
         verificationCode: item.verification_code,
         publicKey: item.public_key,
+        keyId: item.key_id || undefined,
         platforms: item.platforms || [],
         folderId: item.folder_id || null, // 🆕 Suporte a pastas
         createdAt: item.created_at,
@@ -619,10 +713,25 @@ export async function getAllSignedContents(): Promise<SignedContent[]> {
         fileName: item.file_name,
         mimeType: item.mime_type,
         fileSize: item.file_size,
+        fileHash: item.file_hash || undefined,
+        perceptualHash: item.perceptual_hash || undefined,
         storageBucket: item.storage_bucket,
         // 🎠 Campos de carrossel com parsing
         carouselMetadata: parsedCarouselMetadata,
         totalImages: item.total_images,
+        parentContentId: item.parent_content_id || null,
+        relationType: (item.relation_type as ContentRelationType) || null,
+        organizationId: item.organization_id || null,
+        tsaToken: item.tsa_token || null,
+        tsaUrl: item.tsa_url || null,
+        tsaName: item.tsa_name || null,
+        tsaSerial: item.tsa_serial || null,
+        tsaGenTime: item.tsa_gen_time || null,
+        revokedAt: item.revoked_at || null,
+        revocationReason: (item.revocation_reason as RevocationReason) || null,
+        revocationNote: item.revocation_note || null,
+        disputedAt: item.disputed_at || null,
+        disputeReason: item.dispute_reason || null,
       };
     });
   } catch (error) {
@@ -665,6 +774,7 @@ export async function getSignedContentById(contentId: string): Promise<SignedCon
       signature: data.signature,
       verificationCode: data.verification_code,
       publicKey: data.public_key,
+      keyId: data.key_id || undefined,
       platforms: data.platforms || [],
       folderId: data.folder_id || null, // 🆕 Suporte a pastas
       createdAt: data.created_at,
@@ -676,10 +786,25 @@ export async function getSignedContentById(contentId: string): Promise<SignedCon
       fileName: data.file_name,
       mimeType: data.mime_type,
       fileSize: data.file_size,
+      fileHash: data.file_hash || undefined,
+      perceptualHash: data.perceptual_hash || undefined,
       storageBucket: data.storage_bucket,
       // 🎠 Campos de carrossel com parsing
       carouselMetadata: parsedCarouselMetadata,
       totalImages: data.total_images,
+      parentContentId: data.parent_content_id || null,
+      relationType: (data.relation_type as ContentRelationType) || null,
+      organizationId: data.organization_id || null,
+      tsaToken: data.tsa_token || null,
+      tsaUrl: data.tsa_url || null,
+      tsaName: data.tsa_name || null,
+      tsaSerial: data.tsa_serial || null,
+      tsaGenTime: data.tsa_gen_time || null,
+      revokedAt: data.revoked_at || null,
+      revocationReason: (data.revocation_reason as RevocationReason) || null,
+      revocationNote: data.revocation_note || null,
+      disputedAt: data.disputed_at || null,
+      disputeReason: data.dispute_reason || null,
     };
   } catch (error) {
     console.error('❌ Erro ao buscar conteúdo por ID:', error);
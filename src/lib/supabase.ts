@@ -105,6 +105,7 @@ export interface Database {
           content_hash: string;
           signature: string;
           public_key: string;
+          key_id: string | null;
           timestamp: string;
           creator_name: string;
           verification_code: string;
@@ -115,6 +116,22 @@ export interface Database {
           file_path: string | null;
           file_name: string | null;
           file_size: number | null;
+          file_hash: string | null;
+          perceptual_hash: string | null;
+          parent_content_id: string | null;
+          relation_type: string | null;
+          organization_id: string | null;
+          tsa_token: string | null;
+          tsa_url: string | null;
+          tsa_name: string | null;
+          tsa_serial: string | null;
+          tsa_gen_time: string | null;
+          revoked_at: string | null;
+          revocation_reason: string | null;
+          revocation_note: string | null;
+          revoked_by: string | null;
+          disputed_at: string | null;
+          dispute_reason: string | null;
           mime_type: string | null;
           storage_bucket: string | null;
           created_at: string | null;
@@ -126,6 +143,7 @@ export interface Database {
           content_hash: string;
           signature: string;
           public_key: string;
+          key_id?: string | null;
           timestamp?: string;
           creator_name: string;
           verification_code: string;
@@ -136,6 +154,22 @@ export interface Database {
           file_path?: string | null;
           file_name?: string | null;
           file_size?: number | null;
+          file_hash?: string | null;
+          perceptual_hash?: string | null;
+          parent_content_id?: string | null;
+          relation_type?: string | null;
+          organization_id?: string | null;
+          tsa_token?: string | null;
+          tsa_url?: string | null;
+          tsa_name?: string | null;
+          tsa_serial?: string | null;
+          tsa_gen_time?: string | null;
+          revoked_at?: string | null;
+          revocation_reason?: string | null;
+          revocation_note?: string | null;
+          revoked_by?: string | null;
+          disputed_at?: string | null;
+          dispute_reason?: string | null;
           mime_type?: string | null;
           storage_bucket?: string | null;
           created_at?: string | null;
@@ -147,6 +181,7 @@ export interface Database {
           content_hash?: string;
           signature?: string;
           public_key?: string;
+          key_id?: string | null;
           timestamp?: string;
           creator_name?: string;
           verification_code?: string;
@@ -157,6 +192,22 @@ export interface Database {
           file_path?: string | null;
           file_name?: string | null;
           file_size?: number | null;
+          file_hash?: string | null;
+          perceptual_hash?: string | null;
+          parent_content_id?: string | null;
+          relation_type?: string | null;
+          organization_id?: string | null;
+          tsa_token?: string | null;
+          tsa_url?: string | null;
+          tsa_name?: string | null;
+          tsa_serial?: string | null;
+          tsa_gen_time?: string | null;
+          revoked_at?: string | null;
+          revocation_reason?: string | null;
+          revocation_note?: string | null;
+          revoked_by?: string | null;
+          disputed_at?: string | null;
+          dispute_reason?: string | null;
           mime_type?: string | null;
           storage_bucket?: string | null;
           created_at?: string | null;
@@ -167,24 +218,118 @@ export interface Database {
           id: string;
           user_id: string;
           public_key: string;
-          private_key: string;
+          private_key: string | null;
+          encrypted_private_key: string | null;
+          wrapped_dek: string | null;
+          key_salt: string | null;
+          encryption_algorithm: string | null;
+          key_version: number | null;
           created_at: string;
+          status: 'active' | 'rotated' | 'revoked';
+          rotated_at: string | null;
+          revoked_at: string | null;
+          revocation_reason: string | null;
         };
         Insert: {
           id?: string;
           user_id: string;
           public_key: string;
-          private_key: string;
+          private_key?: string | null;
+          encrypted_private_key?: string | null;
+          wrapped_dek?: string | null;
+          key_salt?: string | null;
+          encryption_algorithm?: string | null;
+          key_version?: number | null;
           created_at?: string;
+          status?: 'active' | 'rotated' | 'revoked';
+          rotated_at?: string | null;
+          revoked_at?: string | null;
+          revocation_reason?: string | null;
         };
         Update: {
           id?: string;
           user_id?: string;
           public_key?: string;
-          private_key?: string;
+          private_key?: string | null;
+          encrypted_private_key?: string | null;
+          wrapped_dek?: string | null;
+          key_salt?: string | null;
+          encryption_algorithm?: string | null;
+          key_version?: number | null;
           created_at?: string;
+          status?: 'active' | 'rotated' | 'revoked';
+          rotated_at?: string | null;
+          revoked_at?: string | null;
+          revocation_reason?: string | null;
+        };
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes: string[];
+          last_used_at: string | null;
+          revoked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes?: string[];
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+      };
+      social_link_verifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          platform: string;
+          url: string;
+          challenge_token: string;
+          status: 'pending' | 'verified' | 'failed';
+          method: 'well_known' | 'dns_txt' | 'profile_bio' | null;
+          verified_at: string | null;
+          last_checked_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          platform: string;
+          url: string;
+          challenge_token: string;
+          status?: 'pending' | 'verified' | 'failed';
+          method?: 'well_known' | 'dns_txt' | 'profile_bio' | null;
+          verified_at?: string | null;
+          last_checked_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'verified' | 'failed';
+          method?: 'well_known' | 'dns_txt' | 'profile_bio' | null;
+          verified_at?: string | null;
+          last_checked_at?: string | null;
+          last_error?: string | null;
+          updated_at?: string;
         };
       };
     };
   };
-}
\ No newline at end of file
+}
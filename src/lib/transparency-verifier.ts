@@ -0,0 +1,235 @@
+/**
+ * ============================================
+ * VERIFICADOR DO LOG DE TRANSPARÊNCIA VERO iD
+ * ============================================
+ *
+ * Módulo SEM dependências (apenas WebCrypto): pode ser copiado e usado
+ * por terceiros no navegador, Node 20+ ou Deno para auditar o log.
+ *
+ * - hashLogEntry(): recalcula a folha a partir dos dados públicos do
+ *   certificado (id, content_hash, key_id, código, data de emissão)
+ * - verifyInclusionProof(): a folha está na árvore com a raiz informada
+ * - verifyConsistencyProof(): a árvore maior estende a menor sem alterar
+ *   nem remover entradas (RFC 9162, seção 2.1.4)
+ * - verifyTreeHead(): assinatura ECDSA P-256 do tree head com a chave
+ *   pública do log
+ *
+ * Hashes em hex; assinaturas e chaves em base64 (r || s / SPKI DER).
+ * ============================================
+ */
+
+export const LOG_ENTRY_PREFIX = 'vid-log-v1';
+export const TREE_HEAD_PREFIX = 'vid-sth-v1';
+
+/**
+ * Dados de um certificado registrados no log
+ */
+export interface TransparencyLogEntry {
+  leafIndex: number;
+  contentId: string;
+  contentHash: string;
+  keyId: string | null;
+  verificationCode: string;
+  /** Data de emissão (ISO 8601 UTC com milissegundos) */
+  issuedAt: string;
+  /** SHA-256(0x00 || dados) em hex */
+  leafHash: string;
+}
+
+/**
+ * Tree head assinado (STH)
+ */
+export interface SignedTreeHead {
+  treeSize: number;
+  /** ISO 8601 */
+  timestamp: string;
+  rootHash: string;
+  /** ECDSA P-256 / SHA-256, r || s em base64 */
+  signature: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+async function hashChildren(left: Uint8Array, right: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const data = new Uint8Array(1 + left.length + right.length);
+  data[0] = 0x01;
+  data.set(left, 1);
+  data.set(right, 1 + left.length);
+  return sha256(data);
+}
+
+/** Desloca n para a direita (seguro acima de 2^31) */
+function shift(n: number): number {
+  return Math.floor(n / 2);
+}
+
+function isOdd(n: number): boolean {
+  return n % 2 === 1;
+}
+
+function isPowerOfTwo(n: number): boolean {
+  while (n > 1 && !isOdd(n)) n = shift(n);
+  return n === 1;
+}
+
+/**
+ * Dados canônicos da folha
+ */
+export function buildLogEntryData(entry: Omit<TransparencyLogEntry, 'leafIndex' | 'leafHash'>): string {
+  return [
+    LOG_ENTRY_PREFIX,
+    entry.contentId,
+    entry.contentHash,
+    entry.keyId || '',
+    entry.verificationCode,
+    entry.issuedAt,
+  ].join('\n');
+}
+
+/**
+ * Hash da folha: SHA-256(0x00 || dados canônicos)
+ */
+export async function hashLogEntry(entry: Omit<TransparencyLogEntry, 'leafIndex' | 'leafHash'>): Promise<string> {
+  const data = new TextEncoder().encode(buildLogEntryData(entry));
+  const prefixed = new Uint8Array(data.length + 1);
+  prefixed.set(data, 1);
+  return toHex(await sha256(prefixed));
+}
+
+/**
+ * Prova de inclusão (RFC 9162, 2.1.3.2)
+ */
+export async function verifyInclusionProof(
+  leafHash: string,
+  leafIndex: number,
+  treeSize: number,
+  proof: string[],
+  rootHash: string
+): Promise<boolean> {
+  if (leafIndex < 0 || leafIndex >= treeSize) return false;
+
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+  let r: Uint8Array = fromHex(leafHash);
+
+  for (const p of proof) {
+    if (sn === 0) return false;
+    const sibling = fromHex(p);
+
+    if (isOdd(fn) || fn === sn) {
+      r = await hashChildren(sibling, r);
+      while (!isOdd(fn) && fn !== 0) {
+        fn = shift(fn);
+        sn = shift(sn);
+      }
+    } else {
+      r = await hashChildren(r, sibling);
+    }
+    fn = shift(fn);
+    sn = shift(sn);
+  }
+
+  return sn === 0 && toHex(r) === rootHash.toLowerCase();
+}
+
+/**
+ * Prova de consistência entre dois tree heads (RFC 9162, 2.1.4.2)
+ */
+export async function verifyConsistencyProof(
+  firstSize: number,
+  secondSize: number,
+  firstRoot: string,
+  secondRoot: string,
+  proof: string[]
+): Promise<boolean> {
+  if (firstSize > secondSize) return false;
+  if (firstSize === secondSize) {
+    return proof.length === 0 && firstRoot.toLowerCase() === secondRoot.toLowerCase();
+  }
+  // Árvore vazia é consistente com qualquer árvore
+  if (firstSize === 0) return proof.length === 0;
+
+  // Se firstSize é potência de 2, a própria raiz antiga inicia a prova
+  const path = isPowerOfTwo(firstSize) ? [firstRoot, ...proof] : proof;
+  if (path.length === 0) return false;
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (isOdd(fn)) {
+    fn = shift(fn);
+    sn = shift(sn);
+  }
+
+  let fr: Uint8Array = fromHex(path[0]);
+  let sr: Uint8Array = fromHex(path[0]);
+
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    const node = fromHex(c);
+
+    if (isOdd(fn) || fn === sn) {
+      fr = await hashChildren(node, fr);
+      sr = await hashChildren(node, sr);
+      while (!isOdd(fn) && fn !== 0) {
+        fn = shift(fn);
+        sn = shift(sn);
+      }
+    } else {
+      sr = await hashChildren(sr, node);
+    }
+    fn = shift(fn);
+    sn = shift(sn);
+  }
+
+  return sn === 0
+    && toHex(fr) === firstRoot.toLowerCase()
+    && toHex(sr) === secondRoot.toLowerCase();
+}
+
+/**
+ * Mensagem assinada do tree head
+ */
+export function buildTreeHeadMessage(treeHead: Omit<SignedTreeHead, 'signature'>): string {
+  return [TREE_HEAD_PREFIX, treeHead.treeSize, treeHead.timestamp, treeHead.rootHash].join('\n');
+}
+
+/**
+ * Assinatura do tree head com a chave pública do log (SPKI DER em base64)
+ */
+export async function verifyTreeHead(treeHead: SignedTreeHead, logPublicKey: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey(
+      'spki',
+      fromBase64(logPublicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      fromBase64(treeHead.signature),
+      new TextEncoder().encode(buildTreeHeadMessage(treeHead))
+    );
+  } catch {
+    return false;
+  }
+}
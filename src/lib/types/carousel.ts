@@ -24,6 +24,15 @@ export interface CarouselImage {
   
   /** Thumbnail comprimida em base64 */
   thumbnail: string;
+  
+  /** SHA-256 (hex) dos bytes da imagem original */
+  sha256?: string;
+  
+  /** 🧬 pHash (hex, 64 bits) para busca de cópias semelhantes */
+  phash?: string;
+  
+  /** 🧬 dHash (hex, 64 bits) para busca de cópias semelhantes */
+  dhash?: string;
 }
 
 /**
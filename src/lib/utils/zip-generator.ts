@@ -2,7 +2,8 @@
  * 📦 ZIP GENERATOR UTILITY
  * 
  * Utilitário para gerar arquivos ZIP com múltiplas imagens.
- * Usado para download de carrossel completo de imagens.
+ * Usado para download de carrossel completo de imagens e para o
+ * download em lote de certificados do Dashboard.
  * 
  * @module ZipGenerator
  * @version 1.0.0
@@ -196,6 +197,66 @@ export async function generateCarouselZip(
   }
 }
 
+/**
+ * Arquivo a incluir no ZIP (path relativo, ex: "ABC123/foto.jpg")
+ */
+export interface ZipEntry {
+  path: string;
+  data: Blob | string;
+}
+
+/**
+ * Gera um ZIP a partir de arquivos já obtidos
+ * 
+ * @param entries - Arquivos (Blob ou texto) com seus paths dentro do ZIP
+ * @returns Resultado com Blob do ZIP
+ */
+export async function generateZipFromEntries(entries: ZipEntry[]): Promise<ZipGenerationResult> {
+  const startTime = Date.now();
+
+  if (entries.length === 0) {
+    return {
+      success: false,
+      error: 'Nenhum arquivo para adicionar ao ZIP',
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  try {
+    const zip = new JSZip();
+    entries.forEach(entry => zip.file(entry.path, entry.data));
+
+    console.log('🗜️ [ZipGenerator] Gerando arquivo ZIP com', entries.length, 'arquivos...');
+    const zipBlob = await zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: {
+        level: 6,
+      },
+    });
+
+    const executionTime = Date.now() - startTime;
+    console.log('✅ [ZipGenerator] ZIP gerado com sucesso:', {
+      size: `${(zipBlob.size / 1024 / 1024).toFixed(2)}MB`,
+      executionTime: `${executionTime}ms`,
+      files: entries.length,
+    });
+
+    return {
+      success: true,
+      blob: zipBlob,
+      executionTime,
+    };
+  } catch (error) {
+    console.error('❌ [ZipGenerator] Erro ao gerar ZIP:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Erro desconhecido ao gerar ZIP',
+      executionTime: Date.now() - startTime,
+    };
+  }
+}
+
 /**
  * Faz download de um arquivo ZIP
  * 
@@ -0,0 +1,448 @@
+/**
+ * AdminContentReports.tsx
+ *
+ * Fila de Denúncias de Certificados para Administradores
+ *
+ * Funcionalidades:
+ * - Lista as denúncias feitas por terceiros no /certificate
+ * - Filtro por status (aberta, em disputa, rejeitada, procedente)
+ * - Colocar em disputa (aviso público no certificado), rejeitar ou
+ *   revogar o certificado com motivo
+ * - Acesso restrito a administradores
+ *
+ * @author Vero iD Security Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Shield,
+  ArrowLeft,
+  Lock,
+  Loader2,
+  Flag,
+  Scale,
+  Ban,
+  XCircle,
+  ExternalLink,
+  RefreshCw,
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { getCurrentUser, isCurrentUserAdmin, type User as AppUser } from '@/lib/supabase-auth-v2';
+import {
+  fetchContentReports,
+  reviewContentReport,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+  REVOCATION_REASON_LABELS,
+  type ContentReport,
+  type ReportDecision,
+  type ReportStatus,
+  type RevocationReason,
+} from '@/lib/services/revocation-service';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 50;
+
+const STATUS_BADGE_COLORS: Record<ReportStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  under_review: 'bg-amber-100 text-amber-800',
+  dismissed: 'bg-gray-100 text-gray-800',
+  upheld: 'bg-red-100 text-red-800',
+};
+
+const DECISION_LABELS: Record<ReportDecision, string> = {
+  under_review: 'Colocar em disputa',
+  dismissed: 'Rejeitar denúncia',
+  upheld: 'Revogar certificado',
+};
+
+export default function AdminContentReports() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Estados de autenticação
+  const [currentUser, setCurrentUser] = useState<AppUser | null>(null);
+  const [isAuthorized, setIsAuthorized] = useState(false);
+
+  // Estados de dados
+  const [reports, setReports] = useState<ContentReport[]>([]);
+  const [totalReports, setTotalReports] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<ReportStatus | 'all'>('open');
+
+  // Estados da decisão
+  const [selectedReport, setSelectedReport] = useState<ContentReport | null>(null);
+  const [decision, setDecision] = useState<ReportDecision>('under_review');
+  const [resolutionNote, setResolutionNote] = useState('');
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>('copyright_dispute');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Verifica se usuário é admin
+   */
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const user = await getCurrentUser();
+        if (!user) {
+          navigate('/login');
+          return;
+        }
+
+        const adminStatus = await isCurrentUserAdmin();
+        if (!adminStatus) {
+          toast({
+            title: '🚫 Acesso Negado',
+            description: 'Você não tem permissão para acessar esta página.',
+            variant: 'destructive',
+          });
+          navigate('/dashboard');
+          return;
+        }
+
+        setCurrentUser(user);
+        setIsAuthorized(true);
+      } catch (error) {
+        console.error('❌ [AdminContentReports] Erro ao verificar autenticação:', error);
+        navigate('/dashboard');
+      }
+    };
+    checkAuth();
+  }, [navigate, toast]);
+
+  /**
+   * Carrega as denúncias do filtro atual
+   */
+  const loadReports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await fetchContentReports({ status: filterStatus, limit: PAGE_SIZE });
+      setReports(result.items);
+      setTotalReports(result.total);
+      console.log(`✅ [AdminContentReports] ${result.items.length} denúncias carregadas (total: ${result.total})`);
+    } catch (error) {
+      console.error('❌ [AdminContentReports] Erro ao carregar denúncias:', error);
+      toast({
+        title: '❌ Erro ao carregar denúncias',
+        description: 'Não foi possível carregar a fila de denúncias.',
+        variant: 'destructive',
+      });
+      setReports([]);
+      setTotalReports(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterStatus, toast]);
+
+  useEffect(() => {
+    if (!isAuthorized) return;
+    void loadReports();
+  }, [isAuthorized, loadReports]);
+
+  const openDecision = (report: ContentReport, initialDecision: ReportDecision) => {
+    setSelectedReport(report);
+    setDecision(initialDecision);
+    setResolutionNote('');
+    setRevocationReason(report.reason === 'signed_by_mistake' ? 'signed_by_mistake' : 'copyright_dispute');
+  };
+
+  /**
+   * Registra a decisão sobre a denúncia selecionada
+   */
+  const handleSubmitDecision = async () => {
+    if (!selectedReport || !currentUser) return;
+
+    setIsSubmitting(true);
+    const result = await reviewContentReport(
+      currentUser.id,
+      selectedReport,
+      decision,
+      resolutionNote,
+      revocationReason
+    );
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({
+        title: '❌ Erro ao registrar decisão',
+        description: result.error || 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: '✅ Decisão registrada',
+      description: `${DECISION_LABELS[decision]} — certificado ${selectedReport.verificationCode}.`,
+    });
+    setSelectedReport(null);
+    void loadReports();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Se não autorizado, não renderiza nada
+  if (!currentUser || !isAuthorized) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      {/* Header */}
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <Shield className="h-8 w-8 text-blue-600" />
+              <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                Vero iD
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className="bg-red-600 hover:bg-red-700">
+              <Lock className="h-3 w-3 mr-1" />
+              Área Administrativa
+            </Badge>
+            <Button variant="outline" onClick={() => navigate('/admin/dashboard')}>
+              Dashboard Admin
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <Lock className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">
+            <strong>Área Restrita:</strong> as denúncias contêm e-mails de terceiros.
+            Acesso permitido apenas para: <strong>{currentUser.email}</strong>
+          </AlertDescription>
+        </Alert>
+
+        {/* Título */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+              <Flag className="h-10 w-10 text-blue-600" />
+              Denúncias de Certificados
+            </h1>
+            <p className="text-muted-foreground">
+              Analise as denúncias de terceiros: coloque o certificado em disputa, rejeite ou revogue
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={filterStatus} onValueChange={(value) => setFilterStatus(value as ReportStatus | 'all')}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {Object.entries(REPORT_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => void loadReports()} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fila de análise</CardTitle>
+            <CardDescription>
+              {totalReports} denúncia(s){filterStatus !== 'all' && ` com status "${REPORT_STATUS_LABELS[filterStatus]}"`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : reports.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">Nenhuma denúncia encontrada.</p>
+            ) : (
+              reports.map(report => {
+                const isClosed = report.status === 'dismissed' || report.status === 'upheld';
+                return (
+                  <div key={report.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={`${STATUS_BADGE_COLORS[report.status]} hover:${STATUS_BADGE_COLORS[report.status]}`}>
+                        {REPORT_STATUS_LABELS[report.status]}
+                      </Badge>
+                      <span className="font-semibold">{REPORT_REASON_LABELS[report.reason]}</span>
+                      <span className="text-xs text-muted-foreground">{formatDate(report.createdAt)}</span>
+                      {report.revokedAt && (
+                        <Badge variant="destructive">Certificado revogado</Badge>
+                      )}
+                      {!report.revokedAt && report.disputedAt && (
+                        <Badge className="bg-amber-500 hover:bg-amber-500">Em disputa</Badge>
+                      )}
+                      {report.openReportsForContent > 1 && (
+                        <span className="text-xs text-red-600">
+                          {report.openReportsForContent} denúncias ativas para este certificado
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-2 text-sm">
+                      <div>
+                        <span className="text-muted-foreground">Certificado: </span>
+                        <a
+                          href={`/certificate?id=${report.contentId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-blue-600 hover:underline inline-flex items-center gap-1"
+                        >
+                          {report.verificationCode}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                        {report.fileName && <span className="text-muted-foreground"> — {report.fileName}</span>}
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Criador: </span>
+                        {report.creatorName}
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Denunciante: </span>
+                        <a href={`mailto:${report.reporterEmail}`} className="text-blue-600 hover:underline">
+                          {report.reporterEmail}
+                        </a>
+                        {report.reporterId && <span className="text-xs text-muted-foreground"> (usuário Vero iD)</span>}
+                      </div>
+                      {report.reviewedAt && (
+                        <div>
+                          <span className="text-muted-foreground">Analisada em: </span>
+                          {formatDate(report.reviewedAt)}
+                        </div>
+                      )}
+                    </div>
+
+                    <p className="text-sm bg-gray-50 rounded p-3 whitespace-pre-wrap">{report.details}</p>
+                    {report.resolutionNote && (
+                      <p className="text-xs text-muted-foreground">
+                        <strong>Nota da análise:</strong> {report.resolutionNote}
+                      </p>
+                    )}
+
+                    {!isClosed && (
+                      <div className="flex flex-wrap gap-2">
+                        {report.status === 'open' && !report.revokedAt && (
+                          <Button size="sm" variant="outline" onClick={() => openDecision(report, 'under_review')}>
+                            <Scale className="h-4 w-4 mr-2" />
+                            Colocar em disputa
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => openDecision(report, 'dismissed')}>
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Rejeitar
+                        </Button>
+                        {!report.revokedAt && (
+                          <Button size="sm" variant="destructive" onClick={() => openDecision(report, 'upheld')}>
+                            <Ban className="h-4 w-4 mr-2" />
+                            Revogar certificado
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selectedReport} onOpenChange={(open) => !open && setSelectedReport(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{DECISION_LABELS[decision]}</DialogTitle>
+            <DialogDescription>
+              {decision === 'under_review' && 'O certificado passará a exibir um aviso público de disputa até a decisão final.'}
+              {decision === 'dismissed' && 'A denúncia será encerrada. O aviso de disputa é removido se não houver outra denúncia em análise.'}
+              {decision === 'upheld' && 'O certificado será revogado definitivamente. O registro original continua visível com o motivo.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {decision === 'upheld' && (
+              <div className="space-y-2">
+                <Label>Motivo da revogação</Label>
+                <Select value={revocationReason} onValueChange={(value) => setRevocationReason(value as RevocationReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REVOCATION_REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="resolution-note">
+                {decision === 'upheld' ? 'Observação pública da revogação' : 'Nota interna da análise'} (opcional)
+              </Label>
+              <Textarea
+                id="resolution-note"
+                value={resolutionNote}
+                onChange={(e) => setResolutionNote(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedReport(null)} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button
+              variant={decision === 'upheld' ? 'destructive' : 'default'}
+              onClick={handleSubmitDecision}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirmar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -37,6 +37,8 @@ import {
   BarChart3,
   RefreshCw,
   Loader2,
+  Flag,
+  Webhook,
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { getCurrentUser, logout, isCurrentUserAdmin, type User as UserType } from '@/lib/supabase-auth-v2';
@@ -54,6 +56,7 @@ import ContentCard from '@/components/ContentCard';
 import PlanDistributionCard from '@/components/admin/PlanDistributionCard';
 import UsersRegisteredCard from '@/components/admin/UsersRegisteredCard';
 import EngagementMetricsCards from '@/components/admin/EngagementMetricsCards';
+import StorageConsumersCard from '@/components/admin/StorageConsumersCard';
 import { Badge } from '@/components/ui/badge';
 import {
   LineChart,
@@ -552,6 +555,16 @@ export default function AdminDashboard() {
                   <span>Logs de Auditoria</span>
                 </DropdownMenuItem>
 
+                <DropdownMenuItem onClick={() => navigate('/admin/reports')} className="cursor-pointer text-red-600">
+                  <Flag className="mr-2 h-4 w-4" />
+                  <span>Denúncias</span>
+                </DropdownMenuItem>
+
+                <DropdownMenuItem onClick={() => navigate('/admin/billing-events')} className="cursor-pointer text-red-600">
+                  <Webhook className="mr-2 h-4 w-4" />
+                  <span>Eventos do Stripe</span>
+                </DropdownMenuItem>
+
                 <DropdownMenuSeparator />
 
                 <DropdownMenuItem onClick={handleLogout} className="cursor-pointer text-red-600">
@@ -735,6 +748,9 @@ export default function AdminDashboard() {
         {/* Distribuição por Tipo de Plano (drilldown clicável) */}
         <PlanDistributionCard />
 
+        {/* Armazenamento por usuário (cotas dos planos) */}
+        <StorageConsumersCard />
+
         {/* Gráfico de Barras - Top 10 Usuários */}
         <Card className="mb-8">
           <CardHeader>
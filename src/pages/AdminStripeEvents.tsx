@@ -0,0 +1,461 @@
+/**
+ * AdminStripeEvents.tsx
+ *
+ * Eventos do Webhook do Stripe para Administradores
+ *
+ * Funcionalidades:
+ * - Lista todos os eventos recebidos do Stripe com status de
+ *   processamento, tentativas, reentregas e erro
+ * - Filtro por status e busca (ID do evento/objeto, customer, e-mail)
+ * - Reprocessar eventos com falha
+ * - Replay: reconstrói a assinatura de um usuário a partir dos eventos
+ *   gravados (mesmos handlers do webhook, idempotentes)
+ * - Acesso restrito a administradores
+ *
+ * @author Vero iD Security Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Shield,
+  ArrowLeft,
+  Lock,
+  Loader2,
+  Webhook,
+  RefreshCw,
+  RotateCcw,
+  History,
+  FileJson,
+  Search,
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { getCurrentUser, isCurrentUserAdmin, type User as AppUser } from '@/lib/supabase-auth-v2';
+import {
+  fetchStripeEvents,
+  replayUserStripeEvents,
+  retryStripeEvent,
+  STRIPE_EVENT_STATUS_LABELS,
+  type StripeEventRow,
+  type StripeEventStatus,
+} from '@/lib/services/stripe-events-service';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 50;
+
+const STATUS_BADGE_COLORS: Record<StripeEventStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  processing: 'bg-amber-100 text-amber-800',
+  processed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  ignored: 'bg-gray-100 text-gray-800',
+};
+
+export default function AdminStripeEvents() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Estados de autenticação
+  const [currentUser, setCurrentUser] = useState<AppUser | null>(null);
+  const [isAuthorized, setIsAuthorized] = useState(false);
+
+  // Estados de dados
+  const [events, setEvents] = useState<StripeEventRow[]>([]);
+  const [totalEvents, setTotalEvents] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<StripeEventStatus, number>>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<StripeEventStatus | 'all'>('failed');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTermDebounced, setSearchTermDebounced] = useState('');
+
+  // Estados das ações
+  const [retryingEventId, setRetryingEventId] = useState<string | null>(null);
+  const [payloadEvent, setPayloadEvent] = useState<StripeEventRow | null>(null);
+  const [replayTarget, setReplayTarget] = useState<StripeEventRow | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  /**
+   * Verifica se usuário é admin
+   */
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const user = await getCurrentUser();
+        if (!user) {
+          navigate('/login');
+          return;
+        }
+
+        const adminStatus = await isCurrentUserAdmin();
+        if (!adminStatus) {
+          toast({
+            title: '🚫 Acesso Negado',
+            description: 'Você não tem permissão para acessar esta página.',
+            variant: 'destructive',
+          });
+          navigate('/dashboard');
+          return;
+        }
+
+        setCurrentUser(user);
+        setIsAuthorized(true);
+      } catch (error) {
+        console.error('❌ [AdminStripeEvents] Erro ao verificar autenticação:', error);
+        navigate('/dashboard');
+      }
+    };
+    checkAuth();
+  }, [navigate, toast]);
+
+  // Debounce do campo de busca
+  useEffect(() => {
+    const handle = setTimeout(() => setSearchTermDebounced(searchTerm), 300);
+    return () => clearTimeout(handle);
+  }, [searchTerm]);
+
+  /**
+   * Carrega os eventos do filtro atual
+   */
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await fetchStripeEvents({
+        status: filterStatus,
+        search: searchTermDebounced,
+        limit: PAGE_SIZE,
+      });
+      setEvents(result.items);
+      setTotalEvents(result.total);
+      setStatusCounts(result.counts);
+      console.log(`✅ [AdminStripeEvents] ${result.items.length} eventos carregados (total: ${result.total})`);
+    } catch (error) {
+      console.error('❌ [AdminStripeEvents] Erro ao carregar eventos:', error);
+      toast({
+        title: '❌ Erro ao carregar eventos',
+        description: 'Não foi possível carregar os eventos do Stripe.',
+        variant: 'destructive',
+      });
+      setEvents([]);
+      setTotalEvents(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterStatus, searchTermDebounced, toast]);
+
+  useEffect(() => {
+    if (!isAuthorized) return;
+    void loadEvents();
+  }, [isAuthorized, loadEvents]);
+
+  /**
+   * Reprocessa um evento com falha
+   */
+  const handleRetry = async (event: StripeEventRow) => {
+    setRetryingEventId(event.id);
+    const result = await retryStripeEvent(event.id);
+    setRetryingEventId(null);
+
+    if (!result.success) {
+      toast({
+        title: '❌ O evento falhou de novo',
+        description: result.error || 'Veja o erro registrado no evento.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: '✅ Evento reprocessado',
+        description: `${event.event_type} — ${STRIPE_EVENT_STATUS_LABELS[result.result?.status ?? 'processed']}.`,
+      });
+    }
+    void loadEvents();
+  };
+
+  /**
+   * Reconstrói a assinatura do usuário do evento selecionado
+   */
+  const handleReplayUser = async () => {
+    if (!replayTarget?.user_id) return;
+
+    setIsReplaying(true);
+    const result = await replayUserStripeEvents(replayTarget.user_id);
+    setIsReplaying(false);
+    setReplayTarget(null);
+
+    if (!result.summary) {
+      toast({
+        title: '❌ Erro no replay',
+        description: result.error || 'Não foi possível reprocessar os eventos do usuário.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const { total, processed, ignored, failed } = result.summary;
+    toast({
+      title: failed > 0 ? '⚠️ Replay concluído com falhas' : '✅ Assinatura reconstruída',
+      description: `${total} evento(s): ${processed} processado(s), ${ignored} ignorado(s), ${failed} com falha.`,
+      variant: failed > 0 ? 'destructive' : 'default',
+    });
+    void loadEvents();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  // Se não autorizado, não renderiza nada
+  if (!currentUser || !isAuthorized) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      {/* Header */}
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <Shield className="h-8 w-8 text-blue-600" />
+              <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                Vero iD
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className="bg-red-600 hover:bg-red-700">
+              <Lock className="h-3 w-3 mr-1" />
+              Área Administrativa
+            </Badge>
+            <Button variant="outline" onClick={() => navigate('/admin/dashboard')}>
+              Dashboard Admin
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <Lock className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">
+            <strong>Área Restrita:</strong> os payloads contêm dados de pagamento dos clientes.
+            Acesso permitido apenas para: <strong>{currentUser.email}</strong>
+          </AlertDescription>
+        </Alert>
+
+        {/* Título */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+              <Webhook className="h-10 w-10 text-blue-600" />
+              Eventos do Stripe
+            </h1>
+            <p className="text-muted-foreground">
+              Acompanhe o webhook, reprocesse falhas e reconstrua assinaturas a partir dos eventos
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="evt_, cs_, cus_, e-mail..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8 w-64"
+              />
+            </div>
+            <Select value={filterStatus} onValueChange={(value) => setFilterStatus(value as StripeEventStatus | 'all')}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {Object.entries(STRIPE_EVENT_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label} ({statusCounts[value as StripeEventStatus] ?? 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => void loadEvents()} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Eventos recebidos</CardTitle>
+            <CardDescription>
+              {totalEvents} evento(s){filterStatus !== 'all' && ` com status "${STRIPE_EVENT_STATUS_LABELS[filterStatus]}"`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">Nenhum evento encontrado.</p>
+            ) : (
+              events.map(event => (
+                <div key={event.id} className="border rounded-lg p-4 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={`${STATUS_BADGE_COLORS[event.status]} hover:${STATUS_BADGE_COLORS[event.status]}`}>
+                      {STRIPE_EVENT_STATUS_LABELS[event.status]}
+                    </Badge>
+                    <span className="font-semibold">{event.event_type}</span>
+                    {!event.livemode && <Badge variant="outline">teste</Badge>}
+                    <span className="font-mono text-xs text-muted-foreground">{event.id}</span>
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-1 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Usuário: </span>
+                      {event.user_id ? (
+                        <>
+                          {event.user_name || event.user_id}
+                          {event.user_email && <span className="text-muted-foreground"> ({event.user_email})</span>}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">não associado</span>
+                      )}
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Objeto: </span>
+                      <span className="font-mono text-xs">{event.object_id || '—'}</span>
+                      {event.stripe_customer_id && (
+                        <span className="font-mono text-xs text-muted-foreground"> · {event.stripe_customer_id}</span>
+                      )}
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Criado no Stripe: </span>
+                      {formatDate(event.stripe_created_at)}
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Recebido: </span>
+                      {formatDate(event.received_at)}
+                      <span className="text-muted-foreground">
+                        {' '}· {event.delivery_count} entrega(s) · {event.attempts} tentativa(s)
+                      </span>
+                    </div>
+                    {event.last_replayed_at && (
+                      <div>
+                        <span className="text-muted-foreground">Último reprocessamento: </span>
+                        {formatDate(event.last_replayed_at)}
+                      </div>
+                    )}
+                  </div>
+
+                  {event.last_error && (
+                    <p className="text-xs font-mono bg-red-50 text-red-800 rounded p-2 whitespace-pre-wrap">
+                      {event.last_error}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {(event.status === 'failed' || event.status === 'pending') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRetry(event)}
+                        disabled={retryingEventId !== null}
+                      >
+                        {retryingEventId === event.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Reprocessar
+                      </Button>
+                    )}
+                    {event.user_id && (
+                      <Button size="sm" variant="outline" onClick={() => setReplayTarget(event)}>
+                        <History className="h-4 w-4 mr-2" />
+                        Reconstruir assinatura do usuário
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => setPayloadEvent(event)}>
+                      <FileJson className="h-4 w-4 mr-2" />
+                      Payload
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!payloadEvent} onOpenChange={(open) => !open && setPayloadEvent(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{payloadEvent?.event_type}</DialogTitle>
+            <DialogDescription className="font-mono">{payloadEvent?.id}</DialogDescription>
+          </DialogHeader>
+          <pre className="text-xs bg-gray-50 rounded p-3 max-h-[60vh] overflow-auto">
+            {JSON.stringify(payloadEvent?.payload, null, 2)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!replayTarget} onOpenChange={(open) => !open && !isReplaying && setReplayTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reconstruir assinatura</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todos os eventos gravados de {replayTarget?.user_name || replayTarget?.user_email || replayTarget?.user_id} serão
+              reexecutados em ordem cronológica. Pacotes não são concedidos em dobro e o uso do período
+              atual não é zerado de novo.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReplaying}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReplayUser} disabled={isReplaying}>
+              {isReplaying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reconstruir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -32,12 +32,13 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Shield, ArrowLeft, Users, Search, Eye, Trash2, CheckCircle, AlertCircle, Lock, Edit, Ban, Loader2 } from 'lucide-react';
+import { Shield, ArrowLeft, Users, Search, Eye, Trash2, CheckCircle, AlertCircle, Lock, Edit, Ban, Loader2, Coins } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { getCurrentUser, isCurrentUserAdmin, updateUser, toggleBlockUser, deleteUser, type User } from '@/lib/supabase-auth-v2';
 import { fetchAdminUsers, type AdminUserRow } from '@/lib/admin-stats';
 import { getCSRFToken } from '@/lib/csrf-protection';
 import { useToast } from '@/hooks/use-toast';
+import CreditAdjustmentDialog from '@/components/admin/CreditAdjustmentDialog';
 
 // Quantidade de itens carregados por página no botão "Carregar mais".
 const PAGE_SIZE = 25;
@@ -83,6 +84,7 @@ export default function AdminUsers() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isBlockDialogOpen, setIsBlockDialogOpen] = useState(false);
+  const [isCreditDialogOpen, setIsCreditDialogOpen] = useState(false);
   const [isAuthorized, setIsAuthorized] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -331,6 +333,11 @@ export default function AdminUsers() {
     }
   };
 
+  const handleOpenCreditDialog = (user: User) => {
+    setSelectedUser(user);
+    setIsCreditDialogOpen(true);
+  };
+
   const handleOpenDeleteDialog = (user: User) => {
     setSelectedUser(user);
     setIsDeleteDialogOpen(true);
@@ -658,6 +665,15 @@ export default function AdminUsers() {
                               >
                                 <Ban className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOpenCreditDialog(user)}
+                                title="Créditos avulsos"
+                                disabled={!csrfReady || !csrfToken}
+                              >
+                                <Coins className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -867,6 +883,13 @@ export default function AdminUsers() {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        {/* Dialog de Créditos Avulsos */}
+        <CreditAdjustmentDialog
+          user={selectedUser}
+          open={isCreditDialogOpen}
+          onOpenChange={setIsCreditDialogOpen}
+        />
       </div>
 
       {/* Hidden CSRF Token */}
@@ -14,7 +14,6 @@ import {
   checkCpfCnpjExists,
   checkEmailExists,
 } from '@/lib/supabase-auth';
-import { supabase } from '@/lib/supabase';
 import { isValidPassword } from '@/lib/password-validator';
 import { sanitizeCadastroData, sanitizeFileName } from '@/lib/input-sanitizer';
 import { 
@@ -205,42 +204,12 @@ export default function Cadastro() {
     console.log('✅ [DOCUMENTO UPLOAD] Documento validado com sucesso:', validationResult.details);
     
     try {
-      console.log('🔐 [VIRUSTOTAL] Calculando hash SHA256...');
+      console.log('🔐 [DOCUMENTO UPLOAD] Calculando hash SHA256...');
       const hash = await calculateSHA256(file);
       setDocumentoHash(hash);
-      console.log('✅ [VIRUSTOTAL] Hash calculado:', hash);
-      
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (session) {
-        console.log('🚀 [VIRUSTOTAL] Iniciando scan silencioso em background...');
-        
-        supabase.functions.invoke('scan-uploaded-file', {
-          body: { 
-            fileHash: hash,
-            fileName: sanitizedFileName
-          }
-        }).then(({ data: scanData, error: scanError }) => {
-          if (scanError) {
-            console.warn('⚠️ [VIRUSTOTAL] Erro no scan silencioso (não bloqueia upload):', scanError);
-          } else if (scanData) {
-            console.log('✅ [VIRUSTOTAL] Scan silencioso concluído:', scanData);
-            
-            if (scanData.stats && (scanData.stats.malicious > 0 || scanData.stats.suspicious > 0)) {
-              console.warn('⚠️ [VIRUSTOTAL] Ameaça detectada:', {
-                malicious: scanData.stats.malicious,
-                suspicious: scanData.stats.suspicious
-              });
-            }
-          }
-        }).catch(scanErr => {
-          console.warn('⚠️ [VIRUSTOTAL] Erro ao processar scan silencioso:', scanErr);
-        });
-      } else {
-        console.log('ℹ️ [VIRUSTOTAL] Usuário não autenticado, scan será feito após registro');
-      }
-    } catch (scanErr) {
-      console.warn('⚠️ [VIRUSTOTAL] Erro ao calcular hash (não bloqueia upload):', scanErr);
+      console.log('✅ [DOCUMENTO UPLOAD] Hash calculado:', hash);
+    } catch (hashErr) {
+      console.warn('⚠️ [DOCUMENTO UPLOAD] Erro ao calcular hash (não bloqueia upload):', hashErr);
     }
     
     setDocumentoFile(file);
@@ -3,8 +3,8 @@ import { useEffect, useState } from 'react';
 import { SignedContent, incrementVerificationCount, getSignedContentById } from '@/lib/supabase-crypto';
 import { getCurrentUser } from '@/lib/supabase-auth';
 import { Button } from '@/components/ui/button';
-import { Shield, Calendar, ArrowLeft, Download, Key, Link as LinkIcon, Check, Instagram, Facebook, Twitter, Youtube, Linkedin, Globe, Copy, Info, CheckCircle2 } from 'lucide-react';
-import { generateCertificate, decodeContentFromUrl } from '@/lib/qrcode';
+import { Shield, Calendar, ArrowLeft, Download, Key, Link as LinkIcon, Check, Instagram, Facebook, Twitter, Youtube, Linkedin, Globe, Copy, Info, CheckCircle2, AlertTriangle, XCircle, FileJson, RefreshCw, ShieldAlert, BadgeCheck } from 'lucide-react';
+import { generateCertificate, buildCertificateUrl, parseCertificateLink, type CertificateLinkRef } from '@/lib/qrcode';
 import { DownloadButton } from '@/components/DownloadButton';
 import { CarouselDownloadButton } from '@/components/CarouselDownloadButton';
 import { PageLoadingSpinner } from '@/components/LoadingSpinner';
@@ -13,7 +13,22 @@ import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious
 import type { CarouselMetadata } from '@/lib/types/carousel';
 import { supabase } from '@/lib/supabase';
 import { KeyIdenticon } from '@/components/KeyIdenticon';
+import { LineageGraph } from '@/components/LineageGraph';
+import { CoSignaturesPanel } from '@/components/CoSignaturesPanel';
+import { TrustedTimestampPanel } from '@/components/TrustedTimestampPanel';
+import { TransparencyLogPanel } from '@/components/TransparencyLogPanel';
+import { RevocationBanner } from '@/components/RevocationBanner';
+import { CertificateStatusActions } from '@/components/CertificateStatusActions';
+import { OrganizationProfileCard } from '@/components/OrganizationProfileCard';
 import { getKeyVisualSeed, getKeyShortSuffix, getKeyVisualSeedSHA256 } from '@/lib/keyVisual';
+import { verifyHashSignature, type SignatureStatus } from '@/lib/crypto';
+import { downloadVerificationManifest } from '@/lib/services/verification-manifest';
+import { checkPublicKeyOwnership, type KeyOwnershipStatus } from '@/lib/offline-verification';
+import {
+  filterVerifiedSocialLinks,
+  getVerifiedSocialLinks,
+  type VerifiedSocialLink,
+} from '@/lib/services/social-verification-service';
 
 // Ícones das plataformas sociais
 const platformIcons: Record<string, string> = {
@@ -29,6 +44,13 @@ const platformIcons: Record<string, string> = {
   Outros: '📱',
 };
 
+/**
+ * Link que não pôde ser confirmado no banco
+ * - unverifiable: link inválido ou certificado não encontrado/indisponível
+ * - tampered: link antigo cujo código/nome não confere com o certificado registrado
+ */
+type LinkProblem = 'unverifiable' | 'tampered';
+
 export default function Certificate() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -37,8 +59,19 @@ export default function Certificate() {
   const [copied, setCopied] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const [viewerEmail, setViewerEmail] = useState<string | null>(null);
   // 🆕 SHA-256 da chave pública (mesmo identificador exibido no Dashboard)
   const [keyVisualHash, setKeyVisualHash] = useState<string>('');
+  // 🔏 Resultado da verificação ECDSA da assinatura (null = verificando)
+  const [signatureStatus, setSignatureStatus] = useState<SignatureStatus | null>(null);
+  // 🔑 Status da chave que assinou (revogação posterior)
+  const [keyStatus, setKeyStatus] = useState<KeyOwnershipStatus | null>(null);
+  // 🔒 Problema do link (nada é exibido como verificado sem confirmação no banco)
+  const [linkProblem, setLinkProblem] = useState<LinkProblem | null>(null);
+  const [linkRef, setLinkRef] = useState<CertificateLinkRef | null>(null);
+  // ✅ Links sociais com controle comprovado pelo criador (null = carregando)
+  const [verifiedLinks, setVerifiedLinks] = useState<VerifiedSocialLink[] | null>(null);
 
   useEffect(() => {
     checkUserAndLoadCertificate();
@@ -65,6 +98,67 @@ export default function Certificate() {
     };
   }, [content?.publicKey]);
 
+  // 🔏 Verifica a assinatura ECDSA contra a chave pública sempre que o conteúdo mudar.
+  // Assinaturas no formato antigo são sinalizadas como "legado/não verificável".
+  useEffect(() => {
+    let cancelled = false;
+    if (!content) {
+      setSignatureStatus(null);
+      return;
+    }
+    setSignatureStatus(null);
+    verifyHashSignature(content.contentHash, content.signature, content.publicKey)
+      .then((status) => {
+        if (!cancelled) setSignatureStatus(status);
+      })
+      .catch((err) => {
+        console.error('[Certificate] Falha ao verificar assinatura:', err);
+        if (!cancelled) setSignatureStatus('invalid');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [content?.contentHash, content?.signature, content?.publicKey]);
+
+  // 🔑 Consulta se a chave que assinou o certificado foi revogada depois
+  useEffect(() => {
+    let cancelled = false;
+    if (!content?.userId || !content?.publicKey) {
+      setKeyStatus(null);
+      return;
+    }
+    checkPublicKeyOwnership(content.userId, content.publicKey)
+      .then((status) => {
+        if (!cancelled) setKeyStatus(status);
+      })
+      .catch((err) => {
+        console.error('[Certificate] Falha ao consultar status da chave:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [content?.userId, content?.publicKey]);
+
+  // ✅ Busca os links sociais verificados do criador
+  useEffect(() => {
+    let cancelled = false;
+    if (!content?.userId) {
+      setVerifiedLinks(null);
+      return;
+    }
+    getVerifiedSocialLinks(content.userId)
+      .then((links) => {
+        if (!cancelled) setVerifiedLinks(links);
+      })
+      .catch((err) => {
+        console.error('[Certificate] Falha ao buscar links verificados:', err);
+        if (!cancelled) setVerifiedLinks([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [content?.userId]);
+
   const checkUserAndLoadCertificate = async () => {
     // Marca o tempo de início do carregamento
     const startTime = Date.now();
@@ -72,62 +166,54 @@ export default function Certificate() {
     // Verifica se o usuário está logado
     const user = await getCurrentUser();
     setIsLoggedIn(!!user);
+    setViewerId(user?.id || null);
+    setViewerEmail(user?.email || null);
     
-    // Tenta parâmetro compactado 'd' primeiro
-    let dataParam = searchParams.get('d');
-    
-    // Se não encontrar, tenta parâmetro antigo 'data'
-    if (!dataParam) {
-      dataParam = searchParams.get('data');
-    }
+    setContent(null);
+    setLinkProblem(null);
+
+    // 🔒 O link fornece apenas o ID; os dados exibidos vêm SEMPRE do Supabase
+    const hasLinkParam = ['id', 'd', 'data'].some((param) => searchParams.has(param));
+    const ref = parseCertificateLink(searchParams);
+    setLinkRef(ref);
     
-    if (dataParam) {
+    if (hasLinkParam) {
       console.log('🔍 [QRCODE] Parâmetro encontrado na URL');
-      const decodedContent = decodeContentFromUrl(dataParam);
       
-      if (decodedContent) {
-        console.log('📄 [QRCODE] Conteúdo decodificado da URL:', decodedContent.id);
-        console.log('🔍 [QRCODE] Links sociais na URL decodificada:', decodedContent.creatorSocialLinks);
+      if (ref) {
+        console.log('📄 [QRCODE] Certificado referenciado pelo link:', ref.id, ref.legacy ? '(link antigo)' : '');
         
-        // 🆕 CORREÇÃO CRÍTICA: SEMPRE busca do Supabase para garantir links sociais
-        console.log('🔍 [QRCODE] Buscando conteúdo completo do Supabase...');
-        const fullContent = await getSignedContentById(decodedContent.id);
+        let fullContent = await getSignedContentById(ref.id);
         
-        if (fullContent) {
+        if (!fullContent) {
+          // 🆕 CORREÇÃO: Se falhar busca no Supabase, tenta novamente com retry
+          console.warn('⚠️ [QRCODE] Primeira tentativa falhou, tentando novamente em 1 segundo...');
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          fullContent = await getSignedContentById(ref.id);
+        }
+        
+        if (!fullContent) {
+          // 🔒 Sem confirmação no banco o link NÃO é exibido como certificado
+          console.error('❌ [QRCODE] Certificado não confirmado no Supabase:', ref.id);
+          setLinkProblem('unverifiable');
+        } else if (
+          (ref.claimedVerificationCode && ref.claimedVerificationCode !== fullContent.verificationCode) ||
+          (ref.claimedCreatorName && ref.claimedCreatorName !== fullContent.creatorName)
+        ) {
+          console.error('❌ [QRCODE] Dados do link não conferem com o certificado registrado');
+          setLinkProblem('tampered');
+        } else {
           console.log('✅ [QRCODE] Conteúdo completo carregado do Supabase');
           console.log('🔍 [QRCODE] Links sociais do Supabase:', fullContent.creatorSocialLinks);
-          console.log('🔍 [QRCODE] Quantidade de links:', fullContent.creatorSocialLinks ? Object.keys(fullContent.creatorSocialLinks).length : 0);
           console.log('🎠 [QRCODE] totalImages do Supabase:', fullContent.totalImages);
-          console.log('🎠 [QRCODE] carouselMetadata do Supabase:', fullContent.carouselMetadata);
-          console.log('🎠 [QRCODE] Tipo de carouselMetadata:', typeof fullContent.carouselMetadata);
-          console.log('🎠 [QRCODE] fullContent completo:', JSON.stringify(fullContent, null, 2));
           setContent(fullContent);
           
           // Incrementa contador de verificações
           await incrementVerificationCount(fullContent.id);
-        } else {
-          // 🆕 CORREÇÃO: Se falhar busca no Supabase, tenta novamente com retry
-          console.warn('⚠️ [QRCODE] Primeira tentativa falhou, tentando novamente em 1 segundo...');
-          
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          
-          const retryContent = await getSignedContentById(decodedContent.id);
-          
-          if (retryContent) {
-            console.log('✅ [QRCODE] Conteúdo carregado na segunda tentativa');
-            console.log('🔍 [QRCODE] Links sociais:', retryContent.creatorSocialLinks);
-            setContent(retryContent);
-            await incrementVerificationCount(retryContent.id);
-          } else {
-            console.error('❌ [QRCODE] Falha ao buscar conteúdo do Supabase após retry');
-            console.error('❌ [QRCODE] ID do conteúdo:', decodedContent.id);
-            // 🆕 ÚLTIMA OPÇÃO: Usa dados da URL (sem links sociais)
-            console.warn('⚠️ [QRCODE] Usando dados da URL como último recurso (SEM LINKS SOCIAIS)');
-            setContent(decodedContent);
-          }
         }
       } else {
-        console.error('❌ [QRCODE] Falha ao decodificar conteúdo da URL');
+        console.error('❌ [QRCODE] Link de certificado malformado');
+        setLinkProblem('unverifiable');
       }
       
       // Garante delay mínimo de 5 segundos para exibir propaganda
@@ -170,9 +256,21 @@ export default function Certificate() {
     URL.revokeObjectURL(url);
   };
   
+  const handleDownloadManifest = async () => {
+    if (!content) return;
+
+    try {
+      await downloadVerificationManifest(content);
+    } catch (err) {
+      console.error('[Certificate] Erro ao gerar manifesto:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao gerar manifesto de verificação');
+    }
+  };
+  
   const handleCopyLink = async () => {
     try {
-      await navigator.clipboard.writeText(window.location.href);
+      // Copia sempre o link canônico (apenas ID), mesmo se aberto por um link antigo
+      await navigator.clipboard.writeText(content ? buildCertificateUrl(content.id) : window.location.href);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -191,6 +289,11 @@ export default function Certificate() {
     }
   };
   
+  const handleRetry = () => {
+    setLoading(true);
+    checkUserAndLoadCertificate();
+  };
+
   const handleGoBack = () => {
     if (isLoggedIn) {
       navigate('/dashboard');
@@ -254,31 +357,19 @@ export default function Certificate() {
   };
 
   // Função para renderizar links sociais
+  // 🔒 Apenas links com controle verificado (URL igual à verificação) são exibidos
   const renderSocialLinks = () => {
-    console.log('🔍 [DEBUG renderSocialLinks] Verificando links sociais...');
-    console.log('🔍 [DEBUG] content:', content);
-    console.log('🔍 [DEBUG] content.creatorSocialLinks:', content?.creatorSocialLinks);
-    
-    if (!content?.creatorSocialLinks) {
-      console.log('⚠️ [DEBUG] Sem links sociais disponíveis');
+    if (!content?.creatorSocialLinks || !verifiedLinks) {
       return null;
     }
 
-    const relevantLinks: Array<{ platform: string; url: string }> = [];
-    const socialLinks = content.creatorSocialLinks;
-    
-    // Itera sobre todos os links sociais disponíveis
-    Object.entries(socialLinks).forEach(([platform, url]) => {
-      console.log(`🔍 [DEBUG] Processando ${platform}: ${url}`);
-      if (url && typeof url === 'string' && url.trim() !== '') {
-        relevantLinks.push({ platform, url });
-      }
-    });
+    const relevantLinks = filterVerifiedSocialLinks(content.creatorSocialLinks, verifiedLinks);
+    const hiddenCount = Object.values(content.creatorSocialLinks)
+      .filter((url) => typeof url === 'string' && url.trim() !== '').length - relevantLinks.length;
 
-    console.log(`✅ [DEBUG] Total de links encontrados: ${relevantLinks.length}`);
+    console.log(`✅ [Certificate] Links verificados: ${relevantLinks.length} (ocultos: ${hiddenCount})`);
 
     if (relevantLinks.length === 0) {
-      console.log('⚠️ [DEBUG] Nenhum link válido encontrado');
       return null;
     }
 
@@ -303,10 +394,14 @@ export default function Certificate() {
               >
                 {getSocialIcon(platform)}
                 <span className="text-gray-800">{getPlatformLabel(platform)}</span>
-                <LinkIcon className="h-4 w-4 text-blue-500" />
+                <BadgeCheck className="h-4 w-4 text-green-600" aria-label="Perfil verificado" />
               </a>
             ))}
           </div>
+          <p className="text-xs text-gray-500 mt-3">
+            ✓ O criador comprovou o controle destes perfis.
+            {hiddenCount > 0 && ` ${hiddenCount} link(s) não verificado(s) foram ocultados.`}
+          </p>
         </div>
       </div>
     );
@@ -316,6 +411,53 @@ export default function Certificate() {
     return <PageLoadingSpinner />;
   }
 
+  if (linkProblem) {
+    const tampered = linkProblem === 'tampered';
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-purple-50 p-4 sm:p-6">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-6 sm:p-8 text-center">
+          <div className={`w-16 h-16 ${tampered ? 'bg-red-100' : 'bg-amber-100'} rounded-full flex items-center justify-center mx-auto mb-4`}>
+            <ShieldAlert className={`h-8 w-8 ${tampered ? 'text-red-600' : 'text-amber-600'}`} />
+          </div>
+          <h1 className="text-xl sm:text-2xl font-bold mb-2">
+            {tampered ? 'Link Adulterado' : 'Link Não Verificável'}
+          </h1>
+          <p className="text-muted-foreground mb-4 text-sm sm:text-base">
+            {tampered
+              ? 'Os dados deste link não correspondem ao certificado registrado no Vero iD. O link foi alterado e não comprova a autoria do conteúdo.'
+              : 'Não foi possível confirmar este certificado no Vero iD. Não considere este conteúdo como autenticado a partir deste link.'}
+          </p>
+          <div className={`${tampered ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'} border rounded-lg p-3 mb-6 text-xs sm:text-sm text-left`}>
+            Certificados autênticos são sempre exibidos a partir do banco do Vero iD. Capturas de tela
+            ou links que não abrem aqui não devem ser considerados prova de autenticidade.
+          </div>
+          <div className="space-y-2">
+            {tampered && linkRef && (
+              <Button onClick={() => navigate(`/certificate?id=${linkRef.id}`)} className="w-full">
+                <Shield className="h-4 w-4 mr-2" />
+                Ver certificado registrado
+              </Button>
+            )}
+            {!tampered && linkRef && (
+              <Button onClick={handleRetry} variant="outline" className="w-full">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Tentar novamente
+              </Button>
+            )}
+            <Button onClick={() => navigate('/verify')} variant="outline" className="w-full">
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Verificar pelo código
+            </Button>
+            <Button onClick={handleGoBack} variant="ghost" className="w-full">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {isLoggedIn ? 'Voltar ao Dashboard' : 'Voltar ao Início'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!content) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-purple-50 p-4 sm:p-6">
@@ -372,9 +514,59 @@ export default function Certificate() {
 
         {/* Content */}
         <div className="p-4 sm:p-6 md:p-8 lg:p-12">
-          <div className="inline-flex items-center gap-2 bg-green-100 text-green-800 px-4 sm:px-6 py-2 sm:py-3 rounded-full font-semibold mb-6 sm:mb-8 text-sm sm:text-base">
-            ✓ Conteúdo Autenticado
-          </div>
+          {content.revokedAt ? (
+            <div className="inline-flex items-center gap-2 bg-red-100 text-red-800 px-4 sm:px-6 py-2 sm:py-3 rounded-full font-semibold mb-4 text-sm sm:text-base">
+              <XCircle className="h-4 w-4" />
+              Certificado Revogado
+            </div>
+          ) : signatureStatus === 'legacy' ? (
+            <div className="mb-6 sm:mb-8">
+              <div className="inline-flex items-center gap-2 bg-amber-100 text-amber-800 px-4 sm:px-6 py-2 sm:py-3 rounded-full font-semibold text-sm sm:text-base">
+                <AlertTriangle className="h-4 w-4" />
+                Assinatura Legada (não verificável)
+              </div>
+              <p className="text-xs sm:text-sm text-amber-700 mt-2">
+                Este certificado foi emitido no formato antigo de assinatura, que não permite
+                verificação criptográfica com a chave pública do criador.
+              </p>
+            </div>
+          ) : signatureStatus === 'invalid' ? (
+            <div className="mb-6 sm:mb-8">
+              <div className="inline-flex items-center gap-2 bg-red-100 text-red-800 px-4 sm:px-6 py-2 sm:py-3 rounded-full font-semibold text-sm sm:text-base">
+                <XCircle className="h-4 w-4" />
+                Assinatura Inválida
+              </div>
+              <p className="text-xs sm:text-sm text-red-700 mt-2">
+                A assinatura digital não confere com a chave pública do criador.
+              </p>
+            </div>
+          ) : signatureStatus === 'valid' ? (
+            <div className="inline-flex items-center gap-2 bg-green-100 text-green-800 px-4 sm:px-6 py-2 sm:py-3 rounded-full font-semibold mb-6 sm:mb-8 text-sm sm:text-base">
+              ✓ Conteúdo Autenticado
+            </div>
+          ) : (
+            <div className="inline-flex items-center gap-2 bg-gray-100 text-gray-700 px-4 sm:px-6 py-2 sm:py-3 rounded-full font-semibold mb-6 sm:mb-8 text-sm sm:text-base">
+              Verificando assinatura...
+            </div>
+          )}
+
+          {keyStatus?.isRevoked && (
+            <div className="mb-6 sm:mb-8 bg-red-50 border-2 border-red-300 p-4 rounded-xl flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-semibold text-red-800 text-sm sm:text-base">
+                  Assinado com uma chave posteriormente revogada
+                  {keyStatus.revokedAt && ` em ${new Date(keyStatus.revokedAt).toLocaleDateString('pt-BR')}`}
+                </p>
+                <p className="text-xs sm:text-sm text-red-700">
+                  O criador revogou a chave usada nesta assinatura. Confirme a autenticidade diretamente com o criador.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* 🚫 Revogação / disputa (o registro original continua abaixo) */}
+          <RevocationBanner content={content} />
 
           {/* Instruções de Verificação */}
           <div className="mb-6 sm:mb-8 bg-gradient-to-r from-blue-50 to-purple-50 p-4 sm:p-6 rounded-xl border-2 border-blue-200">
@@ -573,6 +765,12 @@ export default function Certificate() {
             </div>
           )}
 
+          {/* 🌳 Linhagem (versões e obras derivadas) */}
+          <LineageGraph contentId={content.id} isOwner={!!viewerId && viewerId === content.userId} />
+
+          {/* 👥 Co-signatários (contra-assinaturas) */}
+          <CoSignaturesPanel content={content} viewerId={viewerId} />
+
           {/* Creator */}
           <div className="mb-6 sm:mb-8">
             <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
@@ -586,6 +784,9 @@ export default function Certificate() {
           {/* Perfis Oficiais do Criador */}
           {renderSocialLinks()}
 
+          {/* 🏢 Organização emissora */}
+          <OrganizationProfileCard content={content} />
+
           {/* Date */}
           <div className="mb-6 sm:mb-8">
             <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
@@ -597,6 +798,20 @@ export default function Certificate() {
             </div>
           </div>
 
+          {/* ⏱️ Carimbo de tempo independente (RFC 3161) */}
+          <TrustedTimestampPanel content={content} viewerId={viewerId} onTimestamped={setContent} />
+
+          {/* 🌳 Prova de inclusão no log de transparência */}
+          <TransparencyLogPanel content={content} />
+
+          {/* 🚩 Revogar (dono) ou denunciar (visitantes) */}
+          <CertificateStatusActions
+            content={content}
+            viewerId={viewerId}
+            viewerEmail={viewerEmail}
+            onRevoked={setContent}
+          />
+
           {/* ID */}
           <div className="mb-6 sm:mb-8">
             <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
@@ -712,6 +927,12 @@ export default function Certificate() {
               </div>
             </div>
 
+            {(content.keyId || keyStatus?.keyId) && (
+              <div className="mb-3 text-xs text-gray-600">
+                ID da chave: <code className="font-mono">{content.keyId || keyStatus?.keyId}</code>
+              </div>
+            )}
+
             {/* Chave completa (preservada) */}
             <div className="text-xs font-mono bg-gray-50 p-3 sm:p-4 rounded-lg border-l-4 border-blue-600 break-all leading-relaxed">
               {content.publicKey}
@@ -731,7 +952,7 @@ export default function Certificate() {
 
             <div className="bg-gray-50 p-4 sm:p-6 rounded-xl">
               <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-3">
-                Assinatura Digital
+                Assinatura Digital {signatureStatus === 'legacy' ? '(formato legado)' : '(ECDSA P-256 / SHA-256)'}
               </div>
               <div className="text-xs font-mono text-gray-700 break-all leading-relaxed">
                 {content.signature}
@@ -763,6 +984,16 @@ export default function Certificate() {
                 <Download className="h-4 w-4 mr-2" />
                 Baixar Certificado
               </Button>
+              {viewerId === content.userId && (
+                <Button
+                  onClick={handleDownloadManifest}
+                  variant="outline"
+                  className="flex-1 text-sm sm:text-base"
+                >
+                  <FileJson className="h-4 w-4 mr-2" />
+                  Manifesto JSON
+                </Button>
+              )}
             </div>
 
             <p className="text-center text-xs text-gray-400 mt-4 sm:mt-6">
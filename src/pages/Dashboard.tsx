@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -11,19 +11,28 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Shield, FileSignature, CheckCircle2, LogOut, User, Loader2, Key, RefreshCw, Home, Settings, Users, BarChart3, Search, Calendar, ArrowUpDown, Copy, Check, Eye, EyeOff, FileText, CreditCard, BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
+import { Shield, FileSignature, CheckCircle2, LogOut, User, Loader2, Key, RefreshCw, Home, Settings, Users, BarChart3, Search, Calendar, ArrowUpDown, Copy, Check, Eye, EyeOff, FileText, CreditCard, BookOpen, ChevronDown, ChevronUp, Files, Flag, Webhook, Building2 } from 'lucide-react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { getCurrentUser, logout, isCurrentUserAdmin } from '@/lib/supabase-auth';
 import type { User as UserType } from '@/lib/supabase-auth';
 import { generateKeyPair, saveKeyPair, getKeyPair, clearAllKeys } from '@/lib/crypto';
 import type { KeyPair } from '@/lib/supabase-crypto';
-import { getSignedContentsByUserId } from '@/lib/supabase-crypto';
 import type { SignedContent } from '@/lib/supabase-crypto';
+import {
+  countSignedContents,
+  getSignedContentPlatforms,
+  searchSignedContents,
+} from '@/lib/services/content-search-service';
+import type { ContentSearchCursor, ContentSearchFilters, ContentSort } from '@/lib/services/content-search-service';
+import { getUserFolders } from '@/lib/services/folder-service';
+import type { CertificateFolder } from '@/lib/types/folders';
 import ContentCard from '@/components/ContentCard';
 import { SubscriptionCard } from '@/components/SubscriptionCard';
 import TwoFactorAlert from '@/components/TwoFactorAlert';
 import SocialLinksAlert from '@/components/SocialLinksAlert';
+import { CosignRequestsCard } from '@/components/CosignRequestsCard';
+import { OrganizationInvitationsCard } from '@/components/OrganizationInvitationsCard';
 import { TrialBanner } from '@/components/TrialBanner';
 import { TrialModal } from '@/components/TrialModal';
 import { PaymentFailureAlert } from '@/components/PaymentFailureAlert';
@@ -39,6 +48,81 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { KeyIdenticon } from '@/components/KeyIdenticon';
+import { BulkActionsBar } from '@/components/BulkActionsBar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { MAX_BULK_SELECTION } from '@/lib/services/bulk-certificate-service';
+
+// 🔎 Filtros do Dashboard persistidos na URL (?q=&platform=&folder=&type=&period=&from=&to=&verifs=&sort=)
+const FILTER_PARAMS = ['q', 'platform', 'folder', 'type', 'period', 'from', 'to', 'verifs', 'sort'] as const;
+type FilterParam = typeof FILTER_PARAMS[number];
+
+const FILTER_DEFAULTS: Record<FilterParam, string> = {
+  q: '',
+  platform: 'all',
+  folder: 'all',
+  type: 'all',
+  period: 'all',
+  from: '',
+  to: '',
+  verifs: 'all',
+  sort: 'recent',
+};
+
+const SORT_OPTIONS: ContentSort[] = ['recent', 'oldest', 'alphabetical', 'most-verified'];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Converte os parâmetros da URL nos filtros da busca no servidor
+ */
+function buildSearchFilters(params: Record<FilterParam, string>): ContentSearchFilters {
+  const filters: ContentSearchFilters = {
+    query: params.q || undefined,
+    platforms: params.platform !== 'all' ? [params.platform] : undefined,
+    folderId: params.folder !== 'all' ? params.folder : undefined,
+    mimeType: params.type !== 'all' ? params.type : undefined,
+    sort: SORT_OPTIONS.includes(params.sort as ContentSort) ? params.sort as ContentSort : 'recent',
+  };
+
+  // Período: atalhos relativos ou intervalo personalizado (datas locais, "até" inclusivo)
+  const now = new Date();
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  switch (params.period) {
+    case 'today':
+      filters.dateFrom = startOfToday.toISOString();
+      break;
+    case 'week':
+      filters.dateFrom = daysAgo(7);
+      break;
+    case 'month':
+      filters.dateFrom = daysAgo(30);
+      break;
+    case 'year':
+      filters.dateFrom = daysAgo(365);
+      break;
+    case 'custom':
+      if (params.from) {
+        filters.dateFrom = new Date(`${params.from}T00:00:00`).toISOString();
+      }
+      if (params.to) {
+        const end = new Date(`${params.to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        filters.dateTo = end.toISOString();
+      }
+      break;
+  }
+
+  // Verificações: 'none' = nunca verificados, número = mínimo
+  if (params.verifs === 'none') {
+    filters.maxVerifications = 0;
+  } else if (/^\d+$/.test(params.verifs)) {
+    filters.minVerifications = parseInt(params.verifs, 10);
+  }
+
+  return filters;
+}
 
 export default function Dashboard() {
   const navigate = useNavigate();
@@ -48,6 +132,19 @@ export default function Dashboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [isGeneratingKeys, setIsGeneratingKeys] = useState(false);
   const [signedContents, setSignedContents] = useState<SignedContent[]>([]);
+  const [nextCursor, setNextCursor] = useState<ContentSearchCursor | null>(null);
+  const [totalContents, setTotalContents] = useState(0);
+  const [filteredTotal, setFilteredTotal] = useState<number | null>(null);
+  const [isLoadingContents, setIsLoadingContents] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [contentsError, setContentsError] = useState<string | null>(null);
+  const [platformOptions, setPlatformOptions] = useState<string[]>([]);
+  const [folders, setFolders] = useState<CertificateFolder[]>([]);
+  const [reloadToken, setReloadToken] = useState(0);
+  
+  // Seleção para operações em lote
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isAdmin, setIsAdmin] = useState(false);
 
   // 🆕 Estado da sincronização pós-checkout do Stripe.
@@ -70,11 +167,22 @@ export default function Dashboard() {
   // Estado para o modal de instruções
   const [isInstructionsModalOpen, setIsInstructionsModalOpen] = useState(false);
   
-  // Filtros
-  const [searchTitle, setSearchTitle] = useState('');
-  const [filterPlatform, setFilterPlatform] = useState<string>('all');
-  const [filterDate, setFilterDate] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<string>('recent');
+  // Filtros (fonte de verdade: URL)
+  const filterValues = useMemo(() => {
+    const values = { ...FILTER_DEFAULTS };
+    FILTER_PARAMS.forEach(key => {
+      values[key] = searchParams.get(key) ?? FILTER_DEFAULTS[key];
+    });
+    return values;
+  }, [searchParams]);
+  const filtersKey = FILTER_PARAMS.map(key => filterValues[key]).join('|');
+  const hasActiveFilters = FILTER_PARAMS.some(key => filterValues[key] !== FILTER_DEFAULTS[key]);
+
+  // Texto digitado (aplicado na URL após debounce)
+  const [searchInput, setSearchInput] = useState(filterValues.q);
+  const appliedQueryRef = useRef(filterValues.q);
+  const loadRequestRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
   
   useEffect(() => {
     // 🆕 CORREÇÃO: Removida dependência de navigate para evitar loop de re-renderização
@@ -210,9 +318,11 @@ export default function Dashboard() {
           setIsSyncingCheckout(false);
           // 5) Limpa o session_id da URL — sem recarregar a página —
           //    para evitar re-execução em refresh / navegação interna.
-          const next = new URLSearchParams(searchParams);
-          next.delete('session_id');
-          setSearchParams(next, { replace: true });
+          setSearchParams(prev => {
+            const next = new URLSearchParams(prev);
+            next.delete('session_id');
+            return next;
+          }, { replace: true });
         }
       }
     };
@@ -258,10 +368,16 @@ export default function Dashboard() {
         keySource: userKeyPair ? 'localStorage ou Supabase (descriptografadas)' : 'nenhuma',
       });
       
-      // Carrega conteúdos assinados
-      const contents = await getSignedContentsByUserId(user.id);
-      setSignedContents(contents);
-      console.log('📄 Conteúdos assinados carregados:', contents.length);
+      // Total e opções dos filtros (os conteúdos são paginados no servidor)
+      const [total, platforms, folderResult] = await Promise.all([
+        countSignedContents(user.id),
+        getSignedContentPlatforms(),
+        getUserFolders(user.id),
+      ]);
+      setTotalContents(total);
+      setPlatformOptions(platforms);
+      setFolders(folderResult.folders || []);
+      console.log('📄 Conteúdos assinados:', total);
     } catch (error) {
       console.error('❌ Erro ao carregar dados:', error);
     } finally {
@@ -366,76 +482,134 @@ export default function Dashboard() {
       .slice(0, 2);
   };
   
-  // Função para filtrar e ordenar conteúdos
-  const getFilteredAndSortedContents = () => {
-    let filtered = [...signedContents];
-    
-    // Filtro por título
-    if (searchTitle.trim()) {
-      filtered = filtered.filter(content =>
-        content.content.toLowerCase().includes(searchTitle.toLowerCase())
-      );
-    }
-    
-    // Filtro por plataforma
-    if (filterPlatform !== 'all') {
-      filtered = filtered.filter(content =>
-        content.platforms?.includes(filterPlatform)
-      );
-    }
-    
-    // Filtro por data
-    if (filterDate !== 'all') {
-      const now = new Date();
-      filtered = filtered.filter(content => {
-        const contentDate = new Date(content.createdAt);
-        const diffDays = Math.floor((now.getTime() - contentDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        switch (filterDate) {
-          case 'today':
-            return diffDays === 0;
-          case 'week':
-            return diffDays <= 7;
-          case 'month':
-            return diffDays <= 30;
-          case 'year':
-            return diffDays <= 365;
-          default:
-            return true;
+  // 🔗 Atualiza filtros na URL (valores padrão são removidos)
+  const updateFilters = useCallback((changes: Partial<Record<FilterParam, string>>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (!value || value === FILTER_DEFAULTS[key as FilterParam]) {
+          next.delete(key);
+        } else {
+          next.set(key, value);
         }
       });
-    }
-    
-    // Ordenação
-    switch (sortBy) {
-      case 'oldest':
-        filtered.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-        break;
-      case 'alphabetical':
-        filtered.sort((a, b) => a.content.localeCompare(b.content));
-        break;
-      case 'most-verified':
-        filtered.sort((a, b) => (b.verificationCount || 0) - (a.verificationCount || 0));
-        break;
-      case 'recent':
-      default:
-        filtered.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        break;
-    }
-    
-    return filtered;
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const clearFilters = () => {
+    appliedQueryRef.current = '';
+    setSearchInput('');
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      FILTER_PARAMS.forEach(key => next.delete(key));
+      return next;
+    }, { replace: true });
   };
-  
-  // Obter todas as plataformas únicas
-  const getAllPlatforms = () => {
-    const platforms = new Set<string>();
-    signedContents.forEach(content => {
-      content.platforms?.forEach(platform => platforms.add(platform));
+
+  // Aplica o texto digitado após uma pausa
+  useEffect(() => {
+    const query = searchInput.trim();
+    if (query === appliedQueryRef.current) return;
+    const timer = setTimeout(() => {
+      appliedQueryRef.current = query;
+      updateFilters({ q: query });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, updateFilters]);
+
+  // URL alterada por fora (voltar/avançar, limpar filtros): sincroniza o campo de busca
+  useEffect(() => {
+    if (filterValues.q === appliedQueryRef.current) return;
+    appliedQueryRef.current = filterValues.q;
+    setSearchInput(filterValues.q);
+  }, [filterValues.q]);
+
+  // 📄 Primeira página sempre que o usuário ou os filtros mudam
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const requestId = ++loadRequestRef.current;
+    setIsLoadingContents(true);
+    setContentsError(null);
+
+    searchSignedContents(buildSearchFilters(filterValues), { includeTotal: true })
+      .then(page => {
+        if (requestId !== loadRequestRef.current) return;
+        setSignedContents(page.items);
+        setNextCursor(page.nextCursor);
+        setFilteredTotal(page.total);
+      })
+      .catch(error => {
+        if (requestId !== loadRequestRef.current) return;
+        console.error('❌ Erro ao buscar conteúdos assinados:', error);
+        setSignedContents([]);
+        setNextCursor(null);
+        setContentsError('Não foi possível carregar seus conteúdos. Tente novamente.');
+      })
+      .finally(() => {
+        if (requestId === loadRequestRef.current) setIsLoadingContents(false);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUser, filtersKey, reloadToken]);
+
+  // ♾️ Próxima página (rolagem infinita)
+  const loadMoreContents = useCallback(async () => {
+    if (!nextCursor || isLoadingMore || isLoadingContents) return;
+
+    const requestId = loadRequestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchSignedContents(buildSearchFilters(filterValues), { cursor: nextCursor });
+      if (requestId !== loadRequestRef.current) return;
+      setSignedContents(current => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('❌ Erro ao carregar mais conteúdos:', error);
+      setContentsError('Não foi possível carregar mais conteúdos. Tente novamente.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, isLoadingContents, filterValues]);
+
+  const toggleSelected = (contentId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(contentId)) {
+        next.delete(contentId);
+      } else if (next.size < MAX_BULK_SELECTION) {
+        next.add(contentId);
+      }
+      return next;
     });
-    return Array.from(platforms).sort();
   };
-  
-  const filteredContents = getFilteredAndSortedContents();
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  // Após mover/excluir: recarrega a primeira página com os filtros atuais
+  const handleBulkChanged = ({ deletedIds }: { deletedIds?: string[] }) => {
+    if (deletedIds && deletedIds.length > 0) {
+      setTotalContents(current => Math.max(0, current - deletedIds.length));
+    }
+    exitSelection();
+    setReloadToken(current => current + 1);
+  };
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) loadMoreContents();
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreContents]);
+
   
   if (isLoading) {
     return (
@@ -585,6 +759,10 @@ export default function Dashboard() {
                       <Settings className="mr-2 h-4 w-4" />
                       <span>Configurações</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/organizations')} className="cursor-pointer">
+                      <Building2 className="mr-2 h-4 w-4" />
+                      <span>Organizações</span>
+                    </DropdownMenuItem>
                     
                     {isAdmin && (
                       <>
@@ -604,6 +782,16 @@ export default function Dashboard() {
                           <FileText className="mr-2 h-4 w-4" />
                           <span>Logs de Auditoria</span>
                         </DropdownMenuItem>
+                        
+                        <DropdownMenuItem onClick={() => navigate('/admin/reports')} className="cursor-pointer text-red-600">
+                          <Flag className="mr-2 h-4 w-4" />
+                          <span>Denúncias</span>
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem onClick={() => navigate('/admin/billing-events')} className="cursor-pointer text-red-600">
+                          <Webhook className="mr-2 h-4 w-4" />
+                          <span>Eventos do Stripe</span>
+                        </DropdownMenuItem>
                       </>
                     )}
                     
@@ -673,6 +861,19 @@ export default function Dashboard() {
                   </>
                 ) : 'Gere suas chaves primeiro'}
               </Button>
+              {keyPair && (
+                <Button
+                  variant="link"
+                  className="w-full mt-1 text-blue-700"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    navigate('/sign-batch');
+                  }}
+                >
+                  <Files className="mr-2 h-4 w-4" />
+                  Assinar vários arquivos de uma vez
+                </Button>
+              )}
             </CardContent>
           </Card>
           
@@ -998,16 +1199,30 @@ export default function Dashboard() {
           <SocialLinksAlert userId={currentUser.id} className="mb-6" />
         )}
         
+        {/* 👥 Convites de co-assinatura */}
+        {currentUser && (
+          <CosignRequestsCard userId={currentUser.id} keyPair={keyPair} className="mb-6" />
+        )}
+        
+        {/* 🏢 Convites de organizações */}
+        {currentUser && (
+          <OrganizationInvitationsCard
+            userId={currentUser.id}
+            onAccepted={(organizationId) => navigate(`/organizations?org=${organizationId}`)}
+            className="mb-6"
+          />
+        )}
+        
         {/* Signed Contents */}
         <Card>
           <CardHeader>
             <CardTitle>Meus Conteúdos Assinados</CardTitle>
             <CardDescription>
-              {signedContents.length} {signedContents.length === 1 ? 'conteúdo assinado' : 'conteúdos assinados'}
+              {totalContents} {totalContents === 1 ? 'conteúdo assinado' : 'conteúdos assinados'}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {signedContents.length === 0 ? (
+            {totalContents === 0 && !hasActiveFilters ? (
               <div className="text-center py-12">
                 <FileSignature className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground mb-4">
@@ -1029,15 +1244,15 @@ export default function Dashboard() {
                   </CardHeader>
                   <CardContent>
                     <div className="grid md:grid-cols-4 gap-4">
-                      <div className="space-y-2">
+                      <div className="space-y-2 md:col-span-2">
                         <Label htmlFor="search-title" className="text-sm font-medium">
-                          Buscar por Título
+                          Buscar
                         </Label>
                         <Input
                           id="search-title"
-                          placeholder="Digite o título..."
-                          value={searchTitle}
-                          onChange={(e) => setSearchTitle(e.target.value)}
+                          placeholder="Título, texto ou nome do arquivo..."
+                          value={searchInput}
+                          onChange={(e) => setSearchInput(e.target.value)}
                         />
                       </div>
                       
@@ -1045,13 +1260,13 @@ export default function Dashboard() {
                         <Label htmlFor="filter-platform" className="text-sm font-medium">
                           Plataforma
                         </Label>
-                        <Select value={filterPlatform} onValueChange={setFilterPlatform}>
+                        <Select value={filterValues.platform} onValueChange={(value) => updateFilters({ platform: value })}>
                           <SelectTrigger id="filter-platform">
                             <SelectValue placeholder="Todas" />
                           </SelectTrigger>
                           <SelectContent className="bg-white">
                             <SelectItem value="all">Todas as plataformas</SelectItem>
-                            {getAllPlatforms().map(platform => (
+                            {platformOptions.map(platform => (
                               <SelectItem key={platform} value={platform}>
                                 {platform}
                               </SelectItem>
@@ -1060,11 +1275,49 @@ export default function Dashboard() {
                         </Select>
                       </div>
                       
+                      <div className="space-y-2">
+                        <Label htmlFor="filter-folder" className="text-sm font-medium">
+                          Pasta
+                        </Label>
+                        <Select value={filterValues.folder} onValueChange={(value) => updateFilters({ folder: value })}>
+                          <SelectTrigger id="filter-folder">
+                            <SelectValue placeholder="Todas" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-white">
+                            <SelectItem value="all">Todas as pastas</SelectItem>
+                            <SelectItem value="none">Sem pasta</SelectItem>
+                            {folders.map(folder => (
+                              <SelectItem key={folder.id} value={folder.id}>
+                                {folder.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      
+                      <div className="space-y-2">
+                        <Label htmlFor="filter-type" className="text-sm font-medium">
+                          Tipo de arquivo
+                        </Label>
+                        <Select value={filterValues.type} onValueChange={(value) => updateFilters({ type: value })}>
+                          <SelectTrigger id="filter-type">
+                            <SelectValue placeholder="Todos" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-white">
+                            <SelectItem value="all">Todos os tipos</SelectItem>
+                            <SelectItem value="image/">Imagens</SelectItem>
+                            <SelectItem value="video/">Vídeos</SelectItem>
+                            <SelectItem value="audio/">Áudios</SelectItem>
+                            <SelectItem value="application/pdf">PDF</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      
                       <div className="space-y-2">
                         <Label htmlFor="filter-date" className="text-sm font-medium">
                           Data
                         </Label>
-                        <Select value={filterDate} onValueChange={setFilterDate}>
+                        <Select value={filterValues.period} onValueChange={(value) => updateFilters({ period: value, from: '', to: '' })}>
                           <SelectTrigger id="filter-date">
                             <SelectValue placeholder="Todas" />
                           </SelectTrigger>
@@ -1074,6 +1327,25 @@ export default function Dashboard() {
                             <SelectItem value="week">Última semana</SelectItem>
                             <SelectItem value="month">Último mês</SelectItem>
                             <SelectItem value="year">Último ano</SelectItem>
+                            <SelectItem value="custom">Personalizado</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      
+                      <div className="space-y-2">
+                        <Label htmlFor="filter-verifications" className="text-sm font-medium">
+                          Verificações
+                        </Label>
+                        <Select value={filterValues.verifs} onValueChange={(value) => updateFilters({ verifs: value })}>
+                          <SelectTrigger id="filter-verifications">
+                            <SelectValue placeholder="Todas" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-white">
+                            <SelectItem value="all">Qualquer quantidade</SelectItem>
+                            <SelectItem value="none">Nunca verificados</SelectItem>
+                            <SelectItem value="1">1 ou mais</SelectItem>
+                            <SelectItem value="10">10 ou mais</SelectItem>
+                            <SelectItem value="100">100 ou mais</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -1082,7 +1354,7 @@ export default function Dashboard() {
                         <Label htmlFor="sort-by" className="text-sm font-medium">
                           Ordenar por
                         </Label>
-                        <Select value={sortBy} onValueChange={setSortBy}>
+                        <Select value={filterValues.sort} onValueChange={(value) => updateFilters({ sort: value })}>
                           <SelectTrigger id="sort-by">
                             <SelectValue placeholder="Ordenar" />
                           </SelectTrigger>
@@ -1094,23 +1366,45 @@ export default function Dashboard() {
                           </SelectContent>
                         </Select>
                       </div>
+                      
+                      {filterValues.period === 'custom' && (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="filter-date-from" className="text-sm font-medium">
+                              De
+                            </Label>
+                            <Input
+                              id="filter-date-from"
+                              type="date"
+                              value={filterValues.from}
+                              max={filterValues.to || undefined}
+                              onChange={(e) => updateFilters({ from: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="filter-date-to" className="text-sm font-medium">
+                              Até
+                            </Label>
+                            <Input
+                              id="filter-date-to"
+                              type="date"
+                              value={filterValues.to}
+                              min={filterValues.from || undefined}
+                              onChange={(e) => updateFilters({ to: e.target.value })}
+                            />
+                          </div>
+                        </>
+                      )}
                     </div>
                     
-                    {(searchTitle || filterPlatform !== 'all' || filterDate !== 'all' || sortBy !== 'recent') && (
+                    {hasActiveFilters && (
                       <div className="mt-4 flex items-center justify-between">
                         <p className="text-sm text-muted-foreground">
-                          Mostrando {filteredContents.length} de {signedContents.length} conteúdos
+                          {filteredTotal !== null
+                            ? `${filteredTotal} de ${totalContents} conteúdos`
+                            : `Mostrando ${signedContents.length} conteúdos`}
                         </p>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setSearchTitle('');
-                            setFilterPlatform('all');
-                            setFilterDate('all');
-                            setSortBy('recent');
-                          }}
-                        >
+                        <Button variant="outline" size="sm" onClick={clearFilters}>
                           Limpar Filtros
                         </Button>
                       </div>
@@ -1118,35 +1412,91 @@ export default function Dashboard() {
                   </CardContent>
                 </Card>
                 
+                {contentsError && (
+                  <Alert variant="destructive" className="mb-6">
+                    <AlertDescription>{contentsError}</AlertDescription>
+                  </Alert>
+                )}
+                
                 {/* Lista de Conteúdos */}
-                {filteredContents.length === 0 ? (
+                {isLoadingContents ? (
+                  <div className="text-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+                    <p className="text-muted-foreground">Buscando conteúdos...</p>
+                  </div>
+                ) : signedContents.length === 0 ? (
                   <div className="text-center py-12">
                     <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                     <p className="text-muted-foreground mb-4">
                       Nenhum conteúdo encontrado com os filtros aplicados
                     </p>
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setSearchTitle('');
-                        setFilterPlatform('all');
-                        setFilterDate('all');
-                        setSortBy('recent');
-                      }}
-                    >
+                    <Button variant="outline" onClick={clearFilters}>
                       Limpar Filtros
                     </Button>
                   </div>
                 ) : (
-                  <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {filteredContents.map((content) => (
-                      <ContentCard 
-                        key={content.id} 
-                        content={content} 
-                        isCreator={true} 
+                  <>
+                    {currentUser && (isSelecting ? (
+                      <BulkActionsBar
+                        userId={currentUser.id}
+                        selectedContents={signedContents.filter(content => selectedIds.has(content.id))}
+                        loadedCount={signedContents.length}
+                        folders={folders}
+                        onSelectAll={() => setSelectedIds(new Set(signedContents.slice(0, MAX_BULK_SELECTION).map(content => content.id)))}
+                        onClearSelection={exitSelection}
+                        onChanged={handleBulkChanged}
                       />
+                    ) : (
+                      <div className="mb-4 flex justify-end">
+                        <Button variant="outline" size="sm" onClick={() => setIsSelecting(true)}>
+                          Selecionar
+                        </Button>
+                      </div>
                     ))}
-                  </div>
+                    
+                    <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {signedContents.map((content) => {
+                        const card = (
+                          <ContentCard 
+                            key={content.id} 
+                            content={content} 
+                            isCreator={true} 
+                          />
+                        );
+                        
+                        if (!isSelecting) return card;
+                        
+                        return (
+                          <div
+                            key={content.id}
+                            className={`relative rounded-lg ${selectedIds.has(content.id) ? 'ring-2 ring-blue-500' : ''}`}
+                          >
+                            <div className="absolute top-3 left-3 z-10 bg-white rounded p-1 shadow">
+                              <Checkbox
+                                checked={selectedIds.has(content.id)}
+                                onCheckedChange={() => toggleSelected(content.id)}
+                                aria-label="Selecionar certificado"
+                              />
+                            </div>
+                            {card}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    
+                    {/* ♾️ Sentinela da rolagem infinita */}
+                    {nextCursor && (
+                      <div ref={loadMoreRef} className="flex justify-center py-6">
+                        {isLoadingMore ? (
+                          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                        ) : (
+                          <Button variant="outline" onClick={loadMoreContents}>
+                            Carregar mais
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </>
                 )}
               </>
             )}
@@ -0,0 +1,482 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Building2, Coins, Loader2, Pencil, Plus, Shield } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getCurrentUser } from '@/lib/supabase-auth';
+import type { User } from '@/lib/supabase-auth';
+import type { SignatureStatus } from '@/hooks/useSubscription';
+import {
+  canManageOrganization,
+  createOrganization,
+  getMyOrganizations,
+  getOrganizationSignatureStatus,
+  getOrganizationWorkspace,
+  slugifyOrganizationName,
+  updateOrganization,
+  ORGANIZATION_ROLE_LABELS,
+  ORGANIZATION_SLUG_PATTERN,
+} from '@/lib/services/organization-service';
+import type { OrganizationSummary, OrganizationWorkspace } from '@/lib/services/organization-service';
+import { OrganizationInvitationsCard } from '@/components/OrganizationInvitationsCard';
+import { OrganizationMembersCard } from '@/components/OrganizationMembersCard';
+import { OrganizationContentsCard } from '@/components/OrganizationContentsCard';
+
+/**
+ * 🏢 Organizações: workspaces com membros, pastas compartilhadas e pool de créditos
+ */
+export default function Organizations() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get('org');
+
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [workspace, setWorkspace] = useState<OrganizationWorkspace | null>(null);
+  const [workspaceLoading, setWorkspaceLoading] = useState(false);
+  const [poolStatus, setPoolStatus] = useState<SignatureStatus | null>(null);
+
+  // Criar organização
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newSlug, setNewSlug] = useState('');
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  // Editar perfil
+  const [editOpen, setEditOpen] = useState(false);
+  const [profileForm, setProfileForm] = useState({ name: '', description: '', website: '', logoUrl: '' });
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  const loadOrganizations = useCallback(async () => {
+    setOrganizations(await getMyOrganizations());
+    setLoading(false);
+  }, []);
+
+  const loadWorkspace = useCallback(async (organizationId: string) => {
+    setWorkspaceLoading(true);
+    const [result, status] = await Promise.all([
+      getOrganizationWorkspace(organizationId),
+      getOrganizationSignatureStatus(organizationId),
+    ]);
+    setWorkspace(result);
+    setPoolStatus(status);
+    setWorkspaceLoading(false);
+  }, []);
+
+  useEffect(() => {
+    getCurrentUser().then(user => {
+      if (!user) {
+        navigate('/login');
+        return;
+      }
+      setCurrentUser(user);
+      loadOrganizations();
+    });
+  }, [navigate, loadOrganizations]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setWorkspace(null);
+      setPoolStatus(null);
+      return;
+    }
+    loadWorkspace(selectedId);
+  }, [selectedId, loadWorkspace]);
+
+  const openOrganization = (organizationId: string | null) => {
+    setSearchParams(organizationId ? { org: organizationId } : {});
+  };
+
+  const handleNameChange = (value: string) => {
+    setNewName(value);
+    if (!slugEdited) setNewSlug(slugifyOrganizationName(value));
+  };
+
+  const handleCreate = async () => {
+    if (!ORGANIZATION_SLUG_PATTERN.test(newSlug)) {
+      toast({
+        title: 'Endereço inválido',
+        description: 'Use letras minúsculas, números e hífens (ex.: agencia-aurora).',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCreating(true);
+    const result = await createOrganization({ name: newName.trim(), slug: newSlug });
+    setCreating(false);
+
+    if (!result.success || !result.organizationId) {
+      toast({ title: 'Erro ao criar organização', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Organização criada', description: 'Convide sua equipe para começar.' });
+    setCreateOpen(false);
+    setNewName('');
+    setNewSlug('');
+    setSlugEdited(false);
+    await loadOrganizations();
+    openOrganization(result.organizationId);
+  };
+
+  const openProfileEditor = () => {
+    if (!workspace) return;
+    const { organization } = workspace;
+    setProfileForm({
+      name: organization.name,
+      description: organization.description || '',
+      website: organization.website || '',
+      logoUrl: organization.logo_url || '',
+    });
+    setEditOpen(true);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!workspace) return;
+    setSavingProfile(true);
+    const result = await updateOrganization(workspace.organization.id, {
+      name: profileForm.name.trim(),
+      description: profileForm.description.trim(),
+      website: profileForm.website.trim(),
+      logoUrl: profileForm.logoUrl.trim(),
+    });
+    setSavingProfile(false);
+
+    if (!result.success) {
+      toast({ title: 'Erro ao salvar perfil', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    setEditOpen(false);
+    await Promise.all([loadWorkspace(workspace.organization.id), loadOrganizations()]);
+  };
+
+  const handleLeft = async () => {
+    openOrganization(null);
+    await loadOrganizations();
+  };
+
+  if (loading || !currentUser) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const poolUsedPercent = poolStatus && poolStatus.signatures_limit > 0
+    ? Math.min(100, (poolStatus.signatures_used / poolStatus.signatures_limit) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      {/* Header */}
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => (selectedId ? openOrganization(null) : navigate('/dashboard'))}
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <Shield className="h-8 w-8 text-blue-600" />
+              <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                Vero iD
+              </span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        {!selectedId && (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              <div>
+                <h1 className="text-4xl font-bold mb-2">Organizações</h1>
+                <p className="text-muted-foreground">
+                  Emita certificados em nome da sua empresa, com a equipe e os créditos compartilhados
+                </p>
+              </div>
+              <Button onClick={() => setCreateOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nova organização
+              </Button>
+            </div>
+
+            <OrganizationInvitationsCard
+              userId={currentUser.id}
+              onAccepted={(organizationId) => {
+                loadOrganizations();
+                openOrganization(organizationId);
+              }}
+            />
+
+            {organizations.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center space-y-2">
+                  <Building2 className="h-10 w-10 mx-auto text-muted-foreground" />
+                  <p className="font-medium">Você ainda não participa de nenhuma organização</p>
+                  <p className="text-sm text-muted-foreground">
+                    Crie uma para a sua empresa ou aceite um convite recebido por e-mail.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {organizations.map(org => (
+                  <Card
+                    key={org.id}
+                    className="cursor-pointer hover:border-blue-400 transition-colors"
+                    onClick={() => openOrganization(org.id)}
+                  >
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        {org.logo_url
+                          ? <img src={org.logo_url} alt="" className="h-6 w-6 rounded object-cover" />
+                          : <Building2 className="h-5 w-5" />}
+                        <span className="truncate">{org.name}</span>
+                      </CardTitle>
+                      <CardDescription className="flex items-center gap-2">
+                        <Badge variant="secondary">{ORGANIZATION_ROLE_LABELS[org.role]}</Badge>
+                        {org.member_count} membro{org.member_count === 1 ? '' : 's'}
+                      </CardDescription>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {selectedId && (workspaceLoading && !workspace) && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        )}
+
+        {selectedId && !workspaceLoading && !workspace && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Organização não encontrada ou você não faz mais parte dela.
+            </CardContent>
+          </Card>
+        )}
+
+        {workspace && (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+              <div className="flex items-center gap-4 min-w-0">
+                {workspace.organization.logo_url ? (
+                  <img
+                    src={workspace.organization.logo_url}
+                    alt=""
+                    className="h-14 w-14 rounded-lg object-cover border bg-white"
+                  />
+                ) : (
+                  <div className="h-14 w-14 rounded-lg bg-purple-100 text-purple-700 flex items-center justify-center">
+                    <Building2 className="h-7 w-7" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <h1 className="text-3xl font-bold truncate">{workspace.organization.name}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    /{workspace.organization.slug} · você é{' '}
+                    <strong>{ORGANIZATION_ROLE_LABELS[workspace.my_role]}</strong>
+                  </p>
+                </div>
+              </div>
+              {canManageOrganization(workspace.my_role) && (
+                <Button variant="outline" onClick={openProfileEditor}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Editar perfil
+                </Button>
+              )}
+            </div>
+
+            {workspace.organization.description && (
+              <p className="text-muted-foreground whitespace-pre-wrap">{workspace.organization.description}</p>
+            )}
+
+            {/* 🪙 Pool de créditos (plano e pacotes do dono) */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Coins className="h-5 w-5" />
+                  Pool de créditos
+                </CardTitle>
+                <CardDescription>
+                  Certificados emitidos em nome da organização usam o plano e os pacotes de créditos do dono.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {poolStatus ? (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span>Plano: {poolStatus.signatures_used} de {poolStatus.signatures_limit} autenticações</span>
+                      <span className="font-medium">{poolStatus.total_available} disponíveis</span>
+                    </div>
+                    <Progress value={poolUsedPercent} />
+                    <p className="text-xs text-muted-foreground">
+                      {poolStatus.overage_available} crédito{poolStatus.overage_available === 1 ? '' : 's'} avulso{poolStatus.overage_available === 1 ? '' : 's'} ·{' '}
+                      {workspace.usage_30d} certificado{workspace.usage_30d === 1 ? '' : 's'} da organização nos últimos 30 dias
+                    </p>
+                    {!poolStatus.has_active_subscription && poolStatus.total_available === 0 && (
+                      <p className="text-sm text-amber-700">
+                        O dono da organização não tem plano ativo nem créditos disponíveis.
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Não foi possível carregar o pool de créditos.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <OrganizationMembersCard
+              workspace={workspace}
+              userId={currentUser.id}
+              onChanged={() => loadWorkspace(workspace.organization.id)}
+              onLeft={handleLeft}
+            />
+
+            <OrganizationContentsCard
+              workspace={workspace}
+              userId={currentUser.id}
+              onFoldersChanged={() => loadWorkspace(workspace.organization.id)}
+            />
+          </>
+        )}
+      </div>
+
+      {/* Nova organização */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova organização</DialogTitle>
+            <DialogDescription>
+              Você será o dono. Os certificados emitidos em nome dela usam o seu plano.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="org-name">Nome</Label>
+              <Input
+                id="org-name"
+                value={newName}
+                onChange={(e) => handleNameChange(e.target.value)}
+                placeholder="Agência Aurora"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="org-slug">Endereço</Label>
+              <Input
+                id="org-slug"
+                value={newSlug}
+                onChange={(e) => {
+                  setSlugEdited(true);
+                  setNewSlug(e.target.value.toLowerCase());
+                }}
+                placeholder="agencia-aurora"
+                maxLength={40}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={creating}>
+              Cancelar
+            </Button>
+            <Button onClick={handleCreate} disabled={creating || !newName.trim() || !newSlug}>
+              {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Criar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Perfil público */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Perfil da organização</DialogTitle>
+            <DialogDescription>
+              Estas informações aparecem nos certificados emitidos em nome da organização.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Nome</Label>
+              <Input
+                id="profile-name"
+                value={profileForm.name}
+                onChange={(e) => setProfileForm(form => ({ ...form, name: e.target.value }))}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-description">Descrição</Label>
+              <Textarea
+                id="profile-description"
+                value={profileForm.description}
+                onChange={(e) => setProfileForm(form => ({ ...form, description: e.target.value }))}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-website">Site</Label>
+              <Input
+                id="profile-website"
+                type="url"
+                value={profileForm.website}
+                onChange={(e) => setProfileForm(form => ({ ...form, website: e.target.value }))}
+                placeholder="https://empresa.com.br"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-logo">URL do logo</Label>
+              <Input
+                id="profile-logo"
+                type="url"
+                value={profileForm.logoUrl}
+                onChange={(e) => setProfileForm(form => ({ ...form, logoUrl: e.target.value }))}
+                placeholder="https://empresa.com.br/logo.png"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)} disabled={savingProfile}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveProfile} disabled={savingProfile || !profileForm.name.trim()}>
+              {savingProfile && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
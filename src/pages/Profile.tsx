@@ -10,6 +10,8 @@ import { Label } from '@/components/ui/label';
 import { Shield, ArrowLeft, User, Mail, Phone, FileText, Calendar, CheckCircle2, Camera, Link as LinkIcon, Instagram, Facebook, Twitter, Youtube, Linkedin, Globe, Save, Edit, ShieldCheck, ShieldOff, Loader2, CreditCard, X } from 'lucide-react';
 import { getCurrentUser, User as UserType, updateSocialLinks, updatePublicName } from '@/lib/supabase-auth';
 import { SocialLinks } from '@/lib/supabase';
+import { SocialLinkVerificationCard } from '@/components/SocialLinkVerificationCard';
+import { StorageUsageMeter } from '@/components/StorageUsageMeter';
 import { useToast } from '@/hooks/use-toast';
 import { has2FAEnabled, disable2FA } from '@/lib/supabase-2fa';
 import { getCSRFToken } from '@/lib/csrf-protection';
@@ -691,6 +693,9 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Verificação de controle dos links */}
+        <SocialLinkVerificationCard socialLinks={currentUser.socialLinks} />
+
         {/* Personal Information */}
         <Card className="mb-6">
           <CardHeader>
@@ -852,6 +857,9 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Storage */}
+        <StorageUsageMeter className="mb-6" />
+
         {/* Account Status */}
         <Card>
           <CardHeader>
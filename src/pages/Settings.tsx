@@ -19,6 +19,8 @@ import {
 } from 'lucide-react';
 import { getCurrentUser, logout, deleteSelfAccount, changePassword, User } from '@/lib/supabase-auth';
 import { SubscriptionSettings } from '@/components/SubscriptionSettings';
+import { KeyManagementSettings } from '@/components/KeyManagementSettings';
+import { ApiKeysSettings } from '@/components/ApiKeysSettings';
 
 export default function Settings() {
   const navigate = useNavigate();
@@ -274,6 +276,12 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Key Management */}
+        <KeyManagementSettings userId={currentUser.id} />
+
+        {/* API Keys */}
+        <ApiKeysSettings />
+
         {/* Data Management */}
         <Card className="mb-6">
           <CardHeader>
@@ -0,0 +1,621 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Shield, ArrowLeft, Loader2, Upload, X, Check, AlertCircle, Files, FolderOpen, RotateCcw, Ban } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { getCurrentUser } from '@/lib/supabase-auth';
+import type { User as UserType } from '@/lib/supabase-auth';
+import { getKeyPair } from '@/lib/supabase-crypto';
+import type { KeyPair } from '@/lib/supabase-crypto';
+import { getAcceptString } from '@/lib/file-validator';
+import { sanitizeFileName } from '@/lib/input-sanitizer';
+import { formatFileSize } from '@/lib/video-processor';
+import { getUserFolders } from '@/lib/services/folder-service';
+import type { CertificateFolder } from '@/lib/types/folders';
+import {
+  MAX_BATCH_FILES,
+  createBatchItems,
+  prepareBatchItem,
+  signBatchItem,
+  getAvailableSignatures,
+} from '@/lib/services/batch-signing-service';
+import type { BatchItem, BatchItemStatus } from '@/lib/services/batch-signing-service';
+import { useSignatureStatus } from '@/hooks/useSubscription';
+import { useRateLimit } from '@/hooks/useRateLimit';
+import { RateLimitAlert } from '@/components/RateLimitAlert';
+
+type SocialPlatform = 'Instagram' | 'YouTube' | 'Twitter' | 'TikTok' | 'Facebook' | 'LinkedIn' | 'Website' | 'Outros';
+
+const socialPlatforms: { value: SocialPlatform; label: string; logo: string }[] = [
+  { value: 'Instagram', label: 'Instagram', logo: '📷' },
+  { value: 'YouTube', label: 'YouTube', logo: '▶️' },
+  { value: 'Twitter', label: 'X/Twitter', logo: '🐦' },
+  { value: 'TikTok', label: 'TikTok', logo: '🎵' },
+  { value: 'Facebook', label: 'Facebook', logo: '👥' },
+  { value: 'LinkedIn', label: 'LinkedIn', logo: '💼' },
+  { value: 'Website', label: 'Website', logo: '🌐' },
+  { value: 'Outros', label: 'Outros', logo: '📱' },
+];
+
+const statusLabels: Record<BatchItemStatus, string> = {
+  queued: 'Na fila',
+  validating: 'Validando...',
+  uploading: 'Enviando...',
+  scanning: 'Verificando segurança...',
+  ready: 'Pronto para assinar',
+  signing: 'Assinando...',
+  signed: 'Assinado',
+  rejected: 'Recusado',
+  failed: 'Falhou',
+};
+
+const BUSY_STATUSES: BatchItemStatus[] = ['validating', 'uploading', 'scanning', 'signing'];
+
+// Atributos de seleção de pasta (não tipados no React)
+const directoryInputProps = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+export default function SignBatch() {
+  const navigate = useNavigate();
+  const [titlePrefix, setTitlePrefix] = useState('');
+  const [content, setContent] = useState('');
+  const [selectedPlatforms, setSelectedPlatforms] = useState<SocialPlatform[]>([]);
+  const [allowFileDownload, setAllowFileDownload] = useState(true);
+  const [folders, setFolders] = useState<CertificateFolder[]>([]);
+  const [targetFolderId, setTargetFolderId] = useState<string>('none');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentUser, setCurrentUser] = useState<UserType | null>(null);
+  const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
+  const [batchError, setBatchError] = useState<string>('');
+
+  // Estado mais recente da fila para os loops assíncronos
+  const itemsRef = useRef<BatchItem[]>([]);
+
+  const { status: signatureStatus, refetch: refetchStatus } = useSignatureStatus();
+  const {
+    check: checkRateLimit,
+    isBlocked,
+    blockedUntil,
+    remaining,
+    message: rateLimitMessage,
+  } = useRateLimit('SIGN_CONTENT');
+
+  useEffect(() => {
+    loadUserData();
+  }, [navigate]);
+
+  const loadUserData = async () => {
+    try {
+      setIsLoading(true);
+
+      const user = await getCurrentUser();
+      if (!user) {
+        navigate('/login');
+        return;
+      }
+
+      setCurrentUser(user);
+
+      const [userKeyPair, foldersResult] = await Promise.all([
+        getKeyPair(user.id),
+        getUserFolders(user.id),
+      ]);
+      setKeyPair(userKeyPair);
+      if (foldersResult.success && foldersResult.folders) {
+        setFolders(foldersResult.folders);
+      }
+
+      console.log('✅ Dados carregados:', {
+        user: user.email,
+        hasKeys: !!userKeyPair,
+      });
+    } catch (error) {
+      console.error('❌ Erro ao carregar dados:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    itemsRef.current = itemsRef.current.map(item => item.id === id ? { ...item, ...changes } : item);
+    setItems(itemsRef.current);
+  };
+
+  const getItem = (id: string) => itemsRef.current.find(item => item.id === id);
+
+  /**
+   * Prepara (valida, envia, escaneia) os itens um de cada vez
+   */
+  const prepareItems = async (ids: string[]) => {
+    if (!currentUser) return;
+
+    setIsPreparing(true);
+    try {
+      for (const id of ids) {
+        const item = getItem(id);
+        if (!item) continue; // removido da fila enquanto aguardava
+        await prepareBatchItem(item, currentUser.id, titlePrefix, updateItem);
+      }
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Pastas podem trazer arquivos ocultos/de sistema (ex: .DS_Store)
+    const files = Array.from(e.target.files || []).filter(file => !file.name.startsWith('.'));
+    e.target.value = '';
+    setBatchError('');
+
+    if (!files.length) return;
+
+    const available = MAX_BATCH_FILES - itemsRef.current.length;
+    if (files.length > available) {
+      setBatchError(`Você pode adicionar no máximo ${MAX_BATCH_FILES} arquivos por lote. Atualmente você tem ${itemsRef.current.length} e tentou adicionar ${files.length}.`);
+      return;
+    }
+
+    console.log('📁 [BATCH] Arquivos adicionados:', files.length);
+
+    const newItems = createBatchItems(files);
+    itemsRef.current = [...itemsRef.current, ...newItems];
+    setItems(itemsRef.current);
+
+    await prepareItems(newItems.map(item => item.id));
+  };
+
+  const handleRemoveItem = (id: string) => {
+    // Arquivo temporário é limpo pela expiração do bucket temp-uploads
+    itemsRef.current = itemsRef.current.filter(item => item.id !== id);
+    setItems(itemsRef.current);
+  };
+
+  const togglePlatform = (platform: SocialPlatform) => {
+    setSelectedPlatforms(prev =>
+      prev.includes(platform)
+        ? prev.filter(p => p !== platform)
+        : [...prev, platform]
+    );
+  };
+
+  /**
+   * Assina os itens prontos (e os que falharam na assinatura)
+   */
+  const signItems = async (ids: string[]) => {
+    if (!currentUser || !keyPair || ids.length === 0) return;
+
+    setBatchError('');
+    setIsSigning(true);
+
+    try {
+      // Itens que já foram assinados antes da falha não consomem crédito de novo
+      const needCredits = ids.filter(id => !getItem(id)?.creditConsumed).length;
+
+      // ✈️ Pre-flight: créditos suficientes para o lote inteiro
+      const { hasSubscription, available } = await getAvailableSignatures(currentUser.id);
+      if (!hasSubscription) {
+        setBatchError('Você precisa de uma assinatura ativa para assinar conteúdos.');
+        return;
+      }
+      if (available < needCredits) {
+        setBatchError(`Créditos insuficientes: o lote precisa de ${needCredits} assinaturas e você tem ${available} disponíveis. Remova arquivos da fila ou adquira pacotes avulsos.`);
+        return;
+      }
+
+      const rateLimitResult = await checkRateLimit();
+      if (!rateLimitResult.allowed) {
+        setBatchError(rateLimitResult.message || 'Limite de requisições atingido. Tente novamente mais tarde.');
+        return;
+      }
+
+      console.log(`🔐 [BATCH] Assinando ${ids.length} arquivos (${needCredits} créditos)`);
+
+      for (const id of ids) {
+        const item = getItem(id);
+        if (!item) continue;
+        await signBatchItem(item, currentUser, keyPair, {
+          titlePrefix,
+          description: content,
+          platforms: selectedPlatforms,
+          allowFileDownload,
+          folderId: targetFolderId === 'none' ? null : targetFolderId,
+        }, updateItem);
+      }
+    } catch (error) {
+      console.error('❌ [BATCH] Erro ao assinar lote:', error);
+      setBatchError(error instanceof Error ? error.message : 'Erro ao assinar lote. Tente novamente.');
+    } finally {
+      setIsSigning(false);
+      await refetchStatus();
+    }
+  };
+
+  const handleSignAll = () => {
+    signItems(itemsRef.current.filter(item => item.status === 'ready').map(item => item.id));
+  };
+
+  /**
+   * 🔁 Tenta de novo apenas os itens que falharam, a partir da etapa onde pararam
+   */
+  const handleRetryFailed = async () => {
+    const failed = itemsRef.current.filter(item => item.status === 'failed');
+
+    // Falhou antes de ficar pronto → refaz a preparação (upload só se ainda não foi enviado)
+    const toPrepare = failed.filter(item => item.failedStage === 'prepare').map(item => item.id);
+    if (toPrepare.length > 0) {
+      await prepareItems(toPrepare);
+    }
+
+    // Falhou durante a assinatura → retoma da sub-etapa pendente
+    await signItems(failed.filter(item => item.failedStage === 'sign').map(item => item.id));
+  };
+
+  const handleNewBatch = () => {
+    itemsRef.current = [];
+    setItems([]);
+    setBatchError('');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-muted-foreground">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!keyPair) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Chaves Não Encontradas</CardTitle>
+            <CardDescription>
+              Você precisa gerar suas chaves criptográficas antes de assinar conteúdo
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate('/dashboard')} className="w-full">
+              Ir para Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const readyCount = items.filter(item => item.status === 'ready').length;
+  const signedCount = items.filter(item => item.status === 'signed').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const rejectedCount = items.filter(item => item.status === 'rejected').length;
+  const isBusy = isPreparing || isSigning || items.some(item => BUSY_STATUSES.includes(item.status));
+  const isDone = items.length > 0 && signedCount + rejectedCount === items.length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <Shield className="h-8 w-8 text-blue-600" />
+              <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                Vero iD
+              </span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+            <Files className="h-10 w-10 text-purple-600" />
+            Assinatura em Lote
+          </h1>
+          <p className="text-muted-foreground">
+            Assine até {MAX_BATCH_FILES} arquivos de uma vez. Cada arquivo recebe seu próprio certificado e consome 1 assinatura.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Novo Lote</CardTitle>
+            <CardDescription>
+              Imagens, vídeos, áudios e documentos podem ser misturados no mesmo lote
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Alert>
+              <Shield className="h-4 w-4" />
+              <AlertDescription>
+                Assinando como: <span className="font-medium">{currentUser?.nomePublico || currentUser?.nomeCompleto}</span>
+              </AlertDescription>
+            </Alert>
+
+            {signatureStatus && signatureStatus.has_active_subscription && (
+              <Alert className="border-blue-200 bg-blue-50">
+                <AlertDescription className="text-blue-800">
+                  📊 <strong>Assinaturas disponíveis:</strong> {signatureStatus.total_available}
+                  {readyCount > 0 && <> · este lote usará {readyCount + failedCount}</>}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {isBlocked && (
+              <RateLimitAlert
+                blockedUntil={blockedUntil}
+                message={rateLimitMessage}
+                remaining={remaining}
+              />
+            )}
+
+            {!isBlocked && remaining !== undefined && remaining <= 3 && remaining > 0 && (
+              <Alert className="border-yellow-500 bg-yellow-50">
+                <AlertDescription className="text-yellow-800">
+                  ⚠️ Atenção: Você tem {remaining} {remaining === 1 ? 'assinatura restante' : 'assinaturas restantes'} nesta hora.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {batchError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Erro:</strong> {batchError}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="title-prefix">01 - Prefixo do Título</Label>
+              <Input
+                id="title-prefix"
+                placeholder="Ex: Ensaio de verão (o nome de cada arquivo é adicionado)"
+                value={titlePrefix}
+                onChange={(e) => setTitlePrefix(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>02 - Arquivos * (até {MAX_BATCH_FILES}; vídeos até 200MB, demais até 10MB)</Label>
+              {items.length < MAX_BATCH_FILES && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center hover:border-muted-foreground/50 transition-colors">
+                    <input
+                      id="batch-files"
+                      type="file"
+                      className="hidden"
+                      onChange={handleFilesSelected}
+                      disabled={isBusy}
+                      accept={getAcceptString(['image', 'video', 'audio', 'document'])}
+                      multiple
+                    />
+                    <label htmlFor="batch-files" className={isBusy ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}>
+                      <Upload className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                      <p className="text-sm text-muted-foreground">Selecionar arquivos</p>
+                    </label>
+                  </div>
+                  <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center hover:border-muted-foreground/50 transition-colors">
+                    <input
+                      id="batch-folder"
+                      type="file"
+                      className="hidden"
+                      onChange={handleFilesSelected}
+                      disabled={isBusy}
+                      multiple
+                      {...directoryInputProps}
+                    />
+                    <label htmlFor="batch-folder" className={isBusy ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}>
+                      <FolderOpen className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                      <p className="text-sm text-muted-foreground">Selecionar uma pasta inteira</p>
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {items.length > 0 && (
+                <div className="border rounded-lg divide-y">
+                  {items.map(item => (
+                    <div key={item.id} className="flex items-center gap-3 p-3">
+                      {item.thumbnail ? (
+                        <img src={item.thumbnail} alt="" className="h-12 w-12 rounded object-cover border" />
+                      ) : (
+                        <div className="h-12 w-12 rounded border bg-muted flex items-center justify-center">
+                          <Files className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                      )}
+
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium truncate">{sanitizeFileName(item.file.name)}</p>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">{formatFileSize(item.file.size)}</span>
+                        </div>
+                        {item.status === 'uploading' ? (
+                          <Progress value={item.uploadProgress} className="h-2" />
+                        ) : (
+                          <p className={`text-xs flex items-center gap-1 ${
+                            item.status === 'signed' ? 'text-green-700'
+                              : item.status === 'failed' || item.status === 'rejected' ? 'text-red-600'
+                              : 'text-muted-foreground'
+                          }`}>
+                            {item.status === 'signed' && <Check className="h-3 w-3" />}
+                            {item.status === 'rejected' && <Ban className="h-3 w-3" />}
+                            {item.status === 'failed' && <AlertCircle className="h-3 w-3" />}
+                            {BUSY_STATUSES.includes(item.status) && <Loader2 className="h-3 w-3 animate-spin" />}
+                            {statusLabels[item.status]}
+                            {item.error && `: ${item.error}`}
+                          </p>
+                        )}
+                      </div>
+
+                      {item.status === 'signed' && item.signedContent ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => window.open(`/certificate?id=${item.signedContent!.id}`, '_blank')}
+                        >
+                          Ver
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveItem(item.id)}
+                          disabled={isBusy || !!item.signedContent}
+                          className="h-8 w-8"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label>03 - Plataformas onde o Conteúdo Será Publicado *</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {socialPlatforms.map((platform) => (
+                  <div
+                    key={platform.value}
+                    className={`border rounded-lg p-3 ${isBusy ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'} transition-all ${
+                      selectedPlatforms.includes(platform.value)
+                        ? 'border-blue-600 bg-blue-50'
+                        : 'border-muted hover:border-muted-foreground/50'
+                    }`}
+                    onClick={() => !isBusy && togglePlatform(platform.value)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={selectedPlatforms.includes(platform.value)}
+                        onCheckedChange={() => !isBusy && togglePlatform(platform.value)}
+                        disabled={isBusy}
+                      />
+                      <span className="text-2xl">{platform.logo}</span>
+                      <span className="text-sm font-medium">{platform.label}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="content">04 - Descrição (aplicada a todos os certificados)</Label>
+              <Textarea
+                id="content"
+                placeholder="Digite informações adicionais sobre os arquivos..."
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                rows={4}
+                className="resize-none"
+                disabled={isBusy}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>05 - Pasta de Destino</Label>
+                <Select value={targetFolderId} onValueChange={setTargetFolderId} disabled={isBusy}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white">
+                    <SelectItem value="none">Sem pasta</SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>
+                        {folder.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 md:pt-8">
+                <Checkbox
+                  id="allow-download"
+                  checked={allowFileDownload}
+                  onCheckedChange={(checked) => setAllowFileDownload(checked === true)}
+                  disabled={isBusy}
+                />
+                <Label htmlFor="allow-download" className="cursor-pointer">
+                  Permitir download dos arquivos nos certificados
+                </Label>
+              </div>
+            </div>
+
+            {items.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {signedCount} assinados · {readyCount} prontos · {failedCount} com falha · {rejectedCount} recusados
+              </p>
+            )}
+
+            {isDone ? (
+              <div className="flex gap-4">
+                <Button onClick={handleNewBatch} variant="outline" className="flex-1">
+                  Assinar Novo Lote
+                </Button>
+                <Button onClick={() => navigate('/dashboard')} className="flex-1">
+                  Voltar ao Dashboard
+                </Button>
+              </div>
+            ) : (
+              <div className="flex flex-col md:flex-row gap-3">
+                <Button
+                  onClick={handleSignAll}
+                  disabled={isBusy || isBlocked || readyCount === 0 || selectedPlatforms.length === 0}
+                  className="flex-1"
+                  size="lg"
+                >
+                  {isSigning ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Assinando lote...
+                    </>
+                  ) : (
+                    <>
+                      <Shield className="mr-2 h-5 w-5" />
+                      Assinar {readyCount} {readyCount === 1 ? 'arquivo' : 'arquivos'}
+                    </>
+                  )}
+                </Button>
+                {failedCount > 0 && (
+                  <Button
+                    onClick={handleRetryFailed}
+                    disabled={isBusy || isBlocked || selectedPlatforms.length === 0}
+                    variant="outline"
+                    size="lg"
+                  >
+                    <RotateCcw className="mr-2 h-5 w-5" />
+                    Tentar novamente ({failedCount})
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
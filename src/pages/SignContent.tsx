@@ -7,11 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Shield, ArrowLeft, Loader2, FileText, Image as ImageIcon, Video, FileType, Music, Upload, X, Check, AlertCircle, Images } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { getCurrentUser } from '@/lib/supabase-auth';
 import type { User as UserType } from '@/lib/supabase-auth';
-import { getKeyPair } from '@/lib/supabase-crypto';
+import { getKeyPair, getSignedContentById } from '@/lib/supabase-crypto';
 import { signContent } from '@/lib/services/supabase-crypto-enhanced';
 import type { KeyPair, SignedContent } from '@/lib/supabase-crypto';
 import ContentCard from '@/components/ContentCard';
@@ -27,7 +28,6 @@ import {
   formatFileSize
 } from '@/lib/video-processor';
 import { calculateFileHash } from '@/hooks/useFileScanStatus';
-import { supabase } from '@/lib/supabase';
 import { sanitizeFileName } from '@/lib/input-sanitizer';
 import { 
   moveToSignedDocuments,
@@ -35,11 +35,21 @@ import {
 } from '@/lib/services/storage-service';
 import { uploadToTempBucketWithProgress } from '@/lib/services/storage-service-with-progress';
 import { logAuditEvent, AuditAction } from '@/lib/audit-logger';
+import { requestUploadScan, isScanFinished } from '@/lib/services/file-scan-service';
 import { generateDocumentPreview, isDocumentFile } from '@/lib/document-preview-generator';
 import { generateMusicPreview, isMusicFile } from '@/lib/music-preview-generator';
-import { useSignatureStatus, consumeSignature } from '@/hooks/useSubscription';
+import { useSignatureStatus, type SignatureStatus } from '@/hooks/useSubscription';
 import { uploadCarouselImages, moveCarouselToSignedDocuments, deleteCarouselImages } from '@/lib/services/carousel-storage';
 import type { CarouselMetadata } from '@/lib/types/carousel';
+import { LineageParentPicker, type LineageParentSelection } from '@/components/LineageParentPicker';
+import { buildLineageContentLine, type ContentLineageInput } from '@/lib/services/lineage-service';
+import {
+  buildOrganizationContentLine,
+  canSignForOrganization,
+  getMyOrganizations,
+  getOrganizationSignatureStatus,
+  type OrganizationSummary,
+} from '@/lib/services/organization-service';
 
 type ContentType = 'text' | 'image' | 'video' | 'document' | 'music' | 'carousel';
 type SocialPlatform = 'Instagram' | 'YouTube' | 'Twitter' | 'TikTok' | 'Facebook' | 'LinkedIn' | 'WhatsApp' | 'Website' | 'Outros';
@@ -66,6 +76,7 @@ const socialPlatforms: { value: SocialPlatform; label: string; logo: string }[]
 
 export default function SignContent() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [contentType, setContentType] = useState<ContentType>('image');
@@ -94,7 +105,20 @@ export default function SignContent() {
   const [isUploadingFile, setIsUploadingFile] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [showCameraCapture, setShowCameraCapture] = useState(false);
-  const { status: signatureStatus, loading: statusLoading, refetch: refetchStatus } = useSignatureStatus();
+  const { status: personalSignatureStatus, loading: personalStatusLoading, refetch: refetchStatus } = useSignatureStatus();
+  
+  // ========================================
+  // 🏢 ORGANIZAÇÃO (emitir em nome de)
+  // ========================================
+  const [signingOrganizations, setSigningOrganizations] = useState<OrganizationSummary[]>([]);
+  const [signingOrganizationId, setSigningOrganizationId] = useState<string>('personal');
+  const [organizationSignatureStatus, setOrganizationSignatureStatus] = useState<SignatureStatus | null>(null);
+  const [organizationStatusLoading, setOrganizationStatusLoading] = useState(false);
+  const selectedOrganization = signingOrganizations.find(org => org.id === signingOrganizationId) || null;
+  
+  // Em nome de uma organização, o saldo é o pool dela
+  const signatureStatus = selectedOrganization ? organizationSignatureStatus : personalSignatureStatus;
+  const statusLoading = selectedOrganization ? organizationStatusLoading : personalStatusLoading;
   
   // ========================================
   // 🎠 CAROUSEL STATES
@@ -110,10 +134,35 @@ export default function SignContent() {
   // ========================================
   const [customPlatform, setCustomPlatform] = useState<string>('');
   
+  // ========================================
+  // 🌳 LINEAGE STATE (obra derivada)
+  // ========================================
+  const [lineageSelection, setLineageSelection] = useState<LineageParentSelection>({
+    parent: null,
+    relationType: 'revision',
+  });
+  
   useEffect(() => {
     loadUserData();
   }, [navigate]);
   
+  useEffect(() => {
+    getMyOrganizations().then(orgs => {
+      setSigningOrganizations(orgs.filter(org => canSignForOrganization(org.role)));
+    });
+  }, []);
+  
+  const loadOrganizationSignatureStatus = async (organizationId: string) => {
+    setOrganizationStatusLoading(true);
+    setOrganizationSignatureStatus(await getOrganizationSignatureStatus(organizationId));
+    setOrganizationStatusLoading(false);
+  };
+  
+  useEffect(() => {
+    if (signingOrganizationId === 'personal') return;
+    loadOrganizationSignatureStatus(signingOrganizationId);
+  }, [signingOrganizationId]);
+  
   const loadUserData = async () => {
     try {
       setIsLoading(true);
@@ -125,6 +174,19 @@ export default function SignContent() {
       setCurrentUser(user);
       const userKeyPair = await getKeyPair(user.id);
       setKeyPair(userKeyPair);
+      
+      // 🌳 "Assinar nova versão" a partir de um certificado (?parent=<id>)
+      const parentId = searchParams.get('parent');
+      if (parentId) {
+        const parent = await getSignedContentById(parentId);
+        if (parent) {
+          setLineageSelection({
+            parent,
+            relationType: parent.userId === user.id ? 'revision' : 'remix',
+          });
+        }
+      }
+      
       console.log('✅ Dados carregados:', {
         user: user.email,
         hasKeys: !!userKeyPair,
@@ -258,6 +320,7 @@ export default function SignContent() {
     console.log('✅ [FILE UPLOAD] Arquivo validado com sucesso:', validationResult.details);
     setUploadedFile(file);
     
+    let uploadedTempPath: string | null = null;
     if (currentUser) {
       setIsUploadingFile(true);
       setUploadProgress(0);
@@ -279,6 +342,7 @@ export default function SignContent() {
           path: uploadResult.path,
           executionTime: uploadResult.executionTime + 'ms'
         });
+        uploadedTempPath = uploadResult.path!;
         setTempFilePath(uploadResult.path!);
       } catch (error) {
         console.error('❌ [STORAGE] Erro no upload:', error);
@@ -293,73 +357,29 @@ export default function SignContent() {
       }
     }
     
-    try {
-      console.log('🔐 [VIRUSTOTAL] Calculando hash do arquivo...');
-      const hash = await calculateFileHash(file);
-      console.log('✅ [VIRUSTOTAL] Hash calculado:', hash);
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session) {
-        console.log('🚀 [VIRUSTOTAL] Iniciando scan silencioso via Edge Function...');
-        const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scan-uploaded-file`,
+    // 🛡️ A verificação de malware roda no servidor (fila disparada pelo upload
+    // em temp-uploads); aqui só pedimos para não esperar o próximo ciclo do cron
+    if (uploadedTempPath && currentUser) {
+      const userId = currentUser.id;
+      requestUploadScan(uploadedTempPath).then(scan => {
+        if (!scan || !isScanFinished(scan.status)) return;
+        console.log('✅ [SCAN] Verificação concluída:', scan.status);
+        logAuditEvent(
+          scan.status === 'clean' || scan.status === 'infected' ? AuditAction.FILE_SCAN_COMPLETED : AuditAction.FILE_SCAN_FAILED,
           {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${session.access_token}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              file_name: sanitizedFileName,
-              file_size: file.size,
-              file_hash: hash,
-            }),
-          }
-        );
-        if (response.ok) {
-          const resultData = await response.json();
-          console.log('✅ [VIRUSTOTAL] Scan silencioso concluído:', resultData);
-          if (currentUser) {
-            logAuditEvent(AuditAction.FILE_SCAN_COMPLETED, {
-              success: true,
-              fileName: sanitizedFileName,
-              fileSize: file.size,
-              fileHash: hash,
-              scanResult: resultData,
-              scanProvider: 'VirusTotal'
-            }, currentUser.id).catch(err => {
-              console.warn('⚠️ [AUDIT] Erro ao registrar log de scan (não crítico):', err);
-            });
-          }
-        } else {
-          console.warn('⚠️ [VIRUSTOTAL] Erro no scan silencioso (não bloqueia upload)');
-          if (currentUser) {
-            const errorText = await response.text().catch(() => 'Erro desconhecido');
-            logAuditEvent(AuditAction.FILE_SCAN_FAILED, {
-              success: false,
-              fileName: sanitizedFileName,
-              fileSize: file.size,
-              fileHash: hash,
-              error: `HTTP ${response.status}: ${errorText}`,
-              scanProvider: 'VirusTotal'
-            }, currentUser.id).catch(err => {
-              console.warn('⚠️ [AUDIT] Erro ao registrar log de falha de scan (não crítico):', err);
-            });
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('⚠️ [VIRUSTOTAL] Erro ao processar scan silencioso (não bloqueia upload):', error);
-      if (currentUser) {
-        logAuditEvent(AuditAction.FILE_SCAN_FAILED, {
-          success: false,
-          fileName: sanitizedFileName,
-          fileSize: file.size,
-          error: error instanceof Error ? error.message : 'Erro desconhecido',
-          scanProvider: 'VirusTotal'
-        }, currentUser.id).catch(err => {
-          console.warn('⚠️ [AUDIT] Erro ao registrar log de erro de scan (não crítico):', err);
+            success: scan.status === 'clean',
+            fileName: sanitizedFileName,
+            fileSize: file.size,
+            filePath: scan.filePath,
+            scanStatus: scan.status,
+            threatName: scan.threatName ?? undefined,
+            scanProvider: scan.scanner ?? undefined
+          },
+          userId
+        ).catch(err => {
+          console.warn('⚠️ [AUDIT] Erro ao registrar log de scan (não crítico):', err);
         });
-      }
+      });
     }
     
     if (contentType === 'video' && isVideoFile(file)) {
@@ -768,12 +788,27 @@ export default function SignContent() {
           : p
       );
       
+      // 🔍 SHA-256 dos bytes do arquivo: entra no conteúdo assinado para que a
+      // página /verify possa comprovar que um arquivo é idêntico ao original
+      const originalFileHash = uploadedFile && !hasCarousel
+        ? await calculateFileHash(uploadedFile)
+        : undefined;
+      
+      const lineage: ContentLineageInput | undefined = lineageSelection.parent ? {
+        parentContentId: lineageSelection.parent.id,
+        relationType: lineageSelection.relationType,
+        parentVerificationCode: lineageSelection.parent.verificationCode,
+      } : undefined;
+      
       const fullContent = `
 Título: ${title}
 Tipo: ${contentTypes.find(t => t.value === contentType)?.label}
 Redes: ${platformsToDisplay.join(', ')}
 ${uploadedFile && !hasCarousel ? `Arquivo: ${sanitizedFileName}` : ''}
+${originalFileHash ? `SHA-256 do arquivo: ${originalFileHash}` : ''}
 ${hasCarousel ? `Carrossel: ${carouselFiles.length} imagens` : ''}
+${lineage ? buildLineageContentLine(lineage) : ''}
+${selectedOrganization ? buildOrganizationContentLine(selectedOrganization.name) : ''}
 
 Conteúdo:
 ${content}
@@ -818,7 +853,8 @@ ${content}
         file_name: uploadedFile.name,
         file_size: uploadedFile.size,
         mime_type: uploadedFile.type,
-        storage_bucket: 'signed-documents'
+        storage_bucket: 'signed-documents',
+        file_hash: originalFileHash
       } : undefined;
       
       console.log('📦 [STORAGE] Metadados de arquivo:', fileMetadata);
@@ -841,7 +877,9 @@ ${content}
         fileMetadata,
         creatorSocialLinks,
         allowFileDownload,
-        finalCarouselMetadata
+        finalCarouselMetadata,
+        lineage,
+        selectedOrganization?.id
       );
       
       if (!result.success) {
@@ -860,13 +898,12 @@ ${content}
       
       console.log('✅ Assinatura realizada com sucesso!');
       
-      console.log('🔄 [SIGNATURE COUNTER] Consumindo assinatura...');
-      const consumeResult = await consumeSignature(currentUser.id);
-      if (!consumeResult.success) {
-        console.error('❌ [SIGNATURE COUNTER] Erro ao consumir assinatura:', consumeResult.message);
+      // 🔄 A autenticação foi debitada no INSERT do certificado (charge_signed_content):
+      // sem crédito, o banco recusa o certificado e result.success é false
+      const issuedOrganizationId = result.signedContent?.organizationId;
+      if (issuedOrganizationId) {
+        await loadOrganizationSignatureStatus(issuedOrganizationId);
       } else {
-        console.log('✅ [SIGNATURE COUNTER] Assinatura consumida com sucesso!');
-        console.log(`📊 [SIGNATURE COUNTER] Assinaturas restantes: ${consumeResult.signatures_remaining}`);
         await refetchStatus();
       }
       
@@ -924,6 +961,7 @@ ${content}
     setIsUploadingCarousel(false);
     // Limpar campo customizado
     setCustomPlatform('');
+    setLineageSelection({ parent: null, relationType: 'revision' });
   };
   
   if (isLoading) {
@@ -999,9 +1037,39 @@ ${content}
                 <Shield className="h-4 w-4" />
                 <AlertDescription>
                   Assinando como: <span className="font-medium">{currentUser?.nomePublico || currentUser?.nomeCompleto}</span>
+                  {selectedOrganization && (
+                    <> em nome de <span className="font-medium">{selectedOrganization.name}</span></>
+                  )}
                 </AlertDescription>
               </Alert>
               
+              {signingOrganizations.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="signing-organization">Emitir certificado em nome de</Label>
+                  <Select
+                    value={signingOrganizationId}
+                    onValueChange={setSigningOrganizationId}
+                    disabled={isSigning}
+                  >
+                    <SelectTrigger id="signing-organization">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="personal">Conta pessoal</SelectItem>
+                      {signingOrganizations.map(org => (
+                        <SelectItem key={org.id} value={org.id}>🏢 {org.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedOrganization && (
+                    <p className="text-xs text-muted-foreground">
+                      O certificado mostra a organização e você como signatário. A autenticação é
+                      debitada do pool de créditos da organização.
+                    </p>
+                  )}
+                </div>
+              )}
+              
               {signatureStatus && signatureStatus.has_active_subscription && (
                 <Alert className="border-blue-500 bg-blue-50">
                   <AlertDescription className="text-blue-800">
@@ -1501,6 +1569,15 @@ ${content}
                 </div>
               )}
               
+              {currentUser && (
+                <LineageParentPicker
+                  userId={currentUser.id}
+                  value={lineageSelection}
+                  onChange={setLineageSelection}
+                  disabled={isBlocked || isProcessingVideo || isUploadingFile}
+                />
+              )}
+              
               <div className="space-y-2">
                 <Label htmlFor="content">05 - Descrição ou Conteúdo Adicional</Label>
                 <Textarea
@@ -3,10 +3,22 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Shield, ArrowLeft, Search, Loader2 } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Shield, ArrowLeft, Search, Loader2, FileCheck, CheckCircle2, XCircle, AlertTriangle, ImageIcon, BadgeCheck } from 'lucide-react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { getSignedContentById, getSignedContentByVerificationCode } from '@/lib/supabase-crypto';
 import type { SignedContent } from '@/lib/supabase-crypto';
+import { verifySignedContentOffline } from '@/lib/offline-verification';
+import type { OfflineVerificationResult, VerificationCheckStatus } from '@/lib/offline-verification';
+import { extractInvisibleWatermark } from '@/lib/services/image-protection-service';
+import type { ExtractedWatermark } from '@/lib/services/image-protection-service';
+import { findSimilarCertificates } from '@/lib/services/perceptual-hash-service';
+import type { SimilarCertificateMatch } from '@/lib/services/perceptual-hash-service';
+import { readContentCredentials } from '@/lib/services/content-credentials-service';
+import type { ContentCredentialsValidation } from '@/lib/services/content-credentials-service';
+import { LineageSummary } from '@/components/LineageGraph';
+import { RevocationBanner } from '@/components/RevocationBanner';
 
 export default function Verify() {
   const navigate = useNavigate();
@@ -14,33 +26,30 @@ export default function Verify() {
   const [verificationCode, setVerificationCode] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
   
-  // Função para codificar conteúdo para URL
-  // 🆕 CORREÇÃO: Incluindo creatorSocialLinks para exibir perfis oficiais
-  const encodeContentToUrl = (content: SignedContent): string => {
-    console.log('🔍 [Verify] Codificando conteúdo para URL...');
-    console.log('🔍 [Verify] creatorSocialLinks:', content.creatorSocialLinks);
-    
-    const compact = {
-      i: content.id,
-      c: content.content.substring(0, 200),
-      h: content.contentHash.substring(0, 32),
-      s: content.signature.substring(0, 32),
-      p: content.publicKey.substring(0, 32),
-      n: content.creatorName,
-      v: content.verificationCode,
-      pl: content.platforms,
-      // 🆕 CORREÇÃO: Incluindo links sociais do criador
-      sl: content.creatorSocialLinks || {},
-      // 🆕 CORREÇÃO: Incluindo thumbnail se existir
-      th: content.thumbnail ? content.thumbnail.substring(0, 500) : undefined,
-    };
-    
-    console.log('✅ [Verify] Dados compactados incluem socialLinks:', !!compact.sl);
-    
-    const jsonStr = JSON.stringify(compact);
-    const base64 = btoa(unescape(encodeURIComponent(jsonStr)));
-    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-  };
+  // 🔍 Verificação criptográfica (arquivo/texto recalculado localmente)
+  const [offlineCode, setOfflineCode] = useState('');
+  const [offlineMode, setOfflineMode] = useState<'file' | 'text'>('file');
+  const [offlineFile, setOfflineFile] = useState<File | null>(null);
+  const [offlineText, setOfflineText] = useState('');
+  const [isCheckingOffline, setIsCheckingOffline] = useState(false);
+  const [offlineRecord, setOfflineRecord] = useState<SignedContent | null>(null);
+  const [offlineResult, setOfflineResult] = useState<OfflineVerificationResult | null>(null);
+  const [offlineError, setOfflineError] = useState('');
+  
+  // 🖼️ Rastreamento de imagem encontrada (marca d'água invisível)
+  const [foundImage, setFoundImage] = useState<File | null>(null);
+  const [isCheckingImage, setIsCheckingImage] = useState(false);
+  const [imageWatermark, setImageWatermark] = useState<ExtractedWatermark | null>(null);
+  const [imageRecord, setImageRecord] = useState<SignedContent | null>(null);
+  const [similarMatches, setSimilarMatches] = useState<SimilarCertificateMatch[]>([]);
+  const [imageError, setImageError] = useState('');
+  
+  // 🔏 Credenciais de conteúdo (C2PA) embutidas no arquivo
+  const [credentialsFile, setCredentialsFile] = useState<File | null>(null);
+  const [isCheckingCredentials, setIsCheckingCredentials] = useState(false);
+  const [credentialsResult, setCredentialsResult] = useState<ContentCredentialsValidation | null>(null);
+  const [credentialsRecord, setCredentialsRecord] = useState<SignedContent | null>(null);
+  const [credentialsError, setCredentialsError] = useState('');
   
   useEffect(() => {
     // Verifica se há código na URL e redireciona automaticamente
@@ -70,9 +79,8 @@ export default function Verify() {
       
       console.log('✅ Conteúdo encontrado:', signedContent.verificationCode);
       
-      // Redireciona para a página do certificado
-      const encodedData = encodeContentToUrl(signedContent);
-      navigate(`/certificate?d=${encodedData}`);
+      // Redireciona para a página do certificado (link apenas com o ID)
+      navigate(`/certificate?id=${signedContent.id}`);
     } catch (error) {
       console.error('❌ Erro ao verificar por ID:', error);
       alert('Erro ao buscar conteúdo. Tente novamente.');
@@ -94,9 +102,8 @@ export default function Verify() {
       
       console.log('✅ Conteúdo encontrado:', signedContent.id);
       
-      // Redireciona para a página do certificado
-      const encodedData = encodeContentToUrl(signedContent);
-      navigate(`/certificate?d=${encodedData}`);
+      // Redireciona para a página do certificado (link apenas com o ID)
+      navigate(`/certificate?id=${signedContent.id}`);
     } catch (error) {
       console.error('❌ Erro ao verificar por código:', error);
       alert('Erro ao buscar conteúdo. Tente novamente.');
@@ -129,6 +136,152 @@ export default function Verify() {
     }
   };
   
+  const handleOfflineVerify = async () => {
+    const code = offlineCode.trim().toUpperCase();
+    setOfflineError('');
+    setOfflineResult(null);
+    setOfflineRecord(null);
+    
+    if (!code) {
+      setOfflineError('Informe o código de verificação do certificado.');
+      return;
+    }
+    
+    if (offlineMode === 'file' && !offlineFile) {
+      setOfflineError('Selecione o arquivo recebido para comparar.');
+      return;
+    }
+    
+    if (offlineMode === 'text' && !offlineText) {
+      setOfflineError('Cole o texto recebido para comparar.');
+      return;
+    }
+    
+    setIsCheckingOffline(true);
+    try {
+      const record = await getSignedContentByVerificationCode(code);
+      if (!record) {
+        setOfflineError('Código de verificação não encontrado.');
+        return;
+      }
+      
+      const result = await verifySignedContentOffline(
+        record,
+        offlineMode === 'file' ? { file: offlineFile! } : { text: offlineText }
+      );
+      
+      console.log('🔍 [Verify] Resultado da verificação criptográfica:', result);
+      setOfflineRecord(record);
+      setOfflineResult(result);
+    } catch (error) {
+      console.error('❌ Erro na verificação criptográfica:', error);
+      setOfflineError(error instanceof Error ? error.message : 'Erro ao verificar. Tente novamente.');
+    } finally {
+      setIsCheckingOffline(false);
+    }
+  };
+  
+  const handleCheckImage = async () => {
+    setImageError('');
+    setImageWatermark(null);
+    setImageRecord(null);
+    setSimilarMatches([]);
+    
+    if (!foundImage) {
+      setImageError('Selecione a imagem que você encontrou.');
+      return;
+    }
+    
+    setIsCheckingImage(true);
+    try {
+      // 🔍 Marca d'água invisível + 🧬 busca por semelhança em paralelo
+      const [watermarkResult, similarResult] = await Promise.allSettled([
+        extractInvisibleWatermark(foundImage),
+        findSimilarCertificates(foundImage),
+      ]);
+      
+      const watermark = watermarkResult.status === 'fulfilled' ? watermarkResult.value : null;
+      if (watermarkResult.status === 'rejected') {
+        console.error('❌ Erro ao extrair marca d\'água:', watermarkResult.reason);
+      }
+      
+      const matches = similarResult.status === 'fulfilled' ? similarResult.value : [];
+      if (similarResult.status === 'rejected') {
+        console.error('❌ Erro na busca por semelhança:', similarResult.reason);
+      }
+      
+      let watermarkRecord: SignedContent | null = null;
+      if (watermark) {
+        const record = await getSignedContentByVerificationCode(watermark.verificationCode);
+        if (record && (!watermark.certificateId || record.id === watermark.certificateId)) {
+          watermarkRecord = record;
+          setImageWatermark(watermark);
+          setImageRecord(record);
+        }
+      }
+      
+      setSimilarMatches(matches.filter(match => match.verificationCode !== watermarkRecord?.verificationCode));
+      
+      if (!watermarkRecord && matches.length === 0) {
+        setImageError(watermark
+          ? `Marca d'água encontrada (código ${watermark.verificationCode}), mas o certificado correspondente não existe.`
+          : 'Nenhuma marca d\'água ou imagem semelhante foi encontrada. Imagens muito editadas podem não ser reconhecidas.');
+      }
+    } catch (error) {
+      console.error('❌ Erro ao analisar imagem:', error);
+      setImageError(error instanceof Error ? error.message : 'Erro ao analisar a imagem. Tente novamente.');
+    } finally {
+      setIsCheckingImage(false);
+    }
+  };
+  
+  const handleCheckCredentials = async () => {
+    setCredentialsError('');
+    setCredentialsResult(null);
+    setCredentialsRecord(null);
+    
+    if (!credentialsFile) {
+      setCredentialsError('Selecione o arquivo (JPEG, PNG ou PDF).');
+      return;
+    }
+    
+    setIsCheckingCredentials(true);
+    try {
+      const result = await readContentCredentials(credentialsFile);
+      setCredentialsResult(result);
+      
+      if (!result.found) {
+        setCredentialsError(result.errors[0] || 'Este arquivo não contém credenciais de conteúdo do Vero iD.');
+        return;
+      }
+      
+      // 🔗 Confere o certificado embutido com o registro no servidor
+      const certificate = result.manifest?.assertions['veroid.certificate'];
+      if (certificate) {
+        const record = await getSignedContentByVerificationCode(certificate.verificationCode);
+        if (record && record.id === certificate.certificateId
+          && record.contentHash === certificate.contentHash && record.publicKey === certificate.publicKey) {
+          setCredentialsRecord(record);
+        } else {
+          setCredentialsError('O certificado embutido não corresponde a nenhum certificado registrado no Vero iD.');
+        }
+      }
+    } catch (error) {
+      console.error('❌ Erro ao ler credenciais de conteúdo:', error);
+      setCredentialsError(error instanceof Error ? error.message : 'Erro ao ler o arquivo. Tente novamente.');
+    } finally {
+      setIsCheckingCredentials(false);
+    }
+  };
+  
+  const renderCheckIcon = (status: VerificationCheckStatus) => {
+    switch (status) {
+      case 'pass': return <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0" />;
+      case 'warning': return <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0" />;
+      default: return <XCircle className="h-5 w-5 text-red-600 flex-shrink-0" />;
+    }
+  };
+  
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Converte para maiúsculas automaticamente
     const value = e.target.value.toUpperCase();
@@ -233,7 +386,354 @@ export default function Verify() {
             </Button>
           </CardContent>
         </Card>
+        
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileCheck className="h-5 w-5" />
+              Verificação Criptográfica do Arquivo
+            </CardTitle>
+            <CardDescription>
+              Comprove que um arquivo ou texto recebido é idêntico ao que o criador assinou.
+              O hash é calculado no seu navegador — o arquivo não é enviado.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="offlineCode">Código de Verificação</Label>
+              <Input
+                id="offlineCode"
+                placeholder="Ex: 2ST3XZTC"
+                value={offlineCode}
+                onChange={(e) => setOfflineCode(e.target.value.toUpperCase())}
+                className="font-mono text-lg tracking-widest text-center uppercase"
+                maxLength={8}
+                disabled={isCheckingOffline}
+              />
+            </div>
+            
+            <Tabs value={offlineMode} onValueChange={(value) => setOfflineMode(value as 'file' | 'text')}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="file">Arquivo</TabsTrigger>
+                <TabsTrigger value="text">Texto</TabsTrigger>
+              </TabsList>
+              <TabsContent value="file" className="space-y-2">
+                <Label htmlFor="offlineFile">Arquivo original</Label>
+                <Input
+                  id="offlineFile"
+                  type="file"
+                  onChange={(e) => setOfflineFile(e.target.files?.[0] || null)}
+                  disabled={isCheckingOffline}
+                />
+                {offlineFile && (
+                  <p className="text-xs text-muted-foreground">
+                    {offlineFile.name} ({(offlineFile.size / 1024).toFixed(1)} KB)
+                  </p>
+                )}
+              </TabsContent>
+              <TabsContent value="text" className="space-y-2">
+                <Label htmlFor="offlineText">Texto assinado</Label>
+                <Textarea
+                  id="offlineText"
+                  placeholder="Cole aqui o texto do campo Conteúdo, exatamente como foi publicado"
+                  value={offlineText}
+                  onChange={(e) => setOfflineText(e.target.value)}
+                  rows={6}
+                  disabled={isCheckingOffline}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Cole só o texto do criador (o que vem depois de "Conteúdo:" no certificado). O cabeçalho
+                  com Título, Redes e Arquivo é recolocado automaticamente. O texto assinado completo também é aceito.
+                </p>
+              </TabsContent>
+            </Tabs>
+            
+            {offlineError && (
+              <p className="text-sm text-red-600">{offlineError}</p>
+            )}
+            
+            <Button
+              onClick={handleOfflineVerify}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-2.5 rounded-lg shadow-md hover:shadow-lg transition-all duration-200"
+              size="lg"
+              disabled={isCheckingOffline || !offlineCode.trim()}
+            >
+              {isCheckingOffline ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Verificando...
+                </>
+              ) : (
+                <>
+                  <FileCheck className="mr-2 h-5 w-5" />
+                  Verificar Arquivo
+                </>
+              )}
+            </Button>
+            
+            {offlineResult && offlineRecord && (
+              <div className={`rounded-lg border-2 p-4 space-y-3 ${offlineResult.verified ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'}`}>
+                <p className={`font-bold ${offlineResult.verified ? 'text-green-800' : 'text-red-800'}`}>
+                  {offlineResult.verified
+                    ? `✓ Autêntico: assinado por ${offlineRecord.creatorName}`
+                    : '✗ Não foi possível comprovar a autenticidade'}
+                </p>
+                <LineageSummary contentId={offlineRecord.id} />
+                <ul className="space-y-2">
+                  {offlineResult.checks.map((check) => (
+                    <li key={check.id} className="flex items-start gap-3">
+                      {renderCheckIcon(check.status)}
+                      <div>
+                        <p className="text-sm font-semibold">{check.label}</p>
+                        <p className="text-xs text-gray-600">{check.detail}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                <div className="text-xs font-mono text-gray-500 break-all">
+                  SHA-256 calculado: {offlineResult.computedHash}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ImageIcon className="h-5 w-5" />
+              Rastrear Imagem Encontrada
+            </CardTitle>
+            <CardDescription>
+              Encontrou uma imagem repostada ou um print? Procuramos a marca d'água invisível
+              do Vero iD e imagens visualmente semelhantes já certificadas, mesmo após
+              redimensionamento, recompressão ou recorte.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="foundImage">Imagem</Label>
+              <Input
+                id="foundImage"
+                type="file"
+                accept="image/*"
+                onChange={(e) => setFoundImage(e.target.files?.[0] || null)}
+                disabled={isCheckingImage}
+              />
+              {foundImage && (
+                <p className="text-xs text-muted-foreground">
+                  {foundImage.name} ({(foundImage.size / 1024).toFixed(1)} KB)
+                </p>
+              )}
+            </div>
+            
+            {imageError && (
+              <p className="text-sm text-red-600">{imageError}</p>
+            )}
+            
+            <Button
+              onClick={handleCheckImage}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-2.5 rounded-lg shadow-md hover:shadow-lg transition-all duration-200"
+              size="lg"
+              disabled={isCheckingImage || !foundImage}
+            >
+              {isCheckingImage ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Analisando imagem...
+                </>
+              ) : (
+                <>
+                  <Search className="mr-2 h-5 w-5" />
+                  Procurar Origem da Imagem
+                </>
+              )}
+            </Button>
+            
+            {imageWatermark && imageRecord && (
+              <div className="rounded-lg border-2 border-green-300 bg-green-50 p-4 space-y-3">
+                <p className="font-bold text-green-800">
+                  ✓ Imagem de origem encontrada: assinada por {imageRecord.creatorName}
+                </p>
+                <LineageSummary contentId={imageRecord.id} />
+                <RevocationBanner content={imageRecord} className="" />
+                <div className="text-sm text-gray-700 space-y-1">
+                  <p>Código de verificação: <span className="font-mono font-semibold">{imageWatermark.verificationCode}</span></p>
+                  <p>Assinado em: {new Date(imageRecord.createdAt).toLocaleDateString('pt-BR')}</p>
+                  <p className="text-xs text-gray-500">
+                    Confiança da leitura: {Math.round(imageWatermark.confidence * 100)}%
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => handleVerifyByCode(imageWatermark.verificationCode)}
+                  disabled={isVerifying}
+                >
+                  <Shield className="mr-2 h-4 w-4" />
+                  Ver Certificado de Origem
+                </Button>
+              </div>
+            )}
+            
+            {similarMatches.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-semibold">
+                  Certificados com imagens semelhantes ({similarMatches.length})
+                </p>
+                <ul className="space-y-2">
+                  {similarMatches.map((match) => (
+                    <li
+                      key={match.contentId}
+                      className="flex items-center gap-3 p-3 border rounded-lg"
+                    >
+                      {match.thumbnail ? (
+                        <img
+                          src={match.thumbnail}
+                          alt=""
+                          className="h-12 w-12 rounded object-cover flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="h-12 w-12 rounded bg-gray-100 flex items-center justify-center flex-shrink-0">
+                          <ImageIcon className="h-5 w-5 text-gray-400" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{match.creatorName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          <span className="font-mono">{match.verificationCode}</span>
+                          {' • '}
+                          {new Date(match.createdAt).toLocaleDateString('pt-BR')}
+                          {match.imageIndex > 0 && ` • imagem ${match.imageIndex} do carrossel`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {Math.round(match.similarity * 100)}% semelhante (distância {match.phashDistance}/64)
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleVerifyByCode(match.verificationCode)}
+                        disabled={isVerifying}
+                      >
+                        Ver
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BadgeCheck className="h-5 w-5" />
+              Credenciais de Conteúdo
+            </CardTitle>
+            <CardDescription>
+              Arquivos baixados do Vero iD (JPEG, PNG ou PDF) carregam um manifesto de
+              procedência no padrão C2PA, assinado com a chave do criador. Envie o arquivo
+              para validar o manifesto e confirmar que ele não foi alterado.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="credentialsFile">Arquivo</Label>
+              <Input
+                id="credentialsFile"
+                type="file"
+                accept="image/jpeg,image/png,application/pdf"
+                onChange={(e) => setCredentialsFile(e.target.files?.[0] || null)}
+                disabled={isCheckingCredentials}
+              />
+              {credentialsFile && (
+                <p className="text-xs text-muted-foreground">
+                  {credentialsFile.name} ({(credentialsFile.size / 1024).toFixed(1)} KB)
+                </p>
+              )}
+            </div>
+            
+            {credentialsError && (
+              <p className="text-sm text-red-600">{credentialsError}</p>
+            )}
+            
+            <Button
+              onClick={handleCheckCredentials}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-2.5 rounded-lg shadow-md hover:shadow-lg transition-all duration-200"
+              size="lg"
+              disabled={isCheckingCredentials || !credentialsFile}
+            >
+              {isCheckingCredentials ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Validando credenciais...
+                </>
+              ) : (
+                <>
+                  <BadgeCheck className="mr-2 h-5 w-5" />
+                  Validar Credenciais
+                </>
+              )}
+            </Button>
+            
+            {credentialsResult?.found && credentialsResult.manifest && (
+              <div className={`rounded-lg border-2 p-4 space-y-3 ${
+                credentialsResult.valid && credentialsRecord ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'
+              }`}>
+                <p className={`font-bold ${credentialsResult.valid && credentialsRecord ? 'text-green-800' : 'text-red-800'}`}>
+                  {credentialsResult.valid && credentialsRecord
+                    ? `✓ Credenciais válidas: assinado por ${credentialsResult.manifest.assertions['veroid.certificate'].creatorName}`
+                    : '✗ Credenciais inválidas'}
+                </p>
+                
+                <div className="space-y-2">
+                  {[
+                    { label: 'Manifesto íntegro (assertions conferem com o claim)', ok: credentialsResult.assertionsIntact },
+                    { label: 'Manifesto assinado com a chave do criador', ok: credentialsResult.claimSignatureStatus === 'valid' },
+                    { label: 'Assinatura do certificado válida', ok: credentialsResult.certificateSignatureStatus === 'valid' },
+                    { label: 'Arquivo não foi alterado após a emissão', ok: credentialsResult.assetHashMatches },
+                    { label: 'Certificado registrado no Vero iD', ok: !!credentialsRecord },
+                  ].map((check) => (
+                    <div key={check.label} className="flex items-center gap-2 text-sm">
+                      {renderCheckIcon(check.ok ? 'pass' : 'fail')}
+                      <span>{check.label}</span>
+                    </div>
+                  ))}
+                </div>
+                
+                {credentialsResult.errors.length > 0 && (
+                  <ul className="text-xs text-red-700 list-disc pl-5 space-y-1">
+                    {credentialsResult.errors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+                
+                <div className="text-sm text-gray-700 space-y-1">
+                  <p>Código de verificação: <span className="font-mono font-semibold">{credentialsResult.manifest.assertions['veroid.certificate'].verificationCode}</span></p>
+                  <p>Credencial emitida em: {new Date(credentialsResult.manifest.claim.createdAt).toLocaleString('pt-BR')}</p>
+                  <p className="text-xs text-gray-500">Formato: {credentialsResult.format?.toUpperCase()} • {credentialsResult.manifest.claim.claimGenerator}</p>
+                </div>
+                
+                {credentialsRecord && <LineageSummary contentId={credentialsRecord.id} />}
+                {credentialsRecord && <RevocationBanner content={credentialsRecord} className="" />}
+                
+                {credentialsRecord && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleVerifyByCode(credentialsRecord.verificationCode)}
+                    disabled={isVerifying}
+                  >
+                    <Shield className="mr-2 h-4 w-4" />
+                    Ver Certificado
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,128 @@
+// =====================================================
+// MÓDULO COMPARTILHADO: CHAVES DE API
+// Autenticação por chave, escopo, rate limit e cota do plano
+// (usado por public-api e sign-content)
+// =====================================================
+//
+// A chave chega em `X-API-Key: vid_live_...` (ou `Authorization: Bearer`)
+// e é identificada pelo SHA-256. consume_api_request() valida chave e
+// escopo, aplica o rate limit por chave e a cota mensal do plano e
+// registra o uso — tudo na mesma transação. No escopo "sign", recusa
+// também quem não tem autenticações no plano (o débito é na sign-content).
+// =====================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { generateHash } from '../sign-content/crypto.ts';
+
+/** Escopos aceitos em api_keys.scopes */
+export type ApiKeyScope = 'verify' | 'sign';
+
+/**
+ * Resultado de consume_api_request()
+ */
+export interface UsageResult {
+  allowed: boolean;
+  reason: string;
+  user_id: string | null;
+  api_key_id: string | null;
+  rate_limit: number;
+  rate_remaining: number;
+  quota_limit: number | null;
+  quota_remaining: number | null;
+  period_end: string | null;
+}
+
+/**
+ * Recusa já traduzida para HTTP (cada função formata o corpo)
+ */
+export interface UsageDenial {
+  status: number;
+  code: string;
+  message: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Extrai a chave de API dos headers (null se ausente ou sem prefixo `vid_`)
+ */
+export function extractApiKey(req: Request): string | null {
+  const header = req.headers.get('X-API-Key') || req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  return header?.trim().startsWith('vid_') ? header.trim() : null;
+}
+
+/**
+ * Valida a chave e consome uma requisição do plano
+ */
+export async function consumeApiRequest(
+  supabase: SupabaseClient,
+  apiKey: string,
+  endpoint: string,
+  scope: ApiKeyScope
+): Promise<UsageResult> {
+  const { data: usageRows, error: usageError } = await supabase.rpc('consume_api_request', {
+    p_key_hash: await generateHash(apiKey),
+    p_endpoint: endpoint,
+    p_scope: scope,
+  });
+
+  if (usageError || !usageRows?.[0]) {
+    throw new Error(`Erro ao validar chave: ${usageError?.message || 'sem resposta'}`);
+  }
+
+  return usageRows[0] as UsageResult;
+}
+
+/**
+ * Headers X-RateLimit-* e X-Quota-* da resposta
+ */
+export function usageHeaders(usage: UsageResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(usage.rate_limit),
+    'X-RateLimit-Remaining': String(Math.max(usage.rate_remaining, 0)),
+  };
+  if (usage.quota_limit !== null) {
+    headers['X-Quota-Limit'] = String(usage.quota_limit);
+    headers['X-Quota-Remaining'] = String(Math.max(usage.quota_remaining ?? 0, 0));
+  }
+  return headers;
+}
+
+/**
+ * Traduz uma requisição recusada em status/código HTTP
+ */
+export function describeUsageDenial(usage: UsageResult, scope: ApiKeyScope): UsageDenial {
+  const headers = usageHeaders(usage);
+
+  switch (usage.reason) {
+    case 'invalid_key':
+    case 'revoked_key':
+      return { status: 401, code: usage.reason, message: 'Chave de API inválida ou revogada.', headers: {} };
+    case 'insufficient_scope':
+      return { status: 403, code: 'insufficient_scope', message: `A chave não tem o escopo "${scope}".`, headers: {} };
+    case 'plan_required':
+      return { status: 403, code: 'plan_required', message: 'O plano atual não inclui acesso à API.', headers: {} };
+    case 'no_signatures_available':
+      return {
+        status: 402,
+        code: 'no_signatures_available',
+        message: 'Sem assinaturas disponíveis no plano. Adquira pacotes avulsos ou faça upgrade.',
+        headers: {},
+      };
+    case 'rate_limited':
+      return {
+        status: 429,
+        code: 'rate_limited',
+        message: 'Limite de requisições por minuto excedido.',
+        headers: { ...headers, 'Retry-After': '60' },
+      };
+    case 'quota_exceeded':
+      return {
+        status: 429,
+        code: 'quota_exceeded',
+        message: 'Cota mensal de requisições esgotada.',
+        headers: { ...headers, ...(usage.period_end && { 'X-Quota-Reset': usage.period_end }) },
+      };
+    default:
+      return { status: 403, code: 'forbidden', message: 'Requisição não permitida.', headers: {} };
+  }
+}
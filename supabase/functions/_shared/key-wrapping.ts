@@ -0,0 +1,278 @@
+// =====================================================
+// MÓDULO COMPARTILHADO: KEY WRAPPING (ENVELOPE ENCRYPTION)
+// Proteção das chaves privadas armazenadas em key_pairs
+// =====================================================
+//
+// Esquema v2 (por registro):
+//   1. DEK aleatória (AES-256-GCM) criptografa a chave privada
+//   2. KEK = HKDF-SHA256(MASTER_ENCRYPTION_KEY, salt aleatório do registro,
+//      info = "veroid-kek/v2/<user_id>") criptografa (wrap) a DEK
+//   3. Ambos os AES-GCM usam AAD "<user_id>:<key_id>", impedindo que um
+//      registro seja copiado para outro usuário/chave
+//
+// A chave mestra existe APENAS no servidor. Um vazamento da tabela
+// key_pairs não revela nenhuma chave privada.
+// =====================================================
+
+/** Versão do esquema de proteção gravada em key_pairs.key_version */
+export const KEY_WRAPPING_VERSION = 2;
+
+/** Algoritmo gravado em key_pairs.encryption_algorithm */
+export const KEY_WRAPPING_ALGORITHM = 'AES-256-GCM+HKDF-SHA256-ENVELOPE';
+
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const MIN_MASTER_KEY_LENGTH = 32;
+
+// ⚠️ Esquemas legados (v1) - usados SOMENTE para ler registros antigos
+// durante a migração. A chave do navegador já era pública (embutida no
+// bundle), portanto mantê-la aqui não expõe nenhum segredo novo.
+const LEGACY_BROWSER_KEY = 'veroId-encryption-key-2024-secure-aes256';
+const LEGACY_BROWSER_SALT = 'veroId-salt-2024';
+const LEGACY_EDGE_SALT = 'veroid-salt-v1';
+// Fallback da Edge Function v1 quando MASTER_ENCRYPTION_KEY não existia
+const LEGACY_EDGE_DEFAULT_KEY = 'default-key-change-in-production';
+
+/**
+ * Campos de proteção persistidos em key_pairs
+ */
+export interface WrappedPrivateKey {
+  encrypted_private_key: string;
+  wrapped_dek: string;
+  key_salt: string;
+  encryption_algorithm: string;
+  key_version: number;
+}
+
+/**
+ * Colunas de key_pairs necessárias para recuperar a chave privada
+ */
+export interface KeyPairSecretRow {
+  id: string;
+  user_id: string;
+  encrypted_private_key?: string | null;
+  private_key?: string | null;
+  wrapped_dek?: string | null;
+  key_salt?: string | null;
+  key_version?: number | null;
+}
+
+/**
+ * Resultado da recuperação de uma chave privada
+ */
+export interface RecoveredPrivateKey {
+  privateKey: string;
+  /** true se o registro ainda usa um esquema legado e deve ser re-protegido */
+  needsRewrap: boolean;
+}
+
+/**
+ * Lê a chave mestra do ambiente (sem fallback)
+ */
+function getMasterKey(): string {
+  const masterKey = Deno.env.get('MASTER_ENCRYPTION_KEY');
+
+  if (!masterKey || masterKey.length < MIN_MASTER_KEY_LENGTH) {
+    throw new Error(
+      `MASTER_ENCRYPTION_KEY ausente ou com menos de ${MIN_MASTER_KEY_LENGTH} caracteres`
+    );
+  }
+
+  return masterKey;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const combined = new Uint8Array(a.length + b.length);
+  combined.set(a, 0);
+  combined.set(b, a.length);
+  return combined;
+}
+
+function associatedData(userId: string, keyId: string): Uint8Array {
+  return new TextEncoder().encode(`${userId}:${keyId}`);
+}
+
+/**
+ * Deriva a KEK do registro a partir da chave mestra e do salt aleatório
+ */
+async function deriveKek(salt: Uint8Array, userId: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const masterKeyMaterial = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getMasterKey()),
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: encoder.encode(`veroid-kek/v${KEY_WRAPPING_VERSION}/${userId}`),
+    },
+    masterKeyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Criptografa com AES-GCM e retorna base64(IV || ciphertext)
+ */
+async function sealAesGcm(key: CryptoKey, plaintext: Uint8Array, aad: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: aad },
+    key,
+    plaintext
+  );
+  return toBase64(concatBytes(iv, new Uint8Array(ciphertext)));
+}
+
+/**
+ * Descriptografa base64(IV || ciphertext) com AES-GCM
+ */
+async function openAesGcm(key: CryptoKey, sealed: string, aad?: Uint8Array): Promise<Uint8Array> {
+  const combined = fromBase64(sealed);
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: combined.slice(0, IV_LENGTH),
+      ...(aad && { additionalData: aad }),
+    },
+    key,
+    combined.slice(IV_LENGTH)
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * 🔐 Protege uma chave privada com envelope encryption (esquema v2)
+ */
+export async function wrapPrivateKey(
+  privateKey: string,
+  userId: string,
+  keyId: string
+): Promise<WrappedPrivateKey> {
+  const aad = associatedData(userId, keyId);
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+
+  const dekBytes = crypto.getRandomValues(new Uint8Array(32));
+  const dek = await crypto.subtle.importKey('raw', dekBytes, 'AES-GCM', false, ['encrypt']);
+  const encryptedPrivateKey = await sealAesGcm(dek, new TextEncoder().encode(privateKey), aad);
+
+  const kek = await deriveKek(salt, userId);
+  const wrappedDek = await sealAesGcm(kek, dekBytes, aad);
+  dekBytes.fill(0);
+
+  return {
+    encrypted_private_key: encryptedPrivateKey,
+    wrapped_dek: wrappedDek,
+    key_salt: toBase64(salt),
+    encryption_algorithm: KEY_WRAPPING_ALGORITHM,
+    key_version: KEY_WRAPPING_VERSION,
+  };
+}
+
+/**
+ * 🔓 Recupera uma chave privada protegida pelo esquema v2
+ */
+export async function unwrapPrivateKey(row: KeyPairSecretRow): Promise<string> {
+  if (!row.encrypted_private_key || !row.wrapped_dek || !row.key_salt) {
+    throw new Error('Registro de chave não está no formato envelope (v2)');
+  }
+
+  const aad = associatedData(row.user_id, row.id);
+  const kek = await deriveKek(fromBase64(row.key_salt), row.user_id);
+  const dekBytes = await openAesGcm(kek, row.wrapped_dek, aad);
+  const dek = await crypto.subtle.importKey('raw', dekBytes, 'AES-GCM', false, ['decrypt']);
+  dekBytes.fill(0);
+
+  const privateKey = await openAesGcm(dek, row.encrypted_private_key, aad);
+  return new TextDecoder().decode(privateKey);
+}
+
+/**
+ * Indica se o registro já usa o esquema v2
+ */
+export function isWrappedKeyRow(row: KeyPairSecretRow): boolean {
+  return !!row.wrapped_dek && !!row.key_salt && (row.key_version ?? 1) >= KEY_WRAPPING_VERSION;
+}
+
+/**
+ * Descriptografa o formato legado v1 (PBKDF2 com salt fixo)
+ */
+async function decryptLegacy(encryptedPrivateKey: string, password: string, salt: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations: 100000, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  return new TextDecoder().decode(await openAesGcm(key, encryptedPrivateKey));
+}
+
+/**
+ * 🔑 Recupera a chave privada de qualquer formato conhecido:
+ * - v2 envelope (atual)
+ * - v1 criptografado no navegador (chave/salt fixos)
+ * - v1 criptografado na Edge Function (chave mestra ou fallback fixo + salt fixo)
+ * - texto plano (private_key)
+ */
+export async function recoverPrivateKey(row: KeyPairSecretRow): Promise<RecoveredPrivateKey> {
+  if (isWrappedKeyRow(row)) {
+    return { privateKey: await unwrapPrivateKey(row), needsRewrap: false };
+  }
+
+  if (row.encrypted_private_key) {
+    // A v1 da Edge Function aceitava qualquer MASTER_ENCRYPTION_KEY (sem
+    // tamanho mínimo) e caía no fallback fixo quando ela não existia
+    const legacyEdgeKey = Deno.env.get('MASTER_ENCRYPTION_KEY');
+    const legacyCandidates: Array<[string, string]> = [
+      [LEGACY_BROWSER_KEY, LEGACY_BROWSER_SALT],
+      ...(legacyEdgeKey ? [[legacyEdgeKey, LEGACY_EDGE_SALT] as [string, string]] : []),
+      [LEGACY_EDGE_DEFAULT_KEY, LEGACY_EDGE_SALT],
+    ];
+
+    for (const [password, salt] of legacyCandidates) {
+      try {
+        const privateKey = await decryptLegacy(row.encrypted_private_key, password, salt);
+        return { privateKey, needsRewrap: true };
+      } catch {
+        // Tenta o próximo esquema legado
+      }
+    }
+  }
+
+  if (row.private_key) {
+    return { privateKey: row.private_key, needsRewrap: true };
+  }
+
+  throw new Error('Não foi possível recuperar a chave privada (formato desconhecido)');
+}
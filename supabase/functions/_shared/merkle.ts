@@ -0,0 +1,170 @@
+// =====================================================
+// ÁRVORE DE MERKLE DO LOG DE TRANSPARÊNCIA (RFC 9162)
+// =====================================================
+//
+// - Folha: SHA-256(0x00 || dados da folha) — calculada no banco
+//   (transparency_log_entries.leaf_hash)
+// - Nó interno: SHA-256(0x01 || esquerda || direita)
+// - merkleRoot / inclusionPath / consistencyProof seguem as definições
+//   MTH, PATH e PROOF da RFC 9162 (seção 2.1)
+// - Tree head assinado: ECDSA P-256 / SHA-256 sobre a mensagem
+//   "vid-sth-v1\n<tree_size>\n<timestamp>\n<root_hash>"
+//
+// A verificação das provas fica em src/lib/transparency-verifier.ts
+// (módulo sem dependências, usável por terceiros).
+// =====================================================
+
+export const TREE_HEAD_PREFIX = 'vid-sth-v1';
+
+export interface TreeHeadPayload {
+  treeSize: number;
+  /** ISO 8601 */
+  timestamp: string;
+  /** Raiz da árvore (hex) */
+  rootHash: string;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+async function hashChildren(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  const data = new Uint8Array(1 + left.length + right.length);
+  data[0] = 0x01;
+  data.set(left, 1);
+  data.set(right, 1 + left.length);
+  return sha256(data);
+}
+
+/** Maior potência de 2 estritamente menor que n (n > 1) */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/**
+ * Calculadora com cache das subárvores já calculadas
+ * (as provas reutilizam as mesmas subárvores várias vezes)
+ */
+export class MerkleTree {
+  private readonly leaves: Uint8Array[];
+  private readonly cache = new Map<string, Promise<Uint8Array>>();
+
+  constructor(leafHashesHex: string[]) {
+    this.leaves = leafHashesHex.map(fromHex);
+  }
+
+  get size(): number {
+    return this.leaves.length;
+  }
+
+  /** MTH(D[start:end]) */
+  private subtreeHash(start: number, end: number): Promise<Uint8Array> {
+    const n = end - start;
+    if (n === 0) return sha256(new Uint8Array());
+    if (n === 1) return Promise.resolve(this.leaves[start]);
+
+    const key = `${start}:${end}`;
+    let hash = this.cache.get(key);
+    if (!hash) {
+      const k = splitPoint(n);
+      hash = Promise.all([this.subtreeHash(start, start + k), this.subtreeHash(start + k, end)])
+        .then(([left, right]) => hashChildren(left, right));
+      this.cache.set(key, hash);
+    }
+    return hash;
+  }
+
+  /** Raiz da árvore com os primeiros `treeSize` elementos */
+  async root(treeSize = this.size): Promise<string> {
+    this.assertSize(treeSize);
+    return toHex(await this.subtreeHash(0, treeSize));
+  }
+
+  /** PATH(m, D[n]): prova de inclusão da folha m na árvore de tamanho n */
+  async inclusionPath(leafIndex: number, treeSize = this.size): Promise<string[]> {
+    this.assertSize(treeSize);
+    if (leafIndex < 0 || leafIndex >= treeSize) {
+      throw new Error(`Folha ${leafIndex} fora da árvore de tamanho ${treeSize}`);
+    }
+
+    let m = leafIndex;
+    let start = 0;
+    let end = treeSize;
+    const siblings: Promise<Uint8Array>[] = [];
+
+    // Desce da raiz até a folha; o caminho é lido da folha para a raiz
+    while (end - start > 1) {
+      const k = splitPoint(end - start);
+      if (m < k) {
+        siblings.push(this.subtreeHash(start + k, end));
+        end = start + k;
+      } else {
+        siblings.push(this.subtreeHash(start, start + k));
+        start += k;
+        m -= k;
+      }
+    }
+
+    return (await Promise.all(siblings)).reverse().map(toHex);
+  }
+
+  /** PROOF(m, D[n]): prova de consistência entre as árvores de tamanho m e n */
+  async consistencyProof(firstSize: number, secondSize = this.size): Promise<string[]> {
+    this.assertSize(secondSize);
+    if (firstSize <= 0 || firstSize > secondSize) {
+      throw new Error(`Tamanhos inválidos para prova de consistência: ${firstSize} → ${secondSize}`);
+    }
+
+    const proof: Promise<Uint8Array>[] = [];
+    let m = firstSize;
+    let start = 0;
+    let end = secondSize;
+    let complete = true;
+
+    // SUBPROOF(m, D[start:end], complete), também lido de baixo para cima
+    while (m !== end - start) {
+      const k = splitPoint(end - start);
+      if (m <= k) {
+        proof.push(this.subtreeHash(start + k, end));
+        end = start + k;
+      } else {
+        proof.push(this.subtreeHash(start, start + k));
+        start += k;
+        m -= k;
+        complete = false;
+      }
+    }
+    if (!complete) {
+      proof.push(this.subtreeHash(start, end));
+    }
+
+    return (await Promise.all(proof)).reverse().map(toHex);
+  }
+
+  private assertSize(treeSize: number): void {
+    if (treeSize < 0 || treeSize > this.size) {
+      throw new Error(`Árvore de tamanho ${treeSize} indisponível (log com ${this.size} entradas)`);
+    }
+  }
+}
+
+/**
+ * Mensagem assinada do tree head
+ */
+export function buildTreeHeadMessage(payload: TreeHeadPayload): string {
+  return [TREE_HEAD_PREFIX, payload.treeSize, payload.timestamp, payload.rootHash].join('\n');
+}
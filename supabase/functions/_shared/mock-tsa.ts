@@ -0,0 +1,165 @@
+// =====================================================
+// TSA MOCK (RFC 3161) — APENAS DESENVOLVIMENTO/TESTES
+// =====================================================
+//
+// Emite carimbos válidos assinados por uma chave ECDSA P-256 efêmera,
+// com certificado autoassinado "Vero iD Mock TSA" (EKU timeStamping).
+// Os tokens passam na verificação do navegador, mas NÃO têm valor
+// probatório: a chave muda a cada execução.
+//
+// Em memória:  TSA_URL=mock (ver timestamping.ts)
+// Servidor:    deno run --allow-net --allow-env supabase/functions/_shared/mock-tsa.ts
+//              → http://localhost:8318/ (porta: MOCK_TSA_PORT)
+// =====================================================
+
+import { OID, TAG, decodeOid, der, parseDer } from './rfc3161.ts';
+
+const MOCK_TSA_NAME = 'Vero iD Mock TSA';
+const MOCK_POLICY_OID = '1.3.6.1.4.1.99999.3161.1';
+
+export interface MockTsa {
+  respond(request: Uint8Array): Promise<Uint8Array>;
+}
+
+/** Assinatura WebCrypto (r || s) → ECDSA-Sig-Value DER */
+function rawToDerSignature(raw: Uint8Array): Uint8Array {
+  const half = raw.length / 2;
+  return der.sequence(der.integer(raw.subarray(0, half)), der.integer(raw.subarray(half)));
+}
+
+async function signEcdsa(privateKey: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const raw = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, data);
+  return rawToDerSignature(new Uint8Array(raw));
+}
+
+function randomSerial(): Uint8Array {
+  const serial = crypto.getRandomValues(new Uint8Array(16));
+  serial[0] &= 0x7f;
+  return serial;
+}
+
+function statusOnly(status: number, text: string): Uint8Array {
+  return der.sequence(der.sequence(der.smallInteger(status), der.sequence(der.utf8String(text))));
+}
+
+export async function createMockTsa(): Promise<MockTsa> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign', 'verify']
+  );
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+
+  // Certificado autoassinado
+  const name = der.sequence(
+    der.set(der.sequence(der.oid(OID.commonName), der.utf8String(MOCK_TSA_NAME))),
+    der.set(der.sequence(der.oid(OID.organizationName), der.utf8String('Vero iD (testes)')))
+  );
+  const certSerial = randomSerial();
+  const now = new Date();
+  const tbsCertificate = der.sequence(
+    der.context(0, der.smallInteger(2)),
+    der.integer(certSerial),
+    der.algorithm(OID.ecdsaWithSha256),
+    name,
+    der.sequence(der.utcTime(new Date(now.getTime() - 60 * 1000)), der.utcTime(new Date(now.getTime() + 365 * 24 * 3600 * 1000))),
+    name,
+    spki,
+    der.context(3, der.sequence(
+      der.sequence(
+        der.oid(OID.extendedKeyUsage),
+        der.boolean(true),
+        der.octetString(der.sequence(der.oid(OID.timeStamping)))
+      )
+    ))
+  );
+  const certificate = der.sequence(
+    tbsCertificate,
+    der.algorithm(OID.ecdsaWithSha256),
+    der.bitString(await signEcdsa(keyPair.privateKey, tbsCertificate))
+  );
+  const certificateHash = new Uint8Array(await crypto.subtle.digest('SHA-256', certificate));
+
+  console.log(`🧪 [mock-tsa] TSA mock pronta (${MOCK_TSA_NAME})`);
+
+  return {
+    async respond(request: Uint8Array): Promise<Uint8Array> {
+      let messageImprint: Uint8Array;
+      let nonce: Uint8Array | null = null;
+
+      try {
+        // TimeStampReq ::= SEQUENCE { version, messageImprint, reqPolicy?, nonce?, certReq?, extensions? }
+        const [, imprint, ...optional] = parseDer(request).children;
+        const hashAlgorithm = imprint?.children[0]?.children[0];
+        if (!hashAlgorithm || decodeOid(hashAlgorithm) !== OID.sha256) {
+          return statusOnly(2, 'Somente SHA-256 é aceito');
+        }
+        messageImprint = imprint.der;
+        nonce = optional.find(node => node.tag === TAG.integer)?.value ?? null;
+      } catch {
+        return statusOnly(2, 'Requisição malformada');
+      }
+
+      const tstInfo = der.sequence(
+        der.smallInteger(1),
+        der.oid(MOCK_POLICY_OID),
+        messageImprint,
+        der.integer(randomSerial()),
+        der.generalizedTime(new Date()),
+        ...(nonce ? [der.integer(nonce)] : [])
+      );
+      const tstInfoHash = new Uint8Array(await crypto.subtle.digest('SHA-256', tstInfo));
+
+      const signedAttributes = [
+        der.sequence(der.oid(OID.contentType), der.set(der.oid(OID.tstInfo))),
+        der.sequence(der.oid(OID.messageDigest), der.set(der.octetString(tstInfoHash))),
+        // SigningCertificateV2 { certs SEQUENCE OF ESSCertIDv2 { certHash } } (SHA-256 implícito)
+        der.sequence(
+          der.oid(OID.signingCertificateV2),
+          der.set(der.sequence(der.sequence(der.sequence(der.octetString(certificateHash)))))
+        ),
+      ];
+      // Assinatura sobre o SET OF (tag 0x31); no SignerInfo vai como [0] IMPLICIT
+      const signedAttrsSet = der.set(...signedAttributes);
+      const signedAttrs = new Uint8Array(signedAttrsSet);
+      signedAttrs[0] = 0xa0;
+
+      const signerInfo = der.sequence(
+        der.smallInteger(1),
+        der.sequence(name, der.integer(certSerial)),
+        der.algorithm(OID.sha256),
+        signedAttrs,
+        der.algorithm(OID.ecdsaWithSha256),
+        der.octetString(await signEcdsa(keyPair.privateKey, signedAttrsSet))
+      );
+
+      const signedData = der.sequence(
+        der.smallInteger(3),
+        der.set(der.algorithm(OID.sha256)),
+        der.sequence(der.oid(OID.tstInfo), der.context(0, der.octetString(tstInfo))),
+        der.context(0, certificate),
+        der.set(signerInfo)
+      );
+
+      return der.sequence(
+        der.sequence(der.smallInteger(0)),
+        der.sequence(der.oid(OID.signedData), der.context(0, signedData))
+      );
+    },
+  };
+}
+
+// Servidor HTTP local (deno run --allow-net --allow-env mock-tsa.ts)
+if (import.meta.main) {
+  const { serve } = await import('https://deno.land/std@0.168.0/http/server.ts');
+  const tsa = await createMockTsa();
+  const port = Number(Deno.env.get('MOCK_TSA_PORT') || 8318);
+
+  serve(async (req) => {
+    if (req.method !== 'POST') {
+      return new Response('Use POST com application/timestamp-query', { status: 405 });
+    }
+    const reply = await tsa.respond(new Uint8Array(await req.arrayBuffer()));
+    return new Response(reply, { headers: { 'Content-Type': 'application/timestamp-reply' } });
+  }, { port });
+}
@@ -0,0 +1,350 @@
+// =====================================================
+// RFC 3161 — CARIMBO DE TEMPO (TIME-STAMP PROTOCOL)
+// Codificação DER mínima para TimeStampReq / TimeStampResp
+// =====================================================
+//
+// - buildTimeStampRequest(): TimeStampReq sobre um SHA-256 (hex), com
+//   nonce e certReq = true (o certificado da TSA vem no token)
+// - parseTimeStampResponse(): status PKIStatusInfo + TimeStampToken
+//   (ContentInfo/SignedData) + campos do TSTInfo
+//
+// A assinatura CMS do token é verificada no navegador
+// (src/lib/rfc3161.ts), que é quem exibe o resultado ao visitante.
+// =====================================================
+
+export const OID = {
+  sha256: '2.16.840.1.101.3.4.2.1',
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  extendedKeyUsage: '2.5.29.37',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+};
+
+export const TAG = {
+  boolean: 0x01,
+  integer: 0x02,
+  bitString: 0x03,
+  octetString: 0x04,
+  null: 0x05,
+  oid: 0x06,
+  utf8String: 0x0c,
+  printableString: 0x13,
+  ia5String: 0x16,
+  utcTime: 0x17,
+  generalizedTime: 0x18,
+  sequence: 0x30,
+  set: 0x31,
+};
+
+// =====================================================
+// DER: leitura
+// =====================================================
+
+export interface DerNode {
+  tag: number;
+  /** TLV completo (cabeçalho + valor) */
+  der: Uint8Array;
+  value: Uint8Array;
+  children: DerNode[];
+}
+
+function readNode(bytes: Uint8Array, offset: number): { node: DerNode; end: number } {
+  if (offset + 2 > bytes.length) throw new Error('DER truncado');
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Error('Tag DER de múltiplos bytes não suportada');
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error('Comprimento DER inválido');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += count;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) throw new Error('DER truncado');
+
+  const value = bytes.subarray(offset + headerLength, end);
+  const children: DerNode[] = [];
+  if (tag & 0x20) {
+    let position = 0;
+    while (position < value.length) {
+      const child = readNode(value, position);
+      children.push(child.node);
+      position = child.end;
+    }
+  }
+
+  return { node: { tag, der: bytes.subarray(offset, end), value, children }, end };
+}
+
+export function parseDer(bytes: Uint8Array): DerNode {
+  return readNode(bytes, 0).node;
+}
+
+export function decodeOid(node: DerNode): string {
+  const bytes = node.value;
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/** INTEGER sem sinal em hex (sem zeros à esquerda) */
+export function decodeIntegerHex(node: DerNode): string {
+  let start = 0;
+  while (start < node.value.length - 1 && node.value[start] === 0) start++;
+  return toHex(node.value.subarray(start));
+}
+
+/** GeneralizedTime "YYYYMMDDHHMMSS[.fff]Z" → ISO 8601 */
+export function decodeGeneralizedTime(node: DerNode): string {
+  const text = new TextDecoder().decode(node.value);
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/);
+  if (!match) throw new Error(`genTime inválido: ${text}`);
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction || ''}Z`).toISOString();
+}
+
+/** CN (ou O) de um Name X.501 */
+export function decodeNameLabel(name: DerNode): string | null {
+  const attributes = new Map<string, string>();
+  for (const rdn of name.children) {
+    for (const attribute of rdn.children) {
+      const [type, value] = attribute.children;
+      if (type?.tag === TAG.oid && value) {
+        attributes.set(decodeOid(type), new TextDecoder().decode(value.value));
+      }
+    }
+  }
+  return attributes.get(OID.commonName) || attributes.get(OID.organizationName) || null;
+}
+
+// =====================================================
+// DER: escrita
+// =====================================================
+
+function encodeLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length = Math.floor(length / 256);
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function tlv(tag: number, ...parts: Uint8Array[]): Uint8Array {
+  const value = concat(parts);
+  return concat([new Uint8Array([tag, ...encodeLength(value.length)]), value]);
+}
+
+export const der = {
+  sequence: (...parts: Uint8Array[]) => tlv(TAG.sequence, ...parts),
+  /** SET OF em DER: elementos ordenados pela codificação */
+  set: (...parts: Uint8Array[]) => tlv(TAG.set, ...[...parts].sort(compareBytes)),
+  /** [n] EXPLICIT ou IMPLICIT construído */
+  context: (n: number, ...parts: Uint8Array[]) => tlv(0xa0 | n, ...parts),
+  integer: (bytes: Uint8Array) => {
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) start++;
+    const trimmed = bytes.subarray(start);
+    return trimmed[0] & 0x80
+      ? tlv(TAG.integer, new Uint8Array([0]), trimmed)
+      : tlv(TAG.integer, trimmed);
+  },
+  smallInteger: (value: number) => der.integer(new Uint8Array([value])),
+  boolean: (value: boolean) => tlv(TAG.boolean, new Uint8Array([value ? 0xff : 0])),
+  octetString: (bytes: Uint8Array) => tlv(TAG.octetString, bytes),
+  bitString: (bytes: Uint8Array) => tlv(TAG.bitString, new Uint8Array([0]), bytes),
+  utf8String: (text: string) => tlv(TAG.utf8String, new TextEncoder().encode(text)),
+  oid: (oid: string) => {
+    const parts = oid.split('.').map(Number);
+    const bytes = [parts[0] * 40 + parts[1]];
+    for (const part of parts.slice(2)) {
+      const chunk = [part & 0x7f];
+      let rest = Math.floor(part / 128);
+      while (rest > 0) {
+        chunk.unshift((rest & 0x7f) | 0x80);
+        rest = Math.floor(rest / 128);
+      }
+      bytes.push(...chunk);
+    }
+    return tlv(TAG.oid, new Uint8Array(bytes));
+  },
+  generalizedTime: (date: Date) => {
+    const iso = date.toISOString();
+    const text = iso.replace(/[-:T]/g, '').replace(/\.(\d+)Z$/, (_, ms: string) => ms === '000' ? 'Z' : `.${ms.replace(/0+$/, '')}Z`);
+    return tlv(TAG.generalizedTime, new TextEncoder().encode(text));
+  },
+  utcTime: (date: Date) => {
+    const text = date.toISOString().slice(2, 19).replace(/[-:T]/g, '') + 'Z';
+    return tlv(TAG.utcTime, new TextEncoder().encode(text));
+  },
+  algorithm: (oid: string) => der.sequence(der.oid(oid)),
+};
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+// =====================================================
+// TIME-STAMP PROTOCOL
+// =====================================================
+
+export interface TimeStampInfo {
+  policy: string;
+  hashAlgorithm: string;
+  /** Hash carimbado (hex) */
+  hashedMessage: string;
+  /** Número de série (hex) */
+  serialNumber: string;
+  /** ISO 8601 */
+  genTime: string;
+  nonce: string | null;
+  /** Nome da TSA (campo tsa do TSTInfo ou titular do certificado) */
+  tsaName: string | null;
+}
+
+export interface TimeStampResponse {
+  /** PKIStatus: 0 = granted, 1 = grantedWithMods, 2+ = recusado */
+  status: number;
+  statusText: string | null;
+  /** TimeStampToken (ContentInfo) em DER */
+  token: Uint8Array | null;
+  info: TimeStampInfo | null;
+}
+
+/**
+ * TimeStampReq ::= SEQUENCE { version, messageImprint, reqPolicy?, nonce?, certReq }
+ */
+export function buildTimeStampRequest(hashHex: string, nonce: Uint8Array): Uint8Array {
+  return der.sequence(
+    der.smallInteger(1),
+    der.sequence(der.algorithm(OID.sha256), der.octetString(fromHex(hashHex))),
+    der.integer(nonce),
+    der.boolean(true)
+  );
+}
+
+/**
+ * Extrai o TSTInfo (DER) de um TimeStampToken
+ */
+export function extractTstInfo(token: DerNode): DerNode {
+  const [contentType, content] = token.children;
+  if (!contentType || decodeOid(contentType) !== OID.signedData || !content) {
+    throw new Error('Token não é um SignedData CMS');
+  }
+
+  const signedData = content.children[0];
+  const encapContentInfo = signedData?.children.find(child => child.tag === TAG.sequence);
+  const eContentType = encapContentInfo?.children[0];
+  const eContent = encapContentInfo?.children[1]?.children[0];
+  if (!eContentType || decodeOid(eContentType) !== OID.tstInfo || !eContent) {
+    throw new Error('Token não contém um TSTInfo');
+  }
+
+  return parseDer(eContent.value);
+}
+
+/**
+ * Campos do TSTInfo + nome da TSA
+ */
+export function decodeTstInfo(tstInfo: DerNode, signedData?: DerNode): TimeStampInfo {
+  const [, policy, messageImprint, serialNumber, genTime, ...optional] = tstInfo.children;
+  if (!policy || !messageImprint || !serialNumber || !genTime) {
+    throw new Error('TSTInfo incompleto');
+  }
+
+  const nonce = optional.find(node => node.tag === TAG.integer);
+  const tsaField = optional.find(node => node.tag === 0xa0);
+  // GeneralName directoryName ([4] EXPLICIT Name)
+  const directoryName = tsaField?.children[0]?.tag === 0xa4 ? tsaField.children[0].children[0] : undefined;
+
+  let tsaName = directoryName ? decodeNameLabel(directoryName) : null;
+  if (!tsaName && signedData) {
+    const certificate = signedData.children.find(child => child.tag === 0xa0)?.children[0];
+    const tbs = certificate?.children[0];
+    const fields = tbs?.children[0]?.tag === 0xa0 ? tbs.children.slice(1) : tbs?.children;
+    // serialNumber, signature, issuer, validity, subject
+    if (fields?.[4]) tsaName = decodeNameLabel(fields[4]);
+  }
+
+  return {
+    policy: decodeOid(policy),
+    hashAlgorithm: decodeOid(messageImprint.children[0].children[0]),
+    hashedMessage: toHex(messageImprint.children[1].value),
+    serialNumber: decodeIntegerHex(serialNumber),
+    genTime: decodeGeneralizedTime(genTime),
+    nonce: nonce ? decodeIntegerHex(nonce) : null,
+    tsaName,
+  };
+}
+
+/**
+ * TimeStampResp ::= SEQUENCE { status PKIStatusInfo, timeStampToken? }
+ */
+export function parseTimeStampResponse(bytes: Uint8Array): TimeStampResponse {
+  const response = parseDer(bytes);
+  const [statusInfo, token] = response.children;
+  if (!statusInfo || statusInfo.tag !== TAG.sequence) {
+    throw new Error('Resposta da TSA inválida');
+  }
+
+  const status = statusInfo.children[0].value[0];
+  const statusText = statusInfo.children[1]?.children
+    .map(text => new TextDecoder().decode(text.value))
+    .join(' ') || null;
+
+  if (status > 1 || !token) {
+    return { status, statusText, token: null, info: null };
+  }
+
+  const info = decodeTstInfo(extractTstInfo(token), token.children[1].children[0]);
+  return { status, statusText, token: token.der, info };
+}
@@ -0,0 +1,395 @@
+// =====================================================
+// SCANNERS DE MALWARE (SERVER-SIDE)
+// Interface comum para os backends usados pela Edge Function scan-uploads
+// =====================================================
+//
+// Configuração (secrets da função):
+//   SCANNER             virustotal | clamav | mock. Sem valor: virustotal
+//                       se VIRUSTOTAL_API_KEY existir, senão clamav se
+//                       CLAMD_HOST existir
+//   VIRUSTOTAL_API_KEY  chave da API v3 (nunca exposta ao navegador)
+//   CLAMD_HOST          host do clamd (protocolo INSTREAM via TCP)
+//   CLAMD_PORT          porta do clamd (padrão: 3310)
+//   CLAMD_MAX_BYTES     limite do StreamMaxLength do clamd (padrão: 25MB)
+//
+// O scanner "mock" só detecta a assinatura de teste EICAR e serve para
+// desenvolvimento/testes sem VirusTotal nem clamd.
+// =====================================================
+
+export type ScannerName = 'virustotal' | 'clamav' | 'mock';
+
+/**
+ * retry: erro transitório (rede, limite de requisições)
+ * timeout: a análise não terminou no tempo da tentativa
+ * fatal: não adianta tentar de novo (arquivo grande demais, configuração)
+ */
+export type ScanFailureKind = 'retry' | 'timeout' | 'fatal';
+
+export class ScanError extends Error {
+  constructor(message: string, public readonly kind: ScanFailureKind = 'retry') {
+    super(message);
+    this.name = 'ScanError';
+  }
+}
+
+export interface ScanInput {
+  bytes: Uint8Array;
+  fileName: string;
+  sha256: string;
+  signal: AbortSignal;
+}
+
+/**
+ * Resultado gravado em file_scans por complete_scan_job()
+ */
+export interface ScanVerdict {
+  status: 'clean' | 'infected';
+  scanner: ScannerName;
+  threat_name: string | null;
+  threat_category: string | null;
+  threat_severity: 'low' | 'medium' | 'high' | 'critical' | null;
+  engines_detected: number;
+  engines_total: number;
+  scan_id: string | null;
+  permalink: string | null;
+  raw: unknown;
+}
+
+export interface Scanner {
+  readonly name: ScannerName;
+  /** Maior arquivo aceito pelo backend, em bytes */
+  readonly maxFileSize: number;
+  scan(input: ScanInput): Promise<ScanVerdict>;
+}
+
+const VIRUSTOTAL_BASE_URL = 'https://www.virustotal.com/api/v3';
+const VIRUSTOTAL_DIRECT_UPLOAD_LIMIT = 32 * 1024 * 1024;
+const VIRUSTOTAL_MAX_FILE_SIZE = 650 * 1024 * 1024;
+const VIRUSTOTAL_POLL_INTERVAL_MS = 5000;
+const CLAMD_DEFAULT_PORT = 3310;
+const CLAMD_DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+// =====================================================
+// HELPERS
+// =====================================================
+
+export function severityFromDetections(
+  detected: number,
+  total: number
+): 'low' | 'medium' | 'high' | 'critical' {
+  const percentage = total > 0 ? (detected / total) * 100 : 100;
+
+  if (percentage >= 50) return 'critical';
+  if (percentage >= 25) return 'high';
+  if (percentage >= 10) return 'medium';
+  return 'low';
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ScanError('Tempo limite da verificação excedido', 'timeout'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new ScanError('Tempo limite da verificação excedido', 'timeout'));
+    }, { once: true });
+  });
+}
+
+// =====================================================
+// VIRUSTOTAL
+// =====================================================
+
+interface VirusTotalEngineResult {
+  category: string;
+  result: string | null;
+}
+
+interface VirusTotalStats {
+  malicious: number;
+  suspicious: number;
+}
+
+export class VirusTotalScanner implements Scanner {
+  readonly name = 'virustotal' as const;
+  readonly maxFileSize = VIRUSTOTAL_MAX_FILE_SIZE;
+
+  constructor(private readonly apiKey: string) {}
+
+  private async request<T>(path: string, signal: AbortSignal, init: RequestInit = {}): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(path.startsWith('http') ? path : `${VIRUSTOTAL_BASE_URL}${path}`, {
+        ...init,
+        headers: { 'x-apikey': this.apiKey, 'Accept': 'application/json', ...(init.headers || {}) },
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw new ScanError('Tempo limite da verificação excedido', 'timeout');
+      throw new ScanError(`VirusTotal indisponível: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (response.status === 404) return null;
+    if (response.status === 429) {
+      throw new ScanError('VirusTotal: limite de requisições atingido');
+    }
+    if (response.status >= 500) {
+      throw new ScanError(`VirusTotal respondeu HTTP ${response.status}`);
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new ScanError(`VirusTotal respondeu HTTP ${response.status}: ${text.slice(0, 200)}`, 'fatal');
+    }
+
+    return await response.json() as T;
+  }
+
+  private verdictFrom(
+    id: string,
+    stats: VirusTotalStats,
+    results: Record<string, VirusTotalEngineResult>,
+    raw: unknown
+  ): ScanVerdict {
+    const detected = (stats.malicious || 0) + (stats.suspicious || 0);
+    const total = Object.keys(results).length;
+    const infected = detected > 0;
+
+    const names: Record<string, number> = {};
+    for (const engine of Object.values(results)) {
+      if (engine.category === 'malicious' && engine.result) {
+        names[engine.result] = (names[engine.result] || 0) + 1;
+      }
+    }
+    const threatName = Object.entries(names).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+    return {
+      status: infected ? 'infected' : 'clean',
+      scanner: this.name,
+      threat_name: infected ? threatName : null,
+      threat_category: infected ? 'malware' : null,
+      threat_severity: infected ? severityFromDetections(detected, total) : null,
+      engines_detected: detected,
+      engines_total: Math.max(total, detected),
+      scan_id: id,
+      permalink: `https://www.virustotal.com/gui/file/${id}`,
+      raw,
+    };
+  }
+
+  async scan({ bytes, fileName, sha256, signal }: ScanInput): Promise<ScanVerdict> {
+    // 1. Consulta por hash (não gasta upload se o arquivo já é conhecido)
+    type FileReport = {
+      data: {
+        id: string;
+        attributes: {
+          last_analysis_stats: VirusTotalStats;
+          last_analysis_results: Record<string, VirusTotalEngineResult>;
+        };
+      };
+    };
+    const report = await this.request<FileReport>(`/files/${sha256}`, signal);
+    const results = report?.data.attributes.last_analysis_results;
+    if (report && results && Object.keys(results).length > 0) {
+      return this.verdictFrom(sha256, report.data.attributes.last_analysis_stats, results, report);
+    }
+
+    // 2. Upload (arquivos acima de 32MB usam uma URL de upload dedicada)
+    let uploadUrl = '/files';
+    if (bytes.length > VIRUSTOTAL_DIRECT_UPLOAD_LIMIT) {
+      const upload = await this.request<{ data: string }>('/files/upload_url', signal);
+      if (!upload?.data) throw new ScanError('VirusTotal não retornou URL de upload');
+      uploadUrl = upload.data;
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([bytes]), fileName);
+    const uploaded = await this.request<{ data: { id: string } }>(uploadUrl, signal, { method: 'POST', body: form });
+    if (!uploaded?.data?.id) throw new ScanError('VirusTotal não retornou o id da análise');
+
+    // 3. Aguarda a análise até o fim do tempo da tentativa; se não
+    // terminar, a próxima tentativa encontra o resultado pela consulta por hash
+    type Analysis = {
+      data: {
+        attributes: {
+          status: 'queued' | 'in-progress' | 'completed';
+          stats: VirusTotalStats;
+          results: Record<string, VirusTotalEngineResult>;
+        };
+      };
+    };
+    for (;;) {
+      await sleep(VIRUSTOTAL_POLL_INTERVAL_MS, signal);
+      const analysis = await this.request<Analysis>(`/analyses/${uploaded.data.id}`, signal);
+      if (analysis?.data.attributes.status === 'completed') {
+        return this.verdictFrom(sha256, analysis.data.attributes.stats, analysis.data.attributes.results || {}, analysis);
+      }
+    }
+  }
+}
+
+// =====================================================
+// CLAMAV (clamd)
+// =====================================================
+
+/**
+ * Interpreta a resposta do clamd ao INSTREAM
+ * Ex: "stream: OK" | "stream: Eicar-Test-Signature FOUND" | "... ERROR"
+ */
+export function parseClamdReply(reply: string): { infected: boolean; threatName: string | null } {
+  const text = reply.replace(/\0/g, '').trim();
+
+  if (/:\s*OK$/.test(text)) {
+    return { infected: false, threatName: null };
+  }
+
+  const found = text.match(/:\s*(.+)\s+FOUND$/);
+  if (found) {
+    return { infected: true, threatName: found[1].trim() };
+  }
+
+  if (/size limit exceeded/i.test(text)) {
+    throw new ScanError(`clamd: ${text}`, 'fatal');
+  }
+
+  throw new ScanError(`clamd: resposta inesperada "${text.slice(0, 200)}"`);
+}
+
+export class ClamAVScanner implements Scanner {
+  readonly name = 'clamav' as const;
+
+  constructor(
+    private readonly hostname: string,
+    private readonly port: number = CLAMD_DEFAULT_PORT,
+    readonly maxFileSize: number = CLAMD_DEFAULT_MAX_BYTES
+  ) {}
+
+  async scan({ bytes, signal }: ScanInput): Promise<ScanVerdict> {
+    let conn: Deno.Conn;
+    try {
+      conn = await Deno.connect({ hostname: this.hostname, port: this.port });
+    } catch (error) {
+      throw new ScanError(`clamd indisponível em ${this.hostname}:${this.port}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const closeOnAbort = () => {
+      try { conn.close(); } catch { /* já fechada */ }
+    };
+    signal.addEventListener('abort', closeOnAbort, { once: true });
+
+    try {
+      const writeAll = async (data: Uint8Array) => {
+        let written = 0;
+        while (written < data.length) {
+          written += await conn.write(data.subarray(written));
+        }
+      };
+
+      // zINSTREAM: blocos <tamanho uint32 big-endian><dados>, terminados por tamanho 0
+      await writeAll(new TextEncoder().encode('zINSTREAM\0'));
+      for (let offset = 0; offset < bytes.length; offset += CLAMD_CHUNK_SIZE) {
+        const chunk = bytes.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+        const header = new Uint8Array(4);
+        new DataView(header.buffer).setUint32(0, chunk.length);
+        await writeAll(header);
+        await writeAll(chunk);
+      }
+      await writeAll(new Uint8Array(4));
+
+      let reply = '';
+      const decoder = new TextDecoder();
+      const buffer = new Uint8Array(1024);
+      while (!reply.includes('\0')) {
+        const read = await conn.read(buffer);
+        if (read === null) break;
+        reply += decoder.decode(buffer.subarray(0, read), { stream: true });
+      }
+
+      const { infected, threatName } = parseClamdReply(reply);
+      return {
+        status: infected ? 'infected' : 'clean',
+        scanner: this.name,
+        threat_name: threatName,
+        threat_category: infected ? 'malware' : null,
+        threat_severity: infected ? 'critical' : null,
+        engines_detected: infected ? 1 : 0,
+        engines_total: 1,
+        scan_id: null,
+        permalink: null,
+        raw: { reply: reply.replace(/\0/g, '').trim() },
+      };
+    } catch (error) {
+      if (signal.aborted) throw new ScanError('Tempo limite da verificação excedido', 'timeout');
+      if (error instanceof ScanError) throw error;
+      throw new ScanError(`clamd: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      signal.removeEventListener('abort', closeOnAbort);
+      closeOnAbort();
+    }
+  }
+}
+
+// =====================================================
+// MOCK (desenvolvimento)
+// =====================================================
+
+export function containsEicarSignature(bytes: Uint8Array): boolean {
+  const text = new TextDecoder('latin1').decode(bytes);
+  return text.includes(EICAR_SIGNATURE);
+}
+
+export class MockScanner implements Scanner {
+  readonly name = 'mock' as const;
+  readonly maxFileSize = 200 * 1024 * 1024;
+
+  scan({ bytes }: ScanInput): Promise<ScanVerdict> {
+    const infected = containsEicarSignature(bytes);
+    return Promise.resolve({
+      status: infected ? 'infected' : 'clean',
+      scanner: this.name,
+      threat_name: infected ? 'EICAR-Test-File' : null,
+      threat_category: infected ? 'test' : null,
+      threat_severity: infected ? 'low' : null,
+      engines_detected: infected ? 1 : 0,
+      engines_total: 1,
+      scan_id: null,
+      permalink: null,
+      raw: null,
+    });
+  }
+}
+
+/**
+ * 🛡️ Scanner configurado para o ambiente (ver cabeçalho)
+ */
+export function createScanner(): Scanner {
+  const virusTotalKey = Deno.env.get('VIRUSTOTAL_API_KEY');
+  const clamdHost = Deno.env.get('CLAMD_HOST');
+  const configured = Deno.env.get('SCANNER') || (virusTotalKey ? 'virustotal' : clamdHost ? 'clamav' : '');
+
+  switch (configured) {
+    case 'virustotal':
+      if (!virusTotalKey) throw new ScanError('VIRUSTOTAL_API_KEY não configurada', 'fatal');
+      return new VirusTotalScanner(virusTotalKey);
+    case 'clamav':
+      if (!clamdHost) throw new ScanError('CLAMD_HOST não configurado', 'fatal');
+      return new ClamAVScanner(
+        clamdHost,
+        Number(Deno.env.get('CLAMD_PORT') || CLAMD_DEFAULT_PORT),
+        Number(Deno.env.get('CLAMD_MAX_BYTES') || CLAMD_DEFAULT_MAX_BYTES)
+      );
+    case 'mock':
+      console.warn('⚠️ [scanners] Usando scanner mock (somente EICAR)');
+      return new MockScanner();
+    default:
+      throw new ScanError(
+        configured ? `Scanner desconhecido: ${configured}` : 'Nenhum scanner configurado (SCANNER, VIRUSTOTAL_API_KEY ou CLAMD_HOST)',
+        'fatal'
+      );
+  }
+}
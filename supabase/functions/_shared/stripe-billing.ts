@@ -0,0 +1,880 @@
+// =====================================================
+// STRIPE BILLING (SERVER-SIDE)
+// Tratamento dos eventos do Stripe, compartilhado entre o webhook
+// (stripe-webhook / sync-subscription) e o reprocessamento pelo admin
+// (stripe-event-replay)
+// =====================================================
+//
+// Todo evento passa pela tabela stripe_events
+// (migration 20261018_stripe_event_store.sql):
+//
+//   recordStripeEvent()  grava o evento; reentregas só incrementam
+//                        delivery_count
+//   runStripeEvent()     reserva (claim), executa o handler e grava o
+//                        resultado (processed, ignored ou failed + erro)
+//
+// Os handlers são idempotentes para permitir o replay do histórico de um
+// usuário: pacotes usam a sessão do checkout como chave no extrato de
+// créditos, estornos usam o charge e a renovação só zera o uso uma vez
+// por período.
+//
+// O que os handlers leem da API do Stripe (subscription, line items) fica
+// em stripe_events.stripe_snapshots no primeiro processamento. O replay
+// usa esses snapshots, e não o estado atual do Stripe, para reproduzir o
+// que o evento aplicou na época.
+// =====================================================
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')!;
+
+// Mapeamento de Price IDs para plan_type (planos recorrentes)
+// IMPORTANTE: Manter ambos os Price IDs (antigos e novos) para compatibilidade
+const PRICE_TO_PLAN: Record<string, string> = {
+  // Price IDs antigos (podem ainda existir em assinaturas ativas)
+  'price_1T4gcAJc1p4mhrHNwOvzI8D8': 'creator',
+  'price_1T4gijJc1p4mhrHNW3h3Ajzl': 'creator_pro',
+  'price_1T4gmTJc1p4mhrHNuHS9xGN2': 'creator_elite',
+  // Price IDs novos (usados atualmente no Pricing.tsx)
+  'price_1T9AunJc1p4mhrHNQ3rfZhLa': 'creator',
+  'price_1T9AvvJc1p4mhrHNJkTRLWcU': 'creator_pro',
+  'price_1T9Ax3Jc1p4mhrHNriVXetzj': 'creator_elite',
+};
+
+// Mapeamento de Price IDs para pacotes avulsos (one-time payments)
+// IMPORTANTE: Manter ambos os Price IDs (antigos e novos) para compatibilidade
+const PRICE_TO_PACKAGE: Record<string, { credits: number; name: string }> = {
+  // Price IDs antigos (podem ainda existir em compras anteriores)
+  'price_1T4gpIJc1p4mhrHNJL1tt3UY': { credits: 10, name: 'Pacote 10' },
+  'price_1T4grUJc1p4mhrHNFJAl6Y4T': { credits: 20, name: 'Pacote 20' },
+  'price_1T4gu0Jc1p4mhrHNg8LhOIrJ': { credits: 50, name: 'Pacote 50' },
+  // Price IDs novos (usados atualmente no Pricing.tsx)
+  'price_1T9AqmJc1p4mhrHNAA8QJKlc': { credits: 10, name: 'Pacote 10' },
+  'price_1T9AruJc1p4mhrHNjnzpniQM': { credits: 20, name: 'Pacote 20' },
+  'price_1T9AtJJc1p4mhrHNqXqdOCoh': { credits: 50, name: 'Pacote 50' },
+};
+
+// Limites de assinaturas por plano
+const PLAN_LIMITS: Record<string, number> = {
+  trial: 10,
+  creator: 50,
+  creator_pro: 150,
+  creator_elite: 350,
+};
+
+// =====================================================================
+// 🆕 Helpers para compatibilidade com mudanças na API do Stripe.
+//
+// A partir da API 2024-something / 2025-12-15.clover, os campos
+// `current_period_start` e `current_period_end` deixaram de existir no
+// nível raiz da subscription e passaram a viver em cada item (em
+// `subscription.items.data[i].current_period_start/end`).
+//
+// Como o webhook lê esses campos para gravar no banco (`new Date(x * 1000)`),
+// se vier `undefined` o código explode com `RangeError: Invalid time value`,
+// fazendo o webhook retornar 400 e a assinatura nunca ser persistida.
+//
+// Esses helpers fazem um fallback seguro: tentam o root primeiro
+// (compatibilidade com payloads antigos) e, se vier vazio, leem do
+// primeiro item da subscription. Se ambos vierem vazios, retornam null
+// (em vez de explodir), e o caller decide o que fazer.
+// =====================================================================
+function getSubscriptionPeriodStart(subscription: Record<string, unknown>): number | null {
+  const root = subscription.current_period_start as number | undefined | null;
+  if (typeof root === 'number' && Number.isFinite(root)) return root;
+  const items = subscription.items as { data?: Array<Record<string, unknown>> } | undefined;
+  const fromItem = items?.data?.[0]?.current_period_start as number | undefined | null;
+  if (typeof fromItem === 'number' && Number.isFinite(fromItem)) return fromItem;
+  return null;
+}
+
+function getSubscriptionPeriodEnd(subscription: Record<string, unknown>): number | null {
+  const root = subscription.current_period_end as number | undefined | null;
+  if (typeof root === 'number' && Number.isFinite(root)) return root;
+  const items = subscription.items as { data?: Array<Record<string, unknown>> } | undefined;
+  const fromItem = items?.data?.[0]?.current_period_end as number | undefined | null;
+  if (typeof fromItem === 'number' && Number.isFinite(fromItem)) return fromItem;
+  return null;
+}
+
+function unixToIsoOrNull(ts: number | null | undefined): string | null {
+  if (typeof ts !== 'number' || !Number.isFinite(ts)) return null;
+  return new Date(ts * 1000).toISOString();
+}
+
+// Helper function to call Stripe API
+async function stripeRequest(endpoint: string, method: string = 'GET', body?: string): Promise<Response> {
+  const response = await fetch(`https://api.stripe.com/v1${endpoint}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body,
+  });
+  return response;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type StripeObject = Record<string, any>;
+
+// Respostas da API do Stripe por endpoint (stripe_events.stripe_snapshots)
+type StripeSnapshots = Record<string, StripeObject>;
+
+/**
+ * GET na API do Stripe com snapshot: se o evento já foi processado, devolve
+ * a resposta gravada naquela vez em vez do estado atual do Stripe
+ */
+async function fetchStripeSnapshot(
+  snapshots: StripeSnapshots,
+  endpoint: string
+): Promise<{ ok: boolean; data: StripeObject }> {
+  if (snapshots[endpoint]) {
+    console.log('📸 [fetchStripeSnapshot] Usando snapshot do primeiro processamento:', endpoint);
+    return { ok: true, data: snapshots[endpoint] };
+  }
+
+  const response = await stripeRequest(endpoint);
+  const data = await response.json();
+  if (response.ok) {
+    snapshots[endpoint] = data;
+  }
+  return { ok: response.ok, data };
+}
+
+async function getUserIdByEmail(email: string): Promise<string | null> {
+  console.log('🔍 [getUserIdByEmail] Buscando user_id para email:', email);
+  
+  try {
+    const { data, error } = await supabase.auth.admin.listUsers();
+    
+    if (error) {
+      console.error('❌ [getUserIdByEmail] Erro ao listar usuários:', error);
+      return null;
+    }
+
+    const user = data.users.find(u => u.email === email);
+    
+    if (!user) {
+      console.error('❌ [getUserIdByEmail] Usuário não encontrado para email:', email);
+      return null;
+    }
+
+    console.log('✅ [getUserIdByEmail] user_id encontrado:', user.id);
+    return user.id;
+  } catch (error) {
+    console.error('❌ [getUserIdByEmail] Exceção ao buscar usuário:', error);
+    return null;
+  }
+}
+
+// Buscar user_id pelo stripe_customer_id
+async function getUserIdByStripeCustomerId(stripeCustomerId: string): Promise<string | null> {
+  console.log('🔍 [getUserIdByStripeCustomerId] Buscando user_id para customer:', stripeCustomerId);
+  
+  try {
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_customer_id', stripeCustomerId)
+      .single();
+    
+    if (error || !data) {
+      console.error('❌ [getUserIdByStripeCustomerId] Assinatura não encontrada:', error);
+      return null;
+    }
+
+    console.log('✅ [getUserIdByStripeCustomerId] user_id encontrado:', data.user_id);
+    return data.user_id;
+  } catch (error) {
+    console.error('❌ [getUserIdByStripeCustomerId] Exceção:', error);
+    return null;
+  }
+}
+
+async function handleCheckoutSessionCompleted(session: Record<string, unknown>, snapshots: StripeSnapshots) {
+  console.log('🎉 [handleCheckoutSessionCompleted] Checkout concluído:', session.id);
+  console.log('📋 [handleCheckoutSessionCompleted] Session mode:', session.mode);
+  console.log('📋 [handleCheckoutSessionCompleted] Payment status:', session.payment_status);
+
+  const customerDetails = session.customer_details as Record<string, unknown> | undefined;
+  const customerEmail = (session.customer_email as string) || (customerDetails?.email as string);
+  if (!customerEmail) {
+    console.error('❌ [handleCheckoutSessionCompleted] Email do cliente não encontrado');
+    return;
+  }
+
+  console.log('📧 [handleCheckoutSessionCompleted] Email do cliente:', customerEmail);
+
+  const userId = await getUserIdByEmail(customerEmail);
+  if (!userId) {
+    console.error('❌ [handleCheckoutSessionCompleted] Usuário não encontrado para email:', customerEmail);
+    // Falha reprocessável (stripe_events): o cadastro pode ainda não ter terminado
+    throw new Error(`Usuário não encontrado para o e-mail do checkout: ${customerEmail}`);
+  }
+
+  console.log('✅ [handleCheckoutSessionCompleted] User ID obtido:', userId);
+
+  const mode = session.mode as string;
+  
+  if (mode === 'subscription') {
+    console.log('📝 [handleCheckoutSessionCompleted] Processando assinatura recorrente');
+    await handleSubscriptionCheckout(session, userId, snapshots);
+  } else if (mode === 'payment') {
+    console.log('📦 [handleCheckoutSessionCompleted] Processando pacote avulso');
+    await handlePackageCheckout(session, userId, snapshots);
+  } else {
+    console.log('⚠️ [handleCheckoutSessionCompleted] Modo desconhecido:', mode);
+  }
+}
+
+async function handleSubscriptionCheckout(session: Record<string, unknown>, userId: string, snapshots: StripeSnapshots) {
+  console.log('📝 [handleSubscriptionCheckout] Iniciando processamento de assinatura recorrente');
+  
+  const subscriptionId = session.subscription as string;
+  if (!subscriptionId) {
+    console.error('❌ [handleSubscriptionCheckout] Subscription ID não encontrado na sessão');
+    return;
+  }
+
+  console.log('🔍 [handleSubscriptionCheckout] Buscando subscription no Stripe:', subscriptionId);
+
+  // Buscar detalhes da subscription no Stripe
+  const { ok: subscriptionOk, data: subscription } = await fetchStripeSnapshot(
+    snapshots,
+    `/subscriptions/${subscriptionId}`
+  );
+  
+  if (!subscriptionOk) {
+    console.error('❌ [handleSubscriptionCheckout] Erro ao buscar subscription:', subscription);
+    throw new Error(`Stripe: erro ao buscar subscription ${subscriptionId}`);
+  }
+  
+  const priceId = subscription.items?.data?.[0]?.price?.id;
+  const planType = PRICE_TO_PLAN[priceId] || 'creator';
+  const signaturesLimit = PLAN_LIMITS[planType] || 50;
+
+  console.log('📋 [handleSubscriptionCheckout] Price ID:', priceId);
+  console.log('📋 [handleSubscriptionCheckout] Plan Type:', planType);
+  console.log('📋 [handleSubscriptionCheckout] Signatures Limit:', signaturesLimit);
+
+  // 🔧 FIX BUG #2: Buscar assinatura existente ANTES de montar payload, para
+  // preservar metadata (package_purchases) e overage_signatures_available em
+  // caso de re-checkout / atualização da mesma linha.
+  const { data: existingSubscription } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  const stripeMetadata = (subscription.metadata as Record<string, unknown>) || {};
+  const existingMetadata = (existingSubscription?.metadata as Record<string, unknown>) || {};
+
+  // Merge: campos internos nossos (package_purchases, last_renewal etc.)
+  // têm prioridade sobre o que vier do Stripe.
+  const mergedMetadata: Record<string, unknown> = {
+    ...stripeMetadata,
+    ...existingMetadata,
+  };
+
+  // 🆕 Usa helpers para compatibilidade com API antiga e nova do Stripe
+  // (current_period_start/end podem vir no root OU dentro de items.data[0]).
+  const periodStartUnix = getSubscriptionPeriodStart(subscription);
+  const periodEndUnix = getSubscriptionPeriodEnd(subscription);
+  console.log('📅 [handleSubscriptionCheckout] Period start (unix):', periodStartUnix, '| end (unix):', periodEndUnix);
+
+  const subscriptionData = {
+    user_id: userId,
+    stripe_customer_id: session.customer as string,
+    stripe_subscription_id: subscriptionId,
+    stripe_price_id: priceId,
+    plan_type: planType,
+    status: subscription.status,
+    current_period_start: unixToIsoOrNull(periodStartUnix),
+    current_period_end: unixToIsoOrNull(periodEndUnix),
+    trial_start: subscription.trial_start ? new Date(subscription.trial_start * 1000).toISOString() : null,
+    trial_end: subscription.trial_end ? new Date(subscription.trial_end * 1000).toISOString() : null,
+    canceled_at: subscription.canceled_at ? new Date(subscription.canceled_at * 1000).toISOString() : null,
+    ended_at: subscription.ended_at ? new Date(subscription.ended_at * 1000).toISOString() : null,
+    cancel_at_period_end: subscription.cancel_at_period_end || false,
+    // 🔧 Preserva contadores existentes em re-checkout; só zera em assinatura nova.
+    signatures_used: existingSubscription?.signatures_used ?? 0,
+    signatures_limit: signaturesLimit,
+    overage_signatures_available: existingSubscription?.overage_signatures_available ?? 0,
+    metadata: mergedMetadata,
+    updated_at: new Date().toISOString(),
+  };
+
+  console.log('💾 [handleSubscriptionCheckout] Salvando assinatura recorrente');
+
+  if (existingSubscription) {
+    console.log('🔄 [handleSubscriptionCheckout] Atualizando assinatura existente (metadata preservado)');
+    
+    const { error } = await supabase
+      .from('subscriptions')
+      .update(subscriptionData)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('❌ [handleSubscriptionCheckout] Erro ao atualizar assinatura:', error);
+      throw error;
+    }
+    console.log('✅ [handleSubscriptionCheckout] Assinatura recorrente atualizada com sucesso');
+  } else {
+    console.log('➕ [handleSubscriptionCheckout] Criando nova assinatura');
+    
+    const { error } = await supabase
+      .from('subscriptions')
+      .insert({
+        ...subscriptionData,
+        created_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('❌ [handleSubscriptionCheckout] Erro ao criar assinatura:', error);
+      throw error;
+    }
+    console.log('✅ [handleSubscriptionCheckout] Assinatura recorrente criada com sucesso');
+  }
+}
+
+async function handlePackageCheckout(session: Record<string, unknown>, userId: string, snapshots: StripeSnapshots) {
+  console.log('📦 [handlePackageCheckout] Processando compra de pacote avulso');
+  console.log('📋 [handlePackageCheckout] Session ID:', session.id);
+  console.log('📋 [handlePackageCheckout] User ID:', userId);
+
+  // Buscar o Price ID do line item
+  const { ok: lineItemsOk, data: lineItems } = await fetchStripeSnapshot(
+    snapshots,
+    `/checkout/sessions/${session.id}/line_items`
+  );
+  
+  if (!lineItemsOk) {
+    console.error('❌ [handlePackageCheckout] Erro ao buscar line items:', lineItems);
+    throw new Error(`Stripe: erro ao buscar line items da sessão ${session.id}`);
+  }
+  
+  const priceId = lineItems.data?.[0]?.price?.id;
+
+  console.log('📋 [handlePackageCheckout] Price ID:', priceId);
+
+  if (!priceId) {
+    console.error('❌ [handlePackageCheckout] Price ID não encontrado no checkout');
+    return;
+  }
+
+  const packageInfo = PRICE_TO_PACKAGE[priceId];
+  if (!packageInfo) {
+    console.error('❌ [handlePackageCheckout] Pacote não reconhecido para Price ID:', priceId);
+    console.log('📋 [handlePackageCheckout] Pacotes disponíveis:', Object.keys(PRICE_TO_PACKAGE));
+    throw new Error(`Pacote não reconhecido para o Price ID ${priceId}`);
+  }
+
+  console.log(`📦 [handlePackageCheckout] Pacote identificado: ${packageInfo.name} (${packageInfo.credits} créditos)`);
+
+  // Usar a data de criação do checkout session (momento exato da compra) do Stripe
+  // session.created é um timestamp Unix em segundos
+  const sessionCreatedTimestamp = session.created as number;
+  const purchaseDate = sessionCreatedTimestamp 
+    ? new Date(sessionCreatedTimestamp * 1000) 
+    : new Date();
+  
+  // Pacote avulso vale 30 dias a partir da data de compra (independente do plano)
+  const expirationDate = new Date(purchaseDate);
+  expirationDate.setDate(expirationDate.getDate() + 30);
+  
+  console.log('📅 [handlePackageCheckout] Data de compra (session.created):', purchaseDate.toISOString());
+  console.log('📅 [handlePackageCheckout] Data de expiração do pacote:', expirationDate.toISOString());
+
+  // 📒 Créditos vão para o extrato (credit_lots/credit_ledger). A chave de
+  // idempotência é a sessão do Stripe: reentregas do evento e o
+  // sync-subscription não concedem o pacote duas vezes.
+  const { data: grant, error: grantError } = await supabase.rpc('grant_credits', {
+    p_user_id: userId,
+    p_credits: packageInfo.credits,
+    p_idempotency_key: `stripe:checkout:${session.id}`,
+    p_description: packageInfo.name,
+    p_expires_at: expirationDate.toISOString(),
+    p_source: 'package',
+    p_granted_at: purchaseDate.toISOString(),
+    p_stripe_session_id: session.id,
+    p_stripe_price_id: priceId,
+    p_stripe_payment_intent: session.payment_intent ?? null,
+  });
+
+  if (grantError) {
+    console.error('❌ [handlePackageCheckout] Erro ao conceder créditos extras:', grantError);
+    throw grantError;
+  }
+
+  if (grant?.already_processed) {
+    console.log('⚠️ [handlePackageCheckout] Compra já processada anteriormente, ignorando...');
+    return;
+  }
+
+  console.log(`✅ [handlePackageCheckout] ${packageInfo.credits} créditos extras adicionados! Saldo: ${grant?.balance}`);
+}
+
+// =====================================================
+// NOVO: Tratamento de invoice.paid para renovação de assinaturas
+// =====================================================
+async function handleInvoicePaid(invoice: Record<string, unknown>, snapshots: StripeSnapshots) {
+  console.log('💰 [handleInvoicePaid] Invoice paga:', invoice.id);
+  console.log('📋 [handleInvoicePaid] Billing reason:', invoice.billing_reason);
+  
+  const billingReason = invoice.billing_reason as string;
+  const subscriptionId = invoice.subscription as string;
+  const customerId = invoice.customer as string;
+  
+  // Só processar renovações de assinatura (não a primeira cobrança)
+  // billing_reason pode ser: subscription_create, subscription_cycle, subscription_update, manual, etc.
+  if (billingReason !== 'subscription_cycle') {
+    console.log('ℹ️ [handleInvoicePaid] Não é renovação de ciclo, ignorando. Reason:', billingReason);
+    return;
+  }
+  
+  if (!subscriptionId) {
+    console.log('⚠️ [handleInvoicePaid] Invoice sem subscription_id, ignorando');
+    return;
+  }
+  
+  console.log('🔄 [handleInvoicePaid] Processando RENOVAÇÃO de assinatura:', subscriptionId);
+  
+  // Buscar a assinatura no banco de dados
+  const { data: subscription, error: fetchError } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('stripe_subscription_id', subscriptionId)
+    .single();
+  
+  if (fetchError || !subscription) {
+    console.error('❌ [handleInvoicePaid] Assinatura não encontrada:', fetchError);
+    
+    // Tentar buscar pelo customer_id
+    if (customerId) {
+      const userId = await getUserIdByStripeCustomerId(customerId);
+      if (userId) {
+        console.log('🔍 [handleInvoicePaid] Tentando buscar por user_id:', userId);
+        const { data: subByUser } = await supabase
+          .from('subscriptions')
+          .select('*')
+          .eq('user_id', userId)
+          .single();
+        
+        if (subByUser) {
+          await processSubscriptionRenewal(subByUser, invoice, snapshots);
+          return;
+        }
+      }
+    }
+    throw new Error(`Assinatura ${subscriptionId} não encontrada para a renovação`);
+  }
+  
+  await processSubscriptionRenewal(subscription, invoice, snapshots);
+}
+
+async function processSubscriptionRenewal(
+  subscription: Record<string, unknown>,
+  invoice: Record<string, unknown>,
+  snapshots: StripeSnapshots
+) {
+  console.log('🔄 [processSubscriptionRenewal] Renovando assinatura:', subscription.id);
+  console.log('📋 [processSubscriptionRenewal] Plano:', subscription.plan_type);
+  console.log('📋 [processSubscriptionRenewal] Créditos usados antes da renovação:', subscription.signatures_used);
+  
+  // Dados da subscription no Stripe no momento da renovação (snapshot no replay)
+  const stripeSubscriptionId = subscription.stripe_subscription_id as string;
+  const { ok: subscriptionOk, data: stripeSubscription } = await fetchStripeSnapshot(
+    snapshots,
+    `/subscriptions/${stripeSubscriptionId}`
+  );
+  
+  if (!subscriptionOk) {
+    console.error('❌ [processSubscriptionRenewal] Erro ao buscar subscription no Stripe:', stripeSubscription);
+    throw new Error(`Stripe: erro ao buscar subscription ${stripeSubscriptionId}`);
+  }
+  
+  // 🆕 Usa helpers para compatibilidade com API antiga e nova do Stripe
+  const renewalStartUnix = getSubscriptionPeriodStart(stripeSubscription);
+  const renewalEndUnix = getSubscriptionPeriodEnd(stripeSubscription);
+  const newPeriodStartIso = unixToIsoOrNull(renewalStartUnix);
+  const newPeriodEndIso = unixToIsoOrNull(renewalEndUnix);
+
+  console.log('📅 [processSubscriptionRenewal] Novo período:', newPeriodStartIso, 'até', newPeriodEndIso);
+  
+  // 🛡️ Renovação já aplicada para esta invoice ou para este período:
+  // invoice.paid e invoice.payment_succeeded chegam para a mesma cobrança e
+  // o replay reexecuta invoices antigas. Zerar o uso de novo apagaria
+  // autenticações feitas depois da renovação.
+  const metadata = subscription.metadata as Record<string, unknown> || {};
+  const lastRenewal = metadata.last_renewal as { date?: string; invoice_id?: string } | undefined;
+  const alreadyRenewed =
+    lastRenewal?.invoice_id === invoice.id ||
+    (!!lastRenewal?.date && !!newPeriodStartIso && new Date(lastRenewal.date) >= new Date(newPeriodStartIso));
+
+  if (alreadyRenewed) {
+    console.log('⏭️ [processSubscriptionRenewal] Período já renovado (last_renewal:', lastRenewal?.invoice_id, '), ignorando');
+    return;
+  }
+
+  // Expirar pacotes avulsos vencidos no extrato de créditos
+  const now = new Date();
+
+  const { data: expiredCredits, error: expireError } = await supabase.rpc('expire_credits', {
+    p_user_id: subscription.user_id,
+  });
+
+  if (expireError) {
+    // Não bloqueia a renovação: o cron diário de expiração registra depois
+    console.error('⚠️ [processSubscriptionRenewal] Erro ao expirar créditos avulsos:', expireError);
+  }
+
+  console.log('📊 [processSubscriptionRenewal] Créditos avulsos expirados:', expiredCredits ?? 0);
+  
+  // Atualizar a assinatura: resetar créditos do plano e atualizar período
+  const updateData = {
+    signatures_used: 0, // RESETAR créditos usados do plano
+    current_period_start: newPeriodStartIso,
+    current_period_end: newPeriodEndIso,
+    status: stripeSubscription.status,
+    // overage_signatures_available é derivado de credit_lots (trigger)
+    metadata: {
+      ...metadata,
+      last_renewal: {
+        date: now.toISOString(),
+        invoice_id: invoice.id,
+        previous_signatures_used: subscription.signatures_used,
+        expired_overage_credits: expiredCredits ?? 0,
+      },
+    },
+    updated_at: now.toISOString(),
+  };
+  
+  const { error: updateError } = await supabase
+    .from('subscriptions')
+    .update(updateData)
+    .eq('id', subscription.id);
+  
+  if (updateError) {
+    console.error('❌ [processSubscriptionRenewal] Erro ao atualizar assinatura:', updateError);
+    throw updateError;
+  }
+  
+  console.log('✅ [processSubscriptionRenewal] Assinatura renovada com sucesso!');
+  console.log('📊 [processSubscriptionRenewal] Créditos do plano resetados de', subscription.signatures_used, 'para 0');
+  console.log('📊 [processSubscriptionRenewal] Limite do plano:', subscription.signatures_limit);
+}
+
+async function handleSubscriptionUpdated(subscription: Record<string, unknown>) {
+  console.log('🔄 [handleSubscriptionUpdated] Subscription atualizada:', subscription.id);
+
+  // 🔧 FIX: Buscar a linha completa para preservar metadata (package_purchases) e
+  // para decidir se devemos ou não atualizar plan_type/signatures_limit/stripe_price_id.
+  const { data: existingSubscription } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('stripe_subscription_id', subscription.id)
+    .single();
+
+  if (!existingSubscription) {
+    console.error('❌ [handleSubscriptionUpdated] Assinatura não encontrada no banco de dados');
+    // Pode chegar antes do checkout.session.completed: reprocessável
+    throw new Error(`Assinatura ${subscription.id} não encontrada no banco de dados`);
+  }
+
+  const items = subscription.items as { data: Array<{ price: { id: string } }> } | undefined;
+  const stripePriceId = items?.data?.[0]?.price?.id;
+  const stripePlanType = stripePriceId ? (PRICE_TO_PLAN[stripePriceId] || 'creator') : 'creator';
+  const stripeSignaturesLimit = PLAN_LIMITS[stripePlanType] || 50;
+
+  // 🔧 FIX BUG #1: Detectar se a subscription tem um Subscription Schedule ativo
+  // (criado pela função update-subscription quando o usuário pediu downgrade).
+  // Quando há schedule ativo, este evento `customer.subscription.updated` chega
+  // ANTES da troca de fato — então NÃO devemos adiantar plan_type/limit/price_id
+  // no banco. Isso só deve acontecer quando a Fase 2 do Schedule entrar em vigor.
+  const hasActiveSchedule = !!subscription.schedule;
+
+  // 🔧 FIX BUG #1: Detectar mudança de plano para evitar zerar contadores indevidos
+  const planTypeChanged = existingSubscription.plan_type !== stripePlanType;
+
+  // ============================================================
+  // Estratégia de atualização:
+  //  - Sempre atualizamos: status, datas de período, trial, cancel flags
+  //  - Plan/limit/price_id: só atualizamos se NÃO houver schedule ativo
+  //    (caso contrário, mantém os valores atuais até o Schedule executar)
+  //  - Metadata: SEMPRE faz MERGE — nunca sobrescreve, para preservar
+  //    package_purchases, last_renewal e demais campos internos.
+  // ============================================================
+
+  const existingMetadata = (existingSubscription.metadata as Record<string, unknown>) || {};
+  const stripeMetadata = (subscription.metadata as Record<string, unknown>) || {};
+
+  // Merge: campos do Stripe entram, mas campos internos nossos têm prioridade
+  // (package_purchases, last_renewal, last_package_purchase, scheduled_downgrade...)
+  const mergedMetadata: Record<string, unknown> = {
+    ...stripeMetadata,
+    ...existingMetadata,
+  };
+
+  // 🆕 Usa helpers para compatibilidade com API antiga e nova do Stripe
+  // (current_period_start/end podem vir no root OU dentro de items.data[0]).
+  const updatedStartUnix = getSubscriptionPeriodStart(subscription);
+  const updatedEndUnix = getSubscriptionPeriodEnd(subscription);
+  console.log('📅 [handleSubscriptionUpdated] Period start (unix):', updatedStartUnix, '| end (unix):', updatedEndUnix);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const updateData: Record<string, any> = {
+    status: subscription.status,
+    current_period_start: unixToIsoOrNull(updatedStartUnix),
+    current_period_end: unixToIsoOrNull(updatedEndUnix),
+    trial_start: subscription.trial_start ? new Date((subscription.trial_start as number) * 1000).toISOString() : null,
+    trial_end: subscription.trial_end ? new Date((subscription.trial_end as number) * 1000).toISOString() : null,
+    canceled_at: subscription.canceled_at ? new Date((subscription.canceled_at as number) * 1000).toISOString() : null,
+    ended_at: subscription.ended_at ? new Date((subscription.ended_at as number) * 1000).toISOString() : null,
+    cancel_at_period_end: subscription.cancel_at_period_end || false,
+    metadata: mergedMetadata,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (hasActiveSchedule) {
+    // 🛡️ Há um agendamento (downgrade agendado) — NÃO adiantar a troca de plano.
+    // Os campos plan_type / signatures_limit / stripe_price_id permanecem
+    // como estão no banco até o Schedule executar de fato.
+    console.log('⏰ [handleSubscriptionUpdated] Schedule ativo detectado — preservando plan/limit/price_id atuais');
+    console.log('   plano atual no banco:', existingSubscription.plan_type, '| limit:', existingSubscription.signatures_limit);
+  } else {
+    // Sem schedule: aplicar plano que veio do Stripe
+    updateData.stripe_price_id = stripePriceId;
+    updateData.plan_type = stripePlanType;
+    updateData.signatures_limit = stripeSignaturesLimit;
+
+    if (planTypeChanged) {
+      console.log('📝 [handleSubscriptionUpdated] Plano alterado:', existingSubscription.plan_type, '→', stripePlanType);
+    }
+  }
+
+  console.log('💾 [handleSubscriptionUpdated] Atualizando assinatura');
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update(updateData)
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) {
+    console.error('❌ [handleSubscriptionUpdated] Erro ao atualizar assinatura:', error);
+    throw error;
+  }
+  console.log('✅ [handleSubscriptionUpdated] Assinatura atualizada com sucesso');
+}
+
+async function handleSubscriptionDeleted(subscription: Record<string, unknown>) {
+  console.log('🗑️ [handleSubscriptionDeleted] Subscription deletada:', subscription.id);
+
+  const updateData = {
+    status: 'canceled',
+    // Data do Stripe quando houver: o replay não deve mover o encerramento
+    ended_at: unixToIsoOrNull(subscription.ended_at as number | null) ?? new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update(updateData)
+    .eq('stripe_subscription_id', subscription.id);
+
+  if (error) {
+    console.error('❌ [handleSubscriptionDeleted] Erro ao deletar assinatura:', error);
+    throw error;
+  }
+  console.log('✅ [handleSubscriptionDeleted] Assinatura marcada como cancelada');
+}
+
+async function handleChargeRefunded(charge: Record<string, unknown>) {
+  console.log('↩️ [handleChargeRefunded] Charge estornada:', charge.id);
+
+  const paymentIntent = charge.payment_intent as string | null;
+  if (!paymentIntent) {
+    console.log('ℹ️ [handleChargeRefunded] Charge sem payment_intent, ignorando');
+    return;
+  }
+
+  // Estorno parcial não retira créditos: o ajuste fica a cargo do admin
+  if (!charge.refunded) {
+    console.log('ℹ️ [handleChargeRefunded] Estorno parcial, créditos mantidos:', charge.amount_refunded);
+    return;
+  }
+
+  const { data: result, error } = await supabase.rpc('refund_credit_purchase', {
+    p_stripe_payment_intent: paymentIntent,
+    p_idempotency_key: `stripe:refund:${charge.id}`,
+    p_reason: 'Compra estornada no Stripe',
+  });
+
+  if (error) {
+    console.error('❌ [handleChargeRefunded] Erro ao estornar créditos:', error);
+    throw error;
+  }
+
+  if (!result?.lots) {
+    console.log('ℹ️ [handleChargeRefunded] Nenhum pacote avulso associado ao pagamento:', paymentIntent);
+    return;
+  }
+
+  console.log(`✅ [handleChargeRefunded] ${result.refunded} crédito(s) retirado(s) do extrato`);
+}
+
+
+// =====================================================
+// EVENT STORE
+// =====================================================
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created?: number;
+  data: { object: Record<string, unknown> };
+  [key: string]: unknown;
+}
+
+export type StripeEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'ignored';
+
+export interface RecordedStripeEvent {
+  id: string;
+  status: StripeEventStatus;
+  attempts: number;
+  duplicate: boolean;
+}
+
+export interface StripeEventRunResult {
+  id: string;
+  type: string;
+  /** null quando o evento já estava em processamento por outra execução */
+  status: StripeEventStatus | null;
+  error?: string;
+}
+
+/**
+ * Executa o handler do tipo do evento.
+ * Retorna false para tipos que não alteram nada no banco.
+ */
+async function dispatchStripeEvent(event: StripeEvent, snapshots: StripeSnapshots): Promise<boolean> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      console.log('🎯 [dispatchStripeEvent] Processando checkout.session.completed');
+      await handleCheckoutSessionCompleted(event.data.object, snapshots);
+      return true;
+
+    case 'invoice.paid':
+      console.log('🎯 [dispatchStripeEvent] Processando invoice.paid');
+      await handleInvoicePaid(event.data.object, snapshots);
+      return true;
+
+    case 'invoice.payment_succeeded':
+      console.log('🎯 [dispatchStripeEvent] Processando invoice.payment_succeeded');
+      // Também tratar este evento para garantir que renovações sejam capturadas
+      await handleInvoicePaid(event.data.object, snapshots);
+      return true;
+
+    case 'customer.subscription.updated':
+      console.log('🎯 [dispatchStripeEvent] Processando customer.subscription.updated');
+      await handleSubscriptionUpdated(event.data.object);
+      return true;
+
+    case 'customer.subscription.deleted':
+      console.log('🎯 [dispatchStripeEvent] Processando customer.subscription.deleted');
+      await handleSubscriptionDeleted(event.data.object);
+      return true;
+
+    case 'charge.refunded':
+      console.log('🎯 [dispatchStripeEvent] Processando charge.refunded');
+      await handleChargeRefunded(event.data.object);
+      return true;
+
+    case 'customer.subscription.trial_will_end':
+      console.log('⏰ [dispatchStripeEvent] Trial vai terminar em breve');
+      return false;
+
+    default:
+      console.log('ℹ️ [dispatchStripeEvent] Evento não tratado:', event.type);
+      return false;
+  }
+}
+
+/**
+ * 📥 Grava o evento recebido (ou conta a reentrega, se já existir)
+ */
+export async function recordStripeEvent(event: StripeEvent): Promise<RecordedStripeEvent> {
+  const { data, error } = await supabase.rpc('record_stripe_event', { p_event: event });
+
+  if (error) {
+    console.error('❌ [recordStripeEvent] Erro ao gravar evento:', error);
+    throw error;
+  }
+
+  return data as RecordedStripeEvent;
+}
+
+/**
+ * ⚙️ Processa um evento gravado: claim → handler → resultado
+ *
+ * force: reprocessa mesmo eventos já concluídos (replay do admin).
+ * O erro do handler é gravado em stripe_events.last_error e devolvido no
+ * resultado, sem lançar exceção.
+ */
+export async function runStripeEvent(
+  event: StripeEvent,
+  options: { force?: boolean; replayedBy?: string } = {}
+): Promise<StripeEventRunResult> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_stripe_event', {
+    p_event_id: event.id,
+    p_force: options.force ?? false,
+    p_replayed_by: options.replayedBy ?? null,
+  });
+
+  if (claimError) {
+    console.error('❌ [runStripeEvent] Erro ao reservar evento:', claimError);
+    throw claimError;
+  }
+
+  if (!claimed) {
+    console.log('⏭️ [runStripeEvent] Evento em processamento ou já concluído:', event.id);
+    return { id: event.id, type: event.type, status: null };
+  }
+
+  // Snapshots da API do Stripe gravados no primeiro processamento
+  const { data: stored } = await supabase
+    .from('stripe_events')
+    .select('stripe_snapshots')
+    .eq('id', event.id)
+    .maybeSingle();
+  const snapshots: StripeSnapshots = { ...(stored?.stripe_snapshots ?? {}) };
+
+  let status: StripeEventStatus;
+  let errorMessage: string | undefined;
+
+  try {
+    status = (await dispatchStripeEvent(event, snapshots)) ? 'processed' : 'ignored';
+  } catch (err) {
+    status = 'failed';
+    errorMessage = err instanceof Error ? err.message : JSON.stringify(err);
+    console.error('❌ [runStripeEvent] Falha ao processar', event.type, event.id, err);
+  }
+
+  const { error: finishError } = await supabase.rpc('finish_stripe_event', {
+    p_event_id: event.id,
+    p_status: status,
+    p_error: errorMessage ?? null,
+    p_snapshots: snapshots,
+  });
+
+  if (finishError) {
+    console.error('❌ [runStripeEvent] Erro ao gravar resultado do evento:', finishError);
+  }
+
+  console.log(`📊 [runStripeEvent] ${event.type} ${event.id}: ${status}`);
+  return { id: event.id, type: event.type, status, error: errorMessage };
+}
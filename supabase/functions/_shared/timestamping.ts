@@ -0,0 +1,134 @@
+// =====================================================
+// CARIMBO DE TEMPO DOS CERTIFICADOS
+// Solicita o token RFC 3161 à TSA e grava em signed_contents.tsa_*
+// =====================================================
+//
+// Configuração (secrets da função):
+//   TSA_URL  URL da TSA (padrão: FreeTSA). Use "mock" para a TSA local
+//            em memória (_shared/mock-tsa.ts) em desenvolvimento/testes.
+//
+// Usado pela Edge Function timestamp-content (assinatura pelo app) e pela
+// assinatura por chave de API (sign-content/api-signing.ts).
+// =====================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { buildTimeStampRequest, parseTimeStampResponse, toHex } from './rfc3161.ts';
+import { createMockTsa } from './mock-tsa.ts';
+
+const DEFAULT_TSA_URL = 'https://freetsa.org/tsr';
+const TSA_TIMEOUT_MS = 10 * 1000;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Colunas tsa_* gravadas em signed_contents
+ */
+export interface ContentTimestamp {
+  tsa_token: string;
+  tsa_url: string;
+  tsa_name: string | null;
+  tsa_serial: string;
+  tsa_gen_time: string;
+}
+
+let mockTsa: ReturnType<typeof createMockTsa> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function resolveTsaUrl(): string {
+  return Deno.env.get('TSA_URL') || DEFAULT_TSA_URL;
+}
+
+async function postToTsa(tsaUrl: string, request: Uint8Array): Promise<Uint8Array> {
+  if (tsaUrl === 'mock') {
+    console.warn('⚠️ [timestamping] Usando TSA mock em memória');
+    mockTsa ??= createMockTsa();
+    return (await mockTsa).respond(request);
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TSA_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(tsaUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/timestamp-query',
+        'Accept': 'application/timestamp-reply',
+      },
+      body: request,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`TSA respondeu HTTP ${response.status}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * ⏱️ Obtém um carimbo RFC 3161 sobre o content_hash (SHA-256 hex)
+ */
+export async function requestTimestamp(contentHash: string): Promise<ContentTimestamp> {
+  if (!SHA256_PATTERN.test(contentHash)) {
+    throw new Error('content_hash não é um SHA-256 hex');
+  }
+
+  const tsaUrl = resolveTsaUrl();
+  const nonce = crypto.getRandomValues(new Uint8Array(8));
+  nonce[0] &= 0x7f;
+
+  const reply = parseTimeStampResponse(await postToTsa(tsaUrl, buildTimeStampRequest(contentHash, nonce)));
+
+  if (!reply.token || !reply.info) {
+    throw new Error(`TSA recusou o pedido (status ${reply.status}${reply.statusText ? `: ${reply.statusText}` : ''})`);
+  }
+
+  // O token precisa carimbar exatamente este hash, com o nonce enviado
+  if (reply.info.hashedMessage !== contentHash) {
+    throw new Error('O carimbo da TSA não corresponde ao hash enviado');
+  }
+  if (reply.info.nonce !== null && reply.info.nonce !== toHex(nonce).replace(/^(00)+(?=.)/, '')) {
+    throw new Error('Nonce do carimbo não confere');
+  }
+
+  return {
+    tsa_token: toBase64(reply.token),
+    tsa_url: tsaUrl === 'mock' ? 'mock' : tsaUrl,
+    tsa_name: reply.info.tsaName,
+    tsa_serial: reply.info.serialNumber,
+    tsa_gen_time: reply.info.genTime,
+  };
+}
+
+/**
+ * ⏱️ Carimba um certificado e grava o token no registro
+ * (service_role: o trigger protect_content_timestamp bloqueia os clientes)
+ */
+export async function timestampSignedContent(
+  supabaseAdmin: SupabaseClient,
+  contentId: string,
+  contentHash: string
+): Promise<ContentTimestamp> {
+  const timestamp = await requestTimestamp(contentHash);
+
+  const { error } = await supabaseAdmin
+    .from('signed_contents')
+    .update(timestamp)
+    .eq('id', contentId)
+    .is('tsa_token', null);
+
+  if (error) {
+    throw new Error(`Erro ao gravar carimbo: ${error.message}`);
+  }
+
+  console.log('⏱️ [timestamping] Carimbo gravado:', contentId, timestamp.tsa_serial, timestamp.tsa_gen_time);
+  return timestamp;
+}
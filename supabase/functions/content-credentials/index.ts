@@ -0,0 +1,208 @@
+// =====================================================
+// EDGE FUNCTION: content-credentials
+// Emissão de credenciais de conteúdo (estilo C2PA) assinadas
+// com a chave do criador do certificado
+// =====================================================
+//
+// Entrada: certificado + SHA-256 dos bytes do arquivo baixado (sem o
+// manifesto). Os dados do certificado vêm do banco — nunca do cliente.
+// Apenas o dono do certificado (JWT do chamador) pode emitir credenciais.
+// O claim referencia o hash de cada assertion e é assinado com a chave
+// que assinou o certificado (recusado se a chave estiver revogada), com o
+// prefixo CLAIM_SIGNING_CONTEXT para não servir como assinatura de outro
+// tipo de documento.
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { generateHash, signHash } from '../sign-content/crypto.ts';
+import { recoverPrivateKey, type KeyPairSecretRow } from '../_shared/key-wrapping.ts';
+
+const CONTENT_CREDENTIALS_VERSION = 'veroid-c2pa/2';
+const CLAIM_SIGNING_CONTEXT = 'veroid-c2pa-claim-v1\n';
+const CLAIM_GENERATOR = 'VeroID Content Credentials/1.0';
+const PUBLIC_BASE_URL = 'https://www.veroid.com.br';
+const SUPPORTED_FORMATS = ['jpeg', 'png', 'pdf'];
+
+interface ContentCredentialsRequest {
+  certificateId: string;
+  assetHash: string;
+  assetLength: number;
+  format: string;
+  mimeType?: string;
+}
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * JSON canônico (mesmo algoritmo de canonicalizeJson no frontend)
+ */
+function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalizeJson(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalizeJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    const body: ContentCredentialsRequest = await req.json();
+
+    if (!body.certificateId || !/^[0-9a-f]{64}$/.test(body.assetHash || '')) {
+      return jsonResponse({ success: false, error: 'certificateId e assetHash (SHA-256 hex) são obrigatórios.' }, 400);
+    }
+    if (!SUPPORTED_FORMATS.includes(body.format) || !Number.isInteger(body.assetLength) || body.assetLength <= 0) {
+      return jsonResponse({ success: false, error: 'Formato ou tamanho do arquivo inválido.' }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    // 1. Certificado (fonte de verdade: banco)
+    const { data: content, error: contentError } = await supabaseAdmin
+      .from('signed_contents')
+      .select('id, user_id, verification_code, creator_name, created_at, content_hash, signature, public_key, key_id')
+      .eq('id', body.certificateId)
+      .maybeSingle();
+
+    if (contentError || !content) {
+      return jsonResponse({ success: false, error: 'Certificado não encontrado.' }, 404);
+    }
+    if (content.user_id !== user.id) {
+      return jsonResponse({ success: false, error: 'Apenas o criador pode emitir credenciais deste certificado.' }, 403);
+    }
+
+    // 2. Chave que assinou o certificado
+    let keyQuery = supabaseAdmin
+      .from('key_pairs')
+      .select('id, user_id, public_key, status, encrypted_private_key, private_key, wrapped_dek, key_salt, key_version')
+      .eq('user_id', content.user_id);
+
+    keyQuery = content.key_id
+      ? keyQuery.eq('id', content.key_id)
+      : keyQuery.eq('public_key', content.public_key);
+
+    const { data: keyRow, error: keyError } = await keyQuery.limit(1).maybeSingle();
+    if (keyError || !keyRow) {
+      return jsonResponse({ success: false, error: 'Chave do criador não encontrada.' }, 404);
+    }
+    if (keyRow.status === 'revoked') {
+      return jsonResponse({ success: false, error: 'A chave deste certificado foi revogada.' }, 409);
+    }
+
+    // 3. Assertions
+    const now = new Date().toISOString();
+    const assertions = {
+      'veroid.certificate': {
+        certificateId: content.id,
+        verificationCode: content.verification_code,
+        creatorName: content.creator_name,
+        createdAt: content.created_at,
+        contentHash: content.content_hash,
+        signature: content.signature,
+        publicKey: content.public_key,
+        keyId: content.key_id ?? null,
+        verifyUrl: `${PUBLIC_BASE_URL}/verify?code=${encodeURIComponent(content.verification_code)}`,
+      },
+      'c2pa.hash.data': {
+        alg: 'sha256',
+        hash: body.assetHash,
+        length: body.assetLength,
+        format: body.format,
+      },
+      'c2pa.actions': {
+        actions: [
+          { action: 'c2pa.watermarked', when: now, softwareAgent: CLAIM_GENERATOR },
+        ],
+      },
+    };
+
+    // 4. Claim (referencia o hash de cada assertion) + assinatura
+    const claim = {
+      version: CONTENT_CREDENTIALS_VERSION,
+      claimGenerator: CLAIM_GENERATOR,
+      instanceId: `xmp:iid:${crypto.randomUUID()}`,
+      format: body.mimeType || body.format,
+      createdAt: now,
+      assertions: await Promise.all(
+        Object.entries(assertions).map(async ([label, value]) => ({
+          label,
+          hash: await generateHash(canonicalizeJson(value)),
+        }))
+      ),
+    };
+
+    const { privateKey } = await recoverPrivateKey(keyRow as KeyPairSecretRow);
+    const claimHash = await generateHash(canonicalizeJson(claim));
+    const signatureValue = await signHash(`${CLAIM_SIGNING_CONTEXT}${claimHash}`, privateKey);
+
+    console.log('✅ [content-credentials] Manifesto emitido:', {
+      certificateId: content.id,
+      format: body.format,
+    });
+
+    return jsonResponse({
+      success: true,
+      manifest: {
+        label: `urn:uuid:${crypto.randomUUID()}`,
+        claim,
+        assertions,
+        signature: {
+          alg: 'ES256',
+          keyId: keyRow.id,
+          publicKey: keyRow.public_key,
+          value: signatureValue,
+        },
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ [content-credentials] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
@@ -0,0 +1,180 @@
+// =====================================================
+// EDGE FUNCTION: key-vault
+// Proteção das chaves privadas com envelope encryption
+// =====================================================
+//
+// Ações:
+//   wrap   → protege uma chave privada recém-gerada (retorna os campos
+//            a persistir em key_pairs; a chave mestra nunca sai do servidor)
+//   unwrap → devolve a chave privada do próprio usuário autenticado
+//            (re-protege automaticamente registros em formato legado)
+//   rewrap → (service_role) migra em lote os registros legados para v2
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  KEY_WRAPPING_VERSION,
+  recoverPrivateKey,
+  wrapPrivateKey,
+  type KeyPairSecretRow,
+} from '../_shared/key-wrapping.ts';
+
+type KeyVaultAction = 'wrap' | 'unwrap' | 'rewrap';
+
+interface KeyVaultRequest {
+  action: KeyVaultAction;
+  keyId?: string;
+  privateKey?: string;
+  batchSize?: number;
+}
+
+const SECRET_COLUMNS = 'id, user_id, encrypted_private_key, private_key, wrapped_dek, key_salt, key_version';
+const DEFAULT_REWRAP_BATCH_SIZE = 100;
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false },
+    });
+
+    const body: KeyVaultRequest = await req.json();
+
+    // =====================================================
+    // REWRAP: migração em lote (somente service_role)
+    // =====================================================
+    if (body.action === 'rewrap') {
+      if (token !== supabaseServiceKey) {
+        return jsonResponse({ success: false, error: 'Ação restrita ao service_role.' }, 403);
+      }
+
+      const batchSize = Math.min(Math.max(body.batchSize ?? DEFAULT_REWRAP_BATCH_SIZE, 1), 1000);
+      const { data: rows, error } = await supabaseAdmin
+        .from('key_pairs')
+        .select(SECRET_COLUMNS)
+        .or(`key_version.is.null,key_version.lt.${KEY_WRAPPING_VERSION},wrapped_dek.is.null`)
+        .limit(batchSize);
+
+      if (error) {
+        throw new Error(`Erro ao buscar chaves legadas: ${error.message}`);
+      }
+
+      const failed: string[] = [];
+      let migrated = 0;
+
+      for (const row of (rows || []) as KeyPairSecretRow[]) {
+        try {
+          const { privateKey } = await recoverPrivateKey(row);
+          const wrapped = await wrapPrivateKey(privateKey, row.user_id, row.id);
+          const { error: updateError } = await supabaseAdmin
+            .from('key_pairs')
+            .update({ ...wrapped, private_key: null })
+            .eq('id', row.id);
+
+          if (updateError) throw updateError;
+          migrated++;
+        } catch (rewrapError) {
+          console.error('❌ [key-vault] Falha ao re-proteger chave:', row.id, rewrapError);
+          failed.push(row.id);
+        }
+      }
+
+      console.log(`✅ [key-vault] Rewrap: ${migrated} migradas, ${failed.length} falhas`);
+      return jsonResponse({
+        success: failed.length === 0,
+        migrated,
+        failed,
+        hasMore: (rows?.length || 0) === batchSize,
+      });
+    }
+
+    // =====================================================
+    // WRAP / UNWRAP: usuário autenticado
+    // =====================================================
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    if (body.action === 'wrap') {
+      if (!body.keyId || !body.privateKey) {
+        return jsonResponse({ success: false, error: 'keyId e privateKey são obrigatórios.' }, 400);
+      }
+
+      const wrapped = await wrapPrivateKey(body.privateKey, user.id, body.keyId);
+      return jsonResponse({ success: true, wrapped });
+    }
+
+    if (body.action === 'unwrap') {
+      let query = supabaseAdmin
+        .from('key_pairs')
+        .select(SECRET_COLUMNS)
+        .eq('user_id', user.id);
+
+      query = body.keyId
+        ? query.eq('id', body.keyId)
+        : query.eq('status', 'active').order('created_at', { ascending: false }).limit(1);
+
+      const { data: row, error } = await query.maybeSingle();
+      if (error || !row) {
+        return jsonResponse({ success: false, error: 'Chave não encontrada.' }, 404);
+      }
+
+      const { privateKey, needsRewrap } = await recoverPrivateKey(row as KeyPairSecretRow);
+
+      // 🔄 Migração sob demanda do registro legado
+      if (needsRewrap) {
+        const wrapped = await wrapPrivateKey(privateKey, row.user_id, row.id);
+        const { error: updateError } = await supabaseAdmin
+          .from('key_pairs')
+          .update({ ...wrapped, private_key: null })
+          .eq('id', row.id);
+
+        if (updateError) {
+          console.warn('⚠️ [key-vault] Não foi possível re-proteger chave legada:', updateError);
+        } else {
+          console.log('✅ [key-vault] Chave legada re-protegida com envelope v2:', row.id);
+        }
+      }
+
+      return jsonResponse({ success: true, keyId: row.id, privateKey });
+    }
+
+    return jsonResponse({ success: false, error: 'Ação inválida.' }, 400);
+
+  } catch (error) {
+    console.error('❌ [key-vault] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
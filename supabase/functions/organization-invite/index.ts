@@ -0,0 +1,164 @@
+// =====================================================
+// EDGE FUNCTION: organization-invite
+// Convite por e-mail para uma organização
+// =====================================================
+//
+// POST { organizationId, email, role }  (JWT do owner/admin)
+//   1. Cria o convite com invite_organization_member (mesmas regras de
+//      papel da RPC, executada com o token do usuário)
+//   2. Envia o e-mail via Resend com o link para /organizations
+//
+// Sem RESEND_API_KEY o convite é criado do mesmo jeito (emailSent: false):
+// o convidado o encontra ao entrar com o mesmo e-mail.
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+interface InviteRequest {
+  organizationId: string;
+  email: string;
+  role: 'admin' | 'signer' | 'viewer';
+}
+
+interface InviteResult {
+  invitation_id: string;
+  email: string;
+  role: string;
+  organization_name: string;
+  inviter_name: string | null;
+}
+
+const APP_URL = 'https://www.veroid.com.br';
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'Administrador',
+  signer: 'Signatário',
+  viewer: 'Leitor',
+};
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+async function sendInviteEmail(invite: InviteResult): Promise<boolean> {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  if (!resendApiKey) {
+    console.warn('⚠️ [organization-invite] RESEND_API_KEY não configurada; convite criado sem e-mail');
+    return false;
+  }
+
+  const organization = escapeHtml(invite.organization_name);
+  const inviter = escapeHtml(invite.inviter_name || 'Um administrador');
+  const role = ROLE_LABELS[invite.role] || invite.role;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #111;">
+      <h2 style="color: #2563eb;">🏢 Convite para ${organization}</h2>
+      <p>${inviter} convidou você para a organização <strong>${organization}</strong> no Vero iD
+      com o papel de <strong>${role}</strong>.</p>
+      <p>Entre (ou crie sua conta) com este e-mail e aceite o convite em Organizações:</p>
+      <p style="margin: 24px 0;">
+        <a href="${APP_URL}/organizations"
+           style="background: #2563eb; color: #fff; padding: 12px 20px; border-radius: 8px; text-decoration: none;">
+          Ver convite
+        </a>
+      </p>
+      <p style="color: #666; font-size: 12px;">O convite expira em 14 dias. Se você não esperava este e-mail, ignore-o.</p>
+    </div>
+  `;
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: 'Vero iD <contato@veroid.com.br>',
+      to: [invite.email],
+      subject: `🏢 Convite para ${invite.organization_name} no Vero iD`,
+      html,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('❌ [organization-invite] Erro do Resend:', await response.text());
+    return false;
+  }
+
+  return true;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    // Cliente com o token do usuário: auth.uid() nas regras da RPC
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: { headers: { Authorization: `Bearer ${token}` } },
+        auth: { persistSession: false },
+      }
+    );
+
+    const body: InviteRequest = await req.json();
+    if (!body.organizationId || !body.email || !body.role) {
+      return jsonResponse({ success: false, error: 'organizationId, email e role são obrigatórios.' }, 400);
+    }
+
+    const { data, error } = await supabase.rpc('invite_organization_member', {
+      p_organization_id: body.organizationId,
+      p_email: body.email,
+      p_role: body.role,
+    });
+
+    if (error || !data) {
+      console.warn('⚠️ [organization-invite] Convite recusado:', error?.message);
+      return jsonResponse({ success: false, error: error?.message || 'Não foi possível criar o convite.' }, 400);
+    }
+
+    const invite = data as InviteResult;
+    console.log('✉️ [organization-invite] Convite criado:', invite.invitation_id, 'para', body.organizationId);
+
+    const emailSent = await sendInviteEmail(invite);
+
+    return jsonResponse({ success: true, invitationId: invite.invitation_id, emailSent });
+  } catch (error) {
+    console.error('❌ [organization-invite] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
@@ -0,0 +1,172 @@
+// =====================================================
+// EDGE FUNCTION: promote-upload
+// Cópia temp-uploads → signed-documents de um arquivo verificado
+// =====================================================
+//
+// POST { tempPath, signedPath }  (JWT do dono do arquivo)
+//   1. claim_upload_promotion: exige scan 'clean' e devolve o SHA-256
+//      verificado (uso único por arquivo)
+//   2. Baixa o arquivo e confere o hash: bytes diferentes dos verificados
+//      (arquivo substituído depois do scan) são recusados
+//   3. Confere a cota do plano e grava em signed-documents com a
+//      service_role (o cliente não tem permissão de escrita no bucket)
+//   4. consume_upload_promotion e remove o arquivo temporário
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+interface PromoteRequest {
+  tempPath?: string;
+  signedPath?: string;
+}
+
+const TEMP_BUCKET = 'temp-uploads';
+const SIGNED_BUCKET = 'signed-documents';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isOwnPath(path: string, userId: string): boolean {
+  return path.startsWith(`${userId}/`) && !path.includes('..');
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    const body: PromoteRequest = await req.json().catch(() => ({}));
+    const tempPath = typeof body.tempPath === 'string' ? body.tempPath : '';
+    const signedPath = typeof body.signedPath === 'string' ? body.signedPath : '';
+    if (!isOwnPath(tempPath, user.id) || !isOwnPath(signedPath, user.id)) {
+      return jsonResponse({ success: false, error: 'Path inválido.' }, 400);
+    }
+
+    // 1. Reserva (exige scan clean) e hash verificado
+    const { data: expectedHash, error: claimError } = await supabaseAdmin.rpc('claim_upload_promotion', {
+      p_user_id: user.id,
+      p_temp_path: tempPath,
+      p_signed_path: signedPath,
+    });
+    if (claimError || !expectedHash) {
+      console.warn('🚫 [promote-upload] Promoção recusada:', tempPath, claimError?.message);
+      return jsonResponse({ success: false, error: claimError?.message || 'Arquivo não liberado.' }, 403);
+    }
+
+    // 2. Os bytes copiados precisam ser os verificados
+    const { data: blob, error: downloadError } = await supabaseAdmin.storage
+      .from(TEMP_BUCKET)
+      .download(tempPath);
+    if (downloadError || !blob) {
+      return jsonResponse({
+        success: false,
+        error: `Erro ao baixar arquivo: ${downloadError?.message || 'arquivo vazio'}`,
+      }, 404);
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (await sha256Hex(bytes) !== expectedHash) {
+      console.warn('🚨 [promote-upload] Hash diferente do verificado:', tempPath);
+      return jsonResponse({
+        success: false,
+        error: 'O arquivo foi alterado depois da verificação de segurança. Envie o arquivo novamente.',
+      }, 409);
+    }
+
+    // 3. Cota do plano (o trigger enforce_storage_quota também recusa)
+    const supabaseUser = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: { headers: { Authorization: `Bearer ${token}` } },
+        auth: { persistSession: false },
+      }
+    );
+    const { data: quota } = await supabaseUser.rpc('check_storage_quota', {
+      p_bytes: bytes.length,
+      p_bucket: SIGNED_BUCKET,
+    });
+    if (quota && !quota.allowed && quota.quota_bytes !== null) {
+      return jsonResponse({
+        success: false,
+        error: `Cota de armazenamento excedida: ${formatMegabytes(Number(quota.used_bytes))} de ` +
+          `${formatMegabytes(Number(quota.quota_bytes))} em uso e o arquivo tem ${formatMegabytes(bytes.length)}.`,
+      }, 413);
+    }
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(SIGNED_BUCKET)
+      .upload(signedPath, bytes, {
+        cacheControl: '3600',
+        contentType: blob.type || 'application/octet-stream',
+        upsert: false,
+      });
+    if (uploadError) {
+      console.error('❌ [promote-upload] Erro ao gravar em signed-documents:', uploadError);
+      return jsonResponse({ success: false, error: `Erro ao fazer upload: ${uploadError.message}` }, 500);
+    }
+
+    // 4. Uso único
+    const { error: consumeError } = await supabaseAdmin.rpc('consume_upload_promotion', {
+      p_signed_path: signedPath,
+    });
+    if (consumeError) {
+      console.error('❌ [promote-upload] consume_upload_promotion falhou:', consumeError);
+    }
+
+    const { error: removeError } = await supabaseAdmin.storage.from(TEMP_BUCKET).remove([tempPath]);
+    if (removeError) {
+      console.warn('⚠️ [promote-upload] Erro ao remover arquivo temporário (não crítico):', removeError);
+    }
+
+    console.log(`✅ [promote-upload] ${tempPath} → ${signedPath} (${bytes.length} bytes)`);
+    return jsonResponse({ success: true, path: signedPath, fileSize: bytes.length });
+  } catch (error) {
+    console.error('❌ [promote-upload] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
@@ -0,0 +1,371 @@
+// =====================================================
+// EDGE FUNCTION: public-api
+// API REST pública de verificação para plataformas parceiras
+// =====================================================
+//
+// Rotas (prefixo /functions/v1/public-api):
+//   GET  /v1/certificates/:code              → certificado pelo código
+//   POST /v1/verify                          → verifica hash, texto ou arquivo
+//   GET  /v1/creators/:id/certificates       → certificados de um criador
+//                                              (?limit=1..100&cursor=...)
+//
+// Autenticação: header `X-API-Key: vid_live_...` (ou `Authorization: Bearer`).
+// Cada requisição passa por consume_api_request(): rate limit por chave e
+// cota mensal do plano. Respostas: `{ data, meta }` ou `{ error: { code, message } }`.
+//
+// Deploy sem verificação de JWT (ver config.toml).
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { generateHash, verifyHashSignature } from '../sign-content/crypto.ts';
+import { consumeApiRequest, describeUsageDenial, extractApiKey, usageHeaders } from '../_shared/api-keys.ts';
+
+const API_VERSION = 'v1';
+const PUBLIC_BASE_URL = 'https://www.veroid.com.br';
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+const CERTIFICATE_COLUMNS =
+  'id, user_id, verification_code, creator_name, created_at, content_hash, signature, public_key, key_id, ' +
+  'file_name, mime_type, file_size, file_hash, verification_count, ' +
+  'revoked_at, revocation_reason, revocation_note, disputed_at, dispute_reason';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-ratelimit-limit, x-ratelimit-remaining, x-quota-limit, x-quota-remaining, retry-after',
+};
+
+type RouteName = 'certificate' | 'verify' | 'creatorCertificates';
+
+interface MatchedRoute {
+  name: RouteName;
+  endpoint: string;
+  params: Record<string, string>;
+}
+
+interface CertificateRow {
+  id: string;
+  user_id: string;
+  verification_code: string;
+  creator_name: string;
+  created_at: string;
+  content_hash: string;
+  signature: string;
+  public_key: string;
+  key_id: string | null;
+  file_name: string | null;
+  mime_type: string | null;
+  file_size: number | null;
+  file_hash: string | null;
+  verification_count: number | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  revocation_note: string | null;
+  disputed_at: string | null;
+  dispute_reason: string | null;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, code: string, message: string, headers: Record<string, string> = {}): Response {
+  return jsonResponse({ error: { code, message } }, status, headers);
+}
+
+/**
+ * Resolve a rota a partir do path (ignora o prefixo da função)
+ */
+function matchRoute(method: string, pathname: string): MatchedRoute | null {
+  const path = pathname.replace(/^.*?\/public-api/, '').replace(/\/+$/, '');
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments[0] !== API_VERSION) return null;
+
+  if (method === 'GET' && segments.length === 3 && segments[1] === 'certificates') {
+    return { name: 'certificate', endpoint: 'GET /v1/certificates/:code', params: { code: segments[2] } };
+  }
+  if (method === 'POST' && segments.length === 2 && segments[1] === 'verify') {
+    return { name: 'verify', endpoint: 'POST /v1/verify', params: {} };
+  }
+  if (method === 'GET' && segments.length === 4 && segments[1] === 'creators' && segments[3] === 'certificates') {
+    return { name: 'creatorCertificates', endpoint: 'GET /v1/creators/:id/certificates', params: { id: segments[2] } };
+  }
+  return null;
+}
+
+/**
+ * Formato estável de certificado da API v1
+ */
+function serializeCertificate(row: CertificateRow, keyStatus: string | null) {
+  return {
+    id: row.id,
+    verificationCode: row.verification_code,
+    createdAt: row.created_at,
+    creator: {
+      id: row.user_id,
+      name: row.creator_name,
+    },
+    content: {
+      hash: row.content_hash,
+      hashAlgorithm: 'SHA-256',
+    },
+    signature: {
+      value: row.signature,
+      format: row.signature?.startsWith('VID-SIG-v2:') ? 'VID-SIG-v2' : 'legacy',
+      algorithm: row.signature?.startsWith('VID-SIG-v2:') ? 'ECDSA-P256-SHA256' : null,
+      publicKey: row.public_key,
+      keyId: row.key_id,
+      keyStatus,
+    },
+    file: row.file_name
+      ? {
+          name: row.file_name,
+          mimeType: row.mime_type,
+          size: row.file_size,
+          sha256: row.file_hash,
+        }
+      : null,
+    status: row.revoked_at ? 'revoked' : row.disputed_at ? 'disputed' : 'active',
+    revocation: row.revoked_at
+      ? { revokedAt: row.revoked_at, reason: row.revocation_reason, note: row.revocation_note }
+      : null,
+    dispute: row.disputed_at && !row.revoked_at
+      ? { disputedAt: row.disputed_at, reason: row.dispute_reason }
+      : null,
+    verificationCount: row.verification_count || 0,
+    verifyUrl: `${PUBLIC_BASE_URL}/verify?code=${encodeURIComponent(row.verification_code)}`,
+  };
+}
+
+/**
+ * Status (active/rotated/revoked) das chaves usadas pelos certificados
+ */
+async function loadKeyStatuses(supabase: SupabaseClient, rows: CertificateRow[]): Promise<Map<string, string>> {
+  const keyIds = [...new Set(rows.map(row => row.key_id).filter((id): id is string => !!id))];
+  if (keyIds.length === 0) return new Map();
+
+  const { data } = await supabase.from('key_pairs').select('id, status').in('id', keyIds);
+  return new Map((data || []).map((key: { id: string; status: string }) => [key.id, key.status]));
+}
+
+async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function encodeCursor(row: CertificateRow): string {
+  return btoa(`${row.created_at}|${row.id}`);
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const [createdAt, id] = atob(cursor).split('|');
+    return createdAt && UUID_PATTERN.test(id) && !isNaN(Date.parse(createdAt)) ? { createdAt, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// =====================================================
+// HANDLERS
+// =====================================================
+
+async function handleGetCertificate(supabase: SupabaseClient, code: string, headers: Record<string, string>) {
+  const { data: row } = await supabase
+    .from('signed_contents')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('verification_code', code.toUpperCase())
+    .maybeSingle();
+
+  if (!row) {
+    return errorResponse(404, 'certificate_not_found', 'Certificado não encontrado.', headers);
+  }
+
+  await supabase.rpc('increment_verification_count', { content_id: row.id });
+
+  const keyStatuses = await loadKeyStatuses(supabase, [row]);
+  return jsonResponse({
+    data: serializeCertificate(row, row.key_id ? keyStatuses.get(row.key_id) ?? null : null),
+  }, 200, headers);
+}
+
+async function handleVerify(supabase: SupabaseClient, req: Request, headers: Record<string, string>) {
+  let hash: string | null = null;
+  let code: string | null = null;
+
+  const contentType = req.headers.get('Content-Type') || '';
+  if (contentType.includes('multipart/form-data')) {
+    const form = await req.formData();
+    const file = form.get('file');
+    code = (form.get('code') as string | null) || null;
+
+    if (!(file instanceof File)) {
+      return errorResponse(400, 'invalid_request', 'Envie o arquivo no campo "file".', headers);
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return errorResponse(413, 'file_too_large', `Arquivo maior que ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`, headers);
+    }
+    hash = await sha256Hex(await file.arrayBuffer());
+  } else {
+    const body = await req.json().catch(() => null);
+    code = body?.code || null;
+
+    if (typeof body?.text === 'string') {
+      hash = await generateHash(body.text);
+    } else if (typeof body?.hash === 'string') {
+      hash = body.hash.toLowerCase();
+    }
+  }
+
+  if (!hash || !SHA256_PATTERN.test(hash)) {
+    return errorResponse(400, 'invalid_request', 'Informe "hash" (SHA-256 hex), "text" ou um arquivo em "file".', headers);
+  }
+
+  let query = supabase
+    .from('signed_contents')
+    .select(CERTIFICATE_COLUMNS)
+    .or(`file_hash.eq.${hash},content_hash.eq.${hash}`)
+    .order('created_at', { ascending: true })
+    .limit(10);
+
+  if (code) {
+    query = query.eq('verification_code', String(code).toUpperCase());
+  }
+
+  const { data: rows, error } = await query;
+  if (error) {
+    throw new Error(`Erro ao buscar certificados: ${error.message}`);
+  }
+
+  const keyStatuses = await loadKeyStatuses(supabase, rows || []);
+  const matches = await Promise.all((rows || []).map(async (row: CertificateRow) => {
+    const keyStatus = row.key_id ? keyStatuses.get(row.key_id) ?? null : null;
+    return {
+      matchedOn: row.file_hash === hash ? 'file' : 'content',
+      signatureStatus: await verifyHashSignature(row.content_hash, row.signature, row.public_key),
+      certificate: serializeCertificate(row, keyStatus),
+    };
+  }));
+
+  return jsonResponse({
+    data: {
+      hash,
+      verified: matches.some(match =>
+        match.signatureStatus === 'valid'
+          && match.certificate.signature.keyStatus !== 'revoked'
+          && match.certificate.status !== 'revoked'
+      ),
+      matches,
+    },
+  }, 200, headers);
+}
+
+async function handleCreatorCertificates(
+  supabase: SupabaseClient,
+  creatorId: string,
+  url: URL,
+  headers: Record<string, string>
+) {
+  if (!UUID_PATTERN.test(creatorId)) {
+    return errorResponse(400, 'invalid_request', 'ID de criador inválido.', headers);
+  }
+
+  const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cursorParam = url.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return errorResponse(400, 'invalid_cursor', 'Cursor inválido.', headers);
+  }
+
+  let query = supabase
+    .from('signed_contents')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('user_id', creatorId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (cursor) {
+    query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+  }
+
+  const { data: rows, error } = await query;
+  if (error) {
+    throw new Error(`Erro ao listar certificados: ${error.message}`);
+  }
+
+  const page = (rows || []).slice(0, limit) as CertificateRow[];
+  const keyStatuses = await loadKeyStatuses(supabase, page);
+
+  return jsonResponse({
+    data: page.map(row => serializeCertificate(row, row.key_id ? keyStatuses.get(row.key_id) ?? null : null)),
+    meta: {
+      limit,
+      nextCursor: (rows?.length || 0) > limit ? encodeCursor(page[page.length - 1]) : null,
+    },
+  }, 200, headers);
+}
+
+// =====================================================
+// SERVIDOR
+// =====================================================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const route = matchRoute(req.method, url.pathname);
+  if (!route) {
+    return errorResponse(404, 'not_found', 'Rota não encontrada.');
+  }
+
+  try {
+    const apiKey = extractApiKey(req);
+    if (!apiKey) {
+      return errorResponse(401, 'missing_api_key', 'Informe a chave no header X-API-Key.');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    // 🔑 Chave + escopo + rate limit + cota (atômico)
+    const usage = await consumeApiRequest(supabase, apiKey, route.endpoint, 'verify');
+    const headers = usageHeaders(usage);
+
+    if (!usage.allowed) {
+      const denial = describeUsageDenial(usage, 'verify');
+      return errorResponse(denial.status, denial.code, denial.message, denial.headers);
+    }
+
+    console.log(`📡 [public-api] ${route.endpoint}`, { apiKeyId: usage.api_key_id });
+
+    switch (route.name) {
+      case 'certificate':
+        return await handleGetCertificate(supabase, route.params.code, headers);
+      case 'verify':
+        return await handleVerify(supabase, req, headers);
+      case 'creatorCertificates':
+        return await handleCreatorCertificates(supabase, route.params.id, url, headers);
+    }
+
+  } catch (error) {
+    console.error('❌ [public-api] Erro interno:', error);
+    return errorResponse(500, 'internal_error', 'Erro interno. Tente novamente.');
+  }
+});
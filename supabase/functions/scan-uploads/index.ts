@@ -0,0 +1,302 @@
+// =====================================================
+// EDGE FUNCTION: scan-uploads
+// Worker da fila de verificação de arquivos enviados ao temp-uploads
+// =====================================================
+//
+// Todo upload em temp-uploads entra em scan_jobs pelo trigger
+// enqueue_temp_upload_scan (migration 20261018_scan_jobs.sql). Esta função
+// consome a fila:
+//
+//   POST {}                (service_role, cron a cada minuto)
+//     → processa jobs até esgotar a fila ou o tempo da execução
+//   POST { path }          (usuário autenticado, logo após o upload)
+//     → processa o job do próprio arquivo, se estiver na fila, e devolve
+//       o status atual em file_scans
+//
+// Falhas transitórias voltam para a fila com backoff (fail_scan_job);
+// arquivos infectados são removidos do temp-uploads (quarentena).
+// O backend é escolhido em _shared/scanners.ts (VirusTotal, ClamAV ou mock).
+//
+// Secrets opcionais:
+//   SCAN_TIMEOUT_MS       tempo máximo de uma tentativa (padrão: 60s)
+//   SCAN_CACHE_DAYS       reaproveita o resultado do mesmo hash/scanner
+//                         (padrão: 7 dias; 0 desativa)
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createScanner, ScanError, Scanner, ScanVerdict } from '../_shared/scanners.ts';
+
+interface ScanJobRow {
+  id: string;
+  file_scan_id: string;
+  bucket_id: string;
+  object_path: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface ScanUploadsRequest {
+  path?: string;
+}
+
+interface JobOutcome {
+  path: string;
+  status: 'clean' | 'infected' | 'queued' | 'failed' | 'stale';
+  error?: string;
+}
+
+const SCAN_TIMEOUT_MS = Number(Deno.env.get('SCAN_TIMEOUT_MS') || 60 * 1000);
+const SCAN_CACHE_DAYS = Number(Deno.env.get('SCAN_CACHE_DAYS') ?? 7);
+// Tempo total de uma execução do worker (o limite da Edge Function é 150s)
+const WORKER_BUDGET_MS = 120 * 1000;
+const LEASE_MARGIN_SECONDS = 60;
+
+const FILE_SCAN_COLUMNS = 'file_path, scan_status, scanner, threat_name, threat_severity, error_message, scan_completed_at';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function claimJobs(
+  supabase: SupabaseClient,
+  limit: number,
+  objectPath: string | null = null
+): Promise<ScanJobRow[]> {
+  const { data, error } = await supabase.rpc('claim_scan_jobs', {
+    p_limit: limit,
+    p_lease_seconds: Math.ceil(SCAN_TIMEOUT_MS / 1000) + LEASE_MARGIN_SECONDS,
+    p_object_path: objectPath,
+  });
+
+  if (error) throw new Error(`claim_scan_jobs falhou: ${error.message}`);
+  return (data || []) as ScanJobRow[];
+}
+
+/**
+ * Resultado recente do mesmo arquivo (hash) no mesmo scanner
+ */
+async function findCachedVerdict(
+  supabase: SupabaseClient,
+  scanner: Scanner,
+  sha256: string,
+  fileScanId: string
+): Promise<ScanVerdict | null> {
+  if (!(SCAN_CACHE_DAYS > 0)) return null;
+
+  const since = new Date(Date.now() - SCAN_CACHE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data } = await supabase
+    .from('file_scans')
+    .select('id, scan_status, threat_name, threat_category, threat_severity, engines_detected, engines_total, virustotal_scan_id, virustotal_permalink')
+    .eq('file_hash_sha256', sha256)
+    .eq('scanner', scanner.name)
+    .in('scan_status', ['clean', 'infected'])
+    .neq('id', fileScanId)
+    .gte('scan_completed_at', since)
+    .order('scan_completed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  return {
+    status: data.scan_status,
+    scanner: scanner.name,
+    threat_name: data.threat_name,
+    threat_category: data.threat_category,
+    threat_severity: data.threat_severity,
+    engines_detected: data.engines_detected || 0,
+    engines_total: data.engines_total || 0,
+    scan_id: data.virustotal_scan_id,
+    permalink: data.virustotal_permalink,
+    raw: { cached_from: data.id },
+  };
+}
+
+async function scanWithTimeout(scanner: Scanner, bytes: Uint8Array, fileName: string, sha256: string): Promise<ScanVerdict> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SCAN_TIMEOUT_MS);
+
+  try {
+    return await Promise.race([
+      scanner.scan({ bytes, fileName, sha256, signal: controller.signal }),
+      new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => {
+          reject(new ScanError('Tempo limite da verificação excedido', 'timeout'));
+        }, { once: true });
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 🛡️ Processa um job já reservado (status running)
+ */
+async function processJob(supabase: SupabaseClient, scanner: Scanner, job: ScanJobRow): Promise<JobOutcome> {
+  console.log(`🔍 [scan-uploads] Verificando ${job.object_path} (tentativa ${job.attempts}/${job.max_attempts}) com ${scanner.name}`);
+
+  try {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from(job.bucket_id)
+      .download(job.object_path);
+
+    if (downloadError || !blob) {
+      const message = downloadError?.message || 'Arquivo vazio';
+      // Arquivo já promovido, removido pelo usuário ou pela limpeza de 24h
+      throw new ScanError(`Erro ao baixar arquivo: ${message}`, /not.?found/i.test(message) ? 'fatal' : 'retry');
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (bytes.length > scanner.maxFileSize) {
+      throw new ScanError(`Arquivo excede o limite do scanner ${scanner.name} (${bytes.length} bytes)`, 'fatal');
+    }
+
+    const sha256 = await sha256Hex(bytes);
+    const fileName = job.object_path.split('/').pop() || 'upload';
+
+    const cached = await findCachedVerdict(supabase, scanner, sha256, job.file_scan_id);
+    if (cached) {
+      console.log(`♻️ [scan-uploads] Reaproveitando resultado do hash ${sha256.slice(0, 12)}...`);
+    }
+    const verdict = cached ?? await scanWithTimeout(scanner, bytes, fileName, sha256);
+
+    const { data: applied, error: completeError } = await supabase.rpc('complete_scan_job', {
+      p_job_id: job.id,
+      p_verdict: { ...verdict, sha256, file_size: bytes.length },
+    });
+    if (completeError) throw new Error(`complete_scan_job falhou: ${completeError.message}`);
+
+    if (!applied) {
+      // O arquivo foi substituído durante o scan: o job já voltou para a fila
+      console.warn(`⚠️ [scan-uploads] Resultado descartado (job reenfileirado): ${job.object_path}`);
+      return { path: job.object_path, status: 'stale' };
+    }
+
+    if (verdict.status === 'infected') {
+      console.warn(`🚨 [scan-uploads] Ameaça detectada em ${job.object_path}: ${verdict.threat_name || 'desconhecida'}`);
+      const { error: removeError } = await supabase.storage.from(job.bucket_id).remove([job.object_path]);
+      if (removeError) {
+        console.error('❌ [scan-uploads] Erro ao remover arquivo infectado:', removeError);
+      }
+    } else {
+      console.log(`✅ [scan-uploads] Arquivo limpo: ${job.object_path}`);
+    }
+
+    return { path: job.object_path, status: verdict.status };
+  } catch (error) {
+    const kind = error instanceof ScanError ? error.kind : 'retry';
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ [scan-uploads] Falha (${kind}) em ${job.object_path}:`, message);
+
+    const { data: next, error: failError } = await supabase.rpc('fail_scan_job', {
+      p_job_id: job.id,
+      p_error: message,
+      p_kind: kind,
+    });
+    if (failError) {
+      // O lease vence e o job volta para a fila na próxima execução
+      console.error('❌ [scan-uploads] fail_scan_job falhou:', failError);
+    }
+
+    return { path: job.object_path, status: next === 'failed' ? 'failed' : 'queued', error: message };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    const body: ScanUploadsRequest = await req.json().catch(() => ({}));
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    let scanner: Scanner;
+    try {
+      scanner = createScanner();
+    } catch (error) {
+      // Sem scanner configurado os jobs ficam na fila (nada é liberado)
+      console.error('❌ [scan-uploads] Scanner não configurado:', error);
+      return jsonResponse({ success: false, error: 'Verificação de arquivos indisponível.' }, 503);
+    }
+
+    // ===== Cron (service_role): esvazia a fila =====
+    if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      const startedAt = Date.now();
+      const results: JobOutcome[] = [];
+
+      while (Date.now() - startedAt + SCAN_TIMEOUT_MS < WORKER_BUDGET_MS) {
+        const [job] = await claimJobs(supabaseAdmin, 1);
+        if (!job) break;
+        results.push(await processJob(supabaseAdmin, scanner, job));
+      }
+
+      console.log(`📊 [scan-uploads] ${results.length} job(s) processado(s) em ${Date.now() - startedAt}ms`);
+      return jsonResponse({ success: true, scanner: scanner.name, processed: results.length, results });
+    }
+
+    // ===== Usuário: o próprio upload =====
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    const path = typeof body.path === 'string' ? body.path : '';
+    if (!path || !path.startsWith(`${user.id}/`) || path.includes('..')) {
+      return jsonResponse({ success: false, error: 'Path inválido.' }, 400);
+    }
+
+    const [job] = await claimJobs(supabaseAdmin, 1, path);
+    if (job) {
+      await processJob(supabaseAdmin, scanner, job);
+    }
+
+    const { data: scan } = await supabaseAdmin
+      .from('file_scans')
+      .select(FILE_SCAN_COLUMNS)
+      .eq('file_path', path)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!scan) {
+      return jsonResponse({ success: false, error: 'Nenhuma verificação registrada para este arquivo.' }, 404);
+    }
+
+    return jsonResponse({ success: true, scan });
+  } catch (error) {
+    console.error('❌ [scan-uploads] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
@@ -0,0 +1,365 @@
+// =====================================================
+// ASSINATURA PROGRAMÁTICA (CHAVE DE API)
+// Fluxo da sign-content para integrações sem sessão de navegador
+// =====================================================
+//
+// Autenticação: `X-API-Key: vid_live_...` com o escopo "sign".
+// Entrada (uma assinatura por requisição):
+//   - multipart/form-data: `file` (até 25 MB) + campos opcionais
+//     `title`, `content`, `platforms` (separados por vírgula)
+//   - JSON: { hash | file: { hash, name, mimeType, size }, title?, content?, platforms? }
+//     (hash = SHA-256 hex do arquivo, calculado pelo cliente)
+//   - JSON só com `content` assina um texto
+//
+// O arquivo NÃO é armazenado: apenas o SHA-256 entra no texto assinado e
+// em signed_contents.file_hash (verificável depois via public-api /v1/verify).
+// O crédito é debitado ANTES de assinar (debit_signature, núcleo de
+// consume_signature) e devolvido com refund_signature se a assinatura falhar.
+// =====================================================
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { signContent, type SignedFileInfo } from './crypto.ts';
+import { recoverPrivateKey } from '../_shared/key-wrapping.ts';
+import { consumeApiRequest, describeUsageDenial, usageHeaders } from '../_shared/api-keys.ts';
+import { timestampSignedContent, type ContentTimestamp } from '../_shared/timestamping.ts';
+
+const API_ENDPOINT = 'POST /sign-content';
+const PUBLIC_BASE_URL = 'https://www.veroid.com.br';
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTENT_LENGTH = 10000;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+const SHORT_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * Requisição normalizada (multipart ou JSON)
+ */
+interface ApiSignInput {
+  title: string | null;
+  content: string | null;
+  platforms: string[];
+  file: SignedFileInfo | null;
+}
+
+export const apiCorsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'x-ratelimit-limit, x-ratelimit-remaining, x-quota-limit, x-quota-remaining, retry-after',
+};
+
+function jsonResponse(body: Record<string, unknown>, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...apiCorsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, code: string, error: string, headers: Record<string, string> = {}): Response {
+  return jsonResponse({ success: false, code, error }, status, headers);
+}
+
+function parsePlatforms(value: unknown): string[] {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(',') : [];
+  return list.map(item => String(item).trim()).filter(Boolean).slice(0, 20);
+}
+
+async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Lê arquivo/hash/texto da requisição
+ * @returns Entrada normalizada ou mensagem de erro
+ */
+async function parseInput(req: Request): Promise<ApiSignInput | { error: string; status: number }> {
+  const contentType = req.headers.get('Content-Type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await req.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return { error: 'Envie o arquivo no campo "file".', status: 400 };
+    }
+    if (file.size === 0 || file.size > MAX_UPLOAD_BYTES) {
+      return { error: `O arquivo deve ter entre 1 byte e ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`, status: 413 };
+    }
+
+    return {
+      title: (form.get('title') as string | null) || null,
+      content: (form.get('content') as string | null) || null,
+      platforms: parsePlatforms(form.get('platforms')),
+      file: {
+        fileName: file.name || null,
+        mimeType: file.type || null,
+        fileSize: file.size,
+        fileHash: await sha256Hex(await file.arrayBuffer()),
+      },
+    };
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return { error: 'Corpo JSON inválido.', status: 400 };
+  }
+
+  const hash = typeof body.hash === 'string' ? body.hash : body.file?.hash;
+  let file: SignedFileInfo | null = null;
+
+  if (hash !== undefined) {
+    const normalized = String(hash).toLowerCase();
+    if (!SHA256_PATTERN.test(normalized)) {
+      return { error: '"hash" deve ser o SHA-256 (hex) do arquivo.', status: 400 };
+    }
+    const size = Number(body.file?.size ?? body.fileSize);
+    file = {
+      fileName: body.file?.name ?? body.fileName ?? null,
+      mimeType: body.file?.mimeType ?? body.mimeType ?? null,
+      fileSize: Number.isInteger(size) && size > 0 ? size : null,
+      fileHash: normalized,
+    };
+  }
+
+  return {
+    title: typeof body.title === 'string' ? body.title : null,
+    content: typeof body.content === 'string' ? body.content : null,
+    platforms: parsePlatforms(body.platforms),
+    file,
+  };
+}
+
+/**
+ * Texto assinado (mesmo layout do formulário de assinatura)
+ */
+function buildSignedText(input: ApiSignInput): string {
+  return `
+Título: ${input.title || input.file?.fileName || 'Sem título'}
+Redes: ${input.platforms.join(', ')}
+${input.file?.fileName ? `Arquivo: ${input.file.fileName}` : ''}
+${input.file ? `SHA-256 do arquivo: ${input.file.fileHash}` : ''}
+
+Conteúdo:
+${input.content || ''}
+  `.trim();
+}
+
+/**
+ * URL pública do certificado (apenas o ID, como o QR Code)
+ */
+function buildCertificateUrl(id: string): string {
+  return `${PUBLIC_BASE_URL}/certificate?id=${id}`;
+}
+
+/**
+ * Cria o link curto /c/:code (retorna a URL longa se não conseguir)
+ */
+async function createShortUrl(supabase: SupabaseClient, longUrl: string): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const random = crypto.getRandomValues(new Uint8Array(6));
+    const shortCode = Array.from(random, b => SHORT_CODE_CHARS[b % SHORT_CODE_CHARS.length]).join('');
+
+    const { error } = await supabase
+      .from('short_urls')
+      .insert({ short_code: shortCode, long_url: longUrl, created_at: new Date().toISOString() });
+
+    if (!error) {
+      return `${PUBLIC_BASE_URL}/c/${shortCode}`;
+    }
+    console.warn('⚠️ [API] Falha ao criar link curto, tentando outro código:', error.message);
+  }
+  return longUrl;
+}
+
+/**
+ * Débito de uma autenticação (retorno de debit_signature)
+ */
+interface SignatureDebit {
+  success: boolean;
+  message: string;
+  signatures_remaining: number;
+  subscription_id: string | null;
+  source: 'plan' | 'credits' | null;
+}
+
+/**
+ * Devolve o crédito de uma assinatura que não foi emitida
+ */
+async function refundSignatureDebit(
+  supabase: SupabaseClient,
+  userId: string,
+  debit: SignatureDebit,
+  reference: string
+): Promise<void> {
+  const { error } = await supabase.rpc('refund_signature', {
+    p_user_id: userId,
+    p_subscription_id: debit.subscription_id,
+    p_source: debit.source,
+    p_reference: reference,
+  });
+
+  if (error) {
+    console.error('❌ [API] Erro ao devolver crédito (ajuste manual necessário):', { userId, reference, error: error.message });
+  } else {
+    console.log('↩️ [API] Crédito devolvido após falha na assinatura:', reference);
+  }
+}
+
+/**
+ * 🔑 Assinatura autenticada por chave de API (escopo "sign")
+ */
+export async function handleApiKeySigning(req: Request, apiKey: string): Promise<Response> {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { persistSession: false } }
+  );
+
+  // 1. Chave + escopo + rate limit + cota da API
+  const usage = await consumeApiRequest(supabase, apiKey, API_ENDPOINT, 'sign');
+  const headers = usageHeaders(usage);
+
+  if (!usage.allowed || !usage.user_id) {
+    const denial = describeUsageDenial(usage, 'sign');
+    return errorResponse(denial.status, denial.code, denial.message, denial.headers);
+  }
+
+  const userId = usage.user_id;
+  console.log('✅ [API] Chave de API validada:', { apiKeyId: usage.api_key_id });
+
+  // 2. Entrada
+  const input = await parseInput(req);
+  if ('error' in input) {
+    return errorResponse(input.status, 'invalid_request', input.error, headers);
+  }
+  if (!input.file && !input.content?.trim()) {
+    return errorResponse(400, 'invalid_request', 'Informe um arquivo ("file"), o "hash" do arquivo ou "content".', headers);
+  }
+  if ((input.title?.length || 0) > MAX_TITLE_LENGTH || (input.content?.length || 0) > MAX_CONTENT_LENGTH) {
+    return errorResponse(400, 'invalid_request', 'Título ou conteúdo muito longo.', headers);
+  }
+
+  // 3. Nome público do criador (nunca vem do cliente)
+  const { data: userRow } = await supabase
+    .from('users')
+    .select('nome_publico, nome_completo')
+    .eq('id', userId)
+    .maybeSingle();
+  const creatorName = userRow?.nome_publico || userRow?.nome_completo;
+
+  if (!creatorName) {
+    return errorResponse(404, 'creator_not_found', 'Perfil do criador não encontrado.', headers);
+  }
+
+  // 4. Chave ativa do criador
+  const { data: keyPairData, error: keyError } = await supabase
+    .from('key_pairs')
+    .select('id, user_id, public_key, encrypted_private_key, private_key, wrapped_dek, key_salt, key_version')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (keyError || !keyPairData) {
+    return errorResponse(404, 'signing_key_not_found', 'Chaves do usuário não encontradas.', headers);
+  }
+
+  // 5. Débito do crédito (antes de assinar: sem crédito, nada é emitido)
+  const debitReference = `api:${crypto.randomUUID()}`;
+  const { data: debitRows, error: debitError } = await supabase
+    .rpc('debit_signature', {
+      p_user_id: userId,
+      p_reference: debitReference,
+      p_reason: 'Autenticação via API',
+    });
+  const debit: SignatureDebit | null = Array.isArray(debitRows) ? debitRows[0] : debitRows;
+
+  if (debitError || !debit?.success) {
+    if (debitError) {
+      console.error('❌ [API] Erro ao debitar assinatura:', debitError.message);
+    }
+    return errorResponse(402, 'no_signatures_available',
+      'Sem assinaturas disponíveis no plano. Adquira pacotes avulsos ou faça upgrade.', headers);
+  }
+
+  // 6. Assinatura (falhou → devolve o crédito)
+  let signatureResult: Awaited<ReturnType<typeof signContent>>;
+  try {
+    const { privateKey } = await recoverPrivateKey(keyPairData);
+    signatureResult = await signContent(
+      buildSignedText(input),
+      privateKey,
+      keyPairData.public_key,
+      creatorName,
+      userId,
+      undefined,
+      input.platforms,
+      keyPairData.id,
+      input.file ?? undefined
+    );
+  } catch (signError) {
+    signatureResult = {
+      success: false,
+      error: signError instanceof Error ? signError.message : 'Erro desconhecido',
+    };
+  }
+
+  if (!signatureResult.success || !signatureResult.signedContent) {
+    console.error('❌ [API] Erro ao assinar conteúdo:', signatureResult.error);
+    await refundSignatureDebit(supabase, userId, debit, debitReference);
+    return errorResponse(500, 'signing_failed', signatureResult.error || 'Erro ao assinar conteúdo.', headers);
+  }
+
+  const signed = signatureResult.signedContent;
+  const signaturesRemaining = debit.signatures_remaining;
+
+  // 7.5 Carimbo de tempo RFC 3161 (não crítico: o certificado vale sem ele)
+  let timestamp: ContentTimestamp | null = null;
+  try {
+    timestamp = await timestampSignedContent(supabase, signed.id, signed.contentHash);
+  } catch (tsaError) {
+    console.warn('⚠️ [API] Carimbo de tempo indisponível:', tsaError);
+  }
+
+  // 8. Links públicos
+  const certificateUrl = buildCertificateUrl(signed.id);
+  const shortUrl = await createShortUrl(supabase, certificateUrl);
+
+  // 9. Audit log (não crítico)
+  try {
+    await supabase.from('audit_logs').insert({
+      user_id: userId,
+      action: 'SIGN_CONTENT_API',
+      details: {
+        content_id: signed.id,
+        verification_code: signed.verificationCode,
+        api_key_id: usage.api_key_id,
+        file_hash: input.file?.fileHash ?? null,
+        platforms: input.platforms,
+      },
+    });
+  } catch (auditError) {
+    console.warn('⚠️ [API] Erro ao registrar audit log:', auditError);
+  }
+
+  console.log('✅ [API] Conteúdo assinado via chave de API:', signed.verificationCode);
+
+  return jsonResponse({
+    success: true,
+    signedContent: {
+      ...signed,
+      fileHash: input.file?.fileHash ?? null,
+    },
+    verificationCode: signed.verificationCode,
+    certificateUrl,
+    shortUrl,
+    verifyUrl: `${PUBLIC_BASE_URL}/verify?code=${encodeURIComponent(signed.verificationCode)}`,
+    timestamp: timestamp
+      ? { tsa: timestamp.tsa_name, serial: timestamp.tsa_serial, genTime: timestamp.tsa_gen_time, token: timestamp.tsa_token }
+      : null,
+    signaturesRemaining,
+  }, 201, headers);
+}
@@ -1,10 +1,10 @@
 // =====================================================
 // MÓDULO DE CRIPTOGRAFIA BACKEND
 // Funções seguras para criptografia e assinatura
+// (proteção das chaves privadas: ../_shared/key-wrapping.ts)
 // =====================================================
 
-// Chave mestra para criptografia (deve estar em variável de ambiente)
-const MASTER_KEY = Deno.env.get('MASTER_ENCRYPTION_KEY') || 'default-key-change-in-production';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 
 /**
  * Gera hash SHA-256 de uma string
@@ -19,108 +19,113 @@ export async function generateHash(data: string): Promise<string> {
 }
 
 /**
- * Gera código de verificação curto (8 caracteres)
+ * Prefixo das assinaturas ECDSA versionadas (mesmo formato do frontend)
  */
-export function generateVerificationCode(signature: string, contentHash: string): string {
-  const combined = signature + contentHash;
-  const code = combined
-    .split('')
-    .filter((_, i) => i % 8 === 0)
-    .join('')
-    .toUpperCase()
-    .substring(0, 8);
-  return code;
-}
+export const SIGNATURE_PREFIX_V2 = 'VID-SIG-v2:';
 
 /**
- * Deriva chave de criptografia da chave mestra
+ * Assina o hash SHA-256 (hex) com ECDSA P-256 / SHA-256
+ * A chave privada está no formato `VID-PRIV-<base64(JWK JSON)>`
+ * Retorna `VID-SIG-v2:<base64(r||s)>`
  */
-async function deriveKey(masterKey: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(masterKey),
-    { name: 'PBKDF2' },
+export async function signHash(contentHash: string, privateKey: string): Promise<string> {
+  if (!privateKey.startsWith('VID-PRIV-')) {
+    throw new Error('Formato de chave privada inválido');
+  }
+
+  const jwk = JSON.parse(atob(privateKey.substring('VID-PRIV-'.length)));
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'ECDSA', namedCurve: 'P-256' },
     false,
-    ['deriveBits', 'deriveKey']
+    ['sign']
   );
 
-  return await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: encoder.encode('veroid-salt-v1'), // Salt fixo (em produção, usar salt único por chave)
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
+  const signatureBuffer = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: { name: 'SHA-256' } },
+    key,
+    new TextEncoder().encode(contentHash)
   );
+
+  return `${SIGNATURE_PREFIX_V2}${btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)))}`;
 }
 
 /**
- * Criptografa chave privada usando AES-256-GCM
+ * Verifica uma assinatura `VID-SIG-v2:` sobre o hash com a chave `VID-PUB-`
+ * Retorna 'legacy' para assinaturas no formato antigo (não verificáveis)
  */
-export async function encryptPrivateKey(privateKey: string): Promise<string> {
+export async function verifyHashSignature(
+  contentHash: string,
+  signature: string,
+  publicKey: string
+): Promise<'valid' | 'invalid' | 'legacy'> {
+  if (!signature?.startsWith(SIGNATURE_PREFIX_V2)) {
+    return 'legacy';
+  }
+
   try {
-    const encoder = new TextEncoder();
-    const key = await deriveKey(MASTER_KEY);
-    
-    // Gera IV aleatório
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    
-    // Criptografa
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
+    if (!publicKey.startsWith('VID-PUB-')) {
+      return 'invalid';
+    }
+
+    const jwk = JSON.parse(atob(publicKey.substring('VID-PUB-'.length)));
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    const signatureBytes = Uint8Array.from(
+      atob(signature.substring(SIGNATURE_PREFIX_V2.length)),
+      c => c.charCodeAt(0)
+    );
+
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: { name: 'SHA-256' } },
       key,
-      encoder.encode(privateKey)
+      signatureBytes,
+      new TextEncoder().encode(contentHash)
     );
-    
-    // Combina IV + dados criptografados
-    const combined = new Uint8Array(iv.length + encrypted.byteLength);
-    combined.set(iv, 0);
-    combined.set(new Uint8Array(encrypted), iv.length);
-    
-    // Converte para Base64
-    return btoa(String.fromCharCode(...combined));
-  } catch (error) {
-    console.error('❌ Erro ao criptografar chave privada:', error);
-    throw new Error('Falha na criptografia');
+    return valid ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
   }
 }
 
 /**
- * Descriptografa chave privada usando AES-256-GCM
+ * Gera código de verificação único de 8 caracteres hexadecimais
+ * (aleatório, como no cliente: nunca derivado da assinatura base64,
+ * que trazia "+" e "/" e quebrava links)
  */
-export async function decryptPrivateKey(encryptedPrivateKey: string): Promise<string> {
-  try {
-    const decoder = new TextDecoder();
-    const key = await deriveKey(MASTER_KEY);
-    
-    // Decodifica Base64
-    const combined = Uint8Array.from(atob(encryptedPrivateKey), c => c.charCodeAt(0));
-    
-    // Separa IV e dados criptografados
-    const iv = combined.slice(0, 12);
-    const encrypted = combined.slice(12);
-    
-    // Descriptografa
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      encrypted
-    );
-    
-    return decoder.decode(decrypted);
-  } catch (error) {
-    console.error('❌ Erro ao descriptografar chave privada:', error);
-    throw new Error('Falha na descriptografia');
-  }
+export function generateVerificationCode(): string {
+  const array = new Uint8Array(4);
+  crypto.getRandomValues(array);
+  return Array.from(array)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * Metadados do arquivo assinado (assinatura via API: o arquivo não é armazenado)
+ */
+export interface SignedFileInfo {
+  fileName: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  fileHash: string;
 }
 
 /**
  * Assina conteúdo e salva no banco de dados
+ *
+ * `userClient` (cliente com o JWT do usuário) faz o INSERT pela sessão do
+ * usuário: o trigger charge_signed_content debita a autenticação e recusa o
+ * certificado sem crédito. Sem ele, o INSERT usa a service_role e quem chama
+ * debita antes (debit_signature), como a assinatura via API.
  */
 export async function signContent(
   content: string,
@@ -129,7 +134,11 @@ export async function signContent(
   creatorName: string,
   userId: string,
   thumbnail?: string,
-  platforms?: string[]
+  platforms?: string[],
+  keyId?: string,
+  fileInfo?: SignedFileInfo,
+  organizationId?: string,
+  userClient?: SupabaseClient
 ): Promise<{
   success: boolean;
   signedContent?: {
@@ -155,15 +164,14 @@ export async function signContent(
     const contentHash = await generateHash(content);
     console.log('✅ Hash gerado:', contentHash.substring(0, 16) + '...');
     
-    // 2. Gera assinatura digital
+    // 2. Gera assinatura digital ECDSA
     console.log('🔐 [3/7] Gerando assinatura digital...');
-    const signatureData = `${contentHash}:${privateKey}:${Date.now()}`;
-    const signature = await generateHash(signatureData);
+    const signature = await signHash(contentHash, privateKey);
     console.log('✅ Assinatura gerada:', signature.substring(0, 16) + '...');
     
     // 3. Gera código de verificação
     console.log('🔐 [4/7] Gerando código de verificação...');
-    const verificationCode = generateVerificationCode(signature, contentHash);
+    const verificationCode = generateVerificationCode();
     console.log('✅ Código de verificação:', verificationCode);
     
     // 4. Cria cliente Supabase
@@ -171,7 +179,7 @@ export async function signContent(
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     
     const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2.39.3');
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const supabase = userClient ?? createClient(supabaseUrl, supabaseServiceKey);
     
     // 5. Prepara dados para inserção
     console.log('🔐 [5/7] Preparando dados para inserção...');
@@ -181,11 +189,19 @@ export async function signContent(
       content_hash: contentHash,
       signature,
       public_key: publicKey,
+      key_id: keyId || null,
       creator_name: creatorName,
       verification_code: verificationCode,
       thumbnail: thumbnail || null,
       platforms: platforms || null,
       verification_count: 0,
+      organization_id: organizationId || null,
+      ...(fileInfo && {
+        file_name: fileInfo.fileName,
+        mime_type: fileInfo.mimeType,
+        file_size: fileInfo.fileSize,
+        file_hash: fileInfo.fileHash,
+      }),
     };
     
     // 6. Salva no banco
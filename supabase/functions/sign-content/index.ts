@@ -3,10 +3,19 @@
 // Assinatura segura de conteúdo no backend
 // VERSÃO CORRIGIDA - Fix 401 "Auth session missing!"
 // =====================================================
+//
+// Autenticação: JWT da sessão (Authorization: Bearer <token>) ou chave de
+// API com escopo "sign" (X-API-Key: vid_live_...) — ver api-signing.ts.
+// Deploy sem verificação de JWT no gateway (ver config.toml): o JWT é
+// validado aqui com auth.getUser().
+// =====================================================
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
-import { encryptPrivateKey, decryptPrivateKey, signContent } from './crypto.ts';
+import { signContent } from './crypto.ts';
+import { recoverPrivateKey, wrapPrivateKey } from '../_shared/key-wrapping.ts';
+import { extractApiKey } from '../_shared/api-keys.ts';
+import { handleApiKeySigning } from './api-signing.ts';
 
 // Tipos
 interface SignContentRequest {
@@ -14,6 +23,7 @@ interface SignContentRequest {
   creatorName: string;
   thumbnail?: string;
   platforms?: string[];
+  organizationId?: string; // Emitir em nome de uma organização (validado no banco)
   userId?: string; // Opcional: para testes com service_role
 }
 
@@ -39,7 +49,7 @@ interface SignContentResponse {
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, x-client-info, apikey, content-type',
 };
 
 serve(async (req) => {
@@ -61,6 +71,13 @@ serve(async (req) => {
 
     console.log('✅ [2/10] Método HTTP validado: POST');
 
+    // 🔑 Integrações: assinatura autenticada por chave de API
+    const apiKey = extractApiKey(req);
+    if (apiKey) {
+      console.log('🔑 [API] Assinatura via chave de API');
+      return await handleApiKeySigning(req, apiKey);
+    }
+
     // 2. Obter token de autenticação
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
@@ -199,7 +216,7 @@ serve(async (req) => {
 
     // 5. Parse do body
     const body: SignContentRequest = await req.json();
-    const { content, creatorName, thumbnail, platforms } = body;
+    const { content, creatorName, thumbnail, platforms, organizationId } = body;
 
     if (!content || !creatorName) {
       return new Response(
@@ -218,8 +235,9 @@ serve(async (req) => {
     // 6. Buscar chave privada criptografada do usuário
     const { data: keyPairData, error: keyError } = await supabase
       .from('key_pairs')
-      .select('id, public_key, encrypted_private_key, private_key')
+      .select('id, user_id, public_key, encrypted_private_key, private_key, wrapped_dek, key_salt, key_version')
       .eq('user_id', userId)
+      .eq('status', 'active')
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -234,16 +252,28 @@ serve(async (req) => {
 
     console.log('✅ [7/10] Chaves encontradas para usuário:', userId);
 
-    // 7. Descriptografar chave privada
+    // 7. Descriptografar chave privada (envelope v2 ou formato legado)
     let privateKey: string;
-    
-    if (keyPairData.encrypted_private_key) {
-      console.log('🔓 Descriptografando chave privada...');
-      privateKey = await decryptPrivateKey(keyPairData.encrypted_private_key);
-    } else if (keyPairData.private_key) {
-      console.warn('⚠️ Usando chave privada em texto plano (modo legado)');
-      privateKey = keyPairData.private_key;
-    } else {
+
+    try {
+      const recovered = await recoverPrivateKey(keyPairData);
+      privateKey = recovered.privateKey;
+
+      // 🔄 Migração sob demanda: re-protege registros legados com envelope v2
+      if (recovered.needsRewrap) {
+        console.warn('⚠️ Chave em formato legado, re-protegendo com envelope v2...');
+        const wrapped = await wrapPrivateKey(privateKey, keyPairData.user_id, keyPairData.id);
+        const { error: rewrapError } = await supabase
+          .from('key_pairs')
+          .update({ ...wrapped, private_key: null })
+          .eq('id', keyPairData.id);
+
+        if (rewrapError) {
+          console.warn('⚠️ Não foi possível re-proteger a chave (não crítico):', rewrapError);
+        }
+      }
+    } catch (recoverError) {
+      console.error('❌ Erro ao recuperar chave privada:', recoverError);
       return new Response(
         JSON.stringify({ success: false, error: 'Chave privada não disponível.' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -260,7 +290,12 @@ serve(async (req) => {
       creatorName,
       userId,
       thumbnail,
-      platforms
+      platforms,
+      keyPairData.id,
+      undefined,
+      organizationId,
+      // INSERT com o JWT do usuário: o banco debita a autenticação (charge_signed_content)
+      isServiceRole ? undefined : supabase
     );
 
     if (!signatureResult.success || !signatureResult.signedContent) {
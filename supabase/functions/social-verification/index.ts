@@ -0,0 +1,210 @@
+// =====================================================
+// EDGE FUNCTION: social-verification
+// Prova de controle dos links sociais exibidos nos certificados
+// =====================================================
+//
+// Ações (usuário autenticado):
+//   challenge → gera (ou reaproveita) o código do desafio para o link
+//               atual da rede em users.social_links
+//   verify    → busca o código no site/perfil e grava o resultado
+//
+// Requisições externas usam `fetch`, ou o servidor indicado em
+// SOCIAL_VERIFICATION_STUB_URL (desenvolvimento/testes, ver verifiers.ts).
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  SOCIAL_PLATFORMS,
+  createStubFetcher,
+  generateChallengeToken,
+  normalizeSocialUrl,
+  validatePlatformUrl,
+  verifySocialLink,
+  type Fetcher,
+  type SocialPlatform,
+} from './verifiers.ts';
+
+type SocialVerificationAction = 'challenge' | 'verify';
+
+interface SocialVerificationRequest {
+  action: SocialVerificationAction;
+  platform: SocialPlatform;
+}
+
+const VERIFICATION_COLUMNS =
+  'platform, url, challenge_token, status, method, verified_at, last_checked_at, last_error';
+const MIN_CHECK_INTERVAL_MS = 10 * 1000;
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function resolveFetcher(): Fetcher {
+  const stubUrl = Deno.env.get('SOCIAL_VERIFICATION_STUB_URL');
+  if (stubUrl) {
+    console.warn('⚠️ [social-verification] Usando fetcher stub:', stubUrl);
+    return createStubFetcher(stubUrl);
+  }
+  return fetch;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const body: SocialVerificationRequest = await req.json();
+    if (!SOCIAL_PLATFORMS.includes(body.platform)) {
+      return jsonResponse({ success: false, error: 'Rede social inválida.' }, 400);
+    }
+
+    // 1. Link atual do perfil (fonte de verdade: users.social_links)
+    const { data: userRow, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('social_links')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userRow) {
+      return jsonResponse({ success: false, error: 'Perfil não encontrado.' }, 404);
+    }
+
+    const rawUrl = (userRow.social_links as Record<string, string> | null)?.[body.platform];
+    const normalizedUrl = rawUrl ? normalizeSocialUrl(rawUrl) : null;
+    if (!normalizedUrl) {
+      return jsonResponse({ success: false, error: 'Cadastre o link desta rede no perfil antes de verificar.' }, 400);
+    }
+
+    const urlError = validatePlatformUrl(body.platform, normalizedUrl);
+    if (urlError) {
+      return jsonResponse({ success: false, error: urlError }, 400);
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('social_link_verifications')
+      .select(`id, ${VERIFICATION_COLUMNS}`)
+      .eq('user_id', user.id)
+      .eq('platform', body.platform)
+      .maybeSingle();
+
+    // =====================================================
+    // CHALLENGE: código para o link atual
+    // =====================================================
+    if (body.action === 'challenge') {
+      if (existing && existing.url === normalizedUrl) {
+        const { id: _id, ...verification } = existing;
+        return jsonResponse({ success: true, verification });
+      }
+
+      // Link novo ou alterado: novo código e status pendente
+      const { data: saved, error: saveError } = await supabaseAdmin
+        .from('social_link_verifications')
+        .upsert({
+          user_id: user.id,
+          platform: body.platform,
+          url: normalizedUrl,
+          challenge_token: generateChallengeToken(),
+          status: 'pending',
+          method: null,
+          verified_at: null,
+          last_checked_at: null,
+          last_error: null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,platform' })
+        .select(VERIFICATION_COLUMNS)
+        .single();
+
+      if (saveError || !saved) {
+        throw new Error(`Erro ao salvar desafio: ${saveError?.message || 'sem resposta'}`);
+      }
+
+      console.log('✅ [social-verification] Desafio emitido:', { userId: user.id, platform: body.platform });
+      return jsonResponse({ success: true, verification: saved });
+    }
+
+    // =====================================================
+    // VERIFY: busca o código no site/perfil
+    // =====================================================
+    if (body.action === 'verify') {
+      if (!existing || existing.url !== normalizedUrl) {
+        return jsonResponse({ success: false, error: 'O link mudou desde o desafio. Gere um novo código.' }, 409);
+      }
+
+      if (existing.last_checked_at &&
+          Date.now() - new Date(existing.last_checked_at).getTime() < MIN_CHECK_INTERVAL_MS) {
+        return jsonResponse({ success: false, error: 'Aguarde alguns segundos antes de verificar novamente.' }, 429);
+      }
+
+      const outcome = await verifySocialLink(body.platform, normalizedUrl, existing.challenge_token, resolveFetcher());
+      const now = new Date().toISOString();
+
+      // Verificação anterior continua válida se a nova checagem falhar
+      // (o criador pode remover o código da bio depois de verificado)
+      const update = outcome.verified
+        ? { status: 'verified', method: outcome.method, verified_at: now, last_error: null }
+        : existing.status === 'verified'
+          ? { last_error: outcome.error ?? null }
+          : { status: 'failed', last_error: outcome.error ?? null };
+
+      const { data: saved, error: saveError } = await supabaseAdmin
+        .from('social_link_verifications')
+        .update({ ...update, last_checked_at: now, updated_at: now })
+        .eq('id', existing.id)
+        .select(VERIFICATION_COLUMNS)
+        .single();
+
+      if (saveError || !saved) {
+        throw new Error(`Erro ao salvar verificação: ${saveError?.message || 'sem resposta'}`);
+      }
+
+      console.log('🔎 [social-verification] Resultado:', {
+        userId: user.id,
+        platform: body.platform,
+        verified: outcome.verified,
+        method: outcome.method,
+      });
+
+      return jsonResponse({ success: true, verified: outcome.verified, verification: saved });
+    }
+
+    return jsonResponse({ success: false, error: 'Ação inválida.' }, 400);
+
+  } catch (error) {
+    console.error('❌ [social-verification] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
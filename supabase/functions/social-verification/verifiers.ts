@@ -0,0 +1,334 @@
+// =====================================================
+// VERIFICADORES DE CONTROLE DE LINKS SOCIAIS
+// Funções puras: toda requisição externa passa pelo `Fetcher`
+// recebido, permitindo testar contra um servidor local (stub)
+// =====================================================
+//
+// Métodos:
+//   well_known  → https://<site>/.well-known/veroid.json contendo o código
+//                 { "veroid-verification": "VID-..." } (ou lista de códigos)
+//   dns_txt     → registro TXT "veroid-verification=VID-..." em
+//                 _veroid.<site> ou <site> (consulta via DNS-over-HTTPS)
+//   profile_bio → código "VID-..." na bio/descrição do perfil
+//                 (metatags description / og:description / twitter:description
+//                 da raiz do perfil; redirecionamentos só no mesmo host)
+// =====================================================
+
+export type SocialPlatform = 'instagram' | 'facebook' | 'tiktok' | 'twitter' | 'youtube' | 'linkedin' | 'website';
+
+export type VerificationMethod = 'well_known' | 'dns_txt' | 'profile_bio';
+
+/** Requisição HTTP injetável (fetch global em produção, stub em testes) */
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface VerificationOutcome {
+  verified: boolean;
+  method: VerificationMethod | null;
+  error?: string;
+}
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = [
+  'instagram', 'facebook', 'tiktok', 'twitter', 'youtube', 'linkedin', 'website',
+];
+
+/** Hosts aceitos por rede (subdomínios inclusos, ex: m.facebook.com) */
+const PLATFORM_HOSTS: Record<Exclude<SocialPlatform, 'website'>, string[]> = {
+  instagram: ['instagram.com'],
+  facebook: ['facebook.com', 'fb.com'],
+  tiktok: ['tiktok.com'],
+  twitter: ['twitter.com', 'x.com'],
+  youtube: ['youtube.com'],
+  linkedin: ['linkedin.com'],
+};
+
+/**
+ * Raiz do perfil por rede (path já normalizado, sem barra final).
+ * Posts, tweets e outras páginas aceitam conteúdo de terceiros e não
+ * comprovam controle do perfil.
+ */
+const PROFILE_PATHS: Record<Exclude<SocialPlatform, 'website'>, RegExp> = {
+  instagram: /^\/[a-z0-9._]{1,30}$/i,
+  facebook: /^\/[a-z0-9.-]{5,80}$/i,
+  tiktok: /^\/@[a-z0-9._]{2,24}$/i,
+  twitter: /^\/[a-z0-9_]{1,15}$/i,
+  youtube: /^\/(@[a-z0-9._-]{3,30}|channel\/UC[a-z0-9_-]{22})$/i,
+  linkedin: /^\/(in|company)\/[a-z0-9_%-]{2,100}$/i,
+};
+
+/** Primeiros segmentos reservados pelas redes (não são perfis) */
+const RESERVED_SEGMENTS = new Set([
+  'about', 'accounts', 'explore', 'hashtag', 'help', 'home', 'i', 'intent', 'login',
+  'messages', 'notifications', 'p', 'reel', 'reels', 'search', 'settings', 'share',
+  'signup', 'status', 'stories', 'watch',
+]);
+
+const MAX_REDIRECTS = 3;
+
+const DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query';
+const USER_AGENT = 'VeroIDVerifier/1.0 (+https://www.veroid.com.br)';
+const REQUEST_TIMEOUT_MS = 8000;
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const TXT_PREFIX = 'veroid-verification=';
+
+/**
+ * Gera o código do desafio (48 bits, ex: "VID-3F9A1C2B7E4D")
+ */
+export function generateChallengeToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return `VID-${Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+/**
+ * Normaliza a URL do perfil (https, host minúsculo sem www, sem query/fragmento/barra final)
+ * Mesmo algoritmo de normalizeSocialUrl no frontend
+ */
+export function normalizeSocialUrl(raw: string): string | null {
+  try {
+    const url = new URL(/^https?:\/\//i.test(raw.trim()) ? raw.trim() : `https://${raw.trim()}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname.replace(/\/+$/, '');
+    return `https://${host}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hosts que nunca devem ser acessados pelo verificador
+ */
+function isForbiddenHost(host: string): boolean {
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    /^[\d.]+$/.test(host) ||
+    host.includes(':') ||
+    !host.includes('.')
+  );
+}
+
+/**
+ * Confere se a URL pertence à rede informada
+ * @returns Mensagem de erro ou null se válida
+ */
+export function validatePlatformUrl(platform: SocialPlatform, normalizedUrl: string): string | null {
+  const host = new URL(normalizedUrl).hostname;
+
+  if (isForbiddenHost(host)) {
+    return 'Endereço não permitido para verificação.';
+  }
+
+  if (platform === 'website') {
+    return null;
+  }
+
+  const allowed = PLATFORM_HOSTS[platform];
+  const matches = allowed.some(domain => host === domain || host.endsWith(`.${domain}`));
+  if (!matches) {
+    return `O link não pertence a ${allowed[0]}.`;
+  }
+
+  const path = new URL(normalizedUrl).pathname;
+  const firstSegment = path.split('/')[1]?.toLowerCase() ?? '';
+  if (!PROFILE_PATHS[platform].test(path) || RESERVED_SEGMENTS.has(firstSegment)) {
+    return `Use o link da página principal do perfil (ex: https://${allowed[0]}/seu-usuario), não de uma publicação.`;
+  }
+
+  return null;
+}
+
+/**
+ * Lê no máximo MAX_BODY_BYTES do corpo da resposta
+ */
+async function readLimitedText(response: Response): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const bytes = new Uint8Array(Math.min(total, MAX_BODY_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, bytes.length - offset);
+    bytes.set(slice, offset);
+    offset += slice.length;
+    if (offset >= bytes.length) break;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+async function request(fetcher: Fetcher, url: string, init: RequestInit = {}): Promise<Response> {
+  return await fetcher(url, {
+    ...init,
+    headers: { 'User-Agent': USER_AGENT, ...(init.headers || {}) },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+}
+
+/**
+ * Decodifica as entidades HTML mais comuns (bios aparecem escapadas nas metatags)
+ */
+function decodeHtmlEntities(html: string): string {
+  return html
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Site: /.well-known/veroid.json
+ */
+async function checkWellKnown(fetcher: Fetcher, siteUrl: string, token: string): Promise<boolean> {
+  const { origin } = new URL(siteUrl);
+  const response = await request(fetcher, `${origin}/.well-known/veroid.json`, { redirect: 'manual' });
+  if (response.status !== 200) return false;
+
+  try {
+    const json = JSON.parse(await readLimitedText(response));
+    const value = json?.['veroid-verification'];
+    const tokens = Array.isArray(value) ? value : [value];
+    return tokens.some(item => typeof item === 'string' && item.trim() === token);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Site: registro TXT em _veroid.<host> ou <host>
+ */
+async function checkDnsTxt(fetcher: Fetcher, siteUrl: string, token: string): Promise<boolean> {
+  const host = new URL(siteUrl).hostname;
+
+  for (const name of [`_veroid.${host}`, host]) {
+    const response = await request(fetcher, `${DOH_ENDPOINT}?name=${encodeURIComponent(name)}&type=TXT`, {
+      headers: { Accept: 'application/dns-json' },
+    });
+    if (!response.ok) continue;
+
+    const json = await response.json().catch(() => null);
+    const records: string[] = (json?.Answer || [])
+      .map((answer: { data?: string }) => (answer.data || '').replace(/"\s*"/g, '').replace(/"/g, '').trim());
+
+    if (records.some(record => record === `${TXT_PREFIX}${token}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Host sem "www." (instagram.com → www.instagram.com não muda de dono) */
+function bareHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Conteúdo das metatags de descrição do perfil (a bio); o restante da
+ * página (posts, comentários, path ecoado) é ignorado
+ */
+function extractProfileDescriptions(html: string): string[] {
+  const descriptions: string[] = [];
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = /\b(?:name|property)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1]?.toLowerCase();
+    if (key !== 'description' && key !== 'og:description' && key !== 'twitter:description') continue;
+
+    const content = /\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(tag);
+    const value = content?.[1] ?? content?.[2];
+    if (value) descriptions.push(decodeHtmlEntities(value));
+  }
+
+  return descriptions;
+}
+
+/**
+ * Redes sociais: código na bio/descrição do perfil público
+ *
+ * Redirecionamentos são seguidos manualmente e só para o mesmo host e o
+ * mesmo perfil (ex: acréscimo de "www." ou de barra final).
+ */
+async function checkProfileBio(fetcher: Fetcher, profileUrl: string, token: string): Promise<boolean> {
+  const original = new URL(profileUrl);
+  let current = original;
+  let response: Response | null = null;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    response = await request(fetcher, current.toString(), {
+      redirect: 'manual',
+      headers: { Accept: 'text/html', 'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.8' },
+    });
+
+    if (response.status < 300 || response.status >= 400) break;
+
+    const location = response.headers.get('Location');
+    if (!location || hop === MAX_REDIRECTS) {
+      throw new Error('Redirecionamentos demais ao abrir o perfil.');
+    }
+
+    const next = new URL(location, current);
+    const samePath = next.pathname.replace(/\/+$/, '').toLowerCase() === original.pathname.toLowerCase();
+    if (next.protocol !== 'https:' || bareHost(next) !== bareHost(original) || !samePath) {
+      throw new Error(`O perfil redirecionou para outro endereço (${next.hostname}${next.pathname}).`);
+    }
+    current = next;
+  }
+
+  if (!response?.ok) return false;
+
+  const needle = token.toUpperCase();
+  return extractProfileDescriptions(await readLimitedText(response))
+    .some(description => description.toUpperCase().includes(needle));
+}
+
+/**
+ * 🔎 Verifica se o criador controla o link (tenta os métodos da rede em ordem)
+ */
+export async function verifySocialLink(
+  platform: SocialPlatform,
+  normalizedUrl: string,
+  token: string,
+  fetcher: Fetcher
+): Promise<VerificationOutcome> {
+  const checks: Array<[VerificationMethod, typeof checkWellKnown]> = platform === 'website'
+    ? [['well_known', checkWellKnown], ['dns_txt', checkDnsTxt]]
+    : [['profile_bio', checkProfileBio]];
+
+  const errors: string[] = [];
+
+  for (const [method, check] of checks) {
+    try {
+      if (await check(fetcher, normalizedUrl, token)) {
+        return { verified: true, method };
+      }
+    } catch (error) {
+      errors.push(`${method}: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
+    }
+  }
+
+  return {
+    verified: false,
+    method: null,
+    error: errors.length > 0 ? errors.join('; ') : 'Código de verificação não encontrado.',
+  };
+}
+
+/**
+ * Fetcher que redireciona todas as requisições para um servidor local
+ * (`<stub>?url=<url original>`), usado em desenvolvimento e testes
+ */
+export function createStubFetcher(stubBaseUrl: string): Fetcher {
+  return (url, init) => fetch(`${stubBaseUrl}?url=${encodeURIComponent(url)}`, init);
+}
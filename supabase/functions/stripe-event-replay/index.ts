@@ -0,0 +1,170 @@
+// =====================================================
+// EDGE FUNCTION: stripe-event-replay
+// Reprocessamento de eventos do Stripe pela área administrativa
+// =====================================================
+//
+// POST (somente administradores)
+//   { action: 'retry', eventId }
+//     → reprocessa um evento com falha (ou pendente) gravado em
+//       stripe_events
+//   { action: 'replay_user', userId }
+//     → reexecuta, em ordem cronológica, todos os eventos gravados do
+//       usuário para reconstruir a assinatura e os créditos avulsos
+//
+// Os handlers são os mesmos do webhook (_shared/stripe-billing.ts) e são
+// idempotentes: o replay não duplica pacotes nem zera o uso do período.
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { runStripeEvent, type StripeEvent, type StripeEventRunResult } from '../_shared/stripe-billing.ts';
+
+interface ReplayRequest {
+  action: 'retry' | 'replay_user';
+  eventId?: string;
+  userId?: string;
+}
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('users')
+      .select('is_admin')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!profile?.is_admin) {
+      return jsonResponse({ success: false, error: 'Permissão negada: apenas administradores.' }, 403);
+    }
+
+    const body: ReplayRequest = await req.json();
+
+    if (body.action === 'retry') {
+      if (!body.eventId) {
+        return jsonResponse({ success: false, error: 'eventId é obrigatório.' }, 400);
+      }
+
+      const { data: stored, error: storedError } = await supabaseAdmin
+        .from('stripe_events')
+        .select('payload, status')
+        .eq('id', body.eventId)
+        .maybeSingle();
+
+      if (storedError || !stored) {
+        return jsonResponse({ success: false, error: 'Evento não encontrado.' }, 404);
+      }
+
+      if (stored.status === 'processed' || stored.status === 'ignored') {
+        return jsonResponse({ success: false, error: 'Evento já processado. Use o replay do usuário para reexecutar.' }, 409);
+      }
+
+      console.log('🔁 [stripe-event-replay] Reprocessando evento', body.eventId, 'por', user.id);
+      const result = await runStripeEvent(stored.payload as StripeEvent, { replayedBy: user.id });
+
+      await supabaseAdmin.from('audit_logs').insert({
+        user_id: user.id,
+        action: 'ADMIN_ACTION',
+        details: {
+          action: 'stripe_event_retry',
+          event_id: body.eventId,
+          result_status: result.status,
+          error: result.error,
+        },
+      });
+
+      if (result.status === null) {
+        return jsonResponse({ success: false, error: 'O evento está sendo processado agora. Tente novamente em instantes.' }, 409);
+      }
+
+      return jsonResponse({ success: result.status !== 'failed', result, error: result.error });
+    }
+
+    if (body.action === 'replay_user') {
+      if (!body.userId) {
+        return jsonResponse({ success: false, error: 'userId é obrigatório.' }, 400);
+      }
+
+      const { data: events, error: eventsError } = await supabaseAdmin
+        .rpc('list_user_stripe_events', { p_user_id: body.userId });
+
+      if (eventsError) {
+        console.error('❌ [stripe-event-replay] Erro ao listar eventos:', eventsError);
+        return jsonResponse({ success: false, error: 'Não foi possível carregar os eventos do usuário.' }, 500);
+      }
+
+      const stored = (events ?? []) as Array<{ id: string; payload: StripeEvent }>;
+      console.log(`🔁 [stripe-event-replay] Replay de ${stored.length} evento(s) do usuário ${body.userId} por ${user.id}`);
+
+      // Sequencial: a ordem do Stripe importa (checkout → updated → invoice → deleted)
+      const results: StripeEventRunResult[] = [];
+      for (const event of stored) {
+        results.push(await runStripeEvent(event.payload, { force: true, replayedBy: user.id }));
+      }
+
+      const summary = {
+        total: results.length,
+        processed: results.filter(r => r.status === 'processed').length,
+        ignored: results.filter(r => r.status === 'ignored').length,
+        failed: results.filter(r => r.status === 'failed').length,
+        skipped: results.filter(r => r.status === null).length,
+      };
+
+      await supabaseAdmin.from('audit_logs').insert({
+        user_id: user.id,
+        action: 'ADMIN_ACTION',
+        details: {
+          action: 'stripe_replay_user',
+          target_user_id: body.userId,
+          ...summary,
+        },
+      });
+
+      return jsonResponse({ success: summary.failed === 0, summary, results });
+    }
+
+    return jsonResponse({ success: false, error: 'Ação inválida. Use retry ou replay_user.' }, 400);
+  } catch (error) {
+    console.error('❌ [stripe-event-replay] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
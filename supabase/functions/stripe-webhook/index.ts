@@ -1,6 +1,9 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { createHmac, timingSafeEqual } from 'https://deno.land/std@0.177.0/node/crypto.ts';
+import { recordStripeEvent, runStripeEvent, type StripeEvent } from '../_shared/stripe-billing.ts';
+
+// Os handlers de cada tipo de evento ficam em _shared/stripe-billing.ts,
+// compartilhados com o reprocessamento pelo admin (stripe-event-replay).
 
 // CORS headers para permitir requisições do Stripe
 const corsHeaders = {
@@ -9,87 +12,8 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')!;
 const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET')!;
 
-// Mapeamento de Price IDs para plan_type (planos recorrentes)
-// IMPORTANTE: Manter ambos os Price IDs (antigos e novos) para compatibilidade
-const PRICE_TO_PLAN: Record<string, string> = {
-  // Price IDs antigos (podem ainda existir em assinaturas ativas)
-  'price_1T4gcAJc1p4mhrHNwOvzI8D8': 'creator',
-  'price_1T4gijJc1p4mhrHNW3h3Ajzl': 'creator_pro',
-  'price_1T4gmTJc1p4mhrHNuHS9xGN2': 'creator_elite',
-  // Price IDs novos (usados atualmente no Pricing.tsx)
-  'price_1T9AunJc1p4mhrHNQ3rfZhLa': 'creator',
-  'price_1T9AvvJc1p4mhrHNJkTRLWcU': 'creator_pro',
-  'price_1T9Ax3Jc1p4mhrHNriVXetzj': 'creator_elite',
-};
-
-// Mapeamento de Price IDs para pacotes avulsos (one-time payments)
-// IMPORTANTE: Manter ambos os Price IDs (antigos e novos) para compatibilidade
-const PRICE_TO_PACKAGE: Record<string, { credits: number; name: string }> = {
-  // Price IDs antigos (podem ainda existir em compras anteriores)
-  'price_1T4gpIJc1p4mhrHNJL1tt3UY': { credits: 10, name: 'Pacote 10' },
-  'price_1T4grUJc1p4mhrHNFJAl6Y4T': { credits: 20, name: 'Pacote 20' },
-  'price_1T4gu0Jc1p4mhrHNg8LhOIrJ': { credits: 50, name: 'Pacote 50' },
-  // Price IDs novos (usados atualmente no Pricing.tsx)
-  'price_1T9AqmJc1p4mhrHNAA8QJKlc': { credits: 10, name: 'Pacote 10' },
-  'price_1T9AruJc1p4mhrHNjnzpniQM': { credits: 20, name: 'Pacote 20' },
-  'price_1T9AtJJc1p4mhrHNqXqdOCoh': { credits: 50, name: 'Pacote 50' },
-};
-
-// Limites de assinaturas por plano
-const PLAN_LIMITS: Record<string, number> = {
-  trial: 10,
-  creator: 50,
-  creator_pro: 150,
-  creator_elite: 350,
-};
-
-// =====================================================================
-// 🆕 Helpers para compatibilidade com mudanças na API do Stripe.
-//
-// A partir da API 2024-something / 2025-12-15.clover, os campos
-// `current_period_start` e `current_period_end` deixaram de existir no
-// nível raiz da subscription e passaram a viver em cada item (em
-// `subscription.items.data[i].current_period_start/end`).
-//
-// Como o webhook lê esses campos para gravar no banco (`new Date(x * 1000)`),
-// se vier `undefined` o código explode com `RangeError: Invalid time value`,
-// fazendo o webhook retornar 400 e a assinatura nunca ser persistida.
-//
-// Esses helpers fazem um fallback seguro: tentam o root primeiro
-// (compatibilidade com payloads antigos) e, se vier vazio, leem do
-// primeiro item da subscription. Se ambos vierem vazios, retornam null
-// (em vez de explodir), e o caller decide o que fazer.
-// =====================================================================
-function getSubscriptionPeriodStart(subscription: Record<string, unknown>): number | null {
-  const root = subscription.current_period_start as number | undefined | null;
-  if (typeof root === 'number' && Number.isFinite(root)) return root;
-  const items = subscription.items as { data?: Array<Record<string, unknown>> } | undefined;
-  const fromItem = items?.data?.[0]?.current_period_start as number | undefined | null;
-  if (typeof fromItem === 'number' && Number.isFinite(fromItem)) return fromItem;
-  return null;
-}
-
-function getSubscriptionPeriodEnd(subscription: Record<string, unknown>): number | null {
-  const root = subscription.current_period_end as number | undefined | null;
-  if (typeof root === 'number' && Number.isFinite(root)) return root;
-  const items = subscription.items as { data?: Array<Record<string, unknown>> } | undefined;
-  const fromItem = items?.data?.[0]?.current_period_end as number | undefined | null;
-  if (typeof fromItem === 'number' && Number.isFinite(fromItem)) return fromItem;
-  return null;
-}
-
-function unixToIsoOrNull(ts: number | null | undefined): string | null {
-  if (typeof ts !== 'number' || !Number.isFinite(ts)) return null;
-  return new Date(ts * 1000).toISOString();
-}
-
 // Helper function to verify Stripe webhook signature
 function verifyStripeSignature(payload: string, signature: string, secret: string): boolean {
   try {
@@ -145,596 +69,6 @@ function verifyStripeSignature(payload: string, signature: string, secret: strin
   }
 }
 
-// Helper function to call Stripe API
-async function stripeRequest(endpoint: string, method: string = 'GET', body?: string): Promise<Response> {
-  const response = await fetch(`https://api.stripe.com/v1${endpoint}`, {
-    method,
-    headers: {
-      'Authorization': `Bearer ${stripeSecretKey}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body,
-  });
-  return response;
-}
-
-async function getUserIdByEmail(email: string): Promise<string | null> {
-  console.log('🔍 [getUserIdByEmail] Buscando user_id para email:', email);
-  
-  try {
-    const { data, error } = await supabase.auth.admin.listUsers();
-    
-    if (error) {
-      console.error('❌ [getUserIdByEmail] Erro ao listar usuários:', error);
-      return null;
-    }
-
-    const user = data.users.find(u => u.email === email);
-    
-    if (!user) {
-      console.error('❌ [getUserIdByEmail] Usuário não encontrado para email:', email);
-      return null;
-    }
-
-    console.log('✅ [getUserIdByEmail] user_id encontrado:', user.id);
-    return user.id;
-  } catch (error) {
-    console.error('❌ [getUserIdByEmail] Exceção ao buscar usuário:', error);
-    return null;
-  }
-}
-
-// Buscar user_id pelo stripe_customer_id
-async function getUserIdByStripeCustomerId(stripeCustomerId: string): Promise<string | null> {
-  console.log('🔍 [getUserIdByStripeCustomerId] Buscando user_id para customer:', stripeCustomerId);
-  
-  try {
-    const { data, error } = await supabase
-      .from('subscriptions')
-      .select('user_id')
-      .eq('stripe_customer_id', stripeCustomerId)
-      .single();
-    
-    if (error || !data) {
-      console.error('❌ [getUserIdByStripeCustomerId] Assinatura não encontrada:', error);
-      return null;
-    }
-
-    console.log('✅ [getUserIdByStripeCustomerId] user_id encontrado:', data.user_id);
-    return data.user_id;
-  } catch (error) {
-    console.error('❌ [getUserIdByStripeCustomerId] Exceção:', error);
-    return null;
-  }
-}
-
-async function handleCheckoutSessionCompleted(session: Record<string, unknown>) {
-  console.log('🎉 [handleCheckoutSessionCompleted] Checkout concluído:', session.id);
-  console.log('📋 [handleCheckoutSessionCompleted] Session mode:', session.mode);
-  console.log('📋 [handleCheckoutSessionCompleted] Payment status:', session.payment_status);
-
-  const customerDetails = session.customer_details as Record<string, unknown> | undefined;
-  const customerEmail = (session.customer_email as string) || (customerDetails?.email as string);
-  if (!customerEmail) {
-    console.error('❌ [handleCheckoutSessionCompleted] Email do cliente não encontrado');
-    return;
-  }
-
-  console.log('📧 [handleCheckoutSessionCompleted] Email do cliente:', customerEmail);
-
-  const userId = await getUserIdByEmail(customerEmail);
-  if (!userId) {
-    console.error('❌ [handleCheckoutSessionCompleted] Usuário não encontrado para email:', customerEmail);
-    return;
-  }
-
-  console.log('✅ [handleCheckoutSessionCompleted] User ID obtido:', userId);
-
-  const mode = session.mode as string;
-  
-  if (mode === 'subscription') {
-    console.log('📝 [handleCheckoutSessionCompleted] Processando assinatura recorrente');
-    await handleSubscriptionCheckout(session, userId);
-  } else if (mode === 'payment') {
-    console.log('📦 [handleCheckoutSessionCompleted] Processando pacote avulso');
-    await handlePackageCheckout(session, userId);
-  } else {
-    console.log('⚠️ [handleCheckoutSessionCompleted] Modo desconhecido:', mode);
-  }
-}
-
-async function handleSubscriptionCheckout(session: Record<string, unknown>, userId: string) {
-  console.log('📝 [handleSubscriptionCheckout] Iniciando processamento de assinatura recorrente');
-  
-  const subscriptionId = session.subscription as string;
-  if (!subscriptionId) {
-    console.error('❌ [handleSubscriptionCheckout] Subscription ID não encontrado na sessão');
-    return;
-  }
-
-  console.log('🔍 [handleSubscriptionCheckout] Buscando subscription no Stripe:', subscriptionId);
-
-  // Buscar detalhes da subscription no Stripe
-  const subResponse = await stripeRequest(`/subscriptions/${subscriptionId}`);
-  const subscription = await subResponse.json();
-  
-  if (!subResponse.ok) {
-    console.error('❌ [handleSubscriptionCheckout] Erro ao buscar subscription:', subscription);
-    return;
-  }
-  
-  const priceId = subscription.items?.data?.[0]?.price?.id;
-  const planType = PRICE_TO_PLAN[priceId] || 'creator';
-  const signaturesLimit = PLAN_LIMITS[planType] || 50;
-
-  console.log('📋 [handleSubscriptionCheckout] Price ID:', priceId);
-  console.log('📋 [handleSubscriptionCheckout] Plan Type:', planType);
-  console.log('📋 [handleSubscriptionCheckout] Signatures Limit:', signaturesLimit);
-
-  // 🔧 FIX BUG #2: Buscar assinatura existente ANTES de montar payload, para
-  // preservar metadata (package_purchases) e overage_signatures_available em
-  // caso de re-checkout / atualização da mesma linha.
-  const { data: existingSubscription } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('user_id', userId)
-    .single();
-
-  const stripeMetadata = (subscription.metadata as Record<string, unknown>) || {};
-  const existingMetadata = (existingSubscription?.metadata as Record<string, unknown>) || {};
-
-  // Merge: campos internos nossos (package_purchases, last_renewal etc.)
-  // têm prioridade sobre o que vier do Stripe.
-  const mergedMetadata: Record<string, unknown> = {
-    ...stripeMetadata,
-    ...existingMetadata,
-  };
-
-  // 🆕 Usa helpers para compatibilidade com API antiga e nova do Stripe
-  // (current_period_start/end podem vir no root OU dentro de items.data[0]).
-  const periodStartUnix = getSubscriptionPeriodStart(subscription);
-  const periodEndUnix = getSubscriptionPeriodEnd(subscription);
-  console.log('📅 [handleSubscriptionCheckout] Period start (unix):', periodStartUnix, '| end (unix):', periodEndUnix);
-
-  const subscriptionData = {
-    user_id: userId,
-    stripe_customer_id: session.customer as string,
-    stripe_subscription_id: subscriptionId,
-    stripe_price_id: priceId,
-    plan_type: planType,
-    status: subscription.status,
-    current_period_start: unixToIsoOrNull(periodStartUnix),
-    current_period_end: unixToIsoOrNull(periodEndUnix),
-    trial_start: subscription.trial_start ? new Date(subscription.trial_start * 1000).toISOString() : null,
-    trial_end: subscription.trial_end ? new Date(subscription.trial_end * 1000).toISOString() : null,
-    canceled_at: subscription.canceled_at ? new Date(subscription.canceled_at * 1000).toISOString() : null,
-    ended_at: subscription.ended_at ? new Date(subscription.ended_at * 1000).toISOString() : null,
-    cancel_at_period_end: subscription.cancel_at_period_end || false,
-    // 🔧 Preserva contadores existentes em re-checkout; só zera em assinatura nova.
-    signatures_used: existingSubscription?.signatures_used ?? 0,
-    signatures_limit: signaturesLimit,
-    overage_signatures_available: existingSubscription?.overage_signatures_available ?? 0,
-    metadata: mergedMetadata,
-    updated_at: new Date().toISOString(),
-  };
-
-  console.log('💾 [handleSubscriptionCheckout] Salvando assinatura recorrente');
-
-  if (existingSubscription) {
-    console.log('🔄 [handleSubscriptionCheckout] Atualizando assinatura existente (metadata preservado)');
-    
-    const { error } = await supabase
-      .from('subscriptions')
-      .update(subscriptionData)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('❌ [handleSubscriptionCheckout] Erro ao atualizar assinatura:', error);
-      throw error;
-    }
-    console.log('✅ [handleSubscriptionCheckout] Assinatura recorrente atualizada com sucesso');
-  } else {
-    console.log('➕ [handleSubscriptionCheckout] Criando nova assinatura');
-    
-    const { error } = await supabase
-      .from('subscriptions')
-      .insert({
-        ...subscriptionData,
-        created_at: new Date().toISOString(),
-      });
-
-    if (error) {
-      console.error('❌ [handleSubscriptionCheckout] Erro ao criar assinatura:', error);
-      throw error;
-    }
-    console.log('✅ [handleSubscriptionCheckout] Assinatura recorrente criada com sucesso');
-  }
-}
-
-async function handlePackageCheckout(session: Record<string, unknown>, userId: string) {
-  console.log('📦 [handlePackageCheckout] Processando compra de pacote avulso');
-  console.log('📋 [handlePackageCheckout] Session ID:', session.id);
-  console.log('📋 [handlePackageCheckout] User ID:', userId);
-
-  // Buscar o Price ID do line item
-  const lineItemsResponse = await stripeRequest(`/checkout/sessions/${session.id}/line_items`);
-  const lineItems = await lineItemsResponse.json();
-  
-  if (!lineItemsResponse.ok) {
-    console.error('❌ [handlePackageCheckout] Erro ao buscar line items:', lineItems);
-    return;
-  }
-  
-  const priceId = lineItems.data?.[0]?.price?.id;
-
-  console.log('📋 [handlePackageCheckout] Price ID:', priceId);
-
-  if (!priceId) {
-    console.error('❌ [handlePackageCheckout] Price ID não encontrado no checkout');
-    return;
-  }
-
-  const packageInfo = PRICE_TO_PACKAGE[priceId];
-  if (!packageInfo) {
-    console.error('❌ [handlePackageCheckout] Pacote não reconhecido para Price ID:', priceId);
-    console.log('📋 [handlePackageCheckout] Pacotes disponíveis:', Object.keys(PRICE_TO_PACKAGE));
-    return;
-  }
-
-  console.log(`📦 [handlePackageCheckout] Pacote identificado: ${packageInfo.name} (${packageInfo.credits} créditos)`);
-
-  // Buscar assinatura existente do usuário
-  const { data: subscription, error: fetchError } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('user_id', userId)
-    .single();
-
-  if (fetchError || !subscription) {
-    console.error('❌ [handlePackageCheckout] Assinatura não encontrada para o usuário:', userId);
-    console.error('❌ [handlePackageCheckout] Erro:', fetchError);
-    return;
-  }
-
-  console.log('✅ [handlePackageCheckout] Assinatura encontrada:', subscription.id);
-  console.log('📋 [handlePackageCheckout] Créditos extras atuais:', subscription.overage_signatures_available);
-
-  // Verificar se esta compra já foi processada (idempotência)
-  const metadata = subscription.metadata || {};
-  const packagePurchases = metadata.package_purchases as Array<{ stripe_session_id?: string }> || [];
-  
-  // Verificar se já processamos esta sessão
-  const alreadyProcessed = packagePurchases.some(p => p.stripe_session_id === session.id);
-  if (alreadyProcessed) {
-    console.log('⚠️ [handlePackageCheckout] Compra já processada anteriormente, ignorando...');
-    return;
-  }
-
-  // Adicionar créditos extras à assinatura
-  const currentOverage = subscription.overage_signatures_available || 0;
-  const newOverageCredits = currentOverage + packageInfo.credits;
-  
-  // Usar a data de criação do checkout session (momento exato da compra) do Stripe
-  // session.created é um timestamp Unix em segundos
-  const sessionCreatedTimestamp = session.created as number;
-  const purchaseDate = sessionCreatedTimestamp 
-    ? new Date(sessionCreatedTimestamp * 1000) 
-    : new Date();
-  
-  // Pacote avulso vale 30 dias a partir da data de compra (independente do plano)
-  const expirationDate = new Date(purchaseDate);
-  expirationDate.setDate(expirationDate.getDate() + 30);
-  
-  console.log('📅 [handlePackageCheckout] Data de compra (session.created):', purchaseDate.toISOString());
-  console.log('📅 [handlePackageCheckout] Data de expiração do pacote:', expirationDate.toISOString());
-
-  // Criar registro do novo pacote comprado
-  const newPurchase = {
-    package_name: packageInfo.name,
-    credits_added: packageInfo.credits,
-    credits_remaining: packageInfo.credits, // Créditos restantes deste pacote específico
-    purchase_date: purchaseDate.toISOString(),
-    expiration_date: expirationDate.toISOString(),
-    stripe_session_id: session.id,
-    stripe_price_id: priceId,
-    stripe_payment_intent: session.payment_intent,
-    processed_by: 'webhook',
-  };
-
-  // Adicionar ao array de compras (mantendo histórico)
-  const updatedPackagePurchases = [...packagePurchases, newPurchase];
-
-  const updateData = {
-    overage_signatures_available: newOverageCredits,
-    metadata: {
-      ...metadata,
-      package_purchases: updatedPackagePurchases,
-      last_package_purchase: newPurchase, // Manter para compatibilidade
-    },
-    updated_at: new Date().toISOString(),
-  };
-
-  console.log('💾 [handlePackageCheckout] Atualizando créditos extras de', currentOverage, 'para', newOverageCredits);
-
-  const { error: updateError } = await supabase
-    .from('subscriptions')
-    .update(updateData)
-    .eq('user_id', userId);
-
-  if (updateError) {
-    console.error('❌ [handlePackageCheckout] Erro ao adicionar créditos extras:', updateError);
-    throw updateError;
-  }
-
-  console.log(`✅ [handlePackageCheckout] ${packageInfo.credits} créditos extras adicionados! Total: ${newOverageCredits}`);
-}
-
-// =====================================================
-// NOVO: Tratamento de invoice.paid para renovação de assinaturas
-// =====================================================
-async function handleInvoicePaid(invoice: Record<string, unknown>) {
-  console.log('💰 [handleInvoicePaid] Invoice paga:', invoice.id);
-  console.log('📋 [handleInvoicePaid] Billing reason:', invoice.billing_reason);
-  
-  const billingReason = invoice.billing_reason as string;
-  const subscriptionId = invoice.subscription as string;
-  const customerId = invoice.customer as string;
-  
-  // Só processar renovações de assinatura (não a primeira cobrança)
-  // billing_reason pode ser: subscription_create, subscription_cycle, subscription_update, manual, etc.
-  if (billingReason !== 'subscription_cycle') {
-    console.log('ℹ️ [handleInvoicePaid] Não é renovação de ciclo, ignorando. Reason:', billingReason);
-    return;
-  }
-  
-  if (!subscriptionId) {
-    console.log('⚠️ [handleInvoicePaid] Invoice sem subscription_id, ignorando');
-    return;
-  }
-  
-  console.log('🔄 [handleInvoicePaid] Processando RENOVAÇÃO de assinatura:', subscriptionId);
-  
-  // Buscar a assinatura no banco de dados
-  const { data: subscription, error: fetchError } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('stripe_subscription_id', subscriptionId)
-    .single();
-  
-  if (fetchError || !subscription) {
-    console.error('❌ [handleInvoicePaid] Assinatura não encontrada:', fetchError);
-    
-    // Tentar buscar pelo customer_id
-    if (customerId) {
-      const userId = await getUserIdByStripeCustomerId(customerId);
-      if (userId) {
-        console.log('🔍 [handleInvoicePaid] Tentando buscar por user_id:', userId);
-        const { data: subByUser } = await supabase
-          .from('subscriptions')
-          .select('*')
-          .eq('user_id', userId)
-          .single();
-        
-        if (subByUser) {
-          await processSubscriptionRenewal(subByUser, invoice);
-          return;
-        }
-      }
-    }
-    return;
-  }
-  
-  await processSubscriptionRenewal(subscription, invoice);
-}
-
-async function processSubscriptionRenewal(subscription: Record<string, unknown>, invoice: Record<string, unknown>) {
-  console.log('🔄 [processSubscriptionRenewal] Renovando assinatura:', subscription.id);
-  console.log('📋 [processSubscriptionRenewal] Plano:', subscription.plan_type);
-  console.log('📋 [processSubscriptionRenewal] Créditos usados antes da renovação:', subscription.signatures_used);
-  
-  // Buscar dados atualizados da subscription no Stripe
-  const stripeSubscriptionId = subscription.stripe_subscription_id as string;
-  const subResponse = await stripeRequest(`/subscriptions/${stripeSubscriptionId}`);
-  const stripeSubscription = await subResponse.json();
-  
-  if (!subResponse.ok) {
-    console.error('❌ [processSubscriptionRenewal] Erro ao buscar subscription no Stripe:', stripeSubscription);
-    return;
-  }
-  
-  // 🆕 Usa helpers para compatibilidade com API antiga e nova do Stripe
-  const renewalStartUnix = getSubscriptionPeriodStart(stripeSubscription);
-  const renewalEndUnix = getSubscriptionPeriodEnd(stripeSubscription);
-  const newPeriodStartIso = unixToIsoOrNull(renewalStartUnix);
-  const newPeriodEndIso = unixToIsoOrNull(renewalEndUnix);
-
-  console.log('📅 [processSubscriptionRenewal] Novo período:', newPeriodStartIso, 'até', newPeriodEndIso);
-  
-  // Verificar e expirar pacotes avulsos vencidos
-  const metadata = subscription.metadata as Record<string, unknown> || {};
-  const packagePurchases = metadata.package_purchases as Array<Record<string, unknown>> || [];
-  
-  let expiredCredits = 0;
-  const now = new Date();
-  
-  // Filtrar pacotes não expirados e calcular créditos expirados
-  const validPackages = packagePurchases.filter(pkg => {
-    const expirationDate = new Date(pkg.expiration_date as string);
-    const creditsRemaining = (pkg.credits_remaining as number) || 0;
-    
-    if (expirationDate < now) {
-      console.log(`⏰ [processSubscriptionRenewal] Pacote expirado: ${pkg.package_name}, créditos perdidos: ${creditsRemaining}`);
-      expiredCredits += creditsRemaining;
-      return false; // Remover pacote expirado
-    }
-    return true; // Manter pacote válido
-  });
-  
-  // Calcular novo total de créditos avulsos (apenas dos pacotes válidos)
-  const newOverageTotal = validPackages.reduce((sum, pkg) => {
-    return sum + ((pkg.credits_remaining as number) || 0);
-  }, 0);
-  
-  console.log('📊 [processSubscriptionRenewal] Créditos avulsos expirados:', expiredCredits);
-  console.log('📊 [processSubscriptionRenewal] Créditos avulsos válidos restantes:', newOverageTotal);
-  
-  // Atualizar a assinatura: resetar créditos do plano e atualizar período
-  const updateData = {
-    signatures_used: 0, // RESETAR créditos usados do plano
-    current_period_start: newPeriodStartIso,
-    current_period_end: newPeriodEndIso,
-    status: stripeSubscription.status,
-    overage_signatures_available: newOverageTotal, // Atualizar com pacotes válidos
-    metadata: {
-      ...metadata,
-      package_purchases: validPackages, // Manter apenas pacotes válidos
-      last_renewal: {
-        date: now.toISOString(),
-        invoice_id: invoice.id,
-        previous_signatures_used: subscription.signatures_used,
-        expired_overage_credits: expiredCredits,
-      },
-    },
-    updated_at: now.toISOString(),
-  };
-  
-  const { error: updateError } = await supabase
-    .from('subscriptions')
-    .update(updateData)
-    .eq('id', subscription.id);
-  
-  if (updateError) {
-    console.error('❌ [processSubscriptionRenewal] Erro ao atualizar assinatura:', updateError);
-    throw updateError;
-  }
-  
-  console.log('✅ [processSubscriptionRenewal] Assinatura renovada com sucesso!');
-  console.log('📊 [processSubscriptionRenewal] Créditos do plano resetados de', subscription.signatures_used, 'para 0');
-  console.log('📊 [processSubscriptionRenewal] Limite do plano:', subscription.signatures_limit);
-}
-
-async function handleSubscriptionUpdated(subscription: Record<string, unknown>) {
-  console.log('🔄 [handleSubscriptionUpdated] Subscription atualizada:', subscription.id);
-
-  // 🔧 FIX: Buscar a linha completa para preservar metadata (package_purchases) e
-  // para decidir se devemos ou não atualizar plan_type/signatures_limit/stripe_price_id.
-  const { data: existingSubscription } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('stripe_subscription_id', subscription.id)
-    .single();
-
-  if (!existingSubscription) {
-    console.error('❌ [handleSubscriptionUpdated] Assinatura não encontrada no banco de dados');
-    return;
-  }
-
-  const items = subscription.items as { data: Array<{ price: { id: string } }> } | undefined;
-  const stripePriceId = items?.data?.[0]?.price?.id;
-  const stripePlanType = stripePriceId ? (PRICE_TO_PLAN[stripePriceId] || 'creator') : 'creator';
-  const stripeSignaturesLimit = PLAN_LIMITS[stripePlanType] || 50;
-
-  // 🔧 FIX BUG #1: Detectar se a subscription tem um Subscription Schedule ativo
-  // (criado pela função update-subscription quando o usuário pediu downgrade).
-  // Quando há schedule ativo, este evento `customer.subscription.updated` chega
-  // ANTES da troca de fato — então NÃO devemos adiantar plan_type/limit/price_id
-  // no banco. Isso só deve acontecer quando a Fase 2 do Schedule entrar em vigor.
-  const hasActiveSchedule = !!subscription.schedule;
-
-  // 🔧 FIX BUG #1: Detectar mudança de plano para evitar zerar contadores indevidos
-  const planTypeChanged = existingSubscription.plan_type !== stripePlanType;
-
-  // ============================================================
-  // Estratégia de atualização:
-  //  - Sempre atualizamos: status, datas de período, trial, cancel flags
-  //  - Plan/limit/price_id: só atualizamos se NÃO houver schedule ativo
-  //    (caso contrário, mantém os valores atuais até o Schedule executar)
-  //  - Metadata: SEMPRE faz MERGE — nunca sobrescreve, para preservar
-  //    package_purchases, last_renewal e demais campos internos.
-  // ============================================================
-
-  const existingMetadata = (existingSubscription.metadata as Record<string, unknown>) || {};
-  const stripeMetadata = (subscription.metadata as Record<string, unknown>) || {};
-
-  // Merge: campos do Stripe entram, mas campos internos nossos têm prioridade
-  // (package_purchases, last_renewal, last_package_purchase, scheduled_downgrade...)
-  const mergedMetadata: Record<string, unknown> = {
-    ...stripeMetadata,
-    ...existingMetadata,
-  };
-
-  // 🆕 Usa helpers para compatibilidade com API antiga e nova do Stripe
-  // (current_period_start/end podem vir no root OU dentro de items.data[0]).
-  const updatedStartUnix = getSubscriptionPeriodStart(subscription);
-  const updatedEndUnix = getSubscriptionPeriodEnd(subscription);
-  console.log('📅 [handleSubscriptionUpdated] Period start (unix):', updatedStartUnix, '| end (unix):', updatedEndUnix);
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const updateData: Record<string, any> = {
-    status: subscription.status,
-    current_period_start: unixToIsoOrNull(updatedStartUnix),
-    current_period_end: unixToIsoOrNull(updatedEndUnix),
-    trial_start: subscription.trial_start ? new Date((subscription.trial_start as number) * 1000).toISOString() : null,
-    trial_end: subscription.trial_end ? new Date((subscription.trial_end as number) * 1000).toISOString() : null,
-    canceled_at: subscription.canceled_at ? new Date((subscription.canceled_at as number) * 1000).toISOString() : null,
-    ended_at: subscription.ended_at ? new Date((subscription.ended_at as number) * 1000).toISOString() : null,
-    cancel_at_period_end: subscription.cancel_at_period_end || false,
-    metadata: mergedMetadata,
-    updated_at: new Date().toISOString(),
-  };
-
-  if (hasActiveSchedule) {
-    // 🛡️ Há um agendamento (downgrade agendado) — NÃO adiantar a troca de plano.
-    // Os campos plan_type / signatures_limit / stripe_price_id permanecem
-    // como estão no banco até o Schedule executar de fato.
-    console.log('⏰ [handleSubscriptionUpdated] Schedule ativo detectado — preservando plan/limit/price_id atuais');
-    console.log('   plano atual no banco:', existingSubscription.plan_type, '| limit:', existingSubscription.signatures_limit);
-  } else {
-    // Sem schedule: aplicar plano que veio do Stripe
-    updateData.stripe_price_id = stripePriceId;
-    updateData.plan_type = stripePlanType;
-    updateData.signatures_limit = stripeSignaturesLimit;
-
-    if (planTypeChanged) {
-      console.log('📝 [handleSubscriptionUpdated] Plano alterado:', existingSubscription.plan_type, '→', stripePlanType);
-    }
-  }
-
-  console.log('💾 [handleSubscriptionUpdated] Atualizando assinatura');
-
-  const { error } = await supabase
-    .from('subscriptions')
-    .update(updateData)
-    .eq('stripe_subscription_id', subscription.id);
-
-  if (error) {
-    console.error('❌ [handleSubscriptionUpdated] Erro ao atualizar assinatura:', error);
-    throw error;
-  }
-  console.log('✅ [handleSubscriptionUpdated] Assinatura atualizada com sucesso');
-}
-
-async function handleSubscriptionDeleted(subscription: Record<string, unknown>) {
-  console.log('🗑️ [handleSubscriptionDeleted] Subscription deletada:', subscription.id);
-
-  const updateData = {
-    status: 'canceled',
-    ended_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  };
-
-  const { error } = await supabase
-    .from('subscriptions')
-    .update(updateData)
-    .eq('stripe_subscription_id', subscription.id);
-
-  if (error) {
-    console.error('❌ [handleSubscriptionDeleted] Erro ao deletar assinatura:', error);
-    throw error;
-  }
-  console.log('✅ [handleSubscriptionDeleted] Assinatura marcada como cancelada');
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -771,49 +105,44 @@ serve(async (req) => {
       });
     }
 
-    const event = JSON.parse(body);
+    const event = JSON.parse(body) as StripeEvent;
 
     console.log('✅ [serve] Assinatura verificada com sucesso');
     console.log('📨 [serve] Evento recebido:', event.type);
     console.log('📋 [serve] Event ID:', event.id);
 
-    switch (event.type) {
-      case 'checkout.session.completed':
-        console.log('🎯 [serve] Processando checkout.session.completed');
-        await handleCheckoutSessionCompleted(event.data.object);
-        break;
+    // 📥 Persistir antes de processar: reentregas de eventos já concluídos
+    // são confirmadas sem executar os handlers de novo
+    const recorded = await recordStripeEvent(event);
 
-      case 'invoice.paid':
-        console.log('🎯 [serve] Processando invoice.paid');
-        await handleInvoicePaid(event.data.object);
-        break;
-
-      case 'invoice.payment_succeeded':
-        console.log('🎯 [serve] Processando invoice.payment_succeeded');
-        // Também tratar este evento para garantir que renovações sejam capturadas
-        await handleInvoicePaid(event.data.object);
-        break;
-
-      case 'customer.subscription.updated':
-        console.log('🎯 [serve] Processando customer.subscription.updated');
-        await handleSubscriptionUpdated(event.data.object);
-        break;
+    if (recorded.duplicate && (recorded.status === 'processed' || recorded.status === 'ignored')) {
+      console.log('⏭️ [serve] Reentrega de evento já processado, ignorando:', event.id);
+      return new Response(JSON.stringify({ received: true, duplicate: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
 
-      case 'customer.subscription.deleted':
-        console.log('🎯 [serve] Processando customer.subscription.deleted');
-        await handleSubscriptionDeleted(event.data.object);
-        break;
+    const result = await runStripeEvent(event);
 
-      case 'customer.subscription.trial_will_end':
-        console.log('⏰ [serve] Trial vai terminar em breve');
-        break;
+    if (result.status === null) {
+      // Outra entrega do mesmo evento está em processamento: o Stripe tenta de novo
+      return new Response(JSON.stringify({ received: true, in_progress: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 409,
+      });
+    }
 
-      default:
-        console.log('ℹ️ [serve] Evento não tratado:', event.type);
+    if (result.status === 'failed') {
+      // Falha gravada em stripe_events: o Stripe reenvia e o admin pode reprocessar
+      return new Response(JSON.stringify({ error: result.error }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      });
     }
 
     console.log('✅ [serve] Webhook processado com sucesso');
-    return new Response(JSON.stringify({ received: true }), {
+    return new Response(JSON.stringify({ received: true, status: result.status }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200,
     });
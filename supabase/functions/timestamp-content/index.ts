@@ -0,0 +1,114 @@
+// =====================================================
+// EDGE FUNCTION: timestamp-content
+// Carimbo de tempo RFC 3161 para um certificado assinado
+// =====================================================
+//
+// POST { contentId } (usuário autenticado, dono do certificado)
+//   → solicita o carimbo à TSA sobre o content_hash e grava em
+//     signed_contents.tsa_* (ver _shared/timestamping.ts)
+//
+// Chamada pelo app logo após a assinatura (e pelo botão "Obter carimbo"
+// do certificado, caso a TSA esteja indisponível no momento).
+// Um certificado já carimbado devolve o carimbo existente.
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { timestampSignedContent } from '../_shared/timestamping.ts';
+
+interface TimestampContentRequest {
+  contentId: string;
+}
+
+const TIMESTAMP_COLUMNS = 'tsa_token, tsa_url, tsa_name, tsa_serial, tsa_gen_time';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Usuário não autenticado.' }, 401);
+    }
+
+    const body: TimestampContentRequest = await req.json();
+    if (!body.contentId) {
+      return jsonResponse({ success: false, error: 'contentId é obrigatório.' }, 400);
+    }
+
+    const { data: content, error: contentError } = await supabaseAdmin
+      .from('signed_contents')
+      .select(`id, user_id, content_hash, ${TIMESTAMP_COLUMNS}`)
+      .eq('id', body.contentId)
+      .maybeSingle();
+
+    if (contentError || !content || content.user_id !== user.id) {
+      return jsonResponse({ success: false, error: 'Certificado não encontrado.' }, 404);
+    }
+
+    if (content.tsa_token) {
+      const { id: _id, user_id: _userId, content_hash: _hash, ...timestamp } = content;
+      return jsonResponse({ success: true, timestamp });
+    }
+
+    try {
+      const timestamp = await timestampSignedContent(supabaseAdmin, content.id, content.content_hash);
+
+      await supabaseAdmin.from('audit_logs').insert({
+        user_id: user.id,
+        action: 'CONTENT_TIMESTAMPED',
+        details: {
+          content_id: content.id,
+          tsa_url: timestamp.tsa_url,
+          tsa_serial: timestamp.tsa_serial,
+          tsa_gen_time: timestamp.tsa_gen_time,
+        },
+      });
+
+      return jsonResponse({ success: true, timestamp });
+    } catch (tsaError) {
+      console.error('❌ [timestamp-content] Falha na TSA:', tsaError);
+      return jsonResponse({
+        success: false,
+        error: 'Não foi possível obter o carimbo de tempo agora. Tente novamente mais tarde.',
+        details: tsaError instanceof Error ? tsaError.message : undefined,
+      }, 502);
+    }
+  } catch (error) {
+    console.error('❌ [timestamp-content] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
@@ -0,0 +1,397 @@
+// =====================================================
+// EDGE FUNCTION: transparency-log
+// Log de transparência (árvore de Merkle) dos certificados emitidos
+// =====================================================
+//
+// Leitura pública (GET com query string ou POST com JSON):
+//   action=sth                          → último tree head assinado
+//   action=inclusion&contentId=<uuid>   → entrada + prova de inclusão
+//                                         no último tree head
+//   action=consistency&first=<n>&second=<m>
+//                                       → prova de consistência entre
+//                                         dois tree heads publicados
+//   action=entries&start=<i>&count=<n>  → entradas do log (máx. 100)
+//   action=public-key                   → chave pública do log (SPKI)
+//
+// Publicação (somente service_role, chamada pelo cron de hora em hora):
+//   POST { action: 'publish' }          → calcula a raiz atual e grava um
+//                                         novo tree head assinado se o
+//                                         log cresceu
+//
+// As entradas são gravadas pelo trigger append_signed_content_to_log
+// (migration 20261018_transparency_log.sql) no momento da emissão.
+// A chave do log vem de TRANSPARENCY_LOG_SIGNING_KEY (JWK EC P-256).
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { MerkleTree, buildTreeHeadMessage, toHex } from '../_shared/merkle.ts';
+
+type TransparencyAction = 'sth' | 'inclusion' | 'consistency' | 'entries' | 'public-key' | 'publish';
+
+interface TransparencyLogRequest {
+  action?: TransparencyAction;
+  contentId?: string;
+  first?: number | string;
+  second?: number | string;
+  start?: number | string;
+  count?: number | string;
+}
+
+interface TreeHeadRow {
+  tree_size: number;
+  root_hash: string;
+  signed_at: string;
+  signature: string;
+  log_key_id: string;
+}
+
+const ENTRY_COLUMNS = 'leaf_index, content_id, content_hash, key_id, verification_code, issued_at, leaf_hash';
+const TREE_HEAD_COLUMNS = 'tree_size, root_hash, signed_at, signature, log_key_id';
+const MAX_ENTRIES_PER_PAGE = 100;
+const LEAF_BATCH_SIZE = 1000;
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function parseSize(value: number | string | undefined): number | null {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+function formatTreeHead(row: TreeHeadRow) {
+  return {
+    treeSize: Number(row.tree_size),
+    timestamp: row.signed_at,
+    rootHash: row.root_hash,
+    signature: row.signature,
+    logKeyId: row.log_key_id,
+  };
+}
+
+function formatEntry(row: Record<string, unknown>) {
+  return {
+    leafIndex: Number(row.leaf_index),
+    contentId: row.content_id,
+    contentHash: row.content_hash,
+    keyId: row.key_id,
+    verificationCode: row.verification_code,
+    issuedAt: row.issued_at,
+    leafHash: row.leaf_hash,
+  };
+}
+
+/**
+ * Chave de assinatura do log (JWK EC P-256 em TRANSPARENCY_LOG_SIGNING_KEY)
+ */
+async function loadLogKey(): Promise<{ privateKey: CryptoKey; publicKey: string; keyId: string }> {
+  const raw = Deno.env.get('TRANSPARENCY_LOG_SIGNING_KEY');
+  if (!raw) {
+    throw new Error('TRANSPARENCY_LOG_SIGNING_KEY não configurada');
+  }
+
+  const jwk = JSON.parse(raw) as JsonWebKey;
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  // Chave pública derivada do mesmo JWK (sem o componente privado)
+  const { d: _d, key_ops: _ops, ...publicJwk } = jwk;
+  const publicCryptoKey = await crypto.subtle.importKey(
+    'jwk',
+    publicJwk,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['verify']
+  );
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicCryptoKey));
+  const keyId = toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', spki)));
+
+  return { privateKey, publicKey: toBase64(spki), keyId };
+}
+
+/**
+ * Hashes das folhas [0, treeSize) em ordem (paginado)
+ */
+async function loadLeafHashes(supabaseAdmin: SupabaseClient, treeSize: number): Promise<string[]> {
+  const leaves: string[] = [];
+
+  while (leaves.length < treeSize) {
+    const from = leaves.length;
+    const to = Math.min(from + LEAF_BATCH_SIZE, treeSize) - 1;
+    const { data, error } = await supabaseAdmin
+      .from('transparency_log_entries')
+      .select('leaf_index, leaf_hash')
+      .gte('leaf_index', from)
+      .lte('leaf_index', to)
+      .order('leaf_index', { ascending: true });
+
+    if (error) throw error;
+    if (!data || data.length !== to - from + 1) {
+      throw new Error(`Log inconsistente: folhas ${from}..${to} incompletas`);
+    }
+    leaves.push(...data.map((row: { leaf_hash: string }) => row.leaf_hash));
+  }
+
+  return leaves;
+}
+
+async function getLatestTreeHead(supabaseAdmin: SupabaseClient): Promise<TreeHeadRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('transparency_tree_heads')
+    .select(TREE_HEAD_COLUMNS)
+    .order('tree_size', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getTreeHead(supabaseAdmin: SupabaseClient, treeSize: number): Promise<TreeHeadRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('transparency_tree_heads')
+    .select(TREE_HEAD_COLUMNS)
+    .eq('tree_size', treeSize)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * 🌳 Publica um novo tree head assinado (se houver entradas novas)
+ */
+async function publishTreeHead(supabaseAdmin: SupabaseClient): Promise<Response> {
+  const { count, error: countError } = await supabaseAdmin
+    .from('transparency_log_entries')
+    .select('leaf_index', { count: 'exact', head: true });
+
+  if (countError) throw countError;
+
+  const treeSize = count ?? 0;
+  const latest = await getLatestTreeHead(supabaseAdmin);
+
+  if (latest && Number(latest.tree_size) >= treeSize) {
+    console.log('🌳 [transparency-log] Nenhuma entrada nova desde o último tree head:', latest.tree_size);
+    return jsonResponse({ success: true, published: false, sth: formatTreeHead(latest) });
+  }
+
+  const { privateKey, keyId } = await loadLogKey();
+  const tree = new MerkleTree(await loadLeafHashes(supabaseAdmin, treeSize));
+  const payload = {
+    treeSize,
+    timestamp: new Date().toISOString(),
+    rootHash: await tree.root(),
+  };
+
+  // Antes de publicar, confere que o log atual estende o tree head anterior
+  if (latest && Number(latest.tree_size) > 0) {
+    const previousRoot = await tree.root(Number(latest.tree_size));
+    if (previousRoot !== latest.root_hash) {
+      console.error('🚨 [transparency-log] Raiz anterior divergente! Log adulterado?', {
+        treeSize: latest.tree_size,
+        published: latest.root_hash,
+        recomputed: previousRoot,
+      });
+      return jsonResponse({ success: false, error: 'Log inconsistente com o último tree head publicado.' }, 409);
+    }
+  }
+
+  const signature = new Uint8Array(await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    new TextEncoder().encode(buildTreeHeadMessage(payload))
+  ));
+
+  const row: TreeHeadRow = {
+    tree_size: payload.treeSize,
+    root_hash: payload.rootHash,
+    signed_at: payload.timestamp,
+    signature: toBase64(signature),
+    log_key_id: keyId,
+  };
+
+  const { error: insertError } = await supabaseAdmin.from('transparency_tree_heads').insert(row);
+  if (insertError) throw insertError;
+
+  console.log('✅ [transparency-log] Tree head publicado:', row.tree_size, row.root_hash);
+  return jsonResponse({ success: true, published: true, sth: formatTreeHead(row) });
+}
+
+/**
+ * 🔍 Entrada do certificado + prova de inclusão no último tree head
+ */
+async function inclusionProof(supabaseAdmin: SupabaseClient, contentId: string): Promise<Response> {
+  const { data: entry, error } = await supabaseAdmin
+    .from('transparency_log_entries')
+    .select(ENTRY_COLUMNS)
+    .eq('content_id', contentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!entry) {
+    return jsonResponse({ success: false, error: 'Certificado não encontrado no log de transparência.' }, 404);
+  }
+
+  const latest = await getLatestTreeHead(supabaseAdmin);
+  const leafIndex = Number(entry.leaf_index);
+
+  // Emitido depois do último tree head: será incluído na próxima publicação
+  if (!latest || leafIndex >= Number(latest.tree_size)) {
+    return jsonResponse({
+      success: true,
+      pending: true,
+      entry: formatEntry(entry),
+      sth: latest ? formatTreeHead(latest) : null,
+    });
+  }
+
+  const treeSize = Number(latest.tree_size);
+  const tree = new MerkleTree(await loadLeafHashes(supabaseAdmin, treeSize));
+
+  return jsonResponse({
+    success: true,
+    pending: false,
+    entry: formatEntry(entry),
+    sth: formatTreeHead(latest),
+    proof: await tree.inclusionPath(leafIndex, treeSize),
+  });
+}
+
+/**
+ * 🔗 Prova de consistência entre dois tree heads publicados
+ */
+async function consistencyProof(supabaseAdmin: SupabaseClient, first: number, second: number): Promise<Response> {
+  if (first > second) {
+    return jsonResponse({ success: false, error: 'first deve ser menor ou igual a second.' }, 400);
+  }
+
+  const [firstHead, secondHead] = await Promise.all([
+    first === 0 ? null : getTreeHead(supabaseAdmin, first),
+    getTreeHead(supabaseAdmin, second),
+  ]);
+
+  if ((first > 0 && !firstHead) || !secondHead) {
+    return jsonResponse({ success: false, error: 'Tree head não publicado.' }, 404);
+  }
+
+  const proof = first === 0 || first === second
+    ? []
+    : await new MerkleTree(await loadLeafHashes(supabaseAdmin, second)).consistencyProof(first, second);
+
+  return jsonResponse({
+    success: true,
+    first: firstHead ? formatTreeHead(firstHead) : null,
+    second: formatTreeHead(secondHead),
+    proof,
+  });
+}
+
+async function listEntries(supabaseAdmin: SupabaseClient, start: number, count: number): Promise<Response> {
+  const { data, error } = await supabaseAdmin
+    .from('transparency_log_entries')
+    .select(ENTRY_COLUMNS)
+    .gte('leaf_index', start)
+    .order('leaf_index', { ascending: true })
+    .limit(Math.min(count, MAX_ENTRIES_PER_PAGE));
+
+  if (error) throw error;
+  return jsonResponse({ success: true, entries: (data || []).map(formatEntry) });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use GET ou POST.' }, 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const body: TransparencyLogRequest = req.method === 'POST'
+      ? await req.json().catch(() => ({}))
+      : Object.fromEntries(url.searchParams.entries());
+    const action = body.action || 'sth';
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    switch (action) {
+      case 'sth': {
+        const latest = await getLatestTreeHead(supabaseAdmin);
+        if (!latest) {
+          return jsonResponse({ success: false, error: 'Nenhum tree head publicado ainda.' }, 404);
+        }
+        return jsonResponse({ success: true, sth: formatTreeHead(latest) });
+      }
+
+      case 'inclusion': {
+        if (!body.contentId) {
+          return jsonResponse({ success: false, error: 'contentId é obrigatório.' }, 400);
+        }
+        return await inclusionProof(supabaseAdmin, body.contentId);
+      }
+
+      case 'consistency': {
+        const first = parseSize(body.first);
+        const second = parseSize(body.second);
+        if (first === null || second === null) {
+          return jsonResponse({ success: false, error: 'first e second são obrigatórios.' }, 400);
+        }
+        return await consistencyProof(supabaseAdmin, first, second);
+      }
+
+      case 'entries': {
+        const start = parseSize(body.start) ?? 0;
+        const count = parseSize(body.count) || MAX_ENTRIES_PER_PAGE;
+        return await listEntries(supabaseAdmin, start, count);
+      }
+
+      case 'public-key': {
+        const { publicKey, keyId } = await loadLogKey();
+        return jsonResponse({ success: true, publicKey, keyId, algorithm: 'ECDSA P-256 / SHA-256' });
+      }
+
+      case 'publish': {
+        const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+        if (req.method !== 'POST' || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+          return jsonResponse({ success: false, error: 'Não autorizado.' }, 403);
+        }
+        return await publishTreeHead(supabaseAdmin);
+      }
+
+      default:
+        return jsonResponse({ success: false, error: `Ação desconhecida: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('❌ [transparency-log] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
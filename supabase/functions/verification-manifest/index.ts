@@ -0,0 +1,240 @@
+// =====================================================
+// EDGE FUNCTION: verification-manifest
+// Emissão do manifesto de verificação (JSON) assinado com a chave
+// do criador do certificado
+// =====================================================
+//
+// POST { certificateId } — apenas o dono do certificado (JWT do chamador)
+// O corpo do manifesto é montado a partir do banco — nunca do cliente.
+// A seção `attestation` assina MANIFEST_SIGNING_CONTEXT + SHA-256 do corpo
+// canônico (tudo exceto a própria attestation) com a chave que assinou o
+// certificado: qualquer alteração em criador, datas, arquivo, carrossel ou
+// plataformas invalida o manifesto. Chaves revogadas são recusadas.
+// =====================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { generateHash, signHash, SIGNATURE_PREFIX_V2 } from '../sign-content/crypto.ts';
+import { recoverPrivateKey, type KeyPairSecretRow } from '../_shared/key-wrapping.ts';
+
+const MANIFEST_VERSION = 'veroid-manifest/3';
+const MANIFEST_SIGNING_CONTEXT = 'veroid-manifest-v1\n';
+const PUBLIC_BASE_URL = 'https://www.veroid.com.br';
+
+interface VerificationManifestRequest {
+  certificateId?: string;
+}
+
+interface CarouselImageRow {
+  order: number;
+  name: string;
+  size: number;
+  mime_type: string;
+  sha256?: string;
+}
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * JSON canônico (mesmo algoritmo de canonicalizeJson no frontend)
+ */
+function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalizeJson(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalizeJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+function decodePublicKeyJwk(publicKey: string): JsonWebKey | null {
+  if (!publicKey?.startsWith('VID-PUB-')) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(atob(publicKey.substring('VID-PUB-'.length)));
+  } catch {
+    return null;
+  }
+}
+
+function buildCarouselSection(carouselMetadata: unknown, totalImages: number | null) {
+  let metadata = carouselMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const images = (metadata as { carousel_images?: CarouselImageRow[]; total_images?: number } | null)?.carousel_images;
+  if (!images?.length) {
+    return null;
+  }
+
+  return {
+    totalImages: totalImages || (metadata as { total_images?: number }).total_images || images.length,
+    images: [...images]
+      .sort((a, b) => a.order - b.order)
+      .map(image => ({
+        order: image.order,
+        name: image.name,
+        size: image.size,
+        mimeType: image.mime_type,
+        sha256: image.sha256 || null,
+      })),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Método não permitido. Use POST.' }, 405);
+  }
+
+  try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    const body: VerificationManifestRequest = await req.json().catch(() => ({}));
+    if (!body.certificateId || typeof body.certificateId !== 'string') {
+      return jsonResponse({ success: false, error: 'certificateId é obrigatório.' }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'Não autorizado.' }, 401);
+    }
+
+    // 1. Certificado (fonte de verdade: banco)
+    const { data: content, error: contentError } = await supabaseAdmin
+      .from('signed_contents')
+      .select('id, user_id, content, content_hash, signature, public_key, key_id, verification_code, creator_name, created_at, file_name, file_size, mime_type, file_hash, carousel_metadata, total_images, platforms')
+      .eq('id', body.certificateId)
+      .maybeSingle();
+
+    if (contentError || !content) {
+      return jsonResponse({ success: false, error: 'Certificado não encontrado.' }, 404);
+    }
+    if (content.user_id !== user.id) {
+      return jsonResponse({ success: false, error: 'Apenas o criador pode emitir o manifesto deste certificado.' }, 403);
+    }
+
+    // 2. Chave que assinou o certificado
+    let keyQuery = supabaseAdmin
+      .from('key_pairs')
+      .select('id, user_id, public_key, status, encrypted_private_key, private_key, wrapped_dek, key_salt, key_version')
+      .eq('user_id', content.user_id);
+
+    keyQuery = content.key_id
+      ? keyQuery.eq('id', content.key_id)
+      : keyQuery.eq('public_key', content.public_key);
+
+    const { data: keyRow, error: keyError } = await keyQuery.limit(1).maybeSingle();
+    if (keyError || !keyRow || keyRow.public_key !== content.public_key) {
+      return jsonResponse({ success: false, error: 'Chave do criador não encontrada.' }, 404);
+    }
+    if (keyRow.status === 'revoked') {
+      return jsonResponse({ success: false, error: 'A chave deste certificado foi revogada.' }, 409);
+    }
+
+    // 3. Corpo do manifesto (mesmo layout de VerificationManifest no frontend)
+    const legacy = !content.signature?.startsWith(SIGNATURE_PREFIX_V2);
+    const manifestBody = {
+      version: MANIFEST_VERSION,
+      generatedAt: new Date().toISOString(),
+      certificate: {
+        id: content.id,
+        verificationCode: content.verification_code,
+        createdAt: content.created_at,
+        verifyUrl: `${PUBLIC_BASE_URL}/verify?code=${encodeURIComponent(content.verification_code)}`,
+      },
+      creator: {
+        userId: content.user_id,
+        name: content.creator_name || null,
+      },
+      content: {
+        text: content.content,
+        hash: content.content_hash,
+        hashAlgorithm: 'SHA-256',
+      },
+      signature: {
+        format: legacy ? 'legacy' : 'VID-SIG-v2',
+        algorithm: legacy ? 'unknown' : 'ECDSA-P256-SHA256',
+        value: content.signature,
+        publicKey: content.public_key,
+        publicKeyJwk: decodePublicKeyJwk(content.public_key),
+      },
+      file: content.file_name
+        ? {
+            name: content.file_name,
+            size: content.file_size ?? null,
+            mimeType: content.mime_type || null,
+            sha256: content.file_hash || null,
+          }
+        : null,
+      carousel: buildCarouselSection(content.carousel_metadata, content.total_images),
+      platforms: content.platforms || [],
+    };
+
+    // 4. Attestation sobre o corpo canônico
+    const bodyHash = await generateHash(canonicalizeJson(manifestBody));
+    const { privateKey } = await recoverPrivateKey(keyRow as KeyPairSecretRow);
+    const attestationValue = await signHash(`${MANIFEST_SIGNING_CONTEXT}${bodyHash}`, privateKey);
+
+    console.log('✅ [verification-manifest] Manifesto emitido:', { certificateId: content.id });
+
+    return jsonResponse({
+      success: true,
+      manifest: {
+        ...manifestBody,
+        attestation: {
+          algorithm: 'ECDSA-P256-SHA256',
+          bodyHash,
+          keyId: keyRow.id,
+          publicKey: keyRow.public_key,
+          value: attestationValue,
+        },
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ [verification-manifest] Erro interno:', error);
+    return jsonResponse({
+      success: false,
+      error: `Erro interno: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+    }, 500);
+  }
+});
@@ -0,0 +1,201 @@
+-- =====================================================
+-- API KEY SCOPES (assinatura programática)
+-- =====================================================
+-- Migration: escopos nas chaves de API
+-- Created: 2026-10-18
+-- Description:
+--   1. api_keys.scopes: 'verify' (API pública) e 'sign' (sign-content)
+--   2. create_api_key(): recebe os escopos da nova chave
+--   3. consume_api_request(): exige o escopo do endpoint
+--      (novo reason: insufficient_scope) e, no escopo 'sign', saldo de
+--      autenticações do plano (novo reason: no_signatures_available)
+-- Chaves existentes continuam apenas com 'verify'.
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMN: api_keys.scopes
+-- =====================================================
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['verify'];
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_check;
+ALTER TABLE api_keys
+  ADD CONSTRAINT api_keys_scopes_check
+  CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['verify', 'sign']);
+
+COMMENT ON COLUMN api_keys.scopes IS 'Escopos da chave: verify (consulta/verificação) e sign (assinatura programática)';
+
+-- =====================================================
+-- 2. FUNCTION: create_api_key (com escopos)
+-- =====================================================
+
+DROP FUNCTION IF EXISTS create_api_key(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION create_api_key(
+  p_name TEXT,
+  p_key_prefix TEXT,
+  p_key_hash TEXT,
+  p_scopes TEXT[] DEFAULT ARRAY['verify']
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_plan RECORD;
+  v_active_keys INTEGER;
+  v_key_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_scopes IS NULL OR cardinality(p_scopes) = 0 OR NOT (p_scopes <@ ARRAY['verify', 'sign']) THEN
+    RAISE EXCEPTION 'Escopos inválidos';
+  END IF;
+
+  SELECT * INTO v_plan FROM get_api_plan(v_user_id);
+
+  IF v_plan.max_keys = 0 THEN
+    RAISE EXCEPTION 'Seu plano não inclui acesso à API';
+  END IF;
+
+  SELECT COUNT(*) INTO v_active_keys
+  FROM api_keys
+  WHERE user_id = v_user_id AND revoked_at IS NULL;
+
+  IF v_active_keys >= v_plan.max_keys THEN
+    RAISE EXCEPTION 'Limite de % chaves ativas atingido', v_plan.max_keys;
+  END IF;
+
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash, scopes)
+  VALUES (v_user_id, trim(p_name), p_key_prefix, p_key_hash, ARRAY(SELECT DISTINCT unnest(p_scopes)))
+  RETURNING id INTO v_key_id;
+
+  RETURN v_key_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_api_key(TEXT, TEXT, TEXT, TEXT[]) TO authenticated;
+
+-- =====================================================
+-- 3. FUNCTION: consume_api_request (com escopo)
+-- =====================================================
+-- reason: ok | invalid_key | revoked_key | insufficient_scope | plan_required
+--         | no_signatures_available | rate_limited | quota_exceeded
+--
+-- A cota de requisições é só um teto de uso da API. Cada assinatura via API
+-- consome uma autenticação do mesmo saldo da assinatura pelo site
+-- (debit_signature, na sign-content); sem saldo, 'sign' é recusado aqui,
+-- sem gastar a cota de requisições.
+
+DROP FUNCTION IF EXISTS consume_api_request(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION consume_api_request(
+  p_key_hash TEXT,
+  p_endpoint TEXT,
+  p_scope TEXT DEFAULT 'verify'
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  reason TEXT,
+  user_id UUID,
+  api_key_id UUID,
+  rate_limit INTEGER,
+  rate_remaining INTEGER,
+  quota_limit INTEGER,
+  quota_remaining INTEGER,
+  period_end TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+  v_plan RECORD;
+  v_minute_count INTEGER;
+  v_period_count INTEGER;
+BEGIN
+  -- Bloqueia a linha da chave: requisições simultâneas são serializadas
+  SELECT * INTO v_key FROM api_keys k WHERE k.key_hash = p_key_hash FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'invalid_key', NULL::UUID, NULL::UUID, 0, 0, 0, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF v_key.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT false, 'revoked_key', v_key.user_id, v_key.id, 0, 0, 0, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF NOT (p_scope = ANY(v_key.scopes)) THEN
+    RETURN QUERY SELECT false, 'insufficient_scope', v_key.user_id, v_key.id, 0, 0, 0, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_plan FROM get_api_plan(v_key.user_id);
+
+  IF v_plan.requests_per_month = 0 THEN
+    RETURN QUERY SELECT false, 'plan_required', v_key.user_id, v_key.id, 0, 0, 0, 0, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  -- signature_availability: 20261018_organizations.sql (mesma regra do débito)
+  IF p_scope = 'sign'
+     AND COALESCE((SELECT sa.total_available FROM signature_availability(v_key.user_id) sa), 0) <= 0 THEN
+    RETURN QUERY SELECT false, 'no_signatures_available', v_key.user_id, v_key.id, 0, 0, 0, 0, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_minute_count
+  FROM api_usage u
+  WHERE u.api_key_id = v_key.id
+    AND u.created_at > NOW() - INTERVAL '1 minute';
+
+  IF v_minute_count >= v_plan.requests_per_minute THEN
+    RETURN QUERY SELECT false, 'rate_limited', v_key.user_id, v_key.id,
+      v_plan.requests_per_minute, 0, v_plan.requests_per_month, NULL::INTEGER, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  -- Cota mensal compartilhada por todas as chaves do usuário
+  SELECT COUNT(*) INTO v_period_count
+  FROM api_usage u
+  WHERE u.user_id = v_key.user_id
+    AND u.created_at >= v_plan.period_start;
+
+  IF v_plan.requests_per_month IS NOT NULL AND v_period_count >= v_plan.requests_per_month THEN
+    RETURN QUERY SELECT false, 'quota_exceeded', v_key.user_id, v_key.id,
+      v_plan.requests_per_minute, v_plan.requests_per_minute - v_minute_count,
+      v_plan.requests_per_month, 0, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  INSERT INTO api_usage (api_key_id, user_id, endpoint)
+  VALUES (v_key.id, v_key.user_id, p_endpoint);
+
+  UPDATE api_keys SET last_used_at = NOW() WHERE id = v_key.id;
+
+  RETURN QUERY SELECT true, 'ok', v_key.user_id, v_key.id,
+    v_plan.requests_per_minute,
+    v_plan.requests_per_minute - v_minute_count - 1,
+    v_plan.requests_per_month,
+    CASE WHEN v_plan.requests_per_month IS NULL THEN NULL
+         ELSE v_plan.requests_per_month - v_period_count - 1 END,
+    v_plan.period_end;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_api_request(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_request(TEXT, TEXT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION consume_api_request IS 'Valida chave de API e escopo, aplica rate limit/cota do plano e registra o uso';
+
+COMMIT;
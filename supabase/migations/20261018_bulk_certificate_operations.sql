@@ -0,0 +1,53 @@
+-- =====================================================
+-- OPERAÇÕES EM LOTE NOS CERTIFICADOS
+-- =====================================================
+-- Migration: Exclusão de vários certificados em uma chamada
+-- Created: 2026-10-18
+-- Description:
+--   1. delete_signed_contents(): exclui os certificados do usuário
+--      autenticado e devolve os dados de Storage de cada um para a
+--      limpeza dos arquivos (feita pelo frontend com deleteFile /
+--      deleteCarouselImages, que validam o dono pelo path)
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. FUNCTION: delete_signed_contents
+-- =====================================================
+-- IDs de outros usuários são ignorados silenciosamente
+
+CREATE OR REPLACE FUNCTION delete_signed_contents(p_content_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  verification_code TEXT,
+  file_path TEXT,
+  storage_bucket TEXT,
+  carousel_metadata JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  IF cardinality(p_content_ids) > 500 THEN
+    RAISE EXCEPTION 'Máximo de 500 certificados por operação' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  DELETE FROM signed_contents sc
+   WHERE sc.id = ANY(p_content_ids)
+     AND sc.user_id = auth.uid()
+  RETURNING sc.id, sc.verification_code::text, sc.file_path::text, sc.storage_bucket::text, sc.carousel_metadata::jsonb;
+END;
+$$;
+
+COMMENT ON FUNCTION delete_signed_contents IS 'Exclui certificados do usuário autenticado e retorna os arquivos a remover do Storage';
+
+GRANT EXECUTE ON FUNCTION delete_signed_contents(UUID[]) TO authenticated;
+
+COMMIT;
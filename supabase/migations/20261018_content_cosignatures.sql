@@ -0,0 +1,341 @@
+-- =====================================================
+-- CO-ASSINATURA DE CERTIFICADOS
+-- =====================================================
+-- Migration: Vários signatários para o mesmo conteúdo
+-- Created: 2026-10-18
+-- Description:
+--   1. content_cosigners: convites e contra-assinaturas (cada uma com
+--      chave, data e papel próprios) sobre o content_hash do certificado
+--   2. invite_cosigner() / cancel_cosigner(): gestão pelo dono
+--   3. get_my_cosign_requests() / submit_cosignature() /
+--      decline_cosign_request(): fluxo do convidado
+--   4. get_content_cosignatures(): leitura pública (certificado e /verify)
+--
+-- A assinatura ECDSA não é validada no banco: o certificado e a página
+-- de verificação conferem cada contra-assinatura com a chave pública.
+-- O banco garante que a chave é a chave ATIVA do convidado.
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: content_cosigners
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS content_cosigners (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES signed_contents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  invited_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (char_length(role) BETWEEN 2 AND 40),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'signed', 'declined', 'cancelled')),
+  -- Preenchidos na contra-assinatura
+  signature TEXT,
+  public_key TEXT,
+  key_id UUID REFERENCES key_pairs(id) ON DELETE SET NULL,
+  signer_name TEXT,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (content_id, user_id),
+  CHECK (status <> 'signed' OR (signature IS NOT NULL AND public_key IS NOT NULL AND signed_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS content_cosigners_user_status_idx
+  ON content_cosigners(user_id, status);
+
+COMMENT ON TABLE content_cosigners IS 'Convites e contra-assinaturas de certificados (co-assinatura)';
+COMMENT ON COLUMN content_cosigners.role IS 'Papel do co-signatário (ex: Criador, Anunciante, Marca)';
+COMMENT ON COLUMN content_cosigners.signature IS 'Assinatura VID-SIG-v2 do content_hash com a chave do co-signatário';
+
+-- =====================================================
+-- 2. RLS
+-- =====================================================
+-- Escrita apenas pelas funções abaixo (SECURITY DEFINER)
+
+ALTER TABLE content_cosigners ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view cosigners" ON content_cosigners;
+CREATE POLICY "Participants can view cosigners"
+  ON content_cosigners
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM signed_contents sc
+      WHERE sc.id = content_id
+        AND sc.user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- 3. FUNCTION: invite_cosigner
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION invite_cosigner(
+  p_content_id UUID,
+  p_email TEXT,
+  p_role TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitee UUID;
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM signed_contents
+    WHERE id = p_content_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Certificado não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT id INTO v_invitee
+    FROM users
+   WHERE lower(email) = lower(trim(p_email));
+
+  IF v_invitee IS NULL THEN
+    RAISE EXCEPTION 'Nenhum usuário do Vero iD com este e-mail' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invitee = auth.uid() THEN
+    RAISE EXCEPTION 'Você já é o signatário principal deste certificado' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(*) FROM content_cosigners
+       WHERE content_id = p_content_id AND status <> 'cancelled') >= 10 THEN
+    RAISE EXCEPTION 'Máximo de 10 co-signatários por certificado' USING ERRCODE = '22023';
+  END IF;
+
+  -- Reconvidar quem recusou ou foi cancelado reabre o convite
+  INSERT INTO content_cosigners (content_id, user_id, invited_by, role)
+  VALUES (p_content_id, v_invitee, auth.uid(), trim(p_role))
+  ON CONFLICT (content_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role,
+        status = 'pending',
+        responded_at = NULL,
+        created_at = NOW()
+    WHERE content_cosigners.status IN ('declined', 'cancelled')
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Este usuário já foi convidado' USING ERRCODE = '23505';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION invite_cosigner(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 4. FUNCTION: cancel_cosigner
+-- =====================================================
+-- Contra-assinaturas já feitas não podem ser removidas
+
+CREATE OR REPLACE FUNCTION cancel_cosigner(p_cosigner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE content_cosigners cc
+     SET status = 'cancelled',
+         responded_at = NOW()
+    FROM signed_contents sc
+   WHERE cc.id = p_cosigner_id
+     AND sc.id = cc.content_id
+     AND sc.user_id = auth.uid()
+     AND cc.status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convite pendente não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_cosigner(UUID) TO authenticated;
+
+-- =====================================================
+-- 5. FUNCTION: get_my_cosign_requests
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_my_cosign_requests()
+RETURNS TABLE (
+  id UUID,
+  content_id UUID,
+  role TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  content TEXT,
+  content_hash TEXT,
+  verification_code TEXT,
+  thumbnail TEXT,
+  inviter_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cc.id,
+    cc.content_id,
+    cc.role,
+    cc.created_at,
+    sc.content::text,
+    sc.content_hash::text,
+    sc.verification_code::text,
+    sc.thumbnail::text,
+    sc.creator_name::text
+  FROM content_cosigners cc
+  JOIN signed_contents sc ON sc.id = cc.content_id
+  WHERE cc.user_id = auth.uid()
+    AND cc.status = 'pending'
+  ORDER BY cc.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_cosign_requests() TO authenticated;
+
+-- =====================================================
+-- 6. FUNCTION: submit_cosignature
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION submit_cosignature(
+  p_cosigner_id UUID,
+  p_signature TEXT,
+  p_public_key TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key_id UUID;
+  v_signer_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_signature IS NULL OR p_signature NOT LIKE 'VID-SIG-v2:%' THEN
+    RAISE EXCEPTION 'Formato de assinatura inválido' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_key_id
+    FROM key_pairs
+   WHERE user_id = auth.uid()
+     AND public_key = p_public_key
+     AND status = 'active';
+
+  IF v_key_id IS NULL THEN
+    RAISE EXCEPTION 'A chave informada não é a sua chave ativa' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT coalesce(nullif(nome_publico, ''), nome_completo) INTO v_signer_name
+    FROM users
+   WHERE id = auth.uid();
+
+  UPDATE content_cosigners
+     SET status = 'signed',
+         signature = p_signature,
+         public_key = p_public_key,
+         key_id = v_key_id,
+         signer_name = v_signer_name,
+         signed_at = NOW(),
+         responded_at = NOW()
+   WHERE id = p_cosigner_id
+     AND user_id = auth.uid()
+     AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convite pendente não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_cosignature(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 7. FUNCTION: decline_cosign_request
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION decline_cosign_request(p_cosigner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE content_cosigners
+     SET status = 'declined',
+         responded_at = NOW()
+   WHERE id = p_cosigner_id
+     AND user_id = auth.uid()
+     AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convite pendente não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decline_cosign_request(UUID) TO authenticated;
+
+-- =====================================================
+-- 8. FUNCTION: get_content_cosignatures
+-- =====================================================
+-- Pública: e-mails dos convidados nunca são expostos;
+-- convites cancelados não aparecem
+
+CREATE OR REPLACE FUNCTION get_content_cosignatures(p_content_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  role TEXT,
+  status TEXT,
+  signer_name TEXT,
+  signature TEXT,
+  public_key TEXT,
+  key_id UUID,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cc.id,
+    cc.user_id,
+    cc.role,
+    cc.status,
+    coalesce(cc.signer_name, nullif(u.nome_publico, ''), u.nome_completo)::text,
+    cc.signature,
+    cc.public_key,
+    cc.key_id,
+    cc.signed_at,
+    cc.created_at
+  FROM content_cosigners cc
+  JOIN users u ON u.id = cc.user_id
+  WHERE cc.content_id = p_content_id
+    AND cc.status <> 'cancelled'
+  ORDER BY cc.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_content_cosignatures(UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION get_content_cosignatures IS 'Co-signatários e contra-assinaturas de um certificado (leitura pública)';
+
+COMMIT;
@@ -0,0 +1,227 @@
+-- =====================================================
+-- LINHAGEM DE CERTIFICADOS (OBRAS DERIVADAS)
+-- =====================================================
+-- Migration: Versões e derivações de um conteúdo assinado
+-- Created: 2026-10-18
+-- Description:
+--   1. signed_contents.parent_content_id / relation_type: certificado
+--      de origem e tipo da relação (revision, crop, translation, remix)
+--   2. Trigger que valida a relação (dono, ciclos, imutabilidade)
+--   3. link_content_to_parent(): registra a origem logo após assinar
+--      (usado pelos dois métodos de assinatura)
+--   4. get_content_lineage(): ancestrais e descendentes (leitura pública,
+--      como o próprio certificado)
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMNS: parent_content_id, relation_type
+-- =====================================================
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS parent_content_id UUID REFERENCES signed_contents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS relation_type TEXT;
+
+ALTER TABLE signed_contents
+  DROP CONSTRAINT IF EXISTS signed_contents_relation_type_check;
+ALTER TABLE signed_contents
+  ADD CONSTRAINT signed_contents_relation_type_check
+  CHECK (relation_type IS NULL OR relation_type IN ('revision', 'crop', 'translation', 'remix'));
+
+-- Exclusão do pai (ON DELETE SET NULL) mantém o tipo da relação como histórico
+ALTER TABLE signed_contents
+  DROP CONSTRAINT IF EXISTS signed_contents_parent_requires_relation;
+ALTER TABLE signed_contents
+  ADD CONSTRAINT signed_contents_parent_requires_relation
+  CHECK (parent_content_id IS NULL OR relation_type IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS signed_contents_parent_content_id_idx
+  ON signed_contents(parent_content_id)
+  WHERE parent_content_id IS NOT NULL;
+
+COMMENT ON COLUMN signed_contents.parent_content_id IS 'Certificado de origem (obra derivada)';
+COMMENT ON COLUMN signed_contents.relation_type IS 'Relação com o certificado de origem: revision, crop, translation ou remix';
+
+-- =====================================================
+-- 2. TRIGGER: validate_content_lineage
+-- =====================================================
+-- - A origem não pode ser alterada depois de definida
+-- - revision/crop/translation exigem o mesmo dono; remix aceita
+--   conteúdo de outro criador
+-- - Impede ciclos (o pai não pode descender do próprio conteúdo)
+
+CREATE OR REPLACE FUNCTION validate_content_lineage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_parent_owner UUID;
+BEGIN
+  IF NEW.parent_content_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.parent_content_id IS NOT NULL
+     AND OLD.parent_content_id IS DISTINCT FROM NEW.parent_content_id THEN
+    RAISE EXCEPTION 'A origem de um certificado não pode ser alterada' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.parent_content_id IS NOT DISTINCT FROM NEW.parent_content_id
+     AND OLD.relation_type IS NOT DISTINCT FROM NEW.relation_type THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_content_id = NEW.id THEN
+    RAISE EXCEPTION 'Um certificado não pode derivar de si mesmo' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id INTO v_parent_owner
+    FROM signed_contents
+   WHERE id = NEW.parent_content_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificado de origem não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NEW.relation_type <> 'remix' AND v_parent_owner <> NEW.user_id THEN
+    RAISE EXCEPTION 'Revisões, recortes e traduções só podem derivar de certificados próprios' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT sc.id, sc.parent_content_id, 1 AS depth
+        FROM signed_contents sc
+       WHERE sc.id = NEW.parent_content_id
+      UNION ALL
+      SELECT sc.id, sc.parent_content_id, a.depth + 1
+        FROM signed_contents sc
+        JOIN ancestors a ON sc.id = a.parent_content_id
+       WHERE a.depth < 100
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A relação criaria um ciclo na linhagem' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_content_lineage_trigger ON signed_contents;
+CREATE TRIGGER validate_content_lineage_trigger
+  BEFORE INSERT OR UPDATE OF parent_content_id, relation_type ON signed_contents
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_content_lineage();
+
+-- =====================================================
+-- 3. FUNCTION: link_content_to_parent
+-- =====================================================
+-- A Edge Function sign-content grava apenas os campos assinados;
+-- a origem é registrada em seguida pelo dono do certificado
+
+CREATE OR REPLACE FUNCTION link_content_to_parent(
+  p_content_id UUID,
+  p_parent_content_id UUID,
+  p_relation_type TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE signed_contents
+     SET parent_content_id = p_parent_content_id,
+         relation_type = p_relation_type
+   WHERE id = p_content_id
+     AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificado não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION link_content_to_parent(UUID, UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION link_content_to_parent IS 'Registra o certificado de origem de uma obra derivada (apenas o dono, uma única vez)';
+
+-- =====================================================
+-- 4. FUNCTION: get_content_lineage
+-- =====================================================
+-- depth < 0 = ancestrais (-1 = pai), 0 = o próprio certificado,
+-- depth > 0 = descendentes (1 = filhos diretos)
+
+CREATE OR REPLACE FUNCTION get_content_lineage(
+  p_content_id UUID,
+  p_max_depth INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  parent_content_id UUID,
+  relation_type TEXT,
+  depth INTEGER,
+  verification_code TEXT,
+  creator_name TEXT,
+  file_name TEXT,
+  thumbnail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE
+  ancestors AS (
+    SELECT sc.id, sc.parent_content_id, 0 AS depth
+      FROM signed_contents sc
+     WHERE sc.id = p_content_id
+    UNION ALL
+    SELECT sc.id, sc.parent_content_id, a.depth - 1
+      FROM signed_contents sc
+      JOIN ancestors a ON sc.id = a.parent_content_id
+     WHERE a.depth > -LEAST(GREATEST(p_max_depth, 1), 50)
+  ),
+  descendants AS (
+    SELECT sc.id, sc.parent_content_id, 1 AS depth
+      FROM signed_contents sc
+     WHERE sc.parent_content_id = p_content_id
+    UNION ALL
+    SELECT sc.id, sc.parent_content_id, d.depth + 1
+      FROM signed_contents sc
+      JOIN descendants d ON sc.parent_content_id = d.id
+     WHERE d.depth < LEAST(GREATEST(p_max_depth, 1), 50)
+  ),
+  lineage AS (
+    SELECT * FROM ancestors
+    UNION ALL
+    SELECT * FROM descendants
+  )
+  SELECT
+    sc.id,
+    sc.parent_content_id,
+    sc.relation_type,
+    l.depth,
+    sc.verification_code::text,
+    sc.creator_name::text,
+    sc.file_name::text,
+    sc.thumbnail::text,
+    sc.created_at
+  FROM lineage l
+  JOIN signed_contents sc ON sc.id = l.id
+  ORDER BY l.depth, sc.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_content_lineage(UUID, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION get_content_lineage IS 'Ancestrais e descendentes de um certificado (grafo de obras derivadas)';
+
+COMMIT;
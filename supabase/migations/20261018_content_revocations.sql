@@ -0,0 +1,429 @@
+-- =====================================================
+-- REVOGAÇÃO E DISPUTA DE CERTIFICADOS
+-- =====================================================
+-- Migration: Revogar certificados sem apagar o registro original
+-- Created: 2026-10-18
+-- Description:
+--   1. signed_contents.revoked_*: revogação irreversível com motivo,
+--      observação, autor e data (o certificado continua visível)
+--   2. signed_contents.disputed_*: certificado em disputa, marcado por
+--      um administrador ao aceitar uma denúncia para análise
+--   3. content_reports: denúncias de terceiros feitas no /certificate
+--   4. revoke_signed_content(): dono ou administrador
+--   5. report_signed_content(): qualquer visitante (com e-mail)
+--   6. admin_list_content_reports() / admin_review_content_report():
+--      fila de análise na área administrativa
+--   7. Trigger que impede alterar revogação/disputa fora das funções
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMNS: revogação e disputa
+-- =====================================================
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revocation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS revocation_note TEXT,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS dispute_reason TEXT;
+
+ALTER TABLE signed_contents
+  DROP CONSTRAINT IF EXISTS signed_contents_revocation_reason_check;
+ALTER TABLE signed_contents
+  ADD CONSTRAINT signed_contents_revocation_reason_check
+  CHECK (
+    (revoked_at IS NULL AND revocation_reason IS NULL)
+    OR (revoked_at IS NOT NULL AND revocation_reason IN (
+      'signed_by_mistake', 'copyright_dispute', 'key_compromise', 'content_error', 'other'
+    ))
+  );
+
+CREATE INDEX IF NOT EXISTS signed_contents_revoked_at_idx
+  ON signed_contents(revoked_at)
+  WHERE revoked_at IS NOT NULL;
+
+COMMENT ON COLUMN signed_contents.revoked_at IS 'Data da revogação (NULL = certificado válido)';
+COMMENT ON COLUMN signed_contents.revocation_reason IS 'signed_by_mistake | copyright_dispute | key_compromise | content_error | other';
+COMMENT ON COLUMN signed_contents.revocation_note IS 'Observação pública exibida junto à revogação';
+COMMENT ON COLUMN signed_contents.revoked_by IS 'Quem revogou (dono ou administrador)';
+COMMENT ON COLUMN signed_contents.disputed_at IS 'Certificado em disputa desde (denúncia em análise)';
+COMMENT ON COLUMN signed_contents.dispute_reason IS 'Motivo da denúncia em análise';
+
+-- =====================================================
+-- 2. TABLE: content_reports
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS content_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES signed_contents(id) ON DELETE CASCADE,
+  -- NULL para visitantes não logados
+  reporter_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  reporter_email TEXT NOT NULL CHECK (reporter_email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  reason TEXT NOT NULL
+    CHECK (reason IN ('copyright', 'impersonation', 'fraudulent', 'signed_by_mistake', 'other')),
+  details TEXT NOT NULL CHECK (char_length(details) BETWEEN 10 AND 2000),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'under_review', 'dismissed', 'upheld')),
+  resolution_note TEXT,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS content_reports_status_idx
+  ON content_reports(status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS content_reports_content_idx
+  ON content_reports(content_id);
+
+-- Limites de report_signed_content (visitantes e usuários logados)
+CREATE INDEX IF NOT EXISTS content_reports_anonymous_idx
+  ON content_reports(created_at DESC)
+  WHERE reporter_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS content_reports_reporter_idx
+  ON content_reports(reporter_id, created_at DESC)
+  WHERE reporter_id IS NOT NULL;
+
+COMMENT ON TABLE content_reports IS 'Denúncias/disputas de certificados feitas por terceiros';
+COMMENT ON COLUMN content_reports.status IS 'open → under_review (certificado em disputa) → dismissed | upheld (certificado revogado)';
+
+-- Leitura e escrita apenas pelas funções abaixo (SECURITY DEFINER)
+ALTER TABLE content_reports ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 3. TRIGGER: protect_content_revocation
+-- =====================================================
+-- As funções abaixo rodam como dono (SECURITY DEFINER), então
+-- current_user distingue a escrita direta do cliente (anon/authenticated).
+
+CREATE OR REPLACE FUNCTION protect_content_revocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.revoked_at IS NOT NULL OR NEW.disputed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Um certificado não pode ser emitido já revogado ou em disputa' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.revoked_at IS NOT DISTINCT FROM NEW.revoked_at
+     AND OLD.revocation_reason IS NOT DISTINCT FROM NEW.revocation_reason
+     AND OLD.revocation_note IS NOT DISTINCT FROM NEW.revocation_note
+     AND OLD.revoked_by IS NOT DISTINCT FROM NEW.revoked_by
+     AND OLD.disputed_at IS NOT DISTINCT FROM NEW.disputed_at
+     AND OLD.dispute_reason IS NOT DISTINCT FROM NEW.dispute_reason THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Use revoke_signed_content() para revogar um certificado' USING ERRCODE = '42501';
+  END IF;
+
+  -- Revogação é definitiva
+  IF OLD.revoked_at IS NOT NULL
+     AND (NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+          OR NEW.revocation_reason IS DISTINCT FROM OLD.revocation_reason) THEN
+    RAISE EXCEPTION 'A revogação de um certificado não pode ser desfeita' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_content_revocation_trigger ON signed_contents;
+CREATE TRIGGER protect_content_revocation_trigger
+  BEFORE INSERT OR UPDATE ON signed_contents
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_content_revocation();
+
+-- =====================================================
+-- 4. FUNCTION: revoke_signed_content
+-- =====================================================
+-- Dono do certificado ou administrador. Denúncias abertas do
+-- certificado são encerradas junto (o certificado já está revogado).
+
+CREATE OR REPLACE FUNCTION revoke_signed_content(
+  p_content_id UUID,
+  p_reason TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner UUID;
+  v_revoked_at TIMESTAMP WITH TIME ZONE;
+  v_is_admin BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT user_id, revoked_at INTO v_owner, v_revoked_at
+    FROM signed_contents
+   WHERE id = p_content_id
+   FOR UPDATE;
+
+  v_is_admin := COALESCE((SELECT is_admin FROM users WHERE id = auth.uid()), false);
+
+  IF v_owner IS NULL OR (v_owner <> auth.uid() AND NOT v_is_admin) THEN
+    RAISE EXCEPTION 'Certificado não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Este certificado já foi revogado' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason NOT IN ('signed_by_mistake', 'copyright_dispute', 'key_compromise', 'content_error', 'other') THEN
+    RAISE EXCEPTION 'Motivo de revogação inválido' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE signed_contents
+     SET revoked_at = NOW(),
+         revocation_reason = p_reason,
+         revocation_note = NULLIF(left(trim(p_note), 500), ''),
+         revoked_by = auth.uid(),
+         disputed_at = NULL,
+         dispute_reason = NULL
+   WHERE id = p_content_id
+  RETURNING revoked_at INTO v_revoked_at;
+
+  UPDATE content_reports
+     SET status = 'upheld',
+         resolution_note = COALESCE(resolution_note, 'Certificado revogado'),
+         reviewed_by = auth.uid(),
+         reviewed_at = NOW()
+   WHERE content_id = p_content_id
+     AND status IN ('open', 'under_review');
+
+  RETURN v_revoked_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_signed_content(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. FUNCTION: report_signed_content
+-- =====================================================
+-- Visitantes (anon) também podem denunciar. O e-mail é só para contato:
+-- os limites usam o que o chamador não escolhe.
+--   - usuário logado: 3 denúncias abertas por certificado e 20 em 24h
+--   - visitantes: 5 denúncias abertas por certificado e 100 por hora
+--     somadas em toda a plataforma (acima disso, só logado)
+
+CREATE OR REPLACE FUNCTION report_signed_content(
+  p_content_id UUID,
+  p_reason TEXT,
+  p_details TEXT,
+  p_reporter_email TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_reporter_email));
+  v_reporter_id UUID := auth.uid();
+  v_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM signed_contents WHERE id = p_content_id) THEN
+    RAISE EXCEPTION 'Certificado não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM signed_contents WHERE id = p_content_id AND revoked_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Este certificado já foi revogado' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serializa as contagens abaixo com as demais denúncias
+  PERFORM pg_advisory_xact_lock(hashtext('content_reports'));
+
+  IF v_reporter_id IS NOT NULL THEN
+    IF (SELECT count(*) FROM content_reports
+         WHERE content_id = p_content_id
+           AND reporter_id = v_reporter_id
+           AND status IN ('open', 'under_review')) >= 3
+       OR (SELECT count(*) FROM content_reports
+            WHERE reporter_id = v_reporter_id
+              AND created_at > NOW() - INTERVAL '24 hours') >= 20 THEN
+      RAISE EXCEPTION 'Limite de denúncias atingido. Aguarde a análise das denúncias enviadas.' USING ERRCODE = '54000';
+    END IF;
+  ELSIF (SELECT count(*) FROM content_reports
+          WHERE content_id = p_content_id
+            AND reporter_id IS NULL
+            AND status IN ('open', 'under_review')) >= 5
+     OR (SELECT count(*) FROM content_reports
+          WHERE reporter_id IS NULL
+            AND created_at > NOW() - INTERVAL '1 hour') >= 100 THEN
+    RAISE EXCEPTION 'Limite de denúncias de visitantes atingido. Entre na sua conta para denunciar.' USING ERRCODE = '54000';
+  END IF;
+
+  INSERT INTO content_reports (content_id, reporter_id, reporter_email, reason, details)
+  VALUES (p_content_id, v_reporter_id, v_email, p_reason, trim(p_details))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_signed_content(UUID, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- 6. FUNCTION: admin_list_content_reports
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION admin_list_content_reports(
+  p_status TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total INT;
+  v_items JSONB;
+BEGIN
+  PERFORM public._admin_only();
+
+  SELECT count(*) INTO v_total
+    FROM content_reports r
+   WHERE p_status IS NULL OR r.status = p_status;
+
+  SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.created_at DESC), '[]'::jsonb)
+    INTO v_items
+    FROM (
+      SELECT r.id,
+             r.content_id,
+             r.reporter_id,
+             r.reporter_email,
+             r.reason,
+             r.details,
+             r.status,
+             r.resolution_note,
+             r.reviewed_at,
+             r.created_at,
+             sc.verification_code,
+             sc.user_id AS content_owner_id,
+             sc.creator_name,
+             sc.file_name,
+             sc.revoked_at,
+             sc.disputed_at,
+             (SELECT count(*) FROM content_reports o
+               WHERE o.content_id = r.content_id
+                 AND o.status IN ('open', 'under_review')) AS open_reports_for_content
+        FROM content_reports r
+        JOIN signed_contents sc ON sc.id = r.content_id
+       WHERE p_status IS NULL OR r.status = p_status
+       ORDER BY r.created_at DESC
+       LIMIT LEAST(GREATEST(p_limit, 1), 200)
+      OFFSET GREATEST(p_offset, 0)
+    ) t;
+
+  RETURN jsonb_build_object('items', v_items, 'total', v_total);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION admin_list_content_reports(TEXT, INT, INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_list_content_reports(TEXT, INT, INT) TO authenticated;
+
+-- =====================================================
+-- 7. FUNCTION: admin_review_content_report
+-- =====================================================
+-- p_decision:
+--   under_review → certificado exibido como "em disputa"
+--   dismissed    → denúncia rejeitada (disputa encerrada se não houver
+--                  outra denúncia em análise)
+--   upheld       → certificado revogado com p_revocation_reason
+
+CREATE OR REPLACE FUNCTION admin_review_content_report(
+  p_report_id UUID,
+  p_decision TEXT,
+  p_resolution_note TEXT DEFAULT NULL,
+  p_revocation_reason TEXT DEFAULT 'copyright_dispute'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report content_reports%ROWTYPE;
+  v_note TEXT := NULLIF(left(trim(p_resolution_note), 500), '');
+BEGIN
+  PERFORM public._admin_only();
+
+  SELECT * INTO v_report FROM content_reports WHERE id = p_report_id FOR UPDATE;
+  IF v_report.id IS NULL THEN
+    RAISE EXCEPTION 'Denúncia não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_report.status IN ('dismissed', 'upheld') THEN
+    RAISE EXCEPTION 'Esta denúncia já foi encerrada' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_decision = 'under_review' THEN
+    UPDATE content_reports
+       SET status = 'under_review',
+           resolution_note = v_note,
+           reviewed_by = auth.uid(),
+           reviewed_at = NOW()
+     WHERE id = p_report_id;
+
+    UPDATE signed_contents
+       SET disputed_at = COALESCE(disputed_at, NOW()),
+           dispute_reason = v_report.reason
+     WHERE id = v_report.content_id
+       AND revoked_at IS NULL;
+
+  ELSIF p_decision = 'dismissed' THEN
+    UPDATE content_reports
+       SET status = 'dismissed',
+           resolution_note = v_note,
+           reviewed_by = auth.uid(),
+           reviewed_at = NOW()
+     WHERE id = p_report_id;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM content_reports
+       WHERE content_id = v_report.content_id
+         AND status = 'under_review'
+    ) THEN
+      UPDATE signed_contents
+         SET disputed_at = NULL,
+             dispute_reason = NULL
+       WHERE id = v_report.content_id;
+    END IF;
+
+  ELSIF p_decision = 'upheld' THEN
+    PERFORM revoke_signed_content(v_report.content_id, p_revocation_reason, v_note);
+
+    UPDATE content_reports
+       SET resolution_note = COALESCE(v_note, resolution_note)
+     WHERE id = p_report_id;
+
+  ELSE
+    RAISE EXCEPTION 'Decisão inválida: %', p_decision USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION admin_review_content_report(UUID, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_review_content_report(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION revoke_signed_content(UUID, TEXT, TEXT) IS 'Revoga um certificado (dono ou admin) mantendo o registro original';
+COMMENT ON FUNCTION report_signed_content(UUID, TEXT, TEXT, TEXT) IS 'Denúncia de um certificado por terceiros';
+COMMENT ON FUNCTION admin_review_content_report(UUID, TEXT, TEXT, TEXT) IS 'Análise de denúncia: em disputa, rejeitada ou procedente (revoga)';
+
+COMMIT;
@@ -0,0 +1,87 @@
+-- =====================================================
+-- CARIMBO DE TEMPO CONFIÁVEL (RFC 3161)
+-- =====================================================
+-- Migration: Prova independente da data de assinatura
+-- Created: 2026-10-18
+-- Description:
+--   1. signed_contents.tsa_*: token RFC 3161 (TimeStampToken DER em
+--      base64) emitido por uma TSA sobre o content_hash, com a TSA, o
+--      número de série e o genTime extraídos do token
+--   2. Trigger que impede alterar o carimbo pelo cliente: a gravação é
+--      feita apenas pela Edge Function timestamp-content (service_role)
+--      e o carimbo não pode ser substituído depois de gravado
+-- O token é verificado no navegador (/certificate e certificado HTML).
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMNS: tsa_token, tsa_url, tsa_name, tsa_serial, tsa_gen_time
+-- =====================================================
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS tsa_token TEXT,
+  ADD COLUMN IF NOT EXISTS tsa_url TEXT,
+  ADD COLUMN IF NOT EXISTS tsa_name TEXT,
+  ADD COLUMN IF NOT EXISTS tsa_serial TEXT,
+  ADD COLUMN IF NOT EXISTS tsa_gen_time TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE signed_contents
+  DROP CONSTRAINT IF EXISTS signed_contents_tsa_token_complete;
+ALTER TABLE signed_contents
+  ADD CONSTRAINT signed_contents_tsa_token_complete
+  CHECK (tsa_token IS NULL OR (tsa_serial IS NOT NULL AND tsa_gen_time IS NOT NULL));
+
+COMMENT ON COLUMN signed_contents.tsa_token IS 'TimeStampToken RFC 3161 (DER em base64) sobre o content_hash';
+COMMENT ON COLUMN signed_contents.tsa_url IS 'URL da TSA que emitiu o carimbo';
+COMMENT ON COLUMN signed_contents.tsa_name IS 'Nome da TSA (campo tsa do TSTInfo ou titular do certificado)';
+COMMENT ON COLUMN signed_contents.tsa_serial IS 'Número de série do carimbo (hex)';
+COMMENT ON COLUMN signed_contents.tsa_gen_time IS 'genTime do carimbo (hora atestada pela TSA)';
+
+-- =====================================================
+-- 2. TRIGGER: protect_content_timestamp
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION protect_content_timestamp()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND OLD.tsa_token IS NOT DISTINCT FROM NEW.tsa_token
+     AND OLD.tsa_url IS NOT DISTINCT FROM NEW.tsa_url
+     AND OLD.tsa_name IS NOT DISTINCT FROM NEW.tsa_name
+     AND OLD.tsa_serial IS NOT DISTINCT FROM NEW.tsa_serial
+     AND OLD.tsa_gen_time IS NOT DISTINCT FROM NEW.tsa_gen_time THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.tsa_token IS NULL
+     AND NEW.tsa_url IS NULL AND NEW.tsa_name IS NULL
+     AND NEW.tsa_serial IS NULL AND NEW.tsa_gen_time IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Usuários (anon/authenticated) nunca gravam o carimbo diretamente
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'O carimbo de tempo é gravado apenas pelo servidor' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.tsa_token IS NOT NULL THEN
+    RAISE EXCEPTION 'O carimbo de tempo de um certificado não pode ser substituído' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_content_timestamp_trigger ON signed_contents;
+CREATE TRIGGER protect_content_timestamp_trigger
+  BEFORE INSERT OR UPDATE ON signed_contents
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_content_timestamp();
+
+COMMENT ON FUNCTION protect_content_timestamp() IS 'Carimbo RFC 3161: gravado apenas via service_role e imutável depois de definido';
+
+COMMIT;
@@ -0,0 +1,821 @@
+-- =====================================================
+-- EXTRATO DE CRÉDITOS AVULSOS (LEDGER)
+-- =====================================================
+-- Migration: Créditos avulsos em tabelas normalizadas e append-only
+-- Created: 2026-10-18
+-- Description:
+--   1. credit_lots: um lote por concessão (pacote Stripe, ajuste do admin,
+--      saldo legado) com validade e saldo restante
+--   2. credit_ledger: extrato append-only (grant, consume, expire, refund,
+--      adjustment); o saldo de cada lote é sempre a soma dos seus lançamentos
+--   3. grant_credits(): concessão idempotente (chave ligada à sessão do Stripe)
+--   4. consume_signature(): consome o plano e depois os lotes em FIFO por
+--      validade (o que vence primeiro é usado primeiro)
+--   5. expire_credits() / refund_credit_purchase(): expiração e estorno
+--   6. admin_adjust_credits(): ajuste manual com motivo obrigatório
+--   7. get_credit_statement(): extrato do usuário (ou de qualquer usuário
+--      para admins)
+--   8. Migração de subscriptions.metadata.package_purchases
+--   9. subscriptions.overage_signatures_available passa a ser derivado do
+--      ledger (trigger)
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: credit_lots
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS credit_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('package', 'admin', 'migration')),
+  description TEXT NOT NULL,
+  credits_granted INTEGER NOT NULL CHECK (credits_granted > 0),
+  -- Mantido pelas funções abaixo: soma dos lançamentos do lote
+  credits_remaining INTEGER NOT NULL DEFAULT 0 CHECK (credits_remaining >= 0),
+  granted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- NULL = não expira
+  expires_at TIMESTAMP WITH TIME ZONE,
+  stripe_session_id TEXT,
+  stripe_price_id TEXT,
+  stripe_payment_intent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT credit_lots_remaining_le_granted CHECK (credits_remaining <= credits_granted)
+);
+
+-- Uma sessão de checkout gera no máximo um lote
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_lots_stripe_session
+  ON credit_lots(stripe_session_id)
+  WHERE stripe_session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_credit_lots_fifo
+  ON credit_lots(user_id, expires_at NULLS LAST, granted_at)
+  WHERE credits_remaining > 0;
+
+CREATE INDEX IF NOT EXISTS idx_credit_lots_payment_intent
+  ON credit_lots(stripe_payment_intent)
+  WHERE stripe_payment_intent IS NOT NULL;
+
+ALTER TABLE credit_lots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own credit lots" ON credit_lots;
+CREATE POLICY "Users can view own credit lots"
+  ON credit_lots FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON credit_lots TO authenticated;
+GRANT ALL ON credit_lots TO service_role;
+
+COMMENT ON TABLE credit_lots IS 'Lotes de créditos avulsos (pacotes, ajustes, saldo legado) com validade';
+
+-- =====================================================
+-- 2. TABLE: credit_ledger (append-only)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lot_id UUID REFERENCES credit_lots(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (
+    entry_type IN ('grant', 'consume', 'expire', 'refund', 'adjustment')
+  ),
+  -- Positivo = entrada, negativo = saída
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  -- Saldo válido do usuário logo após o lançamento
+  balance_after INTEGER NOT NULL,
+  idempotency_key TEXT,
+  reference TEXT,
+  reason TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user
+  ON credit_ledger(user_id, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_lot
+  ON credit_ledger(lot_id);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_idempotency
+  ON credit_ledger(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Uma entrada (grant ou ajuste positivo) por chave de idempotência
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_unique_grant
+  ON credit_ledger(idempotency_key)
+  WHERE amount > 0 AND idempotency_key IS NOT NULL;
+
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own credit ledger" ON credit_ledger;
+CREATE POLICY "Users can view own credit ledger"
+  ON credit_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON credit_ledger TO authenticated;
+GRANT SELECT, INSERT ON credit_ledger TO service_role;
+GRANT USAGE ON SEQUENCE credit_ledger_id_seq TO service_role;
+
+COMMENT ON TABLE credit_ledger IS 'Extrato append-only de créditos avulsos: grant, consume, expire, refund e adjustment';
+
+CREATE OR REPLACE FUNCTION prevent_credit_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'O extrato de créditos é append-only (% recusado); registre um lançamento de ajuste', TG_OP
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_ledger_append_only ON credit_ledger;
+CREATE TRIGGER credit_ledger_append_only
+  BEFORE UPDATE OR DELETE ON credit_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_credit_ledger_changes();
+
+DROP TRIGGER IF EXISTS credit_ledger_no_truncate ON credit_ledger;
+CREATE TRIGGER credit_ledger_no_truncate
+  BEFORE TRUNCATE ON credit_ledger
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_credit_ledger_changes();
+
+-- =====================================================
+-- 3. HELPERS (internos)
+-- =====================================================
+
+-- Saldo válido: lotes com créditos restantes e ainda não vencidos
+CREATE OR REPLACE FUNCTION credit_balance(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(credits_remaining), 0)::INTEGER
+    FROM credit_lots
+   WHERE user_id = p_user_id
+     AND credits_remaining > 0
+     AND (expires_at IS NULL OR expires_at > NOW());
+$$;
+
+REVOKE EXECUTE ON FUNCTION credit_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Único ponto de escrita no ledger: atualiza o lote e grava o lançamento
+CREATE OR REPLACE FUNCTION append_credit_entry(
+  p_user_id UUID,
+  p_lot_id UUID,
+  p_entry_type TEXT,
+  p_amount INTEGER,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL,
+  p_created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id BIGINT;
+BEGIN
+  IF p_lot_id IS NOT NULL THEN
+    UPDATE credit_lots
+       SET credits_remaining = credits_remaining + p_amount
+     WHERE id = p_lot_id
+       AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Lote de créditos % não encontrado', p_lot_id USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  INSERT INTO credit_ledger (
+    user_id, lot_id, entry_type, amount, balance_after,
+    idempotency_key, reference, reason, actor_id, created_at
+  )
+  VALUES (
+    p_user_id, p_lot_id, p_entry_type, p_amount, credit_balance(p_user_id),
+    p_idempotency_key, p_reference, p_reason, p_actor_id, p_created_at
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION append_credit_entry(UUID, UUID, TEXT, INTEGER, TEXT, TEXT, TEXT, UUID, TIMESTAMP WITH TIME ZONE)
+  FROM PUBLIC, anon, authenticated;
+
+-- Retira créditos dos lotes válidos em FIFO por validade; devolve o total retirado
+CREATE OR REPLACE FUNCTION take_credits_fifo(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_entry_type TEXT,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot RECORD;
+  v_left INTEGER := p_amount;
+  v_take INTEGER;
+BEGIN
+  FOR v_lot IN
+    SELECT id, credits_remaining
+      FROM credit_lots
+     WHERE user_id = p_user_id
+       AND credits_remaining > 0
+       AND (expires_at IS NULL OR expires_at > NOW())
+     ORDER BY expires_at NULLS LAST, granted_at, id
+     FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_lot.credits_remaining);
+    PERFORM append_credit_entry(
+      p_user_id, v_lot.id, p_entry_type, -v_take,
+      p_idempotency_key, p_reference, p_reason, p_actor_id
+    );
+    v_left := v_left - v_take;
+  END LOOP;
+
+  RETURN p_amount - v_left;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_credits_fifo(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Serializa as operações de crédito do mesmo usuário
+CREATE OR REPLACE FUNCTION lock_user_credits(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext('credits:' || p_user_id::TEXT));
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_user_credits(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 4. FUNCTION: grant_credits (service_role)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION grant_credits(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_idempotency_key TEXT,
+  p_description TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_source TEXT DEFAULT 'package',
+  p_granted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  p_stripe_session_id TEXT DEFAULT NULL,
+  p_stripe_price_id TEXT DEFAULT NULL,
+  p_stripe_payment_intent TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot_id UUID;
+BEGIN
+  IF p_credits IS NULL OR p_credits <= 0 THEN
+    RAISE EXCEPTION 'Quantidade de créditos inválida: %', p_credits USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR p_idempotency_key = '' THEN
+    RAISE EXCEPTION 'Chave de idempotência obrigatória' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM lock_user_credits(p_user_id);
+
+  SELECT lot_id INTO v_lot_id
+    FROM credit_ledger
+   WHERE idempotency_key = p_idempotency_key
+     AND amount > 0;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'granted', false,
+      'already_processed', true,
+      'lot_id', v_lot_id,
+      'balance', credit_balance(p_user_id)
+    );
+  END IF;
+
+  INSERT INTO credit_lots (
+    user_id, source, description, credits_granted, granted_at, expires_at,
+    stripe_session_id, stripe_price_id, stripe_payment_intent
+  )
+  VALUES (
+    p_user_id, p_source, p_description, p_credits, p_granted_at, p_expires_at,
+    p_stripe_session_id, p_stripe_price_id, p_stripe_payment_intent
+  )
+  RETURNING id INTO v_lot_id;
+
+  PERFORM append_credit_entry(
+    p_user_id, v_lot_id,
+    CASE WHEN p_source = 'package' THEN 'grant' ELSE 'adjustment' END,
+    p_credits, p_idempotency_key, p_stripe_session_id, p_reason, p_actor_id
+  );
+
+  PERFORM sync_overage_signatures(p_user_id);
+
+  RETURN jsonb_build_object(
+    'granted', true,
+    'already_processed', false,
+    'lot_id', v_lot_id,
+    'balance', credit_balance(p_user_id)
+  );
+END;
+$$;
+
+-- =====================================================
+-- 5. CACHE: subscriptions.overage_signatures_available
+-- =====================================================
+-- A coluna continua existindo para as telas e get_signature_status, mas
+-- passa a ser sempre recalculada a partir dos lotes.
+
+CREATE OR REPLACE FUNCTION sync_overage_signatures(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE subscriptions
+     SET overage_signatures_available = credit_balance(p_user_id)
+   WHERE user_id = p_user_id
+     AND overage_signatures_available IS DISTINCT FROM credit_balance(p_user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_overage_signatures(UUID) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION grant_credits(UUID, INTEGER, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION grant_credits(UUID, INTEGER, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, TEXT)
+  TO service_role;
+
+-- =====================================================
+-- 6. FUNCTION: consume_signature
+-- =====================================================
+-- Ordem: créditos do plano (signatures_used < signatures_limit) e, depois,
+-- lotes avulsos em FIFO por validade.
+
+DROP FUNCTION IF EXISTS consume_signature(UUID);
+
+CREATE OR REPLACE FUNCTION consume_signature(p_user_id UUID)
+RETURNS TABLE (
+  success BOOLEAN,
+  message TEXT,
+  signatures_remaining INTEGER,
+  subscription_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sub subscriptions;
+  v_plan_left INTEGER := 0;
+  v_taken INTEGER;
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Permissão negada: assinatura de outro usuário' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM lock_user_credits(p_user_id);
+
+  SELECT * INTO v_sub
+    FROM subscriptions s
+   WHERE s.user_id = p_user_id
+   ORDER BY s.created_at DESC
+   LIMIT 1
+   FOR UPDATE;
+
+  IF FOUND AND v_sub.status IN ('active', 'trialing') THEN
+    v_plan_left := GREATEST(COALESCE(v_sub.signatures_limit, 0) - COALESCE(v_sub.signatures_used, 0), 0);
+  END IF;
+
+  -- 1. Créditos do plano
+  IF v_plan_left > 0 THEN
+    UPDATE subscriptions
+       SET signatures_used = COALESCE(signatures_used, 0) + 1,
+           updated_at = NOW()
+     WHERE id = v_sub.id;
+
+    RETURN QUERY SELECT
+      true,
+      'Autenticação consumida do plano'::TEXT,
+      (v_plan_left - 1) + credit_balance(p_user_id),
+      v_sub.id;
+    RETURN;
+  END IF;
+
+  -- 2. Créditos avulsos (FIFO por validade)
+  v_taken := take_credits_fifo(p_user_id, 1, 'consume', NULL, v_sub.id::TEXT, 'Autenticação de conteúdo');
+
+  IF v_taken = 0 THEN
+    RETURN QUERY SELECT
+      false,
+      'Limite de autenticações atingido. Compre um pacote ou faça upgrade do plano.'::TEXT,
+      0,
+      v_sub.id;
+    RETURN;
+  END IF;
+
+  PERFORM sync_overage_signatures(p_user_id);
+
+  RETURN QUERY SELECT
+    true,
+    'Autenticação consumida dos créditos avulsos'::TEXT,
+    credit_balance(p_user_id),
+    v_sub.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_signature(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION consume_signature(UUID) TO authenticated, service_role;
+
+-- =====================================================
+-- 7. FUNCTIONS: expire_credits / refund_credit_purchase (service_role)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION expire_credits(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot RECORD;
+  v_expired INTEGER := 0;
+BEGIN
+  FOR v_lot IN
+    SELECT id, user_id, credits_remaining, expires_at
+      FROM credit_lots
+     WHERE credits_remaining > 0
+       AND expires_at <= NOW()
+       AND (p_user_id IS NULL OR user_id = p_user_id)
+     ORDER BY user_id, expires_at
+  LOOP
+    PERFORM lock_user_credits(v_lot.user_id);
+    PERFORM append_credit_entry(
+      v_lot.user_id, v_lot.id, 'expire', -v_lot.credits_remaining,
+      'expire:' || v_lot.id::TEXT, NULL,
+      'Validade encerrada em ' || to_char(v_lot.expires_at AT TIME ZONE 'America/Sao_Paulo', 'DD/MM/YYYY')
+    );
+    PERFORM sync_overage_signatures(v_lot.user_id);
+    v_expired := v_expired + v_lot.credits_remaining;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_credits(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_credits(UUID) TO service_role;
+
+-- Estorno no Stripe: os créditos ainda não usados do lote são retirados
+CREATE OR REPLACE FUNCTION refund_credit_purchase(
+  p_stripe_payment_intent TEXT,
+  p_idempotency_key TEXT,
+  p_reason TEXT DEFAULT 'Compra estornada no Stripe'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot RECORD;
+  v_refunded INTEGER := 0;
+  v_lots INTEGER := 0;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM credit_ledger
+     WHERE idempotency_key = p_idempotency_key
+       AND entry_type = 'refund'
+  ) THEN
+    RETURN jsonb_build_object('refunded', 0, 'already_processed', true);
+  END IF;
+
+  FOR v_lot IN
+    SELECT id, user_id, credits_remaining
+      FROM credit_lots
+     WHERE stripe_payment_intent = p_stripe_payment_intent
+     FOR UPDATE
+  LOOP
+    v_lots := v_lots + 1;
+    PERFORM lock_user_credits(v_lot.user_id);
+
+    IF v_lot.credits_remaining > 0 THEN
+      PERFORM append_credit_entry(
+        v_lot.user_id, v_lot.id, 'refund', -v_lot.credits_remaining,
+        p_idempotency_key, p_stripe_payment_intent, p_reason
+      );
+      v_refunded := v_refunded + v_lot.credits_remaining;
+    END IF;
+
+    PERFORM sync_overage_signatures(v_lot.user_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('refunded', v_refunded, 'lots', v_lots, 'already_processed', false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refund_credit_purchase(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_credit_purchase(TEXT, TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- 8. FUNCTION: admin_adjust_credits
+-- =====================================================
+-- p_amount > 0 cria um lote (validade opcional); p_amount < 0 retira
+-- créditos em FIFO. O motivo fica no extrato junto com o admin.
+
+CREATE OR REPLACE FUNCTION admin_adjust_credits(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_key TEXT := COALESCE(p_idempotency_key, 'admin:' || gen_random_uuid()::TEXT);
+  v_taken INTEGER;
+BEGIN
+  IF NOT COALESCE((SELECT is_admin FROM users WHERE id = v_admin_id), false) THEN
+    RAISE EXCEPTION 'Permissão negada: apenas administradores' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Informe uma quantidade diferente de zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_reason, ''))) < 5 THEN
+    RAISE EXCEPTION 'Informe o motivo do ajuste' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'A validade precisa ser uma data futura' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Usuário não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_amount > 0 THEN
+    RETURN grant_credits(
+      p_user_id, p_amount, v_key, 'Ajuste administrativo', p_expires_at, 'admin',
+      NOW(), NULL, NULL, NULL, v_admin_id, trim(p_reason)
+    );
+  END IF;
+
+  PERFORM lock_user_credits(p_user_id);
+
+  IF EXISTS (SELECT 1 FROM credit_ledger WHERE idempotency_key = v_key) THEN
+    RETURN jsonb_build_object('granted', false, 'already_processed', true, 'balance', credit_balance(p_user_id));
+  END IF;
+
+  IF credit_balance(p_user_id) < -p_amount THEN
+    RAISE EXCEPTION 'Saldo insuficiente: o usuário tem % crédito(s) válido(s)', credit_balance(p_user_id)
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_taken := take_credits_fifo(p_user_id, -p_amount, 'adjustment', v_key, NULL, trim(p_reason), v_admin_id);
+  PERFORM sync_overage_signatures(p_user_id);
+
+  RETURN jsonb_build_object(
+    'granted', false,
+    'removed', v_taken,
+    'already_processed', false,
+    'balance', credit_balance(p_user_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION admin_adjust_credits(UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_adjust_credits(UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+
+-- =====================================================
+-- 9. FUNCTION: get_credit_statement
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_credit_statement(
+  p_user_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+  v_lots JSONB;
+  v_entries JSONB;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Autenticação necessária' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_user_id IS DISTINCT FROM auth.uid()
+     AND NOT COALESCE((SELECT is_admin FROM users WHERE id = auth.uid()), false) THEN
+    RAISE EXCEPTION 'Permissão negada: apenas administradores' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(row_to_json(l) ORDER BY l.expires_at NULLS LAST, l.granted_at), '[]'::jsonb)
+    INTO v_lots
+    FROM (
+      SELECT id, source, description, credits_granted, credits_remaining,
+             granted_at, expires_at, stripe_session_id
+        FROM credit_lots
+       WHERE user_id = v_user_id
+         AND credits_remaining > 0
+         AND (expires_at IS NULL OR expires_at > NOW())
+    ) l;
+
+  SELECT count(*) INTO v_total FROM credit_ledger WHERE user_id = v_user_id;
+
+  SELECT COALESCE(jsonb_agg(row_to_json(e) ORDER BY e.id DESC), '[]'::jsonb)
+    INTO v_entries
+    FROM (
+      SELECT le.id, le.entry_type, le.amount, le.balance_after, le.reference,
+             le.reason, le.created_at, le.lot_id,
+             cl.description AS lot_description,
+             au.nome_completo AS actor_name
+        FROM credit_ledger le
+        LEFT JOIN credit_lots cl ON cl.id = le.lot_id
+        LEFT JOIN users au ON au.id = le.actor_id
+       WHERE le.user_id = v_user_id
+       ORDER BY le.id DESC
+       LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200)
+      OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+    ) e;
+
+  RETURN jsonb_build_object(
+    'user_id', v_user_id,
+    'balance', credit_balance(v_user_id),
+    'lots', v_lots,
+    'entries', v_entries,
+    'total_entries', v_total
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_credit_statement(UUID, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_credit_statement(UUID, INTEGER, INTEGER) TO authenticated;
+
+-- =====================================================
+-- 10. MIGRAÇÃO: metadata.package_purchases → credit_lots/credit_ledger
+-- =====================================================
+-- Cada pacote vira um lote com a concessão original e, se já tinha sido
+-- usado, um lançamento de consumo. A diferença entre o saldo legado
+-- (overage_signatures_available) e os pacotes migrados vira um lote
+-- 'migration', para que nenhum usuário ganhe ou perca créditos.
+
+DO $$
+DECLARE
+  v_sub RECORD;
+  v_pkg JSONB;
+  v_lot_id UUID;
+  v_added INTEGER;
+  v_remaining INTEGER;
+  v_purchase_date TIMESTAMP WITH TIME ZONE;
+  v_session TEXT;
+  v_key TEXT;
+  v_diff INTEGER;
+BEGIN
+  FOR v_sub IN
+    SELECT DISTINCT ON (s.user_id) s.id, s.user_id, s.metadata, s.overage_signatures_available
+      FROM subscriptions s
+     WHERE EXISTS (SELECT 1 FROM auth.users u WHERE u.id = s.user_id)
+     ORDER BY s.user_id, s.created_at DESC
+  LOOP
+    CONTINUE WHEN EXISTS (SELECT 1 FROM credit_lots WHERE user_id = v_sub.user_id);
+
+    FOR v_pkg IN
+      SELECT value FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(v_sub.metadata->'package_purchases') = 'array'
+             THEN v_sub.metadata->'package_purchases' ELSE '[]'::jsonb END
+      )
+    LOOP
+      v_added := COALESCE((v_pkg->>'credits_added')::INTEGER, 0);
+      CONTINUE WHEN v_added <= 0;
+
+      v_remaining := LEAST(GREATEST(COALESCE((v_pkg->>'credits_remaining')::INTEGER, v_added), 0), v_added);
+      v_purchase_date := COALESCE((v_pkg->>'purchase_date')::TIMESTAMP WITH TIME ZONE, NOW());
+      v_session := NULLIF(v_pkg->>'stripe_session_id', '');
+      v_key := 'stripe:checkout:' || COALESCE(v_session, v_sub.id::TEXT || ':' || (v_pkg->>'purchase_date'));
+
+      CONTINUE WHEN v_session IS NOT NULL AND EXISTS (SELECT 1 FROM credit_lots WHERE stripe_session_id = v_session);
+
+      INSERT INTO credit_lots (
+        user_id, source, description, credits_granted, granted_at, expires_at,
+        stripe_session_id, stripe_price_id, stripe_payment_intent
+      )
+      VALUES (
+        v_sub.user_id, 'package', COALESCE(v_pkg->>'package_name', 'Pacote avulso'), v_added,
+        v_purchase_date, (v_pkg->>'expiration_date')::TIMESTAMP WITH TIME ZONE,
+        v_session, v_pkg->>'stripe_price_id', v_pkg->>'stripe_payment_intent'
+      )
+      RETURNING id INTO v_lot_id;
+
+      PERFORM append_credit_entry(
+        v_sub.user_id, v_lot_id, 'grant', v_added, v_key, v_session,
+        'Migrado de subscriptions.metadata', NULL, v_purchase_date
+      );
+
+      IF v_remaining < v_added THEN
+        PERFORM append_credit_entry(
+          v_sub.user_id, v_lot_id, 'consume', v_remaining - v_added, NULL, NULL,
+          'Consumo anterior ao extrato (migração)'
+        );
+      END IF;
+    END LOOP;
+
+    v_diff := COALESCE(v_sub.overage_signatures_available, 0) - credit_balance(v_sub.user_id);
+
+    IF v_diff > 0 THEN
+      INSERT INTO credit_lots (user_id, source, description, credits_granted, expires_at)
+      VALUES (v_sub.user_id, 'migration', 'Saldo legado', v_diff, NOW() + INTERVAL '30 days')
+      RETURNING id INTO v_lot_id;
+
+      PERFORM append_credit_entry(
+        v_sub.user_id, v_lot_id, 'adjustment', v_diff, 'migration:' || v_sub.user_id::TEXT, NULL,
+        'Saldo legado sem pacote correspondente (migração)'
+      );
+    ELSIF v_diff < 0 THEN
+      PERFORM take_credits_fifo(
+        v_sub.user_id, -v_diff, 'adjustment', 'migration:' || v_sub.user_id::TEXT, NULL,
+        'Ajuste ao saldo legado (migração)'
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Pacotes já vencidos na migração
+SELECT expire_credits();
+
+-- =====================================================
+-- 11. TRIGGER: overage_signatures_available derivado do ledger
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION derive_overage_signatures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.overage_signatures_available := credit_balance(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS derive_overage_signatures ON subscriptions;
+CREATE TRIGGER derive_overage_signatures
+  BEFORE INSERT OR UPDATE OF overage_signatures_available, user_id ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION derive_overage_signatures();
+
+UPDATE subscriptions s
+   SET overage_signatures_available = credit_balance(s.user_id)
+ WHERE s.overage_signatures_available IS DISTINCT FROM credit_balance(s.user_id);
+
+-- =====================================================
+-- 12. COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION credit_balance(UUID) IS 'Créditos avulsos válidos (não vencidos) do usuário';
+COMMENT ON FUNCTION append_credit_entry(UUID, UUID, TEXT, INTEGER, TEXT, TEXT, TEXT, UUID, TIMESTAMP WITH TIME ZONE) IS 'Grava um lançamento no extrato e atualiza o saldo do lote';
+COMMENT ON FUNCTION take_credits_fifo(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, UUID) IS 'Retira créditos dos lotes válidos, do que vence primeiro para o último';
+COMMENT ON FUNCTION grant_credits(UUID, INTEGER, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, TEXT) IS 'Concede um lote de créditos (idempotente por p_idempotency_key)';
+COMMENT ON FUNCTION consume_signature(UUID) IS 'Consome uma autenticação: plano primeiro, depois créditos avulsos em FIFO por validade';
+COMMENT ON FUNCTION expire_credits(UUID) IS 'Registra a expiração dos lotes vencidos';
+COMMENT ON FUNCTION refund_credit_purchase(TEXT, TEXT, TEXT) IS 'Retira os créditos restantes de uma compra estornada no Stripe';
+COMMENT ON FUNCTION admin_adjust_credits(UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) IS 'Ajuste manual de créditos por administradores (motivo obrigatório)';
+COMMENT ON FUNCTION get_credit_statement(UUID, INTEGER, INTEGER) IS 'Saldo, lotes válidos e extrato de créditos do usuário';
+
+COMMIT;
@@ -0,0 +1,201 @@
+-- =====================================================
+-- KEY ROTATION AND REVOCATION
+-- =====================================================
+-- Migration: Múltiplas chaves por usuário com status
+-- Created: 2026-10-18
+-- Description:
+--   1. key_pairs.status (active | rotated | revoked) + datas/motivo
+--   2. Apenas UMA chave ativa por usuário (índice único parcial)
+--   3. signed_contents.key_id: chave usada na assinatura
+--   4. RPCs rotate_key_pair / revoke_key_pair / get_public_key_history
+--   5. check_public_key_ownership passa a refletir a revogação real
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMNS: key_pairs
+-- =====================================================
+
+ALTER TABLE key_pairs
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revocation_reason TEXT;
+
+ALTER TABLE key_pairs DROP CONSTRAINT IF EXISTS key_pairs_status_check;
+ALTER TABLE key_pairs ADD CONSTRAINT key_pairs_status_check
+  CHECK (status IN ('active', 'rotated', 'revoked'));
+
+-- Chaves únicas por usuário deixam de existir (histórico de chaves)
+ALTER TABLE key_pairs DROP CONSTRAINT IF EXISTS key_pairs_user_id_key;
+
+-- Dados existentes: mantém apenas a chave mais recente como ativa
+UPDATE key_pairs kp
+SET status = 'rotated',
+    rotated_at = NOW()
+WHERE kp.status = 'active'
+  AND EXISTS (
+    SELECT 1 FROM key_pairs newer
+    WHERE newer.user_id = kp.user_id
+      AND newer.created_at > kp.created_at
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS key_pairs_one_active_per_user_idx
+  ON key_pairs(user_id)
+  WHERE status = 'active';
+
+COMMENT ON COLUMN key_pairs.status IS 'active = chave em uso; rotated = substituída; revoked = comprometida/revogada';
+COMMENT ON COLUMN key_pairs.revoked_at IS 'Data da revogação (certificados assinados com a chave exibem aviso)';
+
+-- =====================================================
+-- 2. COLUMN: signed_contents.key_id
+-- =====================================================
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS key_id UUID REFERENCES key_pairs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS signed_contents_key_id_idx ON signed_contents(key_id);
+
+-- Backfill: associa certificados existentes à chave pela chave pública
+UPDATE signed_contents sc
+SET key_id = kp.id
+FROM key_pairs kp
+WHERE sc.key_id IS NULL
+  AND kp.user_id = sc.user_id
+  AND kp.public_key = sc.public_key;
+
+COMMENT ON COLUMN signed_contents.key_id IS 'Par de chaves usado para assinar o certificado';
+
+-- =====================================================
+-- 3. FUNCTION: rotate_key_pair
+-- =====================================================
+-- Marca a chave ativa atual como 'rotated' e insere a nova chave
+-- como 'active' na mesma transação.
+
+CREATE OR REPLACE FUNCTION rotate_key_pair(
+  p_key_id UUID,
+  p_public_key TEXT,
+  p_encrypted_private_key TEXT,
+  p_encryption_algorithm TEXT DEFAULT 'AES-256-GCM',
+  p_key_version INTEGER DEFAULT 1
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  UPDATE key_pairs
+  SET status = 'rotated',
+      rotated_at = NOW()
+  WHERE user_id = v_user_id
+    AND status = 'active';
+
+  INSERT INTO key_pairs (id, user_id, public_key, encrypted_private_key, encryption_algorithm, key_version, status)
+  VALUES (p_key_id, v_user_id, p_public_key, p_encrypted_private_key, p_encryption_algorithm, p_key_version, 'active');
+
+  RETURN p_key_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_key_pair(UUID, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- =====================================================
+-- 4. FUNCTION: revoke_key_pair
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION revoke_key_pair(
+  p_key_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  UPDATE key_pairs
+  SET status = 'revoked',
+      revoked_at = NOW(),
+      revocation_reason = p_reason
+  WHERE id = p_key_id
+    AND user_id = auth.uid()
+    AND status <> 'revoked';
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_key_pair(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. FUNCTION: get_public_key_history
+-- =====================================================
+-- Histórico PÚBLICO das chaves de um usuário (sem chaves privadas)
+
+CREATE OR REPLACE FUNCTION get_public_key_history(p_user_id UUID)
+RETURNS TABLE (
+  key_id UUID,
+  public_key TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rotated_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT kp.id, kp.public_key, kp.status, kp.created_at, kp.rotated_at, kp.revoked_at
+  FROM key_pairs kp
+  WHERE kp.user_id = p_user_id
+  ORDER BY kp.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_key_history(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 6. FUNCTION: check_public_key_ownership (revogação real)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION check_public_key_ownership(
+  p_user_id UUID,
+  p_public_key TEXT
+)
+RETURNS TABLE (
+  key_id UUID,
+  belongs_to_user BOOLEAN,
+  is_revoked BOOLEAN,
+  revoked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    kp.id,
+    TRUE,
+    kp.status = 'revoked',
+    kp.revoked_at
+  FROM key_pairs kp
+  WHERE kp.user_id = p_user_id
+    AND kp.public_key = p_public_key
+  ORDER BY kp.created_at DESC
+  LIMIT 1;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,90 @@
+-- =====================================================
+-- KEY WRAPPING - ENVELOPE ENCRYPTION DAS CHAVES PRIVADAS
+-- =====================================================
+-- Migration: Substitui a chave/salt fixos (v1) por envelope encryption (v2)
+-- Created: 2026-10-18
+-- Description:
+--   1. key_pairs.wrapped_dek: DEK aleatória protegida pela KEK (AES-256-GCM)
+--   2. key_pairs.key_salt: salt aleatório por registro para derivar a KEK
+--      (HKDF-SHA256 a partir da MASTER_ENCRYPTION_KEY, só no servidor)
+--   3. Registros v2 exigem wrapped_dek + key_salt
+--   4. rotate_key_pair passa a receber os campos do envelope
+--
+-- Registros v1 continuam legíveis pela Edge Function key-vault e são
+-- re-protegidos sob demanda ou em lote (scripts/migrate-key-wrapping.sql).
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMNS: key_pairs
+-- =====================================================
+
+ALTER TABLE key_pairs
+  ADD COLUMN IF NOT EXISTS wrapped_dek TEXT,
+  ADD COLUMN IF NOT EXISTS key_salt TEXT;
+
+ALTER TABLE key_pairs DROP CONSTRAINT IF EXISTS key_pairs_envelope_check;
+ALTER TABLE key_pairs ADD CONSTRAINT key_pairs_envelope_check
+  CHECK (
+    COALESCE(key_version, 1) < 2 OR
+    (wrapped_dek IS NOT NULL AND key_salt IS NOT NULL AND encrypted_private_key IS NOT NULL)
+  );
+
+COMMENT ON COLUMN key_pairs.wrapped_dek IS 'DEK (AES-256) criptografada pela KEK do registro - base64(IV || ciphertext)';
+COMMENT ON COLUMN key_pairs.key_salt IS 'Salt aleatório (base64) usado no HKDF da KEK a partir da chave mestra';
+COMMENT ON COLUMN key_pairs.key_version IS '1 = AES com chave/salt fixos (legado); 2 = envelope encryption';
+
+CREATE INDEX IF NOT EXISTS key_pairs_legacy_wrapping_idx
+  ON key_pairs(id)
+  WHERE COALESCE(key_version, 1) < 2 OR wrapped_dek IS NULL;
+
+-- =====================================================
+-- 2. FUNCTION: rotate_key_pair (campos do envelope)
+-- =====================================================
+
+DROP FUNCTION IF EXISTS rotate_key_pair(UUID, TEXT, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION rotate_key_pair(
+  p_key_id UUID,
+  p_public_key TEXT,
+  p_encrypted_private_key TEXT,
+  p_wrapped_dek TEXT,
+  p_key_salt TEXT,
+  p_encryption_algorithm TEXT,
+  p_key_version INTEGER DEFAULT 2
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  UPDATE key_pairs
+  SET status = 'rotated',
+      rotated_at = NOW()
+  WHERE user_id = v_user_id
+    AND status = 'active';
+
+  INSERT INTO key_pairs (
+    id, user_id, public_key, encrypted_private_key, wrapped_dek, key_salt,
+    encryption_algorithm, key_version, status
+  )
+  VALUES (
+    p_key_id, v_user_id, p_public_key, p_encrypted_private_key, p_wrapped_dek, p_key_salt,
+    p_encryption_algorithm, p_key_version, 'active'
+  );
+
+  RETURN p_key_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_key_pair(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- =====================================================
+-- OFFLINE VERIFICATION - FILE HASH + KEY OWNERSHIP CHECK
+-- =====================================================
+-- Migration: Suporte à verificação criptográfica na página /verify
+-- Created: 2026-10-18
+-- Description:
+--   1. signed_contents.file_hash: SHA-256 dos bytes do arquivo original
+--   2. check_public_key_ownership(): permite que visitantes anônimos
+--      confirmem que a chave pública de um certificado pertence ao criador
+--      sem expor a tabela key_pairs
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMN: signed_contents.file_hash
+-- =====================================================
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS file_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS signed_contents_file_hash_idx
+  ON signed_contents(file_hash)
+  WHERE file_hash IS NOT NULL;
+
+COMMENT ON COLUMN signed_contents.file_hash IS 'SHA-256 (hex) dos bytes do arquivo original assinado';
+
+-- =====================================================
+-- 2. FUNCTION: check_public_key_ownership
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION check_public_key_ownership(
+  p_user_id UUID,
+  p_public_key TEXT
+)
+RETURNS TABLE (
+  key_id UUID,
+  belongs_to_user BOOLEAN,
+  is_revoked BOOLEAN,
+  revoked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    kp.id,
+    TRUE,
+    -- Revogação de chaves ainda não existe: nenhuma chave é revogada
+    FALSE,
+    NULL::TIMESTAMP WITH TIME ZONE
+  FROM key_pairs kp
+  WHERE kp.user_id = p_user_id
+    AND kp.public_key = p_public_key
+  LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_public_key_ownership(UUID, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION check_public_key_ownership IS 'Confirma se a chave pública pertence ao usuário (usado na verificação offline)';
+
+COMMIT;
@@ -0,0 +1,1265 @@
+-- =====================================================
+-- ORGANIZAÇÕES (WORKSPACES DE AGÊNCIAS E MARCAS)
+-- =====================================================
+-- Migration: Contas de equipe com membros, papéis e recursos compartilhados
+-- Created: 2026-10-18
+-- Description:
+--   1. organizations / organization_members: organização com um dono e
+--      membros com papel (owner, admin, signer, viewer)
+--   2. organization_invitations: convites por e-mail (aceitos pelo
+--      usuário que entrar com o mesmo e-mail)
+--   3. signed_contents.organization_id: certificado emitido "em nome de"
+--      uma organização; o signatário continua sendo user_id
+--   4. certificate_folders.organization_id: pastas compartilhadas
+--   5. Pool de créditos: autenticações em nome da organização consomem o
+--      plano e os créditos avulsos do dono, debitados no INSERT do
+--      certificado (charge_signed_content), com registro append-only de
+--      quem usou (organization_signature_usage)
+--   6. RPCs de gestão (criar, convidar, papéis, remover) e de leitura
+--      (workspace, certificados, perfil público)
+--
+-- Papéis:
+--   owner  → tudo, inclusive promover admins; paga o pool de créditos
+--   admin  → membros (exceto admins), convites, pastas e perfil
+--   signer → assina em nome da organização e organiza certificados
+--   viewer → somente leitura do workspace
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: organizations
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 2 AND 80),
+  slug TEXT NOT NULL UNIQUE CHECK (
+    char_length(slug) BETWEEN 3 AND 40
+    AND slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'
+  ),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 500),
+  website TEXT CHECK (website IS NULL OR website ~* '^https?://'),
+  logo_url TEXT CHECK (logo_url IS NULL OR logo_url ~* '^https://'),
+  -- Dono: paga o pool de créditos da organização
+  owner_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organizations_owner
+  ON organizations(owner_id);
+
+COMMENT ON TABLE organizations IS 'Organizações (agências e marcas) com membros e recursos compartilhados';
+
+-- =====================================================
+-- 2. TABLE: organization_members
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'signer', 'viewer')),
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user
+  ON organization_members(user_id);
+
+-- Exatamente um dono por organização
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_members_single_owner
+  ON organization_members(organization_id)
+  WHERE role = 'owner';
+
+COMMENT ON TABLE organization_members IS 'Membros da organização e seus papéis (owner, admin, signer, viewer)';
+
+-- =====================================================
+-- 3. TABLE: organization_invitations
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  role TEXT NOT NULL CHECK (role IN ('admin', 'signer', 'viewer')),
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (NOW() + INTERVAL '14 days'),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Um convite pendente por e-mail em cada organização
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_pending
+  ON organization_invitations(organization_id, lower(email))
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email
+  ON organization_invitations(lower(email))
+  WHERE status = 'pending';
+
+COMMENT ON TABLE organization_invitations IS 'Convites por e-mail para entrar em uma organização';
+
+-- =====================================================
+-- 4. HELPERS
+-- =====================================================
+
+-- Papel de qualquer usuário (uso interno: triggers e RPCs)
+CREATE OR REPLACE FUNCTION organization_role(p_organization_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+    FROM organization_members
+   WHERE organization_id = p_organization_id
+     AND user_id = p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION organization_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- O usuário autenticado é membro (com um dos papéis, se informados)?
+-- SECURITY DEFINER evita recursão nas políticas de organization_members
+CREATE OR REPLACE FUNCTION is_organization_member(
+  p_organization_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+      FROM organization_members
+     WHERE organization_id = p_organization_id
+       AND user_id = auth.uid()
+       AND (p_roles IS NULL OR role = ANY(p_roles))
+  );
+$$;
+
+-- anon também: as políticas de signed_contents valem para a leitura pública
+GRANT EXECUTE ON FUNCTION is_organization_member(UUID, TEXT[]) TO anon, authenticated;
+
+-- =====================================================
+-- 5. RLS: leitura para membros; escrita só pelas RPCs
+-- =====================================================
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organizations" ON organizations;
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  USING (is_organization_member(id));
+
+DROP POLICY IF EXISTS "Members can view organization members" ON organization_members;
+CREATE POLICY "Members can view organization members"
+  ON organization_members FOR SELECT
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Admins can view organization invitations" ON organization_invitations;
+CREATE POLICY "Admins can view organization invitations"
+  ON organization_invitations FOR SELECT
+  USING (is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+GRANT SELECT ON organizations, organization_members, organization_invitations TO authenticated;
+GRANT ALL ON organizations, organization_members, organization_invitations TO service_role;
+
+-- =====================================================
+-- 6. CERTIFICADOS EM NOME DA ORGANIZAÇÃO
+-- =====================================================
+-- O signatário continua sendo signed_contents.user_id (chave e nome do
+-- membro); organization_id registra em nome de quem ele assinou.
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS signed_contents_organization_idx
+  ON signed_contents(organization_id, created_at DESC)
+  WHERE organization_id IS NOT NULL;
+
+COMMENT ON COLUMN signed_contents.organization_id IS 'Organização em nome da qual o certificado foi emitido (user_id = signatário)';
+
+-- - Só owner/admin/signer da organização podem emitir em nome dela
+-- - A organização não pode ser alterada depois de definida
+CREATE OR REPLACE FUNCTION validate_content_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.organization_id IS NOT DISTINCT FROM NEW.organization_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.organization_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A organização de um certificado não pode ser alterada' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(organization_role(NEW.organization_id, NEW.user_id), '') NOT IN ('owner', 'admin', 'signer') THEN
+    RAISE EXCEPTION 'Apenas membros com permissão de assinatura podem emitir em nome da organização'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_content_organization_trigger ON signed_contents;
+CREATE TRIGGER validate_content_organization_trigger
+  BEFORE INSERT OR UPDATE OF organization_id ON signed_contents
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_content_organization();
+
+DROP POLICY IF EXISTS "Organization members can view organization contents" ON signed_contents;
+CREATE POLICY "Organization members can view organization contents"
+  ON signed_contents FOR SELECT
+  USING (organization_id IS NOT NULL AND is_organization_member(organization_id));
+
+-- A organização normalmente vai no INSERT do certificado (e é cobrada do
+-- pool); esta RPC registra a organização de um certificado pessoal já
+-- emitido, pelo signatário
+CREATE OR REPLACE FUNCTION assign_content_to_organization(
+  p_content_id UUID,
+  p_organization_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE signed_contents
+     SET organization_id = p_organization_id
+   WHERE id = p_content_id
+     AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificado não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_content_to_organization(UUID, UUID) TO authenticated;
+
+-- =====================================================
+-- 7. PASTAS COMPARTILHADAS
+-- =====================================================
+-- Pastas com organization_id são do workspace: todos os membros veem,
+-- owner/admin criam, renomeiam e excluem. user_id continua sendo quem
+-- criou a pasta.
+
+ALTER TABLE certificate_folders
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_certificate_folders_organization
+  ON certificate_folders(organization_id)
+  WHERE organization_id IS NOT NULL;
+
+COMMENT ON COLUMN certificate_folders.organization_id IS 'Organização dona da pasta compartilhada (NULL = pasta pessoal)';
+
+CREATE OR REPLACE FUNCTION validate_folder_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_parent_org UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.organization_id IS DISTINCT FROM NEW.organization_id THEN
+    RAISE EXCEPTION 'Uma pasta não pode mudar de organização' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.parent_folder_id IS NOT NULL THEN
+    SELECT organization_id INTO v_parent_org
+      FROM certificate_folders
+     WHERE id = NEW.parent_folder_id;
+
+    IF v_parent_org IS DISTINCT FROM NEW.organization_id THEN
+      RAISE EXCEPTION 'Subpastas devem pertencer ao mesmo workspace da pasta pai' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.organization_id IS NOT NULL
+     AND COALESCE(organization_role(NEW.organization_id, NEW.user_id), '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Apenas owner e admins criam pastas compartilhadas' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_folder_organization_trigger ON certificate_folders;
+CREATE TRIGGER validate_folder_organization_trigger
+  BEFORE INSERT OR UPDATE OF organization_id, parent_folder_id ON certificate_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_folder_organization();
+
+DROP POLICY IF EXISTS "Organization members can view shared folders" ON certificate_folders;
+CREATE POLICY "Organization members can view shared folders"
+  ON certificate_folders FOR SELECT
+  USING (organization_id IS NOT NULL AND is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Organization admins can update shared folders" ON certificate_folders;
+CREATE POLICY "Organization admins can update shared folders"
+  ON certificate_folders FOR UPDATE
+  USING (organization_id IS NOT NULL AND is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+DROP POLICY IF EXISTS "Organization admins can delete shared folders" ON certificate_folders;
+CREATE POLICY "Organization admins can delete shared folders"
+  ON certificate_folders FOR DELETE
+  USING (organization_id IS NOT NULL AND is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+-- Organiza um certificado da organização em uma pasta do workspace
+-- (p_folder_id NULL = remove da pasta)
+CREATE OR REPLACE FUNCTION move_organization_content(
+  p_content_id UUID,
+  p_folder_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_content_org UUID;
+BEGIN
+  SELECT organization_id INTO v_content_org
+    FROM signed_contents
+   WHERE id = p_content_id;
+
+  IF v_content_org IS NULL THEN
+    RAISE EXCEPTION 'Certificado da organização não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT is_organization_member(v_content_org, ARRAY['owner', 'admin', 'signer']) THEN
+    RAISE EXCEPTION 'Permissão negada: organizar certificados exige papel de signatário' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_folder_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM certificate_folders
+     WHERE id = p_folder_id
+       AND organization_id = v_content_org
+  ) THEN
+    RAISE EXCEPTION 'Pasta compartilhada não encontrada nesta organização' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE signed_contents
+     SET folder_id = p_folder_id
+   WHERE id = p_content_id;
+
+  DELETE FROM certificate_folder_items WHERE content_id = p_content_id;
+
+  IF p_folder_id IS NOT NULL THEN
+    INSERT INTO certificate_folder_items (folder_id, content_id)
+    VALUES (p_folder_id, p_content_id);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_organization_content(UUID, UUID) TO authenticated;
+
+-- =====================================================
+-- 8. POOL DE CRÉDITOS
+-- =====================================================
+-- Autenticações em nome da organização consomem o plano e os créditos
+-- avulsos do dono, na mesma ordem de consume_signature. O débito dos
+-- créditos avulsos aparece no extrato do dono (credit_ledger) com o
+-- signatário no motivo; organization_signature_usage registra quem usou.
+
+-- Créditos do plano que ainda podem ser usados. Regra única para o débito
+-- (debit_signature) e para o saldo exibido (signature_availability): só
+-- assinatura 'active' ou 'trialing' tem créditos de plano; os créditos
+-- avulsos valem com ou sem assinatura ativa.
+CREATE OR REPLACE FUNCTION plan_signatures_left(p_sub subscriptions)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_sub.id IS NOT NULL AND p_sub.status IN ('active', 'trialing')
+      THEN GREATEST(COALESCE(p_sub.signatures_limit, 0) - COALESCE(p_sub.signatures_used, 0), 0)
+    ELSE 0
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION plan_signatures_left(subscriptions) FROM PUBLIC, anon, authenticated;
+
+-- Núcleo de consume_signature, sem a checagem de "próprio usuário"
+CREATE OR REPLACE FUNCTION debit_signature(
+  p_user_id UUID,
+  p_reference TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT 'Autenticação de conteúdo'
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  message TEXT,
+  signatures_remaining INTEGER,
+  subscription_id UUID,
+  source TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sub subscriptions;
+  v_plan_left INTEGER := 0;
+  v_taken INTEGER;
+BEGIN
+  PERFORM lock_user_credits(p_user_id);
+
+  SELECT * INTO v_sub
+    FROM subscriptions s
+   WHERE s.user_id = p_user_id
+   ORDER BY s.created_at DESC
+   LIMIT 1
+   FOR UPDATE;
+
+  v_plan_left := plan_signatures_left(v_sub);
+
+  -- 1. Créditos do plano
+  IF v_plan_left > 0 THEN
+    UPDATE subscriptions
+       SET signatures_used = COALESCE(signatures_used, 0) + 1,
+           updated_at = NOW()
+     WHERE id = v_sub.id;
+
+    RETURN QUERY SELECT
+      true,
+      'Autenticação consumida do plano'::TEXT,
+      (v_plan_left - 1) + credit_balance(p_user_id),
+      v_sub.id,
+      'plan'::TEXT;
+    RETURN;
+  END IF;
+
+  -- 2. Créditos avulsos (FIFO por validade)
+  v_taken := take_credits_fifo(p_user_id, 1, 'consume', NULL, COALESCE(p_reference, v_sub.id::TEXT), p_reason);
+
+  IF v_taken = 0 THEN
+    RETURN QUERY SELECT
+      false,
+      'Limite de autenticações atingido. Compre um pacote ou faça upgrade do plano.'::TEXT,
+      0,
+      v_sub.id,
+      NULL::TEXT;
+    RETURN;
+  END IF;
+
+  PERFORM sync_overage_signatures(p_user_id);
+
+  RETURN QUERY SELECT
+    true,
+    'Autenticação consumida dos créditos avulsos'::TEXT,
+    credit_balance(p_user_id),
+    v_sub.id,
+    'credits'::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION debit_signature(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION consume_signature(p_user_id UUID)
+RETURNS TABLE (
+  success BOOLEAN,
+  message TEXT,
+  signatures_remaining INTEGER,
+  subscription_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Permissão negada: assinatura de outro usuário' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+    SELECT d.success, d.message, d.signatures_remaining, d.subscription_id
+      FROM debit_signature(p_user_id) d;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_signature(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION consume_signature(UUID) TO authenticated, service_role;
+
+-- Saldo de autenticações de um usuário (mesmo formato de get_signature_status)
+CREATE OR REPLACE FUNCTION signature_availability(p_user_id UUID)
+RETURNS TABLE (
+  has_active_subscription BOOLEAN,
+  signatures_used INTEGER,
+  signatures_limit INTEGER,
+  overage_available INTEGER,
+  total_available INTEGER,
+  subscription_status TEXT,
+  plan_type TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sub subscriptions;
+  v_active BOOLEAN := false;
+  v_credits INTEGER := credit_balance(p_user_id);
+BEGIN
+  SELECT * INTO v_sub
+    FROM subscriptions s
+   WHERE s.user_id = p_user_id
+   ORDER BY s.created_at DESC
+   LIMIT 1;
+
+  v_active := FOUND AND v_sub.status IN ('active', 'trialing');
+
+  -- Mesmo cálculo de debit_signature: o que aparece aqui é o que pode ser debitado
+  RETURN QUERY SELECT
+    v_active,
+    COALESCE(v_sub.signatures_used, 0),
+    COALESCE(v_sub.signatures_limit, 0),
+    v_credits,
+    plan_signatures_left(v_sub) + v_credits,
+    COALESCE(v_sub.status, 'none')::TEXT,
+    COALESCE(v_sub.plan_type, 'none')::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION signature_availability(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS organization_signature_usage (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Signatário (sem FK: o registro sobrevive à saída do membro)
+  user_id UUID NOT NULL,
+  content_id UUID NOT NULL,
+  billed_user_id UUID NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('plan', 'credits')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Uma cobrança por certificado
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_signature_usage_content
+  ON organization_signature_usage(content_id);
+
+CREATE INDEX IF NOT EXISTS idx_organization_signature_usage_org
+  ON organization_signature_usage(organization_id, created_at DESC);
+
+ALTER TABLE organization_signature_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view organization usage" ON organization_signature_usage;
+CREATE POLICY "Admins can view organization usage"
+  ON organization_signature_usage FOR SELECT
+  USING (is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+GRANT SELECT ON organization_signature_usage TO authenticated;
+GRANT SELECT, INSERT ON organization_signature_usage TO service_role;
+
+COMMENT ON TABLE organization_signature_usage IS 'Uso append-only do pool de créditos da organização (quem assinou, o quê e de onde saiu o crédito)';
+
+CREATE OR REPLACE FUNCTION prevent_organization_usage_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'O uso do pool de créditos é append-only (% recusado)', TG_OP
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organization_signature_usage_append_only ON organization_signature_usage;
+CREATE TRIGGER organization_signature_usage_append_only
+  BEFORE UPDATE OR DELETE ON organization_signature_usage
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_organization_usage_changes();
+
+DROP TRIGGER IF EXISTS organization_signature_usage_no_truncate ON organization_signature_usage;
+CREATE TRIGGER organization_signature_usage_no_truncate
+  BEFORE TRUNCATE ON organization_signature_usage
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_organization_usage_changes();
+
+-- Saldo do pool (qualquer membro)
+CREATE OR REPLACE FUNCTION get_organization_signature_status(p_organization_id UUID)
+RETURNS TABLE (
+  has_active_subscription BOOLEAN,
+  signatures_used INTEGER,
+  signatures_limit INTEGER,
+  overage_available INTEGER,
+  total_available INTEGER,
+  subscription_status TEXT,
+  plan_type TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(p_organization_id) THEN
+    RAISE EXCEPTION 'Organização não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+    SELECT sa.*
+      FROM organizations o
+      CROSS JOIN LATERAL signature_availability(o.owner_id) sa
+     WHERE o.id = p_organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_organization_signature_status(UUID) TO authenticated;
+
+-- Cobrança na emissão: o INSERT do certificado pela sessão do usuário
+-- (Edge Function com o JWT do usuário ou fallback no navegador) debita a
+-- autenticação na mesma transação — sem crédito, o certificado não é
+-- criado. Em nome da organização, cobra do dono e registra o uso no pool.
+-- A permissão do signatário é conferida por validate_content_organization
+-- no mesmo INSERT: qualquer erro desfaz o débito.
+-- A chave de API (service_role) debita antes de assinar (debit_signature)
+-- e devolve com refund_signature, por isso é ignorada aqui.
+DROP FUNCTION IF EXISTS consume_organization_signature(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION charge_signed_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org organizations;
+  v_signer_name TEXT;
+  v_billed_user_id UUID := NEW.user_id;
+  v_reason TEXT := 'Autenticação de conteúdo';
+  v_success BOOLEAN;
+  v_message TEXT;
+  v_source TEXT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL THEN
+    SELECT * INTO v_org FROM organizations WHERE id = NEW.organization_id;
+
+    IF v_org.id IS NULL THEN
+      RAISE EXCEPTION 'Organização não encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT COALESCE(nome_publico, nome_completo) INTO v_signer_name
+      FROM users
+     WHERE id = NEW.user_id;
+
+    v_billed_user_id := v_org.owner_id;
+    v_reason := format('Autenticação em nome de %s por %s', v_org.name, COALESCE(v_signer_name, 'membro'));
+  END IF;
+
+  SELECT d.success, d.message, d.source
+    INTO v_success, v_message, v_source
+    FROM debit_signature(v_billed_user_id, NEW.id::TEXT, v_reason) d;
+
+  IF NOT v_success THEN
+    RAISE EXCEPTION '%', v_message USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL THEN
+    INSERT INTO organization_signature_usage (organization_id, user_id, content_id, billed_user_id, source)
+    VALUES (NEW.organization_id, NEW.user_id, NEW.id, v_billed_user_id, v_source);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION charge_signed_content() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS charge_signed_content_trigger ON signed_contents;
+CREATE TRIGGER charge_signed_content_trigger
+  BEFORE INSERT ON signed_contents
+  FOR EACH ROW
+  EXECUTE FUNCTION charge_signed_content();
+
+-- =====================================================
+-- 9. RPCs DE GESTÃO
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION create_organization(
+  p_name TEXT,
+  p_slug TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_website TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  IF (SELECT count(*) FROM organizations WHERE owner_id = auth.uid()) >= 5 THEN
+    RAISE EXCEPTION 'Máximo de 5 organizações por dono' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    INSERT INTO organizations (name, slug, description, website, owner_id)
+    VALUES (
+      trim(p_name),
+      lower(trim(p_slug)),
+      NULLIF(trim(p_description), ''),
+      NULLIF(trim(p_website), ''),
+      auth.uid()
+    )
+    RETURNING id INTO v_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Este endereço já está em uso por outra organização' USING ERRCODE = '23505';
+  END;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_id, auth.uid(), 'owner');
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_organization(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_organization(
+  p_organization_id UUID,
+  p_name TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_website TEXT DEFAULT NULL,
+  p_logo_url TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(p_organization_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Permissão negada: apenas owner e admins editam o perfil' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE organizations
+     SET name = trim(p_name),
+         description = NULLIF(trim(p_description), ''),
+         website = NULLIF(trim(p_website), ''),
+         logo_url = NULLIF(trim(p_logo_url), ''),
+         updated_at = NOW()
+   WHERE id = p_organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_organization(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Convite por e-mail; a conta pode ainda não existir (o convite aparece
+-- quando o usuário entrar com o mesmo e-mail). O envio do e-mail fica com
+-- a Edge Function organization-invite.
+CREATE OR REPLACE FUNCTION invite_organization_member(
+  p_organization_id UUID,
+  p_email TEXT,
+  p_role TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT := organization_role(p_organization_id, auth.uid());
+  v_email TEXT := lower(trim(p_email));
+  v_id UUID;
+BEGIN
+  IF COALESCE(v_role, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Permissão negada: apenas owner e admins convidam membros' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'signer', 'viewer') THEN
+    RAISE EXCEPTION 'Papel inválido: %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  IF p_role = 'admin' AND v_role <> 'owner' THEN
+    RAISE EXCEPTION 'Apenas o dono pode convidar administradores' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_members m
+      JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = p_organization_id
+       AND lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION 'Este e-mail já é membro da organização' USING ERRCODE = '23505';
+  END IF;
+
+  IF (SELECT count(*) FROM organization_members WHERE organization_id = p_organization_id)
+     + (SELECT count(*) FROM organization_invitations
+         WHERE organization_id = p_organization_id AND status = 'pending' AND expires_at > NOW()) >= 50 THEN
+    RAISE EXCEPTION 'Máximo de 50 membros por organização' USING ERRCODE = '22023';
+  END IF;
+
+  -- Convite vencido é substituído; pendente e válido é duplicado
+  UPDATE organization_invitations
+     SET status = 'revoked',
+         responded_at = NOW()
+   WHERE organization_id = p_organization_id
+     AND lower(email) = v_email
+     AND status = 'pending'
+     AND expires_at <= NOW();
+
+  BEGIN
+    INSERT INTO organization_invitations (organization_id, email, role, invited_by)
+    VALUES (p_organization_id, v_email, p_role, auth.uid())
+    RETURNING id INTO v_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Já existe um convite pendente para este e-mail' USING ERRCODE = '23505';
+  END;
+
+  RETURN jsonb_build_object(
+    'invitation_id', v_id,
+    'email', v_email,
+    'role', p_role,
+    'organization_name', (SELECT name FROM organizations WHERE id = p_organization_id),
+    'inviter_name', (SELECT COALESCE(nome_publico, nome_completo) FROM users WHERE id = auth.uid())
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION invite_organization_member(UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_organization_invitation(p_invitation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE organization_invitations
+     SET status = 'revoked',
+         responded_at = NOW()
+   WHERE id = p_invitation_id
+     AND status = 'pending'
+     AND is_organization_member(organization_id, ARRAY['owner', 'admin']);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convite pendente não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_organization_invitation(UUID) TO authenticated;
+
+-- Convites pendentes para o e-mail do usuário autenticado
+CREATE OR REPLACE FUNCTION get_my_organization_invitations()
+RETURNS TABLE (
+  id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  organization_slug TEXT,
+  role TEXT,
+  inviter_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.organization_id,
+    o.name,
+    o.slug,
+    i.role,
+    COALESCE(u.nome_publico, u.nome_completo)::TEXT,
+    i.created_at,
+    i.expires_at
+  FROM organization_invitations i
+  JOIN organizations o ON o.id = i.organization_id
+  LEFT JOIN users u ON u.id = i.invited_by
+  WHERE lower(i.email) = (SELECT lower(email) FROM users WHERE id = auth.uid())
+    AND i.status = 'pending'
+    AND i.expires_at > NOW()
+  ORDER BY i.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_organization_invitations() TO authenticated;
+
+CREATE OR REPLACE FUNCTION respond_organization_invitation(
+  p_invitation_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation organization_invitations;
+BEGIN
+  SELECT * INTO v_invitation
+    FROM organization_invitations
+   WHERE id = p_invitation_id
+     AND status = 'pending'
+     AND expires_at > NOW()
+     AND lower(email) = (SELECT lower(email) FROM users WHERE id = auth.uid())
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Convite não encontrado ou expirado' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE organization_invitations
+     SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+         responded_at = NOW(),
+         accepted_by = CASE WHEN p_accept THEN auth.uid() END
+   WHERE id = p_invitation_id;
+
+  IF p_accept THEN
+    INSERT INTO organization_members (organization_id, user_id, role, invited_by)
+    VALUES (v_invitation.organization_id, auth.uid(), v_invitation.role, v_invitation.invited_by)
+    ON CONFLICT (organization_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN v_invitation.organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_organization_invitation(UUID, BOOLEAN) TO authenticated;
+
+-- owner muda qualquer papel (exceto o próprio); admin só entre signer/viewer
+CREATE OR REPLACE FUNCTION update_organization_member_role(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_role TEXT := organization_role(p_organization_id, auth.uid());
+  v_target_role TEXT := organization_role(p_organization_id, p_user_id);
+BEGIN
+  IF COALESCE(v_actor_role, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Permissão negada: apenas owner e admins alteram papéis' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_target_role IS NULL THEN
+    RAISE EXCEPTION 'Membro não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'signer', 'viewer') THEN
+    RAISE EXCEPTION 'Papel inválido: %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  IF v_target_role = 'owner' THEN
+    RAISE EXCEPTION 'O papel do dono não pode ser alterado' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_actor_role = 'admin' AND (v_target_role = 'admin' OR p_role = 'admin') THEN
+    RAISE EXCEPTION 'Apenas o dono gerencia administradores' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE organization_members
+     SET role = p_role
+   WHERE organization_id = p_organization_id
+     AND user_id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_organization_member_role(UUID, UUID, TEXT) TO authenticated;
+
+-- Remove um membro (ou sai da organização, com p_user_id = auth.uid()).
+-- Certificados já emitidos continuam em nome da organização.
+CREATE OR REPLACE FUNCTION remove_organization_member(
+  p_organization_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_role TEXT := organization_role(p_organization_id, auth.uid());
+  v_target_role TEXT := organization_role(p_organization_id, p_user_id);
+BEGIN
+  IF v_target_role IS NULL THEN
+    RAISE EXCEPTION 'Membro não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_target_role = 'owner' THEN
+    RAISE EXCEPTION 'O dono não pode sair da organização' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    IF COALESCE(v_actor_role, '') NOT IN ('owner', 'admin') THEN
+      RAISE EXCEPTION 'Permissão negada: apenas owner e admins removem membros' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_actor_role = 'admin' AND v_target_role = 'admin' THEN
+      RAISE EXCEPTION 'Apenas o dono remove administradores' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  DELETE FROM organization_members
+   WHERE organization_id = p_organization_id
+     AND user_id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION remove_organization_member(UUID, UUID) TO authenticated;
+
+-- =====================================================
+-- 10. RPCs DE LEITURA (workspace)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_my_organizations()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  logo_url TEXT,
+  role TEXT,
+  member_count INTEGER,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.name,
+    o.slug,
+    o.logo_url,
+    m.role,
+    (SELECT count(*)::INTEGER FROM organization_members mm WHERE mm.organization_id = o.id),
+    m.joined_at
+  FROM organization_members m
+  JOIN organizations o ON o.id = m.organization_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY o.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_organizations() TO authenticated;
+
+-- Perfil, membros, convites (owner/admin), pastas e uso dos últimos 30 dias
+CREATE OR REPLACE FUNCTION get_organization_workspace(p_organization_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT := organization_role(p_organization_id, auth.uid());
+  v_is_manager BOOLEAN;
+BEGIN
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Organização não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_is_manager := v_role IN ('owner', 'admin');
+
+  RETURN jsonb_build_object(
+    'organization', (
+      SELECT jsonb_build_object(
+        'id', o.id,
+        'name', o.name,
+        'slug', o.slug,
+        'description', o.description,
+        'website', o.website,
+        'logo_url', o.logo_url,
+        'owner_id', o.owner_id,
+        'created_at', o.created_at
+      )
+      FROM organizations o
+      WHERE o.id = p_organization_id
+    ),
+    'my_role', v_role,
+    'members', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', m.user_id,
+        'name', COALESCE(u.nome_publico, u.nome_completo),
+        'email', CASE WHEN v_is_manager THEN u.email END,
+        'role', m.role,
+        'joined_at', m.joined_at,
+        'signatures_30d', (
+          SELECT count(*)
+            FROM organization_signature_usage su
+           WHERE su.organization_id = p_organization_id
+             AND su.user_id = m.user_id
+             AND su.created_at > NOW() - INTERVAL '30 days'
+        )
+      ) ORDER BY array_position(ARRAY['owner', 'admin', 'signer', 'viewer'], m.role), u.nome_completo)
+      FROM organization_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = p_organization_id
+    ), '[]'::jsonb),
+    'invitations', CASE WHEN v_is_manager THEN COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', i.id,
+        'email', i.email,
+        'role', i.role,
+        'created_at', i.created_at,
+        'expires_at', i.expires_at
+      ) ORDER BY i.created_at DESC)
+      FROM organization_invitations i
+      WHERE i.organization_id = p_organization_id
+        AND i.status = 'pending'
+        AND i.expires_at > NOW()
+    ), '[]'::jsonb) ELSE '[]'::jsonb END,
+    'folders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', f.id,
+        'name', f.name,
+        'color', f.color,
+        'icon', f.icon,
+        'content_count', (
+          SELECT count(*) FROM signed_contents sc
+           WHERE sc.folder_id = f.id
+             AND sc.organization_id = p_organization_id
+        )
+      ) ORDER BY f.position, f.name)
+      FROM certificate_folders f
+      WHERE f.organization_id = p_organization_id
+    ), '[]'::jsonb),
+    'usage_30d', (
+      SELECT count(*)
+        FROM organization_signature_usage su
+       WHERE su.organization_id = p_organization_id
+         AND su.created_at > NOW() - INTERVAL '30 days'
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_organization_workspace(UUID) TO authenticated;
+
+-- Certificados emitidos em nome da organização (com o signatário)
+CREATE OR REPLACE FUNCTION get_organization_contents(
+  p_organization_id UUID,
+  p_folder_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(p_organization_id) THEN
+    RAISE EXCEPTION 'Organização não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'total', (
+      SELECT count(*)
+        FROM signed_contents sc
+       WHERE sc.organization_id = p_organization_id
+         AND (p_folder_id IS NULL OR sc.folder_id = p_folder_id)
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(row_to_json(page)::jsonb ORDER BY page.created_at DESC)
+      FROM (
+        SELECT
+          sc.id,
+          sc.verification_code,
+          left(sc.content, 280) AS content,
+          sc.thumbnail,
+          sc.creator_name,
+          sc.user_id AS signer_id,
+          sc.folder_id,
+          sc.created_at,
+          sc.revoked_at
+        FROM signed_contents sc
+        WHERE sc.organization_id = p_organization_id
+          AND (p_folder_id IS NULL OR sc.folder_id = p_folder_id)
+        ORDER BY sc.created_at DESC
+        LIMIT LEAST(GREATEST(p_limit, 1), 100)
+        OFFSET GREATEST(p_offset, 0)
+      ) page
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_organization_contents(UUID, UUID, INTEGER, INTEGER) TO authenticated;
+
+-- =====================================================
+-- 11. FUNCTION: get_public_organization_profile
+-- =====================================================
+-- Leitura pública (como o próprio certificado): perfil exibido no
+-- certificado emitido em nome da organização
+
+CREATE OR REPLACE FUNCTION get_public_organization_profile(p_organization_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'name', o.name,
+    'slug', o.slug,
+    'description', o.description,
+    'website', o.website,
+    'logo_url', o.logo_url,
+    'created_at', o.created_at,
+    'member_count', (SELECT count(*) FROM organization_members m WHERE m.organization_id = o.id),
+    'certificate_count', (SELECT count(*) FROM signed_contents sc WHERE sc.organization_id = o.id)
+  )
+  FROM organizations o
+  WHERE o.id = p_organization_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_public_organization_profile(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 12. COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION is_organization_member(UUID, TEXT[]) IS 'O usuário autenticado é membro da organização (opcionalmente com um dos papéis)?';
+COMMENT ON FUNCTION assign_content_to_organization(UUID, UUID) IS 'Registra a organização de um certificado pessoal já emitido (apenas o signatário, uma única vez)';
+COMMENT ON FUNCTION move_organization_content(UUID, UUID) IS 'Move um certificado da organização para uma pasta compartilhada';
+COMMENT ON FUNCTION debit_signature(UUID, TEXT, TEXT) IS 'Debita uma autenticação: plano primeiro, depois créditos avulsos em FIFO por validade';
+COMMENT ON FUNCTION consume_signature(UUID) IS 'Consome uma autenticação do próprio usuário: plano primeiro, depois créditos avulsos em FIFO por validade';
+COMMENT ON FUNCTION charge_signed_content() IS 'Debita a autenticação (do signatário ou do pool da organização) no INSERT do certificado pela sessão do usuário';
+COMMENT ON FUNCTION get_organization_signature_status(UUID) IS 'Autenticações disponíveis no pool da organização';
+COMMENT ON FUNCTION create_organization(TEXT, TEXT, TEXT, TEXT) IS 'Cria uma organização com o usuário autenticado como dono';
+COMMENT ON FUNCTION invite_organization_member(UUID, TEXT, TEXT) IS 'Convida um e-mail para a organização (owner/admin)';
+COMMENT ON FUNCTION respond_organization_invitation(UUID, BOOLEAN) IS 'Aceita ou recusa um convite enviado ao e-mail do usuário';
+COMMENT ON FUNCTION get_organization_workspace(UUID) IS 'Perfil, membros, convites, pastas e uso do pool da organização';
+COMMENT ON FUNCTION get_public_organization_profile(UUID) IS 'Perfil público da organização (exibido nos certificados)';
+
+COMMIT;
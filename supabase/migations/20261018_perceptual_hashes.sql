@@ -0,0 +1,158 @@
+-- =====================================================
+-- PERCEPTUAL HASHES - BUSCA DE IMAGENS SEMELHANTES
+-- =====================================================
+-- Migration: Localizar certificados a partir de cópias redimensionadas
+--            ou recomprimidas de uma imagem
+-- Created: 2026-10-18
+-- Description:
+--   1. signed_contents.perceptual_hash: pHash (hex) da imagem principal
+--   2. image_perceptual_hashes: pHash/dHash por imagem (carrossel incluso)
+--   3. find_similar_images(): busca pública ordenada pela distância
+--      de Hamming (requer PostgreSQL 14+ para bit_count)
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMN: signed_contents.perceptual_hash
+-- =====================================================
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+
+COMMENT ON COLUMN signed_contents.perceptual_hash IS 'pHash (hex, 64 bits) da imagem principal do certificado';
+
+-- =====================================================
+-- 2. TABLE: image_perceptual_hashes
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS image_perceptual_hashes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES signed_contents(id) ON DELETE CASCADE,
+  -- 0 = thumbnail principal, 1..n = imagens do carrossel (ordem)
+  image_index INTEGER NOT NULL DEFAULT 0,
+  phash TEXT NOT NULL CHECK (phash ~ '^[0-9a-f]{16}$'),
+  dhash TEXT NOT NULL CHECK (dhash ~ '^[0-9a-f]{16}$'),
+  -- Representação binária para XOR / bit_count
+  phash_bits BIGINT GENERATED ALWAYS AS (('x' || phash)::bit(64)::bigint) STORED,
+  dhash_bits BIGINT GENERATED ALWAYS AS (('x' || dhash)::bit(64)::bigint) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (content_id, image_index)
+);
+
+CREATE INDEX IF NOT EXISTS image_perceptual_hashes_content_id_idx
+  ON image_perceptual_hashes(content_id);
+
+COMMENT ON TABLE image_perceptual_hashes IS 'Hashes perceptuais por imagem de certificado (busca por semelhança)';
+
+-- =====================================================
+-- 3. RLS
+-- =====================================================
+-- Leitura pública apenas via find_similar_images (SECURITY DEFINER)
+
+ALTER TABLE image_perceptual_hashes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can insert image hashes" ON image_perceptual_hashes;
+CREATE POLICY "Owners can insert image hashes"
+  ON image_perceptual_hashes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM signed_contents sc
+      WHERE sc.id = content_id
+        AND sc.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Owners can view image hashes" ON image_perceptual_hashes;
+CREATE POLICY "Owners can view image hashes"
+  ON image_perceptual_hashes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM signed_contents sc
+      WHERE sc.id = content_id
+        AND sc.user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- 4. FUNCTION: find_similar_images
+-- =====================================================
+-- Retorna um registro por certificado (a imagem mais próxima),
+-- ordenado pela distância de Hamming do pHash (dHash desempata)
+
+CREATE OR REPLACE FUNCTION find_similar_images(
+  p_phash TEXT,
+  p_dhash TEXT DEFAULT NULL,
+  p_max_distance INTEGER DEFAULT 12,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  content_id UUID,
+  verification_code TEXT,
+  creator_name TEXT,
+  thumbnail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  image_index INTEGER,
+  phash_distance INTEGER,
+  dhash_distance INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phash BIGINT;
+  v_dhash BIGINT;
+BEGIN
+  IF p_phash IS NULL OR p_phash !~ '^[0-9a-f]{16}$' THEN
+    RAISE EXCEPTION 'pHash inválido';
+  END IF;
+
+  v_phash := ('x' || p_phash)::bit(64)::bigint;
+  v_dhash := CASE
+    WHEN p_dhash ~ '^[0-9a-f]{16}$' THEN ('x' || p_dhash)::bit(64)::bigint
+    ELSE NULL
+  END;
+
+  RETURN QUERY
+  SELECT
+    ranked.content_id,
+    ranked.verification_code,
+    ranked.creator_name,
+    ranked.thumbnail,
+    ranked.created_at,
+    ranked.image_index,
+    ranked.phash_distance,
+    ranked.dhash_distance
+  FROM (
+    SELECT DISTINCT ON (sc.id)
+      sc.id AS content_id,
+      sc.verification_code,
+      sc.creator_name,
+      sc.thumbnail,
+      sc.created_at,
+      h.image_index,
+      bit_count((h.phash_bits # v_phash)::bit(64))::INTEGER AS phash_distance,
+      COALESCE(bit_count((h.dhash_bits # v_dhash)::bit(64))::INTEGER, 64) AS dhash_distance
+    FROM image_perceptual_hashes h
+    JOIN signed_contents sc ON sc.id = h.content_id
+    WHERE bit_count((h.phash_bits # v_phash)::bit(64)) <= LEAST(GREATEST(p_max_distance, 0), 32)
+    ORDER BY sc.id,
+      bit_count((h.phash_bits # v_phash)::bit(64)),
+      bit_count((h.dhash_bits # v_dhash)::bit(64)) NULLS LAST
+  ) ranked
+  ORDER BY ranked.phash_distance, ranked.dhash_distance, ranked.created_at
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_similar_images(TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION find_similar_images IS 'Busca certificados com imagens perceptualmente semelhantes (distância de Hamming)';
+
+COMMIT;
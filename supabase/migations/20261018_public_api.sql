@@ -0,0 +1,441 @@
+-- =====================================================
+-- PUBLIC VERIFICATION API
+-- =====================================================
+-- Migration: API REST pública de verificação (Edge Function public-api)
+-- Created: 2026-10-18
+-- Description:
+--   1. api_plan_quotas: limites de API por plano (requisições/mês e /minuto)
+--   2. api_keys: chaves de API por usuário (apenas o SHA-256 é armazenado)
+--   3. api_usage: registro de cada requisição (rate limit + medição)
+--   4. create_api_key() / revoke_api_key(): gestão pelo próprio usuário
+--   5. consume_api_request(): valida a chave, aplica rate limit e cota
+--      do plano e registra o uso (atômico)
+--   6. get_api_usage_summary(): consumo no período atual
+--   7. Assinatura via API (sign-content): debit_signature() liberado para a
+--      service_role; refund_signature() devolve débitos de certificados
+--      não emitidos
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: api_plan_quotas
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS api_plan_quotas (
+  plan_type TEXT PRIMARY KEY,
+  -- NULL = ilimitado; 0 = plano sem acesso à API
+  requests_per_month INTEGER CHECK (requests_per_month IS NULL OR requests_per_month >= 0),
+  requests_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (requests_per_minute > 0),
+  max_keys INTEGER NOT NULL DEFAULT 5 CHECK (max_keys >= 0)
+);
+
+INSERT INTO api_plan_quotas (plan_type, requests_per_month, requests_per_minute, max_keys) VALUES
+  ('free', 0, 10, 0),
+  ('creator', 0, 30, 0),
+  ('creator_pro', 15000, 60, 5),
+  ('creator_elite', NULL, 300, 20)
+ON CONFLICT (plan_type) DO NOTHING;
+
+COMMENT ON TABLE api_plan_quotas IS 'Cota da API pública por plano (requests_per_month NULL = ilimitado)';
+
+-- =====================================================
+-- 2. TABLE: api_keys
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  -- Início da chave, exibido na interface (ex: "vid_live_AbC1")
+  key_prefix TEXT NOT NULL,
+  -- SHA-256 (hex) da chave completa; a chave em si nunca é armazenada
+  key_hash TEXT NOT NULL UNIQUE CHECK (key_hash ~ '^[0-9a-f]{64}$'),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys(user_id);
+
+COMMENT ON TABLE api_keys IS 'Chaves da API pública de verificação (armazenadas como SHA-256)';
+
+-- =====================================================
+-- 3. TABLE: api_usage
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS api_usage (
+  id BIGSERIAL PRIMARY KEY,
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_usage_key_created_idx ON api_usage(api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS api_usage_user_created_idx ON api_usage(user_id, created_at DESC);
+
+COMMENT ON TABLE api_usage IS 'Uma linha por requisição à API pública (rate limit e medição)';
+
+-- =====================================================
+-- 4. RLS
+-- =====================================================
+-- Criação/revogação via funções abaixo; usuários só leem os próprios dados
+
+ALTER TABLE api_plan_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view API quotas" ON api_plan_quotas;
+CREATE POLICY "Anyone can view API quotas"
+  ON api_plan_quotas
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view own API keys" ON api_keys;
+CREATE POLICY "Users can view own API keys"
+  ON api_keys
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view own API usage" ON api_usage;
+CREATE POLICY "Users can view own API usage"
+  ON api_usage
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- =====================================================
+-- 5. HELPER: plano e período atuais do usuário
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_api_plan(p_user_id UUID)
+RETURNS TABLE (
+  plan_type TEXT,
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE,
+  requests_per_month INTEGER,
+  requests_per_minute INTEGER,
+  max_keys INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan TEXT := 'free';
+  v_start TIMESTAMP WITH TIME ZONE := date_trunc('month', NOW());
+  v_end TIMESTAMP WITH TIME ZONE := date_trunc('month', NOW()) + INTERVAL '1 month';
+  v_sub RECORD;
+BEGIN
+  SELECT s.plan_type, s.current_period_start, s.current_period_end
+  INTO v_sub
+  FROM subscriptions s
+  WHERE s.user_id = p_user_id
+    AND s.status IN ('active', 'trialing')
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_plan := replace(v_sub.plan_type, '-', '_');
+    IF v_sub.current_period_start IS NOT NULL AND v_sub.current_period_end > NOW() THEN
+      v_start := v_sub.current_period_start;
+      v_end := v_sub.current_period_end;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_plan,
+    v_start,
+    v_end,
+    COALESCE(q.requests_per_month, CASE WHEN q.plan_type IS NULL THEN 0 END),
+    COALESCE(q.requests_per_minute, 10),
+    COALESCE(q.max_keys, 0)
+  FROM (SELECT 1) AS one
+  LEFT JOIN api_plan_quotas q ON q.plan_type = v_plan;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_api_plan(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 6. FUNCTIONS: create_api_key / revoke_api_key
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION create_api_key(
+  p_name TEXT,
+  p_key_prefix TEXT,
+  p_key_hash TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_plan RECORD;
+  v_active_keys INTEGER;
+  v_key_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_plan FROM get_api_plan(v_user_id);
+
+  IF v_plan.max_keys = 0 THEN
+    RAISE EXCEPTION 'Seu plano não inclui acesso à API';
+  END IF;
+
+  SELECT COUNT(*) INTO v_active_keys
+  FROM api_keys
+  WHERE user_id = v_user_id AND revoked_at IS NULL;
+
+  IF v_active_keys >= v_plan.max_keys THEN
+    RAISE EXCEPTION 'Limite de % chaves ativas atingido', v_plan.max_keys;
+  END IF;
+
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+  VALUES (v_user_id, trim(p_name), p_key_prefix, p_key_hash)
+  RETURNING id INTO v_key_id;
+
+  RETURN v_key_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_api_key(p_key_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE api_keys
+  SET revoked_at = NOW()
+  WHERE id = p_key_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_api_key(TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_api_key(UUID) TO authenticated;
+
+-- =====================================================
+-- 7. FUNCTION: consume_api_request
+-- =====================================================
+-- Chamada pela Edge Function (service_role) a cada requisição.
+-- reason: ok | invalid_key | revoked_key | plan_required | rate_limited | quota_exceeded
+
+CREATE OR REPLACE FUNCTION consume_api_request(
+  p_key_hash TEXT,
+  p_endpoint TEXT
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  reason TEXT,
+  user_id UUID,
+  api_key_id UUID,
+  rate_limit INTEGER,
+  rate_remaining INTEGER,
+  quota_limit INTEGER,
+  quota_remaining INTEGER,
+  period_end TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+  v_plan RECORD;
+  v_minute_count INTEGER;
+  v_period_count INTEGER;
+BEGIN
+  -- Bloqueia a linha da chave: requisições simultâneas são serializadas
+  SELECT * INTO v_key FROM api_keys k WHERE k.key_hash = p_key_hash FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'invalid_key', NULL::UUID, NULL::UUID, 0, 0, 0, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF v_key.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT false, 'revoked_key', v_key.user_id, v_key.id, 0, 0, 0, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_plan FROM get_api_plan(v_key.user_id);
+
+  IF v_plan.requests_per_month = 0 THEN
+    RETURN QUERY SELECT false, 'plan_required', v_key.user_id, v_key.id, 0, 0, 0, 0, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_minute_count
+  FROM api_usage u
+  WHERE u.api_key_id = v_key.id
+    AND u.created_at > NOW() - INTERVAL '1 minute';
+
+  IF v_minute_count >= v_plan.requests_per_minute THEN
+    RETURN QUERY SELECT false, 'rate_limited', v_key.user_id, v_key.id,
+      v_plan.requests_per_minute, 0, v_plan.requests_per_month, NULL::INTEGER, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  -- Cota mensal compartilhada por todas as chaves do usuário
+  SELECT COUNT(*) INTO v_period_count
+  FROM api_usage u
+  WHERE u.user_id = v_key.user_id
+    AND u.created_at >= v_plan.period_start;
+
+  IF v_plan.requests_per_month IS NOT NULL AND v_period_count >= v_plan.requests_per_month THEN
+    RETURN QUERY SELECT false, 'quota_exceeded', v_key.user_id, v_key.id,
+      v_plan.requests_per_minute, v_plan.requests_per_minute - v_minute_count,
+      v_plan.requests_per_month, 0, v_plan.period_end;
+    RETURN;
+  END IF;
+
+  INSERT INTO api_usage (api_key_id, user_id, endpoint)
+  VALUES (v_key.id, v_key.user_id, p_endpoint);
+
+  UPDATE api_keys SET last_used_at = NOW() WHERE id = v_key.id;
+
+  RETURN QUERY SELECT true, 'ok', v_key.user_id, v_key.id,
+    v_plan.requests_per_minute,
+    v_plan.requests_per_minute - v_minute_count - 1,
+    v_plan.requests_per_month,
+    CASE WHEN v_plan.requests_per_month IS NULL THEN NULL
+         ELSE v_plan.requests_per_month - v_period_count - 1 END,
+    v_plan.period_end;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_api_request(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_request(TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- 8. FUNCTION: get_api_usage_summary
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_api_usage_summary()
+RETURNS TABLE (
+  plan_type TEXT,
+  requests_used INTEGER,
+  requests_per_month INTEGER,
+  requests_per_minute INTEGER,
+  max_keys INTEGER,
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_plan FROM get_api_plan(auth.uid());
+
+  RETURN QUERY
+  SELECT
+    v_plan.plan_type,
+    (SELECT COUNT(*)::INTEGER FROM api_usage u
+      WHERE u.user_id = auth.uid() AND u.created_at >= v_plan.period_start),
+    v_plan.requests_per_month,
+    v_plan.requests_per_minute,
+    v_plan.max_keys,
+    v_plan.period_start,
+    v_plan.period_end;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_api_usage_summary() TO authenticated;
+
+-- =====================================================
+-- 9. ASSINATURA VIA API: DÉBITO E DEVOLUÇÃO
+-- =====================================================
+-- A sign-content (chave de API) debita a autenticação antes de assinar
+-- com debit_signature (20261018_organizations.sql) e a devolve se o
+-- certificado não for emitido.
+
+GRANT EXECUTE ON FUNCTION debit_signature(UUID, TEXT, TEXT) TO service_role;
+
+-- Devolve um débito de debit_signature quando o certificado não chegou a
+-- ser emitido (ex.: falha na assinatura via API). Plano: desfaz o
+-- signatures_used; créditos avulsos: lançamento 'refund' positivo no lote
+-- de onde saiu o crédito (idempotente por p_reference).
+CREATE OR REPLACE FUNCTION refund_signature(
+  p_user_id UUID,
+  p_subscription_id UUID,
+  p_source TEXT,
+  p_reference TEXT,
+  p_reason TEXT DEFAULT 'Autenticação não emitida'
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot_id UUID;
+BEGIN
+  IF p_reference IS NULL OR p_reference = '' THEN
+    RAISE EXCEPTION 'Referência do débito obrigatória' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM lock_user_credits(p_user_id);
+
+  IF EXISTS (SELECT 1 FROM credit_ledger WHERE idempotency_key = 'signature-refund:' || p_reference) THEN
+    RETURN false;
+  END IF;
+
+  IF p_source = 'plan' THEN
+    UPDATE subscriptions
+       SET signatures_used = GREATEST(COALESCE(signatures_used, 0) - 1, 0),
+           updated_at = NOW()
+     WHERE id = p_subscription_id
+       AND user_id = p_user_id;
+    RETURN FOUND;
+  END IF;
+
+  SELECT lot_id INTO v_lot_id
+    FROM credit_ledger
+   WHERE user_id = p_user_id
+     AND entry_type = 'consume'
+     AND reference = p_reference
+   ORDER BY id DESC
+   LIMIT 1;
+
+  IF v_lot_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM append_credit_entry(
+    p_user_id, v_lot_id, 'refund', 1,
+    'signature-refund:' || p_reference, p_reference, p_reason
+  );
+  PERFORM sync_overage_signatures(p_user_id);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refund_signature(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_signature(UUID, UUID, TEXT, TEXT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION consume_api_request IS 'Valida chave de API, aplica rate limit/cota do plano e registra o uso';
+
+COMMIT;
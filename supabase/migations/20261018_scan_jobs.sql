@@ -0,0 +1,524 @@
+-- =====================================================
+-- PIPELINE DE VERIFICAÇÃO DE ARQUIVOS (SERVER-SIDE)
+-- =====================================================
+-- Migration: Fila de scans disparada pelo upload em temp-uploads
+-- Created: 2026-10-18
+-- Description:
+--   1. file_scans passa a ter uma linha por arquivo enviado (file_path),
+--      preenchida pelo servidor; o hash é calculado pelo worker
+--   2. scan_jobs: fila com tentativas, backoff e lease (timeout)
+--   3. Trigger em storage.objects: todo upload em temp-uploads entra na
+--      fila e volta a 'pending' (inclusive quando o arquivo é substituído)
+--   4. claim_scan_jobs() / complete_scan_job() / fail_scan_job():
+--      usadas pela Edge Function scan-uploads (service_role)
+--   5. claim_upload_promotion() / consume_upload_promotion(): a Edge
+--      Function promote-upload copia só arquivos 'clean', com o mesmo hash
+--      verificado; policies RESTRICTIVE impedem o cliente de gravar em
+--      signed-documents
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. FILE_SCANS: uma linha por upload
+-- =====================================================
+
+-- O hash não é conhecido no momento do upload, e o mesmo arquivo pode ser
+-- enviado por mais de um usuário: a deduplicação passa a ser por file_path
+ALTER TABLE file_scans DROP CONSTRAINT IF EXISTS unique_file_hash;
+ALTER TABLE file_scans ALTER COLUMN file_hash_sha256 DROP NOT NULL;
+
+ALTER TABLE file_scans DROP CONSTRAINT IF EXISTS file_scans_file_size_check;
+ALTER TABLE file_scans
+  ADD CONSTRAINT file_scans_file_size_check CHECK (file_size >= 0);
+
+ALTER TABLE file_scans
+  ADD COLUMN IF NOT EXISTS bucket_id TEXT,
+  ADD COLUMN IF NOT EXISTS scanner TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_file_scans_unique_path
+  ON file_scans(file_path)
+  WHERE file_path <> '';
+
+-- O resultado do scan é gravado apenas pelo servidor
+DROP POLICY IF EXISTS "Users can insert own scans" ON file_scans;
+REVOKE INSERT ON file_scans FROM authenticated;
+
+COMMENT ON COLUMN file_scans.scanner IS
+  'Backend que produziu o resultado: virustotal, clamav ou mock';
+
+-- =====================================================
+-- 2. TABLE: scan_jobs
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS scan_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_scan_id UUID NOT NULL UNIQUE REFERENCES file_scans(id) ON DELETE CASCADE,
+  bucket_id TEXT NOT NULL,
+  object_path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (
+    status IN ('queued', 'running', 'done', 'failed')
+  ),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_jobs_runnable
+  ON scan_jobs(status, next_run_at)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_scan_jobs_object_path
+  ON scan_jobs(object_path);
+
+-- Apenas a service_role (Edge Function scan-uploads) acessa a fila
+ALTER TABLE scan_jobs ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON scan_jobs TO service_role;
+
+COMMENT ON TABLE scan_jobs IS
+  'Fila de verificação de arquivos enviados ao temp-uploads (processada pela Edge Function scan-uploads)';
+COMMENT ON COLUMN scan_jobs.locked_until IS
+  'Fim do lease da tentativa em andamento; vencido, o job volta a ser elegível (timeout)';
+
+-- =====================================================
+-- 3. TRIGGER: enfileirar uploads do temp-uploads
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION enqueue_temp_upload_scan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_scan_id UUID;
+BEGIN
+  -- Atualizações que não trocam o conteúdo (ex: last_accessed_at) não
+  -- invalidam o resultado anterior
+  IF TG_OP = 'UPDATE'
+     AND OLD.name = NEW.name
+     AND OLD.metadata->>'eTag' IS NOT DISTINCT FROM NEW.metadata->>'eTag' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO file_scans (
+    file_path, bucket_id, file_name, file_size, file_mime_type, user_id, scan_status
+  )
+  VALUES (
+    NEW.name,
+    NEW.bucket_id,
+    regexp_replace(NEW.name, '^.*/', ''),
+    COALESCE((NEW.metadata->>'size')::BIGINT, 0),
+    NEW.metadata->>'mimetype',
+    NEW.owner,
+    'pending'
+  )
+  ON CONFLICT (file_path) WHERE file_path <> '' DO UPDATE
+    SET bucket_id = EXCLUDED.bucket_id,
+        file_size = EXCLUDED.file_size,
+        file_mime_type = EXCLUDED.file_mime_type,
+        user_id = COALESCE(EXCLUDED.user_id, file_scans.user_id),
+        scan_status = 'pending',
+        scanner = NULL,
+        file_hash_sha256 = NULL,
+        threat_name = NULL,
+        threat_category = NULL,
+        threat_severity = NULL,
+        virustotal_scan_id = NULL,
+        virustotal_permalink = NULL,
+        engines_detected = 0,
+        engines_total = 0,
+        virustotal_response = NULL,
+        error_message = NULL,
+        error_code = NULL,
+        scan_started_at = NULL,
+        scan_completed_at = NULL
+  RETURNING id INTO v_scan_id;
+
+  INSERT INTO scan_jobs (file_scan_id, bucket_id, object_path)
+  VALUES (v_scan_id, NEW.bucket_id, NEW.name)
+  ON CONFLICT (file_scan_id) DO UPDATE
+    SET status = 'queued',
+        attempts = 0,
+        next_run_at = NOW(),
+        locked_until = NULL,
+        last_error = NULL,
+        finished_at = NULL,
+        object_path = EXCLUDED.object_path,
+        updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_temp_upload_scan ON storage.objects;
+CREATE TRIGGER enqueue_temp_upload_scan
+  AFTER INSERT OR UPDATE ON storage.objects
+  FOR EACH ROW
+  WHEN (NEW.bucket_id = 'temp-uploads')
+  EXECUTE FUNCTION enqueue_temp_upload_scan();
+
+-- =====================================================
+-- 4. FUNCTION: claim_scan_jobs
+-- =====================================================
+-- Reserva jobs com FOR UPDATE SKIP LOCKED (vários workers em paralelo).
+-- Um job 'running' com lease vencido volta a ser elegível; sem tentativas
+-- restantes, é encerrado como timeout.
+
+CREATE OR REPLACE FUNCTION claim_scan_jobs(
+  p_limit INT DEFAULT 5,
+  p_lease_seconds INT DEFAULT 180,
+  p_object_path TEXT DEFAULT NULL
+)
+RETURNS SETOF scan_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH expired AS (
+    UPDATE scan_jobs
+       SET status = 'failed',
+           locked_until = NULL,
+           last_error = 'Tempo limite da verificação excedido',
+           finished_at = NOW(),
+           updated_at = NOW()
+     WHERE status = 'running'
+       AND locked_until < NOW()
+       AND attempts >= max_attempts
+    RETURNING file_scan_id
+  )
+  UPDATE file_scans fs
+     SET scan_status = 'timeout',
+         error_code = 'SCAN_TIMEOUT',
+         error_message = 'Tempo limite da verificação excedido',
+         scan_completed_at = NOW()
+    FROM expired
+   WHERE fs.id = expired.file_scan_id;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE scan_jobs j
+       SET status = 'running',
+           attempts = j.attempts + 1,
+           locked_until = NOW() + make_interval(secs => GREATEST(p_lease_seconds, 30)),
+           updated_at = NOW()
+     WHERE j.id IN (
+       SELECT id
+         FROM scan_jobs
+        WHERE ((status = 'queued' AND next_run_at <= NOW())
+               OR (status = 'running' AND locked_until < NOW()))
+          AND (p_object_path IS NULL OR object_path = p_object_path)
+        ORDER BY next_run_at
+        LIMIT LEAST(GREATEST(p_limit, 1), 50)
+        FOR UPDATE SKIP LOCKED
+     )
+    RETURNING j.*
+  ), marked AS (
+    UPDATE file_scans fs
+       SET scan_status = 'scanning',
+           scan_started_at = NOW(),
+           scan_completed_at = NULL
+     WHERE fs.id IN (SELECT file_scan_id FROM claimed)
+  )
+  SELECT * FROM claimed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_scan_jobs(INT, INT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_scan_jobs(INT, INT, TEXT) TO service_role;
+
+-- =====================================================
+-- 5. FUNCTION: complete_scan_job
+-- =====================================================
+-- p_verdict: { status: clean|infected, scanner, sha256, file_size,
+--   threat_name, threat_category, threat_severity, engines_detected,
+--   engines_total, scan_id, permalink, raw }
+
+CREATE OR REPLACE FUNCTION complete_scan_job(
+  p_job_id UUID,
+  p_verdict JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job scan_jobs;
+  v_status TEXT := p_verdict->>'status';
+BEGIN
+  IF v_status IS NULL OR v_status NOT IN ('clean', 'infected') THEN
+    RAISE EXCEPTION 'Resultado de scan inválido: %', v_status USING ERRCODE = '22023';
+  END IF;
+
+  -- Um novo upload no mesmo path recoloca o job na fila: o resultado
+  -- da tentativa antiga é descartado
+  UPDATE scan_jobs
+     SET status = 'done',
+         locked_until = NULL,
+         last_error = NULL,
+         finished_at = NOW(),
+         updated_at = NOW()
+   WHERE id = p_job_id
+     AND status = 'running'
+  RETURNING * INTO v_job;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE file_scans
+     SET scan_status = v_status,
+         scanner = p_verdict->>'scanner',
+         file_hash_sha256 = p_verdict->>'sha256',
+         file_size = COALESCE((p_verdict->>'file_size')::BIGINT, file_size),
+         threat_name = p_verdict->>'threat_name',
+         threat_category = p_verdict->>'threat_category',
+         threat_severity = p_verdict->>'threat_severity',
+         engines_detected = COALESCE((p_verdict->>'engines_detected')::INT, 0),
+         engines_total = COALESCE((p_verdict->>'engines_total')::INT, 0),
+         virustotal_scan_id = p_verdict->>'scan_id',
+         virustotal_permalink = p_verdict->>'permalink',
+         virustotal_response = p_verdict->'raw',
+         error_message = NULL,
+         error_code = NULL,
+         scan_completed_at = NOW()
+   WHERE id = v_job.file_scan_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION complete_scan_job(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_scan_job(UUID, JSONB) TO service_role;
+
+-- =====================================================
+-- 6. FUNCTION: fail_scan_job
+-- =====================================================
+-- p_kind: retry (erro transitório), timeout (scan excedeu o tempo) ou
+-- fatal (não adianta tentar de novo). Backoff: 30s, 1min, 2min... (máx. 30min)
+
+CREATE OR REPLACE FUNCTION fail_scan_job(
+  p_job_id UUID,
+  p_error TEXT,
+  p_kind TEXT DEFAULT 'retry'
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job scan_jobs;
+  v_error TEXT := left(COALESCE(p_error, 'Erro desconhecido'), 1000);
+BEGIN
+  IF p_kind NOT IN ('retry', 'timeout', 'fatal') THEN
+    RAISE EXCEPTION 'Tipo de falha inválido: %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_job
+    FROM scan_jobs
+   WHERE id = p_job_id
+     AND status = 'running'
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_kind = 'fatal' OR v_job.attempts >= v_job.max_attempts THEN
+    UPDATE scan_jobs
+       SET status = 'failed',
+           locked_until = NULL,
+           last_error = v_error,
+           finished_at = NOW(),
+           updated_at = NOW()
+     WHERE id = p_job_id;
+
+    UPDATE file_scans
+       SET scan_status = CASE WHEN p_kind = 'timeout' THEN 'timeout' ELSE 'error' END,
+           error_code = CASE WHEN p_kind = 'timeout' THEN 'SCAN_TIMEOUT' ELSE 'SCAN_FAILED' END,
+           error_message = v_error,
+           scan_completed_at = NOW()
+     WHERE id = v_job.file_scan_id;
+
+    RETURN 'failed';
+  END IF;
+
+  UPDATE scan_jobs
+     SET status = 'queued',
+         locked_until = NULL,
+         last_error = v_error,
+         next_run_at = NOW() + LEAST(
+           INTERVAL '30 minutes',
+           INTERVAL '30 seconds' * power(2, v_job.attempts - 1)
+         ),
+         updated_at = NOW()
+   WHERE id = p_job_id;
+
+  UPDATE file_scans
+     SET scan_status = 'pending',
+         error_message = v_error
+   WHERE id = v_job.file_scan_id;
+
+  RETURN 'queued';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION fail_scan_job(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION fail_scan_job(UUID, TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- 7. PROMOÇÃO PARA signed-documents
+-- =====================================================
+-- A cópia temp-uploads -> signed-documents é feita pela Edge Function
+-- promote-upload (service_role): ela reserva a promoção, confere que os
+-- bytes copiados têm o mesmo SHA-256 que foi verificado e marca a
+-- promoção como consumida. O cliente não grava mais em signed-documents.
+
+CREATE TABLE IF NOT EXISTS upload_promotions (
+  signed_path TEXT PRIMARY KEY,
+  temp_path TEXT NOT NULL,
+  file_scan_id UUID NOT NULL REFERENCES file_scans(id) ON DELETE CASCADE,
+  file_hash_sha256 TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  consumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_promotions_scan
+  ON upload_promotions(file_scan_id)
+  WHERE consumed_at IS NOT NULL;
+
+-- Leitura e escrita apenas pelas funções abaixo (service_role)
+ALTER TABLE upload_promotions ENABLE ROW LEVEL SECURITY;
+
+-- Reserva a promoção e devolve o hash verificado que a cópia deve ter
+CREATE OR REPLACE FUNCTION claim_upload_promotion(
+  p_user_id UUID,
+  p_temp_path TEXT,
+  p_signed_path TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_scan file_scans;
+  v_existing upload_promotions;
+BEGIN
+  IF p_temp_path NOT LIKE p_user_id::TEXT || '/%'
+     OR p_signed_path NOT LIKE p_user_id::TEXT || '/%' THEN
+    RAISE EXCEPTION 'Permissão negada: path de outro usuário' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_scan
+    FROM file_scans
+   WHERE file_path = p_temp_path
+     AND user_id = p_user_id
+     AND bucket_id = 'temp-uploads'
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Arquivo sem verificação de segurança registrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_scan.scan_status <> 'clean' OR v_scan.file_hash_sha256 IS NULL THEN
+    RAISE EXCEPTION 'Arquivo não liberado pela verificação de segurança (status: %)', v_scan.scan_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Uso único: o mesmo arquivo verificado não é promovido duas vezes
+  IF EXISTS (
+    SELECT 1
+      FROM upload_promotions
+     WHERE file_scan_id = v_scan.id
+       AND file_hash_sha256 = v_scan.file_hash_sha256
+       AND consumed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Arquivo já promovido para signed-documents' USING ERRCODE = '23505';
+  END IF;
+
+  SELECT * INTO v_existing FROM upload_promotions WHERE signed_path = p_signed_path FOR UPDATE;
+  IF FOUND AND v_existing.consumed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Destino já utilizado: %', p_signed_path USING ERRCODE = '23505';
+  END IF;
+
+  -- Nova tentativa (retry) para o mesmo destino reaproveita a reserva
+  INSERT INTO upload_promotions (signed_path, temp_path, file_scan_id, file_hash_sha256, user_id)
+  VALUES (p_signed_path, p_temp_path, v_scan.id, v_scan.file_hash_sha256, p_user_id)
+  ON CONFLICT (signed_path) DO UPDATE
+    SET temp_path = EXCLUDED.temp_path,
+        file_scan_id = EXCLUDED.file_scan_id,
+        file_hash_sha256 = EXCLUDED.file_hash_sha256,
+        user_id = EXCLUDED.user_id,
+        created_at = NOW();
+
+  RETURN v_scan.file_hash_sha256;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_upload_promotion(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_upload_promotion(UUID, TEXT, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION consume_upload_promotion(p_signed_path TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE upload_promotions
+     SET consumed_at = NOW()
+   WHERE signed_path = p_signed_path
+     AND consumed_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promoção não encontrada ou já consumida: %', p_signed_path USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_upload_promotion(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION consume_upload_promotion(TEXT) TO service_role;
+
+-- RESTRICTIVE: combinadas (AND) com as policies já existentes; só a
+-- service_role (promote-upload) grava ou substitui objetos em signed-documents
+DROP POLICY IF EXISTS "Only clean scanned uploads reach signed-documents" ON storage.objects;
+CREATE POLICY "Only clean scanned uploads reach signed-documents"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id <> 'signed-documents');
+
+DROP POLICY IF EXISTS "Signed documents are not overwritten by clients" ON storage.objects;
+CREATE POLICY "Signed documents are not overwritten by clients"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id <> 'signed-documents')
+  WITH CHECK (bucket_id <> 'signed-documents');
+
+-- =====================================================
+-- 8. COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION enqueue_temp_upload_scan() IS 'Enfileira a verificação de todo arquivo enviado ao temp-uploads';
+COMMENT ON FUNCTION claim_scan_jobs(INT, INT, TEXT) IS 'Reserva jobs de scan (SKIP LOCKED) com lease; encerra leases vencidos sem tentativas';
+COMMENT ON FUNCTION complete_scan_job(UUID, JSONB) IS 'Grava o resultado (clean/infected) do scan em file_scans';
+COMMENT ON FUNCTION fail_scan_job(UUID, TEXT, TEXT) IS 'Reagenda o job com backoff ou encerra como error/timeout';
+COMMENT ON TABLE upload_promotions IS 'Promoções temp-uploads -> signed-documents (uso único, com o hash verificado)';
+COMMENT ON FUNCTION claim_upload_promotion(UUID, TEXT, TEXT) IS 'Reserva a promoção de um upload clean e devolve o SHA-256 verificado';
+COMMENT ON FUNCTION consume_upload_promotion(TEXT) IS 'Marca a promoção como consumida depois da cópia';
+
+COMMIT;
@@ -0,0 +1,232 @@
+-- =====================================================
+-- SIGNED CONTENTS - BUSCA PAGINADA NO SERVIDOR
+-- =====================================================
+-- Migration: Busca textual, filtros e paginação por cursor dos
+--            conteúdos assinados do Dashboard
+-- Created: 2026-10-18
+-- Description:
+--   1. signed_contents.search_vector: tsvector (texto + nome do arquivo)
+--   2. Índices para os filtros e para cada ordenação (keyset)
+--   3. search_signed_contents(): página de resultados do usuário
+--      autenticado com cursor (valor da ordenação + id)
+--   4. get_signed_content_platforms(): plataformas usadas pelo usuário
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMN: signed_contents.search_vector
+-- =====================================================
+-- Dicionário 'simple' (sem stemming): títulos, nomes de arquivo e
+-- hashes precisam casar literalmente, inclusive por prefixo
+
+ALTER TABLE signed_contents
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(file_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+  ) STORED;
+
+COMMENT ON COLUMN signed_contents.search_vector IS 'Índice textual do conteúdo e do nome do arquivo (busca do Dashboard)';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS signed_contents_search_vector_idx
+  ON signed_contents USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS signed_contents_platforms_idx
+  ON signed_contents USING GIN (platforms);
+
+-- Ordenações (sempre desempatadas pelo id)
+CREATE INDEX IF NOT EXISTS signed_contents_user_created_idx
+  ON signed_contents (user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS signed_contents_user_verifications_idx
+  ON signed_contents (user_id, verification_count DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS signed_contents_user_content_idx
+  ON signed_contents (user_id, lower(left(content, 200)), id);
+
+CREATE INDEX IF NOT EXISTS signed_contents_user_folder_idx
+  ON signed_contents (user_id, folder_id);
+
+-- =====================================================
+-- 3. FUNCTIONS: filter_signed_contents / search_signed_contents
+-- =====================================================
+-- filter_signed_contents concentra os filtros (função SQL simples,
+-- expandida pelo planner dentro das consultas que a usam)
+
+CREATE OR REPLACE FUNCTION filter_signed_contents(
+  p_tsquery TSQUERY,
+  p_platforms TEXT[],
+  p_folder_id UUID,
+  p_without_folder BOOLEAN,
+  p_mime_type TEXT,
+  p_date_from TIMESTAMPTZ,
+  p_date_to TIMESTAMPTZ,
+  p_min_verifications INTEGER,
+  p_max_verifications INTEGER
+)
+RETURNS SETOF signed_contents
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT sc.*
+    FROM signed_contents sc
+   WHERE sc.user_id = auth.uid()
+     AND (p_tsquery IS NULL OR sc.search_vector @@ p_tsquery)
+     AND (p_platforms IS NULL OR cardinality(p_platforms) = 0 OR sc.platforms && p_platforms)
+     AND (p_folder_id IS NULL OR sc.folder_id = p_folder_id)
+     AND (NOT p_without_folder OR sc.folder_id IS NULL)
+     AND (p_mime_type IS NULL OR sc.mime_type LIKE p_mime_type || '%')
+     AND (p_date_from IS NULL OR sc.created_at >= p_date_from)
+     AND (p_date_to IS NULL OR sc.created_at < p_date_to)
+     AND (p_min_verifications IS NULL OR sc.verification_count >= p_min_verifications)
+     AND (p_max_verifications IS NULL OR sc.verification_count <= p_max_verifications);
+$$;
+
+-- Ordenações: recent | oldest | alphabetical | most-verified
+-- Cursor: (p_cursor_value, p_cursor_id) do último item da página
+-- anterior, devolvido em next_cursor (null na última página).
+-- O total filtrado só é calculado quando p_include_total.
+-- Retorna { items: [...], next_cursor: { value, id } | null, total: n | null }
+
+CREATE OR REPLACE FUNCTION search_signed_contents(
+  p_query TEXT DEFAULT NULL,
+  p_platforms TEXT[] DEFAULT NULL,
+  p_folder_id UUID DEFAULT NULL,
+  p_without_folder BOOLEAN DEFAULT false,
+  p_mime_type TEXT DEFAULT NULL,
+  p_date_from TIMESTAMPTZ DEFAULT NULL,
+  p_date_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_verifications INTEGER DEFAULT NULL,
+  p_max_verifications INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recent',
+  p_cursor_value TEXT DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_include_total BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_tsquery TSQUERY;
+  v_limit INTEGER := LEAST(GREATEST(coalesce(p_limit, 24), 1), 100);
+  v_items JSONB;
+  v_last JSONB;
+  v_next_cursor JSONB;
+  v_total BIGINT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_sort NOT IN ('recent', 'oldest', 'alphabetical', 'most-verified') THEN
+    RAISE EXCEPTION 'Ordenação inválida: %', p_sort USING ERRCODE = '22023';
+  END IF;
+
+  -- Cada palavra vira um prefixo ("contr" encontra "contrato")
+  IF p_query IS NOT NULL AND btrim(p_query) <> '' THEN
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+      INTO v_tsquery
+      FROM regexp_split_to_table(
+        lower(regexp_replace(btrim(p_query), '[^[:alnum:]_.@-]+', ' ', 'g')),
+        '\s+'
+      ) AS word
+     WHERE word <> '';
+  END IF;
+
+  IF p_include_total THEN
+    SELECT count(*)
+      INTO v_total
+      FROM filter_signed_contents(
+        v_tsquery, p_platforms, p_folder_id, p_without_folder, p_mime_type,
+        p_date_from, p_date_to, p_min_verifications, p_max_verifications
+      );
+  END IF;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(page) - 'search_vector' - 'position' ORDER BY page.position), '[]'::jsonb)
+    INTO v_items
+    FROM (
+      SELECT f.*,
+             CASE p_sort
+               WHEN 'alphabetical' THEN lower(left(f.content, 200))
+               WHEN 'most-verified' THEN f.verification_count::text
+               ELSE f.created_at::text
+             END AS sort_key,
+             row_number() OVER (
+               ORDER BY
+                 CASE WHEN p_sort = 'oldest' THEN f.created_at END ASC,
+                 CASE WHEN p_sort = 'alphabetical' THEN lower(left(f.content, 200)) END ASC,
+                 CASE WHEN p_sort = 'most-verified' THEN f.verification_count END DESC,
+                 CASE WHEN p_sort = 'recent' THEN f.created_at END DESC,
+                 CASE WHEN p_sort IN ('oldest', 'alphabetical') THEN f.id END ASC,
+                 CASE WHEN p_sort IN ('recent', 'most-verified') THEN f.id END DESC
+             ) AS position
+        FROM filter_signed_contents(
+          v_tsquery, p_platforms, p_folder_id, p_without_folder, p_mime_type,
+          p_date_from, p_date_to, p_min_verifications, p_max_verifications
+        ) f
+       WHERE p_cursor_id IS NULL
+          OR CASE p_sort
+               WHEN 'oldest' THEN
+                 (f.created_at, f.id) > (p_cursor_value::timestamptz, p_cursor_id)
+               WHEN 'alphabetical' THEN
+                 (lower(left(f.content, 200)), f.id) > (p_cursor_value, p_cursor_id)
+               WHEN 'most-verified' THEN
+                 (f.verification_count, f.id) < (p_cursor_value::integer, p_cursor_id)
+               ELSE
+                 (f.created_at, f.id) < (p_cursor_value::timestamptz, p_cursor_id)
+             END
+       ORDER BY position
+       LIMIT v_limit
+    ) page;
+
+  -- Página cheia: o último item vira o cursor da próxima
+  IF jsonb_array_length(v_items) = v_limit THEN
+    v_last := v_items -> -1;
+    v_next_cursor := jsonb_build_object('value', v_last ->> 'sort_key', 'id', v_last ->> 'id');
+  END IF;
+
+  RETURN jsonb_build_object('items', v_items, 'next_cursor', v_next_cursor, 'total', v_total);
+END;
+$$;
+
+COMMENT ON FUNCTION search_signed_contents IS 'Busca paginada (cursor) dos conteúdos assinados do usuário autenticado';
+
+GRANT EXECUTE ON FUNCTION filter_signed_contents(
+  TSQUERY, TEXT[], UUID, BOOLEAN, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER
+) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION search_signed_contents(
+  TEXT, TEXT[], UUID, BOOLEAN, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER, TEXT, TEXT, UUID, INTEGER, BOOLEAN
+) TO authenticated;
+
+-- =====================================================
+-- 4. FUNCTION: get_signed_content_platforms
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_signed_content_platforms()
+RETURNS TABLE (platform TEXT, total BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.platform, count(*) AS total
+    FROM signed_contents sc,
+         unnest(sc.platforms) AS p(platform)
+   WHERE sc.user_id = auth.uid()
+   GROUP BY p.platform
+   ORDER BY p.platform;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_signed_content_platforms() TO authenticated;
+
+COMMIT;
@@ -0,0 +1,88 @@
+-- =====================================================
+-- SOCIAL LINK VERIFICATIONS
+-- =====================================================
+-- Migration: prova de controle dos perfis exibidos nos certificados
+-- Created: 2026-10-18
+-- Description:
+--   1. social_link_verifications: desafio (token) e resultado por rede
+--      - website: /.well-known/veroid.json ou registro DNS TXT
+--      - redes sociais: código na bio/descrição do perfil
+--   2. get_verified_social_links(): leitura pública apenas dos links
+--      verificados (sem token), usada pela página /certificate
+-- Escrita somente pela Edge Function social-verification (service_role).
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: social_link_verifications
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS social_link_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (
+    platform IN ('instagram', 'facebook', 'tiktok', 'twitter', 'youtube', 'linkedin', 'website')
+  ),
+  -- URL normalizada (https, host sem www, sem query/fragmento/barra final)
+  url TEXT NOT NULL,
+  -- Código do desafio (ex: "VID-3F9A1C2B7E4D")
+  challenge_token TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'failed')),
+  -- well_known | dns_txt | profile_bio
+  method TEXT CHECK (method IN ('well_known', 'dns_txt', 'profile_bio')),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS social_link_verifications_user_id_idx
+  ON social_link_verifications(user_id);
+
+COMMENT ON TABLE social_link_verifications IS 'Verificação de controle dos links sociais do criador (desafio por rede)';
+
+-- =====================================================
+-- 2. RLS
+-- =====================================================
+-- O dono lê os próprios desafios; ninguém escreve pelo cliente
+
+ALTER TABLE social_link_verifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own social verifications" ON social_link_verifications;
+CREATE POLICY "Users can view own social verifications"
+  ON social_link_verifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- =====================================================
+-- 3. FUNCTION: get_verified_social_links
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_verified_social_links(p_user_id UUID)
+RETURNS TABLE (
+  platform TEXT,
+  url TEXT,
+  method TEXT,
+  verified_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.platform, v.url, v.method, v.verified_at
+  FROM social_link_verifications v
+  WHERE v.user_id = p_user_id
+    AND v.status = 'verified'
+    AND v.verified_at IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_verified_social_links(UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION get_verified_social_links IS 'Links sociais verificados de um criador (leitura pública, sem token)';
+
+COMMIT;
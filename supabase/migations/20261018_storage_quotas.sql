@@ -0,0 +1,575 @@
+-- =====================================================
+-- COTAS DE ARMAZENAMENTO POR PLANO
+-- =====================================================
+-- Migration: Contabilização e limite de armazenamento por usuário
+-- Created: 2026-10-18
+-- Description:
+--   1. storage_plan_quotas: limite de armazenamento por plano
+--      (1GB / 5GB / 20GB / ilimitado, como anunciado em src/config/plans.ts)
+--   2. storage_usage: bytes e arquivos por usuário (temp-uploads e
+--      signed-documents), atualizado por trigger em storage.objects
+--   3. get_storage_quota(): plano e limite atual do usuário
+--   4. Trigger BEFORE em storage.objects: recusa uploads acima da cota
+--   5. Trigger AFTER em storage.objects: contabiliza upload/move/delete
+--   6. get_storage_usage() / check_storage_quota(): consumo e pré-checagem
+--      antes do upload (mensagem clara no app)
+--   7. reconcile_storage_usage(): recalcula a partir de storage.objects
+--      (mesma fonte do listUserFiles) e registra a divergência
+--   8. admin_top_storage_consumers(): maiores consumidores (admin)
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: storage_plan_quotas
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS storage_plan_quotas (
+  plan_type TEXT PRIMARY KEY,
+  -- NULL = ilimitado
+  quota_bytes BIGINT CHECK (quota_bytes IS NULL OR quota_bytes >= 0)
+);
+
+INSERT INTO storage_plan_quotas (plan_type, quota_bytes) VALUES
+  ('free', 1073741824),
+  ('trial', 1073741824),
+  ('creator', 5368709120),
+  ('creator_pro', 21474836480),
+  ('creator_elite', NULL)
+ON CONFLICT (plan_type) DO NOTHING;
+
+ALTER TABLE storage_plan_quotas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read storage quotas" ON storage_plan_quotas;
+CREATE POLICY "Anyone can read storage quotas"
+  ON storage_plan_quotas FOR SELECT
+  USING (true);
+
+GRANT SELECT ON storage_plan_quotas TO anon, authenticated;
+
+COMMENT ON TABLE storage_plan_quotas IS 'Cota de armazenamento por plano (quota_bytes NULL = ilimitado)';
+
+-- =====================================================
+-- 2. TABLE: storage_usage
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS storage_usage (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  signed_bytes BIGINT NOT NULL DEFAULT 0,
+  signed_files INTEGER NOT NULL DEFAULT 0,
+  temp_bytes BIGINT NOT NULL DEFAULT 0,
+  temp_files INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  reconciled_at TIMESTAMP WITH TIME ZONE,
+  -- Diferença (bytes) encontrada na última reconciliação
+  last_drift_bytes BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_usage_total
+  ON storage_usage ((signed_bytes + temp_bytes) DESC);
+
+-- Escrita apenas pelos triggers e funções abaixo (SECURITY DEFINER)
+ALTER TABLE storage_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own storage usage" ON storage_usage;
+CREATE POLICY "Users can view own storage usage"
+  ON storage_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON storage_usage TO authenticated;
+GRANT ALL ON storage_usage TO service_role;
+
+COMMENT ON TABLE storage_usage IS 'Armazenamento ocupado por usuário em temp-uploads e signed-documents';
+
+-- =====================================================
+-- 3. FUNCTIONS: get_storage_quota / storage_object_user
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_storage_quota(p_user_id UUID)
+RETURNS TABLE (
+  plan_type TEXT,
+  quota_bytes BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan TEXT := 'free';
+  v_sub_plan TEXT;
+BEGIN
+  SELECT s.plan_type
+  INTO v_sub_plan
+  FROM subscriptions s
+  WHERE s.user_id = p_user_id
+    AND s.status IN ('active', 'trialing')
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF FOUND AND v_sub_plan IS NOT NULL THEN
+    v_plan := replace(v_sub_plan, '-', '_');
+  END IF;
+
+  -- Plano sem linha em storage_plan_quotas recebe o limite do free
+  RETURN QUERY
+  SELECT
+    v_plan,
+    CASE
+      WHEN q.plan_type IS NOT NULL THEN q.quota_bytes
+      ELSE (SELECT f.quota_bytes FROM storage_plan_quotas f WHERE f.plan_type = 'free')
+    END
+  FROM (SELECT 1) AS one
+  LEFT JOIN storage_plan_quotas q ON q.plan_type = v_plan;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_storage_quota(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Dono de um objeto: owner do Storage ou a primeira pasta do path
+-- (todos os uploads do app usam `${userId}/...`)
+CREATE OR REPLACE FUNCTION storage_object_user(p_owner UUID, p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    p_owner,
+    CASE
+      WHEN split_part(p_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(p_name, '/', 1)::UUID
+    END
+  );
+$$;
+
+-- =====================================================
+-- 4. TRIGGER: enforce_storage_quota (BEFORE)
+-- =====================================================
+-- Só uploads do próprio usuário (authenticated) são limitados; a
+-- service_role (Edge Functions, limpeza) não passa pela cota.
+--   temp-uploads:      assinados + temporários + novo arquivo <= cota
+--   signed-documents:  assinados + novo arquivo <= cota (a cópia em
+--                      temp-uploads é removida logo após a promoção)
+
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_new_size BIGINT;
+  v_old_size BIGINT := 0;
+  v_quota_bytes BIGINT;
+  v_usage storage_usage;
+  v_used BIGINT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  -- O tamanho chega em metadata quando o upload termina
+  v_new_size := (NEW.metadata->>'size')::BIGINT;
+  IF v_new_size IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.bucket_id = NEW.bucket_id THEN
+    v_old_size := COALESCE((OLD.metadata->>'size')::BIGINT, 0);
+  END IF;
+
+  -- Substituição por um arquivo menor ou igual nunca é recusada
+  IF v_new_size <= v_old_size THEN
+    RETURN NEW;
+  END IF;
+
+  v_user_id := storage_object_user(NEW.owner, NEW.name);
+  IF v_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT q.quota_bytes INTO v_quota_bytes FROM get_storage_quota(v_user_id) q;
+  IF v_quota_bytes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serializa uploads simultâneos do mesmo usuário
+  INSERT INTO storage_usage (user_id) VALUES (v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_usage FROM storage_usage WHERE user_id = v_user_id FOR UPDATE;
+
+  v_used := v_usage.signed_bytes;
+  IF NEW.bucket_id = 'temp-uploads' THEN
+    v_used := v_used + v_usage.temp_bytes;
+  END IF;
+
+  IF v_used - v_old_size + v_new_size > v_quota_bytes THEN
+    RAISE EXCEPTION 'Cota de armazenamento excedida: % de % MB em uso; o arquivo tem % MB',
+      round(v_used / 1048576.0, 1),
+      round(v_quota_bytes / 1048576.0, 1),
+      round(v_new_size / 1048576.0, 1)
+      USING ERRCODE = '53400',
+            HINT = 'Exclua arquivos ou faça upgrade do plano para liberar espaço.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_storage_quota ON storage.objects;
+CREATE TRIGGER enforce_storage_quota
+  BEFORE INSERT OR UPDATE ON storage.objects
+  FOR EACH ROW
+  WHEN (NEW.bucket_id IN ('temp-uploads', 'signed-documents'))
+  EXECUTE FUNCTION enforce_storage_quota();
+
+-- =====================================================
+-- 5. TRIGGER: track_storage_usage (AFTER)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION apply_storage_usage_delta(
+  p_user_id UUID,
+  p_bucket_id TEXT,
+  p_bytes BIGINT,
+  p_files INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_bucket_id NOT IN ('temp-uploads', 'signed-documents')
+     OR (p_bytes = 0 AND p_files = 0) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO storage_usage (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- GREATEST: um delete de arquivo anterior à contabilização não deixa
+  -- o saldo negativo (a reconciliação corrige o restante)
+  IF p_bucket_id = 'signed-documents' THEN
+    UPDATE storage_usage
+       SET signed_bytes = GREATEST(signed_bytes + p_bytes, 0),
+           signed_files = GREATEST(signed_files + p_files, 0),
+           updated_at = NOW()
+     WHERE user_id = p_user_id;
+  ELSE
+    UPDATE storage_usage
+       SET temp_bytes = GREATEST(temp_bytes + p_bytes, 0),
+           temp_files = GREATEST(temp_files + p_files, 0),
+           updated_at = NOW()
+     WHERE user_id = p_user_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_storage_usage_delta(UUID, TEXT, BIGINT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION track_storage_usage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM apply_storage_usage_delta(
+      storage_object_user(OLD.owner, OLD.name),
+      OLD.bucket_id,
+      -COALESCE((OLD.metadata->>'size')::BIGINT, 0),
+      -1
+    );
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM apply_storage_usage_delta(
+      storage_object_user(NEW.owner, NEW.name),
+      NEW.bucket_id,
+      COALESCE((NEW.metadata->>'size')::BIGINT, 0),
+      1
+    );
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_storage_usage ON storage.objects;
+CREATE TRIGGER track_storage_usage
+  AFTER INSERT OR UPDATE OR DELETE ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION track_storage_usage();
+
+-- =====================================================
+-- 6. FUNCTIONS: get_storage_usage / check_storage_quota
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_storage_usage()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quota RECORD;
+  v_usage storage_usage;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Autenticação necessária' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_quota FROM get_storage_quota(v_user_id);
+  SELECT * INTO v_usage FROM storage_usage WHERE user_id = v_user_id;
+
+  RETURN jsonb_build_object(
+    'plan_type', v_quota.plan_type,
+    'quota_bytes', v_quota.quota_bytes,
+    'signed_bytes', COALESCE(v_usage.signed_bytes, 0),
+    'signed_files', COALESCE(v_usage.signed_files, 0),
+    'temp_bytes', COALESCE(v_usage.temp_bytes, 0),
+    'temp_files', COALESCE(v_usage.temp_files, 0),
+    'used_bytes', COALESCE(v_usage.signed_bytes, 0) + COALESCE(v_usage.temp_bytes, 0),
+    'updated_at', v_usage.updated_at,
+    'reconciled_at', v_usage.reconciled_at
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_storage_usage() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_storage_usage() TO authenticated;
+
+-- Mesma regra do trigger, para o app avisar antes de enviar o arquivo
+CREATE OR REPLACE FUNCTION check_storage_quota(
+  p_bytes BIGINT,
+  p_bucket TEXT DEFAULT 'temp-uploads'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quota RECORD;
+  v_usage storage_usage;
+  v_used BIGINT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Autenticação necessária' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_quota FROM get_storage_quota(v_user_id);
+  SELECT * INTO v_usage FROM storage_usage WHERE user_id = v_user_id;
+
+  v_used := COALESCE(v_usage.signed_bytes, 0);
+  IF p_bucket = 'temp-uploads' THEN
+    v_used := v_used + COALESCE(v_usage.temp_bytes, 0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_quota.quota_bytes IS NULL OR v_used + GREATEST(p_bytes, 0) <= v_quota.quota_bytes,
+    'plan_type', v_quota.plan_type,
+    'quota_bytes', v_quota.quota_bytes,
+    'used_bytes', v_used,
+    'requested_bytes', GREATEST(p_bytes, 0)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION check_storage_quota(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION check_storage_quota(BIGINT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 7. FUNCTION: reconcile_storage_usage
+-- =====================================================
+-- Recalcula o consumo a partir de storage.objects — a mesma fonte do
+-- listUserFiles(), mas sem o limite de 100 itens e incluindo subpastas
+-- (ex: carrosséis) — e registra a divergência encontrada.
+-- O próprio usuário, um admin ou a service_role (cron) podem reconciliar.
+
+CREATE OR REPLACE FUNCTION reconcile_storage_usage(p_user_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+  v_before storage_usage;
+  v_signed_bytes BIGINT;
+  v_signed_files INTEGER;
+  v_temp_bytes BIGINT;
+  v_temp_files INTEGER;
+  v_drift BIGINT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Autenticação necessária' USING ERRCODE = '42501';
+  END IF;
+
+  IF auth.role() IN ('anon', 'authenticated')
+     AND v_user_id IS DISTINCT FROM auth.uid()
+     AND NOT COALESCE((SELECT is_admin FROM users WHERE id = auth.uid()), false) THEN
+    RAISE EXCEPTION 'Permissão negada: apenas administradores' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO storage_usage (user_id) VALUES (v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_before FROM storage_usage WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT
+    COALESCE(SUM((o.metadata->>'size')::BIGINT) FILTER (WHERE o.bucket_id = 'signed-documents'), 0),
+    COUNT(*) FILTER (WHERE o.bucket_id = 'signed-documents'),
+    COALESCE(SUM((o.metadata->>'size')::BIGINT) FILTER (WHERE o.bucket_id = 'temp-uploads'), 0),
+    COUNT(*) FILTER (WHERE o.bucket_id = 'temp-uploads')
+  INTO v_signed_bytes, v_signed_files, v_temp_bytes, v_temp_files
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('temp-uploads', 'signed-documents')
+    AND (o.owner = v_user_id OR (o.owner IS NULL AND o.name LIKE v_user_id::TEXT || '/%'));
+
+  v_drift := (v_signed_bytes + v_temp_bytes) - (v_before.signed_bytes + v_before.temp_bytes);
+
+  UPDATE storage_usage
+     SET signed_bytes = v_signed_bytes,
+         signed_files = v_signed_files,
+         temp_bytes = v_temp_bytes,
+         temp_files = v_temp_files,
+         last_drift_bytes = v_drift,
+         reconciled_at = NOW(),
+         updated_at = NOW()
+   WHERE user_id = v_user_id;
+
+  IF v_drift <> 0 THEN
+    RAISE NOTICE '📦 Divergência de armazenamento corrigida para %: % bytes', v_user_id, v_drift;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'user_id', v_user_id,
+    'signed_bytes', v_signed_bytes,
+    'signed_files', v_signed_files,
+    'temp_bytes', v_temp_bytes,
+    'temp_files', v_temp_files,
+    'drift_bytes', v_drift
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reconcile_storage_usage(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reconcile_storage_usage(UUID) TO authenticated, service_role;
+
+-- Reconciliação de todos os usuários com arquivos ou saldo (cron)
+CREATE OR REPLACE FUNCTION reconcile_all_storage_usage()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_result JSONB;
+  v_users INTEGER := 0;
+  v_drifted INTEGER := 0;
+BEGIN
+  FOR v_user_id IN
+    SELECT su.user_id FROM storage_usage su
+    UNION
+    SELECT DISTINCT storage_object_user(o.owner, o.name)
+      FROM storage.objects o
+     WHERE o.bucket_id IN ('temp-uploads', 'signed-documents')
+       AND storage_object_user(o.owner, o.name) IN (SELECT id FROM auth.users)
+  LOOP
+    v_result := reconcile_storage_usage(v_user_id);
+    v_users := v_users + 1;
+    IF (v_result->>'drift_bytes')::BIGINT <> 0 THEN
+      v_drifted := v_drifted + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('users', v_users, 'drifted', v_drifted);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reconcile_all_storage_usage() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reconcile_all_storage_usage() TO service_role;
+
+-- =====================================================
+-- 8. FUNCTION: admin_top_storage_consumers
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION admin_top_storage_consumers(p_limit INTEGER DEFAULT 10)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items JSONB;
+  v_total_bytes BIGINT;
+BEGIN
+  IF NOT COALESCE((SELECT is_admin FROM users WHERE id = auth.uid()), false) THEN
+    RAISE EXCEPTION 'Permissão negada: apenas administradores' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(SUM(signed_bytes + temp_bytes), 0) INTO v_total_bytes FROM storage_usage;
+
+  SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.used_bytes DESC), '[]'::jsonb)
+    INTO v_items
+    FROM (
+      SELECT
+        su.user_id,
+        u.nome_completo,
+        u.email,
+        q.plan_type,
+        q.quota_bytes,
+        su.signed_bytes + su.temp_bytes AS used_bytes,
+        su.signed_bytes,
+        su.signed_files,
+        su.temp_bytes,
+        su.temp_files,
+        su.reconciled_at,
+        su.last_drift_bytes
+      FROM storage_usage su
+      LEFT JOIN users u ON u.id = su.user_id
+      CROSS JOIN LATERAL get_storage_quota(su.user_id) q
+      WHERE su.signed_bytes + su.temp_bytes > 0
+      ORDER BY su.signed_bytes + su.temp_bytes DESC
+      LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 100)
+    ) t;
+
+  RETURN jsonb_build_object('items', v_items, 'total_bytes', v_total_bytes);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION admin_top_storage_consumers(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_top_storage_consumers(INTEGER) TO authenticated;
+
+-- =====================================================
+-- 9. BACKFILL
+-- =====================================================
+-- Os arquivos enviados antes desta migration entram no saldo
+
+SELECT reconcile_all_storage_usage();
+
+-- =====================================================
+-- 10. COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION get_storage_quota(UUID) IS 'Plano atual e cota de armazenamento do usuário (NULL = ilimitado)';
+COMMENT ON FUNCTION enforce_storage_quota() IS 'Recusa uploads do usuário em temp-uploads/signed-documents acima da cota do plano';
+COMMENT ON FUNCTION track_storage_usage() IS 'Atualiza storage_usage a cada upload, substituição ou exclusão';
+COMMENT ON FUNCTION get_storage_usage() IS 'Consumo de armazenamento e cota do usuário autenticado';
+COMMENT ON FUNCTION check_storage_quota(BIGINT, TEXT) IS 'Verifica se um arquivo de p_bytes cabe na cota antes do upload';
+COMMENT ON FUNCTION reconcile_storage_usage(UUID) IS 'Recalcula o consumo a partir de storage.objects e registra a divergência';
+COMMENT ON FUNCTION reconcile_all_storage_usage() IS 'Reconcilia o consumo de todos os usuários (cron diário)';
+COMMENT ON FUNCTION admin_top_storage_consumers(INTEGER) IS 'Maiores consumidores de armazenamento (admin)';
+
+COMMIT;
@@ -0,0 +1,378 @@
+-- =====================================================
+-- STRIPE WEBHOOK EVENT STORE
+-- =====================================================
+-- Migration: Persistência dos eventos do Stripe com reprocessamento
+-- Created: 2026-10-18
+-- Description:
+--   1. stripe_events: todo evento recebido (payload, status, tentativas, erro)
+--      e os objetos consultados na API do Stripe ao processá-lo
+--      (stripe_snapshots), reutilizados no replay
+--   2. record_stripe_event(): grava o evento e detecta reentregas
+--   3. claim_stripe_event() / finish_stripe_event(): controle de
+--      processamento (uma execução por vez, falhas reprocessáveis)
+--   4. list_user_stripe_events(): histórico de um usuário para o replay
+--   5. admin_list_stripe_events(): tela administrativa de eventos
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: stripe_events
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  -- ID do evento no Stripe (evt_...)
+  id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  api_version TEXT,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  stripe_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- data.object.id (cs_..., in_..., sub_..., ch_...)
+  object_id TEXT,
+  stripe_customer_id TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  -- Respostas da API do Stripe lidas no primeiro processamento, por
+  -- endpoint (ex.: "/subscriptions/sub_..."); o replay usa estas e não o
+  -- estado atual do Stripe
+  stripe_snapshots JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'ignored')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  delivery_count INTEGER NOT NULL DEFAULT 1,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processing_started_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  last_replayed_at TIMESTAMP WITH TIME ZONE,
+  last_replayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+  ON stripe_events(status, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_user
+  ON stripe_events(user_id, stripe_created_at)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_customer
+  ON stripe_events(stripe_customer_id, stripe_created_at)
+  WHERE stripe_customer_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_received
+  ON stripe_events(received_at DESC);
+
+-- Somente service_role (webhook) e RPCs administrativas acessam
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON stripe_events TO service_role;
+
+COMMENT ON TABLE stripe_events IS 'Eventos recebidos do webhook do Stripe, com status de processamento e erro';
+COMMENT ON COLUMN stripe_events.status IS 'pending | processing | processed | failed | ignored (tipo não tratado)';
+COMMENT ON COLUMN stripe_events.delivery_count IS 'Quantas vezes o Stripe entregou o evento (reentregas são ignoradas se já processado)';
+COMMENT ON COLUMN stripe_events.stripe_snapshots IS 'Objetos lidos na API do Stripe no primeiro processamento (reutilizados no replay)';
+
+-- =====================================================
+-- 2. HELPER: resolve_stripe_event_user
+-- =====================================================
+-- Associa o evento a um usuário pelo customer, pela subscription ou pelo
+-- e-mail do checkout (primeira compra, antes de existir a assinatura).
+
+CREATE OR REPLACE FUNCTION resolve_stripe_event_user(
+  p_customer_id TEXT,
+  p_object JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_subscription_id TEXT;
+  v_email TEXT;
+BEGIN
+  IF p_customer_id IS NOT NULL THEN
+    SELECT user_id INTO v_user_id
+      FROM subscriptions
+     WHERE stripe_customer_id = p_customer_id
+     ORDER BY created_at DESC
+     LIMIT 1;
+    IF v_user_id IS NOT NULL THEN
+      RETURN v_user_id;
+    END IF;
+  END IF;
+
+  v_subscription_id := COALESCE(
+    p_object->>'subscription',
+    CASE WHEN p_object->>'object' = 'subscription' THEN p_object->>'id' END
+  );
+
+  IF v_subscription_id IS NOT NULL THEN
+    SELECT user_id INTO v_user_id
+      FROM subscriptions
+     WHERE stripe_subscription_id = v_subscription_id
+     LIMIT 1;
+    IF v_user_id IS NOT NULL THEN
+      RETURN v_user_id;
+    END IF;
+  END IF;
+
+  v_email := lower(COALESCE(p_object->>'customer_email', p_object->'customer_details'->>'email'));
+  IF v_email IS NOT NULL THEN
+    SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = v_email LIMIT 1;
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_stripe_event_user(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. FUNCTION: record_stripe_event (service_role)
+-- =====================================================
+-- Chamada pelo webhook logo após validar a assinatura. Uma reentrega só
+-- incrementa delivery_count; o webhook decide pelo status devolvido.
+
+CREATE OR REPLACE FUNCTION record_stripe_event(p_event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_object JSONB := p_event->'data'->'object';
+  v_customer TEXT;
+  v_status TEXT;
+  v_attempts INTEGER;
+  v_inserted BOOLEAN;
+BEGIN
+  IF p_event->>'id' IS NULL OR p_event->>'type' IS NULL THEN
+    RAISE EXCEPTION 'Evento do Stripe inválido (id/type ausentes)' USING ERRCODE = '22023';
+  END IF;
+
+  v_customer := CASE
+    WHEN jsonb_typeof(v_object->'customer') = 'string' THEN v_object->>'customer'
+    WHEN v_object->>'object' = 'customer' THEN v_object->>'id'
+  END;
+
+  INSERT INTO stripe_events (
+    id, event_type, api_version, livemode, stripe_created_at,
+    object_id, stripe_customer_id, user_id, payload
+  )
+  VALUES (
+    p_event->>'id',
+    p_event->>'type',
+    p_event->>'api_version',
+    COALESCE((p_event->>'livemode')::BOOLEAN, false),
+    to_timestamp(COALESCE((p_event->>'created')::BIGINT, extract(epoch FROM NOW())::BIGINT)),
+    v_object->>'id',
+    v_customer,
+    resolve_stripe_event_user(v_customer, v_object),
+    p_event
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET delivery_count = stripe_events.delivery_count + 1,
+        last_delivered_at = NOW()
+  RETURNING status, attempts, (xmax = 0) INTO v_status, v_attempts, v_inserted;
+
+  RETURN jsonb_build_object(
+    'id', p_event->>'id',
+    'status', v_status,
+    'attempts', v_attempts,
+    'duplicate', NOT v_inserted
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_stripe_event(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_stripe_event(JSONB) TO service_role;
+
+-- =====================================================
+-- 4. FUNCTIONS: claim_stripe_event / finish_stripe_event (service_role)
+-- =====================================================
+-- claim: passa para 'processing' se o evento estiver pendente, com falha
+-- ou travado há mais de 5 minutos. p_force (replay do admin) também
+-- reprocessa eventos já processados. Devolve false se outra execução
+-- estiver em andamento ou se não houver nada a fazer.
+
+CREATE OR REPLACE FUNCTION claim_stripe_event(
+  p_event_id TEXT,
+  p_force BOOLEAN DEFAULT false,
+  p_replayed_by UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE stripe_events
+     SET status = 'processing',
+         attempts = attempts + 1,
+         processing_started_at = NOW(),
+         last_replayed_at = CASE WHEN p_replayed_by IS NOT NULL THEN NOW() ELSE last_replayed_at END,
+         last_replayed_by = COALESCE(p_replayed_by, last_replayed_by)
+   WHERE id = p_event_id
+     AND (
+       status IN ('pending', 'failed')
+       OR (status = 'processing' AND processing_started_at < NOW() - INTERVAL '5 minutes')
+       OR (p_force AND status <> 'processing')
+     );
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_stripe_event(TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_stripe_event(TEXT, BOOLEAN, UUID) TO service_role;
+
+-- finish: grava o resultado e os snapshots da API do Stripe. Snapshots já
+-- gravados não são substituídos (o replay reproduz o primeiro processamento).
+
+CREATE OR REPLACE FUNCTION finish_stripe_event(
+  p_event_id TEXT,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL,
+  p_snapshots JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status NOT IN ('processed', 'failed', 'ignored') THEN
+    RAISE EXCEPTION 'Status final inválido: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE stripe_events
+     SET status = p_status,
+         last_error = CASE WHEN p_status = 'failed' THEN left(p_error, 2000) END,
+         processed_at = CASE WHEN p_status = 'failed' THEN processed_at ELSE NOW() END,
+         stripe_snapshots = COALESCE(p_snapshots, '{}'::jsonb) || stripe_snapshots,
+         -- A primeira compra cria a assinatura durante o processamento
+         user_id = COALESCE(user_id, resolve_stripe_event_user(stripe_customer_id, payload->'data'->'object'))
+   WHERE id = p_event_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION finish_stripe_event(TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION finish_stripe_event(TEXT, TEXT, TEXT, JSONB) TO service_role;
+
+-- =====================================================
+-- 5. FUNCTION: list_user_stripe_events (service_role)
+-- =====================================================
+-- Eventos de um usuário em ordem cronológica do Stripe: pelo user_id
+-- associado ou por qualquer customer que já esteve nas assinaturas dele.
+
+CREATE OR REPLACE FUNCTION list_user_stripe_events(p_user_id UUID)
+RETURNS SETOF stripe_events
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.*
+    FROM stripe_events e
+   WHERE e.user_id = p_user_id
+      OR e.stripe_customer_id IN (
+        SELECT stripe_customer_id
+          FROM subscriptions
+         WHERE user_id = p_user_id
+           AND stripe_customer_id IS NOT NULL
+      )
+   ORDER BY e.stripe_created_at, e.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION list_user_stripe_events(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION list_user_stripe_events(UUID) TO service_role;
+
+-- =====================================================
+-- 6. FUNCTION: admin_list_stripe_events
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION admin_list_stripe_events(
+  p_status TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search TEXT := NULLIF(trim(COALESCE(p_search, '')), '');
+  v_total INT;
+  v_items JSONB;
+  v_counts JSONB;
+BEGIN
+  IF NOT COALESCE((SELECT is_admin FROM users WHERE id = auth.uid()), false) THEN
+    RAISE EXCEPTION 'Permissão negada: apenas administradores' USING ERRCODE = '42501';
+  END IF;
+
+  WITH filtered AS (
+    SELECT e.*, u.email AS user_email, u.nome_completo AS user_name
+      FROM stripe_events e
+      LEFT JOIN users u ON u.id = e.user_id
+     WHERE (p_status IS NULL OR e.status = p_status)
+       AND (p_user_id IS NULL OR e.user_id = p_user_id)
+       AND (
+         v_search IS NULL
+         OR e.id = v_search
+         OR e.object_id = v_search
+         OR e.stripe_customer_id = v_search
+         OR e.event_type ILIKE v_search || '%'
+         OR u.email ILIKE '%' || v_search || '%'
+         OR u.nome_completo ILIKE '%' || v_search || '%'
+       )
+  ),
+  page AS (
+    SELECT id, event_type, livemode, stripe_created_at, object_id,
+           stripe_customer_id, user_id, status, attempts, last_error,
+           delivery_count, received_at, processed_at, last_replayed_at,
+           payload, user_email, user_name
+      FROM filtered
+     ORDER BY received_at DESC
+     LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  )
+  SELECT (SELECT count(*) FROM filtered),
+         (SELECT COALESCE(jsonb_agg(row_to_json(page) ORDER BY page.received_at DESC), '[]'::jsonb) FROM page)
+    INTO v_total, v_items;
+
+  -- Contagem por status (sem o filtro de status, para os atalhos da tela)
+  SELECT COALESCE(jsonb_object_agg(status, total), '{}'::jsonb)
+    INTO v_counts
+    FROM (
+      SELECT status, count(*) AS total
+        FROM stripe_events
+       WHERE p_user_id IS NULL OR user_id = p_user_id
+       GROUP BY status
+    ) c;
+
+  RETURN jsonb_build_object('items', v_items, 'total', v_total, 'counts', v_counts);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION admin_list_stripe_events(TEXT, TEXT, UUID, INT, INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_list_stripe_events(TEXT, TEXT, UUID, INT, INT) TO authenticated;
+
+-- =====================================================
+-- 7. COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION record_stripe_event(JSONB) IS 'Grava o evento recebido do Stripe (reentregas incrementam delivery_count)';
+COMMENT ON FUNCTION claim_stripe_event(TEXT, BOOLEAN, UUID) IS 'Reserva o evento para processamento; p_force reprocessa eventos já concluídos (replay)';
+COMMENT ON FUNCTION finish_stripe_event(TEXT, TEXT, TEXT, JSONB) IS 'Registra o resultado do processamento (processed, failed, ignored) e os snapshots da API do Stripe';
+COMMENT ON FUNCTION list_user_stripe_events(UUID) IS 'Eventos do Stripe de um usuário em ordem cronológica (replay)';
+COMMENT ON FUNCTION admin_list_stripe_events(TEXT, TEXT, UUID, INT, INT) IS 'Lista de eventos do Stripe para a área administrativa';
+
+COMMIT;
@@ -0,0 +1,219 @@
+-- =====================================================
+-- LOG DE TRANSPARÊNCIA (ÁRVORE DE MERKLE)
+-- =====================================================
+-- Migration: Registro append-only de todos os certificados emitidos
+-- Created: 2026-10-18
+-- Description:
+--   1. transparency_log_entries: uma folha por certificado emitido
+--      (id, content_hash, key_id, código de verificação, data de emissão)
+--      com leaf_hash = SHA-256(0x00 || dados canônicos)
+--   2. transparency_tree_heads: tree heads assinados (STH) publicados
+--      periodicamente pela Edge Function transparency-log
+--   3. Triggers append-only: UPDATE, DELETE e TRUNCATE são recusados
+--   4. Trigger em signed_contents: toda emissão entra no log na mesma
+--      transação (índices contíguos, sem lacunas)
+--   5. Backfill dos certificados já emitidos (ordem de criação)
+-- As provas de inclusão/consistência são servidas pela Edge Function
+-- transparency-log e verificadas por src/lib/transparency-verifier.ts.
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. TABLE: transparency_log_entries
+-- =====================================================
+-- Sem FK para signed_contents: a entrada sobrevive à exclusão do
+-- certificado (é justamente o que o log precisa evidenciar).
+
+CREATE TABLE IF NOT EXISTS transparency_log_entries (
+  leaf_index BIGINT PRIMARY KEY CHECK (leaf_index >= 0),
+  content_id UUID NOT NULL UNIQUE,
+  content_hash TEXT NOT NULL,
+  key_id TEXT,
+  verification_code TEXT NOT NULL,
+  -- ISO 8601 UTC com milissegundos (exatamente como entra no hash)
+  issued_at TEXT NOT NULL,
+  leaf_hash TEXT NOT NULL CHECK (leaf_hash ~ '^[0-9a-f]{64}$'),
+  logged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE transparency_log_entries IS 'Log de transparência append-only: uma folha de Merkle por certificado emitido';
+COMMENT ON COLUMN transparency_log_entries.leaf_hash IS 'SHA-256(0x00 || "vid-log-v1\\n" + id, content_hash, key_id, código e issued_at separados por \\n)';
+
+-- =====================================================
+-- 2. TABLE: transparency_tree_heads
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS transparency_tree_heads (
+  tree_size BIGINT PRIMARY KEY CHECK (tree_size >= 0),
+  root_hash TEXT NOT NULL CHECK (root_hash ~ '^[0-9a-f]{64}$'),
+  -- ISO 8601 (exatamente como entra na mensagem assinada)
+  signed_at TEXT NOT NULL,
+  -- ECDSA P-256 / SHA-256 (r || s em base64) sobre
+  -- "vid-sth-v1\n<tree_size>\n<signed_at>\n<root_hash>"
+  signature TEXT NOT NULL,
+  -- SHA-256 (hex) da chave pública do log (SPKI)
+  log_key_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE transparency_tree_heads IS 'Tree heads assinados do log de transparência (STH)';
+
+-- =====================================================
+-- 3. APPEND-ONLY
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION prevent_transparency_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'O log de transparência é append-only (% recusado em %)', TG_OP, TG_TABLE_NAME
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transparency_log_entries_append_only ON transparency_log_entries;
+CREATE TRIGGER transparency_log_entries_append_only
+  BEFORE UPDATE OR DELETE ON transparency_log_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_transparency_log_changes();
+
+DROP TRIGGER IF EXISTS transparency_log_entries_no_truncate ON transparency_log_entries;
+CREATE TRIGGER transparency_log_entries_no_truncate
+  BEFORE TRUNCATE ON transparency_log_entries
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_transparency_log_changes();
+
+DROP TRIGGER IF EXISTS transparency_tree_heads_append_only ON transparency_tree_heads;
+CREATE TRIGGER transparency_tree_heads_append_only
+  BEFORE UPDATE OR DELETE ON transparency_tree_heads
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_transparency_log_changes();
+
+DROP TRIGGER IF EXISTS transparency_tree_heads_no_truncate ON transparency_tree_heads;
+CREATE TRIGGER transparency_tree_heads_no_truncate
+  BEFORE TRUNCATE ON transparency_tree_heads
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_transparency_log_changes();
+
+ALTER TABLE transparency_log_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transparency_tree_heads ENABLE ROW LEVEL SECURITY;
+
+-- Leitura pública (o log existe para ser auditado); escrita só pelo
+-- trigger (SECURITY DEFINER) e pela Edge Function (service_role)
+DROP POLICY IF EXISTS "Transparency log entries are public" ON transparency_log_entries;
+CREATE POLICY "Transparency log entries are public"
+  ON transparency_log_entries FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Transparency tree heads are public" ON transparency_tree_heads;
+CREATE POLICY "Transparency tree heads are public"
+  ON transparency_tree_heads FOR SELECT
+  USING (true);
+
+GRANT SELECT ON transparency_log_entries TO anon, authenticated;
+GRANT SELECT ON transparency_tree_heads TO anon, authenticated;
+
+-- =====================================================
+-- 4. LEAF HASH + TRIGGER: append_signed_content_to_log
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION transparency_leaf_hash(
+  p_content_id UUID,
+  p_content_hash TEXT,
+  p_key_id TEXT,
+  p_verification_code TEXT,
+  p_issued_at TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(
+    sha256(
+      '\x00'::bytea || convert_to(
+        'vid-log-v1' || E'\n' ||
+        p_content_id::text || E'\n' ||
+        p_content_hash || E'\n' ||
+        COALESCE(p_key_id, '') || E'\n' ||
+        p_verification_code || E'\n' ||
+        p_issued_at,
+        'UTF8'
+      )
+    ),
+    'hex'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION transparency_issued_at(p_created_at TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- Mesmo formato de Date.toISOString()
+  SELECT to_char(p_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+$$;
+
+CREATE OR REPLACE FUNCTION append_signed_content_to_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_leaf_index BIGINT;
+  v_issued_at TEXT;
+BEGIN
+  -- Serializa as emissões: índices contíguos na ordem de commit
+  PERFORM pg_advisory_xact_lock(hashtext('transparency_log_entries'));
+
+  SELECT COALESCE(MAX(leaf_index) + 1, 0) INTO v_leaf_index FROM transparency_log_entries;
+  v_issued_at := transparency_issued_at(COALESCE(NEW.created_at, NOW()));
+
+  INSERT INTO transparency_log_entries (
+    leaf_index, content_id, content_hash, key_id, verification_code, issued_at, leaf_hash
+  ) VALUES (
+    v_leaf_index,
+    NEW.id,
+    NEW.content_hash,
+    NEW.key_id::text,
+    NEW.verification_code,
+    v_issued_at,
+    transparency_leaf_hash(NEW.id, NEW.content_hash, NEW.key_id::text, NEW.verification_code, v_issued_at)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS append_signed_content_to_log_trigger ON signed_contents;
+CREATE TRIGGER append_signed_content_to_log_trigger
+  AFTER INSERT ON signed_contents
+  FOR EACH ROW
+  EXECUTE FUNCTION append_signed_content_to_log();
+
+COMMENT ON FUNCTION append_signed_content_to_log() IS 'Registra cada certificado emitido no log de transparência';
+
+-- =====================================================
+-- 5. BACKFILL: certificados já emitidos
+-- =====================================================
+
+INSERT INTO transparency_log_entries (
+  leaf_index, content_id, content_hash, key_id, verification_code, issued_at, leaf_hash
+)
+SELECT
+  (SELECT COALESCE(MAX(leaf_index) + 1, 0) FROM transparency_log_entries)
+    + ROW_NUMBER() OVER (ORDER BY sc.created_at, sc.id) - 1,
+  sc.id,
+  sc.content_hash,
+  sc.key_id::text,
+  sc.verification_code,
+  transparency_issued_at(sc.created_at),
+  transparency_leaf_hash(sc.id, sc.content_hash, sc.key_id::text, sc.verification_code, transparency_issued_at(sc.created_at))
+FROM signed_contents sc
+WHERE NOT EXISTS (
+  SELECT 1 FROM transparency_log_entries e WHERE e.content_id = sc.id
+);
+
+COMMIT;